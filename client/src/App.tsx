@@ -7,12 +7,30 @@ import { Sidebar } from "@/components/layout/sidebar";
 import Dashboard from "@/pages/dashboard";
 import Conversations from "@/pages/conversations";
 import QuestionBank from "@/pages/question-bank";
+import MessageTemplates from "@/pages/message-templates";
 import Configuration from "@/pages/configuration";
 import { KnowledgeGraphPage } from "@/pages/KnowledgeGraphPage";
 import ChatTestPage from "@/pages/chat-test";
+import DealAnalytics from "@/pages/deal-analytics";
+import AuthPage from "@/pages/auth-page";
 import NotFound from "@/pages/not-found";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
 
 function Router() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-background">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <AuthPage />;
+  }
+
   return (
     <div className="flex h-screen bg-background">
       <Sidebar />
@@ -21,8 +39,10 @@ function Router() {
           <Route path="/" component={Dashboard} />
           <Route path="/conversations" component={Conversations} />
           <Route path="/questions" component={QuestionBank} />
+          <Route path="/message-templates" component={MessageTemplates} />
           <Route path="/knowledge-graph" component={KnowledgeGraphPage} />
           <Route path="/chat-test" component={ChatTestPage} />
+          <Route path="/deal-analytics" component={DealAnalytics} />
           <Route path="/configuration" component={Configuration} />
           <Route component={NotFound} />
         </Switch>
@@ -36,7 +56,9 @@ function App() {
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <Toaster />
-        <Router />
+        <AuthProvider>
+          <Router />
+        </AuthProvider>
       </TooltipProvider>
     </QueryClientProvider>
   );
@@ -1,13 +1,18 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
 import { Progress } from "@/components/ui/progress";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { WhyPanel } from "@/components/ui/why-panel";
 import { useWebSocket } from "@/hooks/use-websocket";
-import { User, Phone, Building, MessageCircle, TrendingUp, Clock, ChartBar, Settings, HelpCircle } from "lucide-react";
+import { User, Phone, Building, MessageCircle, TrendingUp, Clock, ChartBar, Settings, HelpCircle, Check, CheckCheck, AlertCircle, Headphones, Bot, Send, CalendarClock, FileText, Download, RefreshCw, X } from "lucide-react";
 
 interface ConversationSummary {
   id: string;
@@ -23,12 +28,408 @@ interface ConversationSummary {
   tags: string[];
 }
 
+interface SessionWindow {
+  applies: boolean;
+  lastInboundAt: string | null;
+  expiresAt: string | null;
+  open: boolean;
+  suppressed: boolean;
+}
+
+interface Meeting {
+  id: string;
+  status: 'proposed' | 'booked' | 'cancelled' | 'expired';
+  proposedSlots: Array<{ startsAt: string; endsAt: string }>;
+  consultantName: string | null;
+  startsAt: string | null;
+  leadTimezone: string;
+}
+
+interface LeadBrief {
+  language: 'es' | 'en';
+  headline: string;
+  bant: Array<{ dimension: string; status: 'confirmed' | 'partial' | 'unknown'; score: number; detail: string | null }>;
+  companyFacts: string[];
+  technologies: string[];
+  painPoints: string[];
+  quotes: Array<{ text: string; topic: string }>;
+  openQuestions: string[];
+  nextStep: string;
+}
+
+interface EnrichedValue {
+  value: string | number;
+  source: string;
+  provider?: string;
+  evidence?: string;
+  confidence: number;
+}
+
+const ENRICHMENT_LABELS: Record<string, string> = {
+  region: 'Region',
+  domain: 'Domain',
+  company: 'Company',
+  industry: 'Industry',
+  employeeCount: 'Employees',
+  revenue: 'Revenue',
+  city: 'City'
+};
+
+interface SlotEntry {
+  value: any;
+  confidence: number;
+  source: 'nlp' | 'button';
+  sourceMessageId: string;
+  statedBy?: string;
+  evidence?: string;
+  capturedAt: string;
+}
+
+const SLOT_LABELS: Record<string, string> = {
+  budget: 'Budget',
+  currency: 'Currency',
+  decisionMaker: 'Decision maker',
+  timeline: 'Timeline',
+  currentTools: 'Current tools',
+  spocHours: 'SPOC hours',
+  painPoints: 'Pain points'
+};
+
+function formatSlot(slot: string, value: any): string {
+  switch (slot) {
+    case 'budget': {
+      const min = value?.min?.toLocaleString();
+      const max = value?.max?.toLocaleString();
+      if (min && max) return min === max ? min : `${min} – ${max}`;
+      return min ? `> ${min}` : `< ${max}`;
+    }
+    case 'decisionMaker':
+      return [value?.title || value?.role, value?.process && value.process !== 'unknown' ? value.process : null].filter(Boolean).join(' · ');
+    case 'timeline':
+      return value?.text || '';
+    case 'spocHours':
+      return `${value} h/week`;
+    default:
+      return Array.isArray(value) ? value.join(', ') : String(value);
+  }
+}
+
 interface ConversationDetails {
   conversation: any;
   metrics: any;
   situationState: any;
   messages: any[];
   decisionTraces: any[];
+  sessionWindow?: SessionWindow;
+  meeting?: Meeting | null;
+}
+
+function describeSessionWindow(window: SessionWindow): string {
+  if (!window.open || !window.expiresAt) return 'Closed · templates only';
+  const hoursLeft = Math.max(1, Math.ceil((new Date(window.expiresAt).getTime() - Date.now()) / (60 * 60 * 1000)));
+  return `Open · ${hoursLeft}h left`;
+}
+
+function MeetingInfo({ conversation, meeting }: { conversation: any; meeting?: Meeting | null }) {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+
+  const proposeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/conversations/${conversation.id}/meeting-proposals`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/conversations', conversation.id] });
+      toast({ title: "Call slots offered to the lead" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not offer a call", description: error.message, variant: "destructive" });
+    }
+  });
+
+  if (meeting?.status === 'booked' && meeting.startsAt) {
+    return (
+      <div className="flex justify-between items-center">
+        <span className="text-muted-foreground">Call</span>
+        <span className="flex items-center gap-2" data-testid="meeting-booked">
+          {new Date(meeting.startsAt).toLocaleString()}
+          {meeting.consultantName && ` · ${meeting.consultantName}`}
+          <a href={`/api/meetings/${meeting.id}/invite.ics`} className="text-primary underline">
+            Invite
+          </a>
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex justify-between items-center">
+      <span className="text-muted-foreground">Call</span>
+      {meeting?.status === 'proposed' ? (
+        <span data-testid="meeting-proposed">{meeting.proposedSlots.length} slots offered</span>
+      ) : hasRole('admin', 'sales_rep') && conversation.status === 'qualified' && !conversation.suppressed ? (
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-6 text-xs"
+          onClick={() => proposeMutation.mutate()}
+          disabled={proposeMutation.isPending}
+          data-testid="button-offer-call"
+        >
+          <CalendarClock className="w-3 h-3 mr-1" />
+          Offer call
+        </Button>
+      ) : (
+        <span>—</span>
+      )}
+    </div>
+  );
+}
+
+function EnrichmentInfo({ conversation }: { conversation: any }) {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const fields: Record<string, EnrichedValue> = conversation.metadata?.enrichment?.fields || {};
+
+  const enrichMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/conversations/${conversation.id}/enrichment`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/conversations', conversation.id] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Enrichment failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center justify-between">
+          Enrichment
+          {hasRole('admin', 'analyst', 'sales_rep') && (
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6"
+              onClick={() => enrichMutation.mutate()}
+              disabled={enrichMutation.isPending}
+              data-testid="button-enrich"
+            >
+              <RefreshCw className="w-3 h-3" />
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-xs">
+        {Object.keys(fields).length === 0 ? (
+          <p className="text-muted-foreground">Nothing found yet</p>
+        ) : (
+          Object.entries(ENRICHMENT_LABELS).filter(([field]) => fields[field]).map(([field, label]) => (
+            <div key={field} className="flex justify-between" data-testid={`enrichment-${field}`}>
+              <span className="text-muted-foreground">{label}</span>
+              <span
+                title={`${fields[field].provider || fields[field].source}${fields[field].evidence ? ` · ${fields[field].evidence}` : ''}`}
+              >
+                {fields[field].value}
+                <span className="text-muted-foreground"> · {Math.round(fields[field].confidence * 100)}%</span>
+              </span>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function SlotsInfo({ conversation }: { conversation: any }) {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const slots: Record<string, SlotEntry> = conversation.metadata?.slots || {};
+
+  const clearMutation = useMutation({
+    mutationFn: async (slot: string) => {
+      const response = await apiRequest('DELETE', `/api/conversations/${conversation.id}/slots/${slot}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/conversations', conversation.id] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not clear slot", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm">Qualification slots</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-xs">
+        {Object.keys(slots).length === 0 ? (
+          <p className="text-muted-foreground">Nothing stated yet</p>
+        ) : (
+          Object.entries(SLOT_LABELS).filter(([slot]) => slots[slot]).map(([slot, label]) => (
+            <div key={slot} className="flex justify-between gap-2" data-testid={`slot-${slot}`}>
+              <span className="text-muted-foreground shrink-0">{label}</span>
+              <span
+                className="text-right"
+                title={`${slots[slot].source === 'button' ? 'Button reply' : 'Extracted from text'}${slots[slot].evidence ? ` · ${slots[slot].evidence}` : ''}`}
+              >
+                {formatSlot(slot, slots[slot].value)}
+                <span className="text-muted-foreground"> · {Math.round(slots[slot].confidence * 100)}%</span>
+                <span className="block text-muted-foreground">
+                  {slots[slot].statedBy ? `${slots[slot].statedBy}, ` : ''}
+                  {new Date(slots[slot].capturedAt).toLocaleDateString()}
+                </span>
+              </span>
+              {hasRole('admin', 'analyst', 'sales_rep') && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-5 w-5 shrink-0"
+                  onClick={() => clearMutation.mutate(slot)}
+                  disabled={clearMutation.isPending}
+                  title="Clear so it is asked again"
+                  data-testid={`button-clear-slot-${slot}`}
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const BANT_STATUS_COLORS: Record<string, string> = {
+  confirmed: 'text-green-400',
+  partial: 'text-yellow-400',
+  unknown: 'text-muted-foreground'
+};
+
+function LeadBriefDialog({ conversationId, language }: { conversationId: string; language?: string | null }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [briefLanguage, setBriefLanguage] = useState<'es' | 'en'>(language === 'en' ? 'en' : 'es');
+  const url = `/api/conversations/${conversationId}/brief?language=${briefLanguage}`;
+
+  const { data: brief, isLoading } = useQuery<LeadBrief>({
+    queryKey: [url],
+    enabled: isOpen,
+    staleTime: 0
+  });
+
+  const list = (items: string[]) => items.length > 0
+    ? <ul className="list-disc pl-4 space-y-1">{items.map(item => <li key={item}>{item}</li>)}</ul>
+    : <p className="text-muted-foreground">—</p>;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="h-6 text-xs" data-testid="button-lead-brief">
+          <FileText className="w-3 h-3 mr-1" />
+          Brief
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center justify-between pr-6">
+            <span>Lead Brief</span>
+            <span className="flex items-center gap-2">
+              {(['es', 'en'] as const).map(option => (
+                <Button
+                  key={option}
+                  size="sm"
+                  variant={briefLanguage === option ? 'default' : 'outline'}
+                  className="h-6 text-xs uppercase"
+                  onClick={() => setBriefLanguage(option)}
+                >
+                  {option}
+                </Button>
+              ))}
+            </span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading || !brief ? (
+          <div className="animate-pulse h-24 bg-muted rounded" />
+        ) : (
+          <div className="space-y-4 text-sm" data-testid="lead-brief">
+            <p className="text-muted-foreground">{brief.headline}</p>
+
+            <div className="grid grid-cols-2 gap-2">
+              {brief.bant.map(item => (
+                <div key={item.dimension} className="border rounded p-2">
+                  <div className="flex justify-between text-xs">
+                    <span className="capitalize">{item.dimension}</span>
+                    <span className={BANT_STATUS_COLORS[item.status]}>{item.status}</span>
+                  </div>
+                  <Progress value={item.score * 100} className="h-1 my-1" />
+                  {item.detail && <p className="text-xs text-muted-foreground">{item.detail}</p>}
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <h4 className="font-medium mb-1">Company</h4>
+                {list(brief.companyFacts)}
+              </div>
+              <div>
+                <h4 className="font-medium mb-1">Technologies</h4>
+                {list(brief.technologies)}
+              </div>
+              <div>
+                <h4 className="font-medium mb-1">Pain Points</h4>
+                {list(brief.painPoints)}
+              </div>
+            </div>
+
+            {brief.quotes.length > 0 && (
+              <div>
+                <h4 className="font-medium mb-1">Key Quotes</h4>
+                {brief.quotes.map(quote => (
+                  <blockquote key={quote.text} className="border-l-2 pl-2 italic text-muted-foreground mb-1">
+                    "{quote.text}" <span className="not-italic text-xs">({quote.topic})</span>
+                  </blockquote>
+                ))}
+              </div>
+            )}
+
+            <div>
+              <h4 className="font-medium mb-1">Open Questions</h4>
+              {list(brief.openQuestions)}
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-1">Next Step</h4>
+              <p data-testid="lead-brief-next-step">{brief.nextStep}</p>
+            </div>
+
+            <div className="flex gap-2 pt-2 border-t">
+              <Button size="sm" variant="outline" asChild>
+                <a href={`${url}&format=markdown`} data-testid="download-brief-markdown">
+                  <Download className="w-3 h-3 mr-1" />
+                  Markdown
+                </a>
+              </Button>
+              <Button size="sm" variant="outline" asChild>
+                <a href={`${url}&format=pdf`} data-testid="download-brief-pdf">
+                  <Download className="w-3 h-3 mr-1" />
+                  PDF
+                </a>
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
 }
 
 function ConversationCard({ conversation, onClick }: { 
@@ -131,6 +532,109 @@ function ConversationCard({ conversation, onClick }: {
   );
 }
 
+function DeliveryStatus({ status, error }: { status?: string | null; error?: string | null }) {
+  switch (status) {
+    case 'sent':
+      return <Check className="w-3 h-3" data-testid="delivery-sent" />;
+    case 'delivered':
+      return <CheckCheck className="w-3 h-3" data-testid="delivery-delivered" />;
+    case 'read':
+      return <CheckCheck className="w-3 h-3 text-sky-300" data-testid="delivery-read" />;
+    case 'failed':
+      return (
+        <span title={error || 'Delivery failed'}>
+          <AlertCircle className="w-3 h-3 text-red-300" data-testid="delivery-failed" />
+        </span>
+      );
+    default:
+      return null;
+  }
+}
+
+function OperatorControls({ conversation }: { conversation: any }) {
+  const [reply, setReply] = useState('');
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canOperate = hasRole('admin', 'sales_rep');
+  const isHuman = conversation.handoffMode === 'human';
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/conversations', conversation.id] });
+    queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
+  };
+
+  const handoffMutation = useMutation({
+    mutationFn: async (action: 'claim' | 'release') => {
+      const response = await apiRequest('POST', `/api/conversations/${conversation.id}/${action}`);
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError: (error: Error) => {
+      toast({ title: "Handoff failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async (content: string) => {
+      const response = await apiRequest('POST', `/api/conversations/${conversation.id}/operator-messages`, { content });
+      return response.json();
+    },
+    onSuccess: () => {
+      setReply('');
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error sending message", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <div className="p-3 border-t space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="flex items-center gap-1 text-muted-foreground">
+          {isHuman ? <Headphones className="w-3 h-3" /> : <Bot className="w-3 h-3" />}
+          {isHuman ? `Handled by ${conversation.assignedTo}` : 'Bot is handling this conversation'}
+        </span>
+        {canOperate && (
+          <Button
+            size="sm"
+            variant={isHuman ? 'outline' : 'default'}
+            onClick={() => handoffMutation.mutate(isHuman ? 'release' : 'claim')}
+            disabled={handoffMutation.isPending}
+            data-testid="button-handoff"
+          >
+            {isHuman ? 'Hand back to bot' : 'Take over'}
+          </Button>
+        )}
+      </div>
+      {isHuman && canOperate && conversation.suppressed && (
+        <p className="text-xs text-muted-foreground" data-testid="text-suppressed">
+          The contact opted out; replies are blocked until they write ALTA or START.
+        </p>
+      )}
+      {isHuman && canOperate && !conversation.suppressed && (
+        <div className="flex gap-2">
+          <Textarea
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            placeholder="Write a reply..."
+            className="min-h-[40px] text-sm"
+            data-testid="input-operator-reply"
+          />
+          <Button
+            size="icon"
+            onClick={() => sendMutation.mutate(reply.trim())}
+            disabled={!reply.trim() || sendMutation.isPending}
+            data-testid="button-operator-send"
+          >
+            <Send className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
 function ConversationDetailsModal({ 
   conversationId, 
   isOpen, 
@@ -168,7 +672,7 @@ function ConversationDetailsModal({
                 <div className="p-3 border-b bg-muted/50">
                   <h3 className="font-medium">Conversation History</h3>
                 </div>
-                <ScrollArea className="h-[calc(100%-3rem)] p-4">
+                <ScrollArea className="h-[calc(100%-8rem)] p-4">
                   <div className="space-y-4">
                     {details.messages?.map((message) => (
                       <div
@@ -182,15 +686,49 @@ function ConversationDetailsModal({
                               : 'bg-muted'
                           }`}
                         >
+                          {message.metadata?.media?.storageKey && (
+                            message.messageType === 'image' ? (
+                              <img
+                                src={`/api/media/${message.metadata.media.storageKey}`}
+                                alt={message.metadata.media.caption || 'Image'}
+                                className="rounded mb-1 max-h-48"
+                              />
+                            ) : (
+                              <a
+                                href={`/api/media/${message.metadata.media.storageKey}`}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="underline text-xs block mb-1"
+                              >
+                                {message.metadata.media.filename || 'Download attachment'}
+                              </a>
+                            )
+                          )}
+                          {message.metadata?.operator && (
+                            <p className="text-xs opacity-70 mb-1">{message.metadata.operator}</p>
+                          )}
                           <p>{message.content}</p>
-                          <p className="text-xs opacity-70 mt-1">
-                            {new Date(message.timestamp).toLocaleTimeString('es-ES')}
-                          </p>
+                          {message.metadata?.interactive?.options && (
+                            <div className="flex flex-wrap gap-1 mt-2">
+                              {message.metadata.interactive.options.map((option: { id: string; title: string }) => (
+                                <span key={option.id} className="border border-current rounded px-2 py-0.5 text-xs opacity-80">
+                                  {option.title}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                          <div className="flex items-center justify-end gap-1 text-xs opacity-70 mt-1">
+                            <span>{new Date(message.timestamp).toLocaleTimeString('es-ES')}</span>
+                            {message.direction === 'outgoing' && (
+                              <DeliveryStatus status={message.deliveryStatus} error={message.deliveryError} />
+                            )}
+                          </div>
                         </div>
                       </div>
                     ))}
                   </div>
                 </ScrollArea>
+                <OperatorControls conversation={details.conversation} />
               </div>
             </div>
 
@@ -266,6 +804,81 @@ function ConversationDetailsModal({
                       {details.conversation?.status}
                     </Badge>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Mode</span>
+                    <span className="capitalize">{details.conversation?.handoffMode || 'bot'}</span>
+                  </div>
+                  {details.sessionWindow?.applies && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Session Window</span>
+                      <span
+                        className={details.sessionWindow.open ? 'text-green-400' : 'text-yellow-400'}
+                        data-testid="session-window"
+                      >
+                        {describeSessionWindow(details.sessionWindow)}
+                      </span>
+                    </div>
+                  )}
+                  {details.conversation?.suppressed && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Messaging</span>
+                      <Badge variant="destructive" className="text-xs" data-testid="badge-suppressed">
+                        Opted out
+                      </Badge>
+                    </div>
+                  )}
+                  {details.conversation && (
+                    <MeetingInfo conversation={details.conversation} meeting={details.meeting} />
+                  )}
+                  {details.conversation && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-muted-foreground">Handoff</span>
+                      <LeadBriefDialog conversationId={details.conversation.id} language={details.conversation.language} />
+                    </div>
+                  )}
+                  {details.conversation?.metadata?.icp && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-muted-foreground">ICP Fit</span>
+                      <div className="flex items-center gap-1">
+                        <span data-testid="icp-score">
+                          {Math.round(details.conversation.metadata.icp.score * 100)}%
+                          {details.conversation.metadata.icp.band && ` · ${details.conversation.metadata.icp.band}`}
+                        </span>
+                        <WhyPanel
+                          traceId={details.conversation.metadata.icp.traceId}
+                          decisionText={
+                            details.conversation.metadata.icp.knockedOutBy?.length > 0
+                              ? 'Disqualified by a knock-out rule'
+                              : `ICP score ${Math.round(details.conversation.metadata.icp.score * 100)}%`
+                          }
+                          decisionType="qualification_assessment"
+                        />
+                      </div>
+                    </div>
+                  )}
+                  {details.conversation?.metadata?.leadScore && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-muted-foreground">Win Probability</span>
+                      <div className="flex items-center gap-1">
+                        <span data-testid="win-probability">
+                          {Math.round(details.conversation.metadata.leadScore.probability * 100)}%
+                        </span>
+                        <WhyPanel
+                          traceId={details.conversation.metadata.leadScore.traceId}
+                          decisionText={
+                            details.conversation.metadata.leadScore.modelVersion
+                              ? `Win probability ${Math.round(details.conversation.metadata.leadScore.probability * 100)}% (scoring model v${details.conversation.metadata.leadScore.modelVersion})`
+                              : `Win probability ${Math.round(details.conversation.metadata.leadScore.probability * 100)}% (hand-weighted, no model trained yet)`
+                          }
+                          decisionType="qualification_assessment"
+                        />
+                      </div>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Channel</span>
+                    <span className="capitalize">{details.conversation?.channel || 'whatsapp'}</span>
+                  </div>
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Language</span>
                     <span>{details.conversation?.language?.toUpperCase()}</span>
@@ -276,6 +889,10 @@ function ConversationDetailsModal({
                   </div>
                 </CardContent>
               </Card>
+
+              {details.conversation && <EnrichmentInfo conversation={details.conversation} />}
+
+              {details.conversation && <SlotsInfo conversation={details.conversation} />}
             </div>
 
             {/* Decision Traces - 1 column */}
@@ -336,6 +953,26 @@ export function ConversationPanel() {
   // Use WebSocket for real-time updates
   const { lastMessage } = useWebSocket();
 
+  const { toast } = useToast();
+
+  // Refresh the open conversation when delivery receipts arrive, and alert reps on escalations
+  useEffect(() => {
+    if (lastMessage?.type === 'message_status') {
+      queryClient.invalidateQueries({ queryKey: ['/api/conversations', lastMessage.data.conversationId] });
+    }
+    if (lastMessage?.type === 'conversation_update') {
+      queryClient.invalidateQueries({ queryKey: ['/api/conversations', lastMessage.data.conversation?.id] });
+    }
+    if (lastMessage?.type === 'escalation') {
+      const { escalation, contactName } = lastMessage.data;
+      toast({
+        title: `Escalation: ${contactName || 'conversation'}`,
+        description: escalation.reason,
+        variant: escalation.severity === 'high' ? 'destructive' : 'default'
+      });
+    }
+  }, [lastMessage]);
+
   // Transform conversations data for display
   const conversationSummaries: ConversationSummary[] = conversations?.map((conv: any) => ({
     id: conv.id,
@@ -343,7 +980,8 @@ export function ConversationPanel() {
     contactPhone: conv.contactPhone,
     company: conv.company,
     status: conv.status,
-    qualificationScore: conv.latestMetrics?.qualificationScore || 0,
+    // ICP score once the rules have run, BANT qualification before that
+    qualificationScore: conv.metadata?.icp ? conv.qualificationScore : conv.latestMetrics?.qualificationScore || 0,
     engagementScore: conv.latestMetrics?.engagementScore || 0,
     lastMessage: conv.lastMessage || 'No messages yet',
     lastActivity: conv.lastActivity,
@@ -352,7 +990,8 @@ export function ConversationPanel() {
       conv.latestMetrics?.qualificationScore > 0.7 ? 'High Potential' : 
       conv.latestMetrics?.qualificationScore > 0.4 ? 'Moderate' : 'Early Stage',
       conv.latestMetrics?.technicalScore > 0.6 ? 'Tech Savvy' : null,
-      conv.latestMetrics?.engagementScore > 0.7 ? 'Highly Engaged' : null
+      conv.latestMetrics?.engagementScore > 0.7 ? 'Highly Engaged' : null,
+      conv.handoffMode === 'human' ? 'Operator' : null
     ].filter(Boolean)
   })) || [];
 
@@ -400,7 +1039,7 @@ export function ConversationPanel() {
               <MessageCircle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <p className="text-muted-foreground">No active conversations</p>
               <p className="text-sm text-muted-foreground">
-                Conversations will appear here when you receive WhatsApp messages
+                Conversations will appear here when leads message any connected channel
               </p>
             </div>
           ) : (
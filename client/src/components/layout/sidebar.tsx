@@ -2,6 +2,7 @@ import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/hooks/use-auth";
 import { 
   ChartLine, 
   MessageCircle, 
@@ -11,7 +12,10 @@ import {
   Shield, 
   User,
   MessageSquare,
-  Network
+  Network,
+  TrendingUp,
+  MessagesSquare,
+  LogOut
 } from "lucide-react";
 
 const navigation = [
@@ -33,12 +37,24 @@ const navigation = [
     icon: HelpCircle,
     badge: null
   },
+  {
+    name: "Message Templates",
+    href: "/message-templates",
+    icon: MessagesSquare,
+    badge: null
+  },
   {
     name: "Knowledge Graph",
     href: "/knowledge-graph",
     icon: Network,
     badge: null
   },
+  {
+    name: "Deal Analytics",
+    href: "/deal-analytics",
+    icon: TrendingUp,
+    badge: null
+  },
   {
     name: "Chat Testing",
     href: "/chat-test",
@@ -68,8 +84,16 @@ const systemNavigation = [
   }
 ];
 
+const roleLabels: Record<string, string> = {
+  admin: "System Admin",
+  analyst: "Analyst",
+  sales_rep: "Sales Rep",
+  viewer: "Read-only"
+};
+
 export function Sidebar() {
   const [location] = useLocation();
+  const { user, logoutMutation } = useAuth();
 
   return (
     <aside className="w-64 bg-card border-r border-border flex flex-col" data-testid="sidebar">
@@ -156,9 +180,20 @@ export function Sidebar() {
             <User className="text-muted-foreground text-sm" />
           </div>
           <div className="flex-1">
-            <p className="text-sm font-medium" data-testid="user-name">Admin User</p>
-            <p className="text-xs text-muted-foreground" data-testid="user-role">System Admin</p>
+            <p className="text-sm font-medium" data-testid="user-name">{user?.username}</p>
+            <p className="text-xs text-muted-foreground" data-testid="user-role">
+              {roleLabels[user?.role || 'viewer']}
+            </p>
           </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+            data-testid="button-logout"
+          >
+            <LogOut className="h-4 w-4" />
+          </Button>
         </div>
       </div>
     </aside>
@@ -0,0 +1,717 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2, CheckCircle2, AlertTriangle, Save, GitBranch } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+
+type Stage = 'early' | 'mid' | 'late';
+type Operator = 'gte' | 'gt' | 'lte' | 'lt' | 'eq';
+
+type Condition =
+  | { metric: string; operator: Operator; value: number }
+  | { anyOf: Condition[] };
+
+interface PlaybookNode {
+  id: string;
+  type: 'category' | 'question' | 'terminal';
+  label?: string;
+  category?: string;
+  questionId?: string;
+  stages?: Stage[];
+  preconditions?: Condition[];
+  outcome?: 'qualified' | 'disqualified' | 'handoff' | 'complete';
+  position?: { x: number; y: number };
+}
+
+interface PlaybookEdge {
+  id: string;
+  from: string;
+  to: string;
+  when?: { optionIds?: string[]; keywords?: string[]; conditions?: Condition[] };
+}
+
+interface PlaybookGraph {
+  entry: string[];
+  nodes: PlaybookNode[];
+  edges: PlaybookEdge[];
+}
+
+interface Playbook {
+  id: string;
+  name: string;
+  description?: string;
+  isActive: boolean;
+  graph: PlaybookGraph;
+  version: number;
+  updatedBy?: string;
+  updatedAt: string;
+}
+
+interface ResolvedPlaybook {
+  id: string;
+  name: string;
+  version: number;
+  graph: PlaybookGraph;
+}
+
+interface PlaybookIssue {
+  severity: 'error' | 'warning';
+  nodeId?: string;
+  edgeId?: string;
+  message: string;
+}
+
+interface PlaybookValidation {
+  valid: boolean;
+  unreachable: string[];
+  issues: PlaybookIssue[];
+}
+
+interface PlaybookQuestion {
+  id: string;
+  category: string;
+  questionText: string;
+}
+
+const NODE_WIDTH = 170;
+const NODE_HEIGHT = 52;
+const STAGES: Stage[] = ['early', 'mid', 'late'];
+const OPERATORS: Array<{ value: Operator; label: string }> = [
+  { value: 'gt', label: '>' },
+  { value: 'gte', label: '≥' },
+  { value: 'lt', label: '<' },
+  { value: 'lte', label: '≤' },
+  { value: 'eq', label: '=' }
+];
+
+const NODE_STYLES: Record<PlaybookNode['type'], string> = {
+  category: "fill-blue-50 stroke-blue-500",
+  question: "fill-green-50 stroke-green-600",
+  terminal: "fill-gray-100 stroke-gray-600"
+};
+
+/** Columns by distance from the entry nodes for nodes that were never placed; unreachable ones go last */
+function layout(graph: PlaybookGraph): PlaybookGraph {
+  if (graph.nodes.every(node => node.position)) return graph;
+
+  const depth = new Map<string, number>();
+  const queue = graph.entry.map(id => ({ id, level: 0 }));
+  while (queue.length > 0) {
+    const { id, level } = queue.shift()!;
+    if (depth.has(id)) continue;
+    depth.set(id, level);
+    graph.edges.filter(edge => edge.from === id).forEach(edge => queue.push({ id: edge.to, level: level + 1 }));
+  }
+
+  const maxDepth = Math.max(0, ...Array.from(depth.values()));
+  const rows = new Map<number, number>();
+  return {
+    ...graph,
+    nodes: graph.nodes.map(node => {
+      if (node.position) return node;
+      const column = depth.get(node.id) ?? maxDepth + 1;
+      const row = rows.get(column) || 0;
+      rows.set(column, row + 1);
+      return { ...node, position: { x: 20 + column * (NODE_WIDTH + 60), y: 20 + row * (NODE_HEIGHT + 24) } };
+    })
+  };
+}
+
+function describeCondition(condition: Condition): string {
+  if ('anyOf' in condition) {
+    return `any of (${condition.anyOf.map(describeCondition).join(', ')})`;
+  }
+  const operator = OPERATORS.find(o => o.value === condition.operator)?.label || condition.operator;
+  return `${condition.metric} ${operator} ${condition.value}`;
+}
+
+function splitList(value: string): string[] | undefined {
+  const items = value.split(',').map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+function ConditionList({ conditions, onChange }: { conditions: Condition[]; onChange: (conditions: Condition[]) => void }) {
+  const update = (index: number, condition: Condition) => onChange(conditions.map((c, i) => i === index ? condition : c));
+
+  return (
+    <div className="space-y-2">
+      {conditions.map((condition, index) => (
+        <div key={index} className="flex items-center gap-1">
+          {'anyOf' in condition ? (
+            <Badge variant="secondary" className="text-xs font-normal flex-1 justify-start">
+              {describeCondition(condition)}
+            </Badge>
+          ) : (
+            <>
+              <Input
+                value={condition.metric}
+                onChange={(e) => update(index, { ...condition, metric: e.target.value })}
+                placeholder="trust.transparency"
+                className="h-8 text-xs flex-1"
+              />
+              <Select value={condition.operator} onValueChange={(operator) => update(index, { ...condition, operator: operator as Operator })}>
+                <SelectTrigger className="h-8 w-14 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OPERATORS.map(o => <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                step="0.1"
+                value={condition.value}
+                onChange={(e) => update(index, { ...condition, value: parseFloat(e.target.value) || 0 })}
+                className="h-8 w-16 text-xs"
+              />
+            </>
+          )}
+          <Button size="sm" variant="ghost" onClick={() => onChange(conditions.filter((_, i) => i !== index))}>
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        size="sm"
+        variant="outline"
+        className="h-7 text-xs"
+        onClick={() => onChange([...conditions, { metric: '', operator: 'gt', value: 0.5 }])}
+      >
+        <Plus className="h-3 w-3 mr-1" />
+        Condition
+      </Button>
+    </div>
+  );
+}
+
+export function PlaybookEditor({ questions, categories }: {
+  questions: PlaybookQuestion[];
+  categories: Array<{ value: string; label: string }>;
+}) {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canEdit = hasRole('admin', 'analyst');
+
+  const [playbookId, setPlaybookId] = useState<string | null>(null); // Null: unsaved draft
+  const [name, setName] = useState("");
+  const [isActive, setIsActive] = useState(false);
+  const [graph, setGraph] = useState<PlaybookGraph>({ entry: [], nodes: [], edges: [] });
+  const [selected, setSelected] = useState<{ kind: 'node' | 'edge'; id: string } | null>(null);
+  const [validation, setValidation] = useState<PlaybookValidation | null>(null);
+  const [followUpTarget, setFollowUpTarget] = useState("");
+  const dragging = useRef<{ id: string; dx: number; dy: number } | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const { data: playbooks } = useQuery<Playbook[]>({ queryKey: ['/api/playbooks'] });
+  const { data: active } = useQuery<ResolvedPlaybook>({ queryKey: ['/api/playbooks', 'active'] });
+
+  const load = (playbook: { id: string | null; name: string; isActive: boolean; graph: PlaybookGraph }) => {
+    setPlaybookId(playbook.id);
+    setName(playbook.name);
+    setIsActive(playbook.isActive);
+    setGraph(layout(playbook.graph));
+    setSelected(null);
+    setValidation(null);
+  };
+
+  // Open the playbook in use once it is known
+  useEffect(() => {
+    if (!active || name) return;
+    const stored = playbooks?.find(p => p.id === active.id);
+    load(stored || { id: null, name: `${active.name} (copy)`, isActive: false, graph: active.graph });
+  }, [active, playbooks]);
+
+  const nodeById = useMemo(() => new Map(graph.nodes.map(node => [node.id, node])), [graph.nodes]);
+
+  // Known categories plus the ones only questions or the graph use
+  const categoryOptions = useMemo(() => {
+    const extra = [...questions.map(q => q.category), ...graph.nodes.map(node => node.category)]
+      .filter((category): category is string => !!category && !categories.some(c => c.value === category));
+    return [...categories, ...Array.from(new Set(extra)).map(value => ({ value, label: value }))];
+  }, [categories, questions, graph.nodes]);
+  const selectedNode = selected?.kind === 'node' ? nodeById.get(selected.id) : undefined;
+  const selectedEdge = selected?.kind === 'edge' ? graph.edges.find(edge => edge.id === selected.id) : undefined;
+  const issuesFor = (nodeId: string) => validation?.issues.filter(issue => issue.nodeId === nodeId) || [];
+
+  const updateNode = (id: string, changes: Partial<PlaybookNode>) =>
+    setGraph(g => ({ ...g, nodes: g.nodes.map(node => node.id === id ? { ...node, ...changes } : node) }));
+  const updateEdge = (id: string, changes: Partial<PlaybookEdge>) =>
+    setGraph(g => ({ ...g, edges: g.edges.map(edge => edge.id === id ? { ...edge, ...changes } : edge) }));
+
+  const addNode = () => {
+    let n = graph.nodes.length + 1;
+    while (nodeById.has(`node_${n}`)) n++;
+    const id = `node_${n}`;
+    setGraph(g => ({
+      ...g,
+      nodes: [...g.nodes, { id, type: 'category', category: categories[0]?.value, position: { x: 20, y: 20 + g.nodes.length * 8 } }]
+    }));
+    setSelected({ kind: 'node', id });
+  };
+
+  const removeNode = (id: string) => {
+    setGraph(g => ({
+      entry: g.entry.filter(entry => entry !== id),
+      nodes: g.nodes.filter(node => node.id !== id),
+      edges: g.edges.filter(edge => edge.from !== id && edge.to !== id)
+    }));
+    setSelected(null);
+  };
+
+  const addFollowUp = (from: string, to: string) => {
+    let n = 1;
+    while (graph.edges.some(edge => edge.id === `${from}_${to}_${n}`)) n++;
+    const id = `${from}_${to}_${n}`;
+    setGraph(g => ({ ...g, edges: [...g.edges, { id, from, to }] }));
+    setFollowUpTarget("");
+    setSelected({ kind: 'edge', id });
+  };
+
+  const toSvgPoint = (event: React.MouseEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const onNodeMouseDown = (event: React.MouseEvent, node: PlaybookNode) => {
+    event.stopPropagation();
+    setSelected({ kind: 'node', id: node.id });
+    if (!canEdit) return;
+    const point = toSvgPoint(event);
+    dragging.current = { id: node.id, dx: point.x - node.position!.x, dy: point.y - node.position!.y };
+  };
+
+  const onMouseMove = (event: React.MouseEvent) => {
+    if (!dragging.current) return;
+    const point = toSvgPoint(event);
+    const { id, dx, dy } = dragging.current;
+    updateNode(id, { position: { x: Math.max(0, point.x - dx), y: Math.max(0, point.y - dy) } });
+  };
+
+  const validateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/playbooks/validate', { graph });
+      return res.json() as Promise<PlaybookValidation>;
+    },
+    onSuccess: setValidation,
+    onError: (error: Error) => {
+      toast({ title: "Could not validate playbook", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(playbookId ? `/api/playbooks/${playbookId}` : '/api/playbooks', {
+        method: playbookId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ name, isActive, graph })
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        if (body.validation) setValidation(body.validation);
+        throw new Error(body.error || 'Failed to save playbook');
+      }
+      return body as Playbook;
+    },
+    onSuccess: (saved) => {
+      setPlaybookId(saved.id);
+      queryClient.invalidateQueries({ queryKey: ['/api/playbooks'] });
+      toast({ title: saved.isActive ? "Playbook saved and active" : "Playbook saved" });
+      validateMutation.mutate();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save playbook", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const width = Math.max(640, ...graph.nodes.map(node => (node.position?.x || 0) + NODE_WIDTH + 20));
+  const height = Math.max(320, ...graph.nodes.map(node => (node.position?.y || 0) + NODE_HEIGHT + 20));
+
+  const nodeLabel = (node: PlaybookNode) => {
+    if (node.label) return node.label;
+    if (node.type === 'question') {
+      const text = questions.find(q => q.id === node.questionId)?.questionText || 'Question';
+      return text.length > 24 ? `${text.slice(0, 24)}…` : text;
+    }
+    if (node.type === 'terminal') return `End: ${node.outcome || 'complete'}`;
+    return categories.find(c => c.value === node.category)?.label || node.category || node.id;
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-wrap items-center gap-3">
+            <Select
+              value={playbookId || 'draft'}
+              onValueChange={(value) => {
+                const stored = playbooks?.find(p => p.id === value);
+                if (stored) load(stored);
+              }}
+            >
+              <SelectTrigger className="w-56" data-testid="playbook-select">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {!playbookId && <SelectItem value="draft">Unsaved draft</SelectItem>}
+                {playbooks?.map(p => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.name}{p.id === active?.id ? ' (in use)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Playbook name" className="w-56" disabled={!canEdit} />
+
+            <div className="flex items-center gap-2">
+              <Switch id="playbook-active" checked={isActive} onCheckedChange={setIsActive} disabled={!canEdit} />
+              <Label htmlFor="playbook-active" className="text-sm">Active</Label>
+            </div>
+
+            <div className="flex gap-2 ml-auto">
+              {canEdit && (
+                <>
+                  <Button
+                    variant="outline"
+                    onClick={() => load({ id: null, name: `${name} (copy)`, isActive: false, graph })}
+                    data-testid="copy-playbook"
+                  >
+                    <GitBranch className="h-4 w-4 mr-2" />
+                    Copy
+                  </Button>
+                  <Button variant="outline" onClick={addNode} data-testid="add-playbook-node">
+                    <Plus className="h-4 w-4 mr-2" />
+                    Node
+                  </Button>
+                </>
+              )}
+              <Button variant="outline" onClick={() => validateMutation.mutate()} disabled={validateMutation.isPending} data-testid="validate-playbook">
+                <CheckCircle2 className="h-4 w-4 mr-2" />
+                Validate
+              </Button>
+              {canEdit && (
+                <Button onClick={() => saveMutation.mutate()} disabled={!name.trim() || saveMutation.isPending} data-testid="save-playbook">
+                  <Save className="h-4 w-4 mr-2" />
+                  {saveMutation.isPending ? "Saving..." : "Save"}
+                </Button>
+              )}
+            </div>
+          </div>
+          {active?.id === 'default' && !playbookId && (
+            <p className="text-xs text-muted-foreground mt-3">
+              No playbook is stored yet; conversations follow the built-in one shown here. Save it to start editing.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <Card className="lg:col-span-2">
+          <CardContent className="pt-6 overflow-auto">
+            <svg
+              ref={svgRef}
+              width={width}
+              height={height}
+              onMouseMove={onMouseMove}
+              onMouseUp={() => { dragging.current = null; }}
+              onMouseLeave={() => { dragging.current = null; }}
+              onMouseDown={() => setSelected(null)}
+              className="select-none"
+              data-testid="playbook-canvas"
+            >
+              <defs>
+                <marker id="playbook-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                  <path d="M 0 0 L 10 5 L 0 10 z" className="fill-muted-foreground" />
+                </marker>
+              </defs>
+
+              {graph.edges.map(edge => {
+                const from = nodeById.get(edge.from)?.position;
+                const to = nodeById.get(edge.to)?.position;
+                if (!from || !to) return null;
+                const x1 = from.x + NODE_WIDTH;
+                const y1 = from.y + NODE_HEIGHT / 2;
+                const x2 = to.x;
+                const y2 = to.y + NODE_HEIGHT / 2;
+                const isSelected = selected?.kind === 'edge' && selected.id === edge.id;
+                const conditional = !!(edge.when?.keywords?.length || edge.when?.optionIds?.length || edge.when?.conditions?.length);
+                return (
+                  <g key={edge.id} onMouseDown={(e) => { e.stopPropagation(); setSelected({ kind: 'edge', id: edge.id }); }} className="cursor-pointer">
+                    <path
+                      d={`M ${x1} ${y1} C ${x1 + 40} ${y1}, ${x2 - 40} ${y2}, ${x2} ${y2}`}
+                      fill="none"
+                      strokeWidth={isSelected ? 3 : 1.5}
+                      strokeDasharray={conditional ? "5 3" : undefined}
+                      className={isSelected ? "stroke-primary" : "stroke-muted-foreground"}
+                      markerEnd="url(#playbook-arrow)"
+                    />
+                    <path d={`M ${x1} ${y1} C ${x1 + 40} ${y1}, ${x2 - 40} ${y2}, ${x2} ${y2}`} fill="none" stroke="transparent" strokeWidth={12} />
+                  </g>
+                );
+              })}
+
+              {graph.nodes.map(node => {
+                const { x, y } = node.position!;
+                const issues = issuesFor(node.id);
+                const unreachable = validation?.unreachable.includes(node.id);
+                const hasError = issues.some(issue => issue.severity === 'error');
+                const isSelected = selected?.kind === 'node' && selected.id === node.id;
+                return (
+                  <g
+                    key={node.id}
+                    transform={`translate(${x}, ${y})`}
+                    onMouseDown={(e) => onNodeMouseDown(e, node)}
+                    className={canEdit ? "cursor-move" : "cursor-pointer"}
+                    data-testid={`playbook-node-${node.id}`}
+                  >
+                    <rect
+                      width={NODE_WIDTH}
+                      height={NODE_HEIGHT}
+                      rx={node.type === 'terminal' ? NODE_HEIGHT / 2 : 6}
+                      strokeWidth={isSelected ? 3 : 1.5}
+                      strokeDasharray={unreachable ? "4 3" : undefined}
+                      className={hasError ? "fill-red-50 stroke-red-600" : unreachable ? "fill-yellow-50 stroke-yellow-600" : NODE_STYLES[node.type]}
+                    />
+                    {graph.entry.includes(node.id) && <circle cx={0} cy={NODE_HEIGHT / 2} r={5} className="fill-primary" />}
+                    <text x={10} y={20} className="fill-foreground text-xs font-medium">{nodeLabel(node)}</text>
+                    <text x={10} y={38} className="fill-muted-foreground" fontSize={10}>
+                      {[node.type, node.stages?.join('/'), node.preconditions?.length ? `${node.preconditions.length} gate${node.preconditions.length > 1 ? 's' : ''}` : null]
+                        .filter(Boolean).join(' · ')}
+                    </text>
+                  </g>
+                );
+              })}
+            </svg>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm">
+              {selectedNode ? `Node ${selectedNode.id}` : selectedEdge ? `Follow-up ${selectedEdge.from} → ${selectedEdge.to}` : 'Details'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            {selectedNode ? (
+              <fieldset disabled={!canEdit} className="space-y-4">
+                <div className="space-y-1">
+                  <Label className="text-xs">Label</Label>
+                  <Input value={selectedNode.label || ""} onChange={(e) => updateNode(selectedNode.id, { label: e.target.value || undefined })} className="h-8" />
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Type</Label>
+                    <Select value={selectedNode.type} onValueChange={(type) => updateNode(selectedNode.id, { type: type as PlaybookNode['type'] })}>
+                      <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="category">Category</SelectItem>
+                        <SelectItem value="question">Question</SelectItem>
+                        <SelectItem value="terminal">Terminal</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-end gap-2 pb-1">
+                    <Switch
+                      id="node-entry"
+                      checked={graph.entry.includes(selectedNode.id)}
+                      onCheckedChange={(entry) => setGraph(g => ({
+                        ...g,
+                        entry: entry ? [...g.entry, selectedNode.id] : g.entry.filter(id => id !== selectedNode.id)
+                      }))}
+                    />
+                    <Label htmlFor="node-entry" className="text-xs">Entry</Label>
+                  </div>
+                </div>
+
+                {selectedNode.type === 'category' && (
+                  <div className="space-y-1">
+                    <Label className="text-xs">Category</Label>
+                    <Select value={selectedNode.category || ""} onValueChange={(category) => updateNode(selectedNode.id, { category })}>
+                      <SelectTrigger className="h-8"><SelectValue placeholder="Select a category" /></SelectTrigger>
+                      <SelectContent>
+                        {categoryOptions.map(c => <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {selectedNode.type === 'question' && (
+                  <div className="space-y-1">
+                    <Label className="text-xs">Question</Label>
+                    <Select value={selectedNode.questionId || ""} onValueChange={(questionId) => updateNode(selectedNode.id, { questionId })}>
+                      <SelectTrigger className="h-8"><SelectValue placeholder="Select a question" /></SelectTrigger>
+                      <SelectContent>
+                        {questions.map(q => (
+                          <SelectItem key={q.id} value={q.id}>
+                            {q.questionText.length > 60 ? `${q.questionText.slice(0, 60)}…` : q.questionText}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {selectedNode.type === 'terminal' ? (
+                  <div className="space-y-1">
+                    <Label className="text-xs">Outcome</Label>
+                    <Select
+                      value={selectedNode.outcome || 'complete'}
+                      onValueChange={(outcome) => updateNode(selectedNode.id, { outcome: outcome as PlaybookNode['outcome'] })}
+                    >
+                      <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="complete">Complete</SelectItem>
+                        <SelectItem value="qualified">Qualified</SelectItem>
+                        <SelectItem value="disqualified">Disqualified</SelectItem>
+                        <SelectItem value="handoff">Hand off to a rep</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ) : (
+                  <>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Stages (none selected: every stage)</Label>
+                      <div className="flex gap-1">
+                        {STAGES.map(stage => {
+                          const stages = selectedNode.stages || [];
+                          const on = stages.includes(stage);
+                          return (
+                            <Button
+                              key={stage}
+                              type="button"
+                              size="sm"
+                              variant={on ? "default" : "outline"}
+                              className="h-7 text-xs"
+                              onClick={() => {
+                                const next = on ? stages.filter(s => s !== stage) : [...stages, stage];
+                                updateNode(selectedNode.id, { stages: next.length > 0 ? next : undefined });
+                              }}
+                            >
+                              {stage}
+                            </Button>
+                          );
+                        })}
+                      </div>
+                    </div>
+
+                    <div className="space-y-1">
+                      <Label className="text-xs">Preconditions (all must hold)</Label>
+                      <ConditionList
+                        conditions={selectedNode.preconditions || []}
+                        onChange={(preconditions) => updateNode(selectedNode.id, { preconditions })}
+                      />
+                    </div>
+
+                    <div className="space-y-1">
+                      <Label className="text-xs">Add follow-up to</Label>
+                      <Select value={followUpTarget} onValueChange={(to) => addFollowUp(selectedNode.id, to)}>
+                        <SelectTrigger className="h-8"><SelectValue placeholder="Select a node" /></SelectTrigger>
+                        <SelectContent>
+                          {graph.nodes.filter(node => node.id !== selectedNode.id).map(node => (
+                            <SelectItem key={node.id} value={node.id}>{nodeLabel(node)} ({node.id})</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </>
+                )}
+
+                {issuesFor(selectedNode.id).map((issue, i) => (
+                  <p key={i} className={`text-xs ${issue.severity === 'error' ? 'text-red-600' : 'text-yellow-600'}`}>{issue.message}</p>
+                ))}
+
+                <Button variant="outline" size="sm" onClick={() => removeNode(selectedNode.id)} data-testid="remove-playbook-node">
+                  <Trash2 className="h-3 w-3 mr-1" />
+                  Remove node
+                </Button>
+              </fieldset>
+            ) : selectedEdge ? (
+              <fieldset disabled={!canEdit} className="space-y-4">
+                <p className="text-xs text-muted-foreground">
+                  Followed when the lead's answer to {selectedEdge.from} matches everything set below; leave all empty to follow any answer.
+                </p>
+                <div className="space-y-1">
+                  <Label className="text-xs">Keywords in the answer (comma separated)</Label>
+                  <Input
+                    value={selectedEdge.when?.keywords?.join(', ') || ""}
+                    onChange={(e) => updateEdge(selectedEdge.id, { when: { ...selectedEdge.when, keywords: splitList(e.target.value) } })}
+                    placeholder="presupuesto, budget"
+                    className="h-8"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Tapped reply options (comma separated ids)</Label>
+                  <Input
+                    value={selectedEdge.when?.optionIds?.join(', ') || ""}
+                    onChange={(e) => updateEdge(selectedEdge.id, { when: { ...selectedEdge.when, optionIds: splitList(e.target.value) } })}
+                    className="h-8"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Metrics after the answer</Label>
+                  <ConditionList
+                    conditions={selectedEdge.when?.conditions || []}
+                    onChange={(conditions) => updateEdge(selectedEdge.id, { when: { ...selectedEdge.when, conditions } })}
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setGraph(g => ({ ...g, edges: g.edges.filter(edge => edge.id !== selectedEdge.id) }));
+                    setSelected(null);
+                  }}
+                >
+                  <Trash2 className="h-3 w-3 mr-1" />
+                  Remove follow-up
+                </Button>
+              </fieldset>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                Select a node or follow-up to edit it. Entry nodes (dot on the left) are open from the first message;
+                dashed follow-ups depend on the answer.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {validation && (
+        <Card data-testid="playbook-validation">
+          <CardContent className="pt-6 space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              {validation.valid
+                ? <CheckCircle2 className="h-4 w-4 text-green-600" />
+                : <AlertTriangle className="h-4 w-4 text-red-600" />}
+              {validation.valid ? "Playbook is valid" : "Playbook has errors"}
+              {validation.unreachable.length > 0 && (
+                <Badge variant="outline" className="text-xs">{validation.unreachable.length} unreachable</Badge>
+              )}
+            </div>
+            <ul className="text-xs space-y-1">
+              {validation.issues.map((issue, i) => (
+                <li
+                  key={i}
+                  className={`cursor-pointer ${issue.severity === 'error' ? 'text-red-600' : 'text-yellow-600'}`}
+                  onClick={() => setSelected(issue.nodeId ? { kind: 'node', id: issue.nodeId } : issue.edgeId ? { kind: 'edge', id: issue.edgeId } : null)}
+                >
+                  {issue.nodeId ? `${issue.nodeId}: ` : issue.edgeId ? `${issue.edgeId}: ` : ''}{issue.message}
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
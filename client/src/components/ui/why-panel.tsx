@@ -47,6 +47,12 @@ interface ReasoningTrace {
   model: string;
 }
 
+interface FeatureImportance {
+  feature: string;
+  weight: number;
+  importance: number;
+}
+
 interface WhyPanelProps {
   traceId?: string;
   decisionText: string;
@@ -216,6 +222,29 @@ export function WhyPanel({
                       </CardContent>
                     </Card>
 
+                    {/* Feature Importance (win probability model) */}
+                    {reasoningTrace.chosen?.featureImportances?.length > 0 && (
+                      <Card>
+                        <CardHeader className="pb-2">
+                          <CardTitle className="text-sm flex items-center gap-2">
+                            <BarChart3 className="w-4 h-4" />
+                            Feature Importance (model v{reasoningTrace.chosen.modelVersion})
+                          </CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-2" data-testid="feature-importances">
+                          {(reasoningTrace.chosen.featureImportances as FeatureImportance[]).slice(0, 8).map(item => (
+                            <div key={item.feature} className="flex items-center gap-2">
+                              <span className="text-xs w-44 truncate">{item.feature}</span>
+                              <Progress value={item.importance * 100} className="h-2 flex-1" />
+                              <span className={`text-xs w-16 text-right ${item.weight >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                {item.weight >= 0 ? '+' : '−'}{Math.round(item.importance * 100)}%
+                              </span>
+                            </div>
+                          ))}
+                        </CardContent>
+                      </Card>
+                    )}
+
                     {/* Reasoning Steps */}
                     <div className="space-y-3">
                       {reasoningTrace.reasoningChain?.map((step, index) => (
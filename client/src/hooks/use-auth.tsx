@@ -0,0 +1,103 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export type UserRole = 'admin' | 'analyst' | 'sales_rep' | 'viewer';
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: UserRole;
+  createdAt: string;
+}
+
+interface Credentials {
+  username: string;
+  password: string;
+}
+
+interface AuthContextType {
+  user: AuthUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<AuthUser, Error, Credentials>;
+  registerMutation: UseMutationResult<AuthUser, Error, Credentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+  hasRole: (...roles: UserRole[]) => boolean;
+}
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onAuthenticated = (user: AuthUser) => {
+    // Anything fetched before login was a 401
+    queryClient.clear();
+    queryClient.setQueryData(["/api/user"], user);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return await res.json();
+    },
+    onSuccess: onAuthenticated,
+    onError: (error: Error) => {
+      toast({ title: "Login failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("POST", "/api/register", credentials);
+      return await res.json();
+    },
+    onSuccess: onAuthenticated,
+    onError: (error: Error) => {
+      toast({ title: "Registration failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Logout failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const hasRole = (...roles: UserRole[]) => !!user && roles.includes(user.role);
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+        hasRole,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
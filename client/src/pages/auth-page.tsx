@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Brain } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+const credentialsSchema = z.object({
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters")
+});
+
+type CredentialsFormData = z.infer<typeof credentialsSchema>;
+
+export default function AuthPage() {
+  const { loginMutation, registerMutation } = useAuth();
+  // Registration only succeeds on an empty install, where it creates the first admin
+  const [mode, setMode] = useState<'login' | 'setup'>('login');
+
+  const form = useForm<CredentialsFormData>({
+    resolver: zodResolver(credentialsSchema),
+    defaultValues: { username: "", password: "" }
+  });
+
+  const onSubmit = (data: CredentialsFormData) => {
+    if (mode === 'login') {
+      loginMutation.mutate(data);
+    } else {
+      registerMutation.mutate(data);
+    }
+  };
+
+  const isPending = loginMutation.isPending || registerMutation.isPending;
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background">
+      <Card className="w-full max-w-sm mx-4">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center">
+              <Brain className="text-primary-foreground text-sm" />
+            </div>
+            <CardTitle>{mode === 'login' ? 'Sign in to ConversaAI' : 'Create the first admin'}</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="username" {...field} data-testid="input-username" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="password"
+                        autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+                        {...field}
+                        data-testid="input-password"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full" disabled={isPending} data-testid="button-submit-auth">
+                {mode === 'login' ? 'Sign in' : 'Create admin'}
+              </Button>
+            </form>
+          </Form>
+          <Button
+            variant="link"
+            className="w-full mt-2 text-xs"
+            onClick={() => setMode(mode === 'login' ? 'setup' : 'login')}
+            data-testid="button-toggle-auth-mode"
+          >
+            {mode === 'login' ? 'First time setup' : 'Back to sign in'}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -142,7 +142,8 @@ export default function ChatTestPage() {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          whatsappId: `test_${Date.now()}`,
+          channel: 'webchat',
+          externalId: `test_${Date.now()}`,
           contactName: `Test User ${Date.now()}`,
           contactPhone: `+34600${Math.floor(Math.random() * 1000000).toString().padStart(6, '0')}`,
           company: 'Test Company',
@@ -1,5 +1,7 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
 import { Header } from "@/components/layout/header";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -11,7 +13,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { AlertCircle, CheckCircle, Settings, Brain, MessageSquare, Shield, Database } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, CheckCircle, Settings, Brain, MessageSquare, Shield, Database, Target, Plus, Trash2, Scale, RotateCcw, TrendingUp, CalendarClock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
 interface SystemHealth {
@@ -52,6 +55,142 @@ interface ConfigSetting {
   description?: string;
 }
 
+type CalibrationStatus = 'pending' | 'applied' | 'rejected' | 'rolled_back';
+
+interface CalibratedParameter {
+  metricName: string;
+  calibrationType: string;
+  value: number;
+  defaultValue: number;
+  alpha?: number;
+  beta?: number;
+  appliedAt: string | null;
+}
+
+interface CalibrationUpdate {
+  id: string;
+  timestamp: string;
+  calibrationType: string;
+  metricName: string;
+  previousValue: number;
+  updatedValue: number;
+  priorAlpha: number | null;
+  priorBeta: number | null;
+  posteriorAlpha: number | null;
+  posteriorBeta: number | null;
+  updateReason: string;
+  applicationResults: { appliedBy?: string; rejectedBy?: string; rolledBackBy?: string } | null;
+  status: CalibrationStatus;
+}
+
+const CALIBRATION_STATUS_VARIANTS: Record<CalibrationStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  pending: "outline",
+  applied: "default",
+  rejected: "secondary",
+  rolled_back: "destructive"
+};
+
+interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number;
+  observedRate: number;
+}
+
+interface ScoringModel {
+  id: string;
+  version: number;
+  modelType: string;
+  featureImportances: { feature: string; weight: number; importance: number }[];
+  reliability: ReliabilityBin[];
+  metrics: { auc: number; brierScore: number; logLoss: number; baseRate: number; folds: number };
+  trainingSize: number;
+  positives: number;
+  isActive: boolean;
+  trainedBy: string;
+  notes: string | null;
+  trainedAt: string;
+}
+
+interface ConsultantAvailability {
+  id: string;
+  workspaceId: string | null;
+  consultantName: string;
+  consultantEmail: string | null;
+  timezone: string;
+  weekday: number;
+  startTime: string;
+  endTime: string;
+  slotMinutes: number;
+  isActive: boolean;
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+type IcpOperator = 'gte' | 'gt' | 'lte' | 'lt' | 'eq' | 'neq' | 'in';
+
+interface IcpCondition {
+  field: string;
+  operator: IcpOperator;
+  value: number | string | string[];
+}
+
+interface IcpCriterion extends IcpCondition {
+  id: string;
+  label: string;
+  weight: number;
+  scoring?: 'threshold' | 'linear';
+}
+
+interface IcpKnockoutRule extends IcpCondition {
+  id: string;
+  label: string;
+}
+
+interface IcpScoreBand {
+  id: string;
+  label: string;
+  minScore: number;
+  status: 'active' | 'qualified' | 'disqualified';
+}
+
+interface IcpProfile {
+  id: string | null; // Null while the built-in profile from the workspace criteria applies
+  name: string;
+  version: number;
+  minMessages: number;
+  criteria: IcpCriterion[];
+  knockoutRules: IcpKnockoutRule[];
+  scoreBands: IcpScoreBand[];
+}
+
+const ICP_FIELDS = [
+  { value: 'lead.budget', label: 'Budget (amount)' },
+  { value: 'lead.statedBudget', label: 'Budget the lead stated (amount)' },
+  { value: 'lead.spocHoursPerWeek', label: 'SPOC hours / week' },
+  { value: 'lead.digitalMaturity', label: 'Digital maturity (low / medium / high)' },
+  { value: 'lead.authorityLevel', label: 'Authority level' },
+  { value: 'lead.urgencyLevel', label: 'Urgency level' },
+  { value: 'metrics.qualificationScore', label: 'BANT qualification score' },
+  { value: 'metrics.authorityScore', label: 'Authority score' },
+  { value: 'metrics.needIntensity', label: 'Need intensity' },
+  { value: 'metrics.timelineUrgency', label: 'Timeline urgency' },
+  { value: 'metrics.engagementScore', label: 'Engagement score' },
+  { value: 'metrics.frustrationLevel', label: 'Frustration level' },
+  { value: 'smb.smbFitScore', label: 'SMB fit score' }
+];
+
+const ICP_OPERATORS: { value: IcpOperator; label: string }[] = [
+  { value: 'gte', label: '≥' },
+  { value: 'gt', label: '>' },
+  { value: 'lte', label: '≤' },
+  { value: 'lt', label: '<' },
+  { value: 'eq', label: '=' },
+  { value: 'neq', label: '≠' },
+  { value: 'in', label: 'one of' }
+];
+
 const systemConfig: ConfigSection[] = [
   {
     title: "Learning Parameters",
@@ -535,6 +674,882 @@ function IntegrationsTab() {
   );
 }
 
+function formatConditionValue(value: IcpCondition['value']): string {
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+// "one of" takes a comma separated list; anything numeric is stored as a number
+function parseConditionValue(text: string, operator: IcpOperator): IcpCondition['value'] {
+  if (operator === 'in') return text.split(',').map(v => v.trim()).filter(Boolean);
+  return text.trim() !== '' && !isNaN(Number(text)) ? Number(text) : text;
+}
+
+function ConditionFields<T extends IcpCondition>({ rule, onChange, disabled, testId }: {
+  rule: T;
+  onChange: (rule: T) => void;
+  disabled: boolean;
+  testId: string;
+}) {
+  return (
+    <>
+      <Select value={rule.field} onValueChange={(field) => onChange({ ...rule, field })} disabled={disabled}>
+        <SelectTrigger className="w-52" data-testid={`${testId}-field`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {ICP_FIELDS.map(field => (
+            <SelectItem key={field.value} value={field.value}>{field.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={rule.operator}
+        onValueChange={(operator: IcpOperator) => onChange({
+          ...rule,
+          operator,
+          value: parseConditionValue(formatConditionValue(rule.value), operator)
+        })}
+        disabled={disabled}
+      >
+        <SelectTrigger className="w-24" data-testid={`${testId}-operator`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {ICP_OPERATORS.map(op => (
+            <SelectItem key={op.value} value={op.value}>{op.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        className="w-32"
+        value={formatConditionValue(rule.value)}
+        onChange={(e) => onChange({ ...rule, value: parseConditionValue(e.target.value, rule.operator) })}
+        disabled={disabled}
+        data-testid={`${testId}-value`}
+      />
+    </>
+  );
+}
+
+function IcpRulesTab() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canEdit = hasRole('admin', 'analyst');
+
+  const { data: effectiveProfile, isLoading } = useQuery<IcpProfile>({
+    queryKey: ['/api/icp-profiles/effective']
+  });
+
+  const [profile, setProfile] = useState<IcpProfile | null>(null);
+
+  useEffect(() => {
+    if (effectiveProfile) setProfile(effectiveProfile);
+  }, [effectiveProfile]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (draft: IcpProfile) => {
+      const body = {
+        name: draft.name,
+        minMessages: draft.minMessages,
+        criteria: draft.criteria,
+        knockoutRules: draft.knockoutRules,
+        scoreBands: draft.scoreBands,
+        isActive: true
+      };
+      // The built-in profile is saved as the first stored one
+      const res = draft.id
+        ? await apiRequest('PATCH', `/api/icp-profiles/${draft.id}`, body)
+        : await apiRequest('POST', '/api/icp-profiles', body);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/icp-profiles/effective'] });
+      toast({ title: "Qualification rules saved", description: "They apply from each conversation's next message" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error saving qualification rules", description: error.message, variant: "destructive" });
+    }
+  });
+
+  if (isLoading || !profile) {
+    return (
+      <Card>
+        <CardContent className="py-8">
+          <div className="animate-pulse space-y-3">
+            <div className="h-4 bg-muted rounded w-3/4" />
+            <div className="h-4 bg-muted rounded w-1/2" />
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const totalWeight = profile.criteria.reduce((sum, c) => sum + (c.weight || 0), 0);
+  const newId = (prefix: string) => `${prefix}_${Date.now().toString(36)}`;
+
+  const updateCriterion = (index: number, criterion: IcpCriterion) =>
+    setProfile({ ...profile, criteria: profile.criteria.map((c, i) => i === index ? criterion : c) });
+  const updateKnockout = (index: number, rule: IcpKnockoutRule) =>
+    setProfile({ ...profile, knockoutRules: profile.knockoutRules.map((r, i) => i === index ? rule : r) });
+  const updateBand = (index: number, band: IcpScoreBand) =>
+    setProfile({ ...profile, scoreBands: profile.scoreBands.map((b, i) => i === index ? band : b) });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5" />
+            Ideal Customer Profile
+            <Badge variant="outline" className="ml-auto">
+              {profile.id ? `v${profile.version}` : 'Built-in'}
+            </Badge>
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Evaluated after every metrics update. The weighted score becomes the conversation's qualification score,
+            its band sets the status, and any knock-out rule disqualifies the lead.
+          </p>
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="icp-name">Profile Name</Label>
+            <Input
+              id="icp-name"
+              value={profile.name}
+              onChange={(e) => setProfile({ ...profile, name: e.target.value })}
+              disabled={!canEdit}
+              data-testid="icp-name"
+            />
+          </div>
+          <div>
+            <Label htmlFor="icp-min-messages">Messages before bands apply</Label>
+            <Input
+              id="icp-min-messages"
+              type="number"
+              value={profile.minMessages}
+              onChange={(e) => setProfile({ ...profile, minMessages: parseInt(e.target.value) || 0 })}
+              disabled={!canEdit}
+              data-testid="icp-min-messages"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Weighted Criteria</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Linear criteria give partial credit below a numeric target; threshold criteria are all or nothing.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {profile.criteria.map((criterion, index) => (
+            <div key={criterion.id} className="flex items-center gap-2">
+              <Input
+                className="flex-1"
+                value={criterion.label}
+                onChange={(e) => updateCriterion(index, { ...criterion, label: e.target.value })}
+                disabled={!canEdit}
+                data-testid={`criterion-${index}-label`}
+              />
+              <ConditionFields
+                rule={criterion}
+                onChange={(rule) => updateCriterion(index, rule)}
+                disabled={!canEdit}
+                testId={`criterion-${index}`}
+              />
+              <Select
+                value={criterion.scoring || 'threshold'}
+                onValueChange={(scoring: 'threshold' | 'linear') => updateCriterion(index, { ...criterion, scoring })}
+                disabled={!canEdit}
+              >
+                <SelectTrigger className="w-28" data-testid={`criterion-${index}-scoring`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="threshold">Threshold</SelectItem>
+                  <SelectItem value="linear">Linear</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                className="w-20"
+                type="number"
+                step="0.05"
+                value={criterion.weight}
+                onChange={(e) => updateCriterion(index, { ...criterion, weight: parseFloat(e.target.value) || 0 })}
+                disabled={!canEdit}
+                data-testid={`criterion-${index}-weight`}
+              />
+              <span className="text-xs text-muted-foreground w-10 text-right">
+                {totalWeight > 0 ? Math.round((criterion.weight / totalWeight) * 100) : 0}%
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setProfile({ ...profile, criteria: profile.criteria.filter((_, i) => i !== index) })}
+                disabled={!canEdit || profile.criteria.length <= 1}
+                data-testid={`criterion-${index}-remove`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setProfile({
+              ...profile,
+              criteria: [...profile.criteria, { id: newId('criterion'), label: 'New criterion', field: 'metrics.authorityScore', operator: 'gte', value: 0.6, weight: 0.1, scoring: 'threshold' }]
+            })}
+            disabled={!canEdit}
+            data-testid="add-criterion"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Criterion
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Knock-out Rules</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            A matching rule disqualifies the lead. Rules never fire while the fact is still unknown.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {profile.knockoutRules.map((rule, index) => (
+            <div key={rule.id} className="flex items-center gap-2">
+              <Input
+                className="flex-1"
+                value={rule.label}
+                onChange={(e) => updateKnockout(index, { ...rule, label: e.target.value })}
+                disabled={!canEdit}
+                data-testid={`knockout-${index}-label`}
+              />
+              <ConditionFields
+                rule={rule}
+                onChange={(updated) => updateKnockout(index, updated)}
+                disabled={!canEdit}
+                testId={`knockout-${index}`}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setProfile({ ...profile, knockoutRules: profile.knockoutRules.filter((_, i) => i !== index) })}
+                disabled={!canEdit}
+                data-testid={`knockout-${index}-remove`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setProfile({
+              ...profile,
+              knockoutRules: [...profile.knockoutRules, { id: newId('knockout'), label: 'New knock-out', field: 'lead.spocHoursPerWeek', operator: 'lt', value: 1 }]
+            })}
+            disabled={!canEdit}
+            data-testid="add-knockout"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Knock-out Rule
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Score Bands</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            The highest band the score reaches sets the conversation status.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {profile.scoreBands.map((band, index) => (
+            <div key={band.id} className="flex items-center gap-2">
+              <Input
+                className="flex-1"
+                value={band.label}
+                onChange={(e) => updateBand(index, { ...band, label: e.target.value })}
+                disabled={!canEdit}
+                data-testid={`band-${index}-label`}
+              />
+              <span className="text-sm text-muted-foreground">from</span>
+              <Input
+                className="w-20"
+                type="number"
+                step="0.05"
+                min={0}
+                max={1}
+                value={band.minScore}
+                onChange={(e) => updateBand(index, { ...band, minScore: parseFloat(e.target.value) || 0 })}
+                disabled={!canEdit}
+                data-testid={`band-${index}-min-score`}
+              />
+              <Select
+                value={band.status}
+                onValueChange={(status: IcpScoreBand['status']) => updateBand(index, { ...band, status })}
+                disabled={!canEdit}
+              >
+                <SelectTrigger className="w-36" data-testid={`band-${index}-status`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="qualified">Qualified</SelectItem>
+                  <SelectItem value="active">Active</SelectItem>
+                  <SelectItem value="disqualified">Disqualified</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setProfile({ ...profile, scoreBands: profile.scoreBands.filter((_, i) => i !== index) })}
+                disabled={!canEdit || profile.scoreBands.length <= 1}
+                data-testid={`band-${index}-remove`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setProfile({
+              ...profile,
+              scoreBands: [...profile.scoreBands, { id: newId('band'), label: 'New band', minScore: 0.3, status: 'active' }]
+            })}
+            disabled={!canEdit}
+            data-testid="add-band"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Band
+          </Button>
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center gap-3">
+        <Button
+          onClick={() => saveMutation.mutate(profile)}
+          disabled={!canEdit || saveMutation.isPending}
+          data-testid="save-icp-profile"
+        >
+          {saveMutation.isPending ? "Saving..." : "Save Qualification Rules"}
+        </Button>
+        {!canEdit && (
+          <span className="text-xs text-muted-foreground">Only admins and analysts can edit the ICP</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function formatCalibrationValue(value: number, alpha?: number | null, beta?: number | null): string {
+  const formatted = value.toFixed(3);
+  return alpha != null && beta != null ? `${formatted} (α ${alpha.toFixed(1)}, β ${beta.toFixed(1)})` : formatted;
+}
+
+function CalibrationCard() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canApprove = hasRole('admin', 'analyst');
+  const [statusFilter, setStatusFilter] = useState<CalibrationStatus | 'all'>('all');
+
+  const { data: parameters = [] } = useQuery<CalibratedParameter[]>({
+    queryKey: ['/api/calibration/parameters']
+  });
+  const { data: updates = [], isLoading } = useQuery<CalibrationUpdate[]>({
+    queryKey: ['/api/calibration/updates']
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/calibration/parameters'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/calibration/updates'] });
+  };
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/calibration/run');
+      return res.json();
+    },
+    onSuccess: (summary: { outcomes: number; proposed: number; applied: number }) => {
+      invalidate();
+      toast({
+        title: "Calibration run finished",
+        description: `${summary.outcomes} outcomes validated, ${summary.proposed} updates proposed, ${summary.applied} applied`
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Calibration run failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: 'apply' | 'reject' | 'rollback' }) => {
+      const res = await apiRequest('POST', `/api/calibration/updates/${id}/${action}`);
+      return res.json();
+    },
+    onSuccess: (update: CalibrationUpdate) => {
+      invalidate();
+      toast({ title: `Calibration update ${update.status.replace('_', ' ')}`, description: update.metricName });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Calibration update failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const visibleUpdates = statusFilter === 'all' ? updates : updates.filter(u => u.status === statusFilter);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          Outcome Calibration
+          {canApprove && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="ml-auto"
+              onClick={() => runMutation.mutate()}
+              disabled={runMutation.isPending}
+              data-testid="run-calibration"
+            >
+              {runMutation.isPending ? "Running..." : "Run Now"}
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <h4 className="font-medium">Values in force</h4>
+          {parameters.map(parameter => (
+            <div key={parameter.metricName} className="flex items-center justify-between text-sm" data-testid={`calibrated-${parameter.metricName}`}>
+              <div>
+                <span className="font-mono">{parameter.metricName}</span>
+                <Badge variant="secondary" className="ml-2">{parameter.calibrationType}</Badge>
+              </div>
+              <div className="text-right">
+                <span className="font-medium">{formatCalibrationValue(parameter.value, parameter.alpha, parameter.beta)}</span>
+                <span className="text-xs text-muted-foreground ml-2">
+                  {parameter.appliedAt ? `since ${new Date(parameter.appliedAt).toLocaleDateString()}` : `default ${parameter.defaultValue.toFixed(3)}`}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium">Audit log</h4>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as CalibrationStatus | 'all')}>
+              <SelectTrigger className="w-40" data-testid="calibration-status-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="applied">Applied</SelectItem>
+                <SelectItem value="rejected">Rejected</SelectItem>
+                <SelectItem value="rolled_back">Rolled back</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <div className="animate-pulse h-4 bg-muted rounded w-2/3" />
+          ) : visibleUpdates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No calibration updates yet. They are proposed as CRM deals close.</p>
+          ) : (
+            visibleUpdates.map(update => {
+              const actor = update.applicationResults?.rolledBackBy || update.applicationResults?.rejectedBy || update.applicationResults?.appliedBy;
+              return (
+                <div key={update.id} className="border rounded-md p-3 space-y-2" data-testid={`calibration-update-${update.id}`}>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={CALIBRATION_STATUS_VARIANTS[update.status]}>{update.status.replace('_', ' ')}</Badge>
+                      <span className="font-mono text-sm">{update.metricName}</span>
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(update.timestamp).toLocaleString()}{actor ? ` · ${actor}` : ''}
+                    </span>
+                  </div>
+                  <div className="text-sm">
+                    {formatCalibrationValue(update.previousValue, update.priorAlpha, update.priorBeta)}
+                    {' → '}
+                    <span className="font-medium">{formatCalibrationValue(update.updatedValue, update.posteriorAlpha, update.posteriorBeta)}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{update.updateReason}</p>
+                  {canApprove && update.status === 'pending' && (
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => actionMutation.mutate({ id: update.id, action: 'apply' })} disabled={actionMutation.isPending} data-testid={`apply-calibration-${update.id}`}>
+                        <CheckCircle className="h-3 w-3 mr-1" /> Apply
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => actionMutation.mutate({ id: update.id, action: 'reject' })} disabled={actionMutation.isPending} data-testid={`reject-calibration-${update.id}`}>
+                        Reject
+                      </Button>
+                    </div>
+                  )}
+                  {canApprove && update.status === 'applied' && (
+                    <Button size="sm" variant="outline" onClick={() => actionMutation.mutate({ id: update.id, action: 'rollback' })} disabled={actionMutation.isPending} data-testid={`rollback-calibration-${update.id}`}>
+                      <RotateCcw className="h-3 w-3 mr-1" /> Roll back
+                    </Button>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ScoringModelCard() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canTrain = hasRole('admin', 'analyst');
+
+  const { data: models = [], isLoading } = useQuery<ScoringModel[]>({
+    queryKey: ['/api/scoring/models']
+  });
+  const active = models.find(m => m.isActive);
+
+  const retrainMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/scoring/models/retrain', { activate: true });
+      return res.json();
+    },
+    onSuccess: (model: ScoringModel) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/scoring/models'] });
+      toast({ title: `Scoring model v${model.version} trained`, description: `AUC ${model.metrics.auc.toFixed(2)} on ${model.trainingSize} closed deals` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Training failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest('POST', `/api/scoring/models/${id}/activate`);
+      return res.json();
+    },
+    onSuccess: (model: ScoringModel) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/scoring/models'] });
+      toast({ title: `Scoring model v${model.version} is active` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Activation failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5" />
+          Win Probability Model
+          {canTrain && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="ml-auto"
+              onClick={() => retrainMutation.mutate()}
+              disabled={retrainMutation.isPending}
+              data-testid="retrain-scoring-model"
+            >
+              {retrainMutation.isPending ? "Training..." : "Retrain"}
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="animate-pulse h-4 bg-muted rounded w-2/3" />
+        ) : !active ? (
+          <p className="text-sm text-muted-foreground">
+            No model is active; win probabilities come from a hand-weighted blend of the dimension scores until one is trained on closed deals.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-4 gap-4 text-sm" data-testid="scoring-model-metrics">
+              <div>
+                <p className="text-muted-foreground">Version</p>
+                <p className="font-medium">v{active.version}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Closed deals</p>
+                <p className="font-medium">{active.trainingSize} ({active.positives} won)</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">AUC</p>
+                <p className="font-medium">{active.metrics.auc.toFixed(3)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Brier score</p>
+                <p className="font-medium">{active.metrics.brierScore.toFixed(3)}</p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="font-medium">Reliability ({active.metrics.folds}-fold cross-validation)</h4>
+              <p className="text-xs text-muted-foreground">Predicted win probability against the observed win rate of the deals in each bin</p>
+              {active.reliability.map(bin => (
+                <div key={bin.lower} className="grid grid-cols-[80px_1fr_1fr_60px] items-center gap-2 text-xs" data-testid={`reliability-bin-${bin.lower}`}>
+                  <span className="text-muted-foreground">{Math.round(bin.lower * 100)}–{Math.round(bin.upper * 100)}%</span>
+                  <div className="flex items-center gap-1">
+                    <Progress value={bin.meanPredicted * 100} className="h-2" />
+                    <span className="w-10 text-right">{Math.round(bin.meanPredicted * 100)}%</span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Progress value={bin.observedRate * 100} className="h-2" />
+                    <span className="w-10 text-right">{Math.round(bin.observedRate * 100)}%</span>
+                  </div>
+                  <span className="text-right text-muted-foreground">{bin.count} deals</span>
+                </div>
+              ))}
+              <div className="grid grid-cols-[80px_1fr_1fr_60px] gap-2 text-xs text-muted-foreground">
+                <span />
+                <span>Predicted</span>
+                <span>Observed</span>
+                <span />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="font-medium">Feature importance</h4>
+              {active.featureImportances.slice(0, 8).map(item => (
+                <div key={item.feature} className="flex items-center gap-2 text-xs">
+                  <span className="w-48 font-mono truncate">{item.feature}</span>
+                  <Progress value={item.importance * 100} className="h-2 flex-1" />
+                  <span className={`w-16 text-right ${item.weight >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {item.weight >= 0 ? 'raises' : 'lowers'} {Math.round(item.importance * 100)}%
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {models.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <h4 className="font-medium">Versions</h4>
+              {models.map(model => (
+                <div key={model.id} className="flex items-center justify-between text-sm" data-testid={`scoring-model-${model.version}`}>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">v{model.version}</span>
+                    {model.isActive && <Badge>active</Badge>}
+                    <span className="text-xs text-muted-foreground">
+                      AUC {model.metrics.auc.toFixed(3)} · {model.trainingSize} deals · {new Date(model.trainedAt).toLocaleString()} · {model.trainedBy}
+                    </span>
+                  </div>
+                  {canTrain && !model.isActive && (
+                    <Button size="sm" variant="outline" onClick={() => activateMutation.mutate(model.id)} disabled={activateMutation.isPending} data-testid={`activate-scoring-model-${model.version}`}>
+                      Activate
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function AvailabilityCard() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canEdit = hasRole('admin', 'sales_rep');
+  const [draft, setDraft] = useState({
+    consultantName: '',
+    consultantEmail: '',
+    timezone: 'Europe/Madrid',
+    weekday: 1,
+    startTime: '09:00',
+    endTime: '13:00',
+    slotMinutes: 30
+  });
+
+  const { data: rules = [], isLoading } = useQuery<ConsultantAvailability[]>({
+    queryKey: ['/api/availability']
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['/api/availability'] });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/availability', { ...draft, consultantEmail: draft.consultantEmail || null });
+      return res.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Availability added" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not add availability", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (rule: ConsultantAvailability) => {
+      const res = await apiRequest('PATCH', `/api/availability/${rule.id}`, { isActive: !rule.isActive });
+      return res.json();
+    },
+    onSuccess: refresh
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/availability/${id}`);
+    },
+    onSuccess: refresh,
+    onError: (error: Error) => {
+      toast({ title: "Could not remove availability", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Consultant Availability
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Qualified leads are offered calls in these weekly windows, converted to the lead's time zone and limited to their working hours.
+        </p>
+
+        {isLoading ? (
+          <div className="animate-pulse h-4 bg-muted rounded w-2/3" />
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No availability yet; leads are not offered calls until a consultant adds some.</p>
+        ) : (
+          <div className="space-y-2">
+            {rules.map(rule => (
+              <div key={rule.id} className="flex items-center justify-between text-sm" data-testid={`availability-${rule.id}`}>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{rule.consultantName}</span>
+                  <span className="text-muted-foreground">
+                    {WEEKDAYS[rule.weekday]} {rule.startTime}–{rule.endTime} · {rule.slotMinutes} min · {rule.timezone}
+                  </span>
+                  {!rule.isActive && <Badge variant="outline">inactive</Badge>}
+                </div>
+                {canEdit && (
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={rule.isActive}
+                      onCheckedChange={() => toggleMutation.mutate(rule)}
+                      data-testid={`toggle-availability-${rule.id}`}
+                    />
+                    <Button size="icon" variant="ghost" onClick={() => deleteMutation.mutate(rule.id)} data-testid={`delete-availability-${rule.id}`}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canEdit && (
+          <>
+            <Separator />
+            <div className="grid grid-cols-4 gap-3">
+              <div>
+                <Label htmlFor="availability-name">Consultant</Label>
+                <Input
+                  id="availability-name"
+                  value={draft.consultantName}
+                  onChange={(e) => setDraft({ ...draft, consultantName: e.target.value })}
+                  data-testid="input-availability-name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="availability-email">Email (invite organizer)</Label>
+                <Input
+                  id="availability-email"
+                  value={draft.consultantEmail}
+                  onChange={(e) => setDraft({ ...draft, consultantEmail: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Day</Label>
+                <Select value={String(draft.weekday)} onValueChange={(value) => setDraft({ ...draft, weekday: parseInt(value) })}>
+                  <SelectTrigger data-testid="select-availability-weekday">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAYS.map((day, index) => (
+                      <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="availability-timezone">Time zone</Label>
+                <Input
+                  id="availability-timezone"
+                  value={draft.timezone}
+                  onChange={(e) => setDraft({ ...draft, timezone: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="availability-start">From</Label>
+                <Input
+                  id="availability-start"
+                  type="time"
+                  value={draft.startTime}
+                  onChange={(e) => setDraft({ ...draft, startTime: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="availability-end">Until</Label>
+                <Input
+                  id="availability-end"
+                  type="time"
+                  value={draft.endTime}
+                  onChange={(e) => setDraft({ ...draft, endTime: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="availability-slot">Call length (min)</Label>
+                <Input
+                  id="availability-slot"
+                  type="number"
+                  min={10}
+                  max={240}
+                  value={draft.slotMinutes}
+                  onChange={(e) => setDraft({ ...draft, slotMinutes: parseInt(e.target.value) || 30 })}
+                />
+              </div>
+              <div className="flex items-end">
+                <Button
+                  onClick={() => createMutation.mutate()}
+                  disabled={!draft.consultantName || createMutation.isPending}
+                  data-testid="button-add-availability"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function Configuration() {
   return (
     <>
@@ -549,8 +1564,9 @@ export default function Configuration() {
           
           <div className="mt-6">
             <Tabs defaultValue="system" className="space-y-6">
-              <TabsList className="grid grid-cols-4">
+              <TabsList className="grid grid-cols-5">
                 <TabsTrigger value="system" data-testid="tab-system">System</TabsTrigger>
+                <TabsTrigger value="qualification" data-testid="tab-qualification">Qualification</TabsTrigger>
                 <TabsTrigger value="learning" data-testid="tab-learning">Learning</TabsTrigger>
                 <TabsTrigger value="integrations" data-testid="tab-integrations">Integrations</TabsTrigger>
                 <TabsTrigger value="security" data-testid="tab-security">Security</TabsTrigger>
@@ -562,10 +1578,19 @@ export default function Configuration() {
                 </div>
               </TabsContent>
               
+              <TabsContent value="qualification">
+                <div className="space-y-6">
+                  <IcpRulesTab />
+                  <AvailabilityCard />
+                </div>
+              </TabsContent>
+              
               <TabsContent value="learning">
                 <div className="space-y-6">
                   <ConfigurationSection section={systemConfig[0]} />
                   <ConfigurationSection section={systemConfig[2]} />
+                  <CalibrationCard />
+                  <ScoringModelCard />
                 </div>
               </TabsContent>
               
@@ -0,0 +1,446 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { Header } from "@/components/layout/header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Coins, MessageCircle, Trophy, TrendingUp, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+type RollupPeriod = 'daily' | 'weekly' | 'monthly';
+
+interface SegmentPerformance {
+  deals: number;
+  won: number;
+  lost: number;
+  revenue: number;
+  conversionRate: number;
+}
+
+interface DealAnalyticsRow {
+  id: string;
+  periodStart: string;
+  periodEnd: string;
+  analysisType: string;
+  totalDeals: number;
+  dealsWon: number;
+  dealsLost: number;
+  dealsPending: number;
+  totalRevenue: number;
+  averageDealSize: number;
+  totalPredictedRevenue: number;
+  revenueAccuracy: number;
+  qualificationConversionRate: number;
+  proposalConversionRate: number;
+  overallConversionRate: number;
+  qualificationAccuracy: number;
+  averageTimeToClose: number;
+  averageCycleTime: number;
+  aiRoi: number;
+  costPerQualifiedLead: number;
+  costPerClosedDeal: number;
+  sourcePerformance: Record<string, SegmentPerformance>;
+  regionalPerformance: Record<string, SegmentPerformance>;
+  confidence: number;
+  timestamp: string;
+}
+
+interface AttributionAnalysis {
+  conversationQualityImpact: number;
+  questionEffectiveness: number;
+  culturalAdaptationImpact: number;
+  aiDecisionQuality: number;
+  overallAttributionScore: number;
+  topContributingFactors: string[];
+}
+
+const PERIOD_LABELS: Record<RollupPeriod, string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly"
+};
+
+// sourcePerformance keys are "<channel>/<qualificationSource>"
+const AI_WHATSAPP_SOURCE = 'whatsapp/ai';
+
+function formatMoney(value: number): string {
+  return value.toLocaleString('es-ES', { maximumFractionDigits: 0 });
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function formatPeriod(row: DealAnalyticsRow): string {
+  const start = new Date(row.periodStart);
+  return row.analysisType === 'monthly'
+    ? start.toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' })
+    : start.toLocaleDateString(undefined, { day: 'numeric', month: 'short', timeZone: 'UTC' });
+}
+
+function mergeSegments(rows: DealAnalyticsRow[], key: 'sourcePerformance' | 'regionalPerformance'): Array<[string, SegmentPerformance]> {
+  const merged: Record<string, SegmentPerformance> = {};
+
+  for (const row of rows) {
+    for (const [name, segment] of Object.entries(row[key] || {})) {
+      if (!merged[name]) merged[name] = { deals: 0, won: 0, lost: 0, revenue: 0, conversionRate: 0 };
+      merged[name].deals += segment.deals;
+      merged[name].won += segment.won;
+      merged[name].lost += segment.lost;
+      merged[name].revenue += segment.revenue;
+    }
+  }
+
+  for (const segment of Object.values(merged)) {
+    segment.conversionRate = segment.won + segment.lost > 0 ? segment.won / (segment.won + segment.lost) : 0;
+  }
+  return Object.entries(merged).sort(([, a], [, b]) => b.revenue - a.revenue);
+}
+
+function FunnelView({ rows }: { rows: DealAnalyticsRow[] }) {
+  const deals = rows.reduce((sum, r) => sum + r.totalDeals, 0);
+  const proposals = rows.reduce((sum, r) => sum + Math.round(r.proposalConversionRate * r.totalDeals), 0);
+  const won = rows.reduce((sum, r) => sum + r.dealsWon, 0);
+  const lost = rows.reduce((sum, r) => sum + r.dealsLost, 0);
+  const qualificationRate = rows.length > 0
+    ? rows.reduce((sum, r) => sum + r.qualificationConversionRate, 0) / rows.length
+    : 0;
+
+  const stages = [
+    { label: "Deals pushed to CRM", count: deals },
+    { label: "Reached proposal", count: proposals },
+    { label: "Closed won", count: won }
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Funnel</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="text-sm text-muted-foreground">
+          {formatPercent(qualificationRate)} of conversations qualified on average per period
+        </div>
+        {stages.map(stage => (
+          <div key={stage.label} className="space-y-1" data-testid={`funnel-${stage.label}`}>
+            <div className="flex justify-between text-sm">
+              <span>{stage.label}</span>
+              <span className="font-medium">
+                {stage.count}
+                {deals > 0 && <span className="text-muted-foreground ml-2">{formatPercent(stage.count / deals)}</span>}
+              </span>
+            </div>
+            <Progress value={deals > 0 ? (stage.count / deals) * 100 : 0} />
+          </div>
+        ))}
+        <div className="text-sm text-muted-foreground">
+          {lost} lost, win rate on closed deals {formatPercent(won + lost > 0 ? won / (won + lost) : 0)}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function CohortView({ rows }: { rows: DealAnalyticsRow[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Cohorts</CardTitle>
+        <p className="text-sm text-muted-foreground">Deals grouped by the period they were created in, with their current outcome</p>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Period</TableHead>
+              <TableHead className="text-right">Deals</TableHead>
+              <TableHead className="text-right">Won</TableHead>
+              <TableHead className="text-right">Lost</TableHead>
+              <TableHead className="text-right">Open</TableHead>
+              <TableHead className="text-right">Revenue</TableHead>
+              <TableHead className="text-right">Win rate</TableHead>
+              <TableHead className="text-right">Days to close</TableHead>
+              <TableHead className="text-right">Revenue accuracy</TableHead>
+              <TableHead className="text-right">Settled</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.id} data-testid={`cohort-${row.periodStart}`}>
+                <TableCell>{formatPeriod(row)}</TableCell>
+                <TableCell className="text-right">{row.totalDeals}</TableCell>
+                <TableCell className="text-right">{row.dealsWon}</TableCell>
+                <TableCell className="text-right">{row.dealsLost}</TableCell>
+                <TableCell className="text-right">{row.dealsPending}</TableCell>
+                <TableCell className="text-right">{formatMoney(row.totalRevenue)}</TableCell>
+                <TableCell className="text-right">{formatPercent(row.overallConversionRate)}</TableCell>
+                <TableCell className="text-right">{row.averageTimeToClose.toFixed(1)}</TableCell>
+                <TableCell className="text-right">{row.dealsWon + row.dealsLost > 0 ? formatPercent(row.revenueAccuracy) : '—'}</TableCell>
+                <TableCell className="text-right">{formatPercent(row.confidence)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+function AttributionView({ rows }: { rows: DealAnalyticsRow[] }) {
+  const range = rows.length > 0
+    ? { start: rows[rows.length - 1].periodStart, end: rows[0].periodEnd }
+    : undefined;
+
+  const { data: attribution } = useQuery<AttributionAnalysis>({
+    queryKey: ['/api/deal-analytics/attribution', range?.start, range?.end],
+    queryFn: async () => {
+      const params = new URLSearchParams(range ? { start: range.start, end: range.end } : {});
+      const response = await fetch(`/api/deal-analytics/attribution?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch attribution');
+      return response.json();
+    },
+    enabled: !!range
+  });
+
+  const sources = mergeSegments(rows, 'sourcePerformance');
+  const regions = mergeSegments(rows, 'regionalPerformance');
+  const totalRevenue = sources.reduce((sum, [, s]) => sum + s.revenue, 0);
+
+  const factors = attribution ? [
+    { label: "AI decision quality", value: attribution.aiDecisionQuality },
+    { label: "Conversation quality", value: attribution.conversationQualityImpact },
+    { label: "Question effectiveness", value: attribution.questionEffectiveness },
+    { label: "Cultural adaptation", value: attribution.culturalAdaptationImpact }
+  ] : [];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Closed revenue by source</CardTitle>
+          <p className="text-sm text-muted-foreground">Channel of the conversation / who qualified the lead</p>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Source</TableHead>
+                <TableHead className="text-right">Deals</TableHead>
+                <TableHead className="text-right">Won</TableHead>
+                <TableHead className="text-right">Win rate</TableHead>
+                <TableHead className="text-right">Revenue</TableHead>
+                <TableHead className="text-right">Share</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sources.map(([source, segment]) => (
+                <TableRow key={source} data-testid={`source-${source}`}>
+                  <TableCell>
+                    <span className="font-mono">{source}</span>
+                    {source === AI_WHATSAPP_SOURCE && <Badge className="ml-2">AI · WhatsApp</Badge>}
+                  </TableCell>
+                  <TableCell className="text-right">{segment.deals}</TableCell>
+                  <TableCell className="text-right">{segment.won}</TableCell>
+                  <TableCell className="text-right">{formatPercent(segment.conversionRate)}</TableCell>
+                  <TableCell className="text-right">{formatMoney(segment.revenue)}</TableCell>
+                  <TableCell className="text-right">{totalRevenue > 0 ? formatPercent(segment.revenue / totalRevenue) : '—'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Regions</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {regions.map(([region, segment]) => (
+              <div key={region} className="flex justify-between text-sm" data-testid={`region-${region}`}>
+                <span>{region}</span>
+                <span>
+                  {formatMoney(segment.revenue)}
+                  <span className="text-muted-foreground ml-2">{segment.won}/{segment.deals} won</span>
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>AI contribution</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {factors.map(factor => (
+              <div key={factor.label} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span>{factor.label}</span>
+                  <span>{formatPercent(factor.value)}</span>
+                </div>
+                <Progress value={factor.value * 100} />
+              </div>
+            ))}
+            {attribution && attribution.topContributingFactors.length > 0 && (
+              <div className="flex flex-wrap gap-1 pt-2">
+                {attribution.topContributingFactors.map(factor => (
+                  <Badge key={factor} variant="secondary">{factor}</Badge>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default function DealAnalytics() {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const [period, setPeriod] = useState<RollupPeriod>('weekly');
+
+  const { data: rows = [], isLoading } = useQuery<DealAnalyticsRow[]>({
+    queryKey: ['/api/deal-analytics', period],
+    queryFn: async () => {
+      const response = await fetch(`/api/deal-analytics?type=${period}&limit=12`);
+      if (!response.ok) throw new Error('Failed to fetch deal analytics');
+      return response.json();
+    }
+  });
+
+  const recomputeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/deal-analytics/rollup', { analysisType: period });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/deal-analytics'] });
+      toast({ title: "Current period recomputed" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to recompute analytics", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const totalRevenue = rows.reduce((sum, r) => sum + r.totalRevenue, 0);
+  const aiWhatsappRevenue = rows.reduce((sum, r) => sum + (r.sourcePerformance?.[AI_WHATSAPP_SOURCE]?.revenue || 0), 0);
+  const won = rows.reduce((sum, r) => sum + r.dealsWon, 0);
+  const closed = won + rows.reduce((sum, r) => sum + r.dealsLost, 0);
+  const latest = rows[0];
+
+  const summaryCards = [
+    { title: "Closed Revenue", value: formatMoney(totalRevenue), icon: Coins, testId: "analytics-total-revenue" },
+    {
+      title: "AI-qualified WhatsApp",
+      value: formatMoney(aiWhatsappRevenue),
+      detail: totalRevenue > 0 ? `${formatPercent(aiWhatsappRevenue / totalRevenue)} of revenue` : undefined,
+      icon: MessageCircle,
+      testId: "analytics-ai-whatsapp-revenue"
+    },
+    { title: "Win Rate", value: formatPercent(closed > 0 ? won / closed : 0), detail: `${won} of ${closed} closed`, icon: Trophy, testId: "analytics-win-rate" },
+    {
+      title: "AI ROI (latest period)",
+      value: latest ? `${latest.aiRoi.toFixed(1)}x` : '—',
+      detail: latest ? `${latest.costPerQualifiedLead.toFixed(2)} per qualified lead` : undefined,
+      icon: TrendingUp,
+      testId: "analytics-ai-roi"
+    }
+  ];
+
+  return (
+    <>
+      <Header
+        title="Deal Analytics"
+        subtitle="Pipeline outcomes and revenue attribution of qualified conversations"
+      />
+
+      <div className="flex-1 p-6 overflow-y-auto space-y-6">
+        <div className="flex items-center gap-3">
+          <Select value={period} onValueChange={(value) => setPeriod(value as RollupPeriod)}>
+            <SelectTrigger className="w-40" data-testid="analytics-period">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PERIOD_LABELS) as RollupPeriod[]).map(p => (
+                <SelectItem key={p} value={p}>{PERIOD_LABELS[p]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-sm text-muted-foreground">
+            Last {rows.length} periods{latest ? `, updated ${new Date(latest.timestamp).toLocaleString()}` : ''}
+          </span>
+          {hasRole('admin', 'analyst') && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="ml-auto"
+              onClick={() => recomputeMutation.mutate()}
+              disabled={recomputeMutation.isPending}
+              data-testid="recompute-analytics"
+            >
+              <RefreshCw className="h-4 w-4 mr-1" />
+              {recomputeMutation.isPending ? "Recomputing..." : "Recompute current period"}
+            </Button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-4 gap-4">
+          {summaryCards.map(card => (
+            <Card key={card.title}>
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">{card.title}</span>
+                  <card.icon className="h-4 w-4 text-muted-foreground" />
+                </div>
+                <div className="text-2xl font-bold mt-2" data-testid={card.testId}>{card.value}</div>
+                {card.detail && <div className="text-xs text-muted-foreground mt-1">{card.detail}</div>}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="animate-pulse space-y-3">
+            <div className="h-4 bg-muted rounded w-3/4" />
+            <div className="h-4 bg-muted rounded w-1/2" />
+          </div>
+        ) : rows.length === 0 ? (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">
+              No rollups yet. They are computed hourly once deals are pushed to a CRM.
+            </CardContent>
+          </Card>
+        ) : (
+          <Tabs defaultValue="funnel" className="space-y-6">
+            <TabsList>
+              <TabsTrigger value="funnel" data-testid="tab-funnel">Funnel</TabsTrigger>
+              <TabsTrigger value="cohorts" data-testid="tab-cohorts">Cohorts</TabsTrigger>
+              <TabsTrigger value="attribution" data-testid="tab-attribution">Attribution</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="funnel">
+              <FunnelView rows={rows} />
+            </TabsContent>
+
+            <TabsContent value="cohorts">
+              <CohortView rows={rows} />
+            </TabsContent>
+
+            <TabsContent value="attribution">
+              <AttributionView rows={rows} />
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+    </>
+  );
+}
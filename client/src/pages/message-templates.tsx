@@ -0,0 +1,540 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Header } from "@/components/layout/header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Plus, Edit, Copy, Trash2, Eye, MessageSquare, Send, Reply } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+
+interface TemplateVariant {
+  id: string;
+  text: string;
+}
+
+interface MessageTemplate {
+  id: string;
+  workspaceId?: string | null;
+  name: string;
+  type: string;
+  phase?: string | null;
+  region?: string | null;
+  formality?: string | null;
+  timeOfDay?: string | null;
+  sentiment?: string | null;
+  variants: TemplateVariant[];
+  isActive: boolean;
+  updatedBy?: string | null;
+  updatedAt?: string | null;
+  builtin: boolean;
+}
+
+interface VariantStats {
+  templateId: string;
+  variantId: string;
+  usageCount: number;
+  replyCount: number;
+  replyRate: number | null;
+  lastUsed?: string | null;
+}
+
+interface TemplatePreview {
+  matches: boolean;
+  variants: Array<{ id?: string; text: string }>;
+}
+
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  type: string;
+  phase: string;
+  region: string;
+  formality: string;
+  timeOfDay: string;
+  sentiment: string;
+  variants: Array<{ id?: string; text: string }>;
+  isActive: boolean;
+}
+
+const ANY = "any"; // Select value for a key that matches every turn
+
+const templateTypes = [
+  { value: "greeting", label: "Greetings" },
+  { value: "returning_greeting", label: "Returning leads" },
+  { value: "acknowledgment", label: "Acknowledgments" },
+  { value: "transition", label: "Transitions" },
+  { value: "sensitive_question", label: "Budget & authority" },
+  { value: "question_wrapper", label: "Question framing" }
+];
+
+const keyOptions = {
+  phase: ["greeting", "exploration", "qualification", "deepening", "closing"],
+  formality: ["formal", "informal"],
+  timeOfDay: ["morning", "afternoon", "evening", "night"],
+  sentiment: ["positive", "negative", "neutral", "detailed"]
+} as const;
+
+const placeholders = ["agentName", "companyName", "timeGreeting", "question", "questionLower", "region", "phase", "previousTopic", "nextTopic"];
+
+function toDraft(template?: MessageTemplate, type: string = "greeting"): TemplateDraft {
+  return {
+    id: template && !template.builtin ? template.id : undefined,
+    name: template ? (template.builtin ? `${template.name} (copy)` : template.name) : "",
+    type: template?.type || type,
+    phase: template?.phase || ANY,
+    region: template?.region || "",
+    formality: template?.formality || ANY,
+    timeOfDay: template?.timeOfDay || ANY,
+    sentiment: template?.sentiment || ANY,
+    // A copy of a built-in template starts its own stats
+    variants: template?.variants.map(variant => template.builtin ? { text: variant.text } : variant) || [{ text: "" }],
+    isActive: template?.isActive ?? true
+  };
+}
+
+function fromDraft(draft: TemplateDraft) {
+  const key = (value: string) => value === ANY ? null : value;
+  return {
+    name: draft.name,
+    type: draft.type,
+    phase: key(draft.phase),
+    region: draft.region.trim() ? draft.region.trim().toUpperCase() : null,
+    formality: key(draft.formality),
+    timeOfDay: key(draft.timeOfDay),
+    sentiment: draft.type === "acknowledgment" ? key(draft.sentiment) : null,
+    variants: draft.variants.filter(variant => variant.text.trim()),
+    isActive: draft.isActive
+  };
+}
+
+function formatRate(stats?: VariantStats) {
+  return stats?.replyRate != null ? `${Math.round(stats.replyRate * 100)}%` : "—";
+}
+
+function TemplateKeys({ template }: { template: MessageTemplate }) {
+  const keys = [template.phase, template.region, template.formality, template.timeOfDay, template.sentiment].filter(Boolean);
+  return (
+    <div className="flex flex-wrap gap-1">
+      {keys.length === 0 ? (
+        <Badge variant="outline" className="text-xs">Any turn</Badge>
+      ) : keys.map(key => (
+        <Badge key={key} variant="outline" className="text-xs">{key}</Badge>
+      ))}
+    </div>
+  );
+}
+
+function TemplateCard({
+  template,
+  stats,
+  onEdit
+}: {
+  template: MessageTemplate;
+  stats: Map<string, VariantStats>;
+  onEdit: (template: MessageTemplate) => void;
+}) {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canEdit = hasRole('admin', 'analyst');
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', `/api/message-templates/${template.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/message-templates'] });
+      toast({ title: "Template deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not delete template", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Card className={template.isActive ? "" : "opacity-60"} data-testid={`template-${template.id}`}>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="space-y-1">
+            <CardTitle className="text-sm font-medium">{template.name}</CardTitle>
+            <TemplateKeys template={template} />
+          </div>
+          <div className="flex items-center gap-1">
+            {template.builtin && <Badge variant="secondary" className="text-xs">Built-in</Badge>}
+            {!template.isActive && <Badge variant="secondary" className="text-xs">Inactive</Badge>}
+            {canEdit && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onEdit(template)}
+                title={template.builtin ? "Copy to a new template" : "Edit"}
+                data-testid={`edit-template-${template.id}`}
+              >
+                {template.builtin ? <Copy className="h-4 w-4" /> : <Edit className="h-4 w-4" />}
+              </Button>
+            )}
+            {canEdit && !template.builtin && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteMutation.mutate()}
+                disabled={deleteMutation.isPending}
+                data-testid={`delete-template-${template.id}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {template.variants.map(variant => {
+          const variantStats = stats.get(`${template.id}:${variant.id}`);
+          return (
+            <div key={variant.id} className="rounded border p-2 text-sm">
+              <p className="whitespace-pre-line">{variant.text}</p>
+              <div className="mt-2 flex gap-4 text-xs text-muted-foreground">
+                <span className="flex items-center gap-1"><Send className="h-3 w-3" />{variantStats?.usageCount || 0} sent</span>
+                <span className="flex items-center gap-1"><Reply className="h-3 w-3" />{variantStats?.replyCount || 0} replies</span>
+                <span>{formatRate(variantStats)} reply rate</span>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
+
+function KeySelect({
+  label,
+  value,
+  options,
+  onChange,
+  testId
+}: {
+  label: string;
+  value: string;
+  options: readonly string[];
+  onChange: (value: string) => void;
+  testId: string;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger data-testid={testId}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any</SelectItem>
+          {options.map(option => (
+            <SelectItem key={option} value={option}>{option}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+function TemplateEditor({ initial, onDone }: { initial: TemplateDraft; onDone: () => void }) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<TemplateDraft>(initial);
+  const [sample, setSample] = useState({
+    phase: "qualification",
+    userFormality: "formal",
+    timeOfDay: "morning",
+    lastUserSentiment: "neutral",
+    region: "ES"
+  });
+  const [preview, setPreview] = useState<TemplatePreview | null>(null);
+
+  const update = (changes: Partial<TemplateDraft>) => {
+    setDraft(current => ({ ...current, ...changes }));
+    setPreview(null);
+  };
+  const updateVariant = (index: number, text: string) => {
+    update({ variants: draft.variants.map((variant, i) => i === index ? { ...variant, text } : variant) });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = fromDraft(draft);
+      const res = draft.id
+        ? await apiRequest('PATCH', `/api/message-templates/${draft.id}`, body)
+        : await apiRequest('POST', '/api/message-templates', body);
+      return res.json() as Promise<MessageTemplate>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/message-templates'] });
+      toast({ title: draft.id ? "Template saved" : "Template created" });
+      onDone();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save template", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/message-templates/preview', {
+        template: fromDraft(draft),
+        context: sample
+      });
+      return res.json() as Promise<TemplatePreview>;
+    },
+    onSuccess: setPreview,
+    onError: (error: Error) => {
+      toast({ title: "Could not preview template", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const hasVariants = draft.variants.some(variant => variant.text.trim());
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label className="text-xs">Name</Label>
+          <Input value={draft.name} onChange={(e) => update({ name: e.target.value })} data-testid="template-name" />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Type</Label>
+          <Select value={draft.type} onValueChange={(type) => update({ type })} disabled={!!draft.id}>
+            <SelectTrigger data-testid="template-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {templateTypes.map(type => (
+                <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-5 gap-2">
+        <KeySelect label="Phase" value={draft.phase} options={keyOptions.phase} onChange={(phase) => update({ phase })} testId="template-phase" />
+        <div className="space-y-1">
+          <Label className="text-xs">Region</Label>
+          <Input value={draft.region} placeholder="Any" onChange={(e) => update({ region: e.target.value })} data-testid="template-region" />
+        </div>
+        <KeySelect label="Formality" value={draft.formality} options={keyOptions.formality} onChange={(formality) => update({ formality })} testId="template-formality" />
+        <KeySelect label="Time of day" value={draft.timeOfDay} options={keyOptions.timeOfDay} onChange={(timeOfDay) => update({ timeOfDay })} testId="template-time" />
+        {draft.type === "acknowledgment" && (
+          <KeySelect label="Sentiment" value={draft.sentiment} options={keyOptions.sentiment} onChange={(sentiment) => update({ sentiment })} testId="template-sentiment" />
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">Variants</Label>
+          <Button variant="outline" size="sm" onClick={() => update({ variants: [...draft.variants, { text: "" }] })} data-testid="add-variant">
+            <Plus className="h-3 w-3 mr-1" />
+            Variant
+          </Button>
+        </div>
+        {draft.variants.map((variant, index) => (
+          <div key={variant.id || index} className="flex gap-2">
+            <Textarea
+              value={variant.text}
+              rows={2}
+              onChange={(e) => updateVariant(index, e.target.value)}
+              data-testid={`variant-${index}`}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={draft.variants.length === 1}
+              onClick={() => update({ variants: draft.variants.filter((_, i) => i !== index) })}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <p className="text-xs text-muted-foreground">
+          Placeholders: {placeholders.map(name => `{${name}}`).join(" ")}. Editing a variant's text starts its stats over.
+        </p>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch id="template-active" checked={draft.isActive} onCheckedChange={(isActive) => update({ isActive })} />
+        <Label htmlFor="template-active" className="text-sm">Active</Label>
+      </div>
+
+      <div className="rounded border p-3 space-y-3">
+        <div className="grid grid-cols-5 gap-2 items-end">
+          <KeySelect label="Sample phase" value={sample.phase} options={keyOptions.phase} onChange={(phase) => setSample({ ...sample, phase: phase === ANY ? "qualification" : phase })} testId="sample-phase" />
+          <div className="space-y-1">
+            <Label className="text-xs">Sample region</Label>
+            <Input value={sample.region} onChange={(e) => setSample({ ...sample, region: e.target.value.toUpperCase() || "ES" })} />
+          </div>
+          <KeySelect label="Sample formality" value={sample.userFormality} options={keyOptions.formality} onChange={(userFormality) => setSample({ ...sample, userFormality: userFormality === ANY ? "formal" : userFormality })} testId="sample-formality" />
+          <KeySelect label="Sample time" value={sample.timeOfDay} options={keyOptions.timeOfDay} onChange={(timeOfDay) => setSample({ ...sample, timeOfDay: timeOfDay === ANY ? "morning" : timeOfDay })} testId="sample-time" />
+          <Button variant="outline" onClick={() => previewMutation.mutate()} disabled={!hasVariants || previewMutation.isPending} data-testid="preview-template">
+            <Eye className="h-4 w-4 mr-2" />
+            Preview
+          </Button>
+        </div>
+        {preview && (
+          <div className="space-y-2" data-testid="template-preview">
+            {!preview.matches && (
+              <p className="text-xs text-orange-600">This template's keys don't match the sample turn, so it would not be used for it.</p>
+            )}
+            {preview.variants.map((variant, index) => (
+              <div key={index} className="rounded bg-muted p-2 text-sm whitespace-pre-line">{variant.text}</div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onDone}>Cancel</Button>
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={!draft.name.trim() || !hasVariants || saveMutation.isPending}
+          data-testid="save-template"
+        >
+          {saveMutation.isPending ? "Saving..." : draft.id ? "Save Template" : "Create Template"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function MessageTemplates() {
+  const [selectedType, setSelectedType] = useState("greeting");
+  const [editing, setEditing] = useState<TemplateDraft | null>(null);
+  const { hasRole } = useAuth();
+
+  const { data: templates, isLoading } = useQuery<MessageTemplate[]>({
+    queryKey: ['/api/message-templates']
+  });
+  const { data: stats } = useQuery<VariantStats[]>({
+    queryKey: ['/api/message-templates/stats']
+  });
+
+  const statsByVariant = new Map((stats || []).map(row => [`${row.templateId}:${row.variantId}`, row]));
+  const shown = templates?.filter(template => template.type === selectedType) || [];
+  // Built-in templates of a type stop applying once a stored active one exists
+  const hasStored = shown.some(template => !template.builtin && template.isActive);
+
+  const totalSent = stats?.reduce((sum, row) => sum + row.usageCount, 0) || 0;
+  const totalReplies = stats?.reduce((sum, row) => sum + row.replyCount, 0) || 0;
+
+  return (
+    <>
+      <Header
+        title="Message Templates"
+        subtitle="Greetings, acknowledgments and question framings the agent sends, with reply rates per variant"
+      />
+
+      <div className="flex-1 p-6 overflow-y-auto">
+        <div className="grid grid-cols-3 gap-4 mb-6">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-2xl font-bold" data-testid="total-templates">
+                    {templates?.filter(template => !template.builtin).length || 0}
+                  </p>
+                  <p className="text-sm text-muted-foreground">Custom Templates</p>
+                </div>
+                <MessageSquare className="h-8 w-8 text-muted-foreground" />
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-2xl font-bold" data-testid="total-sent">{totalSent}</p>
+                  <p className="text-sm text-muted-foreground">Variants Sent</p>
+                </div>
+                <Send className="h-8 w-8 text-muted-foreground" />
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-2xl font-bold text-blue-600" data-testid="overall-reply-rate">
+                    {totalSent > 0 ? Math.round(totalReplies / totalSent * 100) : 0}%
+                  </p>
+                  <p className="text-sm text-muted-foreground">Reply Rate</p>
+                </div>
+                <Reply className="h-8 w-8 text-blue-600" />
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="flex items-center justify-between mb-6">
+          <Tabs value={selectedType} onValueChange={setSelectedType}>
+            <TabsList>
+              {templateTypes.map(type => (
+                <TabsTrigger key={type.value} value={type.value} data-testid={`tab-${type.value}`}>
+                  {type.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          {hasRole('admin', 'analyst') && (
+            <Button onClick={() => setEditing(toDraft(undefined, selectedType))} data-testid="add-template-button">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Template
+            </Button>
+          )}
+        </div>
+
+        {hasStored && (
+          <p className="text-sm text-muted-foreground mb-4">
+            Built-in templates only apply to turns none of the custom templates of this type match.
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <Card key={i} className="animate-pulse">
+                <CardContent className="pt-6">
+                  <div className="h-4 bg-muted rounded w-1/2 mb-2" />
+                  <div className="h-16 bg-muted rounded" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {shown.map(template => (
+              <TemplateCard
+                key={template.id}
+                template={template}
+                stats={statsByVariant}
+                onEdit={(selected) => setEditing(toDraft(selected))}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? "Edit Template" : "New Template"}</DialogTitle>
+          </DialogHeader>
+          {editing && <TemplateEditor initial={editing} onDone={() => setEditing(null)} />}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
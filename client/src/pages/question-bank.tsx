@@ -10,12 +10,16 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Plus, MessageCircle, TrendingUp, Clock, Edit, Trash2 } from "lucide-react";
-import { queryClient } from "@/lib/queryClient";
+import { Plus, MessageCircle, TrendingUp, Clock, Edit, Trash2, History, RotateCcw, Check, X, Upload, Download } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { PlaybookEditor } from "@/components/playbook-editor";
 
 const questionSchema = z.object({
   category: z.string().min(1, "Category is required"),
@@ -40,6 +44,42 @@ interface Question {
   usageCount: number;
   lastUsed?: string;
   isActive: boolean;
+  version: number;
+}
+
+interface QuestionVersion {
+  id: string;
+  version: number;
+  category: string;
+  subcategory?: string;
+  questionText: string;
+  language: string;
+  region: string;
+  successRate: number;
+  usageCount: number;
+  lastUsed?: string;
+  changeNote?: string;
+  createdBy?: string;
+  createdAt: string;
+  supersededAt?: string;
+}
+
+interface ImportIssue {
+  row: number;
+  field?: string;
+  message: string;
+}
+
+interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  revised: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
 }
 
 const categories = [
@@ -54,6 +94,53 @@ const categories = [
 
 function QuestionCard({ question }: { question: Question }) {
   const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canEdit = hasRole('admin', 'analyst');
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState({ questionText: question.questionText, subcategory: question.subcategory || "", changeNote: "" });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['/api/questions'] });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('PATCH', `/api/questions/${question.id}`, {
+        questionText: draft.questionText,
+        subcategory: draft.subcategory || null,
+        changeNote: draft.changeNote || undefined
+      });
+      return res.json() as Promise<{ question: Question; versioned: boolean }>;
+    },
+    onSuccess: ({ question: saved, versioned }) => {
+      refresh();
+      setIsEditing(false);
+      toast({ title: versioned ? `Saved as version ${saved.version}` : "Question saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save question", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const activeMutation = useMutation({
+    mutationFn: async () => {
+      if (question.isActive) {
+        await apiRequest('DELETE', `/api/questions/${question.id}`);
+      } else {
+        await apiRequest('PATCH', `/api/questions/${question.id}`, { isActive: true });
+      }
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: question.isActive ? "Question retired" : "Question restored" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not update question", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const startEditing = () => {
+    setDraft({ questionText: question.questionText, subcategory: question.subcategory || "", changeNote: "" });
+    setIsEditing(true);
+  };
   
   const getSuccessRateColor = (rate: number) => {
     if (rate >= 0.8) return "text-green-600";
@@ -84,24 +171,83 @@ function QuestionCard({ question }: { question: Question }) {
               )}
               {!question.isActive && (
                 <Badge variant="destructive" className="text-xs">
-                  Inactive
+                  Retired
                 </Badge>
               )}
+              <Badge variant="outline" className="text-xs" data-testid="question-version">
+                v{question.version}
+              </Badge>
             </div>
-            <CardTitle className="text-sm leading-tight" data-testid="question-text">
-              {question.questionText}
-            </CardTitle>
+            {isEditing ? (
+              <div className="space-y-2">
+                <Textarea
+                  value={draft.questionText}
+                  onChange={(e) => setDraft({ ...draft, questionText: e.target.value })}
+                  className="min-h-20 text-sm"
+                  data-testid="edit-question-text"
+                />
+                <Input
+                  value={draft.subcategory}
+                  onChange={(e) => setDraft({ ...draft, subcategory: e.target.value })}
+                  placeholder="Subcategory"
+                  className="h-8 text-xs"
+                />
+                <Input
+                  value={draft.changeNote}
+                  onChange={(e) => setDraft({ ...draft, changeNote: e.target.value })}
+                  placeholder="What changed? (kept with the new version)"
+                  className="h-8 text-xs"
+                  data-testid="edit-change-note"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Changing the wording starts version {question.version + 1} with fresh stats.
+                </p>
+              </div>
+            ) : (
+              <CardTitle className="text-sm leading-tight" data-testid="question-text">
+                {question.questionText}
+              </CardTitle>
+            )}
           </div>
-          <div className="opacity-0 group-hover:opacity-100 transition-opacity">
-            <div className="flex gap-1">
-              <Button size="sm" variant="ghost" data-testid="edit-question">
-                <Edit className="h-3 w-3" />
+          {isEditing ? (
+            <div className="flex gap-1 ml-2">
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || draft.questionText.trim().length < 10}
+                data-testid="save-question"
+              >
+                <Check className="h-3 w-3" />
               </Button>
-              <Button size="sm" variant="ghost" data-testid="delete-question">
-                <Trash2 className="h-3 w-3" />
+              <Button size="sm" variant="ghost" onClick={() => setIsEditing(false)} data-testid="cancel-edit">
+                <X className="h-3 w-3" />
               </Button>
             </div>
-          </div>
+          ) : (
+            <div className="opacity-0 group-hover:opacity-100 transition-opacity">
+              <div className="flex gap-1">
+                <VersionHistoryDialog question={question} />
+                {canEdit && (
+                  <>
+                    <Button size="sm" variant="ghost" onClick={startEditing} data-testid="edit-question">
+                      <Edit className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => activeMutation.mutate()}
+                      disabled={activeMutation.isPending}
+                      title={question.isActive ? "Retire" : "Restore"}
+                      data-testid={question.isActive ? "delete-question" : "restore-question"}
+                    >
+                      {question.isActive ? <Trash2 className="h-3 w-3" /> : <RotateCcw className="h-3 w-3" />}
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
         </div>
       </CardHeader>
       
@@ -145,6 +291,172 @@ function QuestionCard({ question }: { question: Question }) {
   );
 }
 
+function VersionHistoryDialog({ question }: { question: Question }) {
+  const [open, setOpen] = useState(false);
+
+  const { data: versions, isLoading } = useQuery<QuestionVersion[]>({
+    queryKey: ['/api/questions', question.id, 'versions'],
+    enabled: open
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost" title="Version history" data-testid="question-history">
+          <History className="h-3 w-3" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Version history</DialogTitle>
+        </DialogHeader>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : !versions?.length ? (
+          <p className="text-sm text-muted-foreground">
+            This question has not been edited since versions were introduced.
+          </p>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {versions.map((version) => (
+              <div key={version.id} className="border rounded-md p-3 text-sm" data-testid={`question-version-${version.version}`}>
+                <div className="flex items-center justify-between mb-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={version.supersededAt ? "outline" : "default"} className="text-xs">
+                      v{version.version}
+                    </Badge>
+                    {!version.supersededAt && <span className="text-xs text-muted-foreground">Current</span>}
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(version.createdAt).toLocaleDateString('es-ES', { day: 'numeric', month: 'short', year: 'numeric' })}
+                    {version.createdBy && ` · ${version.createdBy}`}
+                  </span>
+                </div>
+                <p className="mb-2">{version.questionText}</p>
+                {version.changeNote && (
+                  <p className="text-xs italic text-muted-foreground mb-2">{version.changeNote}</p>
+                )}
+                <div className="flex gap-4 text-xs text-muted-foreground">
+                  <span>{Math.round(version.successRate * 100)}% success</span>
+                  <span>{version.usageCount} uses</span>
+                  <span>{version.language.toUpperCase()} / {version.region}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ImportDialog() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<{ name: string; format: 'csv' | 'json'; content: string } | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const response = await fetch('/api/questions/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ format: file!.format, content: file!.content, dryRun })
+      });
+      const body = await response.json();
+      if (!response.ok && !body.errors) {
+        throw new Error(body.error || 'Import failed');
+      }
+      return body as ImportReport;
+    },
+    onSuccess: (result) => {
+      setReport(result);
+      if (!result.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ['/api/questions'] });
+        toast({ title: `Imported ${result.created} new, ${result.revised + result.updated} updated` });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Import failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const onFile = async (selected?: File) => {
+    setReport(null);
+    if (!selected) return setFile(null);
+    const format = selected.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+    setFile({ name: selected.name, format, content: await selected.text() });
+  };
+
+  const issues = report ? [
+    ...report.errors.map(issue => ({ ...issue, kind: 'error' as const })),
+    ...report.warnings.map(issue => ({ ...issue, kind: 'warning' as const }))
+  ] : [];
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (!next) { setFile(null); setReport(null); } }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="import-questions-button">
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import questions</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            CSV or JSON in the export format. Rows with an id edit that question; rows without one are added.
+          </p>
+          <Input type="file" accept=".csv,.json" onChange={(e) => onFile(e.target.files?.[0])} data-testid="import-file" />
+
+          {report && (
+            <div className="border rounded-md p-3 text-sm space-y-2" data-testid="import-report">
+              <p className="font-medium">{report.dryRun ? "Validation" : "Import"}: {report.total} rows</p>
+              <div className="flex flex-wrap gap-2 text-xs">
+                <Badge variant="outline">{report.created} new</Badge>
+                <Badge variant="outline">{report.revised} new versions</Badge>
+                <Badge variant="outline">{report.updated} updated</Badge>
+                <Badge variant="outline">{report.unchanged} unchanged</Badge>
+                <Badge variant={report.skipped ? "destructive" : "outline"}>{report.skipped} skipped</Badge>
+              </div>
+              {issues.length > 0 && (
+                <ul className="max-h-40 overflow-y-auto text-xs space-y-1">
+                  {issues.map((issue, i) => (
+                    <li key={i} className={issue.kind === 'error' ? "text-red-600" : "text-yellow-600"}>
+                      {issue.row > 0 ? `Row ${issue.row}` : 'File'}{issue.field && ` (${issue.field})`}: {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => importMutation.mutate(true)}
+              disabled={!file || importMutation.isPending}
+              data-testid="validate-import"
+            >
+              Validate
+            </Button>
+            <Button
+              onClick={() => importMutation.mutate(false)}
+              disabled={!file || importMutation.isPending || (report !== null && !report.dryRun)}
+              data-testid="run-import"
+            >
+              {importMutation.isPending ? "Importing..." : "Import"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 function QuestionForm({ onSuccess }: { onSuccess: () => void }) {
   const { toast } = useToast();
   
@@ -339,20 +651,28 @@ export default function QuestionBank() {
   const [selectedCategory, setSelectedCategory] = useState("all");
   const [searchTerm, setSearchTerm] = useState("");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [showRetired, setShowRetired] = useState(false);
+  const [view, setView] = useState<"questions" | "playbooks">("questions");
+  const { hasRole } = useAuth();
 
   const { data: questions, isLoading } = useQuery<Question[]>({
-    queryKey: ['/api/questions']
+    queryKey: ['/api/questions', 'all'],
+    queryFn: async () => {
+      const response = await fetch('/api/questions?includeInactive=true', { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch questions');
+      return response.json();
+    }
   });
 
   const filteredQuestions = questions?.filter(question => {
     const matchesCategory = selectedCategory === "all" || question.category === selectedCategory;
     const matchesSearch = question.questionText.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          question.subcategory?.toLowerCase().includes(searchTerm.toLowerCase());
-    return matchesCategory && matchesSearch && question.isActive;
+    return matchesCategory && matchesSearch && (showRetired || question.isActive);
   }) || [];
 
   const categoryStats = categories.map(category => {
-    const categoryQuestions = questions?.filter(q => q.category === category.value) || [];
+    const categoryQuestions = questions?.filter(q => q.isActive && q.category === category.value) || [];
     const avgSuccessRate = categoryQuestions.length > 0 
       ? categoryQuestions.reduce((sum, q) => sum + q.successRate, 0) / categoryQuestions.length 
       : 0;
@@ -368,7 +688,7 @@ export default function QuestionBank() {
     <>
       <Header 
         title="Question Bank"
-        subtitle="Manage AI conversation questions for lead qualification"
+        subtitle="Manage AI conversation questions and the playbooks that order them"
       />
       
       <div className="flex-1 p-6 overflow-y-auto">
@@ -433,131 +753,164 @@ export default function QuestionBank() {
           </Card>
         </div>
 
-        {/* Controls */}
-        <div className="flex gap-4 mb-6">
-          <div className="flex-1">
-            <Input
-              placeholder="Search questions..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              data-testid="search-questions"
-            />
-          </div>
-          
-          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button data-testid="add-question-button">
-                <Plus className="h-4 w-4 mr-2" />
-                Add Question
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-md">
-              <DialogHeader>
-                <DialogTitle>Create New Question</DialogTitle>
-              </DialogHeader>
-              <QuestionForm onSuccess={() => setIsDialogOpen(false)} />
-            </DialogContent>
-          </Dialog>
-        </div>
-
-        {/* Categories and Questions */}
-        <Tabs value={selectedCategory} onValueChange={setSelectedCategory}>
-          <TabsList className="grid grid-cols-4 lg:grid-cols-8">
-            <TabsTrigger value="all" data-testid="tab-all">All</TabsTrigger>
-            {categories.map((category) => (
-              <TabsTrigger key={category.value} value={category.value} data-testid={`tab-${category.value}`}>
-                {category.label.split(' ')[0]}
-              </TabsTrigger>
-            ))}
+        <Tabs value={view} onValueChange={(value) => setView(value as "questions" | "playbooks")} className="mb-6">
+          <TabsList>
+            <TabsTrigger value="questions" data-testid="view-questions">Questions</TabsTrigger>
+            <TabsTrigger value="playbooks" data-testid="view-playbooks">Playbooks</TabsTrigger>
           </TabsList>
+        </Tabs>
 
-          <TabsContent value="all" className="mt-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
-              {categoryStats.map((category) => (
-                <Card key={category.value} className="cursor-pointer hover:bg-accent" 
-                      onClick={() => setSelectedCategory(category.value)}>
-                  <CardContent className="pt-4">
-                    <div className="flex items-center gap-3 mb-2">
-                      <div className={`w-3 h-3 rounded-full ${category.color}`} />
-                      <h3 className="font-medium text-sm">{category.label}</h3>
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span className="text-muted-foreground">{category.count} questions</span>
-                      <span className="text-green-600 font-medium">
-                        {Math.round(category.successRate * 100)}%
-                      </span>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
-          </TabsContent>
-
-          {categories.map((category) => (
-            <TabsContent key={category.value} value={category.value} className="mt-6">
-              <div className="mb-4">
-                <h3 className="text-lg font-semibold flex items-center gap-2">
-                  <div className={`w-3 h-3 rounded-full ${category.color}`} />
-                  {category.label}
-                </h3>
-                <p className="text-sm text-muted-foreground">
-                  {filteredQuestions.length} questions in this category
-                </p>
+        {view === 'playbooks' ? (
+          <PlaybookEditor questions={questions || []} categories={categories} />
+        ) : (
+          <>
+            {/* Controls */}
+            <div className="flex gap-4 mb-6">
+              <div className="flex-1">
+                <Input
+                  placeholder="Search questions..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  data-testid="search-questions"
+                />
+              </div>
+          
+              <div className="flex items-center gap-2">
+                <Switch id="show-retired" checked={showRetired} onCheckedChange={setShowRetired} data-testid="show-retired" />
+                <Label htmlFor="show-retired" className="text-sm">Show retired</Label>
               </div>
-            </TabsContent>
-          ))}
-        </Tabs>
 
-        {/* Questions Grid */}
-        {isLoading ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {Array.from({ length: 6 }).map((_, i) => (
-              <Card key={i} className="animate-pulse">
-                <CardContent className="pt-6">
-                  <div className="h-4 bg-muted rounded w-3/4 mb-2" />
-                  <div className="h-16 bg-muted rounded mb-4" />
-                  <div className="grid grid-cols-3 gap-2">
-                    <div className="h-8 bg-muted rounded" />
-                    <div className="h-8 bg-muted rounded" />
-                    <div className="h-8 bg-muted rounded" />
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
-        ) : filteredQuestions.length === 0 ? (
-          <Card>
-            <CardContent className="pt-6 text-center">
-              <MessageCircle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-              <p className="text-lg font-medium">No questions found</p>
-              <p className="text-muted-foreground mb-4">
-                {searchTerm || selectedCategory !== "all" 
-                  ? "Try adjusting your search or category filter"
-                  : "Create your first question to get started"
-                }
-              </p>
-              <Dialog>
+              <Button variant="outline" asChild data-testid="export-csv">
+                <a href="/api/questions/export?format=csv" download>
+                  <Download className="h-4 w-4 mr-2" />
+                  CSV
+                </a>
+              </Button>
+              <Button variant="outline" asChild data-testid="export-json">
+                <a href="/api/questions/export?format=json" download>
+                  <Download className="h-4 w-4 mr-2" />
+                  JSON
+                </a>
+              </Button>
+
+              {hasRole('admin', 'analyst') && <ImportDialog />}
+
+              <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
                 <DialogTrigger asChild>
-                  <Button>
+                  <Button data-testid="add-question-button">
                     <Plus className="h-4 w-4 mr-2" />
-                    Add First Question
+                    Add Question
                   </Button>
                 </DialogTrigger>
                 <DialogContent className="max-w-md">
                   <DialogHeader>
                     <DialogTitle>Create New Question</DialogTitle>
                   </DialogHeader>
-                  <QuestionForm onSuccess={() => {}} />
+                  <QuestionForm onSuccess={() => setIsDialogOpen(false)} />
                 </DialogContent>
               </Dialog>
-            </CardContent>
-          </Card>
-        ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {filteredQuestions.map((question) => (
-              <QuestionCard key={question.id} question={question} />
-            ))}
-          </div>
+            </div>
+
+            {/* Categories and Questions */}
+            <Tabs value={selectedCategory} onValueChange={setSelectedCategory}>
+              <TabsList className="grid grid-cols-4 lg:grid-cols-8">
+                <TabsTrigger value="all" data-testid="tab-all">All</TabsTrigger>
+                {categories.map((category) => (
+                  <TabsTrigger key={category.value} value={category.value} data-testid={`tab-${category.value}`}>
+                    {category.label.split(' ')[0]}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+
+              <TabsContent value="all" className="mt-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+                  {categoryStats.map((category) => (
+                    <Card key={category.value} className="cursor-pointer hover:bg-accent" 
+                          onClick={() => setSelectedCategory(category.value)}>
+                      <CardContent className="pt-4">
+                        <div className="flex items-center gap-3 mb-2">
+                          <div className={`w-3 h-3 rounded-full ${category.color}`} />
+                          <h3 className="font-medium text-sm">{category.label}</h3>
+                        </div>
+                        <div className="flex justify-between text-sm">
+                          <span className="text-muted-foreground">{category.count} questions</span>
+                          <span className="text-green-600 font-medium">
+                            {Math.round(category.successRate * 100)}%
+                          </span>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </TabsContent>
+
+              {categories.map((category) => (
+                <TabsContent key={category.value} value={category.value} className="mt-6">
+                  <div className="mb-4">
+                    <h3 className="text-lg font-semibold flex items-center gap-2">
+                      <div className={`w-3 h-3 rounded-full ${category.color}`} />
+                      {category.label}
+                    </h3>
+                    <p className="text-sm text-muted-foreground">
+                      {filteredQuestions.length} questions in this category
+                    </p>
+                  </div>
+                </TabsContent>
+              ))}
+            </Tabs>
+
+            {/* Questions Grid */}
+            {isLoading ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {Array.from({ length: 6 }).map((_, i) => (
+                  <Card key={i} className="animate-pulse">
+                    <CardContent className="pt-6">
+                      <div className="h-4 bg-muted rounded w-3/4 mb-2" />
+                      <div className="h-16 bg-muted rounded mb-4" />
+                      <div className="grid grid-cols-3 gap-2">
+                        <div className="h-8 bg-muted rounded" />
+                        <div className="h-8 bg-muted rounded" />
+                        <div className="h-8 bg-muted rounded" />
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            ) : filteredQuestions.length === 0 ? (
+              <Card>
+                <CardContent className="pt-6 text-center">
+                  <MessageCircle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-lg font-medium">No questions found</p>
+                  <p className="text-muted-foreground mb-4">
+                    {searchTerm || selectedCategory !== "all" 
+                      ? "Try adjusting your search or category filter"
+                      : "Create your first question to get started"
+                    }
+                  </p>
+                  <Dialog>
+                    <DialogTrigger asChild>
+                      <Button>
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add First Question
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="max-w-md">
+                      <DialogHeader>
+                        <DialogTitle>Create New Question</DialogTitle>
+                      </DialogHeader>
+                      <QuestionForm onSuccess={() => {}} />
+                    </DialogContent>
+                  </Dialog>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {filteredQuestions.map((question) => (
+                  <QuestionCard key={question.id} question={question} />
+                ))}
+              </div>
+            )}
+          </>
         )}
       </div>
     </>
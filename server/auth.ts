@@ -0,0 +1,295 @@
+// Session authentication and role-based access for the API and dashboard.
+// Passwords are scrypt-hashed, sessions live in Postgres (connect-pg-simple),
+// and every /api request is checked against ACCESS_RULES before reaching a route.
+
+import type { Express, Request, RequestHandler, Response, NextFunction } from "express";
+import type { IncomingMessage } from "http";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { pool } from "./db";
+import { storage } from "./storage";
+import { USER_ROLES, type User as SelectUser, type UserRole } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+/** User as sent to the client, without the password hash */
+export function toPublicUser(user: SelectUser) {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+interface AccessRule {
+  pattern: RegExp;
+  methods?: string[]; // All methods when omitted
+  roles: readonly UserRole[] | 'public';
+}
+
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// First matching rule wins. Unmatched reads are open to every role, unmatched writes to admins only.
+const ACCESS_RULES: AccessRule[] = [
+  // Providers call these without a session; each channel authenticates its own webhook
+  { pattern: /^\/api\/webhook(\/|$)/, roles: 'public' },
+  { pattern: /^\/api\/health$/, roles: 'public' },
+  { pattern: /^\/api\/(login|logout|register)$/, roles: 'public' },
+
+  // Kill switches, cache wipes, user management and raw sends
+  { pattern: /^\/api\/shadow\/safety\//, methods: WRITE_METHODS, roles: ['admin'] },
+  { pattern: /^\/api\/cache(\/|$)/, methods: WRITE_METHODS, roles: ['admin'] },
+  { pattern: /^\/api\/users(\/|$)/, roles: ['admin'] },
+  { pattern: /^\/api\/inbound-queue\//, methods: WRITE_METHODS, roles: ['admin'] },
+  { pattern: /^\/api\/test\//, roles: ['admin'] },
+
+  // Sales rep workflow: takeover, manual replies, escalations, deal stages, meetings and availability
+  { pattern: /^\/api\/conversations\/[^/]+\/(claim|release|operator-messages|escalate|messages|meetings|meeting-proposals)$/, methods: WRITE_METHODS, roles: ['admin', 'sales_rep'] },
+  { pattern: /^\/api\/escalations(\/|$)/, methods: WRITE_METHODS, roles: ['admin', 'sales_rep'] },
+  { pattern: /^\/api\/deals(\/|$)/, methods: WRITE_METHODS, roles: ['admin', 'sales_rep'] },
+  { pattern: /^\/api\/(meetings|availability)(\/|$)/, methods: WRITE_METHODS, roles: ['admin', 'sales_rep'] },
+
+  // Experiments, replay, knowledge graph, question tuning, qualification rules, calibration, analytics, scoring and follow-ups
+  { pattern: /^\/api\/(shadow|recordings|replay|replay-executions|validate-reproducibility|tracing|knowledge|questions|playbooks|similarity|message-templates|icp-profiles|ai|reasoning-traces|learning|calibration|deal-analytics|scoring|follow-ups)(\/|$)/, methods: WRITE_METHODS, roles: ['admin', 'analyst'] },
+
+  // Chat testing creates, simulates and recalculates conversations
+  { pattern: /^\/api\/conversations(\/|$)/, methods: WRITE_METHODS, roles: ['admin', 'analyst', 'sales_rep'] },
+];
+
+function rolesFor(method: string, path: string): readonly UserRole[] | 'public' {
+  const rule = ACCESS_RULES.find(r =>
+    r.pattern.test(path) && (!r.methods || r.methods.includes(method))
+  );
+  if (rule) return rule.roles;
+
+  return WRITE_METHODS.includes(method) ? ['admin'] : USER_ROLES;
+}
+
+export function enforceAccessPolicy(req: Request, res: Response, next: NextFunction) {
+  if (!req.path.startsWith('/api/')) return next();
+
+  const roles = rolesFor(req.method, req.path);
+  if (roles === 'public') return next();
+
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  if (!roles.includes(req.user.role as UserRole)) {
+    return res.status(403).json({ error: 'Insufficient permissions' });
+  }
+  next();
+}
+
+const createUserSchema = z.object({
+  username: z.string().min(3),
+  password: z.string().min(8),
+  role: z.enum(USER_ROLES).default('viewer')
+});
+
+const updateUserSchema = z.object({
+  password: z.string().min(8).optional(),
+  role: z.enum(USER_ROLES).optional()
+});
+
+let sessionMiddleware: RequestHandler | null = null;
+
+/**
+ * Dashboard user behind a WebSocket upgrade, read from the same session cookie as the API.
+ * Null for anonymous sockets (site widgets) and before setupAuth ran.
+ */
+export async function authenticateUpgrade(request: IncomingMessage): Promise<SelectUser | null> {
+  if (!sessionMiddleware) return null;
+
+  const req = request as Request;
+  await new Promise<void>((resolve, reject) => {
+    sessionMiddleware!(req, {} as Response, (err?: unknown) => err ? reject(err) : resolve());
+  });
+
+  const userId = (req.session as { passport?: { user?: string } } | undefined)?.passport?.user;
+  return userId ? (await storage.getUser(userId)) || null : null;
+}
+
+export function setupAuth(app: Express): void {
+  // A known secret lets anyone sign a session cookie for any user
+  if (!process.env.SESSION_SECRET) {
+    throw new Error("SESSION_SECRET must be set");
+  }
+
+  const PostgresSessionStore = connectPg(session);
+
+  app.set("trust proxy", 1);
+  sessionMiddleware = session({
+    secret: process.env.SESSION_SECRET,
+    resave: false,
+    saveUninitialized: false,
+    store: new PostgresSessionStore({ pool, createTableIfMissing: true }),
+    cookie: {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: 7 * 24 * 60 * 60 * 1000
+    }
+  });
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.use(enforceAccessPolicy);
+
+  // Only allowed while no user exists: bootstraps the first admin
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const { username, password } = createUserSchema.parse(req.body);
+      const user = await storage.createFirstUser({
+        username,
+        password: await hashPassword(password),
+        role: 'admin'
+      });
+      if (!user) {
+        return res.status(403).json({ error: 'Registration is closed; ask an admin for an account' });
+      }
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid registration data', details: error.errors });
+      } else {
+        res.status(500).json({ error: 'Failed to register' });
+      }
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: any, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ error: 'Invalid username or password' });
+      }
+
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.status(200).json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(200);
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    res.json(toPublicUser(req.user!));
+  });
+
+  // User management (admin only, see ACCESS_RULES)
+  app.get("/api/users", async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch users' });
+    }
+  });
+
+  app.post("/api/users", async (req, res) => {
+    try {
+      const { username, password, role } = createUserSchema.parse(req.body);
+
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ error: 'Username already exists' });
+      }
+
+      const user = await storage.createUser({
+        username,
+        password: await hashPassword(password),
+        role
+      });
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid user data', details: error.errors });
+      } else {
+        res.status(500).json({ error: 'Failed to create user' });
+      }
+    }
+  });
+
+  app.patch("/api/users/:id", async (req, res) => {
+    try {
+      const { password, role } = updateUserSchema.parse(req.body);
+      if (!password && !role) {
+        return res.status(400).json({ error: 'Nothing to update' });
+      }
+
+      const user = await storage.updateUser(req.params.id, {
+        ...(role ? { role } : {}),
+        ...(password ? { password: await hashPassword(password) } : {})
+      });
+
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid user data', details: error.errors });
+      } else {
+        res.status(500).json({ error: 'Failed to update user' });
+      }
+    }
+  });
+}
@@ -1,11 +1,14 @@
 #!/usr/bin/env node
 
+import { pathToFileURL } from 'url';
 import { Command } from 'commander';
 import { storage } from './storage';
 import { recordingService } from './services/recording';
 import { replayEngine } from './services/replay';
 import { tracingService } from './services/tracing';
 import { idempotentCompute } from './services/idempotent';
+import { startMockCrmServer } from './services/crm/mock-server';
+import { leadScoringService } from './services/lead-scoring';
 
 const program = new Command();
 
@@ -380,14 +383,88 @@ configCmd
     console.log(`Max Webhook Events: ${process.env.MAX_WEBHOOK_EVENTS || '1000'}`);
   });
 
+// CRM Commands
+const crmCmd = program
+  .command('crm')
+  .description('CRM integration tools');
+
+crmCmd
+  .command('mock-server')
+  .description('Run an in-memory HubSpot/Pipedrive-style API for local testing')
+  .option('-p, --port <port>', 'Port to listen on', '4010')
+  .action(async (options) => {
+    const port = parseInt(options.port);
+    await startMockCrmServer(port);
+
+    console.log(`Mock CRM listening on port ${port}`);
+    console.log(`HubSpot apiBaseUrl:   http://localhost:${port}`);
+    console.log(`Pipedrive apiBaseUrl: http://localhost:${port}/v1`);
+  });
+
+// Lead Scoring Commands
+const scoringCmd = program
+  .command('scoring')
+  .description('Win probability model trained on closed deals');
+
+scoringCmd
+  .command('retrain')
+  .description('Train a new model version on every won and lost deal')
+  .option('--no-activate', 'Save the version without making it the active model')
+  .option('-n, --notes <notes>', 'Notes stored with the version')
+  .action(async (options) => {
+    try {
+      const model = await leadScoringService.retrain({
+        activate: options.activate,
+        notes: options.notes,
+        trainedBy: 'cli'
+      });
+      const metrics = model.metrics as { auc: number; brierScore: number; logLoss: number; folds: number };
+
+      console.log(`Trained scoring model v${model.version}${model.isActive ? ' (active)' : ''}`);
+      console.log(`Deals: ${model.trainingSize} (${model.positives} won)`);
+      console.log(`AUC: ${metrics.auc.toFixed(3)}  Brier: ${metrics.brierScore.toFixed(3)}  Log loss: ${metrics.logLoss.toFixed(3)}  (${metrics.folds}-fold)`);
+      console.table((model.reliability as Array<Record<string, number>>).map(bin => ({
+        Bin: `${bin.lower.toFixed(1)}-${bin.upper.toFixed(1)}`,
+        Deals: bin.count,
+        Predicted: bin.meanPredicted.toFixed(3),
+        Observed: bin.observedRate.toFixed(3)
+      })));
+    } catch (error) {
+      console.error('Failed to train scoring model:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+scoringCmd
+  .command('list')
+  .description('List trained model versions')
+  .action(async () => {
+    try {
+      const models = await storage.listScoringModels();
+
+      console.log(`Found ${models.length} scoring models:`);
+      console.table(models.map(m => ({
+        Version: m.version,
+        Active: m.isActive ? 'yes' : '',
+        Deals: m.trainingSize,
+        AUC: ((m.metrics as { auc?: number }).auc ?? 0).toFixed(3),
+        'Trained By': m.trainedBy,
+        'Trained At': m.trainedAt?.toISOString()
+      })));
+    } catch (error) {
+      console.error('Failed to list scoring models:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 // Error handling
 program.configureOutput({
   writeErr: (str) => process.stderr.write(str),
   writeOut: (str) => process.stdout.write(str),
 });
 
-// Run the CLI
-if (require.main === module) {
+// Run the CLI when executed directly (npm run cli -- <command>), not when imported
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
   program.parse();
 }
 
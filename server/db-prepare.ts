@@ -0,0 +1,87 @@
+// Backfills that must run before `drizzle-kit push` adds constraints to existing rows.
+// `npm run db:push` runs this first; every step is idempotent and skips tables that don't exist yet.
+
+import { pool } from "./db";
+
+const STEPS: { name: string; sql: string }[] = [
+  {
+    // Conversations from before channels only had whatsapp_id; external_id becomes NOT NULL
+    name: 'conversations.external_id from whatsapp_id',
+    sql: `
+      DO $$
+      BEGIN
+        IF to_regclass('public.conversations') IS NOT NULL THEN
+          ALTER TABLE conversations ADD COLUMN IF NOT EXISTS external_id text;
+          UPDATE conversations SET external_id = COALESCE(whatsapp_id, id) WHERE external_id IS NULL;
+        END IF;
+      END $$;
+    `
+  },
+  {
+    // Webhook retries used to store the same message twice; (conversation_id, whatsapp_message_id) becomes unique.
+    // The first copy is kept and the conversation's message count follows what is left.
+    name: 'messages deduplicated by whatsapp_message_id',
+    sql: `
+      DO $$
+      BEGIN
+        IF to_regclass('public.messages') IS NOT NULL THEN
+          CREATE TEMP TABLE duplicate_messages ON COMMIT DROP AS
+            SELECT id, conversation_id FROM (
+              SELECT id, conversation_id, row_number() OVER (
+                PARTITION BY conversation_id, whatsapp_message_id
+                ORDER BY "timestamp" ASC NULLS LAST, id ASC
+              ) AS copy
+              FROM messages
+              WHERE whatsapp_message_id IS NOT NULL
+            ) numbered
+            WHERE copy > 1;
+
+          DELETE FROM messages WHERE id IN (SELECT id FROM duplicate_messages);
+
+          UPDATE conversations SET message_count = (
+            SELECT count(*) FROM messages WHERE messages.conversation_id = conversations.id
+          )
+          WHERE id IN (SELECT DISTINCT conversation_id FROM duplicate_messages);
+        END IF;
+      END $$;
+    `
+  },
+  {
+    // Concurrent rollups could store a period twice; (analysis_type, period_start) becomes unique
+    // outside on_demand analyses. The latest computation of each period is kept.
+    name: 'deal_analytics deduplicated by period',
+    sql: `
+      DO $$
+      BEGIN
+        IF to_regclass('public.deal_analytics') IS NOT NULL THEN
+          DELETE FROM deal_analytics WHERE id IN (
+            SELECT id FROM (
+              SELECT id, row_number() OVER (
+                PARTITION BY analysis_type, period_start
+                ORDER BY "timestamp" DESC NULLS LAST, id DESC
+              ) AS copy
+              FROM deal_analytics
+              WHERE analysis_type <> 'on_demand'
+            ) numbered
+            WHERE copy > 1
+          );
+        END IF;
+      END $$;
+    `
+  }
+];
+
+async function prepare(): Promise<void> {
+  for (const step of STEPS) {
+    await pool.query(step.sql);
+    console.log(`Prepared ${step.name}`);
+  }
+}
+
+prepare()
+  .then(() => pool.end())
+  .catch(async (error) => {
+    console.error('Database preparation failed:', error instanceof Error ? error.message : error);
+    await pool.end();
+    process.exit(1);
+  });
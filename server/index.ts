@@ -3,8 +3,18 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { tracingService } from "./services/tracing";
 
+declare module 'http' {
+  interface IncomingMessage {
+    rawBody?: Buffer; // Exact request bytes, for webhook signature checks
+  }
+}
+
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 // Enhanced request tracing middleware
@@ -2,6 +2,7 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
+import { setupAuth } from "./auth";
 import { metricsService } from "./services/metrics";
 import { learningService } from "./services/learning";
 import { decisionService } from "./services/decision";
@@ -14,11 +15,37 @@ import { conversationLearningPipeline } from "./services/conversation-learning-p
 import { 
   insertConversationSchema, 
   insertMessageSchema,
-  insertQuestionBankSchema,
   insertReasoningTraceSchema,
   type SituationAwarenessState 
 } from "@shared/schema";
 import { registerReplayRoutes } from "./routes/replay";
+import { registerWebhookRoutes } from "./routes/webhooks";
+import { registerHandoffRoutes } from "./routes/handoff";
+import { registerWorkspaceRoutes } from "./routes/workspaces";
+import { handoffService } from "./services/handoff";
+import { workspaceService } from "./services/workspace";
+import { icpService } from "./services/icp";
+import { registerIcpRoutes } from "./routes/icp";
+import { registerCrmRoutes } from "./routes/crm";
+import { registerCalibrationRoutes } from "./routes/calibration";
+import { registerDealAnalyticsRoutes } from "./routes/deal-analytics";
+import { registerScoringRoutes } from "./routes/scoring";
+import { registerFollowUpRoutes } from "./routes/follow-ups";
+import { registerMeetingRoutes } from "./routes/meetings";
+import { registerLeadBriefRoutes } from "./routes/lead-brief";
+import { registerEnrichmentRoutes } from "./routes/enrichment";
+import { registerQuestionRoutes } from "./routes/questions";
+import { registerPlaybookRoutes } from "./routes/playbooks";
+import { registerSimilarityRoutes } from "./routes/similarity";
+import { registerSlotRoutes } from "./routes/slots";
+import { registerMessageTemplateRoutes } from "./routes/message-templates";
+import { complianceService, OutboundBlockedError } from "./services/compliance";
+import { inboundQueueService } from "./services/inbound-queue";
+import { calibrationService } from "./services/calibration";
+import { dealAnalyticsService } from "./services/deal-analytics";
+import { leadScoringService } from "./services/lead-scoring";
+import { followUpService } from "./services/follow-up";
+import { mediaStorageService } from "./services/media-storage";
 import { z } from "zod";
 import { tracingService } from "./services/tracing";
 import { experimentService } from "./services/experiment";
@@ -28,7 +55,6 @@ import { regretAnalysisService } from "./services/regret";
 import { thompsonSamplingService } from "./services/thompson-sampling";
 import { policyVariantService } from "./services/policy-variants";
 import { safetyService } from "./services/safety";
-import { messageComposer, MessageComposer } from "./services/message-composer";
 import { metricRegistry, type MetricContext } from "./services/metric-documentation";
 
 // Knowledge Graph API Validation Schemas
@@ -40,7 +66,8 @@ const knowledgeGraphDataQuerySchema = z.object({
   entityType: z.string().optional(),
   minConfidence: z.string().optional().transform(val => val ? parseFloat(val) : 0.6),
   limit: z.string().optional().transform(val => val ? parseInt(val) : 100),
-  includeEdges: z.string().optional().transform(val => val !== 'false')
+  includeEdges: z.string().optional().transform(val => val !== 'false'),
+  workspaceId: z.string().optional()
 });
 
 const similarCompaniesParamsSchema = z.object({
@@ -140,160 +167,80 @@ function calculateErrorRate(errorStats: any, latencyStats: any): number {
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
 
+  // Sessions, login and the role checks every /api route below goes through
+  setupAuth(app);
+
+  // Existing single-brand deployments become the default workspace
+  await workspaceService.ensureDefaultWorkspace();
+
   // Initialize WebSocket service
   websocketService.initialize(httpServer);
   
   // Register replay harness routes
   registerReplayRoutes(app);
 
-  // WhatsApp Webhook Verification
-  app.get('/api/webhook', (req, res) => {
-    const mode = req.query['hub.mode'];
-    const token = req.query['hub.verify_token'];
-    const challenge = req.query['hub.challenge'];
+  // Register inbound channel webhooks (WhatsApp, web chat, email, Telegram)
+  registerWebhookRoutes(app);
 
-    if (mode === 'subscribe' && whatsappService.verifyWebhook(token as string)) {
-      res.status(200).send(challenge);
-    } else {
-      res.status(403).send('Verification failed');
-    }
-  });
+  // Register human takeover and escalation routes
+  registerHandoffRoutes(app);
 
-  // WhatsApp Webhook Handler
-  app.post('/api/webhook', async (req, res) => {
-    try {
-      const message = whatsappService.parseWebhookMessage(req.body);
-      
-      if (!message) {
-        return res.status(200).send('No message parsed');
-      }
+  // Register workspace (tenant) management routes
+  registerWorkspaceRoutes(app);
 
-      // Get or create conversation
-      let conversation = await storage.getConversationByWhatsAppId(message.from);
-      
-      if (!conversation) {
-        const contactInfo = await whatsappService.getContactInfo(message.from);
-        conversation = await storage.createConversation({
-          whatsappId: message.from,
-          contactName: contactInfo?.name || contactInfo?.profileName || 'Unknown Contact',
-          contactPhone: whatsappService.formatPhoneNumber(message.from),
-          company: null,
-          status: 'active',
-          language: 'es',
-          region: 'ES'
-        });
-      }
+  // Register ICP profile (qualification rules) routes
+  registerIcpRoutes(app);
 
-      // Save incoming message
-      const savedMessage = await storage.addMessage({
-        conversationId: conversation.id,
-        whatsappMessageId: message.id,
-        direction: 'incoming',
-        content: message.content,
-        messageType: message.type,
-        metadata: message.metadata
-      });
+  // Register CRM integration and deal pipeline routes
+  registerCrmRoutes(app);
 
-      // Mark message as read
-      await whatsappService.markAsRead(message.id);
+  // Register outcome calibration audit and approval routes
+  registerCalibrationRoutes(app);
 
-      // Get conversation history for metrics calculation
-      const messages = await storage.getMessages(conversation.id, 50);
-      const previousMetrics = await storage.getLatestMetrics(conversation.id);
+  // Register deal analytics rollup and attribution routes
+  registerDealAnalyticsRoutes(app);
 
-      // Calculate updated metrics
-      const metricsResult = await metricsService.calculateMetrics(
-        conversation.id,
-        messages,
-        previousMetrics || undefined
-      );
+  // Register win probability model routes
+  registerScoringRoutes(app);
 
-      // Save metrics
-      await storage.saveMetrics(metricsResult.metrics);
+  // Register follow-up scheduler routes
+  registerFollowUpRoutes(app);
 
-      // Create situation awareness state
-      const situationState = metricsService.createSituationAwarenessState(
-        conversation.id,
-        { ...metricsResult.metrics, id: 'temp', timestamp: new Date(), version: null }
-      );
+  // Register availability and meeting scheduling routes
+  registerMeetingRoutes(app);
 
-      // Get decision context
-      const conversationStage = decisionService.getConversationStage(
-        messages.length,
-        metricsResult.metrics.qualificationScore || 0
-      );
+  // Register lead brief routes for the sales handoff
+  registerLeadBriefRoutes(app);
 
-      const decisionContext = {
-        conversationId: conversation.id,
-        currentState: situationState,
-        messageHistory: messages.filter(m => m.direction === 'incoming').slice(-10).map(m => m.content),
-        previousQuestions: messages.filter(m => m.direction === 'outgoing').slice(-5).map(m => m.content),
-        conversationStage
-      };
+  // Register lead enrichment routes
+  registerEnrichmentRoutes(app);
 
-      // Select optimal response
-      const selectedQuestion = await decisionService.selectOptimalQuestion(decisionContext);
+  // Register question bank routes: editing, versions, import and export
+  registerQuestionRoutes(app);
 
-      if (selectedQuestion) {
-        // Record decision
-        const decisionTrace = await decisionService.recordDecision(
-          conversation.id,
-          selectedQuestion,
-          decisionContext
-        );
+  // Register conversation playbook routes
+  registerPlaybookRoutes(app);
 
-        // Build message context for humanization
-        const messageContext = await MessageComposer.buildContext(
-          conversation.id,
-          selectedQuestion.question
-        );
+  // Register question similarity routes
+  registerSimilarityRoutes(app);
 
-        // Compose natural message from raw question
-        const humanizedMessage = await messageComposer.composeMessage(
-          selectedQuestion.question,
-          messageContext
-        );
+  // Register qualification slot routes
+  registerSlotRoutes(app);
 
-        // Send humanized message via WhatsApp
-        const sent = await whatsappService.sendMessage(
-          conversation.whatsappId,
-          humanizedMessage
-        );
+  // Register message template routes
+  registerMessageTemplateRoutes(app);
 
-        if (sent) {
-          // Save outgoing message with both raw and humanized versions
-          await storage.addMessage({
-            conversationId: conversation.id,
-            whatsappMessageId: null,
-            direction: 'outgoing',
-            content: humanizedMessage,
-            messageType: 'text',
-            metadata: {
-              questionId: selectedQuestion.question.id,
-              decisionTraceId: decisionTrace.id,
-              rawQuestion: selectedQuestion.question.questionText,
-              messagePhase: messageContext.phase
-            }
-          });
+  // Start the durable inbound queue worker
+  inboundQueueService.start();
 
-          // Update question usage stats
-          if (selectedQuestion.question.id !== 'ai-suggested') {
-            await storage.updateQuestionUsage(selectedQuestion.question.id);
-          }
-        }
+  // Start the outcome-driven calibration job
+  calibrationService.start();
 
-        // Broadcast updates via WebSocket
-        await websocketService.broadcastMetricsUpdate(conversation.id);
-        await websocketService.broadcastDecisionUpdate(decisionTrace);
-        await websocketService.broadcastConversationUpdate(conversation.id);
-      }
+  // Start the deal analytics rollup job
+  dealAnalyticsService.start();
 
-      res.status(200).send('Message processed');
-    } catch (error) {
-      console.error('Webhook processing error:', error);
-      res.status(500).send('Processing failed');
-    }
-  });
+  // Start the follow-up scheduler for stalled conversations
+  followUpService.start();
 
   // API Routes
   
@@ -375,7 +322,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Conversations
   app.get('/api/conversations', async (req, res) => {
     try {
-      const conversations = await storage.getActiveConversations();
+      const workspaceId = req.query.workspaceId as string | undefined;
+      const conversations = await storage.getActiveConversations(workspaceId);
       
       // Enhance with metrics
       const enhanced = await Promise.all(conversations.map(async (conv) => {
@@ -409,6 +357,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const messages = await storage.getMessages(id, 100);
       const decisionTraces = await storage.getDecisionTraces(id, 20);
       const learningStates = await storage.getAllLearningStates(id);
+      const sessionWindow = await complianceService.sessionWindow(conversation);
+      const meeting = await storage.getActiveMeeting(id);
 
       let situationState = null;
       if (metrics) {
@@ -421,7 +371,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         situationState,
         messages: messages.reverse(),
         decisionTraces,
-        learningStates
+        learningStates,
+        sessionWindow,
+        meeting
       });
     } catch (error) {
       res.status(500).json({ error: 'Failed to fetch conversation details' });
@@ -431,7 +383,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/conversations', async (req, res) => {
     try {
       const validatedData = insertConversationSchema.parse(req.body);
-      const conversation = await storage.createConversation(validatedData);
+      const conversation = await storage.createConversation({
+        ...validatedData,
+        workspaceId: validatedData.workspaceId || (await workspaceService.getDefault()).id
+      });
       res.status(201).json(conversation);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -461,26 +416,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const messageData = { ...req.body, conversationId: id };
       const validatedData = insertMessageSchema.parse(messageData);
       
-      const message = await storage.addMessage(validatedData);
-      
-      // If outgoing message, send via WhatsApp
+      // If outgoing message, send through the conversation's channel and keep its id for status callbacks
       if (validatedData.direction === 'outgoing') {
         const conversation = await storage.getConversation(id);
         if (conversation) {
-          await whatsappService.sendMessage(conversation.whatsappId, validatedData.content);
+          const workspace = await workspaceService.getForConversation(conversation);
+          const sendResult = await complianceService.send(conversation, validatedData.content, {
+            account: workspaceService.channelAccount(workspace)
+          });
+          if (sendResult.blocked) throw new OutboundBlockedError(sendResult.blocked);
+
+          validatedData.content = sendResult.content;
+          validatedData.messageType = sendResult.messageType;
+          validatedData.whatsappMessageId = sendResult.externalMessageId || null;
+          validatedData.deliveryStatus = sendResult.sent ? 'sent' : 'failed';
+          validatedData.deliveryStatusAt = new Date();
         }
       }
       
+      const message = await storage.addMessage(validatedData);
+      
       res.status(201).json(message);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ error: 'Invalid message data', details: error.errors });
+      } else if (error instanceof OutboundBlockedError) {
+        res.status(409).json({ error: error.message, reason: error.reason });
       } else {
         res.status(500).json({ error: 'Failed to send message' });
       }
     }
   });
 
+  // Stored inbound media (images, voice notes, documents)
+  app.get('/api/media/:channel/:month/:file', async (req, res) => {
+    try {
+      const { channel, month, file } = req.params;
+      const key = `${channel}/${month}/${file}`;
+      const data = await mediaStorageService.read(key);
+
+      if (!data) {
+        return res.status(404).json({ error: 'Media not found' });
+      }
+
+      res.type(key.split('.').pop() || 'bin').send(data);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch media' });
+    }
+  });
+
   // Metrics
   app.get('/api/conversations/:id/metrics', async (req, res) => {
     try {
@@ -516,9 +500,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { id } = req.params;
       const messages = await storage.getMessages(id, 100);
       const previousMetrics = await storage.getLatestMetrics(id);
+      const conversation = await storage.getConversation(id);
+      const analysisOptions = await workspaceService.getAnalysisOptions(conversation);
 
-      const metricsResult = await metricsService.calculateMetrics(id, messages, previousMetrics || undefined);
+      const metricsResult = await metricsService.calculateMetrics(id, messages, previousMetrics || undefined, analysisOptions);
       const savedMetrics = await storage.saveMetrics(metricsResult.metrics);
+      if (conversation) {
+        await icpService.evaluateConversation(conversation, metricsResult.metrics);
+        await leadScoringService.recordScore(id, metricsResult.metrics);
+      }
 
       await websocketService.broadcastMetricsUpdate(id);
 
@@ -550,6 +540,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       if (simulationResult.success) {
+        const workspace = await workspaceService.getForConversation(conversation);
+        const analysisOptions = await workspaceService.getAnalysisOptions(conversation);
+
         // Process each simulated message through the normal pipeline
         for (const message of simulationResult.messages) {
           // Save the message
@@ -568,8 +561,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
             const previousMetrics = await storage.getLatestMetrics(id);
 
             // Calculate updated metrics
-            const metricsResult = await metricsService.calculateMetrics(id, messages, previousMetrics || undefined);
+            const metricsResult = await metricsService.calculateMetrics(id, messages, previousMetrics || undefined, analysisOptions);
             await storage.saveMetrics(metricsResult.metrics);
+            await icpService.evaluateConversation(
+              await storage.getConversation(id) ?? conversation,
+              metricsResult.metrics,
+              savedMessage.id
+            );
+            await leadScoringService.recordScore(id, metricsResult.metrics, savedMessage.id);
 
             // Create situation awareness state
             const situationState = metricsService.createSituationAwarenessState(id, { 
@@ -589,8 +588,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
               conversationId: id,
               currentState: situationState,
               messageHistory: messages.filter(m => m.direction === 'incoming').slice(-10).map(m => m.content),
-              previousQuestions: messages.filter(m => m.direction === 'outgoing').slice(-5).map(m => m.content),
-              conversationStage
+              ...decisionService.askedQuestions(messages),
+              conversationStage,
+              workspaceId: workspace.id,
+              language: conversation.language || workspace.language || 'es',
+              region: conversation.region || workspace.region || undefined
             };
 
             const selectedQuestion = await decisionService.selectOptimalQuestion(decisionContext);
@@ -668,10 +670,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const messages = await storage.getMessages(id, 50);
         const previousMetrics = await storage.getLatestMetrics(id);
 
+        const conversation = await storage.getConversation(id);
+        const workspace = conversation
+          ? await workspaceService.getForConversation(conversation)
+          : await workspaceService.getDefault();
+
         // Calculate updated metrics
-        const metricsResult = await metricsService.calculateMetrics(id, messages, previousMetrics || undefined);
+        const metricsResult = await metricsService.calculateMetrics(id, messages, previousMetrics || undefined, {
+          criteria: workspaceService.criteriaFor(workspace),
+          llm: workspaceService.llmSettingsFor(workspace)
+        });
         await storage.saveMetrics(metricsResult.metrics);
 
+        // Leave the reply to the rep when the conversation has been taken over
+        if (conversation) {
+          await icpService.evaluateConversation(conversation, metricsResult.metrics, message.id);
+          await leadScoringService.recordScore(id, metricsResult.metrics, message.id);
+
+          await handoffService.evaluateEscalations(conversation, metricsResult.metrics);
+
+          if (!handoffService.isBotActive(conversation)) {
+            await websocketService.broadcastMetricsUpdate(id);
+            return res.status(201).json({
+              userMessage: message,
+              aiResponse: null,
+              message: 'Conversation is handled by an operator'
+            });
+          }
+        }
+
         // Create situation awareness state
         const situationState = metricsService.createSituationAwarenessState(id, { 
           ...metricsResult.metrics, 
@@ -690,8 +717,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           conversationId: id,
           currentState: situationState,
           messageHistory: messages.filter(m => m.direction === 'incoming').slice(-10).map(m => m.content),
-          previousQuestions: messages.filter(m => m.direction === 'outgoing').slice(-5).map(m => m.content),
-          conversationStage
+          ...decisionService.askedQuestions(messages),
+          conversationStage,
+          workspaceId: workspace.id,
+          language: conversation?.language || workspace.language || 'es',
+          region: conversation?.region || workspace.region || undefined
         };
 
         // Select optimal response
@@ -855,34 +885,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Question Bank
-  app.get('/api/questions', async (req, res) => {
-    try {
-      const category = req.query.category as string;
-      const language = req.query.language as string || 'es';
-      const region = req.query.region as string || 'ES';
-      
-      const questions = await storage.getQuestions(category, language, region);
-      res.json(questions);
-    } catch (error) {
-      res.status(500).json({ error: 'Failed to fetch questions' });
-    }
-  });
-
-  app.post('/api/questions', async (req, res) => {
-    try {
-      const validatedData = insertQuestionBankSchema.parse(req.body);
-      const question = await storage.addQuestion(validatedData);
-      res.status(201).json(question);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        res.status(400).json({ error: 'Invalid question data', details: error.errors });
-      } else {
-        res.status(500).json({ error: 'Failed to create question' });
-      }
-    }
-  });
-
   // AI Services
   app.post('/api/ai/suggest-question', async (req, res) => {
     try {
@@ -900,7 +902,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const messages = await storage.getMessages(conversationId, 10);
       const situationState = metricsService.createSituationAwarenessState(conversationId, metrics);
-      const availableQuestions = await storage.getQuestions(undefined, 'es', 'ES');
+      const availableQuestions = await storage.getQuestions(
+        undefined,
+        conversation.language || 'es',
+        conversation.region || 'ES',
+        conversation.workspaceId
+      );
 
       const suggestion = await openaiService.suggestNextQuestion(
         situationState,
@@ -1239,12 +1246,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       // Validate query parameters
       const validatedQuery = knowledgeGraphDataQuerySchema.parse(req.query);
-      const { entityType, minConfidence, limit, includeEdges } = validatedQuery;
+      const { entityType, minConfidence, limit, includeEdges, workspaceId } = validatedQuery;
       
       // Get nodes with validated parameters
       const nodes = await storage.getKnowledgeGraphNodes(
         entityType,
-        limit
+        limit,
+        workspaceId
       );
       
       // Filter by confidence
@@ -1295,7 +1303,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Experiments Management
   app.post('/api/shadow/experiments', async (req, res) => {
     try {
-      const userId = req.headers['user-id'] as string || 'anonymous';
+      const userId = req.user!.id;
       const experiment = await experimentService.createExperiment(req.body, userId);
       res.status(201).json(experiment);
     } catch (error) {
@@ -1309,7 +1317,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const filters = {
         status: req.query.status as string,
         experimentType: req.query.experimentType as string,
-        createdBy: req.query.createdBy as string
+        createdBy: req.query.createdBy as string,
+        workspaceId: req.query.workspaceId as string
       };
       const experiments = await experimentService.getExperiments(filters);
       res.json(experiments);
@@ -1332,7 +1341,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/shadow/experiments/:id/start', async (req, res) => {
     try {
       const { id } = req.params;
-      const userId = req.headers['user-id'] as string || 'anonymous';
+      const userId = req.user!.id;
       const experiment = await experimentService.startExperiment(id, userId);
       res.json(experiment);
     } catch (error) {
@@ -1344,7 +1353,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/shadow/experiments/:id/pause', async (req, res) => {
     try {
       const { id } = req.params;
-      const userId = req.headers['user-id'] as string || 'anonymous';
+      const userId = req.user!.id;
       const { reason } = req.body;
       const experiment = await experimentService.pauseExperiment(id, userId, reason);
       res.json(experiment);
@@ -1357,7 +1366,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/shadow/experiments/:id/stop', async (req, res) => {
     try {
       const { id } = req.params;
-      const userId = req.headers['user-id'] as string || 'anonymous';
+      const userId = req.user!.id;
       const { reason } = req.body;
       const experiment = await experimentService.stopExperiment(id, userId, reason);
       res.json(experiment);
@@ -1782,7 +1791,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/shadow/safety/emergency-stop', async (req, res) => {
     try {
       const { reason } = req.body;
-      const triggeredBy = req.headers['user-id'] as string || 'api_user';
+      const triggeredBy = req.user!.username;
       
       if (!reason) {
         return res.status(400).json({ error: 'Reason is required for emergency stop' });
@@ -1803,7 +1812,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/shadow/safety/clear-emergency-stop', async (req, res) => {
     try {
       const { reason } = req.body;
-      const clearedBy = req.headers['user-id'] as string || 'api_user';
+      const clearedBy = req.user!.username;
       
       if (!reason) {
         return res.status(400).json({ error: 'Reason is required to clear emergency stop' });
@@ -1856,13 +1865,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Test endpoints
   app.post('/api/test/send-whatsapp', async (req, res) => {
     try {
-      const { to, message } = req.body;
+      const { to, message, workspaceId } = req.body;
       
       if (!whatsappService.isValidPhoneNumber(to)) {
         return res.status(400).json({ error: 'Invalid phone number' });
       }
 
-      const sent = await whatsappService.sendMessage(to, message);
+      // Sent from the given workspace's number, the default one otherwise
+      const workspace = workspaceId ? await storage.getWorkspace(workspaceId) : await workspaceService.getDefault();
+      if (!workspace) {
+        return res.status(404).json({ error: 'Workspace not found' });
+      }
+
+      // Same guards as every other send: opt-outs, and the 24h window that only an inbound message opens
+      const conversation = await storage.getConversationByExternalId(workspace.id, 'whatsapp', to);
+      if (!conversation) {
+        const blocked = new OutboundBlockedError('window_closed');
+        return res.status(409).json({ error: blocked.message, reason: blocked.reason });
+      }
+
+      const sendResult = await complianceService.send(conversation, message, {
+        account: workspaceService.channelAccount(workspace)
+      });
+      if (sendResult.blocked) {
+        const blocked = new OutboundBlockedError(sendResult.blocked);
+        return res.status(409).json({ error: blocked.message, reason: blocked.reason });
+      }
+
+      const sent = sendResult.sent;
       res.json({ sent, message: sent ? 'Message sent successfully' : 'Failed to send message' });
     } catch (error) {
       res.status(500).json({ error: 'Failed to send test message' });
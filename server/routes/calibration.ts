@@ -0,0 +1,109 @@
+import type { Express } from "express";
+import { storage } from "../storage";
+import { calibrationService, type CalibrationStatus } from "../services/calibration";
+
+export function registerCalibrationRoutes(app: Express): void {
+  // Values in force, with their defaults
+  app.get('/api/calibration/parameters', async (req, res) => {
+    try {
+      await calibrationService.load();
+      res.json(calibrationService.getParameters());
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch calibrated parameters' });
+    }
+  });
+
+  // Audit view: every proposed update with its before/after values and status
+  app.get('/api/calibration/updates', async (req, res) => {
+    try {
+      const status = req.query.status as CalibrationStatus | undefined;
+      const metricName = req.query.metric as string | undefined;
+      const limit = parseInt(req.query.limit as string) || 100;
+
+      const updates = status === 'pending'
+        ? await storage.getPendingCalibrations()
+        : await storage.getCalibrationHistory(limit, metricName);
+
+      res.json(updates
+        .map(update => ({ ...update, status: calibrationService.statusOf(update) }))
+        .filter(update => !status || update.status === status)
+        .filter(update => !metricName || update.metricName === metricName));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch calibration updates' });
+    }
+  });
+
+  app.get('/api/calibration/validations', async (req, res) => {
+    try {
+      const type = (req.query.type as string) || 'qualification_validation';
+      const conversationId = req.query.conversationId as string | undefined;
+      res.json(await storage.getValidationsByType(type, conversationId));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch outcome validations' });
+    }
+  });
+
+  // Run the scheduled job now instead of waiting for the next interval
+  app.post('/api/calibration/run', async (req, res) => {
+    try {
+      res.json(await calibrationService.runOnce());
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to run calibration' });
+    }
+  });
+
+  app.post('/api/calibration/updates/:id/apply', async (req, res) => {
+    try {
+      const update = await storage.getCalibrationUpdate(req.params.id);
+      if (!update) {
+        return res.status(404).json({ error: 'Calibration update not found' });
+      }
+      if (calibrationService.statusOf(update) !== 'pending') {
+        return res.status(409).json({ error: `Calibration update is ${calibrationService.statusOf(update)}` });
+      }
+
+      await calibrationService.load();
+      const applied = await calibrationService.apply(update, req.user!.username);
+      res.json({ ...applied, status: calibrationService.statusOf(applied) });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to apply calibration update' });
+    }
+  });
+
+  app.post('/api/calibration/updates/:id/reject', async (req, res) => {
+    try {
+      const update = await storage.getCalibrationUpdate(req.params.id);
+      if (!update) {
+        return res.status(404).json({ error: 'Calibration update not found' });
+      }
+      if (calibrationService.statusOf(update) !== 'pending') {
+        return res.status(409).json({ error: `Calibration update is ${calibrationService.statusOf(update)}` });
+      }
+
+      const rejected = await calibrationService.reject(update, req.user!.username);
+      res.json({ ...rejected, status: calibrationService.statusOf(rejected) });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to reject calibration update' });
+    }
+  });
+
+  app.post('/api/calibration/updates/:id/rollback', async (req, res) => {
+    try {
+      const update = await storage.getCalibrationUpdate(req.params.id);
+      if (!update) {
+        return res.status(404).json({ error: 'Calibration update not found' });
+      }
+      if (!update.isApplied) {
+        return res.status(409).json({ error: `Calibration update is ${calibrationService.statusOf(update)}` });
+      }
+      if (!(await calibrationService.canRollback(update))) {
+        return res.status(409).json({ error: 'A later update of this metric is in force; roll that back first' });
+      }
+
+      const rolledBack = await calibrationService.rollback(update, req.user!.username);
+      res.json({ ...rolledBack, status: calibrationService.statusOf(rolledBack) });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to roll back calibration update' });
+    }
+  });
+}
@@ -0,0 +1,249 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { CRM_TYPES, DEAL_STAGES, insertCrmIntegrationSchema } from "@shared/schema";
+import { storage } from "../storage";
+import { crmService, CrmApiError } from "../services/crm";
+
+const fieldMappingsSchema = z.object({
+  contact: z.record(z.string()),
+  deal: z.record(z.string())
+});
+
+const stageMappingSchema = z.record(z.enum(DEAL_STAGES), z.string());
+
+// Mappings default to the adapter's (see services/crm/*) when omitted
+const crmIntegrationSchema = insertCrmIntegrationSchema.extend({
+  crmType: z.enum(CRM_TYPES),
+  authConfig: z.record(z.string()),
+  apiBaseUrl: z.string().url().optional(),
+  fieldMappings: fieldMappingsSchema.optional(),
+  stageMapping: stageMappingSchema.optional()
+});
+
+const updateCrmIntegrationSchema = crmIntegrationSchema.omit({ crmType: true }).partial();
+
+const pushDealSchema = z.object({
+  integrationId: z.string().optional(), // First active integration when omitted
+  force: z.boolean().default(false) // Push even if the conversation is not qualified yet
+});
+
+const stageUpdateSchema = z.object({
+  stage: z.enum(DEAL_STAGES)
+});
+
+function crmErrorResponse(error: unknown, fallback: string) {
+  return error instanceof CrmApiError
+    ? { status: 502, body: { error: fallback, details: error.message } }
+    : { status: 500, body: { error: fallback } };
+}
+
+export function registerCrmRoutes(app: Express): void {
+  app.get('/api/crm/integrations', async (req, res) => {
+    try {
+      const integrations = await storage.getActiveCrmIntegrations();
+      res.json(integrations.map(integration => crmService.toPublicIntegration(integration)));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch CRM integrations' });
+    }
+  });
+
+  app.get('/api/crm/integrations/:id', async (req, res) => {
+    try {
+      const integration = await storage.getCrmIntegration(req.params.id);
+
+      if (!integration) {
+        return res.status(404).json({ error: 'CRM integration not found' });
+      }
+
+      res.json(crmService.toPublicIntegration(integration));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch CRM integration' });
+    }
+  });
+
+  // Writes are admin only (default policy in ACCESS_RULES)
+  app.post('/api/crm/integrations', async (req, res) => {
+    try {
+      const validatedData = crmIntegrationSchema.parse(req.body);
+      const adapter = crmService.getAdapter(validatedData.crmType)!;
+
+      const integration = await storage.createCrmIntegration({
+        ...validatedData,
+        fieldMappings: validatedData.fieldMappings || adapter.defaultFieldMappings,
+        stageMapping: validatedData.stageMapping || adapter.defaultStageMapping
+      });
+      res.status(201).json(crmService.toPublicIntegration(integration));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid CRM integration', details: error.errors });
+      } else {
+        res.status(500).json({ error: 'Failed to create CRM integration' });
+      }
+    }
+  });
+
+  app.patch('/api/crm/integrations/:id', async (req, res) => {
+    try {
+      if (!await storage.getCrmIntegration(req.params.id)) {
+        return res.status(404).json({ error: 'CRM integration not found' });
+      }
+
+      const updates = updateCrmIntegrationSchema.parse(req.body);
+      const integration = await storage.updateCrmIntegration(req.params.id, updates);
+      res.json(crmService.toPublicIntegration(integration));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid CRM integration', details: error.errors });
+      } else {
+        res.status(500).json({ error: 'Failed to update CRM integration' });
+      }
+    }
+  });
+
+  app.get('/api/crm/integrations/:id/pipeline', async (req, res) => {
+    try {
+      const integration = await storage.getCrmIntegration(req.params.id);
+      if (!integration) {
+        return res.status(404).json({ error: 'CRM integration not found' });
+      }
+
+      const deals = await storage.getDealsInPipeline(integration.id);
+      const stages = DEAL_STAGES.map(stage => {
+        const inStage = deals.filter(deal => deal.pipelineStage === stage);
+        return {
+          stage,
+          count: inStage.length,
+          totalValue: inStage.reduce((sum, deal) => sum + (deal.dealValue || deal.predictedValue || 0), 0),
+          deals: inStage
+        };
+      });
+
+      res.json({ integration: crmService.toPublicIntegration(integration), stages });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch pipeline' });
+    }
+  });
+
+  app.get('/api/crm/integrations/:id/stats', async (req, res) => {
+    try {
+      const integration = await storage.getCrmIntegration(req.params.id);
+      if (!integration) {
+        return res.status(404).json({ error: 'CRM integration not found' });
+      }
+
+      res.json(await storage.getCrmIntegrationStats(integration.id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch CRM integration stats' });
+    }
+  });
+
+  app.get('/api/deals', async (req, res) => {
+    try {
+      const stage = req.query.stage as string | undefined;
+      const integrationId = req.query.integrationId as string | undefined;
+
+      const deals = stage
+        ? await storage.getDealsInStage(stage, integrationId)
+        : integrationId
+          ? await storage.getDealsInPipeline(integrationId)
+          : await storage.getActiveDeals();
+
+      res.json(deals);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch deals' });
+    }
+  });
+
+  app.get('/api/conversations/:id/deals', async (req, res) => {
+    try {
+      res.json(await storage.getDealsByConversation(req.params.id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch deals' });
+    }
+  });
+
+  app.post('/api/conversations/:id/crm-deal', async (req, res) => {
+    try {
+      const { integrationId, force } = pushDealSchema.parse(req.body || {});
+
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+      if (conversation.status !== 'qualified' && !force) {
+        return res.status(409).json({ error: 'Conversation is not qualified', status: conversation.status });
+      }
+
+      const integration = integrationId
+        ? await storage.getCrmIntegration(integrationId)
+        : (await storage.getActiveCrmIntegrations())[0];
+      if (!integration || !integration.isActive) {
+        return res.status(404).json({ error: 'No active CRM integration' });
+      }
+
+      const deal = await crmService.pushConversation(conversation, integration);
+      res.status(201).json(deal);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid request', details: error.errors });
+      }
+      const { status, body } = crmErrorResponse(error, 'Failed to push deal to CRM');
+      res.status(status).json(body);
+    }
+  });
+
+  app.get('/api/deals/:id/outcomes', async (req, res) => {
+    try {
+      const outcomeType = req.query.outcomeType as string | undefined;
+      res.json(await storage.getDealOutcomes(req.params.id, outcomeType));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch deal outcomes' });
+    }
+  });
+
+  app.patch('/api/deals/:id/stage', async (req, res) => {
+    try {
+      const { stage } = stageUpdateSchema.parse(req.body);
+
+      const deal = await storage.getDeal(req.params.id);
+      if (!deal) {
+        return res.status(404).json({ error: 'Deal not found' });
+      }
+
+      res.json(await crmService.moveDealToStage(deal, stage, req.user!.username));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid stage', details: error.errors });
+      }
+      const { status, body } = crmErrorResponse(error, 'Failed to update deal stage');
+      res.status(status).json(body);
+    }
+  });
+
+  // Signed stage and value changes from the CRM (public route; see ACCESS_RULES).
+  // Register this URL as the CRM's webhook target with the integration's webhookSecret.
+  app.post('/api/webhook/crm/:integrationId', async (req, res) => {
+    try {
+      const integration = await storage.getCrmIntegration(req.params.integrationId);
+      if (!integration || !integration.isActive) {
+        return res.status(404).send('Unknown CRM integration');
+      }
+
+      const result = await crmService.handleWebhook(integration, {
+        method: req.method,
+        url: integration.webhookUrl || `${req.protocol}://${req.get('host')}${req.originalUrl}`,
+        headers: req.headers,
+        rawBody: req.rawBody || Buffer.from(JSON.stringify(req.body ?? {}))
+      }, req.body);
+
+      if (!result.authenticated) {
+        return res.status(401).send('Invalid webhook signature');
+      }
+
+      res.status(200).send(`${result.processed} deal update(s) applied`);
+    } catch (error) {
+      console.error('CRM webhook error:', error);
+      res.status(500).send('Processing failed');
+    }
+  });
+}
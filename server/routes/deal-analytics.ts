@@ -0,0 +1,96 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { dealAnalyticsService, ROLLUP_PERIODS } from "../services/deal-analytics";
+
+const rollupSchema = z.object({
+  analysisType: z.union([z.enum(ROLLUP_PERIODS), z.literal('on_demand')]),
+  periodStart: z.coerce.date().optional(),
+  periodEnd: z.coerce.date().optional()
+}).refine(
+  data => data.analysisType !== 'on_demand' || (data.periodStart && data.periodEnd && data.periodStart < data.periodEnd),
+  { message: 'on_demand rollups need a periodStart before their periodEnd' }
+);
+
+function parseDateRange(query: Record<string, unknown>): { start: Date; end: Date } | undefined {
+  if (!query.start || !query.end) return undefined;
+
+  const start = new Date(query.start as string);
+  const end = new Date(query.end as string);
+  return isNaN(start.getTime()) || isNaN(end.getTime()) ? undefined : { start, end };
+}
+
+export function registerDealAnalyticsRoutes(app: Express): void {
+  // Cohort rows of one rollup type, most recent period first
+  app.get('/api/deal-analytics', async (req, res) => {
+    try {
+      const analysisType = (req.query.type as string) || 'weekly';
+      const limit = parseInt(req.query.limit as string) || 12;
+      res.json(await storage.getLatestDealAnalytics(analysisType, limit));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch deal analytics' });
+    }
+  });
+
+  app.get('/api/deal-analytics/range', async (req, res) => {
+    try {
+      const range = parseDateRange(req.query);
+      if (!range) {
+        return res.status(400).json({ error: 'start and end dates are required' });
+      }
+
+      res.json(await storage.getDealAnalyticsByPeriod(range.start, range.end));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch deal analytics' });
+    }
+  });
+
+  app.get('/api/deal-analytics/attribution', async (req, res) => {
+    try {
+      const dealId = req.query.dealId as string | undefined;
+      res.json(await storage.getDealAttributionAnalysis(dealId, parseDateRange(req.query)));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch deal attribution' });
+    }
+  });
+
+  app.get('/api/deal-analytics/regions', async (req, res) => {
+    try {
+      const region = req.query.region as string | undefined;
+      const hours = req.query.hours ? parseInt(req.query.hours as string) : undefined;
+      res.json(await storage.getRegionalPerformanceStats(region, hours));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch regional performance' });
+    }
+  });
+
+  app.get('/api/deal-analytics/outcome-correlation', async (req, res) => {
+    try {
+      const conversationId = req.query.conversationId as string | undefined;
+      const hours = req.query.hours ? parseInt(req.query.hours as string) : undefined;
+      res.json(await storage.getOutcomeCorrelationStats(conversationId, hours));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch outcome correlation' });
+    }
+  });
+
+  // Recompute now: the period containing periodStart (default today), or an arbitrary on_demand window
+  app.post('/api/deal-analytics/rollup', async (req, res) => {
+    try {
+      const { analysisType, periodStart, periodEnd } = rollupSchema.parse(req.body);
+
+      const bounds = analysisType === 'on_demand'
+        ? { start: periodStart!, end: periodEnd! }
+        : dealAnalyticsService.periodBounds(analysisType, periodStart || new Date());
+
+      const analytics = await dealAnalyticsService.rollup(analysisType, bounds.start, bounds.end, req.user!.username);
+      res.status(201).json(analytics);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid rollup request', details: error.errors });
+      } else {
+        res.status(500).json({ error: 'Failed to compute deal analytics' });
+      }
+    }
+  });
+}
@@ -0,0 +1,32 @@
+import type { Express } from "express";
+import { storage } from "../storage";
+import { enrichmentService } from "../services/enrichment";
+
+export function registerEnrichmentRoutes(app: Express): void {
+  // Configured firmographic providers and their dataset sizes
+  app.get('/api/enrichment/providers', async (req, res) => {
+    try {
+      res.json(await enrichmentService.getProviders());
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch enrichment providers' });
+    }
+  });
+
+  // Enrich again from scratch over every message of the lead, e.g. after the dataset changed
+  app.post('/api/conversations/:id/enrichment', async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      const messages = await storage.getMessages(conversation.id, 200);
+      const texts = messages.filter(m => m.direction === 'incoming').reverse().map(m => m.content);
+      await enrichmentService.enrichConversation(conversation, texts, { force: true });
+
+      res.json((conversation.metadata as Record<string, unknown> | null)?.enrichment ?? null);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to enrich conversation' });
+    }
+  });
+}
@@ -0,0 +1,22 @@
+import type { Express } from "express";
+import { followUpService } from "../services/follow-up";
+
+export function registerFollowUpRoutes(app: Express): void {
+  // Hours after the lead's last message at which each attempt goes out, per cadence
+  app.get('/api/follow-ups/cadences', async (req, res) => {
+    try {
+      res.json(followUpService.getCadences());
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch follow-up cadences' });
+    }
+  });
+
+  // Run the scheduler now instead of waiting for the next interval
+  app.post('/api/follow-ups/run', async (req, res) => {
+    try {
+      res.json(await followUpService.runOnce());
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to run follow-ups' });
+    }
+  });
+}
@@ -0,0 +1,121 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { handoffService } from "../services/handoff";
+import { OutboundBlockedError } from "../services/compliance";
+import { storage } from "../storage";
+
+const operatorMessageSchema = z.object({
+  content: z.string().min(1)
+});
+
+export function registerHandoffRoutes(app: Express): void {
+  // Rep takes over: automated question selection stops, metrics keep updating
+  app.post('/api/conversations/:id/claim', async (req, res) => {
+    try {
+      const conversation = await handoffService.claim(req.params.id, req.user!.username);
+
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      res.json(conversation);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to claim conversation' });
+    }
+  });
+
+  app.post('/api/conversations/:id/release', async (req, res) => {
+    try {
+      const conversation = await handoffService.release(req.params.id);
+
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      res.json(conversation);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to release conversation' });
+    }
+  });
+
+  // Manual reply from a rep through the conversation's channel
+  app.post('/api/conversations/:id/operator-messages', async (req, res) => {
+    try {
+      const { content } = operatorMessageSchema.parse(req.body);
+      const message = await handoffService.sendOperatorMessage(req.params.id, req.user!.username, content);
+
+      if (!message) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      res.status(201).json(message);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid operator message', details: error.errors });
+      } else if (error instanceof OutboundBlockedError) {
+        res.status(409).json({ error: error.message, reason: error.reason });
+      } else {
+        res.status(500).json({ error: 'Failed to send operator message' });
+      }
+    }
+  });
+
+  // Escalations
+  app.get('/api/escalations', async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      const limit = parseInt(req.query.limit as string) || 50;
+
+      res.json(await storage.getEscalations(status, limit));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch escalations' });
+    }
+  });
+
+  app.post('/api/conversations/:id/escalate', async (req, res) => {
+    try {
+      const { reason } = z.object({ reason: z.string().min(1) }).parse(req.body);
+      const escalation = await handoffService.escalate(req.params.id, reason);
+
+      if (!escalation) {
+        return res.status(409).json({ error: 'Conversation not found or already escalated' });
+      }
+
+      res.status(201).json(escalation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid escalation', details: error.errors });
+      } else {
+        res.status(500).json({ error: 'Failed to escalate conversation' });
+      }
+    }
+  });
+
+  app.post('/api/escalations/:id/acknowledge', async (req, res) => {
+    try {
+      const escalation = await handoffService.acknowledge(req.params.id, req.user!.username);
+
+      if (!escalation) {
+        return res.status(404).json({ error: 'Escalation not found' });
+      }
+
+      res.json(escalation);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to acknowledge escalation' });
+    }
+  });
+
+  app.post('/api/escalations/:id/resolve', async (req, res) => {
+    try {
+      const escalation = await handoffService.resolve(req.params.id);
+
+      if (!escalation) {
+        return res.status(404).json({ error: 'Escalation not found' });
+      }
+
+      res.json(escalation);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to resolve escalation' });
+    }
+  });
+}
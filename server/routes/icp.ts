@@ -0,0 +1,136 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { ICP_OPERATORS, insertIcpProfileSchema } from "@shared/schema";
+import { storage } from "../storage";
+import { icpService } from "../services/icp";
+import { workspaceService } from "../services/workspace";
+
+const conditionSchema = z.object({
+  field: z.string().regex(/^(lead|metrics|smb)\.[A-Za-z]+$/, 'Field must be a lead.*, metrics.* or smb.* fact'),
+  operator: z.enum(ICP_OPERATORS),
+  value: z.union([z.number(), z.string(), z.array(z.string())])
+});
+
+const criterionSchema = conditionSchema.extend({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  weight: z.number().min(0),
+  scoring: z.enum(['threshold', 'linear']).optional()
+});
+
+const knockoutRuleSchema = conditionSchema.extend({
+  id: z.string().min(1),
+  label: z.string().min(1)
+});
+
+const scoreBandSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  minScore: z.number().min(0).max(1),
+  status: z.enum(['active', 'qualified', 'disqualified'])
+});
+
+const icpProfileSchema = insertIcpProfileSchema.extend({
+  criteria: z.array(criterionSchema).min(1),
+  knockoutRules: z.array(knockoutRuleSchema).default([]),
+  scoreBands: z.array(scoreBandSchema).min(1)
+});
+
+export function registerIcpRoutes(app: Express): void {
+  app.get('/api/icp-profiles', async (req, res) => {
+    try {
+      const workspaceId = req.query.workspaceId as string | undefined;
+      res.json(await storage.getIcpProfiles(workspaceId));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch ICP profiles' });
+    }
+  });
+
+  // Profile currently applied to a workspace's conversations: stored, or built from its qualification criteria
+  app.get('/api/icp-profiles/effective', async (req, res) => {
+    try {
+      const workspaceId = req.query.workspaceId as string | undefined;
+      const workspace = (workspaceId && await storage.getWorkspace(workspaceId)) || await workspaceService.getDefault();
+
+      res.json(await icpService.getProfileFor(workspace));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to resolve ICP profile' });
+    }
+  });
+
+  app.get('/api/icp-profiles/:id', async (req, res) => {
+    try {
+      const profile = await storage.getIcpProfile(req.params.id);
+
+      if (!profile) {
+        return res.status(404).json({ error: 'ICP profile not found' });
+      }
+
+      res.json(profile);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch ICP profile' });
+    }
+  });
+
+  app.post('/api/icp-profiles', async (req, res) => {
+    try {
+      const validatedData = icpProfileSchema.parse(req.body);
+      const profile = await storage.createIcpProfile({ ...validatedData, updatedBy: req.user!.username });
+      res.status(201).json(profile);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid ICP profile', details: error.errors });
+      } else {
+        res.status(500).json({ error: 'Failed to create ICP profile' });
+      }
+    }
+  });
+
+  app.patch('/api/icp-profiles/:id', async (req, res) => {
+    try {
+      const existing = await storage.getIcpProfile(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'ICP profile not found' });
+      }
+
+      const updates = icpProfileSchema.partial().parse(req.body);
+      const profile = await storage.updateIcpProfile(req.params.id, {
+        ...updates,
+        version: (existing.version || 1) + 1,
+        updatedBy: req.user!.username
+      });
+
+      res.json(profile);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid ICP profile', details: error.errors });
+      } else {
+        res.status(500).json({ error: 'Failed to update ICP profile' });
+      }
+    }
+  });
+
+  // Re-run the rules on the latest metrics, e.g. after editing the profile
+  app.post('/api/conversations/:id/icp-evaluation', async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      const metrics = await storage.getLatestMetrics(conversation.id);
+      if (!metrics) {
+        return res.status(404).json({ error: 'No metrics available' });
+      }
+
+      const evaluation = await icpService.evaluateConversation(conversation, metrics);
+      if (!evaluation) {
+        return res.status(500).json({ error: 'Failed to evaluate ICP' });
+      }
+
+      res.json(evaluation);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to evaluate ICP' });
+    }
+  });
+}
@@ -0,0 +1,52 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { leadBriefService } from "../services/lead-brief";
+
+const briefQuerySchema = z.object({
+  language: z.enum(['es', 'en']).optional(), // The lead's language when omitted
+  format: z.enum(['json', 'markdown', 'pdf']).default('json')
+});
+
+export function registerLeadBriefRoutes(app: Express): void {
+  // Sales handoff brief, as JSON or a Markdown / PDF download
+  app.get('/api/conversations/:id/brief', async (req, res) => {
+    try {
+      const { language, format } = briefQuerySchema.parse(req.query);
+
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      const brief = await leadBriefService.generate(conversation, language);
+      if (format === 'json') {
+        return res.json(brief);
+      }
+
+      const markdown = format === 'markdown';
+      res.setHeader('Content-Type', markdown ? 'text/markdown; charset=utf-8' : 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${leadBriefService.fileName(brief, markdown ? 'md' : 'pdf')}"`);
+      res.send(markdown ? leadBriefService.toMarkdown(brief) : leadBriefService.toPdf(brief));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid request', details: error.errors });
+      }
+      res.status(500).json({ error: 'Failed to generate the lead brief' });
+    }
+  });
+
+  // Refresh the brief stored on a deal (deals.conversationSummary) with what the lead said since
+  app.post('/api/deals/:id/brief', async (req, res) => {
+    try {
+      const deal = await storage.getDeal(req.params.id);
+      if (!deal) {
+        return res.status(404).json({ error: 'Deal not found' });
+      }
+
+      res.json(await leadBriefService.attachToDeal(deal));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to update the deal brief' });
+    }
+  });
+}
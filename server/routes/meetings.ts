@@ -0,0 +1,207 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { schedulingService, SchedulingError } from "../services/scheduling";
+import { OutboundBlockedError } from "../services/compliance";
+import { insertConsultantAvailabilitySchema } from "@shared/schema";
+
+const clockSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use HH:MM');
+
+const availabilityFieldsSchema = insertConsultantAvailabilitySchema.extend({
+  consultantEmail: z.string().email().nullable().optional(),
+  timezone: z.string().refine(value => schedulingService.isValidTimezone(value), 'Unknown time zone').optional(),
+  weekday: z.number().int().min(0).max(6),
+  startTime: clockSchema,
+  endTime: clockSchema,
+  slotMinutes: z.number().int().min(10).max(240).optional()
+});
+
+const availabilitySchema = availabilityFieldsSchema.refine(
+  data => data.startTime < data.endTime,
+  { message: 'startTime must be before endTime' }
+);
+
+const bookingSchema = z.object({
+  startsAt: z.coerce.date(),
+  availabilityId: z.string().optional()
+});
+
+function schedulingErrorResponse(error: unknown, fallback: string): { status: number; body: Record<string, unknown> } {
+  if (error instanceof z.ZodError) {
+    return { status: 400, body: { error: 'Invalid request', details: error.errors } };
+  }
+  if (error instanceof SchedulingError) {
+    return { status: 409, body: { error: error.message } };
+  }
+  if (error instanceof OutboundBlockedError) {
+    return { status: 409, body: { error: error.message, reason: error.reason } };
+  }
+  return { status: 500, body: { error: fallback } };
+}
+
+export function registerMeetingRoutes(app: Express): void {
+  // Weekly availability rules, inactive ones included
+  app.get('/api/availability', async (req, res) => {
+    try {
+      const workspaceId = req.query.workspaceId as string | undefined;
+      res.json(await storage.getConsultantAvailability(workspaceId, true));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch availability' });
+    }
+  });
+
+  app.post('/api/availability', async (req, res) => {
+    try {
+      const availability = availabilitySchema.parse(req.body);
+      res.status(201).json(await storage.createConsultantAvailability(availability));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid availability', details: error.errors });
+      } else {
+        res.status(500).json({ error: 'Failed to create availability' });
+      }
+    }
+  });
+
+  app.patch('/api/availability/:id', async (req, res) => {
+    try {
+      const updates = availabilityFieldsSchema.partial().parse(req.body);
+
+      const current = await storage.getConsultantAvailabilityById(req.params.id);
+      if (!current) {
+        return res.status(404).json({ error: 'Availability not found' });
+      }
+      if ((updates.startTime || current.startTime) >= (updates.endTime || current.endTime)) {
+        return res.status(400).json({ error: 'startTime must be before endTime' });
+      }
+
+      res.json(await storage.updateConsultantAvailability(req.params.id, updates));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid availability', details: error.errors });
+      } else {
+        res.status(500).json({ error: 'Failed to update availability' });
+      }
+    }
+  });
+
+  // Rules already used by meetings are deactivated instead
+  app.delete('/api/availability/:id', async (req, res) => {
+    try {
+      if (!(await storage.deleteConsultantAvailability(req.params.id))) {
+        return res.status(404).json({ error: 'Availability not found' });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to delete availability' });
+    }
+  });
+
+  // Open slots for the conversation, labelled in the lead's time zone
+  app.get('/api/conversations/:id/meeting-slots', async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      const timezone = schedulingService.timezoneFor(conversation);
+      const slots = await schedulingService.openSlots(conversation);
+      res.json({
+        timezone,
+        slots: slots.map(slot => ({ ...slot, label: schedulingService.slotLabel(slot, timezone, 'en') }))
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch meeting slots' });
+    }
+  });
+
+  app.get('/api/conversations/:id/meetings', async (req, res) => {
+    try {
+      res.json(await storage.getMeetingsByConversation(req.params.id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch meetings' });
+    }
+  });
+
+  // Offer slots to the lead now, replacing an open offer
+  app.post('/api/conversations/:id/meeting-proposals', async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      const turn = await schedulingService.propose(conversation, req.user!.username);
+      res.status(201).json(turn.meeting);
+    } catch (error) {
+      const { status, body } = schedulingErrorResponse(error, 'Failed to offer meeting slots');
+      res.status(status).json(body);
+    }
+  });
+
+  // Book an open slot on the lead's behalf (agreed by phone, email...)
+  app.post('/api/conversations/:id/meetings', async (req, res) => {
+    try {
+      const { startsAt, availabilityId } = bookingSchema.parse(req.body);
+
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      const turn = await schedulingService.bookFromDashboard(conversation, startsAt, req.user!.username, availabilityId);
+      res.status(201).json(turn.meeting);
+    } catch (error) {
+      const { status, body } = schedulingErrorResponse(error, 'Failed to book meeting');
+      res.status(status).json(body);
+    }
+  });
+
+  // Meetings by start time; ?status=booked&from=&to= for a calendar view
+  app.get('/api/meetings', async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      const from = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+      const limit = parseInt(req.query.limit as string) || 100;
+      res.json(await storage.listMeetings(status, from, to, limit));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch meetings' });
+    }
+  });
+
+  app.post('/api/meetings/:id/cancel', async (req, res) => {
+    try {
+      const meeting = await storage.getMeeting(req.params.id);
+      if (!meeting) {
+        return res.status(404).json({ error: 'Meeting not found' });
+      }
+
+      res.json(await schedulingService.cancel(meeting));
+    } catch (error) {
+      const { status, body } = schedulingErrorResponse(error, 'Failed to cancel meeting');
+      res.status(status).json(body);
+    }
+  });
+
+  // Calendar invite for the consultant; a cancelled meeting downloads as a cancellation
+  app.get('/api/meetings/:id/invite.ics', async (req, res) => {
+    try {
+      const meeting = await storage.getMeeting(req.params.id);
+      const conversation = meeting && await storage.getConversation(meeting.conversationId);
+      if (!meeting || !conversation) {
+        return res.status(404).json({ error: 'Meeting not found' });
+      }
+      if (!meeting.startsAt) {
+        return res.status(409).json({ error: 'Only booked meetings have an invite' });
+      }
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="meeting-${meeting.id}.ics"`);
+      res.send(schedulingService.buildInvite(meeting, conversation));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to build the invite' });
+    }
+  });
+}
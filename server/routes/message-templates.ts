@@ -0,0 +1,127 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { MESSAGE_TEMPLATE_TYPES } from "@shared/schema";
+import { storage } from "../storage";
+import {
+  BUILTIN_MESSAGE_TEMPLATES,
+  messageTemplateService,
+  messageTemplateContentSchema,
+  MessageTemplateError
+} from "../services/message-templates";
+
+const previewSchema = z.object({
+  template: z.object({
+    type: z.enum(MESSAGE_TEMPLATE_TYPES),
+    phase: z.string().nullable().optional(),
+    region: z.string().nullable().optional(),
+    formality: z.string().nullable().optional(),
+    timeOfDay: z.string().nullable().optional(),
+    sentiment: z.string().nullable().optional(),
+    variants: z.array(z.object({ id: z.string().optional(), text: z.string() })).min(1)
+  }),
+  // Overrides of the sample turn the template is rendered against
+  context: z.object({
+    phase: z.enum(['greeting', 'exploration', 'qualification', 'deepening', 'closing']).optional(),
+    region: z.string().optional(),
+    userFormality: z.enum(['formal', 'informal']).optional(),
+    timeOfDay: z.enum(['morning', 'afternoon', 'evening', 'night']).optional(),
+    lastUserMessage: z.string().optional(),
+    lastUserSentiment: z.enum(['positive', 'negative', 'neutral']).optional(),
+    previousTopic: z.string().optional(),
+    nextTopic: z.string().optional()
+  }).optional(),
+  question: z.string().trim().min(1).optional()
+});
+
+function templateErrorResponse(error: unknown, fallback: string): { status: number; body: Record<string, unknown> } {
+  if (error instanceof z.ZodError) {
+    return { status: 400, body: { error: 'Invalid message template', details: error.errors } };
+  }
+  if (error instanceof MessageTemplateError) {
+    return { status: error.status, body: { error: error.message } };
+  }
+  return { status: 500, body: { error: fallback } };
+}
+
+export function registerMessageTemplateRoutes(app: Express): void {
+  // Stored templates followed by the built-in ones, which apply where no stored template fits
+  app.get('/api/message-templates', async (req, res) => {
+    try {
+      const workspaceId = req.query.workspaceId as string | undefined;
+      const stored = await storage.getMessageTemplates(workspaceId);
+      res.json([
+        ...stored.map(template => ({ ...template, builtin: false })),
+        ...BUILTIN_MESSAGE_TEMPLATES.map(template => ({ ...template, builtin: true }))
+      ]);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch message templates' });
+    }
+  });
+
+  // Sends, replies and reply rate of every variant
+  app.get('/api/message-templates/stats', async (req, res) => {
+    try {
+      const workspaceId = req.query.workspaceId as string | undefined;
+      res.json(await messageTemplateService.getStats(workspaceId));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch template stats' });
+    }
+  });
+
+  // Render a draft against a sample turn without saving it
+  app.post('/api/message-templates/preview', async (req, res) => {
+    try {
+      const { template, context, question } = previewSchema.parse(req.body);
+      res.json(messageTemplateService.preview(template, context, question));
+    } catch (error) {
+      const { status, body } = templateErrorResponse(error, 'Failed to preview template');
+      res.status(status).json(body);
+    }
+  });
+
+  app.get('/api/message-templates/:id', async (req, res) => {
+    try {
+      const builtin = BUILTIN_MESSAGE_TEMPLATES.find(template => template.id === req.params.id);
+      const template = builtin || await storage.getMessageTemplate(req.params.id);
+
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+
+      res.json({ ...template, builtin: !!builtin });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch message template' });
+    }
+  });
+
+  app.post('/api/message-templates', async (req, res) => {
+    try {
+      const content = messageTemplateContentSchema.parse(req.body);
+      res.status(201).json(await messageTemplateService.create(content, req.user?.username));
+    } catch (error) {
+      const { status, body } = templateErrorResponse(error, 'Failed to create message template');
+      res.status(status).json(body);
+    }
+  });
+
+  // Variants whose text is unchanged keep their id and stats; edited ones start over
+  app.patch('/api/message-templates/:id', async (req, res) => {
+    try {
+      const changes = messageTemplateContentSchema.partial().parse(req.body);
+      res.json(await messageTemplateService.update(req.params.id, changes, req.user?.username));
+    } catch (error) {
+      const { status, body } = templateErrorResponse(error, 'Failed to update message template');
+      res.status(status).json(body);
+    }
+  });
+
+  app.delete('/api/message-templates/:id', async (req, res) => {
+    try {
+      await messageTemplateService.remove(req.params.id);
+      res.status(204).end();
+    } catch (error) {
+      const { status, body } = templateErrorResponse(error, 'Failed to delete message template');
+      res.status(status).json(body);
+    }
+  });
+}
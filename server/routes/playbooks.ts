@@ -0,0 +1,177 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { PLAYBOOK_OPERATORS, insertPlaybookSchema, type PlaybookCondition, type PlaybookGraph } from "@shared/schema";
+import { storage } from "../storage";
+import { playbookService } from "../services/playbook";
+
+const conditionSchema: z.ZodType<PlaybookCondition> = z.lazy(() => z.union([
+  z.object({
+    metric: z.string().min(1),
+    operator: z.enum(PLAYBOOK_OPERATORS),
+    value: z.number()
+  }),
+  z.object({ anyOf: z.array(conditionSchema).min(1) })
+]));
+
+const nodeSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['category', 'question', 'terminal']),
+  label: z.string().optional(),
+  category: z.string().optional(),
+  questionId: z.string().optional(),
+  stages: z.array(z.enum(['early', 'mid', 'late'])).optional(),
+  preconditions: z.array(conditionSchema).optional(),
+  outcome: z.enum(['qualified', 'disqualified', 'handoff', 'complete']).optional(),
+  position: z.object({ x: z.number(), y: z.number() }).optional()
+});
+
+const edgeSchema = z.object({
+  id: z.string().min(1),
+  from: z.string().min(1),
+  to: z.string().min(1),
+  when: z.object({
+    optionIds: z.array(z.string()).optional(),
+    keywords: z.array(z.string().min(1)).optional(),
+    conditions: z.array(conditionSchema).optional()
+  }).optional()
+});
+
+const graphSchema = z.object({
+  entry: z.array(z.string()),
+  nodes: z.array(nodeSchema),
+  edges: z.array(edgeSchema)
+});
+
+const playbookSchema = insertPlaybookSchema.extend({
+  graph: graphSchema
+});
+
+const validationRequestSchema = z.object({
+  graph: graphSchema,
+  workspaceId: z.string().nullable().optional()
+});
+
+async function validateGraph(graph: PlaybookGraph, workspaceId?: string | null) {
+  const questions = await storage.getQuestions(undefined, undefined, undefined, workspaceId, true);
+  return playbookService.validate(graph, questions);
+}
+
+export function registerPlaybookRoutes(app: Express): void {
+  app.get('/api/playbooks', async (req, res) => {
+    try {
+      const workspaceId = req.query.workspaceId as string | undefined;
+      res.json(await storage.getPlaybooks(workspaceId));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch playbooks' });
+    }
+  });
+
+  // Playbook currently driving a workspace's conversations: stored, or the built-in one
+  app.get('/api/playbooks/active', async (req, res) => {
+    try {
+      const workspaceId = req.query.workspaceId as string | undefined;
+      res.json(await playbookService.getActive(workspaceId));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to resolve playbook' });
+    }
+  });
+
+  // Check a draft graph without saving it: dangling references, unknown metrics, unreachable nodes
+  app.post('/api/playbooks/validate', async (req, res) => {
+    try {
+      const { graph, workspaceId } = validationRequestSchema.parse(req.body);
+      res.json(await validateGraph(graph, workspaceId));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid playbook graph', details: error.errors });
+      } else {
+        res.status(500).json({ error: 'Failed to validate playbook' });
+      }
+    }
+  });
+
+  app.get('/api/playbooks/:id', async (req, res) => {
+    try {
+      const playbook = await storage.getPlaybook(req.params.id);
+
+      if (!playbook) {
+        return res.status(404).json({ error: 'Playbook not found' });
+      }
+
+      res.json(playbook);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch playbook' });
+    }
+  });
+
+  // Drafts may have errors; an active playbook may not
+  app.post('/api/playbooks', async (req, res) => {
+    try {
+      const validatedData = playbookSchema.parse(req.body);
+      if (validatedData.isActive) {
+        const validation = await validateGraph(validatedData.graph, validatedData.workspaceId);
+        if (!validation.valid) {
+          return res.status(400).json({ error: 'Playbook has errors and cannot be activated', validation });
+        }
+      }
+
+      const playbook = await storage.createPlaybook({ ...validatedData, updatedBy: req.user!.username });
+      res.status(201).json(playbook);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid playbook', details: error.errors });
+      } else {
+        res.status(500).json({ error: 'Failed to create playbook' });
+      }
+    }
+  });
+
+  app.patch('/api/playbooks/:id', async (req, res) => {
+    try {
+      const existing = await storage.getPlaybook(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Playbook not found' });
+      }
+
+      const updates = playbookSchema.partial().parse(req.body);
+      if (updates.isActive ?? existing.isActive) {
+        const graph = updates.graph || existing.graph as PlaybookGraph;
+        const validation = await validateGraph(graph, updates.workspaceId !== undefined ? updates.workspaceId : existing.workspaceId);
+        if (!validation.valid) {
+          return res.status(400).json({ error: 'Playbook has errors and cannot be activated', validation });
+        }
+      }
+
+      const playbook = await storage.updatePlaybook(req.params.id, {
+        ...updates,
+        version: (existing.version || 1) + 1,
+        updatedBy: req.user!.username
+      });
+
+      res.json(playbook);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid playbook', details: error.errors });
+      } else {
+        res.status(500).json({ error: 'Failed to update playbook' });
+      }
+    }
+  });
+
+  app.delete('/api/playbooks/:id', async (req, res) => {
+    try {
+      const playbook = await storage.getPlaybook(req.params.id);
+      if (!playbook) {
+        return res.status(404).json({ error: 'Playbook not found' });
+      }
+      if (playbook.isActive) {
+        return res.status(409).json({ error: 'Deactivate the playbook before deleting it' });
+      }
+
+      await storage.deletePlaybook(playbook.id);
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to delete playbook' });
+    }
+  });
+}
@@ -0,0 +1,143 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import {
+  questionBankService,
+  questionContentSchema,
+  QuestionBankError
+} from "../services/question-bank";
+
+const revisionSchema = z.object({
+  changeNote: z.string().trim().max(500).optional()
+});
+
+const importSchema = z.object({
+  format: z.enum(['csv', 'json']),
+  content: z.union([z.string().min(1), z.array(z.unknown())]), // CSV text, JSON text or the parsed rows
+  dryRun: z.boolean().optional().default(false),
+  workspaceId: z.string().nullable().optional() // Assigned to rows that don't name one
+});
+
+function questionErrorResponse(error: unknown, fallback: string): { status: number; body: Record<string, unknown> } {
+  if (error instanceof z.ZodError) {
+    return { status: 400, body: { error: 'Invalid question data', details: error.errors } };
+  }
+  if (error instanceof QuestionBankError) {
+    return { status: error.status, body: { error: error.message } };
+  }
+  return { status: 500, body: { error: fallback } };
+}
+
+export function registerQuestionRoutes(app: Express): void {
+  app.get('/api/questions', async (req, res) => {
+    try {
+      const category = req.query.category as string;
+      const language = req.query.language as string || 'es';
+      const region = req.query.region as string || 'ES';
+      const workspaceId = req.query.workspaceId as string | undefined;
+      const includeInactive = req.query.includeInactive === 'true';
+
+      const questions = await storage.getQuestions(category, language, region, workspaceId, includeInactive);
+      res.json(questions);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch questions' });
+    }
+  });
+
+  app.post('/api/questions', async (req, res) => {
+    try {
+      const content = questionContentSchema.parse(req.body);
+      res.status(201).json(await questionBankService.create(content, req.user?.username));
+    } catch (error) {
+      const { status, body } = questionErrorResponse(error, 'Failed to create question');
+      res.status(status).json(body);
+    }
+  });
+
+  // Whole bank as a file, retired questions included unless includeInactive=false
+  app.get('/api/questions/export', async (req, res) => {
+    try {
+      const format = req.query.format === 'csv' ? 'csv' : 'json';
+      const workspaceId = req.query.workspaceId as string | undefined;
+      const exported = await questionBankService.exportQuestions(format, workspaceId, req.query.includeInactive !== 'false');
+
+      res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json');
+      res.setHeader('Content-Disposition', `attachment; filename=question_bank.${format}`);
+      res.send(exported);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to export questions' });
+    }
+  });
+
+  // Bulk create and edit; the report lists every rejected row. Nothing is written with dryRun
+  app.post('/api/questions/import', async (req, res) => {
+    try {
+      const { format, content, dryRun, workspaceId } = importSchema.parse(req.body);
+      const report = await questionBankService.importQuestions(content, format, {
+        dryRun,
+        workspaceId,
+        createdBy: req.user?.username
+      });
+      res.status(report.errors.some(issue => issue.row === 0) ? 400 : 200).json(report);
+    } catch (error) {
+      const { status, body } = questionErrorResponse(error, 'Failed to import questions');
+      res.status(status).json(body);
+    }
+  });
+
+  // Full edit: every content field is given, omitted optional ones are cleared
+  app.put('/api/questions/:id', async (req, res) => {
+    try {
+      const content = questionContentSchema.parse(req.body);
+      const { changeNote } = revisionSchema.parse(req.body);
+      const cleared = { subcategory: null, industryVertical: null, expectedResponses: [], metrics: {} };
+      const result = await questionBankService.update(req.params.id, { ...cleared, ...content }, {
+        changeNote,
+        createdBy: req.user?.username
+      });
+      res.json(result);
+    } catch (error) {
+      const { status, body } = questionErrorResponse(error, 'Failed to update question');
+      res.status(status).json(body);
+    }
+  });
+
+  app.patch('/api/questions/:id', async (req, res) => {
+    try {
+      const changes = questionContentSchema.partial().parse(req.body);
+      const { changeNote } = revisionSchema.parse(req.body);
+      const result = await questionBankService.update(req.params.id, changes, {
+        changeNote,
+        createdBy: req.user?.username
+      });
+      res.json(result);
+    } catch (error) {
+      const { status, body } = questionErrorResponse(error, 'Failed to update question');
+      res.status(status).json(body);
+    }
+  });
+
+  // Retires the question; ?permanent=true deletes one that was never asked
+  app.delete('/api/questions/:id', async (req, res) => {
+    try {
+      const result = await questionBankService.remove(req.params.id, req.query.permanent === 'true');
+      res.json(result);
+    } catch (error) {
+      const { status, body } = questionErrorResponse(error, 'Failed to delete question');
+      res.status(status).json(body);
+    }
+  });
+
+  // Every wording the question has had, newest first, each with its own stats
+  app.get('/api/questions/:id/versions', async (req, res) => {
+    try {
+      const question = await storage.getQuestionById(req.params.id);
+      if (!question) {
+        return res.status(404).json({ error: 'Question not found' });
+      }
+      res.json(await storage.getQuestionVersions(question.id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch question versions' });
+    }
+  });
+}
@@ -0,0 +1,63 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { leadScoringService, ScoringTrainingError } from "../services/lead-scoring";
+
+const retrainSchema = z.object({
+  activate: z.boolean().default(true),
+  notes: z.string().optional()
+});
+
+export function registerScoringRoutes(app: Express): void {
+  // Every trained version, newest first, with its metrics and reliability diagram
+  app.get('/api/scoring/models', async (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 20;
+      res.json(await storage.listScoringModels(limit));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch scoring models' });
+    }
+  });
+
+  app.get('/api/scoring/models/active', async (req, res) => {
+    try {
+      const model = await leadScoringService.load();
+      if (!model) {
+        return res.status(404).json({ error: 'No scoring model is active' });
+      }
+      res.json(model);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch the active scoring model' });
+    }
+  });
+
+  app.post('/api/scoring/models/retrain', async (req, res) => {
+    try {
+      const { activate, notes } = retrainSchema.parse(req.body || {});
+      const model = await leadScoringService.retrain({ activate, notes, trainedBy: req.user!.username });
+      res.status(201).json(model);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid retrain request', details: error.errors });
+      } else if (error instanceof ScoringTrainingError) {
+        res.status(409).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Failed to train scoring model' });
+      }
+    }
+  });
+
+  // Roll forward or back to any trained version
+  app.post('/api/scoring/models/:id/activate', async (req, res) => {
+    try {
+      const model = await storage.getScoringModel(req.params.id);
+      if (!model) {
+        return res.status(404).json({ error: 'Scoring model not found' });
+      }
+
+      res.json(await leadScoringService.activate(model.id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to activate scoring model' });
+    }
+  });
+}
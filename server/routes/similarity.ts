@@ -0,0 +1,67 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { similarityService } from "../services/similarity";
+import { decisionService } from "../services/decision";
+
+const compareSchema = z.object({
+  a: z.string().trim().min(1),
+  b: z.string().trim().min(1)
+});
+
+export function registerSimilarityRoutes(app: Express): void {
+  // Active embedding provider, its thresholds and how many vectors are cached
+  app.get('/api/similarity/status', async (req, res) => {
+    try {
+      res.json(await similarityService.getStatus());
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch similarity status' });
+    }
+  });
+
+  // Score two texts, to see where a wording lands against the thresholds
+  app.post('/api/similarity/compare', async (req, res) => {
+    try {
+      const { a, b } = compareSchema.parse(req.body);
+      const { score, provider } = await similarityService.compare(a, b);
+      res.json({ score, provider, thresholds: similarityService.thresholdsFor(provider) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid comparison', details: error.errors });
+      } else {
+        res.status(500).json({ error: 'Failed to compare texts' });
+      }
+    }
+  });
+
+  // Bank questions the next turn of a conversation would skip as repeats or already answered
+  app.get('/api/similarity/conversations/:id', async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      const recent = await storage.getMessages(conversation.id, 50); // Newest first
+      const messages = [...recent].reverse();
+      const language = conversation.language || 'es';
+      const questions = await decisionService.availableQuestions({
+        workspaceId: conversation.workspaceId || undefined,
+        language,
+        region: conversation.region || undefined
+      });
+
+      const [repeats, answered] = await Promise.all([
+        similarityService.findRepeats(questions, decisionService.askedQuestions(recent).previousQuestions),
+        similarityService.findAnswered(questions, messages.filter(m => m.direction === 'incoming').slice(-10).map(m => m.content))
+      ]);
+
+      res.json({
+        repeats: Array.from(repeats.values()),
+        answered: Array.from(answered.values())
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to check conversation' });
+    }
+  });
+}
@@ -0,0 +1,39 @@
+import type { Express } from "express";
+import { QUALIFICATION_SLOTS, type QualificationSlot } from "@shared/schema";
+import { storage } from "../storage";
+import { slotService } from "../services/slots";
+import { websocketService } from "../services/websocket";
+
+export function registerSlotRoutes(app: Express): void {
+  app.get('/api/conversations/:id/slots', async (req, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+      res.json(slotService.getSlots(conversation));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch slots' });
+    }
+  });
+
+  // Forget a wrongly captured slot; the questions that fill it become eligible again
+  app.delete('/api/conversations/:id/slots/:slot', async (req, res) => {
+    try {
+      if (!(QUALIFICATION_SLOTS as readonly string[]).includes(req.params.slot)) {
+        return res.status(400).json({ error: `Unknown slot ${req.params.slot}` });
+      }
+
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      const slots = await slotService.clear(conversation, req.params.slot as QualificationSlot);
+      await websocketService.broadcastConversationUpdate(conversation.id);
+      res.json(slots);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to clear slot' });
+    }
+  });
+}
@@ -0,0 +1,113 @@
+import type { Express, Request, Response } from "express";
+import { channelRegistry, type MessagingChannel } from "../services/channels";
+import { webChatChannel } from "../services/channels/webchat";
+import { inboundQueueService } from "../services/inbound-queue";
+import { websocketService } from "../services/websocket";
+import { storage } from "../storage";
+
+export function registerWebhookRoutes(app: Express): void {
+  const verify = (channel: MessagingChannel, req: Request, res: Response) => {
+    const challenge = channel.verifySubscription(req.query);
+
+    if (challenge !== null) {
+      res.status(200).send(challenge);
+    } else {
+      res.status(403).send('Verification failed');
+    }
+  };
+
+  const handle = async (channel: MessagingChannel, req: Request, res: Response) => {
+    try {
+      if (!channel.authenticateWebhook(req)) {
+        return res.status(401).send('Invalid webhook credentials');
+      }
+
+      // Delivery receipts only touch the outgoing message rows, so apply them inline
+      for (const update of channel.parseStatusUpdates(req.body)) {
+        const message = await storage.updateMessageDeliveryStatus(
+          update.externalMessageId,
+          update.status,
+          update.timestamp,
+          update.error
+        );
+        if (message) {
+          await websocketService.broadcastMessageStatus(message);
+        }
+      }
+
+      // Persist and acknowledge right away; the queue worker runs the pipeline
+      const { queued, duplicates } = await inboundQueueService.enqueue(channel, req.body);
+
+      if (queued.length > 0) {
+        return res.status(200).send(`${queued.length} message(s) queued`);
+      }
+      if (duplicates > 0) {
+        return res.status(200).send('Duplicate delivery ignored');
+      }
+      res.status(200).send('No message parsed');
+    } catch (error) {
+      console.error(`${channel.type} webhook enqueue error:`, error);
+      res.status(500).send('Processing failed');
+    }
+  };
+
+  // Inbound queue status and dead letter handling
+  app.get('/api/inbound-queue/status', async (req, res) => {
+    try {
+      res.json(await inboundQueueService.getStatus());
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch inbound queue status' });
+    }
+  });
+
+  app.get('/api/inbound-queue/jobs', async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      const limit = parseInt(req.query.limit as string) || 50;
+
+      res.json(await storage.getInboundJobs(status, limit));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch inbound jobs' });
+    }
+  });
+
+  app.post('/api/inbound-queue/jobs/:id/retry', async (req, res) => {
+    try {
+      const job = await storage.retryInboundJob(req.params.id);
+
+      if (!job) {
+        return res.status(404).json({ error: 'Dead-lettered job not found' });
+      }
+
+      res.json(job);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to retry inbound job' });
+    }
+  });
+
+  // Web chat widgets open a session before their first message; the token signs its messages and /ws subscription
+  app.post('/api/webhook/webchat/sessions', (req, res) => {
+    res.status(201).json(webChatChannel.createSession());
+  });
+
+  // WhatsApp keeps the original webhook URL registered with Meta
+  app.get('/api/webhook', (req, res) => verify(channelRegistry.get('whatsapp')!, req, res));
+  app.post('/api/webhook', (req, res) => handle(channelRegistry.get('whatsapp')!, req, res));
+
+  // Per-channel webhooks: /api/webhook/whatsapp, /webchat, /email, /telegram
+  app.get('/api/webhook/:channel', (req, res) => {
+    const channel = channelRegistry.get(req.params.channel);
+    if (!channel) {
+      return res.status(404).json({ error: 'Unknown channel', available: channelRegistry.list() });
+    }
+    verify(channel, req, res);
+  });
+
+  app.post('/api/webhook/:channel', (req, res) => {
+    const channel = channelRegistry.get(req.params.channel);
+    if (!channel) {
+      return res.status(404).json({ error: 'Unknown channel', available: channelRegistry.list() });
+    }
+    handle(channel, req, res);
+  });
+}
@@ -0,0 +1,96 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { insertWorkspaceSchema } from "@shared/schema";
+import { storage } from "../storage";
+import { workspaceService } from "../services/workspace";
+
+const qualificationCriteriaSchema = z.object({
+  minBudget: z.number().min(0),
+  currency: z.string().length(3),
+  minSpocHoursPerWeek: z.number().min(0),
+  minDigitalMaturity: z.enum(['low', 'medium', 'high']),
+  offerDescription: z.string().optional()
+});
+
+const llmSettingsSchema = z.object({
+  model: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional()
+});
+
+const workspaceSchema = insertWorkspaceSchema.extend({
+  slug: z.string().regex(/^[a-z0-9-]+$/, 'Slug may only contain lowercase letters, digits and dashes'),
+  qualificationCriteria: qualificationCriteriaSchema.partial().default({}),
+  llmSettings: llmSettingsSchema.default({})
+});
+
+export function registerWorkspaceRoutes(app: Express): void {
+  app.get('/api/workspaces', async (req, res) => {
+    try {
+      const workspaces = await storage.getWorkspaces();
+      res.json(workspaces.map(workspace => ({
+        ...workspaceService.toPublicWorkspace(workspace),
+        qualificationCriteria: workspaceService.criteriaFor(workspace)
+      })));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch workspaces' });
+    }
+  });
+
+  app.get('/api/workspaces/:id', async (req, res) => {
+    try {
+      const workspace = await storage.getWorkspace(req.params.id);
+
+      if (!workspace) {
+        return res.status(404).json({ error: 'Workspace not found' });
+      }
+
+      res.json({
+        ...workspaceService.toPublicWorkspace(workspace),
+        qualificationCriteria: workspaceService.criteriaFor(workspace)
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch workspace' });
+    }
+  });
+
+  // Writes are admin only (default policy in ACCESS_RULES)
+  app.post('/api/workspaces', async (req, res) => {
+    try {
+      const validatedData = workspaceSchema.parse(req.body);
+
+      if (await storage.getWorkspaceBySlug(validatedData.slug)) {
+        return res.status(409).json({ error: 'Workspace slug already exists' });
+      }
+
+      // There is exactly one default workspace; it is created at startup
+      const workspace = await storage.createWorkspace({ ...validatedData, isDefault: false });
+      res.status(201).json(workspaceService.toPublicWorkspace(workspace));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid workspace data', details: error.errors });
+      } else {
+        res.status(500).json({ error: 'Failed to create workspace' });
+      }
+    }
+  });
+
+  app.patch('/api/workspaces/:id', async (req, res) => {
+    try {
+      const { isDefault, ...updates } = workspaceSchema.partial().parse(req.body);
+      const workspace = await storage.updateWorkspace(req.params.id, updates);
+
+      if (!workspace) {
+        return res.status(404).json({ error: 'Workspace not found' });
+      }
+
+      workspaceService.invalidate();
+      res.json(workspaceService.toPublicWorkspace(workspace));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Invalid workspace data', details: error.errors });
+      } else {
+        res.status(500).json({ error: 'Failed to update workspace' });
+      }
+    }
+  });
+}
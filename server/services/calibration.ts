@@ -0,0 +1,456 @@
+// Outcome-driven calibration.
+// A scheduled job turns closed deals (deal_closed / deal_lost outcomes) into outcome validations
+// and proposes calibration updates for the parameters those outcomes speak to:
+// - confidence_threshold: the qualification score a lead needs to escalate as high value
+// - thompson_sampling: the Beta prior new Thompson sampling beliefs start from
+// - cultural_weights: the per-region factor applied to Thompson sampled values
+// Proposals are applied automatically (CALIBRATION_AUTO_APPLY=true) or after approval from the dashboard.
+// The applied update of a metric with the latest appliedAt is the value in force; rolling it back
+// restores the one before it, so every change keeps its before/after values for the audit view.
+
+import { storage } from '../storage';
+import type { CalibrationUpdate, DealOutcome, InsertCalibrationUpdate, InsertOutcomeValidation, OutcomeValidation } from '@shared/schema';
+
+export type CalibrationType = 'confidence_threshold' | 'thompson_sampling' | 'cultural_weights';
+export type CalibrationStatus = 'pending' | 'applied' | 'rejected' | 'rolled_back';
+
+export const QUALIFICATION_THRESHOLD_METRIC = 'escalation.qualification_threshold';
+export const QUALIFICATION_PRIOR_METRIC = 'thompson.qualification_prior';
+const CULTURAL_WEIGHT_PREFIX = 'cultural_weights.';
+
+export interface CalibrationConfig {
+  intervalMs: number;
+  autoApply: boolean;
+  step: number; // Learning rate for threshold and weight updates
+  batchSize: number; // Outcomes validated per run
+  accuracyTolerance: number; // Value and timing predictions at or above this accuracy count as valid
+  maxPriorStrength: number; // Cap on alpha + beta so old outcomes fade out of the prior
+  defaultQualificationThreshold: number;
+}
+
+export interface CalibratedParameter {
+  metricName: string;
+  calibrationType: CalibrationType;
+  value: number;
+  defaultValue: number;
+  alpha?: number;
+  beta?: number;
+  updateId: string | null;
+  appliedAt: string | null;
+}
+
+export interface CalibrationRunSummary {
+  outcomes: number;
+  validations: number;
+  proposed: number;
+  applied: number;
+}
+
+// Range each calibrated value is kept in
+const BOUNDS: Record<CalibrationType, [number, number]> = {
+  confidence_threshold: [0.5, 0.95],
+  thompson_sampling: [0, 1],
+  cultural_weights: [0.5, 1.5]
+};
+
+// How far above a lost lead's score the threshold is pushed
+const THRESHOLD_MARGIN = 0.05;
+
+function clamp(value: number, [min, max]: [number, number]): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+export class CalibrationService {
+  private config: CalibrationConfig = {
+    intervalMs: parseInt(process.env.CALIBRATION_INTERVAL_MS || String(15 * 60 * 1000), 10),
+    autoApply: process.env.CALIBRATION_AUTO_APPLY === 'true',
+    step: parseFloat(process.env.CALIBRATION_STEP || '0.1'),
+    batchSize: 100,
+    accuracyTolerance: 0.7,
+    maxPriorStrength: 50,
+    // Same env default as the escalation trigger in HandoffService
+    defaultQualificationThreshold: parseFloat(process.env.ESCALATION_QUALIFICATION_THRESHOLD || '0.75')
+  };
+  private effective = new Map<string, CalibrationUpdate>();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  start(): void {
+    if (this.timer) return;
+
+    this.load().catch(error => console.error('Failed to load calibrations:', error));
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => console.error('Calibration run failed:', error));
+    }, this.config.intervalMs);
+
+    console.log(`Calibration job started (${this.config.autoApply ? 'auto-apply' : 'approval required'})`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Refresh the values in force; other processes may have applied or rolled back updates */
+  async load(): Promise<void> {
+    const applied = await storage.getEffectiveCalibrations();
+    this.effective = new Map(applied.map(update => [update.metricName, update]));
+  }
+
+  /** Calibrated value of a metric, or the caller's default while nothing is applied */
+  value(metricName: string, fallback: number): number {
+    return this.effective.get(metricName)?.updatedValue ?? fallback;
+  }
+
+  betaPrior(): { alpha: number; beta: number } | undefined {
+    const update = this.effective.get(QUALIFICATION_PRIOR_METRIC);
+    if (update?.posteriorAlpha == null || update.posteriorBeta == null) return undefined;
+    return { alpha: update.posteriorAlpha, beta: update.posteriorBeta };
+  }
+
+  culturalWeight(culturalContext: string): number {
+    return this.value(`${CULTURAL_WEIGHT_PREFIX}${culturalContext.toLowerCase()}`, 1);
+  }
+
+  statusOf(update: CalibrationUpdate): CalibrationStatus {
+    if (update.isApplied) return 'applied';
+    if (update.rollbackAvailable) return 'pending';
+    return (update.applicationResults as { status?: CalibrationStatus })?.status || 'rejected';
+  }
+
+  /** Values in force for the dashboard, including defaults that were never calibrated */
+  getParameters(): CalibratedParameter[] {
+    const metricNames = new Set([QUALIFICATION_THRESHOLD_METRIC, QUALIFICATION_PRIOR_METRIC, ...Array.from(this.effective.keys())]);
+
+    return Array.from(metricNames).sort().map(metricName => {
+      const update = this.effective.get(metricName);
+      const defaultValue = this.defaultValue(metricName);
+      const prior = metricName === QUALIFICATION_PRIOR_METRIC ? this.betaPrior() ?? { alpha: 1, beta: 1 } : undefined;
+
+      return {
+        metricName,
+        calibrationType: this.typeOf(metricName),
+        value: update?.updatedValue ?? defaultValue,
+        defaultValue,
+        ...prior,
+        updateId: update?.id ?? null,
+        appliedAt: (update?.applicationResults as { appliedAt?: string })?.appliedAt ?? null
+      };
+    });
+  }
+
+  /**
+   * Validate closed deals that have not been validated yet, propose calibration updates
+   * for every validation that asks for them and apply those when auto-apply is on
+   */
+  async runOnce(): Promise<CalibrationRunSummary> {
+    const summary: CalibrationRunSummary = { outcomes: 0, validations: 0, proposed: 0, applied: 0 };
+    if (this.running) return summary;
+    this.running = true;
+
+    try {
+      await this.load();
+
+      const outcomes = await storage.getUnvalidatedDealOutcomes(['deal_closed', 'deal_lost'], this.config.batchSize);
+      for (const outcome of outcomes) {
+        const validations = await this.validateOutcome(outcome);
+        summary.outcomes++;
+        summary.validations += validations.length;
+      }
+
+      // Includes validations from earlier runs that failed before proposing
+      for (const validation of await storage.getPendingValidations()) {
+        const outcome = await storage.getDealOutcome(validation.dealOutcomeId);
+        if (!outcome) continue;
+
+        for (const proposal of await this.propose(validation, outcome)) {
+          summary.proposed++;
+          if (this.config.autoApply) {
+            await this.apply(proposal, 'system');
+            summary.applied++;
+          }
+        }
+      }
+
+      if (summary.outcomes > 0 || summary.proposed > 0) {
+        console.log(`Calibration run: ${summary.outcomes} outcomes, ${summary.validations} validations, ${summary.proposed} proposed, ${summary.applied} applied`);
+      }
+      return summary;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Put a proposed update in force. Proposals are relative to the value they were computed from,
+   * so when another update of the metric was applied since, the change is replayed on top of it.
+   */
+  async apply(update: CalibrationUpdate, appliedBy: string): Promise<CalibrationUpdate> {
+    const type = update.calibrationType as CalibrationType;
+    const current = this.effective.get(update.metricName);
+    const rebased: Partial<CalibrationUpdate> = {};
+
+    if (type === 'thompson_sampling') {
+      const alpha = current?.posteriorAlpha ?? 1;
+      const beta = current?.posteriorBeta ?? 1;
+      const posterior = this.capPrior(
+        alpha + (update.posteriorAlpha ?? 0) - (update.priorAlpha ?? 0),
+        beta + (update.posteriorBeta ?? 0) - (update.priorBeta ?? 0)
+      );
+
+      Object.assign(rebased, {
+        priorAlpha: alpha,
+        priorBeta: beta,
+        posteriorAlpha: posterior.alpha,
+        posteriorBeta: posterior.beta,
+        previousValue: round(alpha / (alpha + beta)),
+        updatedValue: round(posterior.alpha / (posterior.alpha + posterior.beta))
+      });
+    } else {
+      const previousValue = current?.updatedValue ?? this.defaultValue(update.metricName);
+      const updatedValue = round(clamp(previousValue + update.updatedValue - update.previousValue, BOUNDS[type]));
+
+      Object.assign(rebased, { previousValue, updatedValue });
+      if (type === 'confidence_threshold') {
+        Object.assign(rebased, { previousConfidence: previousValue, updatedConfidence: updatedValue });
+      }
+    }
+
+    const applied = await storage.updateCalibrationUpdate(update.id, {
+      ...rebased,
+      isApplied: true,
+      applicationResults: {
+        status: 'applied',
+        appliedAt: new Date().toISOString(),
+        appliedBy,
+        rebasedFrom: rebased.previousValue !== update.previousValue ? update.previousValue : undefined
+      }
+    });
+
+    this.effective.set(applied.metricName, applied);
+    return applied;
+  }
+
+  async reject(update: CalibrationUpdate, rejectedBy: string): Promise<CalibrationUpdate> {
+    return storage.updateCalibrationUpdate(update.id, {
+      rollbackAvailable: false,
+      applicationResults: { status: 'rejected', rejectedAt: new Date().toISOString(), rejectedBy }
+    });
+  }
+
+  /** Only the update in force can be rolled back; later ones were computed on top of it */
+  async canRollback(update: CalibrationUpdate): Promise<boolean> {
+    if (!update.isApplied) return false;
+
+    await this.load();
+    return this.effective.get(update.metricName)?.id === update.id;
+  }
+
+  async rollback(update: CalibrationUpdate, rolledBackBy: string): Promise<CalibrationUpdate> {
+    const rolledBack = await storage.updateCalibrationUpdate(update.id, {
+      isApplied: false,
+      rollbackAvailable: false,
+      applicationResults: {
+        ...(update.applicationResults as Record<string, unknown>),
+        status: 'rolled_back',
+        rolledBackAt: new Date().toISOString(),
+        rolledBackBy
+      }
+    });
+
+    await this.load();
+    return rolledBack;
+  }
+
+  /** Compare what happened with the predictions recorded on the outcome */
+  private async validateOutcome(outcome: DealOutcome): Promise<OutcomeValidation[]> {
+    const deal = await storage.getDeal(outcome.dealId);
+    const won = outcome.outcomeType === 'deal_closed';
+    const base = {
+      dealOutcomeId: outcome.id,
+      conversationId: outcome.conversationId,
+      validationContext: { dealId: outcome.dealId, outcomeType: outcome.outcomeType, region: deal?.region },
+      qualityScore: outcome.validationConfidence ?? 1
+    };
+    const drafts: InsertOutcomeValidation[] = [];
+
+    const score = outcome.qualificationScore ?? 0;
+    drafts.push({
+      ...base,
+      validationType: 'qualification_validation',
+      isValid: outcome.qualificationValidated ?? won,
+      confidenceScore: outcome.qualificationAccuracy ?? 0,
+      validationMethod: 'threshold_based',
+      originalMetrics: {
+        qualificationScore: score,
+        qualificationConfidence: deal?.qualificationConfidence ?? null,
+        culturalScore: outcome.culturalScore,
+        communicationStyle: outcome.communicationStyle
+      },
+      outcomeMetrics: { outcome: won ? 'won' : 'lost', lossReason: deal?.lossReason ?? null },
+      deviationAnalysis: { calibrationError: (won ? 1 : 0) - score },
+      calibrationNeeds: ['confidence_threshold', 'thompson_sampling', 'cultural_weights']
+    });
+
+    if (outcome.predictionAccuracy != null) {
+      drafts.push({
+        ...base,
+        validationType: 'prediction_accuracy',
+        isValid: outcome.predictionAccuracy >= this.config.accuracyTolerance,
+        confidenceScore: outcome.predictionAccuracy,
+        validationMethod: 'statistical',
+        originalMetrics: { predictedValue: outcome.predictedValue },
+        outcomeMetrics: { actualValue: outcome.actualValue },
+        deviationAnalysis: { error: outcome.predictionError, accuracy: outcome.predictionAccuracy }
+      });
+    }
+
+    if (outcome.timingAccuracy != null) {
+      drafts.push({
+        ...base,
+        validationType: 'timing_validation',
+        isValid: outcome.timingAccuracy >= this.config.accuracyTolerance,
+        confidenceScore: outcome.timingAccuracy,
+        validationMethod: 'statistical',
+        originalMetrics: { predictedTimeToClose: outcome.predictedTimeToClose },
+        outcomeMetrics: { actualTimeToClose: outcome.actualTimeToClose },
+        deviationAnalysis: { accuracy: outcome.timingAccuracy }
+      });
+    }
+
+    const saved: OutcomeValidation[] = [];
+    for (const draft of drafts) {
+      saved.push(await storage.saveOutcomeValidation(draft));
+    }
+    return saved;
+  }
+
+  /**
+   * Updates a qualification validation asks for. A lost lead scored at or above the escalation
+   * threshold raises it, a won lead below it lowers it; the outcome adds a success or failure
+   * to the Beta prior; and the lead's region is weighted up or down by how far the score was off.
+   */
+  private async propose(validation: OutcomeValidation, outcome: DealOutcome): Promise<CalibrationUpdate[]> {
+    const needs = (validation.calibrationNeeds as CalibrationType[]) || [];
+    const deal = await storage.getDeal(outcome.dealId);
+    const won = outcome.outcomeType === 'deal_closed';
+    const outcomeValue = won ? 1 : 0;
+    const score = outcome.qualificationScore ?? 0;
+    const step = this.config.step;
+    const method = this.config.autoApply ? 'automated' : 'hybrid';
+
+    const base = {
+      outcomeValidationId: validation.id,
+      conversationId: outcome.conversationId,
+      dealId: outcome.dealId,
+      learningRateUsed: step,
+      updateMethod: method,
+      updateContext: { dealOutcomeId: outcome.id, outcome: won ? 'won' : 'lost', qualificationScore: score }
+    };
+    const drafts: InsertCalibrationUpdate[] = [];
+
+    if (needs.includes('confidence_threshold')) {
+      const threshold = this.value(QUALIFICATION_THRESHOLD_METRIC, this.config.defaultQualificationThreshold);
+      let updated = threshold;
+      if (won && score < threshold) updated = threshold - step * (threshold - score);
+      if (!won && score >= threshold) updated = threshold + step * (score - threshold + THRESHOLD_MARGIN);
+      updated = round(clamp(updated, BOUNDS.confidence_threshold));
+
+      if (updated !== threshold) {
+        drafts.push({
+          ...base,
+          calibrationType: 'confidence_threshold',
+          metricName: QUALIFICATION_THRESHOLD_METRIC,
+          previousValue: threshold,
+          updatedValue: updated,
+          previousConfidence: threshold,
+          updatedConfidence: updated,
+          confidenceCalibrationError: Math.abs(outcomeValue - score),
+          calibrationImpact: Math.abs(updated - threshold),
+          updateReason: won
+            ? `Won deal scored ${Math.round(score * 100)}%, below the ${Math.round(threshold * 100)}% threshold`
+            : `Lost deal scored ${Math.round(score * 100)}%, at or above the ${Math.round(threshold * 100)}% threshold`
+        });
+      }
+    }
+
+    if (needs.includes('thompson_sampling')) {
+      const prior = this.betaPrior() ?? { alpha: 1, beta: 1 };
+      const posterior = this.capPrior(prior.alpha + outcomeValue, prior.beta + 1 - outcomeValue);
+      const previousValue = round(prior.alpha / (prior.alpha + prior.beta));
+      const updatedValue = round(posterior.alpha / (posterior.alpha + posterior.beta));
+
+      drafts.push({
+        ...base,
+        calibrationType: 'thompson_sampling',
+        metricName: QUALIFICATION_PRIOR_METRIC,
+        previousValue,
+        updatedValue,
+        priorAlpha: prior.alpha,
+        priorBeta: prior.beta,
+        posteriorAlpha: posterior.alpha,
+        posteriorBeta: posterior.beta,
+        calibrationImpact: Math.abs(updatedValue - previousValue),
+        updateReason: `${won ? 'Won' : 'Lost'} deal added to the qualification success prior`
+      });
+    }
+
+    if (needs.includes('cultural_weights')) {
+      const region = (deal?.region || 'latam').toLowerCase();
+      const weight = this.culturalWeight(region);
+      const updated = round(clamp(weight + step * (outcomeValue - score), BOUNDS.cultural_weights));
+
+      if (updated !== weight) {
+        drafts.push({
+          ...base,
+          calibrationType: 'cultural_weights',
+          metricName: `${CULTURAL_WEIGHT_PREFIX}${region}`,
+          previousValue: weight,
+          updatedValue: updated,
+          culturalWeights: { [region]: updated },
+          regionalAdjustments: { [region]: round(updated - weight) },
+          languageAdjustments: deal?.language ? { [deal.language]: round(updated - weight) } : {},
+          calibrationImpact: Math.abs(updated - weight),
+          updateContext: { ...base.updateContext, region, communicationStyle: outcome.communicationStyle },
+          updateReason: `${won ? 'Won' : 'Lost'} ${region.toUpperCase()} deal scored ${Math.round(score * 100)}%`
+        });
+      }
+    }
+
+    const saved: CalibrationUpdate[] = [];
+    for (const draft of drafts) {
+      saved.push(await storage.saveCalibrationUpdate(draft));
+    }
+    return saved;
+  }
+
+  private capPrior(alpha: number, beta: number): { alpha: number; beta: number } {
+    const strength = alpha + beta;
+    if (strength <= this.config.maxPriorStrength) return { alpha, beta };
+
+    const scale = this.config.maxPriorStrength / strength;
+    return { alpha: round(alpha * scale), beta: round(beta * scale) };
+  }
+
+  private typeOf(metricName: string): CalibrationType {
+    if (metricName === QUALIFICATION_THRESHOLD_METRIC) return 'confidence_threshold';
+    if (metricName === QUALIFICATION_PRIOR_METRIC) return 'thompson_sampling';
+    return 'cultural_weights';
+  }
+
+  private defaultValue(metricName: string): number {
+    switch (this.typeOf(metricName)) {
+      case 'confidence_threshold': return this.config.defaultQualificationThreshold;
+      case 'thompson_sampling': return 0.5;
+      default: return 1;
+    }
+  }
+}
+
+export const calibrationService = new CalibrationService();
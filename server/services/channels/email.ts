@@ -0,0 +1,134 @@
+import type { MediaAttachment } from '@shared/schema';
+import type { ChannelContact, DeliveryStatusUpdate, DownloadedMedia, InboundMessage, MessagingChannel, SendOptions, SendResult, WebhookRequest } from './types';
+
+// Inbound payloads follow Postmark's inbound webhook JSON; replies go out through its email API
+export class EmailChannel implements MessagingChannel {
+  readonly type = 'email' as const;
+  private apiToken: string;
+  private fromAddress: string;
+  private subject: string;
+  private webhookToken: string | undefined;
+
+  constructor() {
+    this.apiToken = process.env.EMAIL_API_TOKEN || 'default_email_token';
+    this.fromAddress = process.env.EMAIL_FROM || 'lidia@cronosai.consulting';
+    this.subject = process.env.EMAIL_SUBJECT || 'Cronos AI Consulting';
+    this.webhookToken = process.env.EMAIL_WEBHOOK_TOKEN;
+  }
+
+  verifySubscription(_query: Record<string, any>): string | null {
+    return null;
+  }
+
+  // Without a token anyone could post leads and have replies mailed to any address; only allowed outside production
+  authenticateWebhook(request: WebhookRequest): boolean {
+    if (!this.webhookToken) {
+      return process.env.NODE_ENV !== 'production';
+    }
+    return request.query.token === this.webhookToken;
+  }
+
+  parseInbound(payload: any): InboundMessage[] {
+    try {
+      const from = payload?.FromFull?.Email || payload?.From;
+      // Prefer the stripped reply so quoted history does not pollute metrics
+      const content = (payload?.StrippedTextReply || payload?.TextBody || '').trim();
+
+      if (!from || !content) {
+        return [];
+      }
+
+      return [{
+        id: payload.MessageID,
+        channel: this.type,
+        from: String(from).toLowerCase(),
+        type: 'text',
+        content,
+        timestamp: payload.Date ? new Date(payload.Date) : new Date(),
+        metadata: {
+          subject: payload.Subject,
+          fromName: payload.FromName || payload.FromFull?.Name,
+          attachments: (payload.Attachments || []).map((a: any) => a.Name)
+        }
+      }];
+    } catch (error) {
+      console.error('Error parsing inbound email:', error);
+      return [];
+    }
+  }
+
+  // Postmark posts delivery and open events to a separate webhook with RecordType set
+  parseStatusUpdates(payload: any): DeliveryStatusUpdate[] {
+    const statusByRecordType: Record<string, DeliveryStatusUpdate['status']> = {
+      Delivery: 'delivered',
+      Open: 'read',
+      Bounce: 'failed'
+    };
+    const status = statusByRecordType[payload?.RecordType];
+
+    if (!status || !payload.MessageID) {
+      return [];
+    }
+
+    return [{
+      externalMessageId: payload.MessageID,
+      status,
+      timestamp: new Date(payload.DeliveredAt || payload.ReceivedAt || payload.BouncedAt || Date.now()),
+      error: status === 'failed' ? payload.Description : undefined
+    }];
+  }
+
+  async sendMessage(to: string, message: string, options: SendOptions = {}): Promise<SendResult> {
+    const { interactive } = options;
+    // No buttons in plain-text email; list the options so the lead can reply with one
+    const body = interactive
+      ? `${message}\n\n${interactive.options.map(option => `- ${option.title}`).join('\n')}`
+      : message;
+
+    try {
+      const response = await fetch('https://api.postmarkapp.com/email', {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+          'X-Postmark-Server-Token': this.apiToken
+        },
+        body: JSON.stringify({
+          From: this.fromAddress,
+          To: to,
+          Subject: this.subject,
+          TextBody: body
+        })
+      });
+
+      if (!response.ok) {
+        console.error('Failed to send email:', await response.text());
+        return { sent: false };
+      }
+
+      const data = await response.json();
+      return { sent: true, externalMessageId: data.MessageID };
+    } catch (error) {
+      console.error('Error sending email:', error);
+      return { sent: false };
+    }
+  }
+
+  async getContactInfo(message: InboundMessage): Promise<ChannelContact> {
+    return {
+      name: message.metadata?.fromName || undefined,
+      handle: message.from
+    };
+  }
+
+  // Attachment names are kept in metadata; their content is not stored
+  async downloadMedia(_media: MediaAttachment): Promise<DownloadedMedia | null> {
+    return null;
+  }
+
+  async markAsRead(_message: InboundMessage): Promise<boolean> {
+    return false;
+  }
+}
+
+export const emailChannel = new EmailChannel();
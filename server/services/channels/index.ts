@@ -0,0 +1,34 @@
+import { whatsappChannel } from './whatsapp';
+import { webChatChannel } from './webchat';
+import { emailChannel } from './email';
+import { telegramChannel } from './telegram';
+import type { ChannelType, MessagingChannel } from './types';
+
+export * from './types';
+
+export class ChannelRegistry {
+  private channels: Map<ChannelType, MessagingChannel> = new Map();
+
+  constructor() {
+    [whatsappChannel, webChatChannel, emailChannel, telegramChannel].forEach(channel => this.register(channel));
+  }
+
+  register(channel: MessagingChannel): void {
+    this.channels.set(channel.type, channel);
+  }
+
+  get(type: string): MessagingChannel | undefined {
+    return this.channels.get(type as ChannelType);
+  }
+
+  /** Channel for an existing conversation; rows created before channels existed are WhatsApp */
+  forConversation(conversation: { channel?: string | null }): MessagingChannel {
+    return this.get(conversation.channel || 'whatsapp') || whatsappChannel;
+  }
+
+  list(): ChannelType[] {
+    return Array.from(this.channels.keys());
+  }
+}
+
+export const channelRegistry = new ChannelRegistry();
@@ -0,0 +1,232 @@
+import type { InboundMessageMetadata, InboundMessageType, MediaAttachment } from '@shared/schema';
+import type { ChannelContact, DeliveryStatusUpdate, DownloadedMedia, InboundMessage, MessagingChannel, SendOptions, SendResult, WebhookRequest } from './types';
+
+export class TelegramChannel implements MessagingChannel {
+  readonly type = 'telegram' as const;
+  private botToken: string;
+  private secretToken: string | undefined;
+
+  constructor() {
+    this.botToken = process.env.TELEGRAM_BOT_TOKEN || 'default_bot_token';
+    this.secretToken = process.env.TELEGRAM_WEBHOOK_SECRET;
+  }
+
+  // Telegram webhooks are registered through setWebhook, there is no GET handshake
+  verifySubscription(_query: Record<string, any>): string | null {
+    return null;
+  }
+
+  // Unsigned updates are only accepted outside production
+  authenticateWebhook(request: WebhookRequest): boolean {
+    if (!this.secretToken) {
+      return process.env.NODE_ENV !== 'production';
+    }
+    return request.headers['x-telegram-bot-api-secret-token'] === this.secretToken;
+  }
+
+  parseInbound(payload: any): InboundMessage[] {
+    try {
+      if (payload?.callback_query) {
+        return this.parseCallbackQuery(payload);
+      }
+
+      const message = payload?.message || payload?.edited_message;
+      if (!message?.chat?.id) {
+        return [];
+      }
+
+      const type = message.text !== undefined ? 'text' : this.detectType(message);
+
+      return [{
+        id: `${message.chat.id}:${message.message_id}`,
+        channel: this.type,
+        from: String(message.chat.id),
+        type,
+        content: message.text ?? message.caption ?? this.placeholderFor(message),
+        timestamp: new Date((message.date || Date.now() / 1000) * 1000),
+        metadata: {
+          ...this.extractTypedMetadata(message, type),
+          context: message.reply_to_message
+            ? { id: `${message.chat.id}:${message.reply_to_message.message_id}` }
+            : undefined,
+          updateId: payload.update_id,
+          sender: message.from,
+          languageCode: message.from?.language_code
+        }
+      }];
+    } catch (error) {
+      console.error('Error parsing Telegram update:', error);
+      return [];
+    }
+  }
+
+  // Inline keyboard taps arrive as callback queries instead of messages
+  private parseCallbackQuery(payload: any): InboundMessage[] {
+    const query = payload.callback_query;
+    const chatId = query.message?.chat?.id;
+    if (!chatId || !query.data) {
+      return [];
+    }
+
+    const title = query.message?.reply_markup?.inline_keyboard
+      ?.flat()
+      .find((button: any) => button.callback_data === query.data)?.text || query.data;
+
+    return [{
+      id: `${chatId}:callback:${query.id}`,
+      channel: this.type,
+      from: String(chatId),
+      type: 'interactive',
+      content: title,
+      timestamp: new Date(),
+      metadata: {
+        interactive: { type: 'button_reply', id: query.data, title },
+        context: query.message?.message_id ? { id: `${chatId}:${query.message.message_id}` } : undefined,
+        updateId: payload.update_id,
+        sender: query.from,
+        languageCode: query.from?.language_code
+      }
+    }];
+  }
+
+  private detectType(message: any): InboundMessageType {
+    if (message.photo) return 'image';
+    if (message.document) return 'document';
+    if (message.voice || message.audio) return 'audio';
+    if (message.video) return 'video';
+    if (message.sticker) return 'sticker';
+    if (message.location) return 'location';
+    if (message.contact) return 'contacts';
+    return 'unsupported';
+  }
+
+  private placeholderFor(message: any): string {
+    switch (this.detectType(message)) {
+      case 'image': return '[Image]';
+      case 'document': return `[Document: ${message.document?.file_name}]`;
+      case 'audio': return message.voice ? '[Voice Message]' : '[Audio Message]';
+      case 'video': return '[Video]';
+      case 'sticker': return '[Sticker]';
+      case 'location': return `[Location: ${message.location?.latitude}, ${message.location?.longitude}]`;
+      case 'contacts': return message.contact?.first_name ? `[Contact Card: ${message.contact.first_name}]` : '[Contact Card]';
+      default: return '[Unsupported Message Type]';
+    }
+  }
+
+  private extractTypedMetadata(message: any, type: InboundMessageType): Partial<InboundMessageMetadata> {
+    switch (type) {
+      case 'image': {
+        // Telegram sends several sizes; the last one is the largest
+        const photo = message.photo[message.photo.length - 1];
+        return { media: { id: photo.file_id, mimeType: 'image/jpeg', caption: message.caption, size: photo.file_size } };
+      }
+      case 'document':
+      case 'audio':
+      case 'video':
+      case 'sticker': {
+        const file = message.document || message.voice || message.audio || message.video || message.sticker;
+        return {
+          media: {
+            id: file.file_id,
+            mimeType: file.mime_type,
+            filename: file.file_name,
+            caption: message.caption,
+            voice: !!message.voice,
+            size: file.file_size
+          }
+        };
+      }
+      case 'location':
+        return { location: { latitude: message.location.latitude, longitude: message.location.longitude } };
+      case 'contacts':
+        return {
+          contacts: [{
+            name: [message.contact.first_name, message.contact.last_name].filter(Boolean).join(' '),
+            phones: message.contact.phone_number ? [message.contact.phone_number] : [],
+            emails: []
+          }]
+        };
+      default:
+        return {};
+    }
+  }
+
+  parseStatusUpdates(_payload: any): DeliveryStatusUpdate[] {
+    return [];
+  }
+
+  async sendMessage(to: string, message: string, options: SendOptions = {}): Promise<SendResult> {
+    const { interactive } = options;
+    try {
+      const response = await fetch(`https://api.telegram.org/bot${this.botToken}/sendMessage`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          chat_id: to,
+          text: message,
+          // One option per row; callback_data is capped at 64 bytes by Telegram
+          ...(interactive ? {
+            reply_markup: {
+              inline_keyboard: interactive.options.map(option => [
+                { text: option.title, callback_data: option.id.slice(0, 64) }
+              ])
+            }
+          } : {})
+        })
+      });
+
+      if (!response.ok) {
+        console.error('Failed to send Telegram message:', await response.text());
+        return { sent: false };
+      }
+
+      const data = await response.json();
+      return { sent: true, externalMessageId: data.result ? `${to}:${data.result.message_id}` : undefined };
+    } catch (error) {
+      console.error('Error sending Telegram message:', error);
+      return { sent: false };
+    }
+  }
+
+  async getContactInfo(message: InboundMessage): Promise<ChannelContact> {
+    const sender = message.metadata?.sender;
+    const name = [sender?.first_name, sender?.last_name].filter(Boolean).join(' ');
+
+    return {
+      name: name || undefined,
+      handle: sender?.username ? `@${sender.username}` : message.from
+    };
+  }
+
+  async downloadMedia(media: MediaAttachment): Promise<DownloadedMedia | null> {
+    try {
+      const fileResponse = await fetch(`https://api.telegram.org/bot${this.botToken}/getFile?file_id=${encodeURIComponent(media.id)}`);
+      const file = await fileResponse.json();
+
+      if (!file.ok || !file.result?.file_path) {
+        console.error('Failed to resolve Telegram file:', file.description);
+        return null;
+      }
+
+      const response = await fetch(`https://api.telegram.org/file/bot${this.botToken}/${file.result.file_path}`);
+      if (!response.ok) {
+        console.error('Failed to download Telegram file:', response.status);
+        return null;
+      }
+
+      return {
+        data: Buffer.from(await response.arrayBuffer()),
+        mimeType: media.mimeType || response.headers.get('content-type') || 'application/octet-stream'
+      };
+    } catch (error) {
+      console.error('Error downloading Telegram media:', error);
+      return null;
+    }
+  }
+
+  async markAsRead(_message: InboundMessage): Promise<boolean> {
+    return false;
+  }
+}
+
+export const telegramChannel = new TelegramChannel();
@@ -0,0 +1,98 @@
+import type { IncomingHttpHeaders } from 'http';
+import type { InboundMessageMetadata, InboundMessageType, MediaAttachment } from '@shared/schema';
+
+export type ChannelType = 'whatsapp' | 'webchat' | 'email' | 'telegram';
+
+export interface InboundMessage {
+  id: string;
+  channel: ChannelType;
+  from: string; // Contact identifier on the channel, stored as conversations.externalId
+  recipient?: string; // Account the message was sent to (WhatsApp phone number id, web chat workspace slug)
+  type: InboundMessageType;
+  content: string;
+  timestamp: Date;
+  metadata: InboundMessageMetadata & Record<string, any>; // Typed per messageType, plus channel extras
+}
+
+export interface DownloadedMedia {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface ChannelContact {
+  name?: string;
+  handle: string; // Phone number or address shown as the conversation's contact
+}
+
+export interface SendResult {
+  sent: boolean;
+  externalMessageId?: string; // Provider id, matched against later delivery status callbacks
+}
+
+export interface InteractiveOption {
+  id: string; // Returned as the reply id when the contact taps the option
+  title: string;
+  description?: string;
+}
+
+/** Tappable answers attached to an outgoing question; channels without native support render them as text */
+export interface InteractivePrompt {
+  format: 'buttons' | 'list';
+  options: InteractiveOption[];
+  buttonText?: string; // Label of the button that opens a list picker
+}
+
+/** Sender identity for channels that host several accounts (one WhatsApp number per workspace) */
+export interface ChannelAccount {
+  phoneNumberId: string;
+  accessToken?: string; // Falls back to the env-configured token
+}
+
+export interface SendOptions {
+  interactive?: InteractivePrompt;
+  account?: ChannelAccount; // Defaults to the env-configured account
+}
+
+export interface DeliveryStatusUpdate {
+  externalMessageId: string;
+  status: 'sent' | 'delivered' | 'read' | 'failed';
+  timestamp: Date;
+  error?: string;
+}
+
+export interface WebhookRequest {
+  headers: IncomingHttpHeaders;
+  query: Record<string, any>;
+  body: any;
+  rawBody?: Buffer; // Exact request bytes, for signature checks
+}
+
+/**
+ * A transport the qualification pipeline can receive leads from and reply through.
+ * Implementations only translate payloads; they never touch metrics or decisions.
+ */
+export interface MessagingChannel {
+  readonly type: ChannelType;
+
+  /** Answers the provider's webhook verification handshake, or null when it fails */
+  verifySubscription(query: Record<string, any>): string | null;
+
+  /** Checks that an inbound webhook really comes from the provider */
+  authenticateWebhook(request: WebhookRequest): boolean;
+
+  /** Every message in a webhook payload, in delivery order; empty when it carries none */
+  parseInbound(payload: any): InboundMessage[];
+
+  /** Delivery receipts carried by a webhook payload; empty for channels without them */
+  parseStatusUpdates(payload: any): DeliveryStatusUpdate[];
+
+  sendMessage(to: string, message: string, options?: SendOptions): Promise<SendResult>;
+
+  getContactInfo(message: InboundMessage): Promise<ChannelContact>;
+
+  /** Fetches an inbound attachment's bytes; null when the channel cannot download it */
+  downloadMedia(media: MediaAttachment): Promise<DownloadedMedia | null>;
+
+  /** Optional read receipt; channels without receipts resolve to false */
+  markAsRead(message: InboundMessage): Promise<boolean>;
+}
@@ -0,0 +1,101 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { nanoid } from 'nanoid';
+import { websocketService } from '../websocket';
+import type { MediaAttachment } from '@shared/schema';
+import type { ChannelContact, DeliveryStatusUpdate, DownloadedMedia, InboundMessage, MessagingChannel, SendOptions, SendResult, WebhookRequest } from './types';
+
+// The site widget opens a session with POST /api/webhook/webchat/sessions, which returns { sessionId, token }.
+// It posts { sessionId, text, name?, email?, messageId?, optionId?, workspace? } with the token in X-WebChat-Token,
+// and sends { type: 'webchat_subscribe', data: { sessionId, token } } on /ws to receive the replies of that
+// session only. workspace is the slug of the brand hosting the widget.
+export interface WebChatSession {
+  sessionId: string;
+  token: string; // HMAC of the session id; whoever holds it speaks and listens as that visitor
+}
+
+export class WebChatChannel implements MessagingChannel {
+  readonly type = 'webchat' as const;
+  // Without a configured secret, sessions don't survive a restart and the widget opens a new one
+  private secret: string = process.env.WEBCHAT_SESSION_SECRET || randomBytes(32).toString('hex');
+
+  verifySubscription(_query: Record<string, any>): string | null {
+    return null;
+  }
+
+  authenticateWebhook(request: WebhookRequest): boolean {
+    const token = request.headers['x-webchat-token'];
+    return typeof token === 'string' && this.verifySession(request.body?.sessionId, token);
+  }
+
+  createSession(): WebChatSession {
+    const sessionId = nanoid();
+    return { sessionId, token: this.sign(sessionId) };
+  }
+
+  verifySession(sessionId: unknown, token: string): boolean {
+    if (typeof sessionId !== 'string' || !sessionId) return false;
+
+    const expected = Buffer.from(this.sign(sessionId));
+    const received = Buffer.from(token);
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  private sign(sessionId: string): string {
+    return createHmac('sha256', this.secret).update(sessionId).digest('hex');
+  }
+
+  parseInbound(payload: any): InboundMessage[] {
+    const sessionId = typeof payload?.sessionId === 'string' ? payload.sessionId.trim() : '';
+    const text = typeof payload?.text === 'string' ? payload.text.trim() : '';
+    // Widget buttons post back the option they rendered as { optionId, text: title }
+    const optionId = typeof payload?.optionId === 'string' ? payload.optionId : undefined;
+
+    if (!sessionId || !text) {
+      return [];
+    }
+
+    return [{
+      id: payload.messageId || nanoid(),
+      channel: this.type,
+      from: sessionId,
+      recipient: typeof payload.workspace === 'string' ? payload.workspace : undefined,
+      type: optionId ? 'interactive' : 'text',
+      content: text,
+      timestamp: new Date(),
+      metadata: {
+        ...(optionId ? { interactive: { type: 'quick_reply' as const, id: optionId, title: text } } : {}),
+        name: payload.name,
+        email: payload.email,
+        pageUrl: payload.pageUrl
+      }
+    }];
+  }
+
+  parseStatusUpdates(_payload: any): DeliveryStatusUpdate[] {
+    return [];
+  }
+
+  async sendMessage(to: string, message: string, options: SendOptions = {}): Promise<SendResult> {
+    const { interactive } = options;
+    const externalMessageId = nanoid();
+    await websocketService.sendWebChatMessage(to, message, interactive?.options);
+    return { sent: true, externalMessageId };
+  }
+
+  async getContactInfo(message: InboundMessage): Promise<ChannelContact> {
+    return {
+      name: message.metadata?.name || undefined,
+      handle: message.metadata?.email || `web:${message.from}`
+    };
+  }
+
+  async downloadMedia(_media: MediaAttachment): Promise<DownloadedMedia | null> {
+    return null;
+  }
+
+  async markAsRead(_message: InboundMessage): Promise<boolean> {
+    return false;
+  }
+}
+
+export const webChatChannel = new WebChatChannel();
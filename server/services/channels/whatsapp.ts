@@ -0,0 +1,96 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { whatsappService } from '../whatsapp';
+import type { MediaAttachment } from '@shared/schema';
+import type { ChannelContact, DeliveryStatusUpdate, DownloadedMedia, InboundMessage, MessagingChannel, SendOptions, SendResult, WebhookRequest } from './types';
+
+export class WhatsAppChannel implements MessagingChannel {
+  readonly type = 'whatsapp' as const;
+  private appSecret: string | undefined = process.env.WHATSAPP_APP_SECRET;
+
+  verifySubscription(query: Record<string, any>): string | null {
+    const mode = query['hub.mode'];
+    const token = query['hub.verify_token'];
+    const challenge = query['hub.challenge'];
+
+    if (mode === 'subscribe' && whatsappService.verifyWebhook(token as string)) {
+      return String(challenge);
+    }
+    return null;
+  }
+
+  // Meta signs every callback with the app secret: X-Hub-Signature-256: sha256=<hex HMAC of the raw body>.
+  // Without a secret only development accepts unsigned callbacks, since status callbacks change message rows.
+  authenticateWebhook(request: WebhookRequest): boolean {
+    if (!this.appSecret) {
+      return process.env.NODE_ENV !== 'production';
+    }
+
+    const signature = request.headers['x-hub-signature-256'];
+    if (typeof signature !== 'string' || !request.rawBody) {
+      return false;
+    }
+
+    const expected = Buffer.from(`sha256=${createHmac('sha256', this.appSecret).update(request.rawBody).digest('hex')}`);
+    const received = Buffer.from(signature);
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+
+  parseInbound(payload: any): InboundMessage[] {
+    return whatsappService.parseWebhookMessages(payload).map(message => ({
+      id: message.id,
+      channel: this.type,
+      from: message.from,
+      recipient: message.to || undefined,
+      type: message.type,
+      content: message.content,
+      timestamp: message.timestamp,
+      metadata: message.metadata
+    }));
+  }
+
+  parseStatusUpdates(payload: any): DeliveryStatusUpdate[] {
+    return whatsappService.parseStatusUpdates(payload).map(update => ({
+      externalMessageId: update.messageId,
+      status: update.status,
+      timestamp: update.timestamp,
+      error: update.error
+    }));
+  }
+
+  async sendMessage(to: string, message: string, options: SendOptions = {}): Promise<SendResult> {
+    const { interactive, account } = options;
+    const sender = account ? whatsappService.forAccount(account) : whatsappService;
+
+    let result;
+    if (interactive?.format === 'buttons') {
+      result = await sender.sendInteractiveButtons(to, message, interactive.options);
+    } else if (interactive?.format === 'list') {
+      result = await sender.sendInteractiveList(to, message, interactive.buttonText || 'Ver opciones', [
+        { rows: interactive.options }
+      ]);
+    } else {
+      result = await sender.sendTextMessage(to, message);
+    }
+    return { sent: result.success, externalMessageId: result.messageId };
+  }
+
+  async getContactInfo(message: InboundMessage): Promise<ChannelContact> {
+    const contactInfo = await whatsappService.getContactInfo(message.from);
+    const profileName = message.metadata?.contact?.profile?.name;
+
+    return {
+      name: contactInfo?.name || contactInfo?.profileName || profileName,
+      handle: whatsappService.formatPhoneNumber(message.from)
+    };
+  }
+
+  async downloadMedia(media: MediaAttachment): Promise<DownloadedMedia | null> {
+    return whatsappService.downloadMedia(media.id);
+  }
+
+  async markAsRead(message: InboundMessage): Promise<boolean> {
+    return whatsappService.markAsRead(message.id);
+  }
+}
+
+export const whatsappChannel = new WhatsAppChannel();
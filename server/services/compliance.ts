@@ -0,0 +1,228 @@
+// Outbound messaging compliance.
+// WhatsApp only delivers free-form messages inside the customer-service window, the 24 hours after the
+// contact's last inbound message. Outside it a send is converted into the approved fallback template,
+// or blocked when none is configured. A contact who writes an opt-out keyword (BAJA, STOP) gets the
+// conversation suppressed: every outbound path goes through send() or sendTemplate(), which refuse to
+// send anything until the contact opts back in (ALTA, START). Messages the bot sends are also refused
+// once a rep has taken the conversation over, even when that happened while the reply was being composed.
+
+import { storage } from '../storage';
+import { channelRegistry } from './channels';
+import { whatsappService } from './whatsapp';
+import { workspaceService } from './workspace';
+import { handoffService } from './handoff';
+import type { ChannelAccount, SendOptions } from './channels';
+import type { Conversation } from '@shared/schema';
+
+export interface ComplianceConfig {
+  sessionWindowHours: number;
+  optOutKeywords: string[];
+  optInKeywords: string[];
+  fallbackTemplate: string | null; // Replaces free-form text outside the window; its one parameter is the first name
+}
+
+export interface SessionWindow {
+  applies: boolean; // Only WhatsApp restricts free-form messages
+  lastInboundAt: Date | null;
+  expiresAt: Date | null;
+  open: boolean;
+  suppressed: boolean;
+}
+
+export type OutboundBlockReason = 'suppressed' | 'window_closed' | 'bot_inactive';
+
+export interface GuardedSendOptions extends SendOptions {
+  bot?: boolean; // Sent by the bot: refused while a rep owns the conversation or it is paused
+}
+
+export interface GuardedSendResult {
+  sent: boolean;
+  externalMessageId?: string;
+  content: string; // What went out: the text, or "Template: <name>" when it was converted
+  messageType: 'text' | 'interactive' | 'template';
+  templateName?: string;
+  blocked?: OutboundBlockReason;
+}
+
+export type ConsentKeyword = 'opt_out' | 'opt_in';
+
+export class OutboundBlockedError extends Error {
+  constructor(public reason: OutboundBlockReason) {
+    super(reason === 'suppressed'
+      ? 'The contact opted out of messages'
+      : reason === 'bot_inactive'
+        ? 'A rep has taken the conversation over or paused it'
+        : 'The 24h session window is closed and no fallback template is configured');
+    this.name = 'OutboundBlockedError';
+  }
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const OPT_OUT_CONFIRMATIONS: Record<string, string> = {
+  es: 'Listo, no te enviaremos más mensajes. Si cambias de opinión, escribe ALTA.',
+  en: "Done, you won't receive any more messages from us. Reply START if you change your mind."
+};
+
+function parseKeywords(value: string): string[] {
+  return value.split(',').map(normalizeKeyword).filter(Boolean);
+}
+
+/** Uppercase without accents or punctuation, so "¡Baja!" matches BAJA */
+function normalizeKeyword(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9 ]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export class ComplianceService {
+  private config: ComplianceConfig = {
+    sessionWindowHours: 24,
+    optOutKeywords: parseKeywords(process.env.OPT_OUT_KEYWORDS || 'BAJA,STOP,DARME DE BAJA,UNSUBSCRIBE'),
+    optInKeywords: parseKeywords(process.env.OPT_IN_KEYWORDS || 'ALTA,START'),
+    fallbackTemplate: process.env.SESSION_FALLBACK_TEMPLATE || null
+  };
+
+  /** Window computed from a known last inbound message */
+  windowFor(conversation: Conversation, lastInboundAt: Date | null | undefined, now: Date = new Date()): SessionWindow {
+    const applies = channelRegistry.forConversation(conversation).type === 'whatsapp';
+    const expiresAt = lastInboundAt ? new Date(lastInboundAt.getTime() + this.config.sessionWindowHours * HOUR_MS) : null;
+
+    return {
+      applies,
+      lastInboundAt: lastInboundAt || null,
+      expiresAt,
+      open: !applies || (expiresAt !== null && expiresAt > now),
+      suppressed: !!conversation.suppressed
+    };
+  }
+
+  async sessionWindow(conversation: Conversation, now: Date = new Date()): Promise<SessionWindow> {
+    return this.windowFor(conversation, await storage.getLastInboundAt(conversation.id), now);
+  }
+
+  /** Whole-message match only: "Baja" opts out, "¿el precio baja?" does not */
+  matchKeyword(text: string): ConsentKeyword | null {
+    const normalized = normalizeKeyword(text || '');
+    if (this.config.optOutKeywords.includes(normalized)) return 'opt_out';
+    if (this.config.optInKeywords.includes(normalized)) return 'opt_in';
+    return null;
+  }
+
+  /**
+   * Apply an opt-out or opt-in keyword from an inbound message.
+   * Returns the keyword when it changed the conversation's suppression, null otherwise.
+   */
+  async handleInbound(conversation: Conversation, text: string): Promise<ConsentKeyword | null> {
+    const keyword = this.matchKeyword(text);
+    if (!keyword || (keyword === 'opt_out') === !!conversation.suppressed) return null;
+
+    if (keyword === 'opt_in') {
+      await storage.updateConversation(conversation.id, { suppressed: false, suppressedAt: null });
+      conversation.suppressed = false;
+      conversation.suppressedAt = null;
+      return keyword;
+    }
+
+    // Confirm before suppressing: it is the last message the contact receives
+    await this.sendOptOutConfirmation(conversation);
+
+    const suppressedAt = new Date();
+    await storage.updateConversation(conversation.id, { suppressed: true, suppressedAt });
+    conversation.suppressed = true;
+    conversation.suppressedAt = suppressedAt;
+    return keyword;
+  }
+
+  /**
+   * Send free-form text to the conversation's contact.
+   * Never throws for compliance reasons: a refused send comes back with sent false and blocked set.
+   */
+  async send(conversation: Conversation, text: string, options: GuardedSendOptions = {}): Promise<GuardedSendResult> {
+    const { bot, ...sendOptions } = options;
+    const messageType = sendOptions.interactive ? 'interactive' : 'text';
+    if (conversation.suppressed) {
+      return this.blocked(conversation, 'suppressed', text, messageType);
+    }
+
+    // The bot's copy of the conversation may predate a rep's claim made while it composed the reply
+    if (bot) {
+      const current = await storage.getConversation(conversation.id);
+      if (!current || !handoffService.isBotActive(current)) {
+        return this.blocked(conversation, 'bot_inactive', text, messageType);
+      }
+    }
+
+    const window = await this.sessionWindow(conversation);
+    if (!window.open) {
+      if (!this.config.fallbackTemplate) {
+        return this.blocked(conversation, 'window_closed', text, messageType);
+      }
+      return this.sendTemplate(conversation, this.config.fallbackTemplate, [conversation.contactName.split(' ')[0]], sendOptions.account);
+    }
+
+    const result = await channelRegistry.forConversation(conversation).sendMessage(conversation.externalId, text, sendOptions);
+    return { ...result, content: text, messageType };
+  }
+
+  /** Send an approved WhatsApp template; templates are allowed outside the window but not to opted-out contacts */
+  async sendTemplate(
+    conversation: Conversation,
+    templateName: string,
+    parameters: string[],
+    account?: ChannelAccount
+  ): Promise<GuardedSendResult> {
+    const content = `Template: ${templateName}`;
+    if (conversation.suppressed) {
+      return { ...this.blocked(conversation, 'suppressed', content, 'template'), templateName };
+    }
+
+    const sender = account ? whatsappService.forAccount(account) : whatsappService;
+    const result = await sender.sendTemplate(
+      conversation.externalId,
+      templateName,
+      parameters,
+      whatsappService.templateLanguageFor(conversation.language || 'es', conversation.region)
+    );
+    return { sent: result.success, externalMessageId: result.messageId, content, messageType: 'template', templateName };
+  }
+
+  private blocked(
+    conversation: Conversation,
+    reason: OutboundBlockReason,
+    content: string,
+    messageType: GuardedSendResult['messageType']
+  ): GuardedSendResult {
+    console.warn(`Outbound message to conversation ${conversation.id} blocked: ${reason}`);
+    return { sent: false, content, messageType, blocked: reason };
+  }
+
+  private async sendOptOutConfirmation(conversation: Conversation): Promise<void> {
+    const workspace = await workspaceService.getForConversation(conversation);
+    const language = conversation.language || workspace.language || 'es';
+    const content = OPT_OUT_CONFIRMATIONS[language] || OPT_OUT_CONFIRMATIONS.es;
+
+    // The contact just wrote, so the window is open
+    const result = await channelRegistry.forConversation(conversation).sendMessage(conversation.externalId, content, {
+      account: workspaceService.channelAccount(workspace)
+    });
+    if (!result.sent) return;
+
+    await storage.addMessage({
+      conversationId: conversation.id,
+      whatsappMessageId: result.externalMessageId || null,
+      direction: 'outgoing',
+      content,
+      messageType: 'text',
+      deliveryStatus: 'sent',
+      deliveryStatusAt: new Date(),
+      metadata: { compliance: 'opt_out_confirmation' }
+    });
+  }
+}
+
+export const complianceService = new ComplianceService();
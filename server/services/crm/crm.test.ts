@@ -0,0 +1,292 @@
+import { createHmac } from 'crypto';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express, { type Express } from 'express';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { storage } from '../../storage';
+import { workspaceService } from '../workspace';
+import { leadBriefService } from '../lead-brief';
+import { crmService } from './index';
+import { hubspotAdapter } from './hubspot';
+import { pipedriveAdapter } from './pipedrive';
+import { createMockCrmApp, type MockCrmState } from './mock-server';
+import type { Conversation, CrmIntegration, Deal, Workspace } from '@shared/schema';
+
+let server: Server;
+let baseUrl: string;
+let state: MockCrmState;
+let mock: Express;
+let failNext: string | null = null; // Path the mock answers once with 503, as an outage would
+
+function integration(overrides: Partial<CrmIntegration>): CrmIntegration {
+  return {
+    id: 'integration-1',
+    name: 'Test CRM',
+    crmType: 'hubspot',
+    isActive: true,
+    authConfig: { accessToken: 'token' },
+    webhookUrl: null,
+    webhookSecret: 'webhook-secret',
+    apiBaseUrl: baseUrl,
+    fieldMappings: hubspotAdapter.defaultFieldMappings,
+    stageMapping: hubspotAdapter.defaultStageMapping,
+    syncErrors: [],
+    ...overrides
+  } as CrmIntegration;
+}
+
+const conversation = {
+  id: 'conversation-1',
+  workspaceId: null,
+  channel: 'whatsapp',
+  contactName: 'Ana García',
+  contactPhone: '+34600111222',
+  company: 'Acme SL',
+  region: 'ES',
+  language: 'es',
+  qualificationScore: 0.8,
+  messageCount: 12,
+  metadata: {}
+} as unknown as Conversation;
+
+beforeAll(async () => {
+  const app = express();
+  app.use((req, res, next) => {
+    if (req.path !== failNext) return mock(req, res, next);
+    failNext = null;
+    res.status(503).json({ message: 'Service unavailable' });
+  });
+
+  server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  state = { hubspot: { contacts: [], deals: [] }, pipedrive: { persons: [], deals: [] } };
+  mock = createMockCrmApp(state);
+  failNext = null;
+});
+
+describe('HubSpotAdapter', () => {
+  it('creates a contact once and finds it by phone afterwards', async () => {
+    const crm = integration({});
+    const first = await hubspotAdapter.upsertContact(crm, { firstname: 'Ana', phone: '+34600111222' });
+    const second = await hubspotAdapter.upsertContact(crm, { firstname: 'Ana', phone: '+34600111222' });
+
+    expect(second).toBe(first);
+    expect(state.hubspot.contacts).toHaveLength(1);
+  });
+
+  it('creates deals in the mapped stage associated to the contact and moves them', async () => {
+    const crm = integration({});
+    const contactId = await hubspotAdapter.upsertContact(crm, { phone: '+34600111222' });
+    const dealId = await hubspotAdapter.createDeal(crm, { dealname: 'Acme SL', amount: 12000 }, 'qualifiedtobuy', contactId);
+
+    const [deal] = state.hubspot.deals;
+    expect(deal.id).toBe(dealId);
+    expect(deal.properties).toMatchObject({ dealname: 'Acme SL', amount: 12000, dealstage: 'qualifiedtobuy', pipeline: 'default' });
+    expect(deal.associations[0].to.id).toBe(contactId);
+
+    await hubspotAdapter.updateDealStage(crm, dealId, 'closedwon');
+    expect(deal.properties.dealstage).toBe('closedwon');
+  });
+
+  it('surfaces API errors with their status', async () => {
+    await expect(hubspotAdapter.updateDealStage(integration({}), 'missing', 'closedwon'))
+      .rejects.toMatchObject({ name: 'CrmApiError', status: 404 });
+  });
+});
+
+describe('PipedriveAdapter', () => {
+  const crm = () => integration({
+    crmType: 'pipedrive',
+    apiBaseUrl: `${baseUrl}/v1`,
+    authConfig: { apiToken: 'token' },
+    fieldMappings: pipedriveAdapter.defaultFieldMappings,
+    stageMapping: { qualified: '2', closed_won: '5' }
+  });
+
+  it('creates a person once and finds it by phone afterwards', async () => {
+    const first = await pipedriveAdapter.upsertContact(crm(), { name: 'Ana', phone: '+34600111222' });
+    const second = await pipedriveAdapter.upsertContact(crm(), { name: 'Ana', phone: '+34600111222' });
+
+    expect(second).toBe(first);
+    expect(state.pipedrive.persons).toHaveLength(1);
+  });
+
+  it('creates deals linked to the person with numeric stage ids and moves them', async () => {
+    const personId = await pipedriveAdapter.upsertContact(crm(), { phone: '+34600111222' });
+    const dealId = await pipedriveAdapter.createDeal(crm(), { title: 'Acme SL', value: 12000 }, '2', personId);
+
+    const [deal] = state.pipedrive.deals;
+    expect(String(deal.id)).toBe(dealId);
+    expect(deal).toMatchObject({ title: 'Acme SL', value: 12000, stage_id: 2, person_id: Number(personId) });
+
+    await pipedriveAdapter.updateDealStage(crm(), dealId, '5');
+    expect(deal.stage_id).toBe(5);
+  });
+});
+
+describe('CrmService.pushConversation', () => {
+  let deals: Deal[];
+  let syncStatuses: string[];
+
+  beforeEach(() => {
+    deals = [];
+    syncStatuses = [];
+    vi.spyOn(storage, 'getDealsByConversation').mockImplementation(async id => deals.filter(d => d.conversationId === id));
+    vi.spyOn(storage, 'getLatestMetrics').mockResolvedValue(undefined);
+    // As the storage's reservation under its per-conversation lock
+    vi.spyOn(storage, 'reserveDeal').mockImplementation(async (values, staleBefore) => {
+      const existing = deals.find(d => d.conversationId === values.conversationId && d.crmIntegrationId === values.crmIntegrationId);
+      if (existing && (existing.crmDealId || (existing.crmPushStartedAt && existing.crmPushStartedAt > staleBefore))) {
+        return { deal: existing, claimed: false };
+      }
+      const deal = existing ?? { id: `deal-${deals.length + 1}`, ...values, crmDealId: null } as Deal;
+      if (!existing) deals.push(deal);
+      return { deal: Object.assign(deal, { crmPushStartedAt: new Date() }), claimed: true };
+    });
+    vi.spyOn(storage, 'updateDeal').mockImplementation(async (id, updates) => Object.assign(deals.find(d => d.id === id)!, updates));
+    vi.spyOn(storage, 'updateCrmSyncStatus').mockImplementation(async (_id, status) => { syncStatuses.push(status); });
+    vi.spyOn(workspaceService, 'getForConversation').mockResolvedValue({ id: 'default', name: 'Cronos', qualificationCriteria: {} } as Workspace);
+    // Deals go out without a brief when it cannot be generated
+    vi.spyOn(leadBriefService, 'generate').mockRejectedValue(new Error('no brief'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('pushes the contact and the deal with mapped fields and stage', async () => {
+    const deal = await crmService.pushConversation(conversation, integration({}));
+
+    expect(state.hubspot.contacts[0].properties).toMatchObject({ firstname: 'Ana García', phone: '+34600111222', company: 'Acme SL' });
+    expect(state.hubspot.deals[0].properties).toMatchObject({ dealname: expect.stringContaining('Acme SL'), dealstage: 'qualifiedtobuy' });
+    expect(deal).toMatchObject({ crmDealId: state.hubspot.deals[0].id, crmContactId: state.hubspot.contacts[0].id, pipelineStage: 'qualified' });
+    expect(syncStatuses).toEqual(['active']);
+  });
+
+  it('records the failure and succeeds on retry without duplicating the contact', async () => {
+    const crm = integration({});
+    failNext = '/crm/v3/objects/deals'; // The contact is created, then the deal call fails
+
+    await expect(crmService.pushConversation(conversation, crm)).rejects.toMatchObject({ name: 'CrmApiError', status: 503 });
+    expect(syncStatuses).toEqual(['error']);
+    expect(deals).toMatchObject([{ crmDealId: null, crmPushStartedAt: null }]);
+    expect(state.hubspot.contacts).toHaveLength(1);
+
+    const deal = await crmService.pushConversation(conversation, crm);
+
+    expect(state.hubspot.contacts).toHaveLength(1);
+    expect(state.hubspot.deals).toHaveLength(1);
+    expect(deal).toMatchObject({ crmDealId: state.hubspot.deals[0].id, crmContactId: state.hubspot.contacts[0].id });
+    expect(syncStatuses).toEqual(['error', 'active']);
+  });
+
+  it('returns the existing deal when the same conversation is pushed again', async () => {
+    const first = await crmService.pushConversation(conversation, integration({}));
+    const second = await crmService.pushConversation(conversation, integration({}));
+
+    expect(second).toBe(first);
+    expect(state.hubspot.deals).toHaveLength(1);
+  });
+
+  it('creates one CRM deal when the conversation is pushed from two places at once', async () => {
+    const [first, second] = await Promise.all([
+      crmService.pushConversation(conversation, integration({})),
+      crmService.pushConversation(conversation, integration({}))
+    ]);
+
+    expect(state.hubspot.deals).toHaveLength(1);
+    expect(second.id).toBe(first.id);
+    expect(deals).toHaveLength(1);
+  });
+
+  it('does not create the CRM deal again when storing its id failed', async () => {
+    vi.mocked(storage.updateDeal).mockRejectedValueOnce(new Error('connection lost'));
+
+    await expect(crmService.pushConversation(conversation, integration({}))).rejects.toThrow('connection lost');
+    await crmService.pushConversation(conversation, integration({}));
+
+    expect(state.hubspot.deals).toHaveLength(1);
+    expect(syncStatuses).toEqual(['error']);
+  });
+});
+
+describe('CrmService.handleWebhook', () => {
+  const body = JSON.stringify([{ subscriptionType: 'deal.propertyChange', objectId: 42, propertyName: 'amount', propertyValue: '15000', occurredAt: Date.now() }]);
+  const rawBody = Buffer.from(body);
+  const payload = JSON.parse(body);
+
+  beforeEach(() => {
+    vi.spyOn(storage, 'recordCrmWebhook').mockResolvedValue();
+    vi.spyOn(storage, 'getDealByCrmId').mockResolvedValue(undefined);
+  });
+
+  const request = (headers: Record<string, string>, raw: Buffer = rawBody) => ({
+    method: 'POST',
+    url: 'https://leads.example.com/api/webhook/crm/integration-1',
+    headers,
+    rawBody: raw
+  });
+
+  const signed = (secret = 'webhook-secret', timestamp = String(Date.now())) => ({
+    'x-signature-256': `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`,
+    'x-signature-timestamp': timestamp
+  });
+
+  it('accepts an X-Signature-256 HMAC of the timestamp and raw body', async () => {
+    const result = await crmService.handleWebhook(integration({}), request(signed()), payload);
+
+    expect(result.authenticated).toBe(true);
+    expect(storage.getDealByCrmId).toHaveBeenCalledWith('42', 'integration-1');
+  });
+
+  it('rejects a signature over different bytes than were received', async () => {
+    const reformatted = Buffer.from(JSON.stringify(payload, null, 2)); // Same JSON, other bytes
+    const result = await crmService.handleWebhook(integration({}), request(signed(), reformatted), payload);
+
+    expect(result).toEqual({ authenticated: false, processed: 0 });
+    expect(storage.getDealByCrmId).not.toHaveBeenCalled();
+  });
+
+  it('rejects signatures made with another secret', async () => {
+    const result = await crmService.handleWebhook(integration({}), request(signed('other-secret')), payload);
+
+    expect(result.authenticated).toBe(false);
+  });
+
+  it('rejects a replayed X-Signature-256 delivery and one signed without a timestamp', async () => {
+    const replayed = await crmService.handleWebhook(integration({}), request(signed('webhook-secret', String(Date.now() - 10 * 60 * 1000))), payload);
+    const bodyOnly = `sha256=${createHmac('sha256', 'webhook-secret').update(rawBody).digest('hex')}`;
+    const untimed = await crmService.handleWebhook(integration({}), request({ 'x-signature-256': bodyOnly }), payload);
+
+    expect(replayed.authenticated).toBe(false);
+    expect(untimed.authenticated).toBe(false);
+    expect(storage.getDealByCrmId).not.toHaveBeenCalled();
+  });
+
+  it('accepts HubSpot v3 signatures of method, URL, raw body and timestamp', async () => {
+    const timestamp = String(Date.now());
+    const url = 'https://leads.example.com/api/webhook/crm/integration-1';
+    const signature = createHmac('sha256', 'webhook-secret').update(`POST${url}${body}${timestamp}`).digest('base64');
+
+    const result = await crmService.handleWebhook(integration({}), request({
+      'x-hubspot-signature-v3': signature,
+      'x-hubspot-request-timestamp': timestamp
+    }), payload);
+
+    expect(result.authenticated).toBe(true);
+  });
+
+  it('accepts Pipedrive basic auth with the webhook secret as password', async () => {
+    const authorization = `Basic ${Buffer.from('pipedrive:webhook-secret').toString('base64')}`;
+    const crm = integration({ crmType: 'pipedrive' });
+
+    expect((await crmService.handleWebhook(crm, request({ authorization }), {})).authenticated).toBe(true);
+    expect((await crmService.handleWebhook(crm, request({ authorization: `Basic ${Buffer.from('pipedrive:wrong').toString('base64')}` }), {})).authenticated).toBe(false);
+  });
+});
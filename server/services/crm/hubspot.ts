@@ -0,0 +1,123 @@
+import { createHmac } from 'crypto';
+import type { CrmIntegration } from '@shared/schema';
+import { crmRequest, safeEqual, MAX_SIGNATURE_AGE_MS, type CrmAdapter, type CrmDealEvent, type CrmWebhookRequest } from './types';
+
+// Deal → contact association in HubSpot's default association types
+const DEAL_TO_CONTACT_ASSOCIATION = 3;
+
+// HubSpot CRM v3 objects API; authConfig: { accessToken, pipelineId? }
+export class HubSpotAdapter implements CrmAdapter {
+  readonly type = 'hubspot' as const;
+  readonly defaultApiBaseUrl = 'https://api.hubapi.com';
+
+  readonly defaultFieldMappings = {
+    contact: {
+      firstname: 'conversation.contactName',
+      phone: 'conversation.contactPhone',
+      company: 'conversation.company'
+    },
+    deal: {
+      dealname: 'deal.dealName',
+      amount: 'deal.predictedValue',
+      deal_currency_code: 'deal.dealCurrency',
+      description: 'deal.dealDescription'
+    }
+  };
+
+  // Stages of HubSpot's default sales pipeline
+  readonly defaultStageMapping = {
+    prospect: 'appointmentscheduled',
+    qualified: 'qualifiedtobuy',
+    proposal: 'presentationscheduled',
+    negotiation: 'contractsent',
+    closed_won: 'closedwon',
+    closed_lost: 'closedlost'
+  };
+
+  async upsertContact(integration: CrmIntegration, properties: Record<string, any>): Promise<string> {
+    const identity = ['email', 'phone'].find(property => properties[property]);
+
+    if (identity) {
+      const found = await this.request(integration, 'POST', '/crm/v3/objects/contacts/search', {
+        filterGroups: [{ filters: [{ propertyName: identity, operator: 'EQ', value: String(properties[identity]) }] }],
+        limit: 1
+      });
+      if (found.results?.length) return String(found.results[0].id);
+    }
+
+    const created = await this.request(integration, 'POST', '/crm/v3/objects/contacts', { properties });
+    return String(created.id);
+  }
+
+  async createDeal(integration: CrmIntegration, properties: Record<string, any>, stageId?: string, contactId?: string): Promise<string> {
+    const created = await this.request(integration, 'POST', '/crm/v3/objects/deals', {
+      properties: {
+        ...properties,
+        pipeline: this.auth(integration).pipelineId || 'default',
+        ...(stageId ? { dealstage: stageId } : {})
+      },
+      associations: contactId ? [{
+        to: { id: contactId },
+        types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: DEAL_TO_CONTACT_ASSOCIATION }]
+      }] : []
+    });
+    return String(created.id);
+  }
+
+  async updateDealStage(integration: CrmIntegration, crmDealId: string, stageId: string): Promise<void> {
+    await this.request(integration, 'PATCH', `/crm/v3/objects/deals/${encodeURIComponent(crmDealId)}`, {
+      properties: { dealstage: stageId }
+    });
+  }
+
+  /** v3 signature: base64 HMAC-SHA256 of method + URI + body + timestamp, keyed with the app secret */
+  verifyWebhook(integration: CrmIntegration, request: CrmWebhookRequest): boolean {
+    const signature = request.headers['x-hubspot-signature-v3'];
+    const timestamp = request.headers['x-hubspot-request-timestamp'];
+    if (!integration.webhookSecret || typeof signature !== 'string' || typeof timestamp !== 'string') return false;
+    if (Math.abs(Date.now() - Number(timestamp)) > MAX_SIGNATURE_AGE_MS) return false;
+
+    const expected = createHmac('sha256', integration.webhookSecret)
+      .update(`${request.method}${request.url}${request.rawBody.toString('utf8')}${timestamp}`)
+      .digest('base64');
+    return safeEqual(signature, expected);
+  }
+
+  // Deal property change subscriptions arrive as a batch of events
+  parseWebhook(payload: any): CrmDealEvent[] {
+    const events = Array.isArray(payload) ? payload : [payload];
+
+    return events
+      .filter(event => event?.subscriptionType === 'deal.propertyChange' && event.objectId)
+      .map((event): CrmDealEvent | null => {
+        const base = { crmDealId: String(event.objectId), occurredAt: new Date(event.occurredAt || Date.now()) };
+
+        switch (event.propertyName) {
+          case 'dealstage':
+            return { ...base, stageId: String(event.propertyValue) };
+          case 'amount':
+            return { ...base, value: Number(event.propertyValue) };
+          case 'closedate':
+            return { ...base, closeDate: new Date(isNaN(Number(event.propertyValue)) ? event.propertyValue : Number(event.propertyValue)) };
+          case 'closed_lost_reason':
+            return { ...base, lossReason: String(event.propertyValue) };
+          default:
+            return null;
+        }
+      })
+      .filter((event): event is CrmDealEvent => event !== null);
+  }
+
+  private auth(integration: CrmIntegration): { accessToken?: string; pipelineId?: string } {
+    return (integration.authConfig as Record<string, any>) || {};
+  }
+
+  private request(integration: CrmIntegration, method: string, path: string, body?: unknown) {
+    const baseUrl = (integration.apiBaseUrl || this.defaultApiBaseUrl).replace(/\/$/, '');
+    return crmRequest(this.type, `${baseUrl}${path}`, method, {
+      'Authorization': `Bearer ${this.auth(integration).accessToken || ''}`
+    }, body);
+  }
+}
+
+export const hubspotAdapter = new HubSpotAdapter();
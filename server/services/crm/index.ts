@@ -0,0 +1,373 @@
+// Pushes qualified conversations into the sales team's CRM as deals and keeps their stage in sync
+// both ways: dashboard moves are sent to the CRM, CRM changes arrive through signed webhooks.
+// Each integration row picks an adapter by crmType; its fieldMappings decide which of our values
+// fill which CRM properties and its stageMapping translates our pipeline stages to CRM stage ids.
+
+import { createHmac } from 'crypto';
+import { storage } from '../../storage';
+import { workspaceService } from '../workspace';
+import { leadBriefService } from '../lead-brief';
+import { hubspotAdapter } from './hubspot';
+import { pipedriveAdapter } from './pipedrive';
+import { safeEqual, MAX_SIGNATURE_AGE_MS, type CrmAdapter, type CrmDealEvent, type CrmWebhookRequest } from './types';
+import type {
+  Conversation,
+  ConversationMetrics,
+  CrmFieldMappings,
+  CrmIntegration,
+  CrmStageMapping,
+  CrmType,
+  Deal,
+  DealOutcome,
+  DealStage,
+  IcpEvaluation,
+  LeadBrief
+} from '@shared/schema';
+
+export * from './types';
+
+// Sync errors kept on the integration for the dashboard
+const MAX_SYNC_ERRORS = 10;
+
+const CLOSED_STAGES: DealStage[] = ['closed_won', 'closed_lost'];
+
+// A push that has not finished after this long is taken to have died; its reservation can be claimed again
+const PUSH_RESERVATION_MS = 10 * 60 * 1000;
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000));
+}
+
+/** 1 when actual matches predicted, falling linearly to 0 at 100% relative error */
+function relativeAccuracy(actual: number, predicted: number): number | null {
+  if (!predicted) return null;
+  return Math.max(0, 1 - Math.abs(actual - predicted) / predicted);
+}
+
+export class CrmService {
+  private adapters: Map<CrmType, CrmAdapter> = new Map();
+
+  constructor() {
+    [hubspotAdapter, pipedriveAdapter].forEach(adapter => this.register(adapter));
+  }
+
+  register(adapter: CrmAdapter): void {
+    this.adapters.set(adapter.type, adapter);
+  }
+
+  getAdapter(crmType: string): CrmAdapter | undefined {
+    return this.adapters.get(crmType as CrmType);
+  }
+
+  /** Integration as sent to the dashboard: credential names only, never their values */
+  toPublicIntegration(integration: CrmIntegration) {
+    const { authConfig, webhookSecret, ...publicIntegration } = integration;
+    return {
+      ...publicIntegration,
+      authConfigured: Object.keys((authConfig as Record<string, unknown>) || {}),
+      hasWebhookSecret: !!webhookSecret
+    };
+  }
+
+  /**
+   * Create the conversation's deal in the CRM (contact first, then the deal associated to it).
+   * The local deal is reserved first and gets its CRM ids once the CRM has it, so pushing the
+   * same conversation twice, or from two places at once, returns the existing deal.
+   */
+  async pushConversation(conversation: Conversation, integration: CrmIntegration): Promise<Deal> {
+    const existing = (await storage.getDealsByConversation(conversation.id))
+      .find(deal => deal.crmIntegrationId === integration.id);
+    if (existing?.crmDealId) return existing;
+
+    const adapter = this.requireAdapter(integration);
+    const metrics = await storage.getLatestMetrics(conversation.id);
+    const workspace = await workspaceService.getForConversation(conversation);
+    const icp = (conversation.metadata as Record<string, any> | null)?.icp as IcpEvaluation | undefined;
+
+    const stage: DealStage = 'qualified';
+    const brief = await this.briefFor(conversation);
+    const draft = {
+      dealName: `${conversation.company || conversation.contactName} - ${workspace.name}`,
+      dealDescription: icp
+        ? `ICP fit ${Math.round(icp.score * 100)}% (${icp.band || 'no band'}), qualified over ${conversation.channel}`
+        : `Qualified over ${conversation.channel}`,
+      predictedValue: this.estimateValue(icp, metrics),
+      dealCurrency: workspaceService.criteriaFor(workspace).currency,
+      predictedProbability: metrics?.advanceProbability || conversation.qualificationScore || 0,
+      pipelineStage: stage,
+      conversationSummary: brief ? leadBriefService.toMarkdown(brief) : null // Mappable as deal.conversationSummary
+    };
+
+    const values = this.sourceValues(conversation, draft, metrics, icp);
+    const mappings = integration.fieldMappings as CrmFieldMappings;
+    const stageId = (integration.stageMapping as CrmStageMapping)?.[stage];
+
+    const { deal: reserved, claimed } = await storage.reserveDeal({
+      ...draft,
+      conversationId: conversation.id,
+      crmIntegrationId: integration.id,
+      stageHistory: [{ from: null, to: stage, at: new Date().toISOString() }],
+      dealSource: `${conversation.channel}_qualification`,
+      qualificationConfidence: metrics?.qualificationConfidence ?? null,
+      industry: conversation.industryVertical,
+      region: conversation.region,
+      language: conversation.language,
+      engagementQuality: metrics?.engagementScore ?? null,
+      touchpointCount: conversation.messageCount || 0,
+      qualificationMetrics: metrics ? { ...metrics, icp } : icp ?? null,
+      metadata: brief ? { leadBrief: brief } : {}
+    }, new Date(Date.now() - PUSH_RESERVATION_MS));
+    if (!claimed) return reserved; // Already in the CRM, or another push is creating it
+
+    let crmDealId: string | undefined;
+    try {
+      const crmContactId = await adapter.upsertContact(integration, this.mapFields(mappings.contact, values));
+      crmDealId = await adapter.createDeal(integration, this.mapFields(mappings.deal, values), stageId, crmContactId);
+
+      const deal = await storage.updateDeal(reserved.id, { crmDealId, crmContactId, crmPushStartedAt: null });
+      await storage.updateCrmSyncStatus(integration.id, 'active');
+      return deal;
+    } catch (error) {
+      // Release the reservation for a retry unless the CRM already has the deal; then it holds retries off until stale
+      if (!crmDealId) await storage.updateDeal(reserved.id, { crmPushStartedAt: null });
+      const pushed = crmDealId ? ` after the CRM created deal ${crmDealId}` : '';
+      await this.recordSyncError(integration, `Push of conversation ${conversation.id} failed${pushed}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a deal along our pipeline and mirror the stage in the CRM when the stage is mapped.
+   * source says what moved it (dashboard, meeting); dashboard moves are validated by a human.
+   */
+  async moveDealToStage(deal: Deal, stage: DealStage, changedBy?: string, source: string = 'dashboard'): Promise<Deal> {
+    const integration = await storage.getCrmIntegration(deal.crmIntegrationId);
+    // A deal still being pushed is created in the CRM at its first stage; later moves are mirrored
+    const stageId = deal.crmDealId ? (integration?.stageMapping as CrmStageMapping | undefined)?.[stage] : undefined;
+
+    if (integration && stageId) {
+      try {
+        await this.requireAdapter(integration).updateDealStage(integration, deal.crmDealId!, stageId);
+      } catch (error) {
+        await this.recordSyncError(integration, `Stage update of deal ${deal.id} failed`, error);
+        throw error;
+      }
+    }
+
+    const updated = await this.applyStage(deal, stage, { source, changedBy, syncedToCrm: !!stageId });
+    await this.recordOutcome(updated, deal.pipelineStage, { source, changedBy }, source === 'dashboard' ? 'human' : source);
+    return updated;
+  }
+
+  /**
+   * Apply a signed webhook delivery from the CRM: move the deals it reports on and record
+   * how their outcome compares with what we predicted at qualification time.
+   */
+  async handleWebhook(integration: CrmIntegration, request: CrmWebhookRequest, payload: any): Promise<{ authenticated: boolean; processed: number }> {
+    const startedAt = Date.now();
+    const adapter = this.requireAdapter(integration);
+
+    if (!this.verifyWebhook(adapter, integration, request)) {
+      await storage.recordCrmWebhook(integration.id, false, Date.now() - startedAt);
+      return { authenticated: false, processed: 0 };
+    }
+
+    try {
+      // Value and date changes first, so an outcome recorded on a stage change in the same batch sees them
+      const events = adapter.parseWebhook(payload);
+      const ordered = [...events.filter(e => !e.stage && !e.stageId), ...events.filter(e => e.stage || e.stageId)];
+
+      let processed = 0;
+      for (const event of ordered) {
+        if (await this.applyWebhookEvent(integration, event)) processed++;
+      }
+
+      await storage.recordCrmWebhook(integration.id, true, Date.now() - startedAt);
+      return { authenticated: true, processed };
+    } catch (error) {
+      await storage.recordCrmWebhook(integration.id, false, Date.now() - startedAt);
+      await this.recordSyncError(integration, 'Webhook processing failed', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The CRM's native scheme, or (relays, custom CRMs) a hex HMAC-SHA256 of "{timestamp}.{body}" in
+   * X-Signature-256 with the Unix time in milliseconds in X-Signature-Timestamp; old timestamps are replays
+   */
+  private verifyWebhook(adapter: CrmAdapter, integration: CrmIntegration, request: CrmWebhookRequest): boolean {
+    if (!integration.webhookSecret) return false;
+    if (adapter.verifyWebhook(integration, request)) return true;
+
+    const signature = request.headers['x-signature-256'];
+    const timestamp = request.headers['x-signature-timestamp'];
+    if (typeof signature !== 'string' || typeof timestamp !== 'string' || !/^\d+$/.test(timestamp)) return false;
+    if (Math.abs(Date.now() - Number(timestamp)) > MAX_SIGNATURE_AGE_MS) return false;
+
+    const expected = createHmac('sha256', integration.webhookSecret).update(`${timestamp}.`).update(request.rawBody).digest('hex');
+    return safeEqual(signature, `sha256=${expected}`);
+  }
+
+  private async applyWebhookEvent(integration: CrmIntegration, event: CrmDealEvent): Promise<boolean> {
+    const deal = await storage.getDealByCrmId(event.crmDealId, integration.id);
+    if (!deal) return false; // Deal created in the CRM directly, not by us
+
+    const closedAt = event.closeDate || event.occurredAt;
+    const updates: Partial<Deal> = {};
+    if (event.value !== undefined && event.value !== deal.dealValue) updates.dealValue = event.value;
+    if (event.lossReason) updates.lossReason = event.lossReason;
+    if (event.closeDate && !CLOSED_STAGES.includes(deal.pipelineStage as DealStage)) updates.expectedCloseDate = event.closeDate;
+
+    let current = Object.keys(updates).length > 0 ? await storage.updateDeal(deal.id, updates) : deal;
+
+    const stage = event.stage || (event.stageId ? this.stageFor(integration, event.stageId) : undefined);
+    if (stage && stage !== current.pipelineStage) {
+      current = await this.applyStage(current, stage, { source: 'crm_webhook', crmStageId: event.stageId }, closedAt);
+      await this.recordOutcome(current, deal.pipelineStage, {
+        source: 'crm_webhook',
+        integrationId: integration.id,
+        crmType: integration.crmType,
+        crmStageId: event.stageId,
+        occurredAt: event.occurredAt.toISOString()
+      }, 'crm_webhook');
+    }
+
+    return true;
+  }
+
+  /** Our stage for a CRM stage id, through the integration's stage mapping */
+  private stageFor(integration: CrmIntegration, stageId: string): DealStage | undefined {
+    const mapping = (integration.stageMapping as CrmStageMapping) || {};
+    return (Object.keys(mapping) as DealStage[]).find(stage => mapping[stage] === stageId);
+  }
+
+  private async applyStage(deal: Deal, stage: DealStage, stageData: Record<string, unknown>, closedAt: Date = new Date()): Promise<Deal> {
+    const updated = await storage.updateDealStage(deal.id, stage, stageData);
+    if (!CLOSED_STAGES.includes(stage)) return updated;
+
+    return storage.updateDeal(deal.id, {
+      dealOutcome: stage === 'closed_won' ? 'won' : 'lost',
+      actualCloseDate: closedAt,
+      timeToClose: deal.createdAt ? daysBetween(deal.createdAt, closedAt) : null
+    });
+  }
+
+  /**
+   * Deal outcome row comparing what happened with the prediction made at qualification:
+   * value and budget for won deals, time to close and the qualification itself once closed
+   */
+  private async recordOutcome(deal: Deal, fromStage: string, context: Record<string, unknown>, validatedBy: string): Promise<DealOutcome> {
+    const stage = deal.pipelineStage as DealStage;
+    const won = stage === 'closed_won';
+    const closed = CLOSED_STAGES.includes(stage);
+    const snapshot = (deal.qualificationMetrics as Record<string, any>) || {};
+
+    const actualValue = won ? deal.dealValue || null : null;
+    const predictedValue = deal.predictedValue || 0;
+    const valueAccuracy = actualValue !== null ? relativeAccuracy(actualValue, predictedValue) : null;
+
+    const predictedTimeToClose = deal.predictedCloseDate && deal.createdAt
+      ? daysBetween(deal.createdAt, deal.predictedCloseDate)
+      : null;
+    const actualTimeToClose = closed ? deal.timeToClose ?? null : null;
+
+    return storage.saveDealOutcome({
+      dealId: deal.id,
+      conversationId: deal.conversationId,
+      outcomeType: won ? 'deal_closed' : stage === 'closed_lost' ? 'deal_lost' : 'stage_progression',
+      actualValue,
+      predictedValue,
+      predictionAccuracy: valueAccuracy,
+      predictionError: actualValue !== null ? actualValue - predictedValue : null,
+      actualTimeToClose,
+      predictedTimeToClose,
+      timingAccuracy: actualTimeToClose !== null && predictedTimeToClose !== null
+        ? relativeAccuracy(actualTimeToClose, Math.max(predictedTimeToClose, 1))
+        : null,
+      qualificationScore: deal.predictedProbability,
+      qualificationValidated: closed ? won : null,
+      qualificationAccuracy: closed ? (won ? deal.predictedProbability || 0 : 1 - (deal.predictedProbability || 0)) : null,
+      originalBudgetPrediction: predictedValue,
+      actualBudget: actualValue,
+      budgetAccuracy: valueAccuracy,
+      budgetConfidence: deal.qualificationConfidence,
+      culturalScore: snapshot.culturalScore ?? null,
+      communicationStyle: snapshot.communicationStyle ?? null,
+      outcomeContext: { ...context, fromStage, toStage: stage, lossReason: deal.lossReason },
+      validatedBy
+    });
+  }
+
+  /** Budget the lead stated (ICP fact), else the middle of the detected budget range */
+  private estimateValue(icp: IcpEvaluation | undefined, metrics: ConversationMetrics | undefined): number {
+    const statedBudget = icp?.facts?.['lead.budget'];
+    if (typeof statedBudget === 'number') return statedBudget;
+
+    if (metrics?.budgetRangeMax) {
+      return ((metrics.budgetRangeMin || 0) + metrics.budgetRangeMax) / 2;
+    }
+    return 0;
+  }
+
+  private sourceValues(
+    conversation: Conversation,
+    draft: Record<string, unknown>,
+    metrics: ConversationMetrics | undefined,
+    icp: IcpEvaluation | undefined
+  ): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+
+    Object.entries(conversation).forEach(([key, value]) => { values[`conversation.${key}`] = value; });
+    Object.entries(draft).forEach(([key, value]) => { values[`deal.${key}`] = value; });
+    Object.entries(metrics || {}).forEach(([key, value]) => { values[`metrics.${key}`] = value; });
+    Object.entries(icp?.facts || {}).forEach(([key, value]) => { values[key] = value; }); // Facts are already lead.* / metrics.* paths
+
+    return values;
+  }
+
+  /** Sales brief for the new deal; a failure is logged and the deal is pushed without it */
+  private async briefFor(conversation: Conversation): Promise<LeadBrief | null> {
+    try {
+      return await leadBriefService.generate(conversation);
+    } catch (error) {
+      console.error(`Lead brief for conversation ${conversation.id} failed:`, error);
+      return null;
+    }
+  }
+
+  /** CRM properties from a mapping; unset values are left out so the CRM keeps its defaults */
+  private mapFields(mapping: Record<string, string> = {}, values: Record<string, unknown>): Record<string, any> {
+    const properties: Record<string, any> = {};
+
+    Object.entries(mapping).forEach(([crmProperty, sourcePath]) => {
+      const value = values[sourcePath];
+      if (value !== undefined && value !== null && value !== '') {
+        properties[crmProperty] = value instanceof Date ? value.toISOString() : value;
+      }
+    });
+
+    return properties;
+  }
+
+  private requireAdapter(integration: CrmIntegration): CrmAdapter {
+    const adapter = this.getAdapter(integration.crmType);
+    if (!adapter) {
+      throw new Error(`No CRM adapter for ${integration.crmType}`);
+    }
+    return adapter;
+  }
+
+  private async recordSyncError(integration: CrmIntegration, context: string, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`${context}:`, message);
+
+    const errors = [
+      ...((integration.syncErrors as any[]) || []),
+      { at: new Date().toISOString(), context, message }
+    ].slice(-MAX_SYNC_ERRORS);
+
+    await storage.updateCrmSyncStatus(integration.id, 'error', errors);
+  }
+}
+
+export const crmService = new CrmService();
@@ -0,0 +1,89 @@
+// In-memory stand-in for the HubSpot and Pipedrive endpoints the adapters call, for tests and local
+// development: point an integration's apiBaseUrl at http://localhost:<port> (HubSpot) or
+// http://localhost:<port>/v1 (Pipedrive). Credentials are accepted without checking.
+
+import express, { type Express } from "express";
+import type { Server } from "http";
+
+export interface MockCrmState {
+  hubspot: { contacts: any[]; deals: any[] };
+  pipedrive: { persons: any[]; deals: any[] };
+}
+
+export function createMockCrmApp(state: MockCrmState = {
+  hubspot: { contacts: [], deals: [] },
+  pipedrive: { persons: [], deals: [] }
+}): Express {
+  const app = express();
+  app.use(express.json());
+  let nextId = 1;
+
+  // HubSpot CRM v3
+  app.post('/crm/v3/objects/contacts/search', (req, res) => {
+    const filter = req.body?.filterGroups?.[0]?.filters?.[0];
+    const results = filter
+      ? state.hubspot.contacts.filter(c => String(c.properties[filter.propertyName]) === filter.value)
+      : [];
+    res.json({ total: results.length, results: results.slice(0, req.body?.limit || 10) });
+  });
+
+  app.post('/crm/v3/objects/contacts', (req, res) => {
+    const contact = { id: String(nextId++), properties: req.body?.properties || {} };
+    state.hubspot.contacts.push(contact);
+    res.status(201).json(contact);
+  });
+
+  app.post('/crm/v3/objects/deals', (req, res) => {
+    const deal = { id: String(nextId++), properties: req.body?.properties || {}, associations: req.body?.associations || [] };
+    state.hubspot.deals.push(deal);
+    res.status(201).json(deal);
+  });
+
+  app.patch('/crm/v3/objects/deals/:id', (req, res) => {
+    const deal = state.hubspot.deals.find(d => d.id === req.params.id);
+    if (!deal) return res.status(404).json({ message: 'Object not found' });
+
+    Object.assign(deal.properties, req.body?.properties || {});
+    res.json(deal);
+  });
+
+  // Pipedrive v1
+  app.get('/v1/persons/search', (req, res) => {
+    const field = String(req.query.fields || 'phone');
+    const items = state.pipedrive.persons
+      .filter(p => [].concat(p[field] || []).some((value: any) => String(value?.value ?? value) === req.query.term))
+      .map(item => ({ result_score: 1, item }));
+    res.json({ success: true, data: { items } });
+  });
+
+  app.post('/v1/persons', (req, res) => {
+    const person = { id: nextId++, ...req.body };
+    state.pipedrive.persons.push(person);
+    res.status(201).json({ success: true, data: person });
+  });
+
+  app.post('/v1/deals', (req, res) => {
+    const deal = { id: nextId++, stage_id: 1, ...req.body };
+    state.pipedrive.deals.push(deal);
+    res.status(201).json({ success: true, data: deal });
+  });
+
+  app.put('/v1/deals/:id', (req, res) => {
+    const deal = state.pipedrive.deals.find(d => String(d.id) === req.params.id);
+    if (!deal) return res.status(404).json({ success: false, error: 'Deal not found' });
+
+    Object.assign(deal, req.body);
+    res.json({ success: true, data: deal });
+  });
+
+  // Inspect what the adapters sent
+  app.get('/__state', (_req, res) => res.json(state));
+
+  return app;
+}
+
+export function startMockCrmServer(port: number = 4010, state?: MockCrmState): Promise<Server> {
+  return new Promise(resolve => {
+    const server = createMockCrmApp(state).listen(port, () => resolve(server));
+  });
+}
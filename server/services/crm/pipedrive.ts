@@ -0,0 +1,95 @@
+import type { CrmIntegration, DealStage } from '@shared/schema';
+import { crmRequest, safeEqual, type CrmAdapter, type CrmDealEvent, type CrmWebhookRequest } from './types';
+
+const STAGE_BY_STATUS: Record<string, DealStage> = { won: 'closed_won', lost: 'closed_lost' };
+
+// Pipedrive v1 API; authConfig: { apiToken }. Stage ids are numeric and account specific,
+// so the stage mapping starts empty and deals land in the pipeline's first stage until it is set.
+export class PipedriveAdapter implements CrmAdapter {
+  readonly type = 'pipedrive' as const;
+  readonly defaultApiBaseUrl = 'https://api.pipedrive.com/v1';
+
+  readonly defaultFieldMappings = {
+    contact: {
+      name: 'conversation.contactName',
+      phone: 'conversation.contactPhone'
+    },
+    deal: {
+      title: 'deal.dealName',
+      value: 'deal.predictedValue',
+      currency: 'deal.dealCurrency'
+    }
+  };
+
+  readonly defaultStageMapping = {};
+
+  async upsertContact(integration: CrmIntegration, properties: Record<string, any>): Promise<string> {
+    const identity = ['email', 'phone'].find(property => properties[property]);
+
+    if (identity) {
+      const found = await this.request(integration, 'GET', '/persons/search', undefined, {
+        term: String(properties[identity]),
+        fields: identity,
+        exact_match: 'true',
+        limit: '1'
+      });
+      const match = found.data?.items?.[0]?.item;
+      if (match) return String(match.id);
+    }
+
+    const created = await this.request(integration, 'POST', '/persons', properties);
+    return String(created.data.id);
+  }
+
+  async createDeal(integration: CrmIntegration, properties: Record<string, any>, stageId?: string, contactId?: string): Promise<string> {
+    const created = await this.request(integration, 'POST', '/deals', {
+      ...properties,
+      ...(contactId ? { person_id: Number(contactId) } : {}),
+      ...(stageId ? { stage_id: Number(stageId) } : {})
+    });
+    return String(created.data.id);
+  }
+
+  async updateDealStage(integration: CrmIntegration, crmDealId: string, stageId: string): Promise<void> {
+    await this.request(integration, 'PUT', `/deals/${encodeURIComponent(crmDealId)}`, { stage_id: Number(stageId) });
+  }
+
+  /** Pipedrive webhooks authenticate with HTTP basic auth; the password is the webhook secret */
+  verifyWebhook(integration: CrmIntegration, request: CrmWebhookRequest): boolean {
+    const authorization = request.headers.authorization;
+    if (!integration.webhookSecret || !authorization?.startsWith('Basic ')) return false;
+
+    const credentials = Buffer.from(authorization.slice('Basic '.length), 'base64').toString('utf8');
+    const password = credentials.slice(credentials.indexOf(':') + 1);
+    return safeEqual(password, integration.webhookSecret);
+  }
+
+  // v1 payloads carry the deal in `current`, v2 in `data`
+  parseWebhook(payload: any): CrmDealEvent[] {
+    const entity = payload?.meta?.object || payload?.meta?.entity;
+    const deal = payload?.current || payload?.data;
+    if (entity !== 'deal' || !deal?.id) return [];
+
+    const closeTime = deal.won_time || deal.lost_time || deal.close_time;
+
+    return [{
+      crmDealId: String(deal.id),
+      stageId: deal.stage_id !== undefined ? String(deal.stage_id) : undefined,
+      stage: STAGE_BY_STATUS[deal.status],
+      value: typeof deal.value === 'number' ? deal.value : undefined,
+      closeDate: closeTime ? new Date(closeTime) : undefined,
+      lossReason: deal.lost_reason || undefined,
+      occurredAt: new Date(deal.update_time || payload.meta?.timestamp || Date.now())
+    }];
+  }
+
+  private request(integration: CrmIntegration, method: string, path: string, body?: unknown, query: Record<string, string> = {}) {
+    const baseUrl = (integration.apiBaseUrl || this.defaultApiBaseUrl).replace(/\/$/, '');
+    const apiToken = (integration.authConfig as Record<string, any>)?.apiToken || '';
+    const params = new URLSearchParams({ ...query, api_token: apiToken });
+
+    return crmRequest(this.type, `${baseUrl}${path}?${params}`, method, {}, body);
+  }
+}
+
+export const pipedriveAdapter = new PipedriveAdapter();
@@ -0,0 +1,82 @@
+import { timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import type { CrmFieldMappings, CrmIntegration, CrmStageMapping, CrmType, DealStage } from '@shared/schema';
+
+/** Non-2xx answer from a CRM API; the body is kept for the integration's sync errors */
+export class CrmApiError extends Error {
+  constructor(public status: number, public body: string, crmType: string) {
+    super(`${crmType} API responded ${status}: ${body.slice(0, 200)}`);
+    this.name = 'CrmApiError';
+  }
+}
+
+export interface CrmWebhookRequest {
+  method: string;
+  url: string; // Absolute URL the CRM called, part of some signature schemes
+  headers: IncomingHttpHeaders;
+  rawBody: Buffer;
+}
+
+/** One deal change reported by a CRM webhook */
+export interface CrmDealEvent {
+  crmDealId: string;
+  stageId?: string; // CRM stage id, translated back through the stage mapping
+  stage?: DealStage; // Set directly when the CRM reports won/lost independently of stages
+  value?: number;
+  closeDate?: Date;
+  lossReason?: string;
+  occurredAt: Date;
+}
+
+/**
+ * Translation between our deals and one CRM's REST API. Properties arrive already mapped
+ * through the integration's fieldMappings; stage ids through its stageMapping.
+ */
+export interface CrmAdapter {
+  readonly type: CrmType;
+  readonly defaultApiBaseUrl: string;
+  readonly defaultFieldMappings: CrmFieldMappings;
+  readonly defaultStageMapping: CrmStageMapping;
+
+  /** Find the contact by its identifying property (email or phone) or create it; returns the CRM id */
+  upsertContact(integration: CrmIntegration, properties: Record<string, any>): Promise<string>;
+  createDeal(integration: CrmIntegration, properties: Record<string, any>, stageId?: string, contactId?: string): Promise<string>;
+  updateDealStage(integration: CrmIntegration, crmDealId: string, stageId: string): Promise<void>;
+
+  /** The CRM's native webhook authentication, checked against the integration's webhookSecret */
+  verifyWebhook(integration: CrmIntegration, request: CrmWebhookRequest): boolean;
+  parseWebhook(payload: any): CrmDealEvent[];
+}
+
+// Signed webhook timestamps older than this (or as far ahead) are rejected as replays
+export const MAX_SIGNATURE_AGE_MS = 5 * 60 * 1000;
+
+export function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+export async function crmRequest<T = any>(
+  crmType: CrmType,
+  url: string,
+  method: string,
+  headers: Record<string, string> = {},
+  body?: unknown
+): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Accept': 'application/json',
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...headers
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined
+  });
+
+  if (!response.ok) {
+    throw new CrmApiError(response.status, await response.text(), crmType);
+  }
+
+  return response.status === 204 ? (undefined as T) : await response.json();
+}
@@ -0,0 +1,225 @@
+// Deal analytics rollups.
+// Every period row is a cohort: the deals created in that day, week or month (UTC), with their
+// current stage and outcome, next to the conversations started in the same period.
+// Deals keep closing after their period ends, so the job recomputes the recent periods on every run.
+// Revenue is attributed to the channel of the conversation that produced the deal and to who
+// qualified it (qualificationSource: ai, manual, hybrid).
+
+import { storage } from '../storage';
+import type { Deal, DealAnalytics, DealOutcome, InsertDealAnalytics } from '@shared/schema';
+
+export const ROLLUP_PERIODS = ['daily', 'weekly', 'monthly'] as const;
+export type RollupPeriod = typeof ROLLUP_PERIODS[number];
+
+export interface DealAnalyticsConfig {
+  intervalMs: number;
+  costPerConversation: number; // AI cost of one conversation, in the deal currency
+  lookback: Record<RollupPeriod, number>; // Periods recomputed on every run, including the current one
+}
+
+export interface SegmentPerformance {
+  deals: number;
+  won: number;
+  lost: number;
+  revenue: number;
+  conversionRate: number; // won / closed
+}
+
+type CohortDeal = { deal: Deal; channel: string; conversationStartedAt: Date | null };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAST_QUALIFIED_STAGES = ['proposal', 'negotiation', 'closed_won'];
+
+function mean(values: Array<number | null | undefined>): number {
+  const present = values.filter((v): v is number => typeof v === 'number');
+  return present.length > 0 ? present.reduce((sum, v) => sum + v, 0) / present.length : 0;
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+export class DealAnalyticsService {
+  private config: DealAnalyticsConfig = {
+    intervalMs: parseInt(process.env.ANALYTICS_ROLLUP_INTERVAL_MS || String(60 * 60 * 1000), 10),
+    costPerConversation: parseFloat(process.env.AI_COST_PER_CONVERSATION || '0.5'),
+    lookback: { daily: 14, weekly: 8, monthly: 6 }
+  };
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => console.error('Deal analytics rollup failed:', error));
+    }, this.config.intervalMs);
+
+    console.log('Deal analytics rollup job started');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Recompute the recent periods of every rollup type */
+  async runOnce(now: Date = new Date()): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+
+    try {
+      let rollups = 0;
+      for (const period of ROLLUP_PERIODS) {
+        let { start } = this.periodBounds(period, now);
+        for (let i = 0; i < this.config.lookback[period]; i++) {
+          const bounds = this.periodBounds(period, start);
+          await this.rollup(period, bounds.start, bounds.end);
+          rollups++;
+          start = new Date(bounds.start.getTime() - 1); // Step into the previous period
+        }
+      }
+      return rollups;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /** UTC period containing the date: day, ISO week (Monday start) or calendar month */
+  periodBounds(period: RollupPeriod, date: Date): { start: Date; end: Date } {
+    const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+    switch (period) {
+      case 'daily':
+        return { start: day, end: new Date(day.getTime() + DAY_MS - 1) };
+      case 'weekly': {
+        const start = new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+        return { start, end: new Date(start.getTime() + 7 * DAY_MS - 1) };
+      }
+      case 'monthly': {
+        const start = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1));
+        const next = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 1));
+        return { start, end: new Date(next.getTime() - 1) };
+      }
+    }
+  }
+
+  /** Compute and store the rollup of one period; on_demand rows cover an arbitrary window */
+  async rollup(analysisType: RollupPeriod | 'on_demand', periodStart: Date, periodEnd: Date, analyzedBy: string = 'system'): Promise<DealAnalytics> {
+    const cohort = await storage.getDealCohort(periodStart, periodEnd);
+    const funnel = await storage.getConversationFunnelCounts(periodStart, periodEnd);
+    const outcomes = await storage.getDealOutcomesForDeals(cohort.map(c => c.deal.id), ['deal_closed', 'deal_lost']);
+
+    const analytics: InsertDealAnalytics = {
+      periodStart,
+      periodEnd,
+      analysisType,
+      analyzedBy,
+      ...this.summarize(cohort, outcomes, funnel)
+    };
+
+    return analysisType === 'on_demand'
+      ? storage.saveDealAnalytics(analytics)
+      : storage.upsertDealAnalytics(analytics);
+  }
+
+  private summarize(
+    cohort: CohortDeal[],
+    outcomes: DealOutcome[],
+    funnel: { conversations: number; qualified: number }
+  ): Omit<InsertDealAnalytics, 'periodStart' | 'periodEnd' | 'analysisType'> {
+    const dealList = cohort.map(c => c.deal);
+    const won = dealList.filter(d => d.pipelineStage === 'closed_won');
+    const lost = dealList.filter(d => d.pipelineStage === 'closed_lost');
+    const closed = [...won, ...lost];
+
+    const totalRevenue = won.reduce((sum, d) => sum + (d.dealValue || 0), 0);
+    const expectedRevenue = (list: Deal[]) => list.reduce((sum, d) => sum + (d.predictedValue || 0) * (d.predictedProbability || 0), 0);
+    const closedExpectedRevenue = expectedRevenue(closed);
+
+    const aiRevenue = won
+      .filter(d => (d.qualificationSource || 'ai') === 'ai')
+      .reduce((sum, d) => sum + (d.dealValue || 0), 0);
+    const aiCost = funnel.conversations * this.config.costPerConversation;
+
+    const cycleTimes = cohort
+      .filter(c => c.conversationStartedAt && c.deal.actualCloseDate)
+      .map(c => (c.deal.actualCloseDate!.getTime() - c.conversationStartedAt!.getTime()) / DAY_MS);
+
+    return {
+      totalDeals: dealList.length,
+      dealsWon: won.length,
+      dealsLost: lost.length,
+      dealsPending: dealList.length - closed.length,
+
+      totalRevenue,
+      averageDealSize: ratio(totalRevenue, won.length),
+      totalPredictedRevenue: expectedRevenue(dealList),
+      // Same measure as dealOutcomes.predictionAccuracy, on the cohort's closed deals
+      revenueAccuracy: closedExpectedRevenue > 0 ? Math.max(0, 1 - Math.abs(totalRevenue - closedExpectedRevenue) / closedExpectedRevenue) : 0,
+
+      qualificationConversionRate: ratio(funnel.qualified, funnel.conversations),
+      proposalConversionRate: ratio(dealList.filter(d => this.reachedProposal(d)).length, dealList.length),
+      overallConversionRate: ratio(won.length, dealList.length),
+
+      qualificationAccuracy: mean(outcomes.map(o => o.qualificationAccuracy)),
+      predictionAccuracy: mean(outcomes.map(o => o.predictionAccuracy)),
+      timingAccuracy: mean(outcomes.map(o => o.timingAccuracy)),
+      budgetAccuracy: mean(outcomes.map(o => o.budgetAccuracy)),
+
+      culturalEffectiveness: mean(outcomes.map(o => o.culturalEffectiveness)),
+      regionalPerformance: this.segment(cohort, c => c.deal.region || 'unknown'),
+      languagePerformance: this.segment(cohort, c => c.deal.language || 'unknown'),
+
+      averageTimeToClose: mean(closed.map(d => d.timeToClose)),
+      averageResponseTime: mean(dealList.map(d => d.responseTime)),
+      averageCycleTime: mean(cycleTimes),
+
+      aiRoi: aiCost > 0 ? (aiRevenue - aiCost) / aiCost : 0,
+      costPerQualifiedLead: ratio(aiCost, funnel.qualified),
+      costPerClosedDeal: ratio(aiCost, won.length),
+
+      engagementQuality: mean(dealList.map(d => d.engagementQuality)),
+      leadQuality: mean(dealList.map(d => d.predictedProbability)),
+
+      industryPerformance: this.segment(cohort, c => c.deal.industry || 'unknown'),
+      companySizePerformance: this.segment(cohort, c => c.deal.companySize || 'unknown'),
+      sourcePerformance: this.segment(cohort, c => `${c.channel}/${c.deal.qualificationSource || 'ai'}`),
+
+      // Share of the cohort that has closed: later rollups of the period will still move
+      confidence: ratio(closed.length, dealList.length),
+      notes: `${funnel.conversations} conversations, ${funnel.qualified} qualified, AI cost ${aiCost.toFixed(2)}`
+    };
+  }
+
+  private reachedProposal(deal: Deal): boolean {
+    if (PAST_QUALIFIED_STAGES.includes(deal.pipelineStage)) return true;
+    return ((deal.stageHistory as Array<{ to?: string }>) || []).some(t => PAST_QUALIFIED_STAGES.includes(t.to || ''));
+  }
+
+  private segment(cohort: CohortDeal[], keyOf: (c: CohortDeal) => string): Record<string, SegmentPerformance> {
+    const segments: Record<string, SegmentPerformance> = {};
+
+    for (const entry of cohort) {
+      const key = keyOf(entry);
+      if (!segments[key]) segments[key] = { deals: 0, won: 0, lost: 0, revenue: 0, conversionRate: 0 };
+
+      const segment = segments[key];
+      segment.deals++;
+      if (entry.deal.pipelineStage === 'closed_won') {
+        segment.won++;
+        segment.revenue += entry.deal.dealValue || 0;
+      }
+      if (entry.deal.pipelineStage === 'closed_lost') segment.lost++;
+    }
+
+    for (const segment of Object.values(segments)) {
+      segment.conversionRate = ratio(segment.won, segment.won + segment.lost);
+    }
+    return segments;
+  }
+}
+
+export const dealAnalyticsService = new DealAnalyticsService();
@@ -3,12 +3,16 @@ import type {
   ConversationMetrics, 
   DecisionTrace, 
   InsertDecisionTrace,
+  Message,
   SituationAwarenessState 
 } from "@shared/schema";
 import { storage } from "../storage";
 import { learningService } from "./learning";
 import { xaiService } from "./xai";
 import { reasoningService } from "./reasoning";
+import { playbookService } from "./playbook";
+import { similarityService } from "./similarity";
+import { slotService } from "./slots";
 import { nanoid } from "nanoid";
 
 export interface QuestionCandidate {
@@ -24,11 +28,34 @@ export interface DecisionContext {
   conversationId: string;
   currentState: SituationAwarenessState;
   messageHistory: string[];
-  previousQuestions: string[];
+  previousQuestions: string[]; // Bare question texts of the latest outgoing messages
+  askedQuestionIds?: string[]; // Bank questions already sent in the conversation; never asked again
   conversationStage: 'early' | 'mid' | 'late';
+  workspaceId?: string; // Adds the workspace's own questions to the shared bank
+  language?: string;
+  region?: string; // The lead's, e.g. MX; selects the bank questions written for it
 }
 
+// Region the bank's questions are written for unless they name another (question_bank.region's default)
+const DEFAULT_QUESTION_REGION = 'ES';
+
 export class DecisionService {
+  /**
+   * What the agent already asked, from the conversation's messages (newest first, as storage
+   * returns them). Repeats are judged on the bank question each message carried, not on the
+   * greeting and acknowledgment the composer framed it in.
+   */
+  askedQuestions(messages: Message[]): Pick<DecisionContext, 'previousQuestions' | 'askedQuestionIds'> {
+    const outgoing = messages
+      .filter(m => m.direction === 'outgoing')
+      .map(m => ({ content: m.content, metadata: (m.metadata as { questionId?: string; rawQuestion?: string } | null) || {} }));
+
+    return {
+      previousQuestions: outgoing.slice(0, 5).map(m => m.metadata.rawQuestion || m.content),
+      askedQuestionIds: outgoing.map(m => m.metadata.questionId).filter((id): id is string => !!id)
+    };
+  }
+
   async selectOptimalQuestion(context: DecisionContext): Promise<QuestionCandidate | null> {
     const { conversationId, currentState, messageHistory } = context;
     
@@ -110,92 +137,41 @@ export class DecisionService {
     return selectedCandidate;
   }
 
-  private async getEligibleQuestions(context: DecisionContext): Promise<QuestionBank[]> {
-    const { currentState, previousQuestions, conversationStage } = context;
-    
-    // Get all active questions
-    const allQuestions = await storage.getQuestions(undefined, 'es', 'ES');
-    
-    // Filter based on eligibility criteria
-    return allQuestions.filter(question => {
-      // Don't repeat recent questions
-      if (previousQuestions.some(prev => 
-        this.questionsAreSimilar(prev, question.questionText))) {
-        return false;
-      }
-
-      // Stage-appropriate questions
-      if (!this.isStageAppropriate(question, conversationStage, currentState)) {
-        return false;
-      }
-
-      // Category-specific filtering
-      return this.isCategoryAppropriate(question, currentState);
-    });
+  /**
+   * Active questions of the workspace (and the shared bank) in the conversation's language, for
+   * its region: questions written for another region are left out, general ones are kept.
+   */
+  async availableQuestions(context: Pick<DecisionContext, 'workspaceId' | 'language' | 'region'>): Promise<QuestionBank[]> {
+    const { workspaceId, language = 'es', region = DEFAULT_QUESTION_REGION } = context;
+    const regions = [region.toUpperCase(), DEFAULT_QUESTION_REGION];
+
+    return (await storage.getQuestions(undefined, language, region, workspaceId))
+      .filter(question => !question.language || question.language === language)
+      .filter(question => !question.region || regions.includes(question.region.toUpperCase()));
   }
 
-  private questionsAreSimilar(q1: string, q2: string): boolean {
-    // Simple similarity check - in production, use more sophisticated NLP
-    const words1 = q1.toLowerCase().split(' ').filter(w => w.length > 3);
-    const words2 = q2.toLowerCase().split(' ').filter(w => w.length > 3);
-    
-    const commonWords = words1.filter(w => words2.includes(w));
-    return commonWords.length > Math.min(words1.length, words2.length) * 0.5;
-  }
-
-  private isStageAppropriate(
-    question: QuestionBank, 
-    stage: 'early' | 'mid' | 'late',
-    currentState: SituationAwarenessState
-  ): boolean {
-    const { category } = question;
+  private async getEligibleQuestions(context: DecisionContext): Promise<QuestionBank[]> {
+    const { conversationId, currentState, messageHistory, previousQuestions, askedQuestionIds = [], conversationStage, workspaceId } = context;
     
-    switch (stage) {
-      case 'early':
-        // Early stage: focus on engagement, needs, and basic qualification
-        return ['need', 'relationship', 'general', 'industry'].includes(category);
-      
-      case 'mid':
-        // Mid stage: technical details, authority, some budget exploration
-        return ['technical', 'authority', 'budget', 'timeline', 'process'].includes(category);
-      
-      case 'late':
-        // Late stage: budget, decision process, next steps
-        return ['budget', 'authority', 'timeline', 'decision', 'closing'].includes(category);
-      
-      default:
-        return true;
-    }
-  }
-
-  private isCategoryAppropriate(
-    question: QuestionBank,
-    currentState: SituationAwarenessState
-  ): boolean {
-    const { category } = question;
-    const { dimensions } = currentState;
-
-    switch (category) {
-      case 'budget':
-        // Only ask budget questions if engagement and trust are sufficient
-        return dimensions.engagement.score > 0.5 && 
-               dimensions.emotional.groups.trust.transparency > 0.4;
-      
-      case 'authority':
-        // Authority questions are generally safe but more effective mid-conversation
-        return currentState.messageCount > 3;
-      
-      case 'technical':
-        // Technical questions work best with technically inclined prospects
-        return dimensions.technical.score > 0.3 || currentState.messageCount < 5;
-      
-      case 'timeline':
-        // Timeline questions need some qualification foundation
-        return dimensions.qualification.score > 0.3;
-      
-      default:
-        return true;
-    }
+    // Get all active questions for the conversation's workspace, language and region
+    const allQuestions = await this.availableQuestions(context);
+
+    // Don't repeat recent questions, however they were worded, nor ask what the lead already told us
+    const [repeats, answered] = await Promise.all([
+      similarityService.findRepeats(allQuestions, previousQuestions),
+      similarityService.findAnswered(allQuestions, messageHistory)
+    ]);
+    const fresh = allQuestions.filter(question =>
+      !askedQuestionIds.includes(question.id) && !repeats.has(question.id) && !answered.has(question.id));
+
+    // Nor ask for facts already recorded in the conversation's slots
+    const conversation = await storage.getConversation(conversationId);
+    const open = slotService.filterQuestions(fresh, conversation);
+
+    // The active playbook decides which categories and questions are open at this point
+    const playbook = await playbookService.getActive(workspaceId);
+    const progress = playbookService.progressFor(conversation, playbook);
+    return playbookService.filterQuestions(open, playbook, progress, currentState, conversationStage);
   }
 
   private async calculateUtilityScore(
@@ -0,0 +1,153 @@
+// Firmographic lookups against a local CSV file, for offline setups and curated account lists.
+// Header row names the columns: name and domain, plus any of industry, employees (or employee_count),
+// revenue, country and city. The file is re-read when it changes on disk.
+
+import { promises as fs } from 'fs';
+import type { CompanyMatch, CompanyQuery, EnrichmentProvider, FirmographicRecord } from './types';
+
+interface CsvIndex {
+  mtimeMs: number;
+  byDomain: Map<string, FirmographicRecord>;
+  byName: Map<string, FirmographicRecord[]>;
+  size: number;
+}
+
+const COLUMN_ALIASES: Record<string, keyof FirmographicRecord> = {
+  name: 'name',
+  company: 'name',
+  domain: 'domain',
+  website: 'domain',
+  industry: 'industry',
+  employees: 'employeeCount',
+  employee_count: 'employeeCount',
+  revenue: 'revenue',
+  country: 'country',
+  city: 'city'
+};
+
+// Legal forms dropped before comparing names: "Acme, S.A. de C.V." is "acme"
+const LEGAL_FORMS = /\b(s\.?\s?a\.?\s?(de\s?c\.?\s?v\.?)?|s\.?\s?l\.?(u\.?)?|s\.?\s?a\.?\s?s\.?|ltda\.?|ltd\.?|inc\.?|llc|gmbh|corp\.?|co\.?)$/;
+
+export function normalizeCompanyName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[,]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(LEGAL_FORMS, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function normalizeDomain(domain: string): string {
+  return domain.toLowerCase().trim().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/.*$/, '');
+}
+
+/** One CSV line into cells; quoted cells may hold commas and doubled quotes */
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+export class CsvFirmographicProvider implements EnrichmentProvider {
+  readonly name = 'csv';
+  private index: CsvIndex | null = null;
+  private missingReported = false;
+
+  constructor(private path: string) {}
+
+  async lookupCompany(query: CompanyQuery): Promise<CompanyMatch | null> {
+    const index = await this.load();
+    if (!index) return null;
+
+    const byDomain = query.domain ? index.byDomain.get(normalizeDomain(query.domain)) : undefined;
+    if (byDomain) {
+      return { record: byDomain, matchedOn: 'domain', confidence: 0.9 };
+    }
+
+    // Names are ambiguous: prefer the lead's country and trust a match less when it differs
+    const candidates = query.name ? index.byName.get(normalizeCompanyName(query.name)) || [] : [];
+    const sameCountry = candidates.find(record => query.region && record.country === query.region);
+    const record = sameCountry || candidates[0];
+    if (!record) return null;
+
+    let confidence = sameCountry || !query.region || !record.country ? 0.7 : 0.4;
+    if (candidates.length > 1 && !sameCountry) confidence -= 0.1; // Several companies share the name
+    return { record, matchedOn: 'name', confidence };
+  }
+
+  async size(): Promise<number | null> {
+    return (await this.load())?.size ?? null;
+  }
+
+  private async load(): Promise<CsvIndex | null> {
+    let stat;
+    try {
+      stat = await fs.stat(this.path);
+    } catch {
+      if (!this.missingReported) console.warn(`Enrichment CSV ${this.path} not found`);
+      this.missingReported = true;
+      this.index = null;
+      return null;
+    }
+    this.missingReported = false;
+    if (this.index && this.index.mtimeMs === stat.mtimeMs) return this.index;
+
+    const lines = (await fs.readFile(this.path, 'utf8')).split(/\r?\n/).filter(line => line.trim());
+    const header = parseCsvLine(lines[0] || '').map(column => COLUMN_ALIASES[column.toLowerCase()]);
+    const index: CsvIndex = { mtimeMs: stat.mtimeMs, byDomain: new Map(), byName: new Map(), size: 0 };
+
+    for (const line of lines.slice(1)) {
+      const cells = parseCsvLine(line);
+      const record: Partial<Record<keyof FirmographicRecord, string>> = {};
+      header.forEach((field, column) => {
+        if (field && cells[column]) record[field] = cells[column];
+      });
+      if (!record.name) continue;
+
+      const parsed: FirmographicRecord = {
+        name: record.name,
+        domain: record.domain ? normalizeDomain(record.domain) : undefined,
+        industry: record.industry,
+        employeeCount: record.employeeCount ? parseInt(record.employeeCount, 10) || undefined : undefined,
+        revenue: record.revenue ? parseFloat(record.revenue) || undefined : undefined,
+        country: record.country?.toUpperCase(),
+        city: record.city
+      };
+
+      if (parsed.domain) index.byDomain.set(parsed.domain, parsed);
+      const key = normalizeCompanyName(parsed.name);
+      index.byName.set(key, [...(index.byName.get(key) || []), parsed]);
+      index.size++;
+    }
+
+    this.index = index;
+    return index;
+  }
+}
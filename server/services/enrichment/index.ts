@@ -0,0 +1,262 @@
+// Lead enrichment: what we can tell about a lead before they tell us.
+// A new conversation only has the contact's handle. The phone's calling code gives the region,
+// company addresses and websites in the lead's messages (email signatures, "www.acme.mx") give
+// the company domain, and firmographic providers turn a domain or company name into industry,
+// size and revenue. Every field keeps its provenance and confidence in conversations.metadata.enrichment;
+// confident values also fill the empty conversation columns and the company's knowledge-graph node.
+// Providers are pluggable (see ./types); a local CSV dataset is configured with ENRICHMENT_CSV_PATH.
+
+import { storage } from '../../storage';
+import { workspaceService } from '../workspace';
+import { knowledgeGraphService } from '../knowledge-graph';
+import { CsvFirmographicProvider, normalizeDomain } from './csv';
+import { regionFromPhone } from './phone';
+import type { CompanyMatch, EnrichmentProvider } from './types';
+import type {
+  Conversation,
+  ConversationEnrichment,
+  EnrichedValue,
+  EnrichmentField,
+  EnrichmentProvenance,
+  EnrichmentSource,
+  EntityAttributes
+} from '@shared/schema';
+
+export * from './types';
+export { CsvFirmographicProvider } from './csv';
+export { regionFromPhone } from './phone';
+
+export interface EnrichmentConfig {
+  enabled: boolean;
+  minColumnConfidence: number; // Below this a value stays in metadata and leaves the columns alone
+}
+
+// Personal mailboxes say nothing about the company
+const FREE_MAIL_PROVIDERS = new Set([
+  'gmail', 'googlemail', 'hotmail', 'outlook', 'live', 'msn', 'yahoo', 'ymail', 'icloud', 'me', 'mac',
+  'aol', 'protonmail', 'proton', 'gmx', 'yandex', 'mail', 'zoho', 'terra', 'uol', 'bol', 'prodigy', 'telefonica'
+]);
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@((?:[a-z0-9-]+\.)+[a-z]{2,})/gi;
+const WEBSITE_PATTERN = /(?:https?:\/\/|\bwww\.)((?:[a-z0-9-]+\.)+[a-z]{2,})/gi;
+
+// Second-level labels of country domains: acme.com.mx registers "acme"
+const SECOND_LEVEL_LABELS = new Set(['com', 'co', 'net', 'org', 'gob', 'gov', 'edu', 'ac']);
+
+interface DomainEvidence {
+  domain: string;
+  source: EnrichmentSource;
+  evidence: string;
+  confidence: number;
+}
+
+export class EnrichmentService {
+  private providers: EnrichmentProvider[] = [];
+  private config: EnrichmentConfig = {
+    enabled: process.env.ENRICHMENT_ENABLED !== 'false',
+    minColumnConfidence: parseFloat(process.env.ENRICHMENT_MIN_CONFIDENCE || '0.6')
+  };
+
+  constructor() {
+    if (process.env.ENRICHMENT_CSV_PATH) {
+      this.register(new CsvFirmographicProvider(process.env.ENRICHMENT_CSV_PATH));
+    }
+  }
+
+  register(provider: EnrichmentProvider): void {
+    this.providers = [...this.providers.filter(p => p.name !== provider.name), provider];
+  }
+
+  async getProviders(): Promise<Array<{ name: string; records: number | null }>> {
+    return Promise.all(this.providers.map(async provider => ({ name: provider.name, records: await provider.size() })));
+  }
+
+  /**
+   * Enrich the conversation with what its handle and the given message texts reveal.
+   * Updates the conversation object in place, so later steps of the same turn see the result.
+   * Returns null when nothing changed; failures are logged so they never block the reply.
+   * force starts over, running provider lookups again.
+   */
+  async enrichConversation(
+    conversation: Conversation,
+    texts: string[] = [],
+    options: { force?: boolean } = {}
+  ): Promise<ConversationEnrichment | null> {
+    if (!this.config.enabled) return null;
+
+    try {
+      const metadata = (conversation.metadata as Record<string, any> | null) || {};
+      const previous = options.force ? undefined : metadata.enrichment as ConversationEnrichment | undefined;
+      const fields: ConversationEnrichment['fields'] = { ...previous?.fields };
+      const lookups = new Set(previous?.lookups || []);
+      const now = new Date().toISOString();
+      const set = (field: EnrichmentField, value: string | number | undefined | null, provenance: Omit<EnrichmentProvenance, 'enrichedAt'>) => {
+        if (value === undefined || value === null || value === '') return;
+        if ((fields[field]?.confidence || 0) > provenance.confidence) return;
+        fields[field] = { value, ...provenance, enrichedAt: fields[field]?.value === value ? fields[field]!.enrichedAt : now };
+      };
+
+      // Region from the calling code; only real phone numbers, not Telegram or webchat ids
+      const phone = conversation.channel === 'whatsapp' || /^\+/.test(conversation.contactPhone || '')
+        ? regionFromPhone(conversation.contactPhone || conversation.externalId)
+        : null;
+      if (phone) {
+        set('region', phone.region, { source: 'phone_prefix', evidence: phone.callingCode, confidence: phone.confidence });
+      }
+
+      const domain = this.domainEvidence(conversation, texts);
+      if (domain) {
+        set('domain', domain.domain, { source: domain.source, evidence: domain.evidence, confidence: domain.confidence });
+      }
+
+      const match = await this.lookup(conversation, fields, lookups);
+      if (match) {
+        const provenance = { source: 'provider' as const, provider: match.provider, evidence: `${match.matchedOn}:${match.query}`, confidence: match.confidence };
+        set('company', match.record.name, provenance);
+        set('domain', match.record.domain, provenance);
+        set('industry', match.record.industry, provenance);
+        set('employeeCount', match.record.employeeCount, provenance);
+        set('revenue', match.record.revenue, provenance);
+        set('city', match.record.city, provenance);
+        set('region', match.record.country, { ...provenance, confidence: Math.min(provenance.confidence, 0.5) }); // Headquarters, not the lead
+      }
+
+      // No provider knows the company: its domain is a weak hint of its name
+      if (!fields.company && fields.domain) {
+        set('company', this.nameFromDomain(String(fields.domain.value)), {
+          source: 'domain_name',
+          evidence: String(fields.domain.value),
+          confidence: Math.min(fields.domain.confidence, 0.4)
+        });
+      }
+
+      const enrichment: ConversationEnrichment = { fields, lookups: Array.from(lookups), updatedAt: now };
+      if (previous && JSON.stringify(previous.fields) === JSON.stringify(fields) && previous.lookups.length === lookups.size) {
+        return null;
+      }
+
+      await this.save(conversation, enrichment, previous);
+      return enrichment;
+    } catch (error) {
+      console.error(`Enrichment failed for conversation ${conversation.id}:`, error);
+      return null;
+    }
+  }
+
+  /** Company domain from the contact's own address or from addresses and websites in their messages */
+  private domainEvidence(conversation: Conversation, texts: string[]): DomainEvidence | null {
+    if (conversation.channel === 'email') {
+      const own = /@([^@\s>]+)$/.exec(conversation.externalId || '');
+      if (own && this.isCompanyDomain(own[1])) {
+        return { domain: normalizeDomain(own[1]), source: 'email_address', evidence: conversation.externalId, confidence: 0.9 };
+      }
+    }
+
+    for (const text of texts) {
+      for (const [pattern, source, confidence] of [
+        [EMAIL_PATTERN, 'email_signature', 0.75],
+        [WEBSITE_PATTERN, 'website', 0.6]
+      ] as Array<[RegExp, EnrichmentSource, number]>) {
+        const found = Array.from((text || '').matchAll(pattern)).find(match => this.isCompanyDomain(match[1]));
+        if (found) {
+          return { domain: this.registrableDomain(found[1]), source, evidence: found[0], confidence };
+        }
+      }
+    }
+    return null;
+  }
+
+  /** First provider match for the domain, else the company name; each query runs once per conversation */
+  private async lookup(
+    conversation: Conversation,
+    fields: ConversationEnrichment['fields'],
+    lookups: Set<string>
+  ): Promise<(CompanyMatch & { provider: string; query: string }) | null> {
+    const region = fields.region ? String(fields.region.value) : conversation.region || undefined;
+    const queries = [
+      fields.domain ? { key: `domain:${fields.domain.value}`, query: { domain: String(fields.domain.value), region } } : null,
+      conversation.company ? { key: `name:${conversation.company.toLowerCase()}`, query: { name: conversation.company, region } } : null
+    ];
+
+    for (const candidate of queries) {
+      if (!candidate || lookups.has(candidate.key)) continue;
+      lookups.add(candidate.key);
+
+      for (const provider of this.providers) {
+        const match = await provider.lookupCompany(candidate.query);
+        if (match) {
+          return { ...match, provider: provider.name, query: candidate.key.slice(candidate.key.indexOf(':') + 1) };
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Store the enrichment and fill columns that are empty or still hold a guess: the region
+   * defaults to the workspace's at creation. The company node gets the provider's firmographics.
+   */
+  private async save(conversation: Conversation, enrichment: ConversationEnrichment, previous?: ConversationEnrichment): Promise<void> {
+    const workspace = await workspaceService.getForConversation(conversation);
+    const confident = (value?: EnrichedValue) => value && value.confidence >= this.config.minColumnConfidence ? value : undefined;
+    const { region, company, industry } = enrichment.fields;
+    const updates: Partial<Conversation> = {};
+
+    const guessedRegion = !conversation.region
+      || conversation.region === (workspace.region || 'ES')
+      || conversation.region === previous?.fields.region?.value;
+    if (confident(region) && guessedRegion) updates.region = String(region!.value);
+    if (confident(company) && !conversation.company) updates.company = String(company!.value);
+    if (confident(industry) && !conversation.industryVertical) updates.industryVertical = String(industry!.value);
+
+    Object.assign(conversation, await storage.mergeConversationMetadata(conversation.id, { enrichment }, updates));
+
+    if (confident(company) && company!.source === 'provider') {
+      await knowledgeGraphService.recordCompanyEnrichment(
+        conversation,
+        String(company!.value),
+        this.companyAttributes(enrichment),
+        company!.confidence
+      );
+    }
+  }
+
+  private companyAttributes(enrichment: ConversationEnrichment): EntityAttributes {
+    const attributes: EntityAttributes = { provenance: {} };
+    const keys: Partial<Record<EnrichmentField, keyof EntityAttributes>> = {
+      domain: 'domain',
+      industry: 'industry',
+      employeeCount: 'employeeCount',
+      revenue: 'revenue',
+      city: 'city'
+    };
+
+    Object.entries(keys).forEach(([field, attribute]) => {
+      const value = enrichment.fields[field as EnrichmentField];
+      if (!value || !attribute) return;
+      const { value: raw, ...provenance } = value;
+      (attributes as Record<string, unknown>)[attribute] = raw;
+      attributes.provenance![attribute] = provenance;
+    });
+    return attributes;
+  }
+
+  private isCompanyDomain(domain: string): boolean {
+    const labels = this.registrableDomain(domain).split('.');
+    return labels.length >= 2 && !FREE_MAIL_PROVIDERS.has(labels[0]);
+  }
+
+  /** mail.acme.com.mx → acme.com.mx */
+  private registrableDomain(domain: string): string {
+    const labels = normalizeDomain(domain).split('.');
+    const keep = labels.length >= 3 && SECOND_LEVEL_LABELS.has(labels[labels.length - 2]) ? 3 : 2;
+    return labels.slice(-keep).join('.');
+  }
+
+  /** acme-logistica.com.mx → "Acme Logistica" */
+  private nameFromDomain(domain: string): string {
+    return domain.split('.')[0].split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+  }
+}
+
+export const enrichmentService = new EnrichmentService();
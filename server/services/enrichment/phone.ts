@@ -0,0 +1,66 @@
+// Country of a phone number from its calling code.
+// WhatsApp ids are the full international number without "+", other channels may keep the
+// "+" or an "00" prefix; both are accepted. Longest prefix wins, so +1 809 is the Dominican
+// Republic and not the United States.
+
+export interface PhoneRegion {
+  region: string; // ISO country code
+  callingCode: string; // "+52", "+1 809"
+  confidence: number;
+}
+
+// Calling code (digits, NANP area codes included) → ISO country code
+const CALLING_CODES: Record<string, string> = {
+  '34': 'ES',
+  '351': 'PT',
+  '52': 'MX',
+  '54': 'AR',
+  '55': 'BR',
+  '56': 'CL',
+  '57': 'CO',
+  '58': 'VE',
+  '51': 'PE',
+  '53': 'CU',
+  '591': 'BO',
+  '593': 'EC',
+  '595': 'PY',
+  '598': 'UY',
+  '502': 'GT',
+  '503': 'SV',
+  '504': 'HN',
+  '505': 'NI',
+  '506': 'CR',
+  '507': 'PA',
+  '1809': 'DO',
+  '1829': 'DO',
+  '1849': 'DO',
+  '1787': 'PR',
+  '1939': 'PR',
+  '1': 'US',
+  '44': 'GB',
+  '49': 'DE',
+  '33': 'FR',
+  '39': 'IT'
+};
+
+// +1 is shared by the US, Canada and the Caribbean; without a known area code it is a guess
+const SHARED_CODES = new Set(['1']);
+
+export function regionFromPhone(phone: string | null | undefined): PhoneRegion | null {
+  const raw = (phone || '').trim();
+  const digits = raw.replace(/[\s().-]/g, '').replace(/^\+/, '').replace(/^00/, '');
+  if (!/^\d{8,15}$/.test(digits)) return null;
+
+  for (let length = 4; length >= 1; length--) {
+    const prefix = digits.slice(0, length);
+    const region = CALLING_CODES[prefix];
+    if (region) {
+      return {
+        region,
+        callingCode: prefix.length === 4 && prefix.startsWith('1') ? `+1 ${prefix.slice(1)}` : `+${prefix}`,
+        confidence: SHARED_CODES.has(prefix) ? 0.6 : 0.95
+      };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,34 @@
+/** What is known about the lead's company when a provider is asked */
+export interface CompanyQuery {
+  domain?: string; // Registrable domain, lowercase: acme.mx
+  name?: string;
+  region?: string; // ISO country code of the lead
+}
+
+/** One company in a firmographic dataset */
+export interface FirmographicRecord {
+  name: string;
+  domain?: string;
+  industry?: string;
+  employeeCount?: number;
+  revenue?: number;
+  country?: string; // ISO country code
+  city?: string;
+}
+
+export interface CompanyMatch {
+  record: FirmographicRecord;
+  matchedOn: 'domain' | 'name';
+  confidence: number; // 0-1, how sure the provider is that the record is the lead's company
+}
+
+/**
+ * Source of company data. Providers run in registration order and the first match wins,
+ * so local datasets can sit in front of paid APIs.
+ */
+export interface EnrichmentProvider {
+  readonly name: string;
+  lookupCompany(query: CompanyQuery): Promise<CompanyMatch | null>;
+  /** Records available, for the dashboard; null when the provider cannot tell */
+  size(): Promise<number | null>;
+}
@@ -9,6 +9,7 @@ export interface ExperimentConfig {
   name: string;
   description: string;
   experimentType: 'decision_policy' | 'learning_algorithm' | 'cultural_context' | 'budget_detection';
+  workspaceId?: string; // Runs across every workspace when omitted
   primaryMetric: string;
   secondaryMetrics?: string[];
   
@@ -89,6 +90,7 @@ export class ExperimentService {
       name: config.name,
       description: config.description,
       experimentType: config.experimentType,
+      workspaceId: config.workspaceId ?? null,
       status: 'draft',
       
       // Configuration
@@ -281,6 +283,7 @@ export class ExperimentService {
     status?: string;
     experimentType?: string;
     createdBy?: string;
+    workspaceId?: string;
   }): Promise<Experiment[]> {
     // For now, get all experiments and filter in memory
     // In production, this would be done at the database level
@@ -292,6 +295,7 @@ export class ExperimentService {
       if (filters.status && exp.status !== filters.status) return false;
       if (filters.experimentType && exp.experimentType !== filters.experimentType) return false;
       if (filters.createdBy && exp.createdBy !== filters.createdBy) return false;
+      if (filters.workspaceId && exp.workspaceId && exp.workspaceId !== filters.workspaceId) return false;
       return true;
     });
   }
@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { storage } from '../storage';
+import { complianceService } from './compliance';
+import { followUpService } from './follow-up';
+import { workspaceService } from './workspace';
+import { websocketService } from './websocket';
+import type { Conversation, DecisionTrace, Meeting, Message, Workspace } from '@shared/schema';
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = new Date('2026-10-18T10:00:00.000Z');
+
+const conversation = {
+  id: 'conversation-1',
+  workspaceId: 'workspace-default',
+  channel: 'whatsapp',
+  externalId: '+34600111222',
+  contactName: 'Ana García',
+  status: 'qualified',
+  handoffMode: 'bot',
+  suppressed: false,
+  region: 'ES',
+  language: 'es',
+  metadata: {}
+} as unknown as Conversation;
+
+function meeting(status: string, startsAt: Date): Meeting {
+  return { id: `meeting-${status}`, conversationId: conversation.id, status, startsAt } as Meeting;
+}
+
+let meetings: Meeting[];
+
+describe('FollowUpService.runOnce', () => {
+  beforeEach(() => {
+    meetings = [];
+    // Silent for a day: the first nudge of every cadence is due
+    vi.spyOn(storage, 'getStalledConversations').mockResolvedValue([{ conversation, lastInboundAt: new Date(now.getTime() - 23 * HOUR_MS) }]);
+    vi.spyOn(storage, 'getMeetingsByConversation').mockImplementation(async () => meetings);
+    vi.spyOn(storage, 'getMessages').mockResolvedValue([]);
+    vi.spyOn(storage, 'getLatestMetrics').mockResolvedValue(undefined);
+    vi.spyOn(storage, 'getPendingDecisionTraces').mockResolvedValue([]);
+    vi.spyOn(storage, 'saveDecisionTrace').mockImplementation(async values => ({ id: 'trace-1', ...values } as DecisionTrace));
+    vi.spyOn(storage, 'addMessage').mockImplementation(async values => ({ id: 'message-1', ...values } as Message));
+    vi.spyOn(workspaceService, 'getForConversation').mockResolvedValue({ id: 'workspace-default', language: 'es' } as Workspace);
+    vi.spyOn(complianceService, 'send').mockImplementation(async (_conversation, text) => ({ sent: true, content: text, messageType: 'text' }));
+    vi.spyOn(websocketService, 'broadcastDecisionUpdate').mockResolvedValue();
+    vi.spyOn(websocketService, 'broadcastConversationUpdate').mockResolvedValue();
+  });
+
+  it('nudges a qualified lead without a call', async () => {
+    const summary = await followUpService.runOnce(now);
+
+    expect(summary.sent).toBe(1);
+    expect(complianceService.send).toHaveBeenCalledOnce();
+  });
+
+  it('leaves a lead alone while the call they booked is still ahead', async () => {
+    meetings = [meeting('booked', new Date(now.getTime() + 48 * HOUR_MS))];
+    const summary = await followUpService.runOnce(now);
+
+    expect(summary).toMatchObject({ stalled: 1, sent: 0 });
+    expect(complianceService.send).not.toHaveBeenCalled();
+  });
+
+  it('nudges again once the call is over or was cancelled', async () => {
+    meetings = [
+      meeting('booked', new Date(now.getTime() - 2 * HOUR_MS)),
+      meeting('cancelled', new Date(now.getTime() + 48 * HOUR_MS))
+    ];
+    const summary = await followUpService.runOnce(now);
+
+    expect(summary.sent).toBe(1);
+  });
+});
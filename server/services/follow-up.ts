@@ -0,0 +1,292 @@
+// Follow-ups for stalled WhatsApp conversations.
+// A conversation stalls when the lead stops answering. Its cadence, picked from the region and the
+// lead's formality, lists how many hours after the lead's last message each nudge goes out, up to the
+// attempt limit. Inside WhatsApp's 24-hour customer-service window a nudge is a free-form message;
+// outside it only an approved template may be sent. Every nudge is a follow_up decision trace that
+// settles as success when the lead replies and as failure when it is superseded or goes unanswered,
+// so re-engagement strategies can be compared in experiments. Contacts who opted out are never nudged,
+// and neither are leads waiting for a call they booked.
+
+import { storage } from '../storage';
+import { complianceService } from './compliance';
+import { workspaceService } from './workspace';
+import { handoffService } from './handoff';
+import { websocketService } from './websocket';
+import type { GuardedSendResult } from './compliance';
+import type { Conversation, ConversationMetrics, Message } from '@shared/schema';
+
+// Hours after the lead's last message at which each attempt is sent
+export const FOLLOW_UP_CADENCES = {
+  casual: [6, 48, 120],
+  standard: [20, 72, 168],
+  formal: [47, 144, 336]
+} as const;
+export type FollowUpCadence = keyof typeof FOLLOW_UP_CADENCES;
+
+export interface FollowUpConfig {
+  enabled: boolean;
+  intervalMs: number;
+  maxAttempts: number;
+  templates: string[]; // Approved template per attempt, sent outside the session window
+  replyWindowHours: number; // A nudge still unanswered after this long counts as failed
+  batchSize: number;
+}
+
+export interface FollowUpRunSummary {
+  stalled: number;
+  sent: number;
+  expired: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Regions whose business culture answers well to quick, informal nudges, or expects slow, formal ones
+const REGION_CADENCES: Record<string, FollowUpCadence> = {
+  MX: 'casual',
+  AR: 'casual',
+  CO: 'casual',
+  CL: 'casual',
+  BR: 'casual',
+  ES: 'standard',
+  US: 'standard',
+  PT: 'standard',
+  GB: 'formal',
+  DE: 'formal'
+};
+
+// Free-form nudges for the session window; {name} is the contact's first name
+const SESSION_MESSAGES: Record<string, Record<'casual' | 'formal', string>> = {
+  es: {
+    casual: '¡Hola {name}! ¿Pudiste darle una vuelta a lo que hablamos? Cuando quieras lo retomamos 🙂',
+    formal: 'Hola {name}, quería retomar nuestra conversación. ¿Le parece que sigamos cuando tenga un momento?'
+  },
+  en: {
+    casual: 'Hi {name}! Had a chance to think about what we discussed? Happy to pick it up whenever suits you 🙂',
+    formal: 'Hello {name}, I wanted to follow up on our conversation. Shall we continue when you have a moment?'
+  }
+};
+
+interface FollowUpMetadata {
+  attempt: number;
+  strategy: string;
+  templateName?: string;
+}
+
+function followUpOf(message: Message): FollowUpMetadata | undefined {
+  return (message.metadata as Record<string, any> | null)?.followUp;
+}
+
+export class FollowUpService {
+  private config: FollowUpConfig = {
+    enabled: process.env.FOLLOW_UP_ENABLED !== 'false',
+    intervalMs: parseInt(process.env.FOLLOW_UP_INTERVAL_MS || String(10 * 60 * 1000), 10),
+    maxAttempts: parseInt(process.env.FOLLOW_UP_MAX_ATTEMPTS || '3', 10),
+    templates: (process.env.FOLLOW_UP_TEMPLATES || 'seguimiento_1,seguimiento_2,seguimiento_3')
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean),
+    replyWindowHours: parseInt(process.env.FOLLOW_UP_REPLY_WINDOW_HOURS || '72', 10),
+    batchSize: 500
+  };
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  start(): void {
+    if (this.timer || !this.config.enabled) return;
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => console.error('Follow-up run failed:', error));
+    }, this.config.intervalMs);
+
+    console.log(`Follow-up scheduler started (up to ${this.config.maxAttempts} attempts)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getCadences(): Array<{ cadence: FollowUpCadence; hours: number[]; regions: string[] }> {
+    return (Object.keys(FOLLOW_UP_CADENCES) as FollowUpCadence[]).map(cadence => ({
+      cadence,
+      hours: FOLLOW_UP_CADENCES[cadence].slice(0, this.config.maxAttempts),
+      regions: Object.keys(REGION_CADENCES).filter(region => REGION_CADENCES[region] === cadence)
+    }));
+  }
+
+  /** Nudge every conversation that is due and settle nudges that went unanswered */
+  async runOnce(now: Date = new Date()): Promise<FollowUpRunSummary> {
+    const summary: FollowUpRunSummary = { stalled: 0, sent: 0, expired: 0 };
+    if (this.running) return summary;
+    this.running = true;
+
+    try {
+      const delays = this.getCadences().flatMap(c => c.hours);
+      const earliest = Math.min(...delays);
+      const latest = Math.max(...delays);
+
+      const stalled = await storage.getStalledConversations(
+        'whatsapp',
+        new Date(now.getTime() - (latest + this.config.replyWindowHours) * HOUR_MS),
+        new Date(now.getTime() - earliest * HOUR_MS),
+        this.config.batchSize
+      );
+      summary.stalled = stalled.length;
+
+      for (const { conversation, lastInboundAt } of stalled) {
+        try {
+          if (await this.followUp(conversation, lastInboundAt, now)) summary.sent++;
+        } catch (error) {
+          console.error(`Follow-up failed for conversation ${conversation.id}:`, error);
+        }
+      }
+
+      const unanswered = await storage.getPendingDecisionTraces('follow_up', new Date(now.getTime() - this.config.replyWindowHours * HOUR_MS));
+      for (const trace of unanswered) {
+        await storage.updateDecisionTraceOutcome(trace.id, 'failure', { reason: 'no_reply' });
+        summary.expired++;
+      }
+
+      return summary;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * The lead wrote again: the last nudge since their previous message gets the credit.
+   * Called for every inbound message; failures are logged so they never block the reply.
+   */
+  async recordReply(conversationId: string, reply: Message): Promise<void> {
+    try {
+      const recent = await storage.getMessages(conversationId, 20);
+      const previousInbound = recent.findIndex(m => m.direction === 'incoming' && m.id !== reply.id);
+      const since = previousInbound === -1 ? recent : recent.slice(0, previousInbound);
+
+      const nudge = since.find(m => m.direction === 'outgoing' && followUpOf(m));
+      const traceId = (nudge?.metadata as Record<string, any> | undefined)?.decisionTraceId;
+      if (!nudge || !traceId) return;
+
+      const repliedAt = reply.timestamp || new Date();
+      await storage.updateDecisionTraceOutcome(traceId, 'success', {
+        repliedAt: repliedAt.toISOString(),
+        replyDelayHours: nudge.timestamp ? (repliedAt.getTime() - nudge.timestamp.getTime()) / HOUR_MS : null
+      });
+    } catch (error) {
+      console.error(`Failed to record follow-up reply for conversation ${conversationId}:`, error);
+    }
+  }
+
+  cadenceFor(conversation: Conversation, metrics?: ConversationMetrics): FollowUpCadence {
+    const formality = metrics?.formalityIndex;
+    if (typeof formality === 'number' && formality >= 0.7) return 'formal';
+    if (typeof formality === 'number' && formality <= 0.3) return 'casual';
+    return REGION_CADENCES[(conversation.region || '').toUpperCase()] || 'standard';
+  }
+
+  /** Send the next nudge when it is due; true when one went out */
+  private async followUp(conversation: Conversation, lastInboundAt: Date, now: Date): Promise<boolean> {
+    if (!handoffService.isBotActive(conversation) || conversation.suppressed) return false;
+
+    // Going quiet after booking a call is not stalling
+    const meetings = await storage.getMeetingsByConversation(conversation.id);
+    if (meetings.some(m => m.status === 'booked' && m.startsAt && m.startsAt > now)) return false;
+
+    const recent = await storage.getMessages(conversation.id, 20);
+    const nudges = recent.filter(m =>
+      m.direction === 'outgoing' && followUpOf(m) && m.timestamp && m.timestamp > lastInboundAt
+    );
+
+    const metrics = await storage.getLatestMetrics(conversation.id);
+    const cadence = this.cadenceFor(conversation, metrics);
+    const schedule = FOLLOW_UP_CADENCES[cadence].slice(0, this.config.maxAttempts);
+    const attempt = nudges.length + 1;
+    const idleHours = (now.getTime() - lastInboundAt.getTime()) / HOUR_MS;
+
+    if (attempt > schedule.length || idleHours < schedule[attempt - 1]) return false;
+
+    // Keep the cadence's spacing after the previous nudge, even when the scheduler fell behind
+    const lastNudgeAt = nudges[0]?.timestamp;
+    if (lastNudgeAt && now.getTime() - lastNudgeAt.getTime() < (schedule[attempt - 1] - schedule[attempt - 2]) * HOUR_MS) {
+      return false;
+    }
+
+    const workspace = await workspaceService.getForConversation(conversation);
+    const account = workspaceService.channelAccount(workspace);
+    const language = conversation.language || workspace.language || 'es';
+    const firstName = conversation.contactName.split(' ')[0];
+    const inSessionWindow = complianceService.windowFor(conversation, lastInboundAt, now).open;
+
+    let sent: GuardedSendResult;
+    if (inSessionWindow) {
+      const tone = cadence === 'casual' ? 'casual' : 'formal';
+      const text = (SESSION_MESSAGES[language] || SESSION_MESSAGES.es)[tone].replace('{name}', firstName);
+      sent = await complianceService.send(conversation, text, { account });
+    } else {
+      const template = this.config.templates[attempt - 1];
+      if (!template) return false;
+      sent = await complianceService.sendTemplate(conversation, template, [firstName], account);
+    }
+
+    const { content, templateName } = sent;
+    if (!sent.sent) {
+      console.error(`Follow-up ${attempt} for conversation ${conversation.id} was not delivered`);
+      return false;
+    }
+
+    // Outside the window, or converted by compliance when the window closed meanwhile
+    const kind = sent.messageType === 'template' ? 'template' : 'session_message';
+    const strategy = `${cadence}/${attempt}/${kind}`;
+    const dropOffRisk = metrics?.dropOffRisk ?? null;
+
+    const trace = await storage.saveDecisionTrace({
+      conversationId: conversation.id,
+      action: 'follow_up',
+      reasoning: `Lead silent for ${Math.round(idleHours)}h; attempt ${attempt} of ${schedule.length} on the ${cadence} cadence (${conversation.region || 'no region'})` +
+        (kind === 'session_message' ? ', inside the 24h window' : `, outside the 24h window so template ${templateName}`),
+      metricsUsed: ['dropOffRisk', 'formalityIndex', 'engagementScore'],
+      confidence: metrics?.engagementConfidence ?? 0,
+      utilityScore: dropOffRisk ?? 0,
+      questionSelected: templateName || content,
+      outcome: 'pending',
+      feedback: {
+        strategy,
+        cadence,
+        attempt,
+        maxAttempts: schedule.length,
+        kind,
+        templateName: templateName || null,
+        idleHours,
+        region: conversation.region,
+        formalityIndex: metrics?.formalityIndex ?? null,
+        dropOffRisk
+      }
+    });
+
+    // The previous nudge got no answer before this one went out
+    const previousTraceId = (nudges[0]?.metadata as Record<string, any> | undefined)?.decisionTraceId;
+    if (previousTraceId) {
+      await storage.updateDecisionTraceOutcome(previousTraceId, 'failure', { reason: 'superseded', supersededBy: trace.id });
+    }
+
+    const followUp: FollowUpMetadata = { attempt, strategy, ...(templateName ? { templateName } : {}) };
+    await storage.addMessage({
+      conversationId: conversation.id,
+      whatsappMessageId: sent.externalMessageId || null,
+      direction: 'outgoing',
+      content,
+      messageType: sent.messageType,
+      deliveryStatus: 'sent',
+      deliveryStatusAt: new Date(),
+      metadata: { followUp, decisionTraceId: trace.id }
+    });
+
+    await websocketService.broadcastDecisionUpdate(trace);
+    await websocketService.broadcastConversationUpdate(conversation.id);
+    return true;
+  }
+}
+
+export const followUpService = new FollowUpService();
@@ -1,7 +1,9 @@
 // Grok-Based NLP Service for Spanish (Castilian) B2B Analysis
-// Uses xAI Grok-4-Fast for contextual understanding of business conversations
+// Uses xAI Grok for contextual understanding of business conversations (LLM task: lead_extraction)
 
-import { xaiService } from "./xai";
+import { llmService } from "./llm";
+import { DEFAULT_QUALIFICATION_CRITERIA } from "./workspace";
+import type { QualificationCriteria, WorkspaceLLMSettings } from "@shared/schema";
 
 export interface Entity {
   text: string;
@@ -27,9 +29,10 @@ export interface BudgetSignals {
   hasExplicitBudget: boolean;
   estimatedBudget?: number;
   budgetRange?: { min: number; max: number };
+  currency?: string; // ISO 4217, when the lead names one
   budgetIndicators: string[];
   confidence: number;
-  meetsMinimum: boolean; // >= 5000€
+  meetsMinimum: boolean; // >= workspace minimum budget
 }
 
 export interface SPOCAvailability {
@@ -37,12 +40,13 @@ export interface SPOCAvailability {
   estimatedHoursPerWeek?: number;
   availabilityIndicators: string[];
   confidence: number;
-  meetsMinimum: boolean; // >= 4 hours/week
+  meetsMinimum: boolean; // >= workspace minimum SPOC hours/week
 }
 
 export interface DigitalMaturitySignals {
   maturityLevel: 'low' | 'medium' | 'high';
   indicators: string[];
+  currentTools?: string[]; // Named software the lead uses today: Salesforce, Excel
   hasCurrentTools: boolean;
   hasProcesses: boolean;
   hasTechnicalTeam: boolean;
@@ -74,24 +78,38 @@ export interface MessageAnalysis {
   urgencySignals: UrgencySignals;
   confusionLevel: number;
   frustrationLevel: number;
+  painPoints?: string[]; // Problems the lead wants solved, in their words
   keyInsights: string[];
 }
 
+export interface AnalysisOptions {
+  criteria?: QualificationCriteria; // Workspace qualification criteria; defaults to the original 5.000€ / 4h / medium
+  llm?: WorkspaceLLMSettings;
+}
+
+const MATURITY_LABELS: Record<QualificationCriteria['minDigitalMaturity'], string> = {
+  low: 'baja (procesos básicos, pocas herramientas)',
+  medium: 'media (herramientas básicas, procesos establecidos)',
+  high: 'alta (herramientas avanzadas, equipo técnico propio)'
+};
+
 export class GrokNLPService {
 
   /**
-   * Analyze message using Grok-4-Fast with structured output
+   * Analyze message with structured (JSON) output
    */
-  async analyzeMessage(text: string, conversationHistory?: string[]): Promise<MessageAnalysis> {
-    const prompt = this.buildAnalysisPrompt(text, conversationHistory);
+  async analyzeMessage(text: string, conversationHistory?: string[], options: AnalysisOptions = {}): Promise<MessageAnalysis> {
+    const criteria = options.criteria || DEFAULT_QUALIFICATION_CRITERIA;
+    const prompt = this.buildAnalysisPrompt(text, criteria, conversationHistory);
 
     try {
-      const response = await xaiService.chat(prompt, {
-        temperature: 0.1, // Low temperature for consistent structured extraction
-        response_format: 'json'
+      const response = await llmService.chat('lead_extraction', [{ role: 'user', content: prompt }], {
+        model: options.llm?.model,
+        temperature: options.llm?.temperature ?? 0.1, // Low temperature for consistent structured extraction
+        json: true
       });
 
-      return this.parseAnalysisResponse(response);
+      return this.parseAnalysisResponse(response.content);
     } catch (error) {
       console.error('Grok NLP analysis failed:', error);
       return this.getFallbackAnalysis(text);
@@ -101,19 +119,21 @@ export class GrokNLPService {
   /**
    * Build structured prompt for Grok analysis
    */
-  private buildAnalysisPrompt(text: string, conversationHistory?: string[]): string {
+  private buildAnalysisPrompt(text: string, criteria: QualificationCriteria, conversationHistory?: string[]): string {
     const context = conversationHistory
       ? `\n\nConversation history:\n${conversationHistory.slice(-3).join('\n')}`
       : '';
+    const minBudget = `${criteria.minBudget.toLocaleString('es-ES')} ${criteria.currency}`;
+    const offer = criteria.offerDescription ? `\n- Servicio ofrecido: ${criteria.offerDescription}` : '';
 
     return `Eres un experto analista de conversaciones B2B en español (castellano de España).
 
 Analiza este mensaje de WhatsApp de un prospecto potencial y extrae información estructurada.
 
 CONTEXTO DEL NEGOCIO:
-- Buscamos PYMEs con presupuesto mínimo de 5.000€
-- Necesitan un SPOC (Single Point of Contact) con mínimo 4 horas/semana disponibles
-- Deben tener madurez digital media (herramientas básicas, procesos establecidos)
+- Buscamos PYMEs con presupuesto mínimo de ${minBudget}
+- Necesitan un SPOC (Single Point of Contact) con mínimo ${criteria.minSpocHoursPerWeek} horas/semana disponibles
+- Deben tener madurez digital ${MATURITY_LABELS[criteria.minDigitalMaturity]}${offer}
 
 MENSAJE DEL PROSPECTO:
 "${text}"${context}
@@ -144,20 +164,22 @@ ANÁLISIS REQUERIDO (responde en JSON válido):
     "hasExplicitBudget": boolean,
     "estimatedBudget": número en euros o null,
     "budgetRange": {"min": número, "max": número} o null,
+    "currency": "código ISO 4217 (EUR, USD, MXN) si se menciona, o null",
     "budgetIndicators": ["frases que indican presupuesto"],
     "confidence": 0.0-1.0,
-    "meetsMinimum": boolean (>= 5000€)
+    "meetsMinimum": boolean (>= ${minBudget})
   },
   "spocAvailability": {
     "hasDesignatedContact": boolean,
     "estimatedHoursPerWeek": número o null,
     "availabilityIndicators": ["frases sobre disponibilidad"],
     "confidence": 0.0-1.0,
-    "meetsMinimum": boolean (>= 4 horas/semana)
+    "meetsMinimum": boolean (>= ${criteria.minSpocHoursPerWeek} horas/semana)
   },
   "digitalMaturity": {
     "maturityLevel": "low|medium|high",
     "indicators": ["herramientas/procesos mencionados"],
+    "currentTools": ["nombres de herramientas que usan hoy (CRM, ERP, Excel...)"],
     "hasCurrentTools": boolean,
     "hasProcesses": boolean,
     "hasTechnicalTeam": boolean,
@@ -177,6 +199,7 @@ ANÁLISIS REQUERIDO (responde en JSON válido):
   },
   "confusionLevel": 0.0-1.0,
   "frustrationLevel": 0.0-1.0,
+  "painPoints": ["problemas que el prospecto quiere resolver, con sus palabras"],
   "keyInsights": ["insights clave de 1 línea"]
 }
 
@@ -186,6 +209,7 @@ INSTRUCCIONES ESPECÍFICAS:
 3. Para madurez digital: busca menciones de herramientas (CRM, ERP, software), procesos establecidos, equipo técnico
 4. Para autoridad: títulos (director, gerente, CEO), lenguaje decisorio ("yo decido", "puedo aprobar"), pronombres (yo/nosotros)
 5. Para castellano de España: reconoce "vosotros", "ordenador" (no "computadora"), "móvil" (no "celular")
+6. Para importes, plazos, herramientas y problemas: solo lo que el prospecto afirma; si no lo dice, usa null o []
 
 Responde SOLO con el JSON, sin texto adicional.`;
   }
@@ -235,6 +259,7 @@ Responde SOLO con el JSON, sin texto adicional.`;
         },
         confusionLevel: parsed.confusionLevel || 0,
         frustrationLevel: parsed.frustrationLevel || 0,
+        painPoints: Array.isArray(parsed.painPoints) ? parsed.painPoints : [],
         keyInsights: parsed.keyInsights || []
       };
     } catch (error) {
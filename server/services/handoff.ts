@@ -0,0 +1,171 @@
+// Human takeover for conversations.
+// A rep can claim a conversation from the dashboard: the bot stops selecting questions
+// while metrics keep updating, and the rep replies through the conversation's channel.
+// Escalation triggers flag conversations that a rep should look at.
+
+import { storage } from '../storage';
+import { complianceService, OutboundBlockedError } from './compliance';
+import { websocketService } from './websocket';
+import { workspaceService } from './workspace';
+import { calibrationService, QUALIFICATION_THRESHOLD_METRIC } from './calibration';
+import type { Conversation, Escalation, InsertConversationMetrics, Message } from '@shared/schema';
+
+export interface EscalationConfig {
+  frustrationThreshold: number; // frustrationLevel at or above this escalates
+  qualificationThreshold: number; // Minimum qualificationScore for a high value lead
+  dealValueThreshold: number; // Minimum budgetRangeMax (EUR) for a high value lead
+}
+
+export class HandoffService {
+  private config: EscalationConfig = {
+    frustrationThreshold: parseFloat(process.env.ESCALATION_FRUSTRATION_THRESHOLD || '0.7'),
+    qualificationThreshold: parseFloat(process.env.ESCALATION_QUALIFICATION_THRESHOLD || '0.75'),
+    dealValueThreshold: parseFloat(process.env.ESCALATION_DEAL_VALUE_THRESHOLD || '10000')
+  };
+
+  /** False while a rep owns the conversation or it has been paused */
+  isBotActive(conversation: Conversation): boolean {
+    return conversation.handoffMode !== 'human' && conversation.status !== 'paused';
+  }
+
+  async claim(conversationId: string, operator: string): Promise<Conversation | undefined> {
+    const conversation = await storage.getConversation(conversationId);
+    if (!conversation) return undefined;
+
+    const updated = await storage.updateConversation(conversationId, {
+      handoffMode: 'human',
+      assignedTo: operator,
+      handoffAt: new Date()
+    });
+
+    await websocketService.broadcastConversationUpdate(conversationId);
+    return updated;
+  }
+
+  /** Hand the conversation back to the bot; it resumes on the lead's next message */
+  async release(conversationId: string): Promise<Conversation | undefined> {
+    const conversation = await storage.getConversation(conversationId);
+    if (!conversation) return undefined;
+
+    const updated = await storage.updateConversation(conversationId, {
+      handoffMode: 'bot',
+      assignedTo: null,
+      handoffAt: null
+    });
+
+    await websocketService.broadcastConversationUpdate(conversationId);
+    return updated;
+  }
+
+  /**
+   * Send a rep's reply through the conversation's channel.
+   * Sending claims the conversation so the bot does not answer over the rep.
+   * Throws OutboundBlockedError when the contact opted out or the session window is closed.
+   */
+  async sendOperatorMessage(conversationId: string, operator: string, content: string): Promise<Message | undefined> {
+    const conversation = await storage.getConversation(conversationId);
+    if (!conversation) return undefined;
+
+    if (conversation.handoffMode !== 'human' || conversation.assignedTo !== operator) {
+      await this.claim(conversationId, operator);
+    }
+
+    const workspace = await workspaceService.getForConversation(conversation);
+    const sendResult = await complianceService.send(conversation, content, {
+      account: workspaceService.channelAccount(workspace)
+    });
+    if (sendResult.blocked) throw new OutboundBlockedError(sendResult.blocked);
+
+    const message = await storage.addMessage({
+      conversationId,
+      whatsappMessageId: sendResult.externalMessageId || null,
+      direction: 'outgoing',
+      content: sendResult.content,
+      messageType: sendResult.messageType,
+      deliveryStatus: sendResult.sent ? 'sent' : 'failed',
+      deliveryStatusAt: new Date(),
+      metadata: { operator }
+    });
+
+    await websocketService.broadcastConversationUpdate(conversationId);
+    return message;
+  }
+
+  /**
+   * Check the freshly calculated metrics against the escalation triggers.
+   * A trigger fires once until its escalation is resolved.
+   */
+  async evaluateEscalations(conversation: Conversation, metrics: InsertConversationMetrics): Promise<Escalation[]> {
+    const raised: Escalation[] = [];
+    const frustration = metrics.frustrationLevel || 0;
+    const qualification = metrics.qualificationScore || 0;
+    const dealValue = metrics.budgetRangeMax || 0;
+    // Calibrated from closed deals once outcomes have come in
+    const qualificationThreshold = calibrationService.value(QUALIFICATION_THRESHOLD_METRIC, this.config.qualificationThreshold);
+
+    if (frustration >= this.config.frustrationThreshold) {
+      const escalation = await this.raise(conversation, {
+        trigger: 'frustration',
+        reason: `Frustration level ${Math.round(frustration * 100)}% reached the ${Math.round(this.config.frustrationThreshold * 100)}% threshold`,
+        severity: 'high',
+        metricsSnapshot: { frustrationLevel: frustration, trustLevel: metrics.trustLevel }
+      });
+      if (escalation) raised.push(escalation);
+    }
+
+    if (qualification >= qualificationThreshold && dealValue >= this.config.dealValueThreshold) {
+      const escalation = await this.raise(conversation, {
+        trigger: 'high_value_lead',
+        reason: `Qualified lead (${Math.round(qualification * 100)}%) with budget up to ${dealValue.toLocaleString('es-ES')} €`,
+        severity: 'medium',
+        metricsSnapshot: { qualificationScore: qualification, budgetRangeMax: dealValue }
+      });
+      if (escalation) raised.push(escalation);
+    }
+
+    return raised;
+  }
+
+  /** Manual escalation from the dashboard or another service */
+  async escalate(conversationId: string, reason: string): Promise<Escalation | undefined> {
+    const conversation = await storage.getConversation(conversationId);
+    if (!conversation) return undefined;
+
+    return this.raise(conversation, { trigger: 'manual', reason, severity: 'medium', metricsSnapshot: {} });
+  }
+
+  async acknowledge(id: string, operator: string): Promise<Escalation | undefined> {
+    return storage.updateEscalation(id, {
+      status: 'acknowledged',
+      acknowledgedBy: operator,
+      acknowledgedAt: new Date()
+    });
+  }
+
+  async resolve(id: string): Promise<Escalation | undefined> {
+    return storage.updateEscalation(id, { status: 'resolved', resolvedAt: new Date() });
+  }
+
+  getConfig(): EscalationConfig {
+    return { ...this.config };
+  }
+
+  private async raise(
+    conversation: Conversation,
+    escalation: { trigger: string; reason: string; severity: string; metricsSnapshot: Record<string, any> }
+  ): Promise<Escalation | undefined> {
+    const existing = await storage.getOpenEscalation(conversation.id, escalation.trigger);
+    if (existing) return undefined;
+
+    const saved = await storage.createEscalation({
+      conversationId: conversation.id,
+      status: 'open',
+      ...escalation
+    });
+
+    await websocketService.broadcastEscalation(saved, conversation);
+    return saved;
+  }
+}
+
+export const handoffService = new HandoffService();
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { icpService } from './icp';
+import { DEFAULT_QUALIFICATION_CRITERIA } from './workspace';
+import type { ConversationSlots, InsertConversationMetrics } from '@shared/schema';
+
+const profile = icpService.buildDefaultProfile(DEFAULT_QUALIFICATION_CRITERIA); // Minimum budget 5000 EUR
+
+function metricsWithBudget(estimatedBudget: number): InsertConversationMetrics {
+  return {
+    conversationId: 'conversation-1',
+    messageCount: 5,
+    fullMetrics: { grokAnalysis: { budgetSignals: { hasExplicitBudget: false, estimatedBudget, confidence: 0.4 } } }
+  } as InsertConversationMetrics;
+}
+
+function budgetSlot(max: number, confidence = 0.9): ConversationSlots {
+  return {
+    budget: { value: { max }, confidence, source: 'nlp', sourceMessageId: 'message-1', capturedAt: '2026-10-18T10:00:00.000Z' }
+  };
+}
+
+describe('IcpService default profile', () => {
+  it('scores an inferred budget below the minimum without knocking the lead out', () => {
+    const evaluation = icpService.evaluate(profile, icpService.collectFacts(metricsWithBudget(2500)));
+    const budget = evaluation.results.find(result => result.ruleId === 'budget')!;
+
+    expect(evaluation.knockedOutBy).toEqual([]);
+    expect(budget.score).toBeCloseTo(0.5);
+    expect(evaluation.score).toBeCloseTo(0.2);
+  });
+
+  it('knocks the lead out when their own answer puts the budget below the minimum', () => {
+    const evaluation = icpService.evaluate(profile, icpService.collectFacts(metricsWithBudget(2500), {}, budgetSlot(3000)));
+
+    expect(evaluation.knockedOutBy).toEqual(['budget_below_minimum']);
+  });
+
+  it('ignores a budget slot the extraction is unsure of and one that was cleared', () => {
+    const unsure = icpService.collectFacts(metricsWithBudget(2500), {}, budgetSlot(3000, 0.3));
+    const stated = icpService.collectFacts(metricsWithBudget(2500), {}, budgetSlot(3000));
+    const cleared = icpService.collectFacts(metricsWithBudget(2500), stated, {});
+
+    expect(unsure['lead.statedBudget']).toBeUndefined();
+    expect(stated['lead.statedBudget']).toBe(3000);
+    expect(cleared['lead.statedBudget']).toBeUndefined();
+    expect(icpService.evaluate(profile, cleared).knockedOutBy).toEqual([]);
+  });
+});
@@ -0,0 +1,351 @@
+// Ideal Customer Profile (ICP) rules engine.
+// A profile declares weighted criteria, hard knock-out rules and score bands over lead facts.
+// It runs after every metrics calculation: the weighted score becomes conversations.qualificationScore,
+// the matching band (or a knock-out) sets conversations.status, and every rule's outcome is saved
+// as a qualification_assessment reasoning trace for the Why panel.
+
+import { nanoid } from 'nanoid';
+import { storage } from '../storage';
+import { workspaceService } from './workspace';
+import { slotService } from './slots';
+import type {
+  Conversation,
+  ConversationMetrics,
+  ConversationSlots,
+  IcpCondition,
+  IcpCriterion,
+  IcpEvaluation,
+  IcpKnockoutRule,
+  IcpProfile,
+  IcpRuleResult,
+  IcpScoreBand,
+  InsertConversationMetrics,
+  QualificationCriteria,
+  Workspace
+} from '@shared/schema';
+import type { MessageAnalysis } from './grok-nlp';
+
+/** A stored profile, or the built-in one derived from the workspace's qualification criteria */
+export interface ResolvedIcpProfile {
+  id: string | null;
+  version: number;
+  name: string;
+  minMessages: number;
+  criteria: IcpCriterion[];
+  knockoutRules: IcpKnockoutRule[];
+  scoreBands: IcpScoreBand[];
+}
+
+type Facts = Record<string, number | string>;
+
+// Statuses the engine may move a conversation between; paused or completed ones are left alone
+const MANAGED_STATUSES = ['active', 'qualified', 'disqualified'];
+
+const MATURITY_LEVELS = ['low', 'medium', 'high'];
+
+const OPERATOR_LABELS: Record<IcpCondition['operator'], string> = {
+  gte: '≥',
+  gt: '>',
+  lte: '≤',
+  lt: '<',
+  eq: '=',
+  neq: '≠',
+  in: 'in'
+};
+
+export class IcpService {
+  /**
+   * Evaluate the conversation's profile against freshly calculated metrics and apply the result.
+   * Failures are logged and return null so they never block the reply.
+   */
+  async evaluateConversation(
+    conversation: Conversation,
+    metrics: InsertConversationMetrics | ConversationMetrics,
+    turnId?: string
+  ): Promise<IcpEvaluation | null> {
+    const startTime = Date.now();
+
+    try {
+      const workspace = await workspaceService.getForConversation(conversation);
+      const profile = await this.getProfileFor(workspace);
+      const previous = (conversation.metadata as Record<string, any> | null)?.icp as IcpEvaluation | undefined;
+
+      const facts = this.collectFacts(metrics, previous?.facts, slotService.getSlots(conversation));
+      const evaluation = this.evaluate(profile, facts);
+
+      const meeting = await storage.getActiveMeeting(conversation.id);
+      const status = this.resolveStatus(conversation, profile, evaluation, metrics.messageCount || 0, meeting?.status === 'booked');
+      evaluation.status = status;
+
+      evaluation.traceId = await this.saveTrace(conversation.id, turnId, profile, evaluation, Date.now() - startTime);
+
+      Object.assign(conversation, await storage.mergeConversationMetadata(conversation.id, { icp: evaluation }, {
+        qualificationScore: evaluation.score,
+        ...(status ? { status } : {})
+      }));
+
+      return evaluation;
+    } catch (error) {
+      console.error(`ICP evaluation failed for conversation ${conversation.id}:`, error);
+      return null;
+    }
+  }
+
+  /** Score the facts against a profile; pure, so the editor can preview a draft profile */
+  evaluate(profile: ResolvedIcpProfile, facts: Facts): IcpEvaluation {
+    const totalWeight = profile.criteria.reduce((sum, c) => sum + Math.max(0, c.weight), 0);
+    const results: IcpRuleResult[] = [];
+    let score = 0;
+
+    for (const criterion of profile.criteria) {
+      const actual = facts[criterion.field] ?? null;
+      const weight = totalWeight > 0 ? Math.max(0, criterion.weight) / totalWeight : 0;
+      const passed = actual === null ? null : this.matches(criterion, actual);
+      const credit = actual === null ? 0 : this.criterionCredit(criterion, actual, passed!);
+
+      score += credit * weight;
+      results.push({
+        ruleId: criterion.id,
+        kind: 'criterion',
+        label: criterion.label,
+        field: criterion.field,
+        actual,
+        passed,
+        score: credit,
+        weight,
+        explanation: actual === null
+          ? `${criterion.label}: not known yet (0 of ${Math.round(weight * 100)}%)`
+          : `${criterion.label}: ${actual} ${OPERATOR_LABELS[criterion.operator]} ${this.formatValue(criterion.value)} ${passed ? 'met' : 'not met'} (${Math.round(credit * weight * 100)} of ${Math.round(weight * 100)}%)`
+      });
+    }
+
+    const knockedOutBy: string[] = [];
+    for (const rule of profile.knockoutRules) {
+      const actual = facts[rule.field] ?? null;
+      const fired = actual !== null && this.matches(rule, actual);
+      if (fired) knockedOutBy.push(rule.id);
+
+      results.push({
+        ruleId: rule.id,
+        kind: 'knockout',
+        label: rule.label,
+        field: rule.field,
+        actual,
+        passed: actual === null ? null : !fired,
+        explanation: actual === null
+          ? `${rule.label}: not known yet`
+          : fired
+            ? `${rule.label}: ${actual} ${OPERATOR_LABELS[rule.operator]} ${this.formatValue(rule.value)}, lead knocked out`
+            : `${rule.label}: ${actual} does not trigger`
+      });
+    }
+
+    const roundedScore = Math.round(Math.max(0, Math.min(1, score)) * 1000) / 1000;
+    const band = [...profile.scoreBands]
+      .sort((a, b) => b.minScore - a.minScore)
+      .find(b => roundedScore >= b.minScore);
+
+    return {
+      profileId: profile.id,
+      profileVersion: profile.version,
+      score: roundedScore,
+      band: band?.label ?? null,
+      status: null,
+      knockedOutBy,
+      results,
+      facts,
+      evaluatedAt: new Date().toISOString()
+    };
+  }
+
+  async getProfileFor(workspace: Workspace): Promise<ResolvedIcpProfile> {
+    const stored = await storage.getActiveIcpProfile(workspace.id);
+    return stored ? this.resolveProfile(stored) : this.buildDefaultProfile(workspaceService.criteriaFor(workspace));
+  }
+
+  resolveProfile(profile: IcpProfile): ResolvedIcpProfile {
+    return {
+      id: profile.id,
+      version: profile.version || 1,
+      name: profile.name,
+      minMessages: profile.minMessages ?? 4,
+      criteria: (profile.criteria as IcpCriterion[]) || [],
+      knockoutRules: (profile.knockoutRules as IcpKnockoutRule[]) || [],
+      scoreBands: (profile.scoreBands as IcpScoreBand[]) || []
+    };
+  }
+
+  /** The budget / SPOC / digital maturity fit the bot used before profiles were configurable */
+  buildDefaultProfile(criteria: QualificationCriteria): ResolvedIcpProfile {
+    const maturityIndex = Math.max(0, MATURITY_LEVELS.indexOf(criteria.minDigitalMaturity));
+
+    return {
+      id: null,
+      version: 1,
+      name: 'Default SMB profile',
+      minMessages: 4,
+      criteria: [
+        { id: 'budget', label: `Budget ≥ ${criteria.minBudget} ${criteria.currency}`, field: 'lead.budget', operator: 'gte', value: criteria.minBudget, weight: 0.4, scoring: 'linear' },
+        { id: 'spoc', label: `SPOC ≥ ${criteria.minSpocHoursPerWeek} h/week`, field: 'lead.spocHoursPerWeek', operator: 'gte', value: criteria.minSpocHoursPerWeek, weight: 0.3, scoring: 'linear' },
+        { id: 'digital_maturity', label: `Digital maturity ${criteria.minDigitalMaturity} or higher`, field: 'lead.digitalMaturity', operator: 'in', value: MATURITY_LEVELS.slice(maturityIndex), weight: 0.3, scoring: 'threshold' }
+      ],
+      // An estimate below the minimum only costs the budget criterion; a stated one rules the lead out
+      knockoutRules: [
+        { id: 'budget_below_minimum', label: 'Stated budget below minimum', field: 'lead.statedBudget', operator: 'lt', value: criteria.minBudget }
+      ],
+      scoreBands: [
+        { id: 'high_priority', label: 'High priority lead', minScore: 0.7, status: 'qualified' },
+        { id: 'qualifying', label: 'Continue qualifying', minScore: 0.5, status: 'active' },
+        { id: 'low_priority', label: 'Low priority', minScore: 0, status: 'active' }
+      ]
+    };
+  }
+
+  /**
+   * Facts the rules can reference:
+   * - lead.* what the lead has told us (budget, spocHoursPerWeek, digitalMaturity, authorityLevel, urgencyLevel),
+   *   kept from earlier messages until a newer value is extracted
+   * - lead.statedBudget the top of the budget slot, only while the lead's own answer fills it; lead.budget
+   *   also holds amounts the NLP inferred
+   * - metrics.* numeric conversationMetrics columns of this run
+   * - smb.* the SMB fit scores of this run, when the message went through NLP
+   */
+  collectFacts(
+    metrics: InsertConversationMetrics | ConversationMetrics,
+    previousFacts: Facts = {},
+    slots: ConversationSlots = {}
+  ): Facts {
+    const facts: Facts = {};
+
+    for (const [key, value] of Object.entries(previousFacts)) {
+      if (key.startsWith('lead.') && key !== 'lead.statedBudget') facts[key] = value;
+    }
+
+    for (const [key, value] of Object.entries(metrics)) {
+      if (typeof value === 'number' && Number.isFinite(value)) facts[`metrics.${key}`] = value;
+    }
+
+    const fullMetrics = (metrics.fullMetrics || {}) as Record<string, any>;
+    const analysis = fullMetrics.grokAnalysis as MessageAnalysis | null | undefined;
+
+    if (analysis) {
+      for (const [key, value] of Object.entries(fullMetrics.smb || {})) {
+        if (typeof value === 'number') facts[`smb.${key}`] = value;
+      }
+
+      const budget = analysis.budgetSignals?.estimatedBudget ?? analysis.budgetSignals?.budgetRange?.max;
+      if (typeof budget === 'number' && budget > 0) facts['lead.budget'] = budget;
+
+      const hours = analysis.spocAvailability?.estimatedHoursPerWeek;
+      if (typeof hours === 'number') facts['lead.spocHoursPerWeek'] = hours;
+
+      // Categorical signals only count once the NLP is reasonably sure
+      if (analysis.digitalMaturity?.confidence >= 0.5) facts['lead.digitalMaturity'] = analysis.digitalMaturity.maturityLevel;
+      if (analysis.authoritySignals?.confidence >= 0.5) facts['lead.authorityLevel'] = analysis.authoritySignals.authorityLevel;
+      if (analysis.urgencySignals?.confidence >= 0.5) facts['lead.urgencyLevel'] = analysis.urgencySignals.urgencyLevel;
+    }
+
+    // Button and list replies set the budget range directly
+    if (facts['lead.budget'] === undefined && typeof metrics.budgetRangeMax === 'number' && metrics.budgetRangeMax > 0) {
+      facts['lead.budget'] = metrics.budgetRangeMax;
+    }
+
+    const statedBudget = slots.budget && slotService.isFilled(slots, 'budget') ? slots.budget.value.max ?? slots.budget.value.min : undefined;
+    if (typeof statedBudget === 'number' && statedBudget > 0) facts['lead.statedBudget'] = statedBudget;
+
+    return facts;
+  }
+
+  private resolveStatus(
+    conversation: Conversation,
+    profile: ResolvedIcpProfile,
+    evaluation: IcpEvaluation,
+    messageCount: number,
+    meetingBooked: boolean = false
+  ): string | null {
+    if (!MANAGED_STATUSES.includes(conversation.status || 'active')) return null;
+
+    // A booked call settled the qualification; the score keeps moving but the status stays
+    if (meetingBooked) return null;
+
+    if (evaluation.knockedOutBy.length > 0) return 'disqualified';
+
+    if (messageCount < profile.minMessages) return null;
+
+    const band = profile.scoreBands.find(b => b.label === evaluation.band);
+    return band?.status ?? null;
+  }
+
+  private matches(condition: IcpCondition, actual: number | string): boolean {
+    const { operator, value } = condition;
+
+    switch (operator) {
+      case 'gte': return Number(actual) >= Number(value);
+      case 'gt': return Number(actual) > Number(value);
+      case 'lte': return Number(actual) <= Number(value);
+      case 'lt': return Number(actual) < Number(value);
+      case 'eq': return String(actual) === String(value);
+      case 'neq': return String(actual) !== String(value);
+      case 'in': return (Array.isArray(value) ? value : String(value).split(',')).map(v => String(v).trim()).includes(String(actual));
+      default: return false;
+    }
+  }
+
+  private criterionCredit(criterion: IcpCriterion, actual: number | string, passed: boolean): number {
+    if (passed) return 1;
+
+    // Partial credit for numeric targets: half the minimum budget is worth half the criterion
+    const target = Number(criterion.value);
+    if (criterion.scoring === 'linear' && (criterion.operator === 'gte' || criterion.operator === 'gt') && target > 0) {
+      return Math.max(0, Math.min(1, Number(actual) / target));
+    }
+    return 0;
+  }
+
+  private formatValue(value: IcpCondition['value']): string {
+    return Array.isArray(value) ? value.join(' / ') : String(value);
+  }
+
+  private async saveTrace(
+    conversationId: string,
+    turnId: string | undefined,
+    profile: ResolvedIcpProfile,
+    evaluation: IcpEvaluation,
+    processingTimeMs: number
+  ): Promise<string> {
+    const known = evaluation.results.filter(r => r.passed !== null).length;
+    const confidence = evaluation.results.length > 0 ? known / evaluation.results.length : 0;
+
+    const trace = await storage.saveReasoningTrace({
+      turnId: turnId || nanoid(),
+      conversationId,
+      decisionType: 'qualification_assessment',
+      features: evaluation.facts,
+      candidates: profile.scoreBands.map(band => ({ option: band.label, score: band.minScore, reasoning: `Status ${band.status}` })),
+      chosen: { band: evaluation.band, status: evaluation.status, score: evaluation.score, knockedOutBy: evaluation.knockedOutBy },
+      reasoningChain: evaluation.results.map((result, index) => ({
+        step: index + 1,
+        description: result.kind === 'knockout' ? `Knock-out: ${result.label}` : result.label,
+        evidence: result.actual === null ? [] : [`${result.field} = ${result.actual}`],
+        confidence: result.passed === null ? 0 : 1,
+        reasoning: result.explanation,
+        dataUsed: { field: result.field, actual: result.actual, score: result.score, weight: result.weight },
+        alternatives: []
+      })),
+      confidence,
+      policyVersion: `icp-${profile.id ?? 'default'}-v${profile.version}`,
+      traceId: nanoid(),
+      processingTimeMs,
+      businessJustification: evaluation.knockedOutBy.length > 0
+        ? `Disqualified by ${evaluation.knockedOutBy.length} knock-out rule(s) of "${profile.name}"`
+        : `ICP score ${Math.round(evaluation.score * 100)}% against "${profile.name}"${evaluation.band ? `, band: ${evaluation.band}` : ''}`,
+      riskFactors: evaluation.results.filter(r => r.passed === null).map(r => `${r.label}: unknown`),
+      alternativesConsidered: [],
+      model: 'icp-rules'
+    });
+
+    return trace.id;
+  }
+}
+
+export const icpService = new IcpService();
@@ -0,0 +1,173 @@
+// Durable inbound queue backed by the inbound_queue table.
+// Webhooks only persist the raw payload; this worker replays it through the
+// qualification pipeline with per-conversation ordering, retries and dead-lettering.
+
+import { nanoid } from 'nanoid';
+import { storage } from '../storage';
+import { channelRegistry, type MessagingChannel } from './channels';
+import { inboundMessageService } from './inbound';
+import { websocketService } from './websocket';
+import type { InboundQueueJob } from '@shared/schema';
+
+export interface InboundQueueConfig {
+  pollIntervalMs: number;
+  concurrency: number; // Jobs in flight across different conversations
+  maxAttempts: number;
+  baseRetryDelayMs: number; // Doubled on every failed attempt
+  lockTimeoutMs: number; // Processing jobs older than this are assumed orphaned
+}
+
+export class InboundQueueService {
+  private config: InboundQueueConfig = {
+    pollIntervalMs: parseInt(process.env.INBOUND_QUEUE_POLL_MS || '1000', 10),
+    concurrency: parseInt(process.env.INBOUND_QUEUE_CONCURRENCY || '4', 10),
+    maxAttempts: parseInt(process.env.INBOUND_QUEUE_MAX_ATTEMPTS || '5', 10),
+    baseRetryDelayMs: 2000,
+    lockTimeoutMs: 5 * 60 * 1000
+  };
+  private workerId = `worker-${process.pid}-${nanoid(6)}`;
+  private timer: NodeJS.Timeout | null = null;
+  private activeJobs = 0;
+  private polling = false;
+
+  /**
+   * Persist a webhook payload for asynchronous processing, one job per message in the batch.
+   * Payloads without messages (status callbacks, pings) are ignored and
+   * redeliveries of an already queued message id are counted as duplicates.
+   */
+  async enqueue(channel: MessagingChannel, payload: any): Promise<{
+    queued: InboundQueueJob[];
+    duplicates: number;
+  }> {
+    const messages = channel.parseInbound(payload);
+    const queued: InboundQueueJob[] = [];
+    let duplicates = 0;
+
+    for (let index = 0; index < messages.length; index++) {
+      const message = messages[index];
+      const job = await storage.enqueueInboundJob({
+        channel: channel.type,
+        conversationKey: `${channel.type}:${message.from}`,
+        externalMessageId: message.id,
+        payload,
+        messageIndex: index,
+        status: 'pending',
+        maxAttempts: this.config.maxAttempts
+      });
+
+      if (job) {
+        queued.push(job);
+      } else {
+        duplicates++;
+      }
+    }
+
+    return { queued, duplicates };
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.poll().catch(error => console.error('Inbound queue poll failed:', error));
+    }, this.config.pollIntervalMs);
+
+    console.log(`Inbound queue worker ${this.workerId} started`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      await storage.releaseStaleInboundJobs(new Date(Date.now() - this.config.lockTimeoutMs));
+
+      while (this.activeJobs < this.config.concurrency) {
+        const job = await storage.claimNextInboundJob(this.workerId);
+        if (!job) break;
+
+        this.activeJobs++;
+        this.processJob(job).finally(() => {
+          this.activeJobs--;
+        });
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async processJob(job: InboundQueueJob): Promise<void> {
+    try {
+      const channel = channelRegistry.get(job.channel);
+      if (!channel) {
+        throw new Error(`Unknown channel: ${job.channel}`);
+      }
+
+      const parsed = channel.parseInbound(job.payload)[job.messageIndex || 0];
+      if (!parsed) {
+        await storage.completeInboundJob(job.id, { skipped: 'No message parsed' });
+        return;
+      }
+
+      // Keep the id assigned at enqueue: a channel that makes one up (web chat without messageId)
+      // would give every retry a new one, and the retry would not find the message its first attempt saved
+      const message = { ...parsed, id: job.externalMessageId || parsed.id };
+      const result = await inboundMessageService.processMessage(channel, message);
+      await storage.completeInboundJob(job.id, result);
+    } catch (error) {
+      await this.handleFailure(job, error);
+    }
+  }
+
+  private async handleFailure(job: InboundQueueJob, error: unknown): Promise<void> {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const attempts = job.attempts || 1;
+    const maxAttempts = job.maxAttempts || this.config.maxAttempts;
+
+    try {
+      if (attempts < maxAttempts) {
+        const retryAt = new Date(Date.now() + this.config.baseRetryDelayMs * Math.pow(2, attempts - 1));
+        await storage.failInboundJob(job.id, errorMessage, retryAt);
+        console.warn(`Inbound job ${job.id} failed (attempt ${attempts}/${maxAttempts}), retrying at ${retryAt.toISOString()}:`, errorMessage);
+        return;
+      }
+
+      await storage.failInboundJob(job.id, errorMessage);
+      console.error(`Inbound job ${job.id} dead-lettered after ${attempts} attempts:`, errorMessage);
+
+      await websocketService.broadcastSystemAlert({
+        level: 'warning',
+        message: `Inbound ${job.channel} message moved to dead letter queue`,
+        data: { jobId: job.id, conversationKey: job.conversationKey, error: errorMessage }
+      });
+    } catch (storageError) {
+      // The stale-lock sweep will hand the job back if this update was lost
+      console.error(`Failed to record failure for inbound job ${job.id}:`, storageError);
+    }
+  }
+
+  async getStatus() {
+    const stats = await storage.getInboundQueueStats();
+
+    return {
+      workerId: this.workerId,
+      running: this.isRunning(),
+      activeJobs: this.activeJobs,
+      config: this.config,
+      ...stats
+    };
+  }
+}
+
+export const inboundQueueService = new InboundQueueService();
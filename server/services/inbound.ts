@@ -0,0 +1,331 @@
+// Channel-agnostic qualification pipeline for inbound lead messages.
+// Every channel webhook funnels into processMessage: conversation and workspace lookup, enrichment,
+// metrics → slots → ICP rules → playbook → decision → MessageComposer → reply through the originating channel.
+// Qualified leads are offered a call instead of the next question (see SchedulingService).
+// Conversations taken over by a rep stop after the metrics step; contacts who opted out are
+// recorded but never answered. A queue retry never answers the same message twice.
+
+import { storage } from '../storage';
+import { metricsService } from './metrics';
+import { decisionService } from './decision';
+import { websocketService } from './websocket';
+import { messageComposer, MessageComposer } from './message-composer';
+import { mediaStorageService } from './media-storage';
+import { handoffService } from './handoff';
+import { workspaceService } from './workspace';
+import { icpService } from './icp';
+import { leadScoringService } from './lead-scoring';
+import { followUpService } from './follow-up';
+import { complianceService } from './compliance';
+import { schedulingService } from './scheduling';
+import { enrichmentService } from './enrichment';
+import { playbookService } from './playbook';
+import { slotService } from './slots';
+import { messageTemplateService } from './message-templates';
+import type { GuardedSendResult } from './compliance';
+import type { InboundMessage, MessagingChannel } from './channels';
+import type { Conversation, ConversationMetrics, MediaAttachment, Message } from '@shared/schema';
+
+export interface InboundProcessingResult {
+  conversationId: string;
+  messageId: string;
+  replied: boolean;
+}
+
+/**
+ * The reply to a lead's message (kept in its metadata.reply). It is marked sending before it goes out,
+ * so a queue retry after a later failure doesn't ask the question again; failed means nothing went
+ * out, and a retry may reply.
+ */
+interface ReplyMarker {
+  status: 'sending' | 'sent' | 'failed';
+  at: string;
+  messageId?: string; // The outgoing message, once saved
+}
+
+export class InboundMessageService {
+  async processMessage(channel: MessagingChannel, message: InboundMessage): Promise<InboundProcessingResult> {
+    const conversation = await this.getOrCreateConversation(channel, message);
+    const workspace = await workspaceService.getForConversation(conversation);
+
+    // Save incoming message (a retried queue job finds the copy saved by its previous attempt)
+    const savedMessage = await storage.getMessageByExternalId(conversation.id, message.id) ?? await storage.addMessage({
+      conversationId: conversation.id,
+      whatsappMessageId: message.id,
+      direction: 'incoming',
+      content: message.content,
+      messageType: message.type,
+      metadata: await this.resolveStructuredReply(await this.storeMedia(channel, message))
+    });
+
+    // Acknowledge receipt where the channel supports it
+    await channel.markAsRead(message);
+
+    // An earlier attempt of this queue job already replied, or may have; every step up to that reply
+    // ran then, and replying again would repeat the question or the meeting offer
+    const previousReply = (savedMessage.metadata as { reply?: ReplyMarker } | null)?.reply;
+    if (previousReply && previousReply.status !== 'failed') {
+      console.warn(`Message ${savedMessage.id} was already answered (${previousReply.status} at ${previousReply.at}), not replying again`);
+      await websocketService.broadcastConversationUpdate(conversation.id);
+      return { conversationId: conversation.id, messageId: savedMessage.id, replied: true };
+    }
+
+    // Any answer (a reaction included) credits the follow-up and the template variants that preceded it
+    await followUpService.recordReply(conversation.id, savedMessage);
+    await messageTemplateService.recordReply(conversation.id, savedMessage);
+
+    // Reactions annotate an earlier message; they are recorded but never answered
+    if (message.type === 'reaction') {
+      await websocketService.broadcastConversationUpdate(conversation.id);
+      return { conversationId: conversation.id, messageId: savedMessage.id, replied: false };
+    }
+
+    // Region from the phone prefix, company domain from signatures, firmographics from providers
+    await enrichmentService.enrichConversation(conversation, [message.content]);
+
+    // Opt-out and opt-in keywords (BAJA, ALTA); an opt-out is confirmed and is the last reply
+    const consent = await complianceService.handleInbound(conversation, message.content);
+    if (conversation.suppressed) {
+      await websocketService.broadcastConversationUpdate(conversation.id);
+      return { conversationId: conversation.id, messageId: savedMessage.id, replied: consent === 'opt_out' };
+    }
+
+    // Get conversation history for metrics calculation
+    const messages = await storage.getMessages(conversation.id, 50);
+    const previousMetrics = await storage.getLatestMetrics(conversation.id);
+
+    // Calculate updated metrics
+    const metricsResult = await metricsService.calculateMetrics(
+      conversation.id,
+      messages,
+      previousMetrics || undefined,
+      { criteria: workspaceService.criteriaFor(workspace), llm: workspaceService.llmSettingsFor(workspace) }
+    );
+
+    // Save metrics
+    await storage.saveMetrics(metricsResult.metrics);
+
+    // Record the facts the message states (budget, who decides, timeline...) so they are not asked again
+    await slotService.recordMessage(
+      conversation,
+      savedMessage,
+      metricsResult.analyzedMessageId === savedMessage.id ? metricsResult.grokAnalysis : undefined
+    );
+
+    // Score the lead against the workspace's ICP; may move it to qualified or disqualified
+    const icp = await icpService.evaluateConversation(conversation, metricsResult.metrics, savedMessage.id);
+    await leadScoringService.recordScore(conversation.id, metricsResult.metrics, savedMessage.id);
+
+    // Notify reps when the new metrics cross an escalation trigger
+    await handoffService.evaluateEscalations(conversation, metricsResult.metrics);
+
+    // A rep owns the conversation (or it is paused): keep metrics current but do not ask anything.
+    // Read again, since a rep may have claimed it while the message was analyzed; sends check once more
+    const current = await storage.getConversation(conversation.id);
+    if (!current || !handoffService.isBotActive(current)) {
+      await websocketService.broadcastMetricsUpdate(conversation.id);
+      await websocketService.broadcastConversationUpdate(conversation.id);
+      return { conversationId: conversation.id, messageId: savedMessage.id, replied: false };
+    }
+
+    // Offer a call once the lead qualifies, or book the slot the lead picked from the offer.
+    // Marked sending first: the offer or confirmation may go out before a later step fails
+    const qualified = (icp?.status || conversation.status) === 'qualified';
+    await this.markReply(savedMessage, { status: 'sending', at: new Date().toISOString() });
+    const scheduling = await schedulingService.handleTurn(conversation, savedMessage, qualified);
+    await this.markReply(savedMessage, { status: scheduling?.replied ? 'sent' : 'failed', at: new Date().toISOString() });
+    if (scheduling) {
+      await websocketService.broadcastMetricsUpdate(conversation.id);
+      await websocketService.broadcastConversationUpdate(conversation.id);
+      return { conversationId: conversation.id, messageId: savedMessage.id, replied: scheduling.replied };
+    }
+
+    // Create situation awareness state
+    const situationState = metricsService.createSituationAwarenessState(
+      conversation.id,
+      { ...metricsResult.metrics, id: 'temp', timestamp: new Date(), version: null } as ConversationMetrics
+    );
+
+    // The answer opens the playbook follow-ups it matches, or ends the questioning at a terminal node
+    await playbookService.recordAnswer(conversation, savedMessage, situationState);
+
+    // Get decision context
+    const conversationStage = decisionService.getConversationStage(
+      messages.length,
+      metricsResult.metrics.qualificationScore || 0
+    );
+
+    const decisionContext = {
+      conversationId: conversation.id,
+      currentState: situationState,
+      messageHistory: messages.filter(m => m.direction === 'incoming').slice(-10).map(m => m.content),
+      ...decisionService.askedQuestions(messages),
+      conversationStage,
+      workspaceId: workspace.id,
+      language: conversation.language || workspace.language || 'es',
+      region: conversation.region || workspace.region || undefined
+    };
+
+    // Select optimal response
+    const selectedQuestion = await decisionService.selectOptimalQuestion(decisionContext);
+    let replied = false;
+
+    if (selectedQuestion) {
+      // Record decision
+      const decisionTrace = await decisionService.recordDecision(
+        conversation.id,
+        selectedQuestion,
+        decisionContext
+      );
+
+      // Build message context for humanization
+      const messageContext = await MessageComposer.buildContext(
+        conversation.id,
+        selectedQuestion.question
+      );
+
+      // Compose natural message from raw question, with tappable answers when it has them
+      const outbound = await messageComposer.composeOutboundMessage(
+        selectedQuestion.question,
+        messageContext
+      );
+      const humanizedMessage = outbound.text;
+
+      // Reply through the channel the lead wrote in on; compliance checks opt-out and the session window
+      await this.markReply(savedMessage, { status: 'sending', at: new Date().toISOString() });
+      let sendResult: GuardedSendResult;
+      try {
+        sendResult = await complianceService.send(conversation, humanizedMessage, {
+          bot: true,
+          interactive: outbound.interactive,
+          account: workspaceService.channelAccount(workspace)
+        });
+      } catch (error) {
+        await this.markReply(savedMessage, { status: 'failed', at: new Date().toISOString() });
+        throw error;
+      }
+      replied = sendResult.sent;
+
+      if (!replied) {
+        await this.markReply(savedMessage, { status: 'failed', at: new Date().toISOString() });
+      } else {
+        // Save outgoing message with both raw and humanized versions
+        const outgoing = await storage.addMessage({
+          conversationId: conversation.id,
+          whatsappMessageId: sendResult.externalMessageId || null,
+          direction: 'outgoing',
+          content: sendResult.content,
+          messageType: sendResult.messageType,
+          deliveryStatus: 'sent',
+          deliveryStatusAt: new Date(),
+          metadata: {
+            questionId: selectedQuestion.question.id,
+            questionVersion: selectedQuestion.question.version,
+            decisionTraceId: decisionTrace.id,
+            rawQuestion: selectedQuestion.question.questionText,
+            messagePhase: messageContext.phase,
+            interactive: outbound.interactive,
+            templates: outbound.templates
+          }
+        });
+        await this.markReply(savedMessage, { status: 'sent', at: new Date().toISOString(), messageId: outgoing.id });
+        await messageTemplateService.recordUsage(outbound.templates || []);
+
+        // Update question usage stats and the playbook node awaiting the answer
+        if (selectedQuestion.question.id !== 'ai-suggested') {
+          await storage.updateQuestionUsage(selectedQuestion.question.id);
+          await playbookService.recordAsked(conversation, selectedQuestion.question);
+        }
+      }
+
+      // Broadcast updates via WebSocket
+      await websocketService.broadcastMetricsUpdate(conversation.id);
+      await websocketService.broadcastDecisionUpdate(decisionTrace);
+      await websocketService.broadcastConversationUpdate(conversation.id);
+    }
+
+    return {
+      conversationId: conversation.id,
+      messageId: savedMessage.id,
+      replied
+    };
+  }
+
+  private async markReply(message: Message, reply: ReplyMarker): Promise<void> {
+    await storage.mergeMessageMetadata(message.id, { reply });
+  }
+
+  /**
+   * Tags a button or list reply with the question it answers and the metric
+   * signals of the picked option, so metrics can skip NLP for it
+   */
+  private async resolveStructuredReply(metadata: InboundMessage['metadata']): Promise<InboundMessage['metadata']> {
+    const replyId = 'interactive' in metadata ? metadata.interactive?.id : undefined;
+    const reply = replyId ? MessageComposer.decodeReplyId(replyId) : null;
+    if (!reply) {
+      return metadata;
+    }
+
+    const question = await storage.getQuestionById(reply.questionId);
+    const option = question
+      ? MessageComposer.getResponseOptions(question).find(o => o.id === reply.optionId)
+      : undefined;
+
+    return {
+      ...metadata,
+      questionId: reply.questionId,
+      structuredSignals: option?.signals
+    };
+  }
+
+  /** Downloads an attachment into media storage; failures are recorded, not thrown */
+  private async storeMedia(channel: MessagingChannel, message: InboundMessage): Promise<InboundMessage['metadata']> {
+    const media = 'media' in message.metadata ? message.metadata.media as MediaAttachment : undefined;
+    if (!media?.id || media.storageKey) {
+      return message.metadata;
+    }
+
+    try {
+      const downloaded = await channel.downloadMedia(media);
+      if (!downloaded) {
+        return { ...message.metadata, media: { ...media, downloadError: 'Media not available from channel' } };
+      }
+
+      const stored = await mediaStorageService.store(channel.type, downloaded.data, downloaded.mimeType);
+      return {
+        ...message.metadata,
+        media: { ...media, storageKey: stored.key, size: stored.size, mimeType: media.mimeType || stored.mimeType }
+      };
+    } catch (error) {
+      console.error(`Failed to store media for message ${message.id}:`, error);
+      return {
+        ...message.metadata,
+        media: { ...media, downloadError: error instanceof Error ? error.message : String(error) }
+      };
+    }
+  }
+
+  private async getOrCreateConversation(channel: MessagingChannel, message: InboundMessage): Promise<Conversation> {
+    // The same contact writing to two brands has a conversation with each
+    const workspace = await workspaceService.resolveForInbound(channel.type, message.recipient);
+    const existing = await storage.getConversationByExternalId(workspace.id, channel.type, message.from);
+    if (existing) return existing;
+
+    const contact = await channel.getContactInfo(message);
+
+    return storage.createConversation({
+      workspaceId: workspace.id,
+      channel: channel.type,
+      externalId: message.from,
+      whatsappId: channel.type === 'whatsapp' ? message.from : null,
+      contactName: contact.name || 'Unknown Contact',
+      contactPhone: contact.handle,
+      company: null,
+      status: 'active',
+      language: workspace.language || 'es',
+      region: workspace.region || 'ES'
+    });
+  }
+}
+
+export const inboundMessageService = new InboundMessageService();
@@ -9,9 +9,11 @@ import { density, order, size } from "graphology-metrics/graph";
 import { connectedComponents } from "graphology-components";
 import { shortestPath } from "graphology-shortest-path";
 import { xaiService } from "./xai";
+import { workspaceService } from "./workspace";
 import { storage } from "../storage";
 import { nanoid } from "nanoid";
 import type { 
+  Conversation,
   InsertKnowledgeGraphNode, 
   InsertKnowledgeGraphEdge, 
   InsertKnowledgeExtraction,
@@ -33,7 +35,8 @@ export interface EntityExtractionResult {
 }
 
 export interface ExtractedEntity {
-  entityId: string;
+  entityId: string; // Prefixed with the workspace scope outside the default workspace
+  workspaceId?: string;
   entityType: 'company' | 'person' | 'technology' | 'pain_point' | 'solution' | 'industry' | 'region';
   entityName: string;
   canonicalName: string;
@@ -50,6 +53,7 @@ export interface ExtractedEntity {
 
 export interface ExtractedRelationship {
   edgeId: string;
+  workspaceId?: string;
   sourceEntityId: string;
   targetEntityId: string;
   relationshipType: 'works_at' | 'uses_technology' | 'has_budget' | 'needs_solution' | 'competing_with' | 'recommends' | 'previous_experience';
@@ -132,6 +136,8 @@ export class KnowledgeGraphService {
       // Get conversation context for better extraction
       const conversation = await storage.getConversation(conversationId);
       const metrics = await storage.getLatestMetrics(conversationId);
+      const workspace = conversation ? await workspaceService.getForConversation(conversation) : undefined;
+      const scope = workspace ? workspaceService.graphScope(workspace) : '';
       
       // Use xAI to extract entities and relationships with LATAM context
       const extractionPrompt = this.buildExtractionPrompt(messages, conversation, metrics);
@@ -144,12 +150,16 @@ export class KnowledgeGraphService {
       // Process and validate extraction results
       const entities = await this.processExtractedEntities(
         extractionResult.entities,
-        conversationId
+        conversationId,
+        scope,
+        workspace?.id
       );
       
       const relationships = await this.processExtractedRelationships(
         extractionResult.relationships,
-        conversationId
+        conversationId,
+        scope,
+        workspace?.id
       );
 
       // Calculate cultural context and quality scores
@@ -258,6 +268,45 @@ export class KnowledgeGraphService {
     }
   }
 
+  /**
+   * Upsert the lead's company node from enrichment rather than from the lead's words.
+   * Enriched attributes win over extracted ones and keep their provenance; the node keeps
+   * the higher of its confidence and the enrichment's.
+   */
+  async recordCompanyEnrichment(
+    conversation: Conversation,
+    companyName: string,
+    attributes: EntityAttributes,
+    confidence: number
+  ): Promise<KnowledgeGraphNode> {
+    const workspace = await workspaceService.getForConversation(conversation);
+    const canonicalName = this.normalizeEntityName(companyName);
+    const entityId = `${workspaceService.graphScope(workspace)}company_${canonicalName}`;
+
+    const existing = await storage.getKnowledgeGraphNode(entityId);
+    if (!existing) {
+      return storage.saveKnowledgeGraphNode({
+        workspaceId: workspace.id,
+        entityId,
+        entityType: 'company',
+        entityName: companyName,
+        canonicalName,
+        attributes,
+        confidence,
+        firstMentionedIn: conversation.id,
+        lastUpdatedFrom: conversation.id
+      });
+    }
+
+    const current = (existing.attributes as EntityAttributes) || {};
+    return storage.updateKnowledgeGraphNode(entityId, {
+      attributes: { ...current, ...attributes, provenance: { ...current.provenance, ...attributes.provenance } },
+      confidence: Math.max(existing.confidence || 0, confidence),
+      lastUpdatedFrom: conversation.id,
+      lastUpdated: new Date()
+    });
+  }
+
   /**
    * Find similar companies based on entity attributes and relationship patterns
    */
@@ -272,8 +321,8 @@ export class KnowledgeGraphService {
         throw new Error('Target entity not found or not a company');
       }
 
-      // Get all company nodes
-      const allCompanies = await storage.getKnowledgeGraphNodes('company', 1000);
+      // Get all company nodes of the target's workspace
+      const allCompanies = await storage.getKnowledgeGraphNodes('company', 1000, targetEntity.workspaceId || undefined);
       
       // Calculate similarity scores using graph algorithms and attributes
       const similarities = await Promise.all(
@@ -558,10 +607,13 @@ Provide confidence scores and cultural context for LATAM market.`;
 
   private async processExtractedEntities(
     rawEntities: any[],
-    conversationId: string
+    conversationId: string,
+    scope: string = '',
+    workspaceId?: string
   ): Promise<ExtractedEntity[]> {
     return rawEntities.map(entity => ({
-      entityId: `${entity.type}_${this.normalizeEntityName(entity.name)}`,
+      entityId: `${scope}${entity.type}_${this.normalizeEntityName(entity.name)}`,
+      workspaceId,
       entityType: entity.type,
       entityName: entity.name,
       canonicalName: this.normalizeEntityName(entity.name),
@@ -578,12 +630,15 @@ Provide confidence scores and cultural context for LATAM market.`;
 
   private async processExtractedRelationships(
     rawRelationships: any[],
-    conversationId: string
+    conversationId: string,
+    scope: string = '',
+    workspaceId?: string
   ): Promise<ExtractedRelationship[]> {
     return rawRelationships.map(rel => ({
-      edgeId: `${rel.source}_${rel.type}_${rel.target}`,
-      sourceEntityId: rel.source,
-      targetEntityId: rel.target,
+      edgeId: `${scope}${rel.source}_${rel.type}_${rel.target}`,
+      workspaceId,
+      sourceEntityId: `${scope}${rel.source}`,
+      targetEntityId: `${scope}${rel.target}`,
       relationshipType: rel.type,
       strength: rel.strength || 0.5,
       confidence: rel.confidence || 0.5,
@@ -667,6 +722,7 @@ Provide confidence scores and cultural context for LATAM market.`;
       
       if (!existingNode) {
         const newNode: InsertKnowledgeGraphNode = {
+          workspaceId: entity.workspaceId,
           entityId: entity.entityId,
           entityType: entity.entityType,
           entityName: entity.entityName,
@@ -705,6 +761,7 @@ Provide confidence scores and cultural context for LATAM market.`;
       
       if (!existingEdge) {
         const newEdge: InsertKnowledgeGraphEdge = {
+          workspaceId: relationship.workspaceId,
           edgeId: relationship.edgeId,
           sourceEntityId: relationship.sourceEntityId,
           targetEntityId: relationship.targetEntityId,
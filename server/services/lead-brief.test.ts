@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { leadBriefService } from './lead-brief';
+import type { LeadBrief } from '@shared/schema';
+
+function brief(overrides: Partial<LeadBrief> = {}): LeadBrief {
+  return {
+    conversationId: 'conversation-1',
+    language: 'es',
+    generatedAt: '2026-10-18T10:00:00.000Z',
+    contact: { name: 'Ana García', phone: '+34600111222', company: 'Acme SL', region: 'ES', channel: 'whatsapp' },
+    status: 'qualified',
+    qualificationScore: 0.8,
+    icpScore: 0.75,
+    winProbability: 0.4,
+    headline: 'Distribuidora de 40 empleados que quiere automatizar la facturación (presupuesto ~8.000 €)',
+    bant: [
+      { dimension: 'budget', status: 'confirmed', score: 0.8, detail: '5.000 – 10.000 EUR' },
+      { dimension: 'authority', status: 'partial', score: 0.5, detail: 'CFO' },
+      { dimension: 'need', status: 'confirmed', score: 0.9, detail: null },
+      { dimension: 'timeline', status: 'unknown', score: 0.1, detail: null }
+    ],
+    companyFacts: ['Sector: distribución', 'Empleados: 40'],
+    technologies: ['Excel', 'SAP Business One'],
+    painPoints: ['Facturación manual'],
+    quotes: [{ text: 'Perdemos dos días al mes cuadrando facturas', topic: 'pain_point', at: null }],
+    openQuestions: ['¿Para cuándo necesitan tenerlo en marcha?'],
+    nextStep: 'Llamar al lead para agendar una reunión con un consultor.',
+    meeting: null,
+    ...overrides
+  };
+}
+
+/** Objects, xref table and trailer of a PDF written by renderPdf */
+function parsePdf(pdf: Buffer) {
+  const text = pdf.toString('latin1');
+  const startxref = parseInt(/startxref\n(\d+)\n%%EOF\n$/.exec(text)![1], 10);
+  const [, first, count] = /^xref\n(\d+) (\d+)\n/.exec(text.slice(startxref))!;
+  const entries = text.slice(startxref).split('\n').slice(2, 2 + parseInt(count, 10));
+  const objects = new Map<number, string>();
+  for (const match of text.matchAll(/(\d+) 0 obj\n([\s\S]*?)\nendobj\n/g)) {
+    objects.set(parseInt(match[1], 10), match[2]);
+  }
+  const shown = Array.from(text.matchAll(/\((.*)\) Tj/g), match => match[1]);
+
+  return { text, startxref, first: parseInt(first, 10), entries, objects, shown };
+}
+
+describe('LeadBriefService.toPdf', () => {
+  it('writes an xref table whose offsets point at each object', () => {
+    const { text, startxref, first, entries, objects } = parsePdf(leadBriefService.toPdf(brief()));
+
+    expect(text.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(text.slice(startxref, startxref + 5)).toBe('xref\n');
+    expect(first).toBe(0);
+    expect(entries[0]).toBe('0000000000 65535 f ');
+    expect(entries).toHaveLength(objects.size + 1);
+    expect(text).toContain(`/Size ${objects.size + 1} /Root 1 0 R`);
+
+    entries.slice(1).forEach((entry, index) => {
+      expect(entry).toMatch(/^\d{10} 00000 n $/);
+      const offset = parseInt(entry.slice(0, 10), 10);
+      expect(text.slice(offset, offset + `${index + 1} 0 obj\n`.length)).toBe(`${index + 1} 0 obj\n`);
+    });
+  });
+
+  it('declares stream lengths in bytes', () => {
+    const { objects } = parsePdf(leadBriefService.toPdf(brief()));
+    const streams = Array.from(objects.values()).filter(body => body.includes('\nstream\n'));
+
+    expect(streams.length).toBeGreaterThan(0);
+    for (const body of streams) {
+      const [, length, stream] = /^<< \/Length (\d+) >>\nstream\n([\s\S]*)\nendstream$/.exec(body)!;
+      expect(Buffer.byteLength(stream, 'latin1')).toBe(parseInt(length, 10));
+    }
+  });
+
+  it('counts every page in the page tree', () => {
+    const single = parsePdf(leadBriefService.toPdf(brief()));
+    const long = parsePdf(leadBriefService.toPdf(brief({
+      openQuestions: Array.from({ length: 80 }, (_, index) => `Pregunta abierta número ${index + 1}`)
+    })));
+
+    for (const { objects } of [single, long]) {
+      const pages = Array.from(objects.values()).filter(body => body.startsWith('<< /Type /Page '));
+      expect(objects.get(2)).toContain(`/Count ${pages.length}`);
+      expect(objects.get(2)).toContain(`/Kids [${pages.map((_, index) => `${5 + index * 2} 0 R`).join(' ')}]`);
+    }
+    expect(single.objects.get(2)).toContain('/Count 1');
+    expect(long.objects.get(2)).toMatch(/\/Count [2-9]/);
+  });
+
+  it('breaks words longer than a line instead of running off the page', () => {
+    const url = `https://example.com/${'facturas/'.repeat(20)}informe.pdf`;
+    const { shown } = parsePdf(leadBriefService.toPdf(brief({ nextStep: `Revisar ${url}` })));
+
+    // The next step is the last section; only the generation date follows it
+    const pieces = shown.slice(shown.findIndex(line => line.startsWith('Revisar')), shown.findIndex(line => line.startsWith('Generado')));
+    expect(pieces.length).toBeGreaterThan(2);
+    expect(pieces.join('')).toBe(`Revisar${url}`);
+    for (const line of shown) {
+      expect(line.length).toBeLessThanOrEqual(100); // 495pt at 10pt Helvetica
+    }
+  });
+
+  it('says so when characters had to be replaced', () => {
+    const plain = parsePdf(leadBriefService.toPdf(brief()));
+    const replaced = parsePdf(leadBriefService.toPdf(brief({ painPoints: ['Facturación manual 📄', '請求書'] })));
+
+    expect(plain.shown.join(' ')).not.toContain('aparecen como');
+    expect(replaced.shown).toContain('\\225 Facturaci\\363n manual ?');
+    expect(replaced.shown).toContain('\\225 ???');
+    expect(replaced.shown.join(' ')).toContain('aparecen como "?"');
+  });
+});
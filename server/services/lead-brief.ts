@@ -0,0 +1,618 @@
+// Lead briefs for the sales handoff.
+// A rep picking up a qualified lead gets one page instead of the whole thread: BANT status from the
+// latest conversation metrics, the company, technologies and pain points extracted into the knowledge
+// graph, the lead's own words backing them, the questions still open and the recommended next step.
+// The brief is assembled from stored data only, in Spanish or English, and rendered as Markdown or PDF.
+// Pushing a conversation to the CRM attaches it to the new deal (deals.conversationSummary).
+
+import { storage } from '../storage';
+import { workspaceService } from './workspace';
+import type { ExtractedEntity, ExtractedRelationship } from './knowledge-graph';
+import {
+  BANT_DIMENSIONS,
+  type BantDimension,
+  type Conversation,
+  type ConversationMetrics,
+  type Deal,
+  type IcpEvaluation,
+  type LeadBrief,
+  type LeadBriefBant,
+  type LeadBriefQuote,
+  type LeadScore,
+  type Meeting,
+  type Message
+} from '@shared/schema';
+
+export type LeadBriefLanguage = LeadBrief['language'];
+
+export interface LeadBriefConfig {
+  confirmedAt: number; // BANT signal from which a dimension counts as confirmed
+  partialAt: number;
+  minEntityConfidence: number;
+  maxQuotes: number;
+  maxQuoteLength: number;
+}
+
+interface BriefSection {
+  heading: string;
+  lines: string[];
+  bullets?: boolean;
+}
+
+const LABELS: Record<LeadBriefLanguage, Record<string, string>> = {
+  es: {
+    title: 'Resumen del lead',
+    generated: 'Generado',
+    contact: 'Contacto',
+    qualification: 'Cualificación',
+    icp: 'Encaje ICP',
+    winProbability: 'Probabilidad de cierre',
+    status: 'Estado',
+    bant: 'BANT',
+    budget: 'Presupuesto',
+    authority: 'Autoridad',
+    need: 'Necesidad',
+    timeline: 'Plazo',
+    confirmed: 'confirmado',
+    partial: 'parcial',
+    unknown: 'sin datos',
+    company: 'Empresa',
+    technologies: 'Tecnologías',
+    painPoints: 'Problemas detectados',
+    quotes: 'Citas clave',
+    openQuestions: 'Preguntas abiertas',
+    nextStep: 'Siguiente paso recomendado',
+    meeting: 'Reunión',
+    industry: 'Sector',
+    employees: 'Empleados',
+    revenue: 'Facturación',
+    role: 'Interlocutor',
+    decisionMaker: 'decide',
+    urgencyHigh: 'urgencia alta',
+    urgencyMedium: 'urgencia media',
+    urgencyLow: 'sin urgencia',
+    none: 'Nada por ahora',
+    replacedCharacters: 'Algunos caracteres que la fuente del PDF no admite aparecen como "?"; la versión Markdown los conserva.'
+  },
+  en: {
+    title: 'Lead brief',
+    generated: 'Generated',
+    contact: 'Contact',
+    qualification: 'Qualification',
+    icp: 'ICP fit',
+    winProbability: 'Win probability',
+    status: 'Status',
+    bant: 'BANT',
+    budget: 'Budget',
+    authority: 'Authority',
+    need: 'Need',
+    timeline: 'Timeline',
+    confirmed: 'confirmed',
+    partial: 'partial',
+    unknown: 'unknown',
+    company: 'Company',
+    technologies: 'Technologies',
+    painPoints: 'Pain points',
+    quotes: 'Key quotes',
+    openQuestions: 'Open questions',
+    nextStep: 'Recommended next step',
+    meeting: 'Meeting',
+    industry: 'Industry',
+    employees: 'Employees',
+    revenue: 'Revenue',
+    role: 'Contact role',
+    decisionMaker: 'decision maker',
+    urgencyHigh: 'high urgency',
+    urgencyMedium: 'medium urgency',
+    urgencyLow: 'no urgency',
+    none: 'Nothing yet',
+    replacedCharacters: 'Some characters the PDF font cannot show appear as "?"; the Markdown export keeps them.'
+  }
+};
+
+// What to ask when a BANT dimension is not confirmed yet
+const BANT_QUESTIONS: Record<LeadBriefLanguage, Record<BantDimension, string>> = {
+  es: {
+    budget: '¿Qué presupuesto tienen previsto para el proyecto?',
+    authority: '¿Quién más participa en la decisión y quién la firma?',
+    need: '¿Qué problema concreto quieren resolver y qué les cuesta hoy?',
+    timeline: '¿Para cuándo necesitan tenerlo en marcha?'
+  },
+  en: {
+    budget: 'What budget is planned for the project?',
+    authority: 'Who else is involved in the decision, and who signs off?',
+    need: 'What specific problem do they want to solve, and what does it cost them today?',
+    timeline: 'When do they need it up and running?'
+  }
+};
+
+const NEXT_STEPS: Record<LeadBriefLanguage, Record<'meeting' | 'book' | 'objections' | 'qualify' | 'disqualified' | 'nurture', string>> = {
+  es: {
+    meeting: 'Preparar la llamada del {when} con {consultant}; repasar las preguntas abiertas antes.',
+    book: 'Llamar al lead para agendar una reunión con un consultor.',
+    objections: 'Resolver las objeciones antes de proponer una reunión; el riesgo de objeción es alto.',
+    qualify: 'Seguir cualificando: {question}',
+    disqualified: 'No hacer seguimiento comercial; el lead no encaja ({reason}).',
+    nurture: 'Mantener el contacto con contenido útil hasta que haya más señales de compra.'
+  },
+  en: {
+    meeting: 'Prepare the call on {when} with {consultant}; go over the open questions first.',
+    book: 'Call the lead to book a meeting with a consultant.',
+    objections: 'Address the objections before proposing a meeting; objection risk is high.',
+    qualify: 'Keep qualifying: {question}',
+    disqualified: 'No sales follow-up; the lead is not a fit ({reason}).',
+    nurture: 'Keep in touch with useful content until there are more buying signals.'
+  }
+};
+
+// Incoming messages worth quoting when the knowledge graph has no source text for a dimension
+const QUOTE_PATTERNS: Record<BantDimension, RegExp> = {
+  budget: /presupuesto|budget|inversi[oó]n|invertir|\d+\s*(k|mil|usd|eur|euros|d[oó]lares)\b|[€$]\s*\d|\d\s*[€$]/i,
+  authority: /\b(decid\w*|decision|jefe|director\w*|gerente|socio\w*|ceo|cto|cfo|due[nñ]o|owner|board|junta)\b/i,
+  need: /necesit\w*|problema|nos cuesta|perdemos|queremos|need|problem|struggl\w*|pain/i,
+  timeline: /\b(plazo|urgente|cuanto antes|este mes|pr[oó]xim[oa] (mes|semana|trimestre)|trimestre|asap|deadline|this (month|quarter)|next (month|quarter|week))\b/i
+};
+
+const ENTITY_QUOTE_PRIORITY = ['pain_point', 'solution', 'company', 'person', 'technology'];
+
+export class LeadBriefService {
+  private config: LeadBriefConfig = {
+    confirmedAt: 0.7,
+    partialAt: 0.4,
+    minEntityConfidence: 0.4,
+    maxQuotes: 5,
+    maxQuoteLength: 240
+  };
+
+  /** Brief in the requested language, falling back to the lead's and then the workspace's */
+  async generate(conversation: Conversation, language?: string): Promise<LeadBrief> {
+    const workspace = await workspaceService.getForConversation(conversation);
+    const lang: LeadBriefLanguage = (language || conversation.language || workspace.language) === 'en' ? 'en' : 'es';
+    const labels = LABELS[lang];
+
+    const [metrics, extractions, messages, meeting] = await Promise.all([
+      storage.getLatestMetrics(conversation.id),
+      storage.getKnowledgeExtractions(conversation.id, undefined, 20),
+      storage.getMessages(conversation.id, 200),
+      storage.getActiveMeeting(conversation.id)
+    ]);
+
+    const accepted = extractions.filter(extraction => extraction.status !== 'rejected');
+    const entities = this.dedupeEntities(accepted.flatMap(extraction => (extraction.entitiesExtracted as ExtractedEntity[]) || []));
+    const relationships = accepted.flatMap(extraction => (extraction.relationshipsExtracted as ExtractedRelationship[]) || []);
+    const metadata = (conversation.metadata as Record<string, any> | null) || {};
+    const icp = metadata.icp as IcpEvaluation | undefined;
+    const leadScore = metadata.leadScore as LeadScore | undefined;
+    const currency = workspaceService.criteriaFor(workspace).currency;
+
+    const bant = this.bantStatus(metrics, entities, lang, currency);
+    const quotes = this.keyQuotes(entities, relationships, messages);
+    const openQuestions = [
+      ...bant.filter(item => item.status !== 'confirmed').map(item => BANT_QUESTIONS[lang][item.dimension]),
+      ...(icp?.results || []).filter(result => result.passed === null).map(result => `${labels.icp}: ${result.label}`)
+    ];
+    const booked = meeting?.status === 'booked' && meeting.startsAt ? meeting : undefined;
+
+    return {
+      conversationId: conversation.id,
+      language: lang,
+      generatedAt: new Date().toISOString(),
+      contact: {
+        name: conversation.contactName,
+        phone: conversation.contactPhone,
+        company: conversation.company || entities.find(entity => entity.entityType === 'company')?.entityName || null,
+        region: conversation.region || null,
+        channel: conversation.channel || 'whatsapp'
+      },
+      status: conversation.status || 'active',
+      qualificationScore: conversation.qualificationScore || 0,
+      icpScore: icp ? icp.score : null,
+      winProbability: leadScore ? leadScore.probability : null,
+      headline: this.headline(conversation, metrics, entities, lang),
+      bant,
+      companyFacts: this.companyFacts(conversation, entities, lang),
+      technologies: this.namesOf(entities, 'technology'),
+      painPoints: this.namesOf(entities, 'pain_point'),
+      quotes,
+      openQuestions,
+      nextStep: this.nextStep(conversation, metrics, bant, icp, booked, lang),
+      meeting: booked
+        ? { startsAt: booked.startsAt!.toISOString(), consultantName: booked.consultantName }
+        : null
+    };
+  }
+
+  /** Regenerate the brief of a deal's conversation and store it on the deal */
+  async attachToDeal(deal: Deal): Promise<Deal> {
+    const conversation = await storage.getConversation(deal.conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${deal.conversationId} of deal ${deal.id} not found`);
+    }
+
+    const brief = await this.generate(conversation, deal.language || undefined);
+    return storage.updateDeal(deal.id, {
+      conversationSummary: this.toMarkdown(brief),
+      metadata: { ...((deal.metadata as Record<string, unknown>) || {}), leadBrief: brief }
+    });
+  }
+
+  toMarkdown(brief: LeadBrief): string {
+    const labels = LABELS[brief.language];
+    const lines = [`# ${labels.title}: ${brief.contact.company || brief.contact.name}`, '', `_${brief.headline}_`];
+
+    for (const section of this.sections(brief)) {
+      lines.push('', `## ${section.heading}`, '');
+      const content = section.lines.length > 0 ? section.lines : [labels.none];
+      lines.push(...content.map(line => (section.bullets ? `- ${line}` : line)));
+    }
+
+    lines.push('', `${labels.generated}: ${brief.generatedAt}`);
+    return lines.join('\n') + '\n';
+  }
+
+  toPdf(brief: LeadBrief): Buffer {
+    const labels = LABELS[brief.language];
+    const blocks: PdfBlock[] = [
+      { text: `${labels.title}: ${brief.contact.company || brief.contact.name}`, size: 18, bold: true },
+      { text: brief.headline, size: 10 },
+      { text: '', size: 6 }
+    ];
+
+    for (const section of this.sections(brief)) {
+      blocks.push({ text: section.heading, size: 13, bold: true });
+      const content = section.lines.length > 0 ? section.lines : [labels.none];
+      content.forEach(line => blocks.push({ text: section.bullets ? `• ${line}` : line, size: 10, indent: section.bullets ? 12 : 0 }));
+      blocks.push({ text: '', size: 6 });
+    }
+
+    blocks.push({ text: `${labels.generated}: ${brief.generatedAt}`, size: 8 });
+    if (blocks.some(block => !pdfCanShow(block.text))) {
+      blocks.push({ text: labels.replacedCharacters, size: 8 });
+    }
+    return renderPdf(blocks);
+  }
+
+  /** File name for a download: brief-acme-2026-10-18.md */
+  fileName(brief: LeadBrief, extension: 'md' | 'pdf'): string {
+    const slug = (brief.contact.company || brief.contact.name)
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '') || 'lead';
+    return `brief-${slug}-${brief.generatedAt.slice(0, 10)}.${extension}`;
+  }
+
+  /** Sections shared by the Markdown and PDF renderings, in reading order */
+  private sections(brief: LeadBrief): BriefSection[] {
+    const labels = LABELS[brief.language];
+    const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+    const summary = [
+      `${labels.contact}: ${brief.contact.name} · ${brief.contact.phone} · ${brief.contact.channel}${brief.contact.region ? ` · ${brief.contact.region}` : ''}`,
+      `${labels.status}: ${brief.status}`,
+      `${labels.qualification}: ${percent(brief.qualificationScore)}`,
+      brief.icpScore !== null ? `${labels.icp}: ${percent(brief.icpScore)}` : null,
+      brief.winProbability !== null ? `${labels.winProbability}: ${percent(brief.winProbability)}` : null,
+      brief.meeting ? `${labels.meeting}: ${this.meetingLabel(brief)}` : null
+    ].filter((line): line is string => line !== null);
+
+    return [
+      { heading: labels.contact, lines: summary, bullets: true },
+      {
+        heading: labels.bant,
+        lines: brief.bant.map(item =>
+          `${labels[item.dimension]}: ${labels[item.status]} (${percent(item.score)})${item.detail ? ` · ${item.detail}` : ''}`
+        ),
+        bullets: true
+      },
+      { heading: labels.company, lines: brief.companyFacts, bullets: true },
+      { heading: labels.technologies, lines: brief.technologies, bullets: true },
+      { heading: labels.painPoints, lines: brief.painPoints, bullets: true },
+      { heading: labels.quotes, lines: brief.quotes.map(quote => `"${quote.text}" (${quote.topic})`), bullets: true },
+      { heading: labels.openQuestions, lines: brief.openQuestions, bullets: true },
+      { heading: labels.nextStep, lines: [brief.nextStep] }
+    ];
+  }
+
+  private bantStatus(
+    metrics: ConversationMetrics | undefined,
+    entities: ExtractedEntity[],
+    language: LeadBriefLanguage,
+    currency: string
+  ): LeadBriefBant[] {
+    const labels = LABELS[language];
+    const person = entities.find(entity => entity.entityType === 'person' && (entity.attributes?.title || entity.attributes?.decisionMaker));
+    const painPoint = entities.find(entity => entity.entityType === 'pain_point');
+    const budgetRange = metrics && metrics.budgetRangeMax
+      ? { min: metrics.budgetRangeMin || 0, max: metrics.budgetRangeMax }
+      : entities.find(entity => entity.attributes?.budgetRange)?.attributes.budgetRange;
+    const urgency = metrics?.timelineUrgency || 0;
+    const number = (value: number) => Math.round(value).toLocaleString(language === 'es' ? 'es-ES' : 'en-US');
+
+    const signals: Record<BantDimension, { score: number; detail: string | null }> = {
+      budget: {
+        score: Math.max(metrics?.budgetSignalStrength || 0, budgetRange ? this.config.partialAt : 0),
+        detail: budgetRange ? `${number(budgetRange.min)} – ${number(budgetRange.max)} ${currency}` : null
+      },
+      authority: {
+        score: Math.max(metrics?.authorityScore || 0, person?.attributes.decisionMaker ? this.config.confirmedAt : 0),
+        detail: person
+          ? [person.attributes.title, person.attributes.decisionMaker ? labels.decisionMaker : null].filter(Boolean).join(', ') || null
+          : null
+      },
+      need: {
+        score: metrics?.needIntensity || 0,
+        detail: painPoint?.entityName || null
+      },
+      timeline: {
+        score: urgency,
+        detail: entities.find(entity => entity.attributes?.timeline)?.attributes.timeline
+          || (metrics ? (urgency >= this.config.confirmedAt ? labels.urgencyHigh : urgency >= this.config.partialAt ? labels.urgencyMedium : labels.urgencyLow) : null)
+      }
+    };
+
+    return BANT_DIMENSIONS.map(dimension => {
+      const { score, detail } = signals[dimension];
+      const status = score >= this.config.confirmedAt ? 'confirmed' : score >= this.config.partialAt ? 'partial' : 'unknown';
+      return { dimension, status, score: Math.round(score * 100) / 100, detail };
+    });
+  }
+
+  /** The lead's own words: source text of extracted entities first, then messages matching a BANT topic */
+  private keyQuotes(entities: ExtractedEntity[], relationships: ExtractedRelationship[], messages: Message[]): LeadBriefQuote[] {
+    const quotes: LeadBriefQuote[] = [];
+    const seen = new Set<string>();
+    const add = (text: string | undefined, topic: string, at: Date | null | undefined) => {
+      const clean = (text || '').replace(/\s+/g, ' ').trim();
+      const key = clean.toLowerCase();
+      if (clean.length < 12 || seen.has(key) || quotes.length >= this.config.maxQuotes) return;
+      seen.add(key);
+      quotes.push({
+        text: clean.length > this.config.maxQuoteLength ? `${clean.slice(0, this.config.maxQuoteLength - 1)}…` : clean,
+        topic,
+        at: at ? at.toISOString() : null
+      });
+    };
+
+    const byPriority = [...entities].sort((a, b) =>
+      rank(ENTITY_QUOTE_PRIORITY, a.entityType) - rank(ENTITY_QUOTE_PRIORITY, b.entityType) || b.confidence - a.confidence
+    );
+    relationships
+      .filter(relationship => relationship.relationshipType === 'has_budget')
+      .forEach(relationship => add(relationship.source?.extractedText, 'budget', null));
+    byPriority.forEach(entity => add(entity.source?.extractedText, entity.entityType, null));
+
+    // Oldest first, so the quotes follow the conversation
+    const incoming = messages.filter(message => message.direction === 'incoming').reverse();
+    for (const dimension of BANT_DIMENSIONS) {
+      const match = incoming.find(message => QUOTE_PATTERNS[dimension].test(message.content || ''));
+      if (match) add(match.content, dimension, match.timestamp);
+    }
+
+    return quotes;
+  }
+
+  private companyFacts(conversation: Conversation, entities: ExtractedEntity[], language: LeadBriefLanguage): string[] {
+    const labels = LABELS[language];
+    const company = entities.find(entity => entity.entityType === 'company')?.attributes || {};
+    const person = entities.find(entity => entity.entityType === 'person')?.attributes || {};
+    const industry = company.industry || entities.find(entity => entity.entityType === 'industry')?.entityName || conversation.industryVertical;
+    const employees = company.employeeCount || company.companySize;
+
+    return [
+      industry ? `${labels.industry}: ${industry}` : null,
+      employees ? `${labels.employees}: ${employees}` : null,
+      company.revenue ? `${labels.revenue}: ${company.revenue}` : null,
+      person.title ? `${labels.role}: ${person.title}${person.seniority ? ` (${person.seniority})` : ''}` : null
+    ].filter((fact): fact is string => fact !== null);
+  }
+
+  private headline(
+    conversation: Conversation,
+    metrics: ConversationMetrics | undefined,
+    entities: ExtractedEntity[],
+    language: LeadBriefLanguage
+  ): string {
+    const labels = LABELS[language];
+    const painPoint = entities.find(entity => entity.entityType === 'pain_point')?.entityName;
+    return [
+      conversation.company || conversation.contactName,
+      conversation.region,
+      `${labels.qualification} ${Math.round((metrics?.qualificationScore ?? conversation.qualificationScore ?? 0) * 100)}%`,
+      painPoint ? `${labels.need}: ${painPoint}` : null
+    ].filter(Boolean).join(' · ');
+  }
+
+  private nextStep(
+    conversation: Conversation,
+    metrics: ConversationMetrics | undefined,
+    bant: LeadBriefBant[],
+    icp: IcpEvaluation | undefined,
+    meeting: Meeting | undefined,
+    language: LeadBriefLanguage
+  ): string {
+    const steps = NEXT_STEPS[language];
+
+    if (meeting) {
+      return steps.meeting
+        .replace('{when}', formatMeeting(meeting.startsAt!, meeting.leadTimezone, language))
+        .replace('{consultant}', meeting.consultantName || '—');
+    }
+    if (conversation.status === 'disqualified') {
+      const reason = icp?.results.find(result => icp.knockedOutBy.includes(result.ruleId))?.label || LABELS[language].icp;
+      return steps.disqualified.replace('{reason}', reason);
+    }
+    if ((metrics?.objectionRisk || 0) >= this.config.confirmedAt) return steps.objections;
+    if (conversation.status === 'qualified') return steps.book;
+
+    const gap = bant.find(item => item.status === 'unknown') || bant.find(item => item.status === 'partial');
+    return gap ? steps.qualify.replace('{question}', BANT_QUESTIONS[language][gap.dimension]) : steps.nurture;
+  }
+
+  private meetingLabel(brief: LeadBrief): string {
+    const when = formatMeeting(new Date(brief.meeting!.startsAt), null, brief.language);
+    return brief.meeting!.consultantName ? `${when} · ${brief.meeting!.consultantName}` : when;
+  }
+
+  /** One entity per type and name, keeping the most confident extraction */
+  private dedupeEntities(entities: ExtractedEntity[]): ExtractedEntity[] {
+    const byKey = new Map<string, ExtractedEntity>();
+    for (const entity of entities) {
+      if (!entity?.entityName || (entity.confidence || 0) < this.config.minEntityConfidence) continue;
+      const key = `${entity.entityType}|${(entity.canonicalName || entity.entityName).toLowerCase()}`;
+      const current = byKey.get(key);
+      if (!current || entity.confidence > current.confidence) byKey.set(key, entity);
+    }
+    return Array.from(byKey.values()).sort((a, b) => b.confidence - a.confidence);
+  }
+
+  private namesOf(entities: ExtractedEntity[], entityType: ExtractedEntity['entityType']): string[] {
+    return entities.filter(entity => entity.entityType === entityType).map(entity => entity.entityName);
+  }
+}
+
+function rank(order: string[], value: string): number {
+  const index = order.indexOf(value);
+  return index === -1 ? order.length : index;
+}
+
+/** "jueves, 22 de octubre de 2026, 10:00", in the lead's zone when known */
+function formatMeeting(date: Date, timeZone: string | null, language: LeadBriefLanguage): string {
+  const formatted = date.toLocaleString(language === 'es' ? 'es-ES' : 'en-GB', {
+    dateStyle: 'full',
+    timeStyle: 'short',
+    ...(timeZone ? { timeZone } : {})
+  });
+  return timeZone ? `${formatted} (${timeZone})` : formatted;
+}
+
+// Minimal PDF writer: A4 pages of wrapped Helvetica text, enough for a one or two page brief
+
+interface PdfBlock {
+  text: string;
+  size: number;
+  bold?: boolean;
+  indent?: number;
+}
+
+const PDF_PAGE = { width: 595, height: 842, margin: 50 };
+
+// WinAnsi code points for the characters outside Latin-1 that briefs use
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '•': 0x95, '–': 0x96, '—': 0x97, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94
+};
+
+/** WinAnsi byte of a character, or null when Helvetica's encoding has none (emoji, CJK, most symbols) */
+function winAnsiCode(char: string): number | null {
+  const code = WIN_ANSI_EXTRAS[char] ?? char.charCodeAt(0);
+  return code > 0xff || char.length > 1 ? null : code;
+}
+
+function pdfCanShow(text: string): boolean {
+  return Array.from(text).every(char => winAnsiCode(char) !== null);
+}
+
+/** Literal string in WinAnsi; characters without a code become "?" */
+function pdfString(text: string): string {
+  let encoded = '';
+  for (const char of Array.from(text)) {
+    const code = winAnsiCode(char);
+    if (code === null) {
+      encoded += '?';
+    } else if (char === '(' || char === ')' || char === '\\') {
+      encoded += `\\${char}`;
+    } else if (code < 0x20 || code > 0x7e) {
+      encoded += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      encoded += char;
+    }
+  }
+  return `(${encoded})`;
+}
+
+/**
+ * Greedy word wrap on an average Helvetica glyph width; bold runs a little wider.
+ * Words longer than a line (URLs, e-mail addresses) are broken where the line ends.
+ */
+function wrapPdfLine(block: PdfBlock): string[] {
+  const width = PDF_PAGE.width - 2 * PDF_PAGE.margin - (block.indent || 0);
+  const maxChars = Math.floor(width / (block.size * (block.bold ? 0.56 : 0.5)));
+  const lines: string[] = [];
+  let current = '';
+
+  const words = block.text.split(' ').flatMap(word => {
+    const chars = Array.from(word);
+    if (chars.length <= maxChars) return [word];
+
+    const pieces: string[] = [];
+    for (let start = 0; start < chars.length; start += maxChars) {
+      pieces.push(chars.slice(start, start + maxChars).join(''));
+    }
+    return pieces;
+  });
+
+  for (const word of words) {
+    if (current && (current + ' ' + word).length > maxChars) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  lines.push(current);
+  return lines;
+}
+
+function renderPdf(blocks: PdfBlock[]): Buffer {
+  const pages: string[][] = [[]];
+  let y = PDF_PAGE.height - PDF_PAGE.margin;
+
+  for (const block of blocks) {
+    const leading = block.size * 1.4;
+    for (const line of wrapPdfLine(block)) {
+      if (y - leading < PDF_PAGE.margin) {
+        pages.push([]);
+        y = PDF_PAGE.height - PDF_PAGE.margin;
+      }
+      y -= leading;
+      if (line) {
+        pages[pages.length - 1].push(
+          `BT /${block.bold ? 'F2' : 'F1'} ${block.size} Tf ${PDF_PAGE.margin + (block.indent || 0)} ${y.toFixed(1)} Td ${pdfString(line)} Tj ET`
+        );
+      }
+    }
+  }
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, then a page and its content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  pages.forEach((commands, index) => {
+    const stream = commands.join('\n');
+    objects[pageIds[index]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE.width} ${PDF_PAGE.height}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`;
+    objects[pageIds[index] + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xref = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+export const leadBriefService = new LeadBriefService();
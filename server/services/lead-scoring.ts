@@ -0,0 +1,450 @@
+// Predictive lead scoring.
+// A logistic regression over the metric vector a deal was qualified with (deals.qualificationMetrics),
+// trained against won or lost once deals close. Every retrain is a new version with its cross-validated
+// reliability diagram; the active version turns each metrics calculation into a calibrated win
+// probability (conversationMetrics.advanceProbability) and an expected value (probability × budget).
+// Until a model has been trained, a hand-weighted blend of the dimension scores stands in.
+
+import { nanoid } from 'nanoid';
+import { storage } from '../storage';
+import type {
+  ConversationMetrics,
+  InsertConversationMetrics,
+  LeadScore,
+  ReliabilityBin,
+  ScoringFeatureImportance,
+  ScoringModel,
+  ScoringModelMetrics
+} from '@shared/schema';
+
+type MetricsSnapshot = Partial<InsertConversationMetrics | ConversationMetrics>;
+
+export interface LeadScoringConfig {
+  minTrainingDeals: number;
+  minPerClass: number; // Won and lost deals each need at least this many
+  folds: number;
+  iterations: number;
+  learningRate: number;
+  l2: number;
+  reliabilityBins: number;
+  reloadMs: number; // How often the server picks up a model activated elsewhere (e.g. the CLI)
+}
+
+/** Raised when the closed deals cannot support a model yet */
+export class ScoringTrainingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScoringTrainingError';
+  }
+}
+
+export const SCORING_FEATURES = [
+  'engagementScore', 'responseVelocity', 'dropOffRisk',
+  'qualificationScore', 'budgetSignalStrength', 'authorityScore', 'needIntensity', 'timelineUrgency', 'objectionRisk',
+  'technicalScore', 'scopeClarity', 'organizationalMaturity', 'feasibilityBlockers',
+  'emotionalScore', 'trustLevel', 'frustrationLevel', 'enthusiasmLevel',
+  'culturalScore', 'conversationHealthScore', 'coverageRatio',
+  'messageCount', 'budgetLog'
+] as const;
+export type ScoringFeature = typeof SCORING_FEATURES[number];
+
+export const FEATURE_LABELS: Record<ScoringFeature, string> = {
+  engagementScore: 'Engagement',
+  responseVelocity: 'Response speed',
+  dropOffRisk: 'Drop-off risk',
+  qualificationScore: 'Qualification (BANT)',
+  budgetSignalStrength: 'Budget signal',
+  authorityScore: 'Decision authority',
+  needIntensity: 'Need intensity',
+  timelineUrgency: 'Timeline urgency',
+  objectionRisk: 'Objection risk',
+  technicalScore: 'Technical fit',
+  scopeClarity: 'Scope clarity',
+  organizationalMaturity: 'Organizational maturity',
+  feasibilityBlockers: 'Feasibility blockers',
+  emotionalScore: 'Emotional tone',
+  trustLevel: 'Trust',
+  frustrationLevel: 'Frustration',
+  enthusiasmLevel: 'Enthusiasm',
+  culturalScore: 'Cultural fit',
+  conversationHealthScore: 'Conversation health',
+  coverageRatio: 'Coverage',
+  messageCount: 'Messages exchanged',
+  budgetLog: 'Stated budget (log10)'
+};
+
+// Fallback until the first model: weights over the dimension scores, damped by objection risk
+const HEURISTIC_WEIGHTS = {
+  qualificationScore: 0.4,
+  engagementScore: 0.2,
+  technicalScore: 0.2,
+  emotionalScore: 0.2
+} as const;
+const HEURISTIC_OBJECTION_DAMPING = 0.5;
+
+const EPSILON = 1e-6;
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+function clampProbability(p: number): number {
+  return Math.min(1 - EPSILON, Math.max(EPSILON, p));
+}
+
+function budgetOf(metrics: MetricsSnapshot): number {
+  if (!metrics.budgetRangeMax) return 0;
+  return ((metrics.budgetRangeMin || 0) + metrics.budgetRangeMax) / 2;
+}
+
+export class LeadScoringService {
+  private config: LeadScoringConfig = {
+    minTrainingDeals: parseInt(process.env.SCORING_MIN_TRAINING_DEALS || '30', 10),
+    minPerClass: 5,
+    folds: 5,
+    iterations: 500,
+    learningRate: 0.5,
+    l2: 1,
+    reliabilityBins: 10,
+    reloadMs: parseInt(process.env.SCORING_MODEL_RELOAD_MS || String(5 * 60 * 1000), 10)
+  };
+  private active: ScoringModel | null = null;
+  private loadedAt = 0;
+
+  async load(): Promise<ScoringModel | null> {
+    this.active = (await storage.getActiveScoringModel()) || null;
+    this.loadedAt = Date.now();
+    return this.active;
+  }
+
+  async getActiveModel(): Promise<ScoringModel | null> {
+    if (Date.now() - this.loadedAt > this.config.reloadMs) {
+      await this.load();
+    }
+    return this.active;
+  }
+
+  /** Raw feature values of a metrics row; null where the metric is unknown */
+  extractFeatures(metrics: MetricsSnapshot): Array<number | null> {
+    return SCORING_FEATURES.map(feature => {
+      if (feature === 'budgetLog') {
+        const budget = budgetOf(metrics);
+        return budget > 0 ? Math.log10(1 + budget) : null;
+      }
+      const value = metrics[feature];
+      return typeof value === 'number' && isFinite(value) ? value : null;
+    });
+  }
+
+  /** Win probability and expected value of a metrics calculation */
+  async score(metrics: MetricsSnapshot): Promise<LeadScore> {
+    const model = await this.getActiveModel();
+    const probability = model ? this.predict(model, metrics) : this.heuristic(metrics);
+
+    return {
+      probability: probability.probability,
+      expectedValue: probability.probability * budgetOf(metrics),
+      modelVersion: model?.version ?? null,
+      contributions: probability.contributions,
+      scoredAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Save the score of the latest metrics as a reasoning trace and keep it on the conversation
+   * (metadata.leadScore) for the Why panel. Failures are logged and return null so they never block the reply.
+   */
+  async recordScore(
+    conversationId: string,
+    metrics: InsertConversationMetrics | ConversationMetrics,
+    turnId?: string
+  ): Promise<LeadScore | null> {
+    const startTime = Date.now();
+
+    try {
+      const model = await this.getActiveModel();
+      let leadScore = (metrics.fullMetrics as Record<string, any> | null)?.leadScore as LeadScore | undefined;
+      if (!leadScore || leadScore.modelVersion !== (model?.version ?? null)) {
+        leadScore = await this.score(metrics); // The active model changed since the metrics were calculated
+      }
+
+      leadScore.traceId = await this.saveTrace(conversationId, turnId, metrics, leadScore, model, Date.now() - startTime);
+
+      await storage.mergeConversationMetadata(conversationId, { leadScore });
+
+      return leadScore;
+    } catch (error) {
+      console.error(`Lead scoring failed for conversation ${conversationId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Train a new version on every closed deal. Metrics and the reliability diagram come from
+   * out-of-fold predictions; the saved weights are then fitted on all deals.
+   */
+  async retrain(options: { activate?: boolean; trainedBy?: string; notes?: string } = {}): Promise<ScoringModel> {
+    const closed = await storage.getClosedDealsWithMetrics();
+    const rows = closed.map(deal => ({
+      x: this.extractFeatures(deal.qualificationMetrics as MetricsSnapshot),
+      y: deal.pipelineStage === 'closed_won' ? 1 : 0
+    }));
+
+    const positives = rows.filter(r => r.y === 1).length;
+    const negatives = rows.length - positives;
+    if (rows.length < this.config.minTrainingDeals) {
+      throw new ScoringTrainingError(`${rows.length} closed deals with metrics; at least ${this.config.minTrainingDeals} are needed`);
+    }
+    if (Math.min(positives, negatives) < this.config.minPerClass) {
+      throw new ScoringTrainingError(`${positives} won and ${negatives} lost deals; each needs at least ${this.config.minPerClass}`);
+    }
+
+    // Folds follow creation order so every fold mixes old and new deals
+    const folds = Math.min(this.config.folds, positives, negatives);
+    const outOfFoldLogits = new Array<number>(rows.length);
+    for (let fold = 0; fold < folds; fold++) {
+      const train = rows.filter((_, i) => i % folds !== fold);
+      const fitted = this.fit(train.map(r => r.x), train.map(r => r.y));
+      rows.forEach((row, i) => {
+        if (i % folds === fold) outOfFoldLogits[i] = this.logit(fitted, row.x);
+      });
+    }
+
+    // Platt scaling on the out-of-fold logits; the same predictions are then scored, so metrics are slightly optimistic
+    const platt = this.fitLogistic(outOfFoldLogits.map(z => [z]), rows.map(r => r.y), 0);
+    const calibration = { slope: platt.weights[0], intercept: platt.intercept };
+    const predictions = outOfFoldLogits.map(z => clampProbability(sigmoid(calibration.slope * z + calibration.intercept)));
+    const labels = rows.map(r => r.y);
+
+    const final = this.fit(rows.map(r => r.x), labels);
+    const latest = (await storage.listScoringModels(1))[0];
+
+    const model = await storage.saveScoringModel({
+      version: (latest?.version || 0) + 1,
+      modelType: 'logistic_regression',
+      features: [...SCORING_FEATURES],
+      weights: final.weights,
+      intercept: final.intercept,
+      normalization: { means: final.means, stds: final.stds },
+      calibration,
+      featureImportances: this.importances(final.weights),
+      reliability: this.reliability(predictions, labels),
+      metrics: this.evaluate(predictions, labels, folds),
+      trainingSize: rows.length,
+      positives,
+      isActive: false,
+      trainedBy: options.trainedBy || 'system',
+      notes: options.notes || null
+    });
+
+    return options.activate === false ? model : this.activate(model.id);
+  }
+
+  async activate(id: string): Promise<ScoringModel> {
+    const activated = await storage.activateScoringModel(id);
+    await this.load();
+    return activated;
+  }
+
+  private predict(model: ScoringModel, metrics: MetricsSnapshot): Pick<LeadScore, 'probability' | 'contributions'> {
+    const features = model.features as string[];
+    const weights = model.weights as number[];
+    const { means, stds } = model.normalization as { means: number[]; stds: number[] };
+    const calibration = model.calibration as { slope: number; intercept: number };
+
+    const raw = this.extractFeatures(metrics);
+    const byName = new Map(SCORING_FEATURES.map((feature, i) => [feature as string, raw[i]]));
+
+    // Features the model was trained on but the metrics lack are scored at the training mean
+    const contributions = features.map((feature, i) => {
+      const value = byName.get(feature) ?? null;
+      const z = value === null ? 0 : (value - means[i]) / stds[i];
+      return { feature, value: value ?? means[i], contribution: weights[i] * z };
+    });
+
+    const logit = model.intercept + contributions.reduce((sum, c) => sum + c.contribution, 0);
+    return {
+      probability: sigmoid(calibration.slope * logit + calibration.intercept),
+      contributions: contributions.sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+    };
+  }
+
+  private heuristic(metrics: MetricsSnapshot): Pick<LeadScore, 'probability' | 'contributions'> {
+    const contributions = (Object.keys(HEURISTIC_WEIGHTS) as Array<keyof typeof HEURISTIC_WEIGHTS>).map(feature => {
+      const value = metrics[feature] || 0;
+      return { feature: feature as string, value, contribution: HEURISTIC_WEIGHTS[feature] * value };
+    });
+
+    const blended = contributions.reduce((sum, c) => sum + c.contribution, 0);
+    const damping = 1 - HEURISTIC_OBJECTION_DAMPING * (metrics.objectionRisk || 0);
+
+    return {
+      probability: Math.min(1, Math.max(0, blended * damping)),
+      contributions: contributions.sort((a, b) => b.contribution - a.contribution)
+    };
+  }
+
+  /** Standardize (missing values become the mean) and fit an L2-regularized logistic regression */
+  private fit(x: Array<Array<number | null>>, y: number[]) {
+    const width = SCORING_FEATURES.length;
+    const means: number[] = [];
+    const stds: number[] = [];
+
+    for (let j = 0; j < width; j++) {
+      const present = x.map(row => row[j]).filter((v): v is number => v !== null);
+      const mean = present.length > 0 ? present.reduce((sum, v) => sum + v, 0) / present.length : 0;
+      const variance = present.length > 0 ? present.reduce((sum, v) => sum + (v - mean) ** 2, 0) / present.length : 0;
+      means.push(mean);
+      stds.push(Math.sqrt(variance) > EPSILON ? Math.sqrt(variance) : 1); // Constant features stay at 0
+    }
+
+    const standardized = x.map(row => row.map((v, j) => (v === null ? 0 : (v - means[j]) / stds[j])));
+    return { ...this.fitLogistic(standardized, y, this.config.l2), means, stds };
+  }
+
+  /** Batch gradient descent on the mean log loss plus l2/n · ½‖w‖² (the intercept is not penalized) */
+  private fitLogistic(x: number[][], y: number[], l2: number): { weights: number[]; intercept: number } {
+    const n = x.length;
+    const width = x[0]?.length || 0;
+    const weights = new Array<number>(width).fill(0);
+    const baseRate = clampProbability(y.reduce((sum, v) => sum + v, 0) / n);
+    let intercept = Math.log(baseRate / (1 - baseRate));
+
+    for (let iteration = 0; iteration < this.config.iterations; iteration++) {
+      const gradient = new Array<number>(width).fill(0);
+      let interceptGradient = 0;
+
+      for (let i = 0; i < n; i++) {
+        const error = sigmoid(intercept + x[i].reduce((sum, v, j) => sum + v * weights[j], 0)) - y[i];
+        interceptGradient += error;
+        for (let j = 0; j < width; j++) gradient[j] += error * x[i][j];
+      }
+
+      intercept -= this.config.learningRate * interceptGradient / n;
+      for (let j = 0; j < width; j++) {
+        weights[j] -= this.config.learningRate * (gradient[j] + l2 * weights[j]) / n;
+      }
+    }
+
+    return { weights, intercept };
+  }
+
+  private logit(fitted: { weights: number[]; intercept: number; means: number[]; stds: number[] }, x: Array<number | null>): number {
+    return fitted.intercept + x.reduce<number>(
+      (sum, v, j) => sum + (v === null ? 0 : fitted.weights[j] * (v - fitted.means[j]) / fitted.stds[j]),
+      0
+    );
+  }
+
+  private importances(weights: number[]): ScoringFeatureImportance[] {
+    const total = weights.reduce((sum, w) => sum + Math.abs(w), 0);
+    return SCORING_FEATURES
+      .map((feature, i) => ({ feature, weight: weights[i], importance: total > 0 ? Math.abs(weights[i]) / total : 0 }))
+      .sort((a, b) => b.importance - a.importance);
+  }
+
+  /** Equal-width bins of predicted probability against the observed win rate; empty bins are left out */
+  private reliability(predictions: number[], labels: number[]): ReliabilityBin[] {
+    const bins = this.config.reliabilityBins;
+    const result: ReliabilityBin[] = [];
+
+    for (let b = 0; b < bins; b++) {
+      const lower = b / bins;
+      const upper = (b + 1) / bins;
+      const members = predictions
+        .map((p, i) => ({ p, y: labels[i] }))
+        .filter(({ p }) => p >= lower && (p < upper || (b === bins - 1 && p <= upper)));
+      if (members.length === 0) continue;
+
+      result.push({
+        lower,
+        upper,
+        count: members.length,
+        meanPredicted: members.reduce((sum, m) => sum + m.p, 0) / members.length,
+        observedRate: members.reduce((sum, m) => sum + m.y, 0) / members.length
+      });
+    }
+    return result;
+  }
+
+  private evaluate(predictions: number[], labels: number[], folds: number): ScoringModelMetrics {
+    const n = predictions.length;
+    const positives = labels.filter(y => y === 1).length;
+
+    // AUC as the share of won/lost pairs ranked correctly, ties counting half
+    let concordant = 0;
+    for (let i = 0; i < n; i++) {
+      if (labels[i] !== 1) continue;
+      for (let j = 0; j < n; j++) {
+        if (labels[j] !== 0) continue;
+        concordant += predictions[i] > predictions[j] ? 1 : predictions[i] === predictions[j] ? 0.5 : 0;
+      }
+    }
+
+    return {
+      auc: concordant / (positives * (n - positives)),
+      brierScore: predictions.reduce((sum, p, i) => sum + (p - labels[i]) ** 2, 0) / n,
+      logLoss: -predictions.reduce((sum, p, i) => sum + (labels[i] === 1 ? Math.log(p) : Math.log(1 - p)), 0) / n,
+      baseRate: positives / n,
+      folds
+    };
+  }
+
+  private async saveTrace(
+    conversationId: string,
+    turnId: string | undefined,
+    metrics: MetricsSnapshot,
+    leadScore: LeadScore,
+    model: ScoringModel | null,
+    processingTimeMs: number
+  ): Promise<string> {
+    const raw = this.extractFeatures(metrics);
+    const known = new Set(SCORING_FEATURES.filter((_, i) => raw[i] !== null) as string[]);
+    const importances = (model?.featureImportances as ScoringFeatureImportance[] | undefined) || [];
+    const importanceOf = new Map(importances.map(i => [i.feature, i.importance]));
+    const labelOf = (feature: string) => FEATURE_LABELS[feature as ScoringFeature] || feature;
+    const probability = `${Math.round(leadScore.probability * 100)}%`;
+    const modelMetrics = model?.metrics as ScoringModelMetrics | undefined;
+
+    const trace = await storage.saveReasoningTrace({
+      turnId: turnId || nanoid(),
+      conversationId,
+      decisionType: 'qualification_assessment',
+      features: Object.fromEntries(SCORING_FEATURES.map((feature, i) => [feature, raw[i]])),
+      candidates: [],
+      chosen: {
+        probability: leadScore.probability,
+        expectedValue: leadScore.expectedValue,
+        modelVersion: leadScore.modelVersion,
+        featureImportances: importances
+      },
+      reasoningChain: leadScore.contributions.map((c, index) => ({
+        step: index + 1,
+        description: labelOf(c.feature),
+        evidence: known.has(c.feature) ? [`${c.feature} = ${Number(c.value.toFixed(3))}`] : [],
+        confidence: known.has(c.feature) ? 1 : 0,
+        reasoning: model
+          ? `${c.contribution >= 0 ? 'Raises' : 'Lowers'} the win odds by ${Math.abs(c.contribution).toFixed(2)} logit; ${Math.round((importanceOf.get(c.feature) || 0) * 100)}% of the model's weight`
+          : `Hand-weighted: adds ${Math.round(c.contribution * 100)} points`,
+        dataUsed: { feature: c.feature, value: c.value, contribution: c.contribution, importance: importanceOf.get(c.feature) ?? null },
+        alternatives: []
+      })),
+      confidence: known.size / SCORING_FEATURES.length,
+      policyVersion: model ? `lead-scoring-v${model.version}` : 'lead-scoring-heuristic',
+      traceId: nanoid(),
+      processingTimeMs,
+      businessJustification: model
+        ? `Win probability ${probability} from scoring model v${model.version} (AUC ${modelMetrics?.auc.toFixed(2)}, ${model.trainingSize} closed deals)`
+        : `Win probability ${probability} from the hand-weighted fallback; no scoring model has been trained yet`,
+      riskFactors: SCORING_FEATURES
+        .filter(f => !known.has(f))
+        .map(f => model ? `${labelOf(f)}: unknown, scored at the training average` : `${labelOf(f)}: unknown`),
+      alternativesConsidered: [],
+      model: model ? model.modelType : 'hand-weighted'
+    });
+
+    return trace.id;
+  }
+}
+
+export const leadScoringService = new LeadScoringService();
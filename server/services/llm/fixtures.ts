@@ -0,0 +1,111 @@
+import type { LLMTask } from './types';
+
+/**
+ * Canned response for the stub provider. The first fixture whose task matches and whose
+ * `match` pattern (case-insensitive) is found in the prompt wins; fixtures without `match`
+ * are the task's default.
+ */
+export interface LLMFixture {
+  task: LLMTask;
+  match?: string;
+  response: string | Record<string, any>;
+}
+
+const NO_REASONING = {
+  decisionType: 'stub',
+  inputFeatures: {},
+  candidatesConsidered: [],
+  chosenOption: 'stub_fixture',
+  reasoningSteps: [],
+  finalConfidence: 0.5,
+  alternativesConsidered: [],
+  riskFactors: [],
+  businessJustification: 'Deterministic stub response'
+};
+
+const MESSAGE_ANALYSIS = {
+  sentiment: 0.2,
+  technicalLevel: 0.3,
+  urgencyLevel: 0.3,
+  budgetSignals: [],
+  authoritySignals: [],
+  needSignals: [],
+  culturalMarkers: [],
+  objectionTone: 0.1,
+  dealSizeIndicators: [],
+  advancementSignals: []
+};
+
+const CULTURAL_ANALYSIS = {
+  formalityLevel: 0.6,
+  formalityMarkers: { ustedUsage: true, tuteoUsage: false, voseoUsage: false, formalGreetings: [], informalMarkers: [] },
+  codeSwitching: { detected: false, spanishEnglishMix: [], sophisticationLevel: 0.5 },
+  negotiationStyle: { politenessLevel: 0.6, directnessLevel: 0.5, hierarchyRespect: 0.5, timeOrientation: 'mixed' },
+  schedulingEtiquette: { timeReferences: [], flexibilityIndicators: [], urgencyMarkers: [] },
+  regionalMarkers: { countryIndicators: [], dialectMarkers: [], businessCultureSignals: [] },
+  communicationPatterns: { indirectness: 0.5, contextualness: 0.5, relationshipFocus: 0.5 }
+};
+
+const QUESTION_SUGGESTION = {
+  question: '¿Qué presupuesto tenéis previsto para este proyecto?',
+  category: 'budget',
+  expectedMetrics: ['budget'],
+  confidence: 0.5,
+  urgency: 0.3
+};
+
+// Neutral answers that keep every pipeline stage on its normal path
+export const DEFAULT_FIXTURES: LLMFixture[] = [
+  {
+    task: 'lead_extraction',
+    response: {
+      entities: [],
+      sentiment: { score: 0.2, label: 'neutral', confidence: 0.6, reasoning: 'Stub analysis' },
+      formality: { formality: 'formal', confidence: 0.6, markers: [] },
+      budgetSignals: { hasExplicitBudget: false, budgetIndicators: [], confidence: 0.3, meetsMinimum: false },
+      spocAvailability: { hasDesignatedContact: false, availabilityIndicators: [], confidence: 0.3, meetsMinimum: false },
+      digitalMaturity: { maturityLevel: 'medium', indicators: [], hasCurrentTools: false, hasProcesses: false, hasTechnicalTeam: false, confidence: 0.3 },
+      authoritySignals: { authorityLevel: 'information-gatherer', decisionProcess: 'unknown', confidence: 0.3 },
+      urgencySignals: { urgencyLevel: 'medium', indicators: [], confidence: 0.3 },
+      confusionLevel: 0.1,
+      frustrationLevel: 0.1,
+      keyInsights: []
+    }
+  },
+  // The xAI prompts nest their answer next to a reasoning block, the OpenAI ones return it flat
+  {
+    task: 'message_analysis',
+    response: { ...MESSAGE_ANALYSIS, analysis: MESSAGE_ANALYSIS, reasoning: { ...NO_REASONING, decisionType: 'message_analysis' } }
+  },
+  {
+    task: 'cultural_analysis',
+    response: { ...CULTURAL_ANALYSIS, culturalAnalysis: CULTURAL_ANALYSIS, reasoning: { ...NO_REASONING, decisionType: 'cultural_analysis' } }
+  },
+  {
+    task: 'question_suggestion',
+    response: { ...QUESTION_SUGGESTION, reasoning: 'Stub suggestion', suggestion: QUESTION_SUGGESTION }
+  },
+  {
+    task: 'metric_explanation',
+    response: {
+      explanation: 'Stub explanation of the metric value',
+      reasoning: { ...NO_REASONING, decisionType: 'metric_explanation' }
+    }
+  },
+  {
+    task: 'pattern_detection',
+    response: { pattern: 'relationship_builder', confidence: 0.3, characteristics: [], recommendations: ['Continue gathering information'] }
+  },
+  {
+    task: 'conversation_simulation',
+    response: {
+      success: true,
+      messages: [
+        { direction: 'incoming', content: 'Hola, buenos días. Me interesa saber más sobre vuestros servicios de automatización.' },
+        { direction: 'outgoing', content: 'Buenos días. Encantados de ayudarle. ¿Qué procesos le gustaría automatizar?' },
+        { direction: 'incoming', content: 'Sobre todo la facturación. Tenemos un presupuesto de unos 8.000 euros.' },
+        { direction: 'outgoing', content: 'Perfecto. ¿Quién sería la persona de contacto y cuántas horas semanales podría dedicar?' }
+      ]
+    }
+  }
+];
@@ -0,0 +1,71 @@
+// One entry point for every LLM call. Callers name the task; configuration picks the provider
+// and model per task, so analysis can run on xAI while simulations use a local model,
+// and LLM_PROVIDER=stub runs the whole pipeline offline against fixtures.
+
+import { xaiProvider, openaiProvider, localProvider } from './openai-compatible';
+import { StubProvider } from './stub';
+import {
+  LLM_PROVIDER_NAMES,
+  type ChatMessage,
+  type ChatOptions,
+  type ChatResult,
+  type LLMProvider,
+  type LLMProviderName,
+  type LLMTask
+} from './types';
+
+export * from './types';
+export type { LLMFixture } from './fixtures';
+export { StubProvider } from './stub';
+
+export interface TaskChatOptions extends ChatOptions {
+  provider?: LLMProviderName; // Caller's preference; task and global configuration override it
+}
+
+export class LLMService {
+  private providers: Map<LLMProviderName, LLMProvider> = new Map();
+
+  constructor() {
+    [xaiProvider, openaiProvider, localProvider, StubProvider.fromEnv()].forEach(provider => this.register(provider));
+  }
+
+  register(provider: LLMProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Provider for a task: LLM_PROVIDER_<TASK>, then LLM_PROVIDER, then the caller's preference, then xAI
+   */
+  providerFor(task: LLMTask, preferred?: LLMProviderName): LLMProvider {
+    const configured = process.env[`LLM_PROVIDER_${task.toUpperCase()}`] || process.env.LLM_PROVIDER;
+    const name = configured && LLM_PROVIDER_NAMES.includes(configured as LLMProviderName)
+      ? configured as LLMProviderName
+      : preferred || 'xai';
+
+    return this.providers.get(name)!;
+  }
+
+  /** Model a task runs on, as recorded in reasoning traces */
+  modelFor(task: LLMTask, preferred?: LLMProviderName): string {
+    return process.env[`LLM_MODEL_${task.toUpperCase()}`] || this.providerFor(task, preferred).defaultModel;
+  }
+
+  async chat(task: LLMTask, messages: ChatMessage[], options: TaskChatOptions = {}): Promise<ChatResult> {
+    const { provider: preferred, ...chatOptions } = options;
+    const provider = this.providerFor(task, preferred);
+
+    return provider.chat(task, messages, {
+      ...chatOptions,
+      model: chatOptions.model || process.env[`LLM_MODEL_${task.toUpperCase()}`] || undefined
+    });
+  }
+
+  /** Chat in JSON mode and parse the reply; tolerates models that wrap JSON in a code fence */
+  async json<T = any>(task: LLMTask, messages: ChatMessage[], options: TaskChatOptions = {}): Promise<T> {
+    const { content } = await this.chat(task, messages, { ...options, json: true });
+    const unfenced = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    return JSON.parse(unfenced) as T;
+  }
+}
+
+export const llmService = new LLMService();
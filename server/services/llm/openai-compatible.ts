@@ -0,0 +1,64 @@
+import OpenAI from "openai";
+import type { ChatMessage, ChatOptions, ChatResult, LLMProvider, LLMProviderName, LLMTask } from './types';
+
+interface OpenAICompatibleConfig {
+  name: LLMProviderName;
+  apiKey?: string;
+  baseURL?: string;
+  defaultModel: string;
+}
+
+/** xAI, OpenAI and local servers (Ollama, vLLM, LM Studio) all speak the chat completions API */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  readonly defaultModel: string;
+  private client: OpenAI;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.name = config.name;
+    this.defaultModel = config.defaultModel;
+    this.client = new OpenAI({
+      baseURL: config.baseURL,
+      apiKey: config.apiKey || 'not-configured'
+    });
+  }
+
+  async chat(task: LLMTask, messages: ChatMessage[], options: ChatOptions): Promise<ChatResult> {
+    const model = options.model || this.defaultModel;
+
+    const response = await this.client.chat.completions.create({
+      model,
+      messages,
+      ...(options.json ? { response_format: { type: "json_object" as const } } : {}),
+      ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+      ...(options.maxTokens ? { max_tokens: options.maxTokens } : {})
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error(`Empty ${this.name} response for ${task}`);
+    }
+
+    return { content, provider: this.name, model };
+  }
+}
+
+export const xaiProvider = new OpenAICompatibleProvider({
+  name: 'xai',
+  baseURL: "https://api.x.ai/v1",
+  apiKey: process.env.XAI_API_KEY,
+  defaultModel: process.env.XAI_MODEL || "grok-2-1212"
+});
+
+export const openaiProvider = new OpenAICompatibleProvider({
+  name: 'openai',
+  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_KEY,
+  defaultModel: process.env.OPENAI_MODEL || "gpt-5"
+});
+
+export const localProvider = new OpenAICompatibleProvider({
+  name: 'local',
+  baseURL: process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+  apiKey: process.env.LOCAL_LLM_API_KEY,
+  defaultModel: process.env.LOCAL_LLM_MODEL || "llama3.1"
+});
@@ -0,0 +1,45 @@
+import { readFileSync } from 'fs';
+import { DEFAULT_FIXTURES, type LLMFixture } from './fixtures';
+import type { ChatMessage, ChatOptions, ChatResult, LLMProvider, LLMTask } from './types';
+
+/**
+ * Deterministic provider for tests and offline development: answers from fixtures instead of a model,
+ * so the same prompt always gets the same response and the webhook pipeline runs without API keys.
+ * Extra fixtures are read from the JSON array at LLM_STUB_FIXTURES and take precedence over the defaults;
+ * tests can also register `new StubProvider(fixtures)` on the LLM service.
+ */
+export class StubProvider implements LLMProvider {
+  readonly name = 'stub' as const;
+  readonly defaultModel = 'stub-fixtures';
+  private fixtures: LLMFixture[];
+
+  constructor(fixtures: LLMFixture[] = []) {
+    this.fixtures = [...fixtures, ...DEFAULT_FIXTURES];
+  }
+
+  static fromEnv(): StubProvider {
+    const path = process.env.LLM_STUB_FIXTURES;
+    if (!path) return new StubProvider();
+
+    try {
+      return new StubProvider(JSON.parse(readFileSync(path, 'utf-8')));
+    } catch (error) {
+      console.error(`Failed to load LLM stub fixtures from ${path}:`, error);
+      return new StubProvider();
+    }
+  }
+
+  async chat(task: LLMTask, messages: ChatMessage[], options: ChatOptions): Promise<ChatResult> {
+    const prompt = messages.map(m => m.content).join('\n');
+    const fixture = this.fixtures.find(f =>
+      f.task === task && (!f.match || new RegExp(f.match, 'i').test(prompt))
+    );
+
+    const response = fixture?.response ?? {};
+    return {
+      content: typeof response === 'string' ? response : JSON.stringify(response),
+      provider: this.name,
+      model: options.model || this.defaultModel
+    };
+  }
+}
@@ -0,0 +1,37 @@
+export type LLMProviderName = 'xai' | 'openai' | 'local' | 'stub';
+
+export const LLM_PROVIDER_NAMES: readonly LLMProviderName[] = ['xai', 'openai', 'local', 'stub'];
+
+/** What a call is for; providers and models are configured per task (LLM_PROVIDER_<TASK>, LLM_MODEL_<TASK>) */
+export type LLMTask =
+  | 'lead_extraction' // Structured lead analysis feeding the metrics pipeline
+  | 'message_analysis'
+  | 'cultural_analysis'
+  | 'question_suggestion'
+  | 'metric_explanation'
+  | 'pattern_detection'
+  | 'conversation_simulation';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatOptions {
+  model?: string; // Overrides the task and provider default
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask for a single JSON object
+}
+
+export interface ChatResult {
+  content: string;
+  provider: LLMProviderName;
+  model: string;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly defaultModel: string;
+  chat(task: LLMTask, messages: ChatMessage[], options: ChatOptions): Promise<ChatResult>;
+}
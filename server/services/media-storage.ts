@@ -0,0 +1,92 @@
+// Storage for inbound media attachments (images, voice notes, documents).
+// The backend is pluggable; local disk is the default and the only one bundled.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { nanoid } from 'nanoid';
+
+export interface StoredMedia {
+  key: string;
+  size: number;
+  mimeType: string;
+}
+
+export interface MediaStorageBackend {
+  readonly name: string;
+  save(key: string, data: Buffer, mimeType: string): Promise<void>;
+  read(key: string): Promise<Buffer | null>;
+}
+
+export class LocalMediaStorageBackend implements MediaStorageBackend {
+  readonly name = 'local';
+
+  constructor(private rootDir: string) {}
+
+  async save(key: string, data: Buffer, _mimeType: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch {
+      return null;
+    }
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    // Keys come from our own generator, but never let one escape the media root
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid media key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'video/mp4': 'mp4',
+  'application/pdf': 'pdf'
+};
+
+export class MediaStorageService {
+  private backend: MediaStorageBackend;
+
+  constructor() {
+    this.backend = new LocalMediaStorageBackend(process.env.MEDIA_STORAGE_DIR || path.resolve('uploads', 'media'));
+  }
+
+  /** Swap the backend (e.g. an S3 implementation) at startup */
+  setBackend(backend: MediaStorageBackend): void {
+    this.backend = backend;
+  }
+
+  getBackendName(): string {
+    return this.backend.name;
+  }
+
+  async store(channel: string, data: Buffer, mimeType: string): Promise<StoredMedia> {
+    const baseType = mimeType.split(';')[0].trim();
+    const extension = EXTENSIONS[baseType] || 'bin';
+    const month = new Date().toISOString().slice(0, 7);
+    const key = `${channel}/${month}/${nanoid()}.${extension}`;
+
+    await this.backend.save(key, data, baseType);
+
+    return { key, size: data.length, mimeType: baseType };
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    return this.backend.read(key);
+  }
+}
+
+export const mediaStorageService = new MediaStorageService();
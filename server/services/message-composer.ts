@@ -1,15 +1,21 @@
 // MessageComposer - Transforms raw questions into natural B2B conversations
 // Implements greeting, acknowledgment, transition, and contextual wrapping
 // Supports Spanish B2B cultural norms and regional variations
+// Texts come from the message template library (see ./message-templates)
 
 import type {
   Conversation,
   Message,
   ConversationMetrics,
-  QuestionBank
+  QuestionBank,
+  ExpectedResponseOption,
+  MessageTemplateType,
+  MessageTemplateUse
 } from "@shared/schema";
 import { storage } from "../storage";
 import { grokNLPService } from "./grok-nlp";
+import { messageTemplateService, type TemplateKeys } from "./message-templates";
+import type { InteractivePrompt } from "./channels";
 
 // Conversation phases for state machine
 export type ConversationPhase =
@@ -21,6 +27,7 @@ export type ConversationPhase =
 
 export interface MessageContext {
   conversationId: string;
+  workspaceId?: string | null; // Whose message templates apply
   phase: ConversationPhase;
   messageCount: number;
   lastUserMessage?: string;
@@ -43,17 +50,6 @@ export interface MessageComponents {
   closing?: string;
 }
 
-export interface MessageTemplate {
-  id: string;
-  type: 'greeting' | 'acknowledgment' | 'transition' | 'closing';
-  phase: ConversationPhase;
-  region: string;
-  formality: 'formal' | 'informal';
-  timeContext?: 'morning' | 'afternoon' | 'evening' | 'night';
-  template: string;
-  variants: string[];
-}
-
 export interface ValidationResult {
   isValid: boolean;
   score: number;
@@ -62,21 +58,31 @@ export interface ValidationResult {
   suggestions: string[];
 }
 
-export class MessageComposer {
-  private templates: MessageTemplate[] = [];
+export interface ComposedMessage {
+  text: string;
+  interactive?: InteractivePrompt; // Set when the question's expected responses can be tapped
+  templates?: MessageTemplateUse[]; // Template variants the text was built from
+}
 
-  constructor() {
-    this.loadTemplates();
-  }
+// WhatsApp limits: reply buttons hold 3 options of 20 characters, list pickers 10 rows of 24
+const MAX_BUTTON_OPTIONS = 3;
+const MAX_BUTTON_TITLE = 20;
+const MAX_LIST_OPTIONS = 10;
+const MAX_LIST_TITLE = 24;
 
+export class MessageComposer {
   /**
-   * Main entry point - compose a complete message from a raw question
+   * Main entry point - compose a complete message from a raw question.
+   * The template variants used are appended to `uses`.
    */
   async composeMessage(
     question: QuestionBank,
-    context: MessageContext
+    context: MessageContext,
+    uses: MessageTemplateUse[] = []
   ): Promise<string> {
 
+    await messageTemplateService.load(context.workspaceId);
+
     // Determine components needed based on phase and context
     const components: MessageComponents = {
       coreQuestion: question.questionText
@@ -84,14 +90,16 @@ export class MessageComposer {
 
     // Add greeting for first message or phase changes
     if (context.isFirstMessage || context.phase === 'greeting') {
-      components.greeting = this.selectGreeting(context);
+      components.greeting = this.selectGreeting(context, uses);
     }
 
     // Add acknowledgment if user just responded
     if (context.lastUserMessage && !context.isFirstMessage) {
       components.acknowledgment = this.createAcknowledgment(
         context.lastUserMessage,
-        context.lastUserSentiment || 'neutral'
+        context.lastUserSentiment || 'neutral',
+        context,
+        uses
       );
     }
 
@@ -101,12 +109,13 @@ export class MessageComposer {
       components.transition = this.generateTransition(
         context.previousTopic,
         context.nextTopic,
-        context
+        context,
+        uses
       );
     }
 
     // Wrap question in context
-    components.context = this.wrapQuestion(question, context);
+    components.context = this.wrapQuestion(question, context, uses);
 
     // Compose final message
     const message = this.assembleMessage(components, context);
@@ -122,6 +131,58 @@ export class MessageComposer {
     return message;
   }
 
+  /**
+   * Compose a message and, when the question has enumerable expected responses,
+   * the reply buttons or list picker to deliver it with
+   */
+  async composeOutboundMessage(
+    question: QuestionBank,
+    context: MessageContext
+  ): Promise<ComposedMessage> {
+    const templates: MessageTemplateUse[] = [];
+    const text = await this.composeMessage(question, context, templates);
+    const interactive = this.selectInteractiveFormat(question);
+
+    return interactive ? { text, interactive, templates } : { text, templates };
+  }
+
+  /**
+   * Pick buttons for short option sets, a list picker for longer ones,
+   * and plain text when the answers are open-ended
+   */
+  selectInteractiveFormat(question: QuestionBank): InteractivePrompt | undefined {
+    const options = MessageComposer.getResponseOptions(question);
+
+    if (options.length < 2 || options.length > MAX_LIST_OPTIONS) {
+      return undefined;
+    }
+
+    const fitsButtons = options.length <= MAX_BUTTON_OPTIONS &&
+      options.every(option => option.label.length <= MAX_BUTTON_TITLE);
+
+    if (fitsButtons) {
+      return {
+        format: 'buttons',
+        options: options.map(option => ({
+          id: MessageComposer.encodeReplyId(question.id, option.id),
+          title: option.label
+        }))
+      };
+    }
+
+    return {
+      format: 'list',
+      buttonText: 'Ver opciones',
+      options: options.map(option => ({
+        id: MessageComposer.encodeReplyId(question.id, option.id),
+        title: option.label.slice(0, MAX_LIST_TITLE),
+        // Keep the full label visible when the row title had to be cut
+        description: option.description ||
+          (option.label.length > MAX_LIST_TITLE ? option.label : undefined)
+      }))
+    };
+  }
+
   /**
    * Determine current conversation phase based on state
    */
@@ -171,47 +232,9 @@ export class MessageComposer {
   /**
    * Select appropriate greeting based on context
    */
-  selectGreeting(context: MessageContext): string {
-    const { timeOfDay, isReturningUser, region, userFormality } = context;
-    const formality = userFormality || 'formal'; // Default to formal for B2B
-
-    // Returning user greetings
-    if (isReturningUser) {
-      const returningGreetings = [
-        '¡Hola de nuevo! 👋',
-        'Hola, ¿qué tal?',
-        'Encantado de hablar contigo nuevamente.'
-      ];
-      return this.selectVariant(returningGreetings, context);
-    }
-
-    // First contact - time-based greeting
-    let timeGreeting = '';
-    switch (timeOfDay) {
-      case 'morning':
-        timeGreeting = '¡Buenos días!';
-        break;
-      case 'afternoon':
-        timeGreeting = '¡Buenas tardes!';
-        break;
-      case 'evening':
-      case 'night':
-        timeGreeting = '¡Buenas noches!';
-        break;
-    }
-
-    // Build complete greeting
-    const introduction = formality === 'formal'
-      ? 'Soy Lidia de Cronos AI Consulting.'
-      : 'Soy Lidia, de Cronos AI Consulting.';
-
-    const thanks = 'Gracias por su interés en nuestros servicios de consultoría.';
-
-    const permissionAsking = formality === 'formal'
-      ? '¿Sería un buen momento para conocer sus necesidades?'
-      : '¿Te viene bien hablar ahora sobre tus necesidades?';
-
-    return `${timeGreeting} 👋 ${introduction}\n\n${thanks}\n\n${permissionAsking}`;
+  selectGreeting(context: MessageContext, uses: MessageTemplateUse[] = []): string {
+    const type = context.isReturningUser ? 'returning_greeting' : 'greeting';
+    return this.fromTemplate(type, context, uses) ?? '¡Hola! 👋';
   }
 
   /**
@@ -219,52 +242,13 @@ export class MessageComposer {
    */
   createAcknowledgment(
     userMessage: string,
-    sentiment: 'positive' | 'negative' | 'neutral'
+    sentiment: 'positive' | 'negative' | 'neutral',
+    context: MessageContext,
+    uses: MessageTemplateUse[] = []
   ): string {
-
-    const messageLength = userMessage.split(' ').length;
-    const isDetailedResponse = messageLength > 15;
-
-    // Positive sentiment acknowledgments
-    if (sentiment === 'positive') {
-      const positive = [
-        'Excelente, me alegra escuchar eso.',
-        'Perfecto, entiendo.',
-        'Genial, eso es muy útil.',
-        'Fantástico, aprecio la información.'
-      ];
-      return this.selectVariant(positive);
-    }
-
-    // Negative sentiment acknowledgments
-    if (sentiment === 'negative') {
-      const negative = [
-        'Entiendo su preocupación.',
-        'Comprendo la situación.',
-        'Agradezco su sinceridad.',
-        'Entiendo que puede ser complicado.'
-      ];
-      return this.selectVariant(negative);
-    }
-
-    // Neutral - adjust based on response length
-    if (isDetailedResponse) {
-      const detailed = [
-        'Gracias por compartir esos detalles.',
-        'Aprecio la información detallada.',
-        'Entiendo, gracias por explicarlo.',
-        'Perfecto, eso me da una mejor perspectiva.'
-      ];
-      return this.selectVariant(detailed);
-    } else {
-      const brief = [
-        'Entiendo.',
-        'Perfecto.',
-        'De acuerdo.',
-        'Gracias.'
-      ];
-      return this.selectVariant(brief);
-    }
+    // Neutral answers are acknowledged by length (detailed vs brief)
+    const key = messageTemplateService.sentimentFor(userMessage, sentiment);
+    return this.fromTemplate('acknowledgment', context, uses, { sentiment: key }) ?? 'Entiendo.';
   }
 
   /**
@@ -273,84 +257,30 @@ export class MessageComposer {
   generateTransition(
     previousTopic: string,
     nextTopic: string,
-    context: MessageContext
+    context: MessageContext,
+    uses: MessageTemplateUse[] = []
   ): string {
-
-    // Topic transition templates
-    const transitions = {
-      general: [
-        'Ahora, me gustaría saber',
-        'Por otro lado',
-        'Cambiando de tema',
-        'Relacionado con esto'
-      ],
-      deepening: [
-        'Profundizando en este tema',
-        'Para entender mejor',
-        'Siguiendo con lo que mencionaste',
-        'Sobre lo que comentabas'
-      ],
-      qualification: [
-        'Para poder ayudarle mejor',
-        'Con el fin de preparar una propuesta adecuada',
-        'Para asegurarme de que nuestros servicios se ajusten',
-        'Necesitaría saber'
-      ]
-    };
-
-    let transitionType: keyof typeof transitions = 'general';
-
-    if (context.phase === 'deepening') {
-      transitionType = 'deepening';
-    } else if (context.phase === 'qualification') {
-      transitionType = 'qualification';
-    }
-
-    return this.selectVariant(transitions[transitionType]);
+    // Phase-specific transitions (deepening, qualification) win over the general ones
+    return this.fromTemplate('transition', { ...context, previousTopic, nextTopic }, uses) ?? '';
   }
 
   /**
    * Wrap raw question in conversational context
    */
-  wrapQuestion(question: QuestionBank, context: MessageContext): string {
-    const { phase, userFormality } = context;
-    const formality = userFormality || 'formal';
-
+  wrapQuestion(question: QuestionBank, context: MessageContext, uses: MessageTemplateUse[] = []): string {
     // Direct qualification questions need softening
     const isSensitiveQuestion =
       question.category === 'budget' ||
       question.category === 'authority';
 
-    if (isSensitiveQuestion) {
-      const softeners = formality === 'formal'
-        ? [
-          'Si no es indiscreción',
-          'Si me permite la pregunta',
-          'Para tener una mejor idea',
-          'Con el fin de ofrecerle la mejor solución'
-        ]
-        : [
-          'Si puedo preguntar',
-          'Para entender mejor',
-          'Si no te importa comentarme'
-        ];
-
-      const softener = this.selectVariant(softeners);
-      return `${softener}, ${question.questionText.toLowerCase()}`;
-    }
-
-    // For exploration/technical questions, provide context
-    if (phase === 'exploration' || phase === 'deepening') {
-      const contexts = [
-        `Me gustaría saber: ${question.questionText}`,
-        `¿Podrías comentarme ${question.questionText.toLowerCase()}?`,
-        `Sería útil entender: ${question.questionText}`
-      ];
-      return this.selectVariant(contexts);
-    }
-
-    // Default - return question as-is
-    return question.questionText;
+    // Without a framing for the turn, the question goes as-is
+    return this.fromTemplate(
+      isSensitiveQuestion ? 'sensitive_question' : 'question_wrapper',
+      context,
+      uses,
+      {},
+      question.questionText
+    ) ?? question.questionText;
   }
 
   /**
@@ -506,23 +436,26 @@ export class MessageComposer {
   }
 
   /**
-   * Select random variant from template list (for A/B testing)
+   * Render the best template of a type for the turn, recording the variant used.
+   * Variants are picked by Thompson sampling on reply rate (see MessageTemplateService)
    */
-  private selectVariant(variants: string[], context?: MessageContext): string {
-    // TODO: Implement Thompson Sampling for A/B testing variants
-    // For now, simple random selection
-    const index = Math.floor(Math.random() * variants.length);
-    return variants[index];
-  }
+  private fromTemplate(
+    type: MessageTemplateType,
+    context: MessageContext,
+    uses: MessageTemplateUse[],
+    keys: Partial<TemplateKeys> = {},
+    questionText?: string
+  ): string | null {
+    const selection = messageTemplateService.select(
+      type,
+      { ...messageTemplateService.keysFor(context), ...keys },
+      messageTemplateService.valuesFor(context, questionText),
+      context.workspaceId
+    );
+    if (!selection) return null;
 
-  /**
-   * Load message templates from configuration
-   * TODO: Load from database or config file
-   */
-  private loadTemplates(): void {
-    // Templates will be loaded from database in future
-    // For now, templates are hardcoded in methods above
-    this.templates = [];
+    uses.push(selection.use);
+    return selection.text;
   }
 
   /**
@@ -542,6 +475,49 @@ export class MessageComposer {
     }
   }
 
+  /**
+   * Normalize questionBank.expectedResponses, which may hold plain strings
+   * or ExpectedResponseOption objects
+   */
+  static getResponseOptions(question: QuestionBank): ExpectedResponseOption[] {
+    const responses = Array.isArray(question.expectedResponses) ? question.expectedResponses : [];
+
+    return responses
+      .map((response: unknown): ExpectedResponseOption | null => {
+        if (typeof response === 'string' && response.trim()) {
+          return { id: MessageComposer.slugify(response), label: response.trim() };
+        }
+        if (response && typeof response === 'object' && 'label' in response) {
+          const option = response as ExpectedResponseOption;
+          return { ...option, id: option.id || MessageComposer.slugify(option.label) };
+        }
+        return null;
+      })
+      .filter((option): option is ExpectedResponseOption => option !== null);
+  }
+
+  /**
+   * Reply ids carry the question so a tapped answer can be resolved without NLP
+   */
+  static encodeReplyId(questionId: string, optionId: string): string {
+    return `q:${questionId}:${optionId}`;
+  }
+
+  static decodeReplyId(replyId: string): { questionId: string; optionId: string } | null {
+    const match = /^q:([^:]+):(.+)$/.exec(replyId);
+    return match ? { questionId: match[1], optionId: match[2] } : null;
+  }
+
+  private static slugify(value: string): string {
+    return value
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 24); // Keeps encoded reply ids within Telegram's 64-byte callback_data
+  }
+
   /**
    * Detect if user is returning (has prior conversation history)
    */
@@ -574,6 +550,7 @@ export class MessageComposer {
 
     return {
       conversationId,
+      workspaceId: conversation?.workspaceId,
       phase,
       messageCount,
       lastUserMessage: lastUserMessage?.content,
@@ -0,0 +1,577 @@
+// Message template library: the greetings, acknowledgments, transitions and question framings
+// MessageComposer puts around a question. Templates are keyed by phase, region, formality, time of
+// day and (acknowledgments) sentiment; a null key matches any turn and the most specific template
+// wins. Once a workspace has an active template of a type that fits the turn, it replaces the
+// built-in ones, which hold the texts the composer used to hardcode.
+// Each variant counts its sends and the replies that followed. Variants are picked by Thompson
+// sampling on that reply rate, so every template with several variants is a running experiment.
+
+import { nanoid } from 'nanoid';
+import { z } from 'zod';
+import { storage } from '../storage';
+import type { MessageContext } from './message-composer';
+import {
+  MESSAGE_TEMPLATE_TYPES,
+  insertMessageTemplateSchema,
+  type Message,
+  type MessageTemplate,
+  type MessageTemplateType,
+  type MessageTemplateUse,
+  type MessageTemplateVariant
+} from '@shared/schema';
+
+/** Placeholders a variant may use; anything else in braces is rejected on save */
+export const TEMPLATE_PLACEHOLDERS = [
+  'agentName', // MESSAGE_AGENT_NAME
+  'companyName', // MESSAGE_COMPANY_NAME
+  'timeGreeting', // ¡Buenos días!, ¡Buenas tardes!, ¡Buenas noches!
+  'question', // The question as written in the bank
+  'questionLower', // The same, lowercased to follow a lead-in
+  'region',
+  'phase',
+  'previousTopic',
+  'nextTopic'
+] as const;
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+const CACHE_TTL_MS = 60 * 1000;
+const DETAILED_REPLY_WORDS = 15; // Neutral answers longer than this get the "detailed" acknowledgments
+
+const TIME_GREETINGS: Record<MessageContext['timeOfDay'], string> = {
+  morning: '¡Buenos días!',
+  afternoon: '¡Buenas tardes!',
+  evening: '¡Buenas noches!',
+  night: '¡Buenas noches!'
+};
+
+const variantText = z.object({
+  id: z.string().optional(), // Kept when the text is unchanged, so the variant keeps its stats
+  text: z.string().trim().min(1, 'Variant text is required').max(1000)
+    .superRefine((text, ctx) => {
+      const unknown = unknownPlaceholders(text);
+      if (unknown.length > 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Unknown placeholder ${unknown.map(name => `{${name}}`).join(', ')}`
+        });
+      }
+    })
+});
+
+/** Editable fields of a stored template */
+export const messageTemplateContentSchema = insertMessageTemplateSchema
+  .omit({ updatedBy: true })
+  .extend({
+    name: z.string().trim().min(1, 'Name is required'),
+    type: z.enum(MESSAGE_TEMPLATE_TYPES),
+    phase: z.enum(['greeting', 'exploration', 'qualification', 'deepening', 'closing']).nullable().optional(),
+    formality: z.enum(['formal', 'informal']).nullable().optional(),
+    timeOfDay: z.enum(['morning', 'afternoon', 'evening', 'night']).nullable().optional(),
+    sentiment: z.enum(['positive', 'negative', 'neutral', 'detailed']).nullable().optional(),
+    variants: z.array(variantText).min(1, 'At least one variant is required')
+  });
+
+export type MessageTemplateContent = z.infer<typeof messageTemplateContentSchema>;
+
+export interface TemplateKeys {
+  phase: MessageContext['phase'];
+  region: string;
+  formality: 'formal' | 'informal';
+  timeOfDay: MessageContext['timeOfDay'];
+  sentiment?: 'positive' | 'negative' | 'neutral' | 'detailed';
+}
+
+export interface TemplateSelection {
+  text: string;
+  use: MessageTemplateUse;
+}
+
+/** Template as the editor holds it, possibly unsaved */
+export type TemplateDraft = Pick<MessageTemplate, 'type'>
+  & Partial<Pick<MessageTemplate, 'phase' | 'region' | 'formality' | 'timeOfDay' | 'sentiment'>>
+  & { variants: Array<{ id?: string; text: string }> };
+
+export interface TemplatePreview {
+  matches: boolean; // Whether the template applies to the sample turn at all
+  variants: Array<{ id?: string; text: string }>;
+}
+
+export interface TemplateVariantStats {
+  templateId: string;
+  templateName: string;
+  type: string;
+  builtin: boolean;
+  variantId: string;
+  text: string;
+  usageCount: number;
+  replyCount: number;
+  replyRate: number | null; // Null until the variant was sent
+  lastUsed: Date | null;
+}
+
+export class MessageTemplateError extends Error {
+  constructor(message: string, public status: 404 | 409 = 409) {
+    super(message);
+    this.name = 'MessageTemplateError';
+  }
+}
+
+// Context templates are previewed against unless the editor overrides parts of it
+export const SAMPLE_MESSAGE_CONTEXT: MessageContext = {
+  conversationId: 'preview',
+  phase: 'qualification',
+  messageCount: 4,
+  lastUserMessage: 'Somos una empresa de 40 personas y queremos automatizar la atención al cliente.',
+  lastUserSentiment: 'neutral',
+  timeOfDay: 'morning',
+  isFirstMessage: false,
+  isReturningUser: false,
+  userFormality: 'formal',
+  region: 'ES',
+  previousTopic: 'need',
+  nextTopic: 'budget'
+};
+
+const SAMPLE_QUESTION = '¿Cuál es el presupuesto aproximado que tienen previsto para este proyecto?';
+
+function builtin(
+  id: string,
+  name: string,
+  type: MessageTemplateType,
+  keys: Partial<Pick<MessageTemplate, 'phase' | 'formality' | 'sentiment'>>,
+  texts: string[]
+): MessageTemplate {
+  return {
+    id: `builtin-${id}`,
+    workspaceId: null,
+    name,
+    type,
+    phase: keys.phase ?? null,
+    region: null,
+    formality: keys.formality ?? null,
+    timeOfDay: null,
+    sentiment: keys.sentiment ?? null,
+    variants: texts.map((text, i) => ({ id: `v${i + 1}`, text })),
+    isActive: true,
+    updatedBy: null,
+    createdAt: null,
+    updatedAt: null
+  };
+}
+
+export const BUILTIN_MESSAGE_TEMPLATES: MessageTemplate[] = [
+  builtin('greeting-formal', 'Greeting (formal)', 'greeting', { formality: 'formal' }, [
+    '{timeGreeting} 👋 Soy {agentName} de {companyName}.\n\nGracias por su interés en nuestros servicios de consultoría.\n\n¿Sería un buen momento para conocer sus necesidades?'
+  ]),
+  builtin('greeting-informal', 'Greeting (informal)', 'greeting', { formality: 'informal' }, [
+    '{timeGreeting} 👋 Soy {agentName}, de {companyName}.\n\nGracias por su interés en nuestros servicios de consultoría.\n\n¿Te viene bien hablar ahora sobre tus necesidades?'
+  ]),
+  builtin('returning-greeting', 'Returning lead', 'returning_greeting', {}, [
+    '¡Hola de nuevo! 👋',
+    'Hola, ¿qué tal?',
+    'Encantado de hablar contigo nuevamente.'
+  ]),
+  builtin('ack-positive', 'Acknowledgment (positive)', 'acknowledgment', { sentiment: 'positive' }, [
+    'Excelente, me alegra escuchar eso.',
+    'Perfecto, entiendo.',
+    'Genial, eso es muy útil.',
+    'Fantástico, aprecio la información.'
+  ]),
+  builtin('ack-negative', 'Acknowledgment (negative)', 'acknowledgment', { sentiment: 'negative' }, [
+    'Entiendo su preocupación.',
+    'Comprendo la situación.',
+    'Agradezco su sinceridad.',
+    'Entiendo que puede ser complicado.'
+  ]),
+  builtin('ack-detailed', 'Acknowledgment (detailed answer)', 'acknowledgment', { sentiment: 'detailed' }, [
+    'Gracias por compartir esos detalles.',
+    'Aprecio la información detallada.',
+    'Entiendo, gracias por explicarlo.',
+    'Perfecto, eso me da una mejor perspectiva.'
+  ]),
+  builtin('ack-neutral', 'Acknowledgment (brief answer)', 'acknowledgment', { sentiment: 'neutral' }, [
+    'Entiendo.',
+    'Perfecto.',
+    'De acuerdo.',
+    'Gracias.'
+  ]),
+  builtin('transition', 'Transition', 'transition', {}, [
+    'Ahora, me gustaría saber',
+    'Por otro lado',
+    'Cambiando de tema',
+    'Relacionado con esto'
+  ]),
+  builtin('transition-deepening', 'Transition (deepening)', 'transition', { phase: 'deepening' }, [
+    'Profundizando en este tema',
+    'Para entender mejor',
+    'Siguiendo con lo que mencionaste',
+    'Sobre lo que comentabas'
+  ]),
+  builtin('transition-qualification', 'Transition (qualification)', 'transition', { phase: 'qualification' }, [
+    'Para poder ayudarle mejor',
+    'Con el fin de preparar una propuesta adecuada',
+    'Para asegurarme de que nuestros servicios se ajusten',
+    'Necesitaría saber'
+  ]),
+  builtin('sensitive-formal', 'Budget and authority (formal)', 'sensitive_question', { formality: 'formal' }, [
+    'Si no es indiscreción, {questionLower}',
+    'Si me permite la pregunta, {questionLower}',
+    'Para tener una mejor idea, {questionLower}',
+    'Con el fin de ofrecerle la mejor solución, {questionLower}'
+  ]),
+  builtin('sensitive-informal', 'Budget and authority (informal)', 'sensitive_question', { formality: 'informal' }, [
+    'Si puedo preguntar, {questionLower}',
+    'Para entender mejor, {questionLower}',
+    'Si no te importa comentarme, {questionLower}'
+  ]),
+  builtin('wrapper-exploration', 'Question framing (exploration)', 'question_wrapper', { phase: 'exploration' }, [
+    'Me gustaría saber: {question}',
+    '¿Podrías comentarme {questionLower}?',
+    'Sería útil entender: {question}'
+  ]),
+  builtin('wrapper-deepening', 'Question framing (deepening)', 'question_wrapper', { phase: 'deepening' }, [
+    'Me gustaría saber: {question}',
+    '¿Podrías comentarme {questionLower}?',
+    'Sería útil entender: {question}'
+  ])
+];
+
+export class MessageTemplateService {
+  private templates = new Map<string, { templates: MessageTemplate[]; loadedAt: number }>(); // By workspace id, '' for shared
+  private stats = new Map<string, { usage: number; replies: number }>(); // By templateId:variantId
+  private statsLoadedAt = 0;
+  private names = {
+    agentName: process.env.MESSAGE_AGENT_NAME || 'Lidia',
+    companyName: process.env.MESSAGE_COMPANY_NAME || 'Cronos AI Consulting'
+  };
+
+  /**
+   * Refresh the cached templates and variant stats for a workspace when stale. A database
+   * failure leaves the built-in templates in use rather than blocking the reply.
+   */
+  async load(workspaceId?: string | null): Promise<void> {
+    const key = workspaceId || '';
+    const now = Date.now();
+
+    try {
+      if (!this.templates.has(key) || now - this.templates.get(key)!.loadedAt > CACHE_TTL_MS) {
+        const stored = await storage.getMessageTemplates(workspaceId || undefined);
+        this.templates.set(key, {
+          templates: stored.filter(template => !template.workspaceId || template.workspaceId === workspaceId),
+          loadedAt: now
+        });
+      }
+      if (now - this.statsLoadedAt > CACHE_TTL_MS) {
+        const rows = await storage.getMessageTemplateStats();
+        this.stats = new Map(rows.map(row => [`${row.templateId}:${row.variantId}`, { usage: row.usageCount, replies: row.replyCount }]));
+        this.statsLoadedAt = now;
+      }
+    } catch (error) {
+      console.error('Failed to load message templates:', error);
+      if (!this.templates.has(key)) this.templates.set(key, { templates: [], loadedAt: now });
+    }
+  }
+
+  invalidate(): void {
+    this.templates.clear();
+  }
+
+  keysFor(context: MessageContext, sentiment?: TemplateKeys['sentiment']): TemplateKeys {
+    return {
+      phase: context.phase,
+      region: context.region,
+      formality: context.userFormality || 'formal', // Formal unless the lead is not
+      timeOfDay: context.timeOfDay,
+      ...(sentiment ? { sentiment } : {})
+    };
+  }
+
+  /** Acknowledgment key of an answer: its sentiment, with long neutral answers told apart */
+  sentimentFor(userMessage: string, sentiment: 'positive' | 'negative' | 'neutral'): TemplateKeys['sentiment'] {
+    if (sentiment !== 'neutral') return sentiment;
+    return userMessage.split(' ').length > DETAILED_REPLY_WORDS ? 'detailed' : 'neutral';
+  }
+
+  /**
+   * Pick and render a variant of the best template of a type for the turn. Uses the cache,
+   * so load() the workspace first. Null when no template applies.
+   */
+  select(
+    type: MessageTemplateType,
+    keys: TemplateKeys,
+    values: Record<string, string>,
+    workspaceId?: string | null
+  ): TemplateSelection | null {
+    const usable = (template: MessageTemplate) =>
+      template.type === type && template.isActive !== false && this.variantsOf(template).length > 0 && this.matches(template, keys);
+
+    const stored = (this.templates.get(workspaceId || '')?.templates || []).filter(usable);
+    const pool = stored.length > 0 ? stored : BUILTIN_MESSAGE_TEMPLATES.filter(usable);
+    if (pool.length === 0) return null;
+
+    // Most specific first; the workspace's own template wins a tie with a shared one
+    const template = pool
+      .map((candidate, order) => ({ candidate, order, rank: this.specificity(candidate) * 2 + (candidate.workspaceId ? 1 : 0) }))
+      .sort((a, b) => b.rank - a.rank || a.order - b.order)[0].candidate;
+
+    const variant = this.sampleVariant(template);
+    return {
+      text: this.render(variant.text, values),
+      use: { templateId: template.id, variantId: variant.id }
+    };
+  }
+
+  /** Placeholder values for a turn; question values are empty outside question framings */
+  valuesFor(context: MessageContext, questionText: string = ''): Record<string, string> {
+    return {
+      ...this.names,
+      timeGreeting: TIME_GREETINGS[context.timeOfDay] || TIME_GREETINGS.morning,
+      question: questionText,
+      questionLower: questionText.toLowerCase(),
+      region: context.region,
+      phase: context.phase,
+      previousTopic: context.previousTopic || '',
+      nextTopic: context.nextTopic || ''
+    };
+  }
+
+  render(text: string, values: Record<string, string>): string {
+    return text.replace(PLACEHOLDER_PATTERN, (match, name: string) => (name in values ? values[name] : match)).trim();
+  }
+
+  /** Render every variant of a (possibly unsaved) template against a sample turn */
+  preview(
+    template: TemplateDraft,
+    context: Partial<MessageContext> = {},
+    questionText: string = SAMPLE_QUESTION
+  ): TemplatePreview {
+    const turn: MessageContext = { ...SAMPLE_MESSAGE_CONTEXT, ...context };
+    const sentiment = this.sentimentFor(turn.lastUserMessage || '', turn.lastUserSentiment || 'neutral');
+    const values = this.valuesFor(turn, questionText);
+
+    return {
+      matches: this.matches(template, this.keysFor(turn, template.type === 'acknowledgment' ? sentiment : undefined)),
+      variants: template.variants.map(variant => ({ ...(variant.id ? { id: variant.id } : {}), text: this.render(variant.text, values) }))
+    };
+  }
+
+  async create(content: MessageTemplateContent, updatedBy?: string): Promise<MessageTemplate> {
+    const template = await storage.createMessageTemplate({
+      ...content,
+      variants: this.assignVariantIds(content.variants, []),
+      updatedBy
+    });
+    this.invalidate();
+    return template;
+  }
+
+  async update(id: string, changes: Partial<MessageTemplateContent>, updatedBy?: string): Promise<MessageTemplate> {
+    const current = await this.getStored(id);
+    const { variants, ...rest } = changes;
+
+    const template = await storage.updateMessageTemplate(id, {
+      ...rest,
+      ...(variants ? { variants: this.assignVariantIds(variants, this.variantsOf(current)) } : {}),
+      updatedBy
+    });
+    if (!template) {
+      throw new MessageTemplateError('Template not found', 404);
+    }
+    this.invalidate();
+    return template;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.getStored(id);
+    await storage.deleteMessageTemplate(id);
+    this.invalidate();
+  }
+
+  /** Stored and built-in templates, each variant with its sends, replies and reply rate */
+  async getStats(workspaceId?: string): Promise<TemplateVariantStats[]> {
+    const [stored, rows] = await Promise.all([
+      storage.getMessageTemplates(workspaceId),
+      storage.getMessageTemplateStats()
+    ]);
+    const byVariant = new Map(rows.map(row => [`${row.templateId}:${row.variantId}`, row]));
+
+    return [...stored, ...BUILTIN_MESSAGE_TEMPLATES].flatMap(template =>
+      this.variantsOf(template).map(variant => {
+        const row = byVariant.get(`${template.id}:${variant.id}`);
+        const usageCount = row?.usageCount || 0;
+        const replyCount = row?.replyCount || 0;
+        return {
+          templateId: template.id,
+          templateName: template.name,
+          type: template.type,
+          builtin: template.id.startsWith('builtin-'),
+          variantId: variant.id,
+          text: variant.text,
+          usageCount,
+          replyCount,
+          replyRate: usageCount > 0 ? replyCount / usageCount : null,
+          lastUsed: row?.lastUsed || null
+        };
+      })
+    );
+  }
+
+  /** Count a send for each variant the outgoing message used */
+  async recordUsage(uses: MessageTemplateUse[]): Promise<void> {
+    const unique = this.dedupe(uses);
+    unique.forEach(use => this.bump(use, 'usage'));
+    try {
+      await storage.recordMessageTemplateUsage(unique);
+    } catch (error) {
+      console.error('Failed to record template usage:', error);
+    }
+  }
+
+  /**
+   * Credit the variants of the message the lead is answering. Only the first lead message after
+   * an outgoing one counts, so a burst of messages is one reply; a queue retry of the same
+   * message finds it flagged and counts nothing.
+   */
+  async recordReply(conversationId: string, message: Message): Promise<void> {
+    if ((message.metadata as { templateReplyRecorded?: boolean } | null)?.templateReplyRecorded) return;
+
+    try {
+      const [previous] = (await storage.getMessages(conversationId, 5))
+        .filter(m => m.id !== message.id && (!message.timestamp || !m.timestamp || m.timestamp <= message.timestamp));
+      const uses = previous?.direction === 'outgoing'
+        ? (previous.metadata as { templates?: MessageTemplateUse[] } | null)?.templates
+        : undefined;
+      if (!Array.isArray(uses) || uses.length === 0) return;
+
+      const unique = this.dedupe(uses);
+      await storage.mergeMessageMetadata(message.id, { templateReplyRecorded: true });
+      unique.forEach(use => this.bump(use, 'replies'));
+      await storage.recordMessageTemplateReplies(unique);
+    } catch (error) {
+      console.error('Failed to record template reply:', error);
+    }
+  }
+
+  private async getStored(id: string): Promise<MessageTemplate> {
+    if (id.startsWith('builtin-')) {
+      throw new MessageTemplateError('Built-in templates cannot be changed; create a template of the same type instead');
+    }
+    const template = await storage.getMessageTemplate(id);
+    if (!template) {
+      throw new MessageTemplateError('Template not found', 404);
+    }
+    return template;
+  }
+
+  private matches(
+    template: Omit<TemplateDraft, 'type' | 'variants'>,
+    keys: TemplateKeys
+  ): boolean {
+    return (!template.phase || template.phase === keys.phase)
+      && (!template.region || template.region.toUpperCase() === keys.region.toUpperCase())
+      && (!template.formality || template.formality === keys.formality)
+      && (!template.timeOfDay || template.timeOfDay === keys.timeOfDay)
+      && (!template.sentiment || template.sentiment === keys.sentiment);
+  }
+
+  private specificity(template: MessageTemplate): number {
+    return [template.phase, template.region, template.formality, template.timeOfDay, template.sentiment]
+      .filter(Boolean).length;
+  }
+
+  private variantsOf(template: MessageTemplate): MessageTemplateVariant[] {
+    return Array.isArray(template.variants)
+      ? (template.variants as MessageTemplateVariant[]).filter(variant => variant?.id && variant.text?.trim())
+      : [];
+  }
+
+  /** Thompson sampling: draw each variant's reply rate from Beta(replies + 1, misses + 1), send the best draw */
+  private sampleVariant(template: MessageTemplate): MessageTemplateVariant {
+    const variants = this.variantsOf(template);
+    if (variants.length === 1) return variants[0];
+
+    let best = variants[0];
+    let bestDraw = -1;
+    for (const variant of variants) {
+      const stats = this.stats.get(`${template.id}:${variant.id}`) || { usage: 0, replies: 0 };
+      const replies = Math.min(stats.replies, stats.usage);
+      const draw = sampleBeta(replies + 1, stats.usage - replies + 1);
+      if (draw > bestDraw) {
+        best = variant;
+        bestDraw = draw;
+      }
+    }
+    return best;
+  }
+
+  // An unchanged text keeps its id (and stats); an edited text is a new variant
+  private assignVariantIds(variants: Array<{ id?: string; text: string }>, existing: MessageTemplateVariant[]): MessageTemplateVariant[] {
+    const used = new Set<string>();
+    return variants.map(variant => {
+      const text = variant.text.trim();
+      const kept = existing.find(e => e.text === text && (!variant.id || e.id === variant.id) && !used.has(e.id))
+        || existing.find(e => e.text === text && !used.has(e.id));
+      const id = kept?.id || nanoid(8);
+      used.add(id);
+      return { id, text };
+    });
+  }
+
+  private dedupe(uses: MessageTemplateUse[]): MessageTemplateUse[] {
+    const seen = new Set<string>();
+    return uses.filter(use => {
+      const key = `${use.templateId}:${use.variantId}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private bump(use: MessageTemplateUse, field: 'usage' | 'replies'): void {
+    const key = `${use.templateId}:${use.variantId}`;
+    const stats = this.stats.get(key) || { usage: 0, replies: 0 };
+    stats[field]++;
+    this.stats.set(key, stats);
+  }
+}
+
+function unknownPlaceholders(text: string): string[] {
+  const names = Array.from(text.matchAll(PLACEHOLDER_PATTERN), match => match[1]);
+  return names.filter(name => !(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name));
+}
+
+// Marsaglia-Tsang gamma draws; Beta(a, b) = X / (X + Y) with X ~ Gamma(a), Y ~ Gamma(b)
+function sampleBeta(alpha: number, beta: number): number {
+  const x = sampleGamma(alpha);
+  const y = sampleGamma(beta);
+  return x / (x + y);
+}
+
+function sampleGamma(shape: number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1) * Math.pow(Math.random(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = gaussian();
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = Math.random();
+    if (u < 1 - 0.0331 * x ** 4 || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+      return d * v;
+    }
+  }
+}
+
+function gaussian(): number {
+  const u1 = Math.random() || Number.MIN_VALUE;
+  const u2 = Math.random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+export const messageTemplateService = new MessageTemplateService();
@@ -2,16 +2,20 @@ import type {
   SituationAwarenessState,
   ConversationMetrics,
   InsertConversationMetrics,
-  Message
+  Message,
+  QualificationCriteria
 } from "@shared/schema";
 import { openaiService } from "./openai";
-import { grokNLPService, type MessageAnalysis } from "./grok-nlp";
+import { grokNLPService, type AnalysisOptions, type MessageAnalysis } from "./grok-nlp";
+import { DEFAULT_QUALIFICATION_CRITERIA } from "./workspace";
+import { leadScoringService } from "./lead-scoring";
 
 export interface MetricCalculationResult {
   metrics: InsertConversationMetrics;
   explanations: Record<string, string>;
   confidences: Record<string, number>;
   grokAnalysis?: MessageAnalysis; // Include Grok NLP analysis
+  analyzedMessageId?: string; // Message the Grok analysis is of
 }
 
 export interface SMBMetrics {
@@ -24,6 +28,15 @@ export interface SMBMetrics {
   maturityConfidence: number;
 }
 
+// conversationMetrics columns a structured reply (button or list pick) may set directly
+const STRUCTURED_SIGNAL_FIELDS = [
+  'budgetSignalStrength', 'budgetRangeMin', 'budgetRangeMax', 'budgetConfidenceLevel',
+  'authorityScore', 'authorityCertainty', 'needIntensity', 'timelineUrgency', 'objectionRisk',
+  'sophisticationLevel', 'projectScope', 'scopeClarity', 'organizationalMaturity'
+] as const;
+
+type StructuredSignals = Partial<Record<typeof STRUCTURED_SIGNAL_FIELDS[number], number>>;
+
 export class MetricsService {
   private baselineWords = 20; // Expected words per message
   private baselineResponseTime = 300; // 5 minutes in seconds
@@ -31,24 +44,30 @@ export class MetricsService {
   async calculateMetrics(
     conversationId: string,
     messages: Message[],
-    previousMetrics?: ConversationMetrics
+    previousMetrics?: ConversationMetrics,
+    analysisOptions?: AnalysisOptions // Workspace criteria and LLM settings for the NLP step
   ): Promise<MetricCalculationResult> {
     
     const messageCount = messages.length;
     const userMessages = messages.filter(m => m.direction === 'incoming');
     const systemMessages = messages.filter(m => m.direction === 'outgoing');
 
-    // Analyze latest user message with Grok NLP (Castilian Spanish)
-    const latestUserMessage = userMessages[userMessages.length - 1];
+    // Analyze latest user message with Grok NLP (Castilian Spanish), whatever order the messages come in
+    const latestUserMessage = userMessages.reduce<Message | undefined>((latest, message) =>
+      !latest || new Date(message.timestamp ?? 0).getTime() > new Date(latest.timestamp ?? 0).getTime() ? message : latest, undefined);
     let messageAnalysis = null;
     let grokAnalysis: MessageAnalysis | null = null;
 
-    if (latestUserMessage) {
+    // A tapped button already says what the lead meant; only free text needs NLP
+    const latestIsStructured = !!this.getStructuredSignals(latestUserMessage);
+
+    if (latestUserMessage && !latestIsStructured) {
       // Use Grok for Spanish B2B NLP analysis
       const conversationHistory = messages.slice(-4).map(m => m.content);
       grokAnalysis = await grokNLPService.analyzeMessage(
         latestUserMessage.content,
-        conversationHistory
+        conversationHistory,
+        analysisOptions
       );
 
       // Keep OpenAI for backward compatibility (can be removed later)
@@ -84,6 +103,8 @@ export class MetricsService {
       previousMetrics
     );
 
+    const structuredSignals = this.collectStructuredSignals(userMessages);
+
     const metrics: InsertConversationMetrics = {
       conversationId,
       messageCount,
@@ -178,18 +199,28 @@ export class MetricsService {
         meta: metaMetrics,
         messageAnalysis,
         smb: smbMetrics,
-        grokAnalysis
+        grokAnalysis,
+        structuredSignals
       }
     };
 
-    const explanations = await this.generateExplanations(metrics, smbMetrics);
+    this.applyStructuredSignals(metrics, structuredSignals);
+
+    // Win probability from the active scoring model (hand-weighted until one is trained)
+    const leadScore = await leadScoringService.score(metrics);
+    metrics.advanceProbability = leadScore.probability;
+    metrics.expectedValue = leadScore.expectedValue;
+    (metrics.fullMetrics as Record<string, any>).leadScore = leadScore;
+
+    const explanations = await this.generateExplanations(metrics, smbMetrics, analysisOptions?.criteria);
     const confidences = this.calculateConfidences(metrics, messageCount);
 
     return {
       metrics,
       explanations,
       confidences,
-      grokAnalysis: grokAnalysis || undefined
+      grokAnalysis: grokAnalysis || undefined,
+      analyzedMessageId: grokAnalysis ? latestUserMessage?.id : undefined
     };
   }
 
@@ -1008,6 +1039,48 @@ export class MetricsService {
     };
   }
 
+  private getStructuredSignals(message?: Message): StructuredSignals | null {
+    const signals = (message?.metadata as Record<string, any> | null)?.structuredSignals;
+    return signals && typeof signals === 'object' ? signals : null;
+  }
+
+  /**
+   * Merge signals from every structured reply in the conversation; later answers win
+   */
+  private collectStructuredSignals(userMessages: Message[]): StructuredSignals {
+    const merged: StructuredSignals = {};
+
+    for (const message of userMessages) {
+      const signals = this.getStructuredSignals(message);
+      if (!signals) continue;
+
+      for (const field of STRUCTURED_SIGNAL_FIELDS) {
+        const value = signals[field];
+        if (typeof value === 'number' && Number.isFinite(value)) {
+          merged[field] = value;
+        }
+      }
+    }
+
+    return merged;
+  }
+
+  /**
+   * Structured answers override the heuristic values and feed the qualification score
+   */
+  private applyStructuredSignals(metrics: InsertConversationMetrics, signals: StructuredSignals): void {
+    if (Object.keys(signals).length === 0) return;
+
+    Object.assign(metrics, signals);
+
+    metrics.qualificationScore = this.calculateDimensionScore([
+      metrics.budgetSignalStrength || 0,
+      metrics.authorityScore || 0,
+      metrics.needIntensity || 0,
+      metrics.timelineUrgency || 0
+    ]);
+  }
+
   private calculateDimensionScore(values: number[]): number {
     if (values.length === 0) return 0;
     const sum = values.reduce((a, b) => a + b, 0);
@@ -1023,17 +1096,20 @@ export class MetricsService {
 
   private async generateExplanations(
     metrics: InsertConversationMetrics,
-    smbMetrics: SMBMetrics
+    smbMetrics: SMBMetrics,
+    criteria: QualificationCriteria = DEFAULT_QUALIFICATION_CRITERIA
   ): Promise<Record<string, string>> {
+    const minBudget = `${criteria.minBudget.toLocaleString('es-ES')} ${criteria.currency}`;
+
     return {
       engagement: `Engagement score: ${metrics.engagementScore?.toFixed(2)} - Based on response velocity (${metrics.responseVelocity?.toFixed(2)}) and message depth`,
       qualification: `Qualification score: ${metrics.qualificationScore?.toFixed(2)} - Budget signals: ${metrics.budgetSignalStrength?.toFixed(2)}, Authority: ${metrics.authorityScore?.toFixed(2)}`,
       technical: `Technical score: ${metrics.technicalScore?.toFixed(2)} - Sophistication level indicates ${metrics.sophisticationLevel && metrics.sophisticationLevel > 0.5 ? 'high' : 'basic'} technical knowledge`,
       emotional: `Emotional score: ${metrics.emotionalScore?.toFixed(2)} - Trust: ${metrics.trustLevel?.toFixed(2)}, Frustration: ${metrics.frustrationLevel?.toFixed(2)}`,
       cultural: `Cultural adaptation: ${metrics.culturalScore?.toFixed(2)} - Formality index: ${metrics.formalityIndex?.toFixed(2)}`,
-      smb_budget: `Budget Qualification: ${smbMetrics.budgetQualification.toFixed(2)} - ${smbMetrics.budgetQualification >= 0.7 ? 'Meets 5,000€ minimum' : 'Below minimum or unclear'}`,
-      smb_spoc: `SPOC Availability: ${smbMetrics.spocAvailability.toFixed(2)} - ${smbMetrics.spocAvailability >= 0.6 ? 'Sufficient time commitment (≥4hrs/week)' : 'Insufficient or unclear'}`,
-      smb_maturity: `Digital Maturity: ${smbMetrics.digitalMaturity.toFixed(2)} - ${smbMetrics.digitalMaturity >= 0.5 ? 'Medium+ maturity (good fit)' : 'Low maturity (poor fit)'}`,
+      smb_budget: `Budget Qualification: ${smbMetrics.budgetQualification.toFixed(2)} - ${smbMetrics.budgetQualification >= 0.7 ? `Meets ${minBudget} minimum` : 'Below minimum or unclear'}`,
+      smb_spoc: `SPOC Availability: ${smbMetrics.spocAvailability.toFixed(2)} - ${smbMetrics.spocAvailability >= 0.6 ? `Sufficient time commitment (≥${criteria.minSpocHoursPerWeek}hrs/week)` : 'Insufficient or unclear'}`,
+      smb_maturity: `Digital Maturity: ${smbMetrics.digitalMaturity.toFixed(2)} - ${smbMetrics.digitalMaturity >= 0.5 ? `${criteria.minDigitalMaturity}+ maturity (good fit)` : 'Below required maturity (poor fit)'}`,
       smb_fit: `SMB Fit Score: ${smbMetrics.smbFitScore.toFixed(2)} - ${smbMetrics.smbFitScore >= 0.7 ? 'HIGH PRIORITY LEAD' : smbMetrics.smbFitScore >= 0.5 ? 'Continue qualifying' : 'Low priority / disqualify'}`
     };
   }
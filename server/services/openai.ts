@@ -1,10 +1,7 @@
-import OpenAI from "openai";
+import { llmService } from "./llm";
 import type { SituationAwarenessState } from "@shared/schema";
 
-// the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_KEY || "default_key"
-});
+// Runs on OpenAI (OPENAI_MODEL, default gpt-5) unless the task's provider is configured otherwise
 
 export interface QuestionSuggestion {
   question: string;
@@ -93,22 +90,10 @@ Provide the following analysis:
 
 Focus on LATAM business patterns, formality levels, and high-ticket consulting deal indicators.`;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-5",
-        messages: [
-          {
-            role: "system",
-            content: "You are an expert in B2B communication analysis for Spanish/LATAM markets. Analyze messages for lead qualification metrics and respond with valid JSON only."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        response_format: { type: "json_object" }
-      });
-
-      const analysis = JSON.parse(response.choices[0].message.content || "{}");
+      const analysis = await llmService.json('message_analysis', [
+        { role: "system", content: "You are an expert in B2B communication analysis for Spanish/LATAM markets. Analyze messages for lead qualification metrics and respond with valid JSON only." },
+        { role: "user", content: prompt }
+      ], { provider: 'openai' });
       
       return {
         sentiment: Math.max(-1, Math.min(1, analysis.sentiment || 0)),
@@ -194,22 +179,10 @@ Focus on:
 - Regional dialect and business culture markers
 - Relationship-oriented vs task-oriented communication patterns`;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-5",
-        messages: [
-          {
-            role: "system",
-            content: "You are an expert in LATAM cultural analysis, specializing in Spanish business communication patterns, regional dialects, and cultural nuances across Latin America. Respond with precise JSON analysis only."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        response_format: { type: "json_object" }
-      });
-
-      const analysis = JSON.parse(response.choices[0].message.content || "{}");
+      const analysis = await llmService.json('cultural_analysis', [
+        { role: "system", content: "You are an expert in LATAM cultural analysis, specializing in Spanish business communication patterns, regional dialects, and cultural nuances across Latin America. Respond with precise JSON analysis only." },
+        { role: "user", content: prompt }
+      ], { provider: 'openai' });
       
       return {
         formalityLevel: Math.max(0, Math.min(1, analysis.formalityLevel || 0.5)),
@@ -326,22 +299,10 @@ Provide response in JSON format:
   "urgency": 0.6
 }`;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-5",
-        messages: [
-          {
-            role: "system",
-            content: "You are an expert B2B lead qualification consultant specializing in Spanish/LATAM markets. Your responses must be in valid JSON format only."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        response_format: { type: "json_object" }
-      });
-
-      const suggestion = JSON.parse(response.choices[0].message.content || "{}");
+      const suggestion = await llmService.json('question_suggestion', [
+        { role: "system", content: "You are an expert B2B lead qualification consultant specializing in Spanish/LATAM markets. Your responses must be in valid JSON format only." },
+        { role: "user", content: prompt }
+      ], { provider: 'openai' });
       
       return {
         question: suggestion.question || "¿Podría contarme más sobre su situación actual?",
@@ -382,21 +343,12 @@ Provide a clear, actionable explanation in Spanish that explains:
 
 Keep it concise and practical.`;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-5",
-        messages: [
-          {
-            role: "system",
-            content: "You are a B2B sales expert explaining conversation metrics to sales teams. Respond in clear, practical Spanish."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ]
-      });
-
-      return response.choices[0].message.content || `Métrica ${metricName}: ${value}`;
+      const response = await llmService.chat('metric_explanation', [
+        { role: "system", content: "You are a B2B sales expert explaining conversation metrics to sales teams. Respond in clear, practical Spanish." },
+        { role: "user", content: prompt }
+      ], { provider: 'openai' });
+
+      return response.content || `Métrica ${metricName}: ${value}`;
     } catch (error) {
       console.error('Error generating explanation:', error);
       return `Métrica ${metricName}: ${value} - No se pudo generar explicación detallada.`;
@@ -431,22 +383,10 @@ Identify the conversation pattern and provide analysis in JSON format:
 
 Consider Spanish/LATAM business communication patterns.`;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-5",
-        messages: [
-          {
-            role: "system",
-            content: "You are an expert in B2B conversation pattern analysis for Spanish/LATAM markets. Respond with valid JSON only."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        response_format: { type: "json_object" }
-      });
-
-      const analysis = JSON.parse(response.choices[0].message.content || "{}");
+      const analysis = await llmService.json('pattern_detection', [
+        { role: "system", content: "You are an expert in B2B conversation pattern analysis for Spanish/LATAM markets. Respond with valid JSON only." },
+        { role: "user", content: prompt }
+      ], { provider: 'openai' });
       
       return {
         pattern: analysis.pattern || "relationship_builder",
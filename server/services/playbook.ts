@@ -0,0 +1,336 @@
+// Conversation playbooks: what the bot may ask and when, defined as data instead of code.
+// A playbook is a directed graph. Question and category nodes say what may be asked, gated by
+// conversation stage and metric preconditions ("ask budget only once trust.transparency > 0.4");
+// edges are follow-ups opened when the lead's answer to a node matches; terminal nodes end the
+// questioning with an outcome. Each conversation keeps its progress in conversations.metadata.playbook.
+// Workspaces without a stored playbook get the built-in one, which holds the stage and gating
+// rules DecisionService used to hardcode.
+
+import { storage } from '../storage';
+import { metricsService } from './metrics';
+import { MessageComposer } from './message-composer';
+import type {
+  Conversation,
+  ConversationMetrics,
+  ConversationStage,
+  Message,
+  PlaybookCondition,
+  PlaybookEdge,
+  PlaybookGraph,
+  PlaybookIssue,
+  PlaybookNode,
+  PlaybookProgress,
+  PlaybookValidation,
+  QuestionBank,
+  SituationAwarenessState
+} from '@shared/schema';
+
+export interface ResolvedPlaybook {
+  id: string; // "default" for the built-in playbook
+  name: string;
+  version: number;
+  graph: PlaybookGraph;
+}
+
+const DEFAULT_PLAYBOOK_ID = 'default';
+
+// Every category open from the start; stages and preconditions do the gating
+export const DEFAULT_PLAYBOOK_GRAPH: PlaybookGraph = {
+  entry: ['need', 'relationship', 'general', 'industry', 'technical', 'authority', 'budget', 'timeline', 'process', 'decision', 'closing'],
+  nodes: [
+    { id: 'need', type: 'category', category: 'need', stages: ['early'] },
+    { id: 'relationship', type: 'category', category: 'relationship', stages: ['early'] },
+    { id: 'general', type: 'category', category: 'general', stages: ['early'] },
+    { id: 'industry', type: 'category', category: 'industry', stages: ['early'] },
+    {
+      id: 'technical',
+      type: 'category',
+      category: 'technical',
+      stages: ['mid'],
+      // Technical questions work best with technically inclined prospects
+      preconditions: [{ anyOf: [
+        { metric: 'technical.score', operator: 'gt', value: 0.3 },
+        { metric: 'messageCount', operator: 'lt', value: 5 }
+      ] }]
+    },
+    {
+      id: 'authority',
+      type: 'category',
+      category: 'authority',
+      stages: ['mid', 'late'],
+      preconditions: [{ metric: 'messageCount', operator: 'gt', value: 3 }]
+    },
+    {
+      id: 'budget',
+      type: 'category',
+      category: 'budget',
+      stages: ['mid', 'late'],
+      // Only once engagement and trust are sufficient
+      preconditions: [
+        { metric: 'engagement.score', operator: 'gt', value: 0.5 },
+        { metric: 'emotional.trust.transparency', operator: 'gt', value: 0.4 }
+      ]
+    },
+    {
+      id: 'timeline',
+      type: 'category',
+      category: 'timeline',
+      stages: ['mid', 'late'],
+      preconditions: [{ metric: 'qualification.score', operator: 'gt', value: 0.3 }]
+    },
+    { id: 'process', type: 'category', category: 'process', stages: ['mid'] },
+    { id: 'decision', type: 'category', category: 'decision', stages: ['late'] },
+    { id: 'closing', type: 'category', category: 'closing', stages: ['late'] }
+  ],
+  edges: []
+};
+
+function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+export class PlaybookService {
+  /** The playbook that drives a workspace's conversations */
+  async getActive(workspaceId?: string | null): Promise<ResolvedPlaybook> {
+    const stored = await storage.getActivePlaybook(workspaceId);
+    if (!stored) {
+      return { id: DEFAULT_PLAYBOOK_ID, name: 'Default', version: 1, graph: DEFAULT_PLAYBOOK_GRAPH };
+    }
+    return { id: stored.id, name: stored.name, version: stored.version || 1, graph: stored.graph as PlaybookGraph };
+  }
+
+  /** Stored progress, or a fresh start when there is none or it belongs to another playbook */
+  progressFor(conversation: Conversation | undefined, playbook: ResolvedPlaybook): PlaybookProgress {
+    const stored = (conversation?.metadata as Record<string, any> | null)?.playbook as PlaybookProgress | undefined;
+    if (stored && stored.playbookId === playbook.id) {
+      return stored;
+    }
+    return { playbookId: playbook.id, reached: [...playbook.graph.entry], asked: [], pendingNodeId: null };
+  }
+
+  /** Questions the playbook allows now: a reached node matches them and its gates hold */
+  filterQuestions(
+    questions: QuestionBank[],
+    playbook: ResolvedPlaybook,
+    progress: PlaybookProgress,
+    state: SituationAwarenessState,
+    stage: ConversationStage
+  ): QuestionBank[] {
+    if (progress.terminal) return [];
+
+    const open = this.openNodes(playbook.graph, progress, state, stage);
+    return questions.filter(question => open.some(node => this.matches(node, question)));
+  }
+
+  /**
+   * Remember which node the sent question came from, so the lead's answer can follow its edges.
+   * Questions outside the playbook (AI suggestions) leave the progress alone.
+   */
+  async recordAsked(conversation: Conversation, question: QuestionBank): Promise<void> {
+    const playbook = await this.getActive(conversation.workspaceId);
+    const progress = this.progressFor(conversation, playbook);
+    const reached = playbook.graph.nodes.filter(node => progress.reached.includes(node.id));
+    const node = reached.find(n => n.type === 'question' && n.questionId === question.id)
+      || reached.find(n => n.type === 'category' && n.category === question.category);
+    if (!node) return;
+
+    await this.save(conversation, {
+      ...progress,
+      asked: [...progress.asked, { nodeId: node.id, questionId: question.id, askedAt: new Date().toISOString() }],
+      pendingNodeId: node.id
+    });
+  }
+
+  /**
+   * Follow the edges of the pending node whose conditions the lead's answer meets. Reaching a
+   * terminal node ends the questioning. Returns the new progress, or null when nothing was pending.
+   */
+  async recordAnswer(conversation: Conversation, answer: Message, state: SituationAwarenessState): Promise<PlaybookProgress | null> {
+    try {
+      const playbook = await this.getActive(conversation.workspaceId);
+      const progress = this.progressFor(conversation, playbook);
+      if (!progress.pendingNodeId || progress.terminal) return null;
+
+      const followed = playbook.graph.edges.filter(edge =>
+        edge.from === progress.pendingNodeId && this.edgeMatches(edge, answer, state)
+      );
+      const reached = new Set(progress.reached);
+      followed.forEach(edge => reached.add(edge.to));
+
+      const terminal = followed
+        .map(edge => playbook.graph.nodes.find(node => node.id === edge.to))
+        .find(node => node?.type === 'terminal');
+
+      const updated: PlaybookProgress = {
+        ...progress,
+        reached: Array.from(reached),
+        pendingNodeId: null,
+        terminal: terminal
+          ? { nodeId: terminal.id, outcome: terminal.outcome || 'complete', reachedAt: new Date().toISOString() }
+          : progress.terminal
+      };
+      await this.save(conversation, updated);
+      return updated;
+    } catch (error) {
+      console.error(`Playbook progress failed for conversation ${conversation.id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Check a graph before it is saved or activated. Errors make the playbook unusable (dangling
+   * references, unknown metrics or questions); unreachable nodes and empty categories are warnings.
+   */
+  validate(graph: PlaybookGraph, questions: QuestionBank[]): PlaybookValidation {
+    const issues: PlaybookIssue[] = [];
+    const error = (message: string, ids: { nodeId?: string; edgeId?: string } = {}) => issues.push({ severity: 'error', message, ...ids });
+    const warning = (message: string, ids: { nodeId?: string; edgeId?: string } = {}) => issues.push({ severity: 'warning', message, ...ids });
+
+    const nodes = new Map<string, PlaybookNode>();
+    for (const node of graph.nodes) {
+      if (nodes.has(node.id)) error(`Duplicate node id "${node.id}"`, { nodeId: node.id });
+      nodes.set(node.id, node);
+    }
+    if (graph.nodes.length === 0) error('Playbook has no nodes');
+    if (graph.entry.length === 0) error('Playbook has no entry nodes');
+    graph.entry.filter(id => !nodes.has(id)).forEach(id => error(`Entry node "${id}" does not exist`, { nodeId: id }));
+
+    const state = metricsService.createSituationAwarenessState('playbook-validation', {} as ConversationMetrics);
+    const checkConditions = (conditions: PlaybookCondition[] | undefined, ids: { nodeId?: string; edgeId?: string }) => {
+      this.metricsIn(conditions || [])
+        .filter(metric => this.resolveMetric(state, metric) === undefined)
+        .forEach(metric => error(`Unknown metric "${metric}"`, ids));
+    };
+
+    for (const node of graph.nodes) {
+      const ids = { nodeId: node.id };
+      checkConditions(node.preconditions, ids);
+
+      if (node.type === 'category') {
+        if (!node.category) {
+          error('Category node needs a category', ids);
+        } else if (!questions.some(q => q.category === node.category && q.isActive)) {
+          warning(`No active questions in category "${node.category}"`, ids);
+        }
+      } else if (node.type === 'question') {
+        const question = node.questionId ? questions.find(q => q.id === node.questionId) : undefined;
+        if (!node.questionId) error('Question node needs a question', ids);
+        else if (!question) error(`Question ${node.questionId} does not exist`, ids);
+        else if (!question.isActive) warning('Question is retired and will never be asked', ids);
+      } else if (!node.outcome) {
+        warning('Terminal node has no outcome; "complete" is recorded', ids);
+      }
+    }
+
+    for (const edge of graph.edges) {
+      const ids = { edgeId: edge.id };
+      const from = nodes.get(edge.from);
+      if (!from) error(`Edge starts at unknown node "${edge.from}"`, ids);
+      if (!nodes.has(edge.to)) error(`Edge leads to unknown node "${edge.to}"`, ids);
+      if (from?.type === 'terminal') error('Terminal nodes end the playbook and cannot have follow-ups', ids);
+      checkConditions(edge.when?.conditions, ids);
+    }
+
+    const unreachable = this.unreachableNodes(graph);
+    unreachable.forEach(id => warning('No path from an entry node leads here', { nodeId: id }));
+
+    return { valid: !issues.some(issue => issue.severity === 'error'), unreachable, issues };
+  }
+
+  /** Nodes no path of edges from an entry node reaches */
+  unreachableNodes(graph: PlaybookGraph): string[] {
+    const seen = new Set<string>();
+    const queue = graph.entry.filter(id => graph.nodes.some(node => node.id === id));
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      graph.edges.filter(edge => edge.from === id).forEach(edge => queue.push(edge.to));
+    }
+    return graph.nodes.filter(node => !seen.has(node.id)).map(node => node.id);
+  }
+
+  /**
+   * Value of a metric path in the situation state. Paths may be written in full
+   * (dimensions.emotional.groups.trust.transparency) or short: emotional.trust.transparency,
+   * trust.transparency (the first dimension with that group), engagement.score, messageCount.
+   */
+  resolveMetric(state: SituationAwarenessState, path: string): number | undefined {
+    const read = (root: unknown, parts: string[]): unknown =>
+      parts.reduce<unknown>((value, part) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[part] : undefined), root);
+    const parts = path.split('.');
+    const dimensions = state.dimensions as unknown as Record<string, { groups?: Record<string, unknown> }>;
+
+    const candidates: unknown[] = [read(state, parts), read(state.dimensions, parts)];
+    if (parts.length === 3) {
+      candidates.push(read(dimensions[parts[0]]?.groups, parts.slice(1)));
+    }
+    if (parts.length === 2) {
+      Object.values(dimensions).forEach(dimension => candidates.push(read(dimension.groups, parts)));
+    }
+
+    const found = candidates.find(value => typeof value === 'number');
+    return found as number | undefined;
+  }
+
+  evaluateCondition(condition: PlaybookCondition, state: SituationAwarenessState): boolean {
+    if ('anyOf' in condition) {
+      return condition.anyOf.some(inner => this.evaluateCondition(inner, state));
+    }
+
+    const actual = this.resolveMetric(state, condition.metric);
+    if (actual === undefined) return false;
+
+    switch (condition.operator) {
+      case 'gt': return actual > condition.value;
+      case 'gte': return actual >= condition.value;
+      case 'lt': return actual < condition.value;
+      case 'lte': return actual <= condition.value;
+      case 'eq': return actual === condition.value;
+      default: return false;
+    }
+  }
+
+  private openNodes(graph: PlaybookGraph, progress: PlaybookProgress, state: SituationAwarenessState, stage: ConversationStage): PlaybookNode[] {
+    const askedQuestions = new Set(progress.asked.map(entry => entry.questionId));
+    return graph.nodes.filter(node =>
+      node.type !== 'terminal'
+      && progress.reached.includes(node.id)
+      && (!node.stages?.length || node.stages.includes(stage))
+      && (node.preconditions || []).every(condition => this.evaluateCondition(condition, state))
+      && !(node.type === 'question' && node.questionId && askedQuestions.has(node.questionId))
+    );
+  }
+
+  private matches(node: PlaybookNode, question: QuestionBank): boolean {
+    return node.type === 'question' ? node.questionId === question.id : node.category === question.category;
+  }
+
+  private edgeMatches(edge: PlaybookEdge, answer: Message, state: SituationAwarenessState): boolean {
+    const when = edge.when;
+    if (!when) return true;
+
+    if (when.optionIds?.length) {
+      const metadata = (answer.metadata as Record<string, any> | null) || {};
+      const reply = metadata.interactive?.id ? MessageComposer.decodeReplyId(metadata.interactive.id) : null;
+      if (!reply || !when.optionIds.includes(reply.optionId)) return false;
+    }
+
+    if (when.keywords?.length) {
+      const text = normalizeText(answer.content || '');
+      if (!when.keywords.some(keyword => text.includes(normalizeText(keyword)))) return false;
+    }
+
+    return (when.conditions || []).every(condition => this.evaluateCondition(condition, state));
+  }
+
+  private metricsIn(conditions: PlaybookCondition[]): string[] {
+    return conditions.flatMap(condition => 'anyOf' in condition ? this.metricsIn(condition.anyOf) : [condition.metric]);
+  }
+
+  private async save(conversation: Conversation, progress: PlaybookProgress): Promise<void> {
+    Object.assign(conversation, await storage.mergeConversationMetadata(conversation.id, { playbook: progress }));
+  }
+}
+
+export const playbookService = new PlaybookService();
@@ -0,0 +1,359 @@
+// Question bank lifecycle: editing, retiring and bulk import/export.
+// Edits to what a lead reads (wording, expected responses, targeting) create a new immutable
+// version so successRate and usageCount never mix two different questions; toggling isActive or
+// moving a question between workspaces does not. Questions that were already asked are retired
+// rather than deleted, since messages and shadow decisions keep pointing at them.
+
+import { z } from 'zod';
+import { storage } from '../storage';
+import { insertQuestionBankSchema, type InsertQuestionBank, type QuestionBank } from '@shared/schema';
+
+export type QuestionExportFormat = 'csv' | 'json';
+
+// Fields a lead sees or that decide who is asked; changing any of them is a new version
+const VERSIONED_FIELDS = [
+  'category',
+  'subcategory',
+  'questionText',
+  'expectedResponses',
+  'metrics',
+  'language',
+  'region',
+  'industryVertical'
+] as const;
+
+// Column order of CSV exports; JSON columns hold serialized JSON
+const CSV_COLUMNS = [
+  'id',
+  'category',
+  'subcategory',
+  'questionText',
+  'expectedResponses',
+  'metrics',
+  'language',
+  'region',
+  'industryVertical',
+  'isActive',
+  'version',
+  'successRate',
+  'usageCount'
+] as const;
+
+const JSON_COLUMNS = new Set(['expectedResponses', 'metrics']);
+
+/** Editable fields: stats and the version number are the bank's, not the editor's */
+export const questionContentSchema = insertQuestionBankSchema
+  .omit({ successRate: true, usageCount: true, version: true })
+  .extend({
+    category: z.string().trim().min(1, 'Category is required'),
+    questionText: z.string().trim().min(10, 'Question must be at least 10 characters')
+  });
+
+export type QuestionContent = z.infer<typeof questionContentSchema>;
+
+const importRowSchema = questionContentSchema.extend({ id: z.string().optional() });
+
+export interface QuestionImportIssue {
+  row: number; // 1-based, header excluded
+  field?: string;
+  message: string;
+}
+
+export interface QuestionImportReport {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  revised: number; // Rows with an id whose wording changed
+  updated: number; // Rows with an id that only changed isActive or workspace
+  unchanged: number;
+  skipped: number; // Rows with errors, or duplicates of an existing question
+  errors: QuestionImportIssue[];
+  warnings: QuestionImportIssue[];
+}
+
+export class QuestionBankError extends Error {
+  constructor(message: string, public status: 404 | 409 = 409) {
+    super(message);
+    this.name = 'QuestionBankError';
+  }
+}
+
+export class QuestionBankService {
+  async create(content: QuestionContent, createdBy?: string): Promise<QuestionBank> {
+    return storage.addQuestion(content as InsertQuestionBank, createdBy);
+  }
+
+  /**
+   * Apply an edit, versioning it when the wording changes. Returns the question and whether
+   * a new version was made.
+   */
+  async update(
+    id: string,
+    changes: Partial<QuestionContent>,
+    revision: { changeNote?: string; createdBy?: string } = {}
+  ): Promise<{ question: QuestionBank; versioned: boolean }> {
+    const current = await storage.getQuestionById(id);
+    if (!current) {
+      throw new QuestionBankError('Question not found', 404);
+    }
+
+    const changed = Object.fromEntries(
+      Object.entries(changes).filter(([field, value]) =>
+        value !== undefined && !this.sameValue(current[field as keyof QuestionBank], value)
+      )
+    ) as Partial<InsertQuestionBank>;
+    if (Object.keys(changed).length === 0) {
+      return { question: current, versioned: false };
+    }
+
+    const versioned = VERSIONED_FIELDS.some(field => field in changed);
+    const question = versioned
+      ? await storage.reviseQuestion(id, changed, { changeNote: revision.changeNote, createdBy: revision.createdBy })
+      : await storage.updateQuestion(id, changed);
+    if (!question) {
+      throw new QuestionBankError('Question not found', 404);
+    }
+    return { question, versioned };
+  }
+
+  /**
+   * Retire a question so it is no longer asked. permanent deletes it instead, which only
+   * questions that were never asked allow.
+   */
+  async remove(id: string, permanent: boolean = false): Promise<{ deleted: boolean; question?: QuestionBank }> {
+    const question = await storage.getQuestionById(id);
+    if (!question) {
+      throw new QuestionBankError('Question not found', 404);
+    }
+
+    if (!permanent) {
+      return { deleted: false, question: await storage.updateQuestion(id, { isActive: false }) };
+    }
+
+    const versions = await storage.getQuestionVersions(id);
+    const asked = (question.usageCount || 0) + versions.reduce((sum, version) => sum + (version.usageCount || 0), 0);
+    if (asked > 0) {
+      throw new QuestionBankError('Question has been asked; retire it instead of deleting it');
+    }
+
+    try {
+      await storage.deleteQuestion(id);
+    } catch (error) {
+      // Shadow decisions may reference a question that was proposed but never sent
+      if ((error as { code?: string }).code === '23503') {
+        throw new QuestionBankError('Question is referenced by recorded decisions; retire it instead of deleting it');
+      }
+      throw error;
+    }
+    return { deleted: true };
+  }
+
+  async exportQuestions(format: QuestionExportFormat, workspaceId?: string, includeInactive: boolean = true): Promise<string> {
+    const questions = await storage.getQuestions(undefined, undefined, undefined, workspaceId, includeInactive);
+    if (format === 'json') {
+      return JSON.stringify(questions.map(question => this.exportRow(question)), null, 2);
+    }
+
+    const lines = questions.map(question => {
+      const row = this.exportRow(question);
+      return CSV_COLUMNS.map(column => {
+        const value = row[column];
+        return toCsvCell(JSON_COLUMNS.has(column) ? JSON.stringify(value ?? null) : value);
+      }).join(',');
+    });
+    return [CSV_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Validate and apply rows from an export (or a hand-written file). Rows with the id of an existing
+   * question edit it, other rows create questions unless the same text already exists in that
+   * language. With dryRun nothing is written and the report says what would happen.
+   */
+  async importQuestions(
+    input: string | unknown[],
+    format: QuestionExportFormat,
+    options: { dryRun?: boolean; workspaceId?: string | null; createdBy?: string } = {}
+  ): Promise<QuestionImportReport> {
+    const dryRun = options.dryRun ?? false;
+    const report: QuestionImportReport = {
+      dryRun, total: 0, created: 0, revised: 0, updated: 0, unchanged: 0, skipped: 0, errors: [], warnings: []
+    };
+
+    let rows: unknown[];
+    try {
+      rows = this.parseInput(input, format);
+    } catch (error) {
+      report.errors.push({ row: 0, message: error instanceof Error ? error.message : 'Unreadable file' });
+      return report;
+    }
+    report.total = rows.length;
+
+    const existing = await storage.getQuestions(undefined, undefined, undefined, options.workspaceId, true);
+    const byId = new Map(existing.map(question => [question.id, question]));
+    const textKey = (text: string, language?: string | null) => `${(language || 'es').toLowerCase()}:${text.trim().toLowerCase()}`;
+    const byText = new Map(existing.map(question => [textKey(question.questionText, question.language), question]));
+
+    for (let index = 0; index < rows.length; index++) {
+      const row = index + 1;
+      const parsed = importRowSchema.safeParse(rows[index]);
+      if (!parsed.success) {
+        parsed.error.errors.forEach(issue => report.errors.push({ row, field: issue.path.join('.') || undefined, message: issue.message }));
+        report.skipped++;
+        continue;
+      }
+
+      const { id, ...content } = parsed.data;
+      if (options.workspaceId !== undefined && content.workspaceId === undefined) {
+        content.workspaceId = options.workspaceId;
+      }
+
+      if (id) {
+        const current = byId.get(id);
+        if (!current) {
+          report.errors.push({ row, field: 'id', message: `No question with id ${id}` });
+          report.skipped++;
+          continue;
+        }
+
+        const outcome = this.diff(current, content);
+        if (outcome === 'unchanged') {
+          report.unchanged++;
+        } else {
+          if (!dryRun) {
+            await this.update(id, content, { changeNote: 'Imported', createdBy: options.createdBy });
+          }
+          report[outcome]++;
+        }
+        continue;
+      }
+
+      const key = textKey(content.questionText, content.language);
+      if (byText.has(key)) {
+        report.warnings.push({ row, field: 'questionText', message: `Same question already exists (${byText.get(key)!.id})` });
+        report.skipped++;
+        continue;
+      }
+
+      const created = dryRun ? null : await this.create(content, options.createdBy);
+      byText.set(key, created || ({ id: `row ${row}` } as QuestionBank)); // Catch duplicates within the file too
+      report.created++;
+    }
+
+    return report;
+  }
+
+  private parseInput(input: string | unknown[], format: QuestionExportFormat): unknown[] {
+    if (Array.isArray(input)) return input;
+
+    if (format === 'json') {
+      const parsed = JSON.parse(input);
+      if (!Array.isArray(parsed)) throw new Error('JSON import must be an array of questions');
+      return parsed;
+    }
+
+    const [header, ...records] = parseCsv(input);
+    if (!header || !header.includes('questionText')) {
+      throw new Error('CSV header must include a questionText column');
+    }
+
+    return records.map(cells => {
+      const row: Record<string, unknown> = {};
+      header.forEach((column, i) => {
+        const cell = cells[i];
+        if (cell === undefined || cell === '') return;
+        if (column === 'successRate' || column === 'usageCount' || column === 'version') return; // Stats are not imported
+        if (JSON_COLUMNS.has(column)) {
+          try {
+            row[column] = JSON.parse(cell);
+          } catch {
+            row[column] = cell; // Left for validation to report
+          }
+        } else if (column === 'isActive') {
+          row[column] = /^(true|1|yes)$/i.test(cell);
+        } else {
+          row[column] = cell;
+        }
+      });
+      return row;
+    });
+  }
+
+  private diff(current: QuestionBank, content: Partial<QuestionContent>): 'revised' | 'updated' | 'unchanged' {
+    const changed = Object.entries(content).filter(([field, value]) =>
+      value !== undefined && !this.sameValue(current[field as keyof QuestionBank], value)
+    );
+    if (changed.length === 0) return 'unchanged';
+    return changed.some(([field]) => (VERSIONED_FIELDS as readonly string[]).includes(field)) ? 'revised' : 'updated';
+  }
+
+  private sameValue(current: unknown, next: unknown): boolean {
+    return JSON.stringify(current ?? null) === JSON.stringify(next ?? null);
+  }
+
+  private exportRow(question: QuestionBank): Record<(typeof CSV_COLUMNS)[number] | 'workspaceId', unknown> {
+    return {
+      id: question.id,
+      workspaceId: question.workspaceId,
+      category: question.category,
+      subcategory: question.subcategory,
+      questionText: question.questionText,
+      expectedResponses: question.expectedResponses,
+      metrics: question.metrics,
+      language: question.language,
+      region: question.region,
+      industryVertical: question.industryVertical,
+      isActive: question.isActive,
+      version: question.version,
+      successRate: question.successRate,
+      usageCount: question.usageCount
+    };
+  }
+}
+
+function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Rows of cells; quoted cells may hold commas, line breaks and doubled quotes */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      if (row.some(value => value.trim())) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  if (row.some(value => value.trim())) rows.push(row);
+
+  return rows.map(cells => cells.map(value => value.trim()));
+}
+
+export const questionBankService = new QuestionBankService();
@@ -2,6 +2,7 @@
 // Core component of trace-first architecture for human-reviewable AI reasoning
 // Enhanced with Knowledge Graph context for continuous learning and better decisions
 import { xaiService } from "./xai";
+import { llmService } from "./llm";
 import { knowledgeGraphService } from "./knowledge-graph";
 import { storage } from "../storage";
 import type { 
@@ -156,7 +157,7 @@ export class ReasoningService {
         alternativesConsidered: structuredReasoning.alternativesConsidered.map(c => c.option),
         apiLatencyMs: processingTimeMs,
         tokensUsed: this.estimateTokenUsage(decisionPrompt),
-        model: "grok-2-1212"
+        model: llmService.modelFor('question_suggestion')
       };
       
       // Save reasoning trace to database
@@ -237,7 +238,7 @@ export class ReasoningService {
         alternativesConsidered: qualificationReasoning.alternativeInterpretations,
         apiLatencyMs: processingTimeMs,
         tokensUsed: this.estimateTokenUsage(latestMessage),
-        model: "grok-2-1212"
+        model: llmService.modelFor('message_analysis')
       };
       
       const savedTrace = await storage.saveReasoningTrace(reasoningTrace);
@@ -311,7 +312,7 @@ export class ReasoningService {
         alternativesConsidered: responseAnalysis.alternativeResponses,
         apiLatencyMs: processingTimeMs,
         tokensUsed: this.estimateTokenUsage(selectedQuestion.questionText),
-        model: "grok-2-1212"
+        model: llmService.modelFor('question_suggestion')
       };
       
       const savedTrace = await storage.saveReasoningTrace(reasoningTrace);
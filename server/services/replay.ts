@@ -4,6 +4,8 @@ import { metricsService } from "./metrics";
 import { decisionService } from "./decision";
 import { learningService } from "./learning";
 import { whatsappService } from "./whatsapp";
+import { complianceService } from "./compliance";
+import { workspaceService } from "./workspace";
 import { createHash } from "crypto";
 import type { 
   ConversationRecording,
@@ -298,6 +300,7 @@ export class ReplayEngine {
         case 'response_send':
           replayOutput = await this.replayResponseSending(
             originalTrace.inputData,
+            webhookEvent,
             config
           );
           break;
@@ -411,16 +414,24 @@ export class ReplayEngine {
     return { selectedQuestion };
   }
 
-  private async replayResponseSending(inputData: any, config: ReplayConfig): Promise<any> {
+  private async replayResponseSending(inputData: any, webhookEvent: WebhookRecording, config: ReplayConfig): Promise<any> {
     if (config.skipExternalAPIs) {
       // Simulate response sending without actual API call
       return { sent: true, simulated: true };
     }
     
-    // Actually send (for non-production replay)
+    // Actually send (for non-production replay), through the same opt-out and session window checks as live replies
+    // The contact's conversation in the workspace that owns the number the recorded webhook arrived on
     const { to, message } = inputData;
-    const sent = await whatsappService.sendMessage(to, message);
-    return { sent };
+    const inbound = whatsappService.parseWebhookMessage(webhookEvent.webhookData);
+    const workspace = await workspaceService.resolveForInbound('whatsapp', inbound?.to || undefined);
+    const conversation = await storage.getConversationByExternalId(workspace.id, 'whatsapp', to);
+    if (!conversation) {
+      return { sent: false, blocked: 'window_closed' };
+    }
+
+    const result = await complianceService.send(conversation, message);
+    return { sent: result.sent, blocked: result.blocked };
   }
 
   private async replayLearningUpdate(inputData: any, config: ReplayConfig): Promise<any> {
@@ -0,0 +1,164 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { storage } from '../storage';
+import { complianceService } from './compliance';
+import { schedulingService } from './scheduling';
+import { workspaceService } from './workspace';
+import { websocketService } from './websocket';
+import type { ConsultantAvailability, Conversation, Meeting, Message, Workspace } from '@shared/schema';
+
+// Sunday; the consultant takes calls on Thursdays and Fridays from 10:00 to 12:00 and 16:00 to 18:00, Madrid time
+const now = new Date('2026-10-18T10:00:00.000Z');
+
+const conversation = {
+  id: 'conversation-1',
+  workspaceId: 'workspace-default',
+  channel: 'whatsapp',
+  externalId: '+34600111222',
+  contactName: 'Ana García',
+  status: 'qualified',
+  region: 'ES',
+  language: 'es',
+  metadata: {}
+} as unknown as Conversation;
+
+function availability(weekday: number, startTime: string, endTime: string): ConsultantAvailability {
+  return {
+    id: `availability-${weekday}-${startTime}`, workspaceId: null, consultantName: 'Laura', consultantEmail: 'laura@example.com',
+    timezone: 'Europe/Madrid', weekday, startTime, endTime, slotMinutes: 60, isActive: true
+  } as ConsultantAvailability;
+}
+
+function reply(content: string, rowId?: string): Message {
+  const metadata = rowId ? { interactive: { type: 'list_reply', id: rowId, title: content } } : {};
+  return { id: 'message-1', conversationId: conversation.id, direction: 'incoming', content, metadata } as Message;
+}
+
+// The id sendOffer gives the list row of a slot
+function rowId(meeting: Meeting, index: number): string {
+  const slot = (meeting.proposedSlots as Array<{ startsAt: string }>)[index];
+  return `m:${meeting.id}:${index}:${Date.parse(slot.startsAt).toString(36)}`;
+}
+
+describe('SchedulingService.parsePick', () => {
+  it('reads tapped rows and option numbers', () => {
+    expect(schedulingService.parsePick('Jue 22 oct, 10:00', `m:meeting-1:2:${Date.parse('2026-10-22T08:00:00.000Z').toString(36)}`))
+      .toEqual({ option: 2, tapped: { meetingId: 'meeting-1', startsAt: Date.parse('2026-10-22T08:00:00.000Z') } });
+    expect(schedulingService.parsePick('2')).toEqual({ option: 1 });
+    expect(schedulingService.parsePick('Opción dos')).toEqual({ option: 1 });
+    expect(schedulingService.parsePick('me quedo con la primera')).toEqual({ option: 0 });
+  });
+
+  it('reads days, parts of day and times', () => {
+    expect(schedulingService.parsePick('El jueves por la tarde')).toEqual({ weekday: 4, partOfDay: 'afternoon' });
+    expect(schedulingService.parsePick('Mañana a las 10:30')).toEqual({ dayOffset: 1, hour: 10, minute: 30 });
+    expect(schedulingService.parsePick('Pasado mañana a las cuatro')).toEqual({ dayOffset: 2, hour: 16 });
+    expect(schedulingService.parsePick('Friday at 9am')).toEqual({ weekday: 5, hour: 9 });
+  });
+
+  it('reads "a las 5" as the afternoon unless the lead says the morning', () => {
+    expect(schedulingService.parsePick('A las 5')).toEqual({ hour: 17 });
+    expect(schedulingService.parsePick('A las 5 de la mañana')).toEqual({ partOfDay: 'morning', hour: 5 });
+  });
+
+  it('reads "la una" as one o\'clock', () => {
+    expect(schedulingService.parsePick('la una')).toEqual({ hour: 13 });
+    expect(schedulingService.parsePick('El viernes a la una')).toEqual({ weekday: 5, hour: 13 });
+  });
+
+  it('skips what the lead says they cannot do', () => {
+    expect(schedulingService.parsePick('el jueves no puedo')).toBeNull();
+    expect(schedulingService.parsePick('Hoy no puedo')).toBeNull();
+    expect(schedulingService.parsePick("I can't on Monday")).toBeNull();
+    expect(schedulingService.parsePick('El jueves no puedo, mejor el viernes a las 10')).toEqual({ weekday: 5, hour: 10 });
+    expect(schedulingService.parsePick('El jueves no puedo mejor la 2')).toEqual({ option: 1 });
+    expect(schedulingService.parsePick('El jueves a las 10, no hay problema')).toEqual({ weekday: 4, hour: 10 });
+  });
+
+  it('returns null when the reply says nothing about when', () => {
+    expect(schedulingService.parsePick('Perfecto, gracias')).toBeNull();
+    expect(schedulingService.parsePick('')).toBeNull();
+  });
+});
+
+describe('SchedulingService.handleTurn with an open offer', () => {
+  let offer: Meeting;
+
+  beforeEach(async () => {
+    vi.spyOn(storage, 'getConsultantAvailability').mockResolvedValue([
+      availability(4, '10:00', '12:00'), availability(4, '16:00', '18:00'),
+      availability(5, '10:00', '12:00'), availability(5, '16:00', '18:00')
+    ]);
+    vi.spyOn(storage, 'getBookedMeetings').mockResolvedValue([]);
+    vi.spyOn(storage, 'updateMeeting').mockImplementation(async (id, values) => ({ ...offer, id, ...values } as Meeting));
+    vi.spyOn(storage, 'bookMeeting').mockImplementation(async values => ({ ...offer, ...values } as Meeting));
+    vi.spyOn(storage, 'updateConversation').mockImplementation(async (_id, values) => ({ ...conversation, ...values } as Conversation));
+    vi.spyOn(storage, 'getDealsByConversation').mockResolvedValue([]);
+    vi.spyOn(storage, 'getActiveCrmIntegrations').mockResolvedValue([]);
+    vi.spyOn(storage, 'addMessage').mockImplementation(async values => ({ id: 'message-2', ...values } as Message));
+    vi.spyOn(workspaceService, 'getForConversation').mockResolvedValue({ id: 'workspace-default', language: 'es' } as Workspace);
+    vi.spyOn(complianceService, 'send').mockImplementation(async (_conversation, text) => ({ sent: true, content: text, messageType: 'interactive' }));
+    vi.spyOn(websocketService, 'broadcastConversationUpdate').mockResolvedValue();
+
+    const slots = await schedulingService.openSlots(conversation, now);
+    offer = {
+      id: 'meeting-1', conversationId: conversation.id, status: 'proposed', proposedSlots: slots.slice(0, 3),
+      leadTimezone: 'Europe/Madrid', createdAt: now
+    } as Meeting;
+    vi.spyOn(storage, 'getMeetingsByConversation').mockResolvedValue([offer]);
+  });
+
+  it('books the option the lead picked', async () => {
+    const turn = await schedulingService.handleTurn(conversation, reply('La 2'), true, now);
+
+    expect(turn?.action).toBe('booked');
+    expect(turn?.meeting.startsAt).toEqual(new Date((offer.proposedSlots as Array<{ startsAt: string }>)[1].startsAt));
+  });
+
+  it('books the row the lead tapped on the current list', async () => {
+    const turn = await schedulingService.handleTurn(conversation, reply('Jue 22 oct, 11:00', rowId(offer, 1)), true, now);
+
+    expect(turn?.action).toBe('booked');
+    expect(turn?.meeting.startsAt).toEqual(new Date((offer.proposedSlots as Array<{ startsAt: string }>)[1].startsAt));
+  });
+
+  it('offers the current slots instead of booking a row tapped on a list replaced since', async () => {
+    const firstList = offer;
+    const reproposed = await schedulingService.handleTurn(conversation, reply('Mejor el viernes por la tarde'), true, now);
+    vi.mocked(storage.getMeetingsByConversation).mockResolvedValue([reproposed!.meeting]);
+    offer = reproposed!.meeting;
+
+    const turn = await schedulingService.handleTurn(conversation, reply('Jue 22 oct, 11:00', rowId(firstList, 1)), true, now);
+
+    expect(turn?.action).toBe('reproposed');
+    expect(storage.bookMeeting).not.toHaveBeenCalled();
+    expect(complianceService.send).toHaveBeenLastCalledWith(conversation, expect.stringContaining('ya no está al día'), expect.anything());
+  });
+
+  it('books an explicit day and time', async () => {
+    const turn = await schedulingService.handleTurn(conversation, reply('El viernes a las 5'), true, now);
+
+    expect(turn?.action).toBe('booked');
+    expect(turn?.meeting.startsAt).toEqual(new Date('2026-10-23T15:00:00.000Z'));
+  });
+
+  it('offers the slots of a vague day to pick from instead of booking one', async () => {
+    const turn = await schedulingService.handleTurn(conversation, reply('Mejor el viernes por la tarde'), true, now);
+
+    expect(turn?.action).toBe('reproposed');
+    expect(storage.bookMeeting).not.toHaveBeenCalled();
+    expect(storage.updateConversation).not.toHaveBeenCalled();
+    expect(complianceService.send).toHaveBeenCalledWith(conversation, expect.stringContaining('¿Cuál de estos horarios'), expect.anything());
+    expect((turn?.meeting.proposedSlots as Array<{ startsAt: string }>).map(slot => slot.startsAt)).toEqual([
+      '2026-10-23T14:00:00.000Z', '2026-10-23T15:00:00.000Z'
+    ]);
+  });
+
+  it('books nothing when the lead turns a day down or only mentions one', async () => {
+    const declined = await schedulingService.handleTurn(conversation, reply('El jueves no puedo'), true, now);
+    const undecided = await schedulingService.handleTurn(conversation, reply('Mañana lo hablo con mi socio y te digo'), true, now);
+
+    expect(declined).toBeNull();
+    expect(undecided?.action).toBe('reproposed');
+    expect(storage.bookMeeting).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,857 @@
+// Meeting scheduling for qualified leads.
+// Once a lead qualifies, the bot offers a call with a consultant instead of asking more questions.
+// Consultants publish weekly availability in their own time zone; slots are offered in the lead's
+// zone (from the region), on working days and inside the lead's working hours, one per day.
+// The lead answers with a tap on the list, the option number or free text ("el jueves a las 10"),
+// matched against the offered slots first and then against every open slot. Only a tap, an option
+// or an explicit time books; a day or part of day alone ("el jueves por la tarde") is answered with
+// the slots it matches to pick from, and what the lead says they can't do ("el jueves no puedo") is ignored.
+// Booking records the meeting, qualifies the conversation and creates or advances its deal;
+// the ICS invite is served to the dashboard. Each offer is a propose_meeting decision trace that
+// settles as success when a slot is booked and as failure when the offer lapses.
+
+import { storage } from '../storage';
+import { complianceService, OutboundBlockedError } from './compliance';
+import { workspaceService } from './workspace';
+import { crmService } from './crm';
+import { websocketService } from './websocket';
+import { DEAL_STAGES } from '@shared/schema';
+import type { ConsultantAvailability, Conversation, DealStage, Meeting, MeetingSlot, Message } from '@shared/schema';
+
+export interface SchedulingConfig {
+  enabled: boolean;
+  horizonDays: number; // How far ahead slots are offered
+  minNoticeHours: number; // Earliest slot, from now
+  proposalCount: number;
+  proposalTtlHours: number; // An unanswered offer lapses after this long
+  leadHours: { start: number; end: number }; // Lead's local working hours, Monday to Friday
+  defaultTimezone: string; // Leads from regions without a known zone
+  dealStage: DealStage; // Stage a booked meeting moves the conversation's deal up to
+}
+
+export type PartOfDay = 'morning' | 'afternoon' | 'evening';
+
+/** What a lead's reply asks for; every field set must match */
+export interface SlotPick {
+  option?: number; // 0-based index into the offered slots
+  tapped?: { meetingId: string; startsAt?: number }; // Offer and slot start (epoch ms) of a tapped list row
+  weekday?: number; // 0 Sunday … 6 Saturday
+  dayOffset?: number; // 0 today, 1 tomorrow, 2 the day after
+  partOfDay?: PartOfDay;
+  hour?: number;
+  minute?: number;
+}
+
+export interface SchedulingTurn {
+  action: 'proposed' | 'reproposed' | 'booked';
+  meeting: Meeting;
+  replied: boolean;
+}
+
+export class SchedulingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchedulingError';
+  }
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const CLOSED_STAGES = ['closed_won', 'closed_lost'];
+
+const REGION_TIMEZONES: Record<string, string> = {
+  ES: 'Europe/Madrid',
+  PT: 'Europe/Lisbon',
+  GB: 'Europe/London',
+  DE: 'Europe/Berlin',
+  MX: 'America/Mexico_City',
+  CO: 'America/Bogota',
+  AR: 'America/Argentina/Buenos_Aires',
+  CL: 'America/Santiago',
+  PE: 'America/Lima',
+  BR: 'America/Sao_Paulo',
+  US: 'America/New_York'
+};
+
+// Lead-local hours each part of day covers; Spanish "tarde" runs until about eight
+const PART_OF_DAY_HOURS: Record<PartOfDay, [number, number]> = {
+  morning: [8, 13],
+  afternoon: [13, 20],
+  evening: [18, 22]
+};
+
+const WEEKDAY_WORDS: Record<string, number> = {
+  domingo: 0, lunes: 1, martes: 2, miercoles: 3, jueves: 4, viernes: 5, sabado: 6,
+  sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6
+};
+
+const OPTION_WORDS: Record<string, number> = {
+  primera: 0, primero: 0, primer: 0, first: 0,
+  segunda: 1, segundo: 1, second: 1,
+  tercera: 2, tercero: 2, tercer: 2, third: 2
+};
+
+// Spelled-out numbers are options only on their own or after "opción": "la una" is one o'clock
+const NUMBER_WORDS: Record<string, number> = {
+  uno: 0, una: 0, one: 0, dos: 1, two: 1, tres: 2, three: 2
+};
+
+// Hours spelled out after "la(s)", read as digits: "a las cuatro" is "a las 4", "la una" is "a la 1"
+const HOUR_WORDS: Record<string, number> = {
+  una: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7, ocho: 8, nueve: 9, diez: 10, once: 11, doce: 12
+};
+
+// A clause saying the lead can't make it: "el jueves no puedo", "hoy imposible", "I can't on Monday".
+// "No hay problema" is agreement, not a refusal
+const NEGATION_PATTERN = /\b(?:no|ni|nunca|imposible|not|cannot|cant|can t|unable)\b/;
+const AGREEMENT_PATTERN = /\bno (?:hay )?problema?\b|\bno problem\b/g;
+
+// Clauses of a reply: punctuation, and "pero"/"mejor"/"but" starting a new thought ("el jueves no puedo mejor el viernes")
+const CLAUSE_PATTERN = /[,;!?\n]+|\.(?!\d)|\s+(?=(?:pero|mejor|aunque|but|better|instead)\b)/i;
+
+// The whole reply is an option: "2", "la 2", "opción 2", "opción dos", "la segunda", "me quedo con la primera"
+const OPTION_PATTERN = /^((?:(?:me quedo con|prefiero|mejor|la|el|opcion|option|numero|number)\s+)*)(\d|[a-z]+)(?:\s+(?:por favor|porfa|please|gracias|thanks))?$/;
+
+const LABELS: Record<string, { weekdays: string[]; weekdaysShort: string[]; months: string[]; monthsShort: string[] }> = {
+  es: {
+    weekdays: ['domingo', 'lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábado'],
+    weekdaysShort: ['dom', 'lun', 'mar', 'mié', 'jue', 'vie', 'sáb'],
+    months: ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'],
+    monthsShort: ['ene', 'feb', 'mar', 'abr', 'may', 'jun', 'jul', 'ago', 'sep', 'oct', 'nov', 'dic']
+  },
+  en: {
+    weekdays: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+    weekdaysShort: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'],
+    months: ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'],
+    monthsShort: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+  }
+};
+
+// An offer, a new one when the time asked for is taken, the slots a vague reply matches to pick from,
+// or the current slots when the lead tapped a row of a list that has been replaced since
+type OfferKind = 'offer' | 'unavailable' | 'confirm' | 'outdated';
+
+// {consultant}, {zone} and {when} are filled in
+const MESSAGES: Record<string, Record<OfferKind | 'instructions' | 'confirmed' | 'team' | 'button', string>> = {
+  es: {
+    offer: '¿Te parece si lo vemos en una llamada con {consultant}? Te propongo estos horarios (hora de {zone}).',
+    unavailable: 'Ese momento no lo tenemos libre. ¿Te encaja alguno de estos? (hora de {zone})',
+    confirm: '¿Cuál de estos horarios te viene bien? (hora de {zone})',
+    outdated: 'Esa lista de horarios ya no está al día. Estos son los que tenemos ahora (hora de {zone}).',
+    instructions: 'Elige uno o dime otro momento que te venga mejor, por ejemplo "el jueves por la tarde".',
+    confirmed: '¡Listo! Queda reservada tu llamada con {consultant} el {when} (hora de {zone}). Si necesitas cambiarla, escríbeme por aquí.',
+    team: 'nuestro equipo',
+    button: 'Ver horarios'
+  },
+  en: {
+    offer: 'Shall we continue on a call with {consultant}? These times are available ({zone} time).',
+    unavailable: "That time isn't available. Would one of these work? ({zone} time)",
+    confirm: 'Which of these times works for you? ({zone} time)',
+    outdated: 'That list of times is out of date. These are the ones open now ({zone} time).',
+    instructions: 'Pick one or tell me another time that suits you, for example "Thursday afternoon".',
+    confirmed: "Done! Your call with {consultant} is booked for {when} ({zone} time). If you need to change it, just write here.",
+    team: 'our team',
+    button: 'See times'
+  }
+};
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 Sunday
+}
+
+const SHORT_WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/** Wall-clock time of an instant in a time zone */
+function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour12: false,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short'
+  }).formatToParts(date);
+  const value = (type: string) => parts.find(part => part.type === type)?.value || '';
+
+  return {
+    year: parseInt(value('year'), 10),
+    month: parseInt(value('month'), 10),
+    day: parseInt(value('day'), 10),
+    hour: parseInt(value('hour'), 10) % 24, // Some ICU versions print midnight as 24
+    minute: parseInt(value('minute'), 10),
+    weekday: SHORT_WEEKDAYS.indexOf(value('weekday'))
+  };
+}
+
+/** Instant at which a time zone's clock shows the given date and time */
+function zonedTime(date: Pick<ZonedParts, 'year' | 'month' | 'day'>, hour: number, minute: number, timeZone: string): Date {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, hour, minute);
+  const offsetAt = (instant: number) => {
+    const local = zonedParts(new Date(instant), timeZone);
+    return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) - instant;
+  };
+
+  // The offset at the first guess can be off by a DST change in between; one more pass settles it
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+}
+
+function parseClock(value: string): [number, number] {
+  const [hour, minute] = value.split(':').map(part => parseInt(part, 10));
+  return [hour, minute || 0];
+}
+
+function sameDate(a: ZonedParts, b: ZonedParts): boolean {
+  return a.year === b.year && a.month === b.month && a.day === b.day;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/** Lowercase without accents, keeping digits and the separators of times ("10:30") */
+function normalizeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9:. ]/g, ' ')
+    .replace(/\.(?!\d)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function icsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function icsText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Quoted parameter value (CN): commas, semicolons and colons are literal inside the quotes;
+ * quotes, carets and line breaks take RFC 6868 escapes, as a name may contain any of them
+ */
+function icsParam(value: string): string {
+  return `"${value.replace(/\^/g, '^^').replace(/"/g, "^'").replace(/\r?\n/g, '^n')}"`;
+}
+
+/** RFC 5545 lines are at most 75 octets; longer ones continue on lines starting with a space */
+function foldIcsLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  for (const char of Array.from(line)) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      chunks.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+export class SchedulingService {
+  private config: SchedulingConfig = {
+    enabled: process.env.SCHEDULING_ENABLED !== 'false',
+    horizonDays: parseInt(process.env.SCHEDULING_HORIZON_DAYS || '10', 10),
+    minNoticeHours: parseInt(process.env.SCHEDULING_MIN_NOTICE_HOURS || '12', 10),
+    proposalCount: 3,
+    proposalTtlHours: parseInt(process.env.SCHEDULING_PROPOSAL_TTL_HOURS || '72', 10),
+    leadHours: { start: 9, end: 19 },
+    defaultTimezone: process.env.SCHEDULING_DEFAULT_TIMEZONE || 'Europe/Madrid',
+    dealStage: (process.env.MEETING_DEAL_STAGE as DealStage) || 'qualified'
+  };
+
+  isValidTimezone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  timezoneFor(conversation: Conversation): string {
+    return REGION_TIMEZONES[(conversation.region || '').toUpperCase()] || this.config.defaultTimezone;
+  }
+
+  /**
+   * Scheduling step of an inbound turn, run once the bot would otherwise pick a question.
+   * Returns null when scheduling has nothing to say and the bot carries on qualifying.
+   */
+  async handleTurn(conversation: Conversation, message: Message, qualified: boolean, now: Date = new Date()): Promise<SchedulingTurn | null> {
+    if (!this.config.enabled) return null;
+
+    const history = await storage.getMeetingsByConversation(conversation.id);
+    const active = history.find(m => m.status === 'proposed' || m.status === 'booked');
+
+    if (active?.status === 'proposed') {
+      if (active.createdAt && now.getTime() - active.createdAt.getTime() > this.config.proposalTtlHours * HOUR_MS) {
+        await this.expire(active, 'no_pick');
+        return null;
+      }
+
+      const replyId = (message.metadata as Record<string, any> | null)?.interactive?.id;
+      const pick = this.parsePick(message.content, replyId);
+      return pick ? this.applyPick(conversation, active, pick, message.content, now) : null;
+    }
+
+    // The bot offers a call once; later offers come from the dashboard
+    if (active || !qualified || history.length > 0) return null;
+
+    try {
+      return await this.propose(conversation, 'bot', now);
+    } catch (error) {
+      if (error instanceof SchedulingError || error instanceof OutboundBlockedError) {
+        console.warn(`No meeting offered to conversation ${conversation.id}: ${error.message}`);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /** Offer the next open slots; replaces an open offer */
+  async propose(conversation: Conversation, proposedBy: string = 'bot', now: Date = new Date()): Promise<SchedulingTurn> {
+    const active = await storage.getActiveMeeting(conversation.id);
+    if (active?.status === 'booked') {
+      throw new SchedulingError('The conversation already has a booked meeting');
+    }
+
+    const leadTimezone = this.timezoneFor(conversation);
+    const offered = this.chooseOffer(await this.openSlots(conversation, now), leadTimezone);
+    if (offered.length === 0) {
+      throw new SchedulingError(`No consultant availability in the next ${this.config.horizonDays} days`);
+    }
+
+    if (active) await this.expire(active, 'superseded');
+
+    const meeting = await storage.createMeeting({
+      conversationId: conversation.id,
+      status: 'proposed',
+      proposedSlots: offered,
+      leadTimezone
+    });
+
+    const sent = await this.sendOffer(conversation, meeting, offered, 'offer');
+    if (sent.blocked) {
+      await storage.updateMeeting(meeting.id, { status: 'expired' });
+      throw new OutboundBlockedError(sent.blocked);
+    }
+
+    const metrics = await storage.getLatestMetrics(conversation.id);
+    const trace = await storage.saveDecisionTrace({
+      conversationId: conversation.id,
+      action: 'propose_meeting',
+      reasoning: `Lead qualified (${Math.round((conversation.qualificationScore || 0) * 100)}%); offered ${offered.length} slots in ${leadTimezone}` +
+        (proposedBy === 'bot' ? '' : `, requested by ${proposedBy}`),
+      metricsUsed: ['qualificationScore', 'schedulingEtiquette'],
+      confidence: metrics?.qualificationConfidence ?? 0,
+      utilityScore: conversation.qualificationScore || 0,
+      questionSelected: sent.content,
+      outcome: 'pending',
+      feedback: {
+        proposedBy,
+        leadTimezone,
+        slots: offered.map(slot => slot.startsAt),
+        schedulingEtiquette: metrics?.schedulingEtiquette ?? null
+      }
+    });
+
+    const updated = await storage.updateMeeting(meeting.id, { decisionTraceId: trace.id });
+    await websocketService.broadcastDecisionUpdate(trace);
+    return { action: 'proposed', meeting: updated, replied: sent.sent };
+  }
+
+  /** Book a slot picked in the dashboard; it must still be open */
+  async bookFromDashboard(conversation: Conversation, startsAt: Date, bookedBy: string, availabilityId?: string): Promise<SchedulingTurn> {
+    const active = await storage.getActiveMeeting(conversation.id);
+    if (active?.status === 'booked') {
+      throw new SchedulingError('The conversation already has a booked meeting');
+    }
+
+    const slot = (await this.openSlots(conversation)).find(s =>
+      new Date(s.startsAt).getTime() === startsAt.getTime() && (!availabilityId || s.availabilityId === availabilityId)
+    );
+    if (!slot) {
+      throw new SchedulingError('That slot is not open');
+    }
+
+    const booked = await this.book(conversation, active, slot, { bookedVia: 'dashboard', bookedBy });
+    if (!booked) {
+      throw new SchedulingError('That slot is not open');
+    }
+    return booked;
+  }
+
+  /** Withdraw an offer or call off a booked meeting; the lead is not messaged, the rep follows up */
+  async cancel(meeting: Meeting): Promise<Meeting> {
+    if (meeting.status !== 'proposed' && meeting.status !== 'booked') {
+      throw new SchedulingError(`The meeting is already ${meeting.status}`);
+    }
+
+    if (meeting.status === 'proposed') {
+      await this.expire(meeting, 'cancelled');
+    }
+
+    const cancelled = await storage.updateMeeting(meeting.id, { status: 'cancelled', cancelledAt: new Date() });
+    await websocketService.broadcastConversationUpdate(meeting.conversationId);
+    return cancelled;
+  }
+
+  /** Bookable slots, soonest first: availability minus booked meetings, inside the lead's working hours */
+  async openSlots(conversation: Conversation, now: Date = new Date()): Promise<MeetingSlot[]> {
+    const rules = await storage.getConsultantAvailability(conversation.workspaceId);
+    if (rules.length === 0) return [];
+
+    const from = new Date(now.getTime() + this.config.minNoticeHours * HOUR_MS);
+    const to = new Date(now.getTime() + this.config.horizonDays * DAY_MS);
+    const booked = await storage.getBookedMeetings(from, to);
+    const leadTimezone = this.timezoneFor(conversation);
+    const slots = new Map<string, MeetingSlot>();
+
+    for (const rule of rules) {
+      const [startHour, startMinute] = parseClock(rule.startTime);
+      const [endHour, endMinute] = parseClock(rule.endTime);
+      const length = rule.slotMinutes * MINUTE_MS;
+
+      for (let day = 0; day <= this.config.horizonDays; day++) {
+        const date = zonedParts(new Date(now.getTime() + day * DAY_MS), rule.timezone);
+        if (date.weekday !== rule.weekday) continue;
+
+        const windowEnd = zonedTime(date, endHour, endMinute, rule.timezone).getTime();
+        for (let start = zonedTime(date, startHour, startMinute, rule.timezone).getTime(); start + length <= windowEnd; start += length) {
+          const startsAt = new Date(start);
+          const endsAt = new Date(start + length);
+          if (startsAt < from || endsAt > to) continue;
+          if (!this.withinLeadHours(startsAt, endsAt, leadTimezone)) continue;
+          if (booked.some(meeting => this.sameConsultant(meeting, rule) && meeting.startsAt! < endsAt && meeting.endsAt! > startsAt)) continue;
+
+          // Overlapping rules of the same consultant offer the slot once
+          const key = `${rule.consultantEmail || rule.consultantName}|${start}`;
+          if (!slots.has(key)) {
+            slots.set(key, {
+              startsAt: startsAt.toISOString(),
+              endsAt: endsAt.toISOString(),
+              availabilityId: rule.id,
+              consultantName: rule.consultantName,
+              consultantEmail: rule.consultantEmail
+            });
+          }
+        }
+      }
+    }
+
+    return Array.from(slots.values()).sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+  }
+
+  /**
+   * Read a reply to an offer: a tapped list row, the option number or free-text day and time.
+   * Clauses the lead turns down ("el jueves no puedo") are skipped.
+   * Null when the reply says nothing about when the lead can.
+   */
+  parsePick(text: string, replyId?: string): SlotPick | null {
+    // m:<meetingId>:<index>:<slot start, base 36 epoch ms>; rows sent before the start was added have none
+    const tapped = replyId ? /^m:([^:]+):(\d+)(?::([0-9a-z]+))?$/.exec(replyId) : null;
+    if (tapped) {
+      const startsAt = tapped[3] ? parseInt(tapped[3], 36) : undefined;
+      return { option: parseInt(tapped[2], 10), tapped: { meetingId: tapped[1], ...(startsAt !== undefined ? { startsAt } : {}) } };
+    }
+
+    let normalized = (text || '')
+      .split(CLAUSE_PATTERN)
+      .map(clause => normalizeText(clause))
+      .filter(clause => !NEGATION_PATTERN.test(clause.replace(AGREEMENT_PATTERN, ' ')))
+      .join(' ')
+      .trim();
+    if (!normalized) return null;
+
+    const option = OPTION_PATTERN.exec(normalized);
+    if (option) {
+      const [, prefix, word] = option;
+      const spelled = prefix === '' || /(?:opcion|option|numero|number)\s+$/.test(prefix) ? NUMBER_WORDS[word] : undefined;
+      const index = /^\d$/.test(word) ? parseInt(word, 10) - 1 : OPTION_WORDS[word] ?? spelled;
+      if (index !== undefined && index >= 0) return { option: index };
+    }
+
+    const pick: SlotPick = {};
+
+    // Parts of day first: "por la mañana" is the morning, a "mañana" left over is tomorrow
+    const partsOfDay: Array<[RegExp, PartOfDay]> = [
+      [/\b(?:por|de|en) la manana\b|\bmorning\b|\btemprano\b/, 'morning'],
+      [/\b(?:por|de|en) la tarde\b|\bafternoon\b|\bmediodia\b/, 'afternoon'],
+      [/\b(?:por|de|en) la noche\b|\bevening\b/, 'evening']
+    ];
+    for (const [pattern, partOfDay] of partsOfDay) {
+      if (pattern.test(normalized)) {
+        pick.partOfDay = partOfDay;
+        normalized = normalized.replace(pattern, ' ');
+        break;
+      }
+    }
+
+    if (/\bpasado manana\b/.test(normalized)) {
+      pick.dayOffset = 2;
+    } else if (/\bmanana\b|\btomorrow\b/.test(normalized)) {
+      pick.dayOffset = 1;
+    } else if (/\bhoy\b|\btoday\b/.test(normalized)) {
+      pick.dayOffset = 0;
+    }
+
+    const weekday = normalized.split(' ').find(word => WEEKDAY_WORDS[word] !== undefined);
+    if (weekday) pick.weekday = WEEKDAY_WORDS[weekday];
+
+    normalized = normalized.replace(/\b(?:(a|sobre|hacia) )?(las?) ([a-z]+)\b/g, (phrase, preposition, article, word) =>
+      HOUR_WORDS[word] !== undefined ? `${preposition || 'a'} ${article} ${HOUR_WORDS[word]}` : phrase);
+
+    const time = /\b(?:a las?|at|sobre las?|hacia las?|around)\s+(\d{1,2})(?:[:.h](\d{2}))?\s*(am|pm|h)?\b/.exec(normalized)
+      || /\b(\d{1,2})[:.h](\d{2})\s*(am|pm)?\b/.exec(normalized)
+      || /\b(\d{1,2})()\s*(am|pm)\b/.exec(normalized);
+    if (time) {
+      let hour = parseInt(time[1], 10);
+      const suffix = time[3];
+      if (suffix === 'pm' && hour < 12) hour += 12;
+      if (suffix === 'am' && hour === 12) hour = 0;
+      // "a las 4 de la tarde"; and nobody books a call at 5 in the morning, so "a las 5" is 17:00
+      // unless the lead says "de la mañana"
+      if (!suffix && hour < 12 && (pick.partOfDay === 'afternoon' || pick.partOfDay === 'evening' || (hour <= 7 && pick.partOfDay !== 'morning'))) {
+        hour += 12;
+      }
+
+      if (hour < 24) {
+        pick.hour = hour;
+        if (time[2]) pick.minute = parseInt(time[2], 10);
+      }
+    }
+
+    return Object.keys(pick).length > 0 ? pick : null;
+  }
+
+  /** ICS invite of a booked (or cancelled) meeting, organized by its consultant */
+  buildInvite(meeting: Meeting, conversation: Conversation): string {
+    if (!meeting.startsAt || !meeting.endsAt) {
+      throw new SchedulingError('Only booked meetings have an invite');
+    }
+
+    const cancelled = meeting.status === 'cancelled';
+    const description = [
+      `Lead: ${conversation.contactName}${conversation.company ? ` (${conversation.company})` : ''}`,
+      `Contact: ${conversation.contactPhone} over ${conversation.channel}`,
+      `Lead time zone: ${meeting.leadTimezone}`,
+      meeting.pickText ? `Booked with: "${meeting.pickText}"` : `Booked from the ${meeting.bookedVia || 'dashboard'}`
+    ].join('\n');
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//LeadQualify//Meetings//EN',
+      'CALSCALE:GREGORIAN',
+      `METHOD:${cancelled ? 'CANCEL' : 'REQUEST'}`,
+      'BEGIN:VEVENT',
+      `UID:${meeting.id}@leadqualify`,
+      `DTSTAMP:${icsDate(new Date())}`,
+      `SEQUENCE:${cancelled ? 1 : 0}`,
+      `DTSTART:${icsDate(meeting.startsAt)}`,
+      `DTEND:${icsDate(meeting.endsAt)}`,
+      `SUMMARY:${icsText(`Call with ${conversation.contactName}${conversation.company ? ` - ${conversation.company}` : ''}`)}`,
+      `DESCRIPTION:${icsText(description)}`,
+      meeting.consultantEmail ? `ORGANIZER;CN=${icsParam(meeting.consultantName || '')}:mailto:${meeting.consultantEmail}` : null,
+      conversation.channel === 'email' ? `ATTENDEE;CN=${icsParam(conversation.contactName)};RSVP=TRUE:mailto:${conversation.externalId}` : null,
+      `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ];
+
+    return lines.filter((line): line is string => line !== null).map(foldIcsLine).join('\r\n') + '\r\n';
+  }
+
+  /** "jueves 23 de octubre a las 10:00" in the lead's zone; short form for list rows */
+  slotLabel(slot: Pick<MeetingSlot, 'startsAt'>, timeZone: string, language: string = 'es', short: boolean = false): string {
+    const labels = LABELS[language] || LABELS.es;
+    const local = zonedParts(new Date(slot.startsAt), timeZone);
+    const time = `${pad(local.hour)}:${pad(local.minute)}`;
+
+    if (short) {
+      return `${labels.weekdaysShort[local.weekday]} ${local.day} ${labels.monthsShort[local.month - 1]}, ${time}`;
+    }
+    return language === 'en'
+      ? `${labels.weekdays[local.weekday]} ${local.day} ${labels.months[local.month - 1]} at ${time}`
+      : `${labels.weekdays[local.weekday]} ${local.day} de ${labels.months[local.month - 1]} a las ${time}`;
+  }
+
+  private async applyPick(conversation: Conversation, meeting: Meeting, pick: SlotPick, pickText: string, now: Date): Promise<SchedulingTurn | null> {
+    const timeZone = meeting.leadTimezone;
+    const offered = (meeting.proposedSlots as MeetingSlot[]) || [];
+
+    // A row tapped on an older list may sit at an index that now holds another slot: offer the current ones
+    if (pick.tapped) {
+      const current = pick.option !== undefined ? offered[pick.option] : undefined;
+      if (pick.tapped.meetingId !== meeting.id || !current || Date.parse(current.startsAt) !== pick.tapped.startsAt) {
+        return this.repropose(conversation, meeting, this.chooseOffer(await this.openSlots(conversation, now), timeZone), 'outdated');
+      }
+    }
+
+    // A day or part of day alone is not a booking yet: the lead picks from the slots it matches
+    const vague = pick.option === undefined && pick.hour === undefined;
+    const open = await this.openSlots(conversation, now);
+
+    let slot: MeetingSlot | undefined;
+    if (pick.option !== undefined) {
+      slot = offered[pick.option];
+    } else if (!vague) {
+      slot = offered.find(s => this.matches(s, pick, timeZone, now)) || open.find(s => this.matches(s, pick, timeZone, now));
+    }
+
+    if (slot && await this.isOpen(slot)) {
+      const booked = await this.book(conversation, meeting, slot, { bookedVia: conversation.channel || 'whatsapp', pickText });
+      if (booked) return booked;
+    }
+
+    // Offer what is open at the time asked for, or on the day asked for, or the next days
+    const askedTime = vague ? open.filter(s => this.matches(s, pick, timeZone, now)) : [];
+    const askedDay = pick.weekday !== undefined || pick.dayOffset !== undefined
+      ? open.filter(s => this.matches(s, { weekday: pick.weekday, dayOffset: pick.dayOffset }, timeZone, now))
+      : [];
+    const matching = askedTime.length > 0 ? askedTime : askedDay;
+    const alternatives = this.chooseOffer(matching.length > 0 ? matching : open, timeZone);
+    return this.repropose(conversation, meeting, alternatives, vague && matching.length > 0 ? 'confirm' : 'unavailable');
+  }
+
+  /** Replace the offer's slots and send them; null when nothing is open */
+  private async repropose(conversation: Conversation, meeting: Meeting, slots: MeetingSlot[], kind: OfferKind): Promise<SchedulingTurn | null> {
+    if (slots.length === 0) return null;
+
+    const updated = await storage.updateMeeting(meeting.id, { proposedSlots: slots });
+    const sent = await this.sendOffer(conversation, updated, slots, kind);
+    return { action: 'reproposed', meeting: updated, replied: sent.sent };
+  }
+
+  /**
+   * Record the booking and let it count as the qualification outcome: the conversation is
+   * qualified, the offer's trace succeeds and the deal is created or moved up.
+   * Null when the slot was booked by someone else in the meantime.
+   */
+  private async book(
+    conversation: Conversation,
+    meeting: Meeting | undefined,
+    slot: MeetingSlot,
+    details: { bookedVia: string; pickText?: string; bookedBy?: string }
+  ): Promise<SchedulingTurn | null> {
+    const values = {
+      status: 'booked',
+      availabilityId: slot.availabilityId,
+      consultantName: slot.consultantName,
+      consultantEmail: slot.consultantEmail || null,
+      startsAt: new Date(slot.startsAt),
+      endsAt: new Date(slot.endsAt),
+      pickText: details.pickText || null,
+      bookedVia: details.bookedVia,
+      bookedBy: details.bookedBy || null,
+      bookedAt: new Date()
+    };
+
+    let booked = await storage.bookMeeting({
+      ...values,
+      conversationId: conversation.id,
+      proposedSlots: meeting?.proposedSlots ?? [],
+      leadTimezone: meeting?.leadTimezone ?? this.timezoneFor(conversation)
+    }, meeting?.id);
+    if (!booked) return null; // Another lead took the slot since it was checked
+
+    if (meeting?.decisionTraceId) {
+      await storage.updateDecisionTraceOutcome(meeting.decisionTraceId, 'success', {
+        bookedVia: details.bookedVia,
+        pickText: details.pickText || null,
+        startsAt: slot.startsAt,
+        offered: ((meeting.proposedSlots as MeetingSlot[]) || []).some(s => s.startsAt === slot.startsAt)
+      });
+    }
+
+    const qualified = await storage.updateConversation(conversation.id, { status: 'qualified' });
+    const dealId = await this.createOrAdvanceDeal(qualified, details.bookedBy || 'scheduler');
+    if (dealId) {
+      booked = await storage.updateMeeting(booked.id, { dealId });
+    }
+
+    const sent = await this.sendConfirmation(conversation, booked);
+    await websocketService.broadcastConversationUpdate(conversation.id);
+    return { action: 'booked', meeting: booked, replied: sent };
+  }
+
+  /** Deal of the conversation, pushed to the first active CRM when it has none; moved up to the meeting stage */
+  private async createOrAdvanceDeal(conversation: Conversation, changedBy: string): Promise<string | null> {
+    try {
+      const deals = await storage.getDealsByConversation(conversation.id);
+      let deal = deals.find(d => !CLOSED_STAGES.includes(d.pipelineStage));
+
+      if (!deal) {
+        const [integration] = await storage.getActiveCrmIntegrations();
+        if (!integration) return deals[0]?.id || null;
+        deal = await crmService.pushConversation(conversation, integration);
+      }
+
+      if (DEAL_STAGES.indexOf(deal.pipelineStage as DealStage) < DEAL_STAGES.indexOf(this.config.dealStage)) {
+        deal = await crmService.moveDealToStage(deal, this.config.dealStage, changedBy, 'meeting');
+      }
+      return deal.id;
+    } catch (error) {
+      console.error(`Deal update for the meeting of conversation ${conversation.id} failed:`, error);
+      return null;
+    }
+  }
+
+  private async sendOffer(conversation: Conversation, meeting: Meeting, slots: MeetingSlot[], kind: OfferKind) {
+    const workspace = await workspaceService.getForConversation(conversation);
+    const language = conversation.language || workspace.language || 'es';
+    const messages = MESSAGES[language] || MESSAGES.es;
+    const consultants = Array.from(new Set(slots.map(slot => slot.consultantName)));
+
+    const text = `${messages[kind]}\n\n${messages.instructions}`
+      .replace('{consultant}', consultants.length === 1 ? consultants[0] : messages.team)
+      .replace('{zone}', this.zoneLabel(meeting.leadTimezone));
+
+    const sent = await complianceService.send(conversation, text, {
+      bot: true,
+      interactive: {
+        format: 'list',
+        buttonText: messages.button,
+        options: slots.map((slot, index) => ({
+          id: `m:${meeting.id}:${index}:${Date.parse(slot.startsAt).toString(36)}`,
+          title: `${index + 1} · ${this.slotLabel(slot, meeting.leadTimezone, language, true)}`,
+          description: consultants.length > 1 ? slot.consultantName : undefined
+        }))
+      },
+      account: workspaceService.channelAccount(workspace)
+    });
+
+    if (sent.sent) {
+      await storage.addMessage({
+        conversationId: conversation.id,
+        whatsappMessageId: sent.externalMessageId || null,
+        direction: 'outgoing',
+        content: sent.content,
+        messageType: sent.messageType,
+        deliveryStatus: 'sent',
+        deliveryStatusAt: new Date(),
+        metadata: { meetingId: meeting.id, meetingOffer: slots.map(slot => slot.startsAt) }
+      });
+    }
+    return sent;
+  }
+
+  private async sendConfirmation(conversation: Conversation, meeting: Meeting): Promise<boolean> {
+    const workspace = await workspaceService.getForConversation(conversation);
+    const language = conversation.language || workspace.language || 'es';
+    const messages = MESSAGES[language] || MESSAGES.es;
+
+    const text = messages.confirmed
+      .replace('{consultant}', meeting.consultantName || messages.team)
+      .replace('{when}', this.slotLabel({ startsAt: meeting.startsAt!.toISOString() }, meeting.leadTimezone, language))
+      .replace('{zone}', this.zoneLabel(meeting.leadTimezone));
+
+    const sent = await complianceService.send(conversation, text, { account: workspaceService.channelAccount(workspace) });
+    if (!sent.sent) return false;
+
+    await storage.addMessage({
+      conversationId: conversation.id,
+      whatsappMessageId: sent.externalMessageId || null,
+      direction: 'outgoing',
+      content: sent.content,
+      messageType: sent.messageType,
+      deliveryStatus: 'sent',
+      deliveryStatusAt: new Date(),
+      metadata: { meetingId: meeting.id }
+    });
+    return true;
+  }
+
+  private async expire(meeting: Meeting, reason: string): Promise<void> {
+    await storage.updateMeeting(meeting.id, { status: 'expired' });
+    if (meeting.decisionTraceId) {
+      await storage.updateDecisionTraceOutcome(meeting.decisionTraceId, 'failure', { reason });
+    }
+  }
+
+  private async isOpen(slot: MeetingSlot): Promise<boolean> {
+    const booked = await storage.getBookedMeetings(new Date(slot.startsAt), new Date(slot.endsAt));
+    return !booked.some(meeting =>
+      slot.consultantEmail ? meeting.consultantEmail === slot.consultantEmail : meeting.consultantName === slot.consultantName
+    );
+  }
+
+  private matches(slot: MeetingSlot, pick: SlotPick, timeZone: string, now: Date): boolean {
+    const local = zonedParts(new Date(slot.startsAt), timeZone);
+
+    if (pick.weekday !== undefined && local.weekday !== pick.weekday) return false;
+    if (pick.dayOffset !== undefined && !sameDate(local, zonedParts(new Date(now.getTime() + pick.dayOffset * DAY_MS), timeZone))) {
+      return false;
+    }
+
+    if (pick.hour !== undefined) {
+      return local.hour === pick.hour && (pick.minute === undefined || local.minute === pick.minute);
+    }
+    if (pick.partOfDay) {
+      const [from, to] = PART_OF_DAY_HOURS[pick.partOfDay];
+      return local.hour >= from && local.hour < to;
+    }
+    return true;
+  }
+
+  /** One slot per day, alternating mornings and afternoons, topped up with other times when days run out */
+  private chooseOffer(slots: MeetingSlot[], timeZone: string): MeetingSlot[] {
+    const byDay = new Map<string, MeetingSlot[]>();
+    for (const slot of slots) {
+      const local = zonedParts(new Date(slot.startsAt), timeZone);
+      const key = `${local.year}-${local.month}-${local.day}`;
+      byDay.set(key, [...(byDay.get(key) || []), slot]);
+    }
+
+    const offer: MeetingSlot[] = [];
+    Array.from(byDay.values()).forEach((daySlots, index) => {
+      if (offer.length >= this.config.proposalCount) return;
+      const afternoon = index % 2 === 1;
+      offer.push(daySlots.find(slot => (zonedParts(new Date(slot.startsAt), timeZone).hour >= 13) === afternoon) || daySlots[0]);
+    });
+
+    for (const slot of slots) {
+      if (offer.length >= this.config.proposalCount) break;
+      if (!offer.includes(slot)) offer.push(slot);
+    }
+
+    return offer.sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+  }
+
+  private withinLeadHours(startsAt: Date, endsAt: Date, timeZone: string): boolean {
+    const start = zonedParts(startsAt, timeZone);
+    const end = zonedParts(endsAt, timeZone);
+    const workingDay = start.weekday >= 1 && start.weekday <= 5;
+
+    return workingDay
+      && sameDate(start, end)
+      && start.hour >= this.config.leadHours.start
+      && end.hour * 60 + end.minute <= this.config.leadHours.end * 60;
+  }
+
+  private sameConsultant(meeting: Meeting, rule: ConsultantAvailability): boolean {
+    return rule.consultantEmail
+      ? meeting.consultantEmail === rule.consultantEmail
+      : meeting.consultantName === rule.consultantName;
+  }
+
+  /** "Madrid", "Mexico City" */
+  private zoneLabel(timeZone: string): string {
+    return (timeZone.split('/').pop() || timeZone).replace(/_/g, ' ');
+  }
+}
+
+export const schedulingService = new SchedulingService();
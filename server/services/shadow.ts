@@ -1,10 +1,10 @@
 import type { 
   Experiment, ExperimentVariant, ShadowDecision, InsertShadowDecision,
   ShadowMetrics, InsertShadowMetrics, PropensityScore, InsertPropensityScore,
-  DecisionContext, QuestionCandidate, SituationAwarenessState
+  QuestionCandidate, SituationAwarenessState
 } from "@shared/schema";
 import { storage } from "../storage";
-import { decisionService } from "./decision";
+import { decisionService, type DecisionContext } from "./decision";
 import { learningService } from "./learning";
 import { metricsService } from "./metrics";
 import { openaiService } from "./openai";
@@ -483,6 +483,11 @@ export class ShadowDecisionEngine {
   ): Promise<boolean> {
     try {
       const targetPopulation = experiment.targetPopulation as any;
+
+      // Workspace-scoped experiments only see that workspace's conversations
+      if (experiment.workspaceId && experiment.workspaceId !== context.workspaceId) {
+        return false;
+      }
       
       // Check conversation stage
       if (targetPopulation.conversationStage && 
@@ -532,7 +537,11 @@ export class ShadowDecisionEngine {
       currentState: context.currentState,
       messageHistory: context.messageHistory,
       previousQuestions: context.previousQuestions,
-      conversationStage: context.conversationStage
+      askedQuestionIds: context.askedQuestionIds,
+      conversationStage: context.conversationStage,
+      workspaceId: context.workspaceId,
+      language: context.language,
+      region: context.region
     }));
   }
 
@@ -667,7 +676,7 @@ abstract class ShadowPolicy {
   
   protected async getAvailableQuestions(context: DecisionContext): Promise<any[]> {
     // Get questions using existing service but in isolated manner
-    return await storage.getQuestions(undefined, 'es', 'ES');
+    return await decisionService.availableQuestions(context);
   }
 }
 
@@ -0,0 +1,263 @@
+// Semantic similarity between questions and conversation messages.
+// Decides which bank questions repeat something the agent already asked, however it was worded,
+// and which ones the lead already answered on their own ("we have about 20k for this" answers the
+// budget question before it is asked). Providers are pluggable (see ./types): EMBEDDING_PROVIDER=local
+// uses the embeddings endpoint of the local model server, openai the hosted API, and the default
+// ngram vectorizer runs offline and is the fallback whenever another provider fails. Word overlap
+// can't tell an answer from a sentence on the same topic, so on ngram vectors only repeats are found
+// and answered questions are left to the slots.
+// Vectors of bank questions and outgoing messages are cached in memory and in text_embeddings;
+// the lead's own messages are only held in memory.
+
+import { createHash } from 'crypto';
+import { storage } from '../../storage';
+import { NgramEmbeddingProvider, normalizeText } from './ngram';
+import { createLocalEmbeddingProvider, createOpenAIEmbeddingProvider } from './openai-compatible';
+import type { EmbeddingProvider, SimilarityMatch, SimilarityThresholds } from './types';
+import type { InsertTextEmbedding, QuestionBank } from '@shared/schema';
+
+export * from './types';
+export { NgramEmbeddingProvider, normalizeText } from './ngram';
+export { OpenAICompatibleEmbeddingProvider } from './openai-compatible';
+
+const MEMORY_CACHE_SIZE = 5000;
+const MIN_SENTENCE_WORDS = 3; // "Sí, claro" answers nothing on its own
+
+const DEFAULT_THRESHOLDS: SimilarityThresholds = { repeat: 0.85, answered: 0.6 };
+
+interface EmbeddingInput {
+  text: string;
+  sourceType: 'question' | 'message';
+  sourceId?: string;
+  persist: boolean;
+}
+
+export class SimilarityService {
+  private providers = new Map<string, EmbeddingProvider>();
+  private fallback = new NgramEmbeddingProvider();
+  private activeProviderId: string;
+  private memory = new Map<string, number[]>();
+  private overrides: Partial<SimilarityThresholds> = {
+    ...(process.env.SIMILARITY_REPEAT_THRESHOLD ? { repeat: parseFloat(process.env.SIMILARITY_REPEAT_THRESHOLD) } : {}),
+    ...(process.env.SIMILARITY_ANSWERED_THRESHOLD ? { answered: parseFloat(process.env.SIMILARITY_ANSWERED_THRESHOLD) } : {})
+  };
+
+  constructor() {
+    this.register(this.fallback);
+    this.activeProviderId = this.fallback.id;
+
+    const configured = process.env.EMBEDDING_PROVIDER || 'ngram';
+    if (configured === 'local') {
+      this.use(this.register(createLocalEmbeddingProvider(process.env.EMBEDDING_MODEL || 'nomic-embed-text')));
+    } else if (configured === 'openai') {
+      this.use(this.register(createOpenAIEmbeddingProvider(process.env.EMBEDDING_MODEL || 'text-embedding-3-small')));
+    } else if (configured !== 'ngram') {
+      console.warn(`Unknown EMBEDDING_PROVIDER "${configured}", using ngram`);
+    }
+  }
+
+  register(provider: EmbeddingProvider): EmbeddingProvider {
+    this.providers.set(provider.id, provider);
+    return provider;
+  }
+
+  use(provider: EmbeddingProvider | string): void {
+    const id = typeof provider === 'string' ? provider : provider.id;
+    if (!this.providers.has(id)) {
+      throw new Error(`Embedding provider ${id} is not registered`);
+    }
+    this.activeProviderId = id;
+  }
+
+  thresholdsFor(providerId: string = this.activeProviderId): SimilarityThresholds {
+    const provider = this.providers.get(providerId);
+    const thresholds = { ...DEFAULT_THRESHOLDS, ...provider?.thresholds };
+    // An override tunes a threshold; it doesn't turn answered detection on for a provider without it
+    return { ...thresholds, ...this.overrides, ...(thresholds.answered === null ? { answered: null } : {}) };
+  }
+
+  async getStatus(): Promise<{
+    provider: string;
+    fallback: string;
+    offline: boolean;
+    thresholds: SimilarityThresholds;
+    cached: number;
+    stored: number;
+  }> {
+    const provider = this.providers.get(this.activeProviderId)!;
+    return {
+      provider: provider.id,
+      fallback: this.fallback.id,
+      offline: provider.offline,
+      thresholds: this.thresholdsFor(provider.id),
+      cached: this.memory.size,
+      stored: await storage.countTextEmbeddings(provider.id)
+    };
+  }
+
+  /** Cosine similarity of two texts, with the provider that scored them */
+  async compare(a: string, b: string): Promise<{ score: number; provider: string }> {
+    const { vectors, providerId } = await this.embed([
+      { text: a, sourceType: 'message', persist: false },
+      { text: b, sourceType: 'message', persist: false }
+    ]);
+    return { score: cosine(vectors[0], vectors[1]), provider: providerId };
+  }
+
+  /**
+   * Bank questions that repeat one the agent already sent, keyed by question id with the
+   * closest previous message.
+   */
+  async findRepeats(questions: QuestionBank[], previousQuestions: string[]): Promise<Map<string, SimilarityMatch>> {
+    const previous = previousQuestions.filter(text => normalizeText(text));
+    if (questions.length === 0 || previous.length === 0) return new Map();
+
+    const { vectors, providerId } = await this.embed([
+      ...questions.map(question => this.questionInput(question)),
+      ...previous.map(text => ({ text, sourceType: 'message' as const, persist: true }))
+    ]);
+
+    return this.closest(questions, vectors, previous, this.thresholdsFor(providerId).repeat);
+  }
+
+  /**
+   * Bank questions the lead has already answered without being asked, keyed by question id with
+   * the sentence that answers it. Sentences the lead ends with a question mark are their own
+   * questions and answer nothing. Empty when the vectors come from a provider that has no
+   * answered threshold, the n-gram fallback included.
+   */
+  async findAnswered(questions: QuestionBank[], incomingMessages: string[]): Promise<Map<string, SimilarityMatch>> {
+    const sentences = incomingMessages.flatMap(message => this.statements(message));
+    if (questions.length === 0 || sentences.length === 0) return new Map();
+
+    const { vectors, providerId } = await this.embed([
+      ...questions.map(question => this.questionInput(question)),
+      ...sentences.map(text => ({ text, sourceType: 'message' as const, persist: false }))
+    ]);
+
+    const threshold = this.thresholdsFor(providerId).answered;
+    return threshold === null ? new Map() : this.closest(questions, vectors, sentences, threshold);
+  }
+
+  private closest(
+    questions: QuestionBank[],
+    vectors: number[][],
+    texts: string[],
+    threshold: number
+  ): Map<string, SimilarityMatch> {
+    const matches = new Map<string, SimilarityMatch>();
+    const textVectors = vectors.slice(questions.length);
+
+    questions.forEach((question, i) => {
+      for (let j = 0; j < textVectors.length; j++) {
+        const score = cosine(vectors[i], textVectors[j]);
+        const best = matches.get(question.id);
+        if (score >= threshold && (!best || score > best.score)) {
+          matches.set(question.id, { questionId: question.id, score, text: texts[j] });
+        }
+      }
+    });
+
+    return matches;
+  }
+
+  private questionInput(question: QuestionBank): EmbeddingInput {
+    return { text: question.questionText, sourceType: 'question', sourceId: question.id, persist: true };
+  }
+
+  private statements(message: string): string[] {
+    return message
+      .split(/(?<=[.!?;])\s+|\n+/) // "20.000" stays one sentence
+      .map(sentence => sentence.trim())
+      .filter(sentence => !/[?¿]/.test(sentence))
+      .filter(sentence => normalizeText(sentence).split(' ').length >= MIN_SENTENCE_WORDS);
+  }
+
+  /**
+   * Vectors for the inputs, in order, from the memory cache, then the stored cache, then the
+   * active provider. If the provider fails the whole batch is embedded by the fallback, since
+   * vectors of two providers can't be compared.
+   */
+  private async embed(inputs: EmbeddingInput[]): Promise<{ vectors: number[][]; providerId: string }> {
+    const provider = this.providers.get(this.activeProviderId)!;
+    try {
+      return { vectors: await this.embedWith(provider, inputs), providerId: provider.id };
+    } catch (error) {
+      if (provider === this.fallback) throw error;
+      console.warn(`Embedding provider ${provider.id} failed, using ${this.fallback.id}:`, error instanceof Error ? error.message : error);
+      return { vectors: await this.embedWith(this.fallback, inputs), providerId: this.fallback.id };
+    }
+  }
+
+  private async embedWith(provider: EmbeddingProvider, inputs: EmbeddingInput[]): Promise<number[][]> {
+    const hashes = inputs.map(input => contentHash(input.text));
+    const vectors: Array<number[] | undefined> = hashes.map(hash => this.memory.get(`${provider.id}:${hash}`));
+
+    const unstored = Array.from(new Set(hashes.filter((hash, i) => !vectors[i] && inputs[i].persist)));
+    if (unstored.length > 0 && provider !== this.fallback) {
+      // The n-gram vectorizer is cheaper than a database round trip
+      try {
+        const stored = new Map((await storage.getTextEmbeddings(provider.id, unstored))
+          .map(row => [row.contentHash, row.vector as number[]]));
+        hashes.forEach((hash, i) => {
+          if (!vectors[i] && stored.has(hash)) vectors[i] = this.remember(provider.id, hash, stored.get(hash)!);
+        });
+      } catch (error) {
+        console.error('Failed to read cached embeddings:', error);
+      }
+    }
+
+    const missing = new Map<string, number>(); // Hash of each text still to embed → first input with it
+    hashes.forEach((hash, i) => {
+      if (!vectors[i] && !missing.has(hash)) missing.set(hash, i);
+    });
+
+    if (missing.size > 0) {
+      const indexes = Array.from(missing.values());
+      const embedded = await provider.embed(indexes.map(i => inputs[i].text));
+      const fresh = new Map<string, number[]>();
+      const toStore: InsertTextEmbedding[] = [];
+
+      indexes.forEach((inputIndex, k) => {
+        const hash = hashes[inputIndex];
+        fresh.set(hash, this.remember(provider.id, hash, embedded[k]));
+        const input = inputs[inputIndex];
+        if (input.persist && provider !== this.fallback) {
+          toStore.push({ provider: provider.id, contentHash: hash, sourceType: input.sourceType, sourceId: input.sourceId, vector: embedded[k] });
+        }
+      });
+      hashes.forEach((hash, i) => {
+        if (!vectors[i]) vectors[i] = fresh.get(hash);
+      });
+
+      if (toStore.length > 0) {
+        storage.saveTextEmbeddings(toStore).catch(error => console.error('Failed to cache embeddings:', error));
+      }
+    }
+
+    return vectors as number[][];
+  }
+
+  private remember(providerId: string, hash: string, vector: number[]): number[] {
+    const key = `${providerId}:${hash}`;
+    this.memory.delete(key);
+    this.memory.set(key, vector);
+    if (this.memory.size > MEMORY_CACHE_SIZE) {
+      this.memory.delete(this.memory.keys().next().value!);
+    }
+    return vector;
+  }
+}
+
+function contentHash(text: string): string {
+  return createHash('sha256').update(normalizeText(text)).digest('hex');
+}
+
+function cosine(a: number[], b: number[]): number {
+  if (!a || !b || a.length !== b.length) return 0;
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot; // Providers return unit vectors
+}
+
+export const similarityService = new SimilarityService();
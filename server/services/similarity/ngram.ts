@@ -0,0 +1,80 @@
+import type { EmbeddingProvider } from './types';
+
+const DIMENSIONS = 1024;
+const WORD_WEIGHT = 2; // Whole words count more than the character trigrams inside them
+
+// Function words that make any two Spanish or English sentences look alike
+const STOPWORDS = new Set([
+  'a', 'al', 'algo', 'como', 'con', 'cual', 'cuales', 'cuando', 'de', 'del', 'donde', 'el', 'ella', 'en', 'es', 'esa',
+  'ese', 'eso', 'esta', 'este', 'esto', 'ha', 'hay', 'la', 'las', 'le', 'les', 'lo', 'los', 'me', 'mi', 'mis', 'muy',
+  'nos', 'o', 'para', 'pero', 'por', 'que', 'se', 'si', 'sin', 'su', 'sus', 'tu', 'tus', 'un', 'una', 'unos',
+  'usted', 'ustedes', 'y', 'ya', 'yo',
+  'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'how', 'in', 'is', 'it', 'its', 'of', 'on',
+  'or', 'our', 'that', 'the', 'this', 'to', 'we', 'what', 'when', 'where', 'which', 'with', 'you', 'your'
+]);
+
+/** Lowercase, accents and punctuation removed, single spaces */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Hashed bag of words and character trigrams. Trigrams make "presupuesto" and "presupuestos"
+ * or "decide" and "decisión" overlap without a stemmer; it knows no synonyms, so thresholds are
+ * lower than for neural embeddings. Runs offline and deterministically.
+ * Only used for repeats: an answer shares no words with its question ("tenemos unos 10.000 euros"
+ * for the budget question) while unrelated sentences share topic words, so answered detection is
+ * left to the slots.
+ */
+export class NgramEmbeddingProvider implements EmbeddingProvider {
+  readonly id = 'ngram:v1';
+  readonly offline = true;
+  readonly thresholds = { repeat: 0.55, answered: null };
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.vectorize(text));
+  }
+
+  vectorize(text: string): number[] {
+    const counts = new Map<number, number>();
+    const add = (feature: string, weight: number) => {
+      const index = fnv1a(feature) % DIMENSIONS;
+      counts.set(index, (counts.get(index) || 0) + weight);
+    };
+
+    const words = normalizeText(text).split(' ').filter(word => word && !STOPWORDS.has(word));
+    for (const word of words) {
+      add(`w:${word}`, WORD_WEIGHT);
+      const padded = `^${word}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`c:${padded.slice(i, i + 3)}`, 1);
+      }
+    }
+
+    const vector = new Array<number>(DIMENSIONS).fill(0);
+    counts.forEach((count, index) => {
+      vector[index] = Math.log(1 + count);
+    });
+    return normalizeVector(vector);
+  }
+}
+
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,62 @@
+import OpenAI from "openai";
+import { normalizeVector } from './ngram';
+import type { EmbeddingProvider } from './types';
+
+interface OpenAICompatibleEmbeddingConfig {
+  name: string;
+  apiKey?: string;
+  baseURL?: string;
+  model: string;
+  offline: boolean;
+}
+
+/** Embeddings endpoint of OpenAI and of local servers (Ollama, vLLM, LM Studio, text-embeddings-inference) */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly offline: boolean;
+  private model: string;
+  private client: OpenAI;
+
+  constructor(config: OpenAICompatibleEmbeddingConfig) {
+    this.id = `${config.name}:${config.model}`;
+    this.offline = config.offline;
+    this.model = config.model;
+    this.client = new OpenAI({
+      baseURL: config.baseURL,
+      apiKey: config.apiKey || 'not-configured'
+    });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await this.client.embeddings.create({ model: this.model, input: texts });
+    if (response.data.length !== texts.length) {
+      throw new Error(`${this.id} returned ${response.data.length} embeddings for ${texts.length} texts`);
+    }
+
+    // Some local servers return unnormalized vectors
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => normalizeVector(item.embedding));
+  }
+}
+
+export function createLocalEmbeddingProvider(model: string): OpenAICompatibleEmbeddingProvider {
+  return new OpenAICompatibleEmbeddingProvider({
+    name: 'local',
+    baseURL: process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+    apiKey: process.env.LOCAL_LLM_API_KEY,
+    model,
+    offline: true
+  });
+}
+
+export function createOpenAIEmbeddingProvider(model: string): OpenAICompatibleEmbeddingProvider {
+  return new OpenAICompatibleEmbeddingProvider({
+    name: 'openai',
+    apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_KEY,
+    model,
+    offline: false
+  });
+}
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { storage } from '../../storage';
+import { SimilarityService } from './index';
+import type { EmbeddingProvider } from './types';
+import type { QuestionBank } from '@shared/schema';
+
+function question(id: string, questionText: string): QuestionBank {
+  return { id, questionText, language: 'es', isActive: true } as QuestionBank;
+}
+
+const BUDGET = question('budget', '¿Cuál es su presupuesto aproximado?');
+const AUTHORITY = question('authority', '¿Quién toma la decisión final en la empresa?');
+const SYSTEM = question('system', '¿Qué sistema usan hoy para la contabilidad?');
+const TOOLS = question('tools', '¿Qué herramientas usan hoy para la facturación?');
+const QUESTIONS = [BUDGET, AUTHORITY, SYSTEM, TOOLS];
+
+// What leads write in practice: answers that share no words with their question,
+// and sentences that share topic words with a question they don't answer
+const LEAD_MESSAGES = [
+  'Tenemos unos 10.000 euros para esto.',
+  'La empresa tiene 20 empleados y usamos Excel.',
+  'No sé, tendría que preguntar a contabilidad.',
+  'Queremos automatizar la facturación de la empresa.'
+];
+
+/** Provider with an answered threshold that scores by a lookup table of sentence → question */
+function semanticProvider(answers: Record<string, string>): EmbeddingProvider {
+  const ids = QUESTIONS.map(q => q.id);
+  const axis = (id: string | undefined) => ids.map(other => (other === id ? 1 : 0));
+  return {
+    id: 'semantic:test',
+    offline: false,
+    embed: async texts => texts.map(text => axis(QUESTIONS.find(q => q.questionText === text)?.id ?? answers[text]))
+  };
+}
+
+describe('SimilarityService on the n-gram provider', () => {
+  it('finds no answered questions in sentences that only share topic words', async () => {
+    const service = new SimilarityService();
+
+    expect((await service.findAnswered(QUESTIONS, LEAD_MESSAGES)).size).toBe(0);
+  });
+
+  it('keeps answered detection off when a threshold override is configured', async () => {
+    vi.stubEnv('SIMILARITY_ANSWERED_THRESHOLD', '0.3');
+    const service = new SimilarityService();
+
+    expect(service.thresholdsFor().answered).toBeNull();
+    expect((await service.findAnswered(QUESTIONS, LEAD_MESSAGES)).size).toBe(0);
+  });
+
+  it('still finds questions the agent already asked in other words', async () => {
+    const service = new SimilarityService();
+    const repeats = await service.findRepeats(QUESTIONS, [
+      '¿Qué presupuesto aproximado tienen para esto?',
+      '¿Quién decide finalmente en la empresa?'
+    ]);
+
+    expect(Array.from(repeats.keys()).sort()).toEqual(['authority', 'budget']);
+  });
+
+  it('does not take a question on the same subject for a repeat', async () => {
+    const service = new SimilarityService();
+    const repeats = await service.findRepeats([AUTHORITY, SYSTEM], [
+      '¿Cuántos empleados tiene la empresa?',
+      '¿Cuál es su presupuesto aproximado?'
+    ]);
+
+    expect(repeats.size).toBe(0);
+  });
+});
+
+describe('SimilarityService with an answered threshold', () => {
+  const answers = { 'Tenemos unos 10.000 euros para esto.': 'budget' };
+
+  beforeEach(() => {
+    vi.spyOn(storage, 'getTextEmbeddings').mockResolvedValue([]);
+    vi.spyOn(storage, 'saveTextEmbeddings').mockResolvedValue();
+  });
+
+  it('finds the questions the lead answered', async () => {
+    const service = new SimilarityService();
+    service.use(service.register(semanticProvider(answers)));
+    const answered = await service.findAnswered(QUESTIONS, LEAD_MESSAGES);
+
+    expect(Array.from(answered.keys())).toEqual(['budget']);
+    expect(answered.get('budget')!.text).toBe('Tenemos unos 10.000 euros para esto.');
+  });
+
+  it('finds none when the batch had to be embedded by the n-gram fallback', async () => {
+    const service = new SimilarityService();
+    const provider = semanticProvider(answers);
+    vi.spyOn(provider, 'embed').mockRejectedValue(new Error('embeddings endpoint unreachable'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    service.use(service.register(provider));
+
+    expect((await service.findAnswered(QUESTIONS, LEAD_MESSAGES)).size).toBe(0);
+  });
+});
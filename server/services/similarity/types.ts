@@ -0,0 +1,25 @@
+/**
+ * Turns texts into vectors whose cosine similarity tracks meaning. Vectors from different
+ * providers (or models) are not comparable, so cached vectors are keyed by id.
+ */
+export interface EmbeddingProvider {
+  /** Provider and model, e.g. ngram:v1 or local:nomic-embed-text */
+  readonly id: string;
+  /** True when the provider needs no network; offline providers are the fallback */
+  readonly offline: boolean;
+  /** One vector per text, in order */
+  embed(texts: string[]): Promise<number[][]>;
+  /** Thresholds that suit this provider's score range, when they differ from the defaults */
+  readonly thresholds?: Partial<SimilarityThresholds>;
+}
+
+export interface SimilarityThresholds {
+  repeat: number; // A candidate question this close to one already asked is a repeat
+  answered: number | null; // A lead sentence this close to a question answers it; null when the provider can't tell
+}
+
+export interface SimilarityMatch {
+  questionId: string;
+  score: number;
+  text: string; // The previous question or lead sentence that matched
+}
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { storage } from '../storage';
+import { parseBudget, slotService } from './slots';
+import type { MessageAnalysis } from './grok-nlp';
+import type { Conversation, ConversationSlots, Message } from '@shared/schema';
+
+function analysis(values: Partial<MessageAnalysis>): MessageAnalysis {
+  return {
+    budgetSignals: { hasExplicitBudget: false, budgetIndicators: [], confidence: 0, meetsMinimum: false },
+    ...values
+  } as MessageAnalysis;
+}
+
+function message(id: string): Message {
+  return { id, conversationId: 'conversation-1', direction: 'incoming', content: '', metadata: {} } as Message;
+}
+
+describe('parseBudget', () => {
+  it('reads single amounts, ranges and open ends', () => {
+    expect(parseBudget('15.000 €')).toEqual({ min: 15000, max: 15000 });
+    expect(parseBudget('5.000–15.000 €')).toEqual({ min: 5000, max: 15000 });
+    expect(parseBudget('Entre 8 y 12 mil')).toEqual({ min: 8000, max: 12000 });
+    expect(parseBudget('Menos de 5k')).toEqual({ max: 5000 });
+    expect(parseBudget('Más de 50.000 €')).toEqual({ min: 50000 });
+  });
+
+  it('reads millions, singular and plural', () => {
+    expect(parseBudget('Más de 1 millón')).toEqual({ min: 1000000 });
+    expect(parseBudget('1,5 millones')).toEqual({ min: 1500000, max: 1500000 });
+    expect(parseBudget('Over 2 million')).toEqual({ min: 2000000 });
+  });
+
+  it('returns null without an amount', () => {
+    expect(parseBudget('Aún no lo sabemos')).toBeNull();
+  });
+});
+
+describe('SlotService.recordMessage', () => {
+  let conversation: Conversation;
+
+  beforeEach(() => {
+    conversation = { id: 'conversation-1', metadata: {} } as Conversation;
+    vi.spyOn(storage, 'mergeConversationMetadata').mockImplementation(async (_id, metadata) =>
+      ({ ...conversation, metadata: { ...(conversation.metadata as object), ...metadata } } as Conversation));
+  });
+
+  const slots = () => slotService.getSlots(conversation) as ConversationSlots;
+
+  it('adds tools and pain points up over the conversation', async () => {
+    await slotService.recordMessage(conversation, message('message-1'), analysis({ painPoints: ['Facturación manual'] }));
+    await slotService.recordMessage(conversation, message('message-2'), analysis({ painPoints: ['facturación manual', 'Errores de stock'] }));
+
+    expect(slots().painPoints?.value).toEqual(['Facturación manual', 'Errores de stock']);
+    expect(slots().painPoints?.sourceMessageId).toBe('message-2');
+  });
+
+  it('keeps a clear budget over a much vaguer restatement and takes a confident correction', async () => {
+    const stated = (min: number, confidence: number) => analysis({
+      budgetSignals: { hasExplicitBudget: true, budgetRange: { min, max: min }, budgetIndicators: [], confidence, meetsMinimum: true }
+    });
+
+    await slotService.recordMessage(conversation, message('message-1'), stated(10000, 0.9));
+    const vaguer = await slotService.recordMessage(conversation, message('message-2'), stated(3000, 0.5));
+    expect(vaguer).toEqual([]);
+    expect(slots().budget?.value).toEqual({ min: 10000, max: 10000 });
+
+    const corrected = await slotService.recordMessage(conversation, message('message-3'), stated(12000, 0.8));
+    expect(corrected).toEqual(['budget']);
+    expect(slots().budget?.value).toEqual({ min: 12000, max: 12000 });
+  });
+
+  it('reports nothing changed when the same value is stated again', async () => {
+    const timeline = analysis({ urgencySignals: { urgencyLevel: 'high', timeline: 'antes de marzo', indicators: [], confidence: 0.8 } });
+
+    expect(await slotService.recordMessage(conversation, message('message-1'), timeline)).toEqual(['timeline']);
+    expect(await slotService.recordMessage(conversation, message('message-2'), timeline)).toEqual([]);
+    expect(storage.mergeConversationMetadata).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,313 @@
+// Qualification slots: the facts a lead has stated, one typed value per slot.
+// Metrics say how strong the budget or authority signals are; slots record what was actually said
+// ("budget: 8.000–12.000 EUR, stated by the CEO") and the message it came from, so the decision
+// step stops asking for what is already known. Free text fills slots from the NLP extraction,
+// button replies from the slot values of the tapped option (or from its label).
+// Kept in conversations.metadata.slots.
+
+import { storage } from '../storage';
+import { MessageComposer } from './message-composer';
+import type { MessageAnalysis } from './grok-nlp';
+import {
+  QUALIFICATION_SLOTS,
+  type Conversation,
+  type ConversationSlots,
+  type Message,
+  type QualificationSlot,
+  type QualificationSlotValues,
+  type QuestionBank,
+  type SlotEntry
+} from '@shared/schema';
+
+export interface SlotConfig {
+  minConfidence: number; // Below this a slot is shown but its questions are still asked
+}
+
+// Slots a question asks for, by subcategory and then category; a question can name its own in metrics.slots
+const QUESTION_SLOTS: Record<string, QualificationSlot[]> = {
+  budget: ['budget'],
+  authority: ['decisionMaker'],
+  decision: ['decisionMaker'],
+  timeline: ['timeline'],
+  need: ['painPoints'],
+  tools: ['currentTools'],
+  current_tools: ['currentTools'],
+  spoc: ['spocHours']
+};
+
+const LIST_SLOTS = new Set<QualificationSlot>(['currentTools', 'painPoints']);
+const MAX_LIST_ITEMS = 10;
+const CORRECTION_MARGIN = 0.2; // A vaguer restatement does not overwrite a clearer answer
+const NLP_LIST_CONFIDENCE = 0.7; // The extraction gives no confidence for pain points
+const LABEL_CONFIDENCE = 0.9; // Slot read from an option label rather than declared on the option
+
+const CURRENCY_MARKERS: Array<[RegExp, string]> = [
+  [/€|\beur(os?)?\b/i, 'EUR'],
+  [/\busd\b|us\$|\bdolares\b|\bdollars?\b/i, 'USD'],
+  [/\bmxn\b|\bpesos mexicanos\b/i, 'MXN'],
+  [/\bcop\b|\bpesos colombianos\b/i, 'COP'],
+  [/\bgbp\b|£/i, 'GBP']
+];
+
+type SlotCandidate = { [K in QualificationSlot]: { slot: K } & Omit<SlotEntry<K>, 'capturedAt' | 'sourceMessageId'> }[QualificationSlot];
+
+export class SlotService {
+  private config: SlotConfig = {
+    minConfidence: parseFloat(process.env.SLOT_MIN_CONFIDENCE || '0.6')
+  };
+
+  getSlots(conversation: Conversation | undefined): ConversationSlots {
+    return ((conversation?.metadata as Record<string, unknown> | null)?.slots as ConversationSlots) || {};
+  }
+
+  slotsFor(question: QuestionBank): QualificationSlot[] {
+    const declared = (question.metrics as { slots?: unknown } | null)?.slots;
+    if (Array.isArray(declared)) {
+      return declared.filter((slot): slot is QualificationSlot => (QUALIFICATION_SLOTS as readonly string[]).includes(slot));
+    }
+    return QUESTION_SLOTS[question.subcategory || ''] || QUESTION_SLOTS[question.category] || [];
+  }
+
+  isFilled(slots: ConversationSlots, slot: QualificationSlot): boolean {
+    const entry = slots[slot];
+    return !!entry && entry.confidence >= this.config.minConfidence;
+  }
+
+  /** Drops questions whose every slot is already filled; questions that ask for no slot stay */
+  filterQuestions(questions: QuestionBank[], conversation: Conversation | undefined): QuestionBank[] {
+    const slots = this.getSlots(conversation);
+    return questions.filter(question => {
+      const asked = this.slotsFor(question);
+      return asked.length === 0 || !asked.every(slot => this.isFilled(slots, slot));
+    });
+  }
+
+  /**
+   * Fill slots from a lead message: the tapped option of a button reply, or the NLP analysis of
+   * free text. Updates the conversation object in place; returns the slots that changed.
+   */
+  async recordMessage(conversation: Conversation, message: Message, analysis?: MessageAnalysis): Promise<QualificationSlot[]> {
+    const candidates = await this.fromReply(message) ?? (analysis ? this.fromAnalysis(analysis) : []);
+    if (candidates.length === 0) return [];
+
+    const slots = { ...this.getSlots(conversation) };
+    const statedBy = analysis?.authoritySignals?.title?.trim() || slots.decisionMaker?.value.title;
+    const capturedAt = new Date().toISOString();
+
+    const changed = candidates.filter(({ slot, ...entry }) => this.merge(slots, slot, {
+      ...entry,
+      sourceMessageId: message.id,
+      ...(statedBy ? { statedBy } : {}),
+      capturedAt
+    } as SlotEntry));
+
+    if (changed.length > 0) {
+      await this.save(conversation, slots);
+    }
+    return changed.map(candidate => candidate.slot);
+  }
+
+  /** Forget a slot a rep knows is wrong, so its questions are asked again */
+  async clear(conversation: Conversation, slot: QualificationSlot): Promise<ConversationSlots> {
+    const slots = { ...this.getSlots(conversation) };
+    if (slots[slot]) {
+      delete slots[slot];
+      await this.save(conversation, slots);
+    }
+    return slots;
+  }
+
+  /** Candidates from a button or list reply; null when the message is not one */
+  private async fromReply(message: Message): Promise<SlotCandidate[] | null> {
+    const metadata = (message.metadata as Record<string, any> | null) || {};
+    const reply = metadata.interactive?.id ? MessageComposer.decodeReplyId(metadata.interactive.id) : null;
+    if (!reply) return null;
+
+    const question = await storage.getQuestionById(reply.questionId);
+    const option = question
+      ? MessageComposer.getResponseOptions(question).find(o => o.id === reply.optionId)
+      : undefined;
+    if (!question || !option) return [];
+
+    if (option.slots) {
+      return (Object.entries(option.slots) as Array<[QualificationSlot, unknown]>)
+        .filter(([slot]) => (QUALIFICATION_SLOTS as readonly string[]).includes(slot))
+        .map(([slot, value]) => ({ slot, value, confidence: 1, source: 'button', evidence: option.label }) as SlotCandidate);
+    }
+
+    const candidates: SlotCandidate[] = [];
+    const add = (candidate: SlotCandidate) => candidates.push(candidate);
+    const label = option.label;
+    for (const slot of this.slotsFor(question)) {
+      if (slot === 'budget') {
+        const budget = parseBudget(label);
+        if (budget) add({ slot, value: budget, confidence: LABEL_CONFIDENCE, source: 'button', evidence: label });
+        const currency = parseCurrency(label);
+        if (budget && currency) add({ slot: 'currency', value: currency, confidence: LABEL_CONFIDENCE, source: 'button', evidence: label });
+      } else if (slot === 'timeline') {
+        add({ slot, value: { text: label }, confidence: LABEL_CONFIDENCE, source: 'button', evidence: label });
+      } else if (slot === 'currentTools' || slot === 'painPoints') {
+        add({ slot, value: [label], confidence: LABEL_CONFIDENCE, source: 'button', evidence: label });
+      } else if (slot === 'spocHours') {
+        const hours = parseFloat(label.replace(',', '.').match(/\d+(\.\d+)?/)?.[0] || '');
+        if (Number.isFinite(hours)) add({ slot, value: hours, confidence: LABEL_CONFIDENCE, source: 'button', evidence: label });
+      }
+      // Who decides can't be read from a label; options of authority questions declare it in slots
+    }
+    return candidates;
+  }
+
+  private fromAnalysis(analysis: MessageAnalysis): SlotCandidate[] {
+    const candidates: SlotCandidate[] = [];
+    const { budgetSignals: budget, authoritySignals: authority, urgencySignals: urgency, spocAvailability: spoc } = analysis;
+
+    const range = budget?.hasExplicitBudget
+      ? budget.budgetRange ?? (budget.estimatedBudget ? { min: budget.estimatedBudget, max: budget.estimatedBudget } : undefined)
+      : undefined;
+    const min = finiteNumber(range?.min);
+    const max = finiteNumber(range?.max);
+    if (min !== undefined || max !== undefined) {
+      const evidence = budget.budgetIndicators?.[0];
+      candidates.push({
+        slot: 'budget',
+        value: { ...(min !== undefined ? { min } : {}), ...(max !== undefined ? { max } : {}) },
+        confidence: budget.confidence,
+        source: 'nlp',
+        evidence
+      });
+      const currency = typeof budget.currency === 'string' ? budget.currency.trim().toUpperCase() : '';
+      if (/^[A-Z]{3}$/.test(currency)) {
+        candidates.push({ slot: 'currency', value: currency, confidence: budget.confidence, source: 'nlp', evidence });
+      }
+    }
+
+    // The extraction always names a level; only a title or a stated process makes it a fact
+    const title = typeof authority?.title === 'string' ? authority.title.trim() : '';
+    if (authority && (title || authority.authorityLevel === 'decision-maker' || authority.decisionProcess !== 'unknown')) {
+      candidates.push({
+        slot: 'decisionMaker',
+        value: {
+          role: authority.authorityLevel,
+          ...(title ? { title } : {}),
+          ...(authority.decisionProcess ? { process: authority.decisionProcess } : {})
+        },
+        confidence: authority.confidence,
+        source: 'nlp',
+        evidence: title || undefined
+      });
+    }
+
+    const timeline = typeof urgency?.timeline === 'string' ? urgency.timeline.trim() : '';
+    if (timeline) {
+      candidates.push({
+        slot: 'timeline',
+        value: { text: timeline, urgency: urgency.urgencyLevel },
+        confidence: urgency.confidence,
+        source: 'nlp',
+        evidence: urgency.indicators?.[0]
+      });
+    }
+
+    const hours = finiteNumber(spoc?.estimatedHoursPerWeek);
+    if (hours !== undefined && hours > 0) {
+      candidates.push({
+        slot: 'spocHours',
+        value: hours,
+        confidence: spoc.confidence,
+        source: 'nlp',
+        evidence: spoc.availabilityIndicators?.[0]
+      });
+    }
+
+    const tools = stringList(analysis.digitalMaturity?.currentTools);
+    if (tools.length > 0) {
+      candidates.push({ slot: 'currentTools', value: tools, confidence: analysis.digitalMaturity.confidence, source: 'nlp' });
+    }
+
+    const painPoints = stringList(analysis.painPoints);
+    if (painPoints.length > 0) {
+      candidates.push({ slot: 'painPoints', value: painPoints, confidence: NLP_LIST_CONFIDENCE, source: 'nlp' });
+    }
+
+    return candidates.filter(candidate => Number.isFinite(candidate.confidence));
+  }
+
+  /**
+   * Apply a candidate. Lists grow (tools and pain points add up over the conversation); other
+   * slots take the newer value unless it is much less certain. Returns whether anything changed.
+   */
+  private merge(slots: ConversationSlots, slot: QualificationSlot, entry: SlotEntry): boolean {
+    const existing = slots[slot] as SlotEntry | undefined;
+
+    if (existing && LIST_SLOTS.has(slot)) {
+      const known = existing.value as string[];
+      const lower = new Set(known.map(item => item.toLowerCase()));
+      const added = (entry.value as string[]).filter(item => !lower.has(item.toLowerCase()));
+      if (added.length === 0) return false;
+      entry = {
+        ...entry,
+        value: [...known, ...added].slice(-MAX_LIST_ITEMS),
+        confidence: Math.max(existing.confidence, entry.confidence)
+      };
+    } else if (existing) {
+      if (JSON.stringify(existing.value) === JSON.stringify(entry.value)) return false;
+      if (entry.confidence < existing.confidence - CORRECTION_MARGIN) return false;
+    }
+
+    (slots as Record<string, SlotEntry>)[slot] = entry;
+    return true;
+  }
+
+  private async save(conversation: Conversation, slots: ConversationSlots): Promise<void> {
+    Object.assign(conversation, await storage.mergeConversationMetadata(conversation.id, { slots }));
+  }
+}
+
+function finiteNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && !!item.trim()).map(item => item.trim())
+    : [];
+}
+
+/** Amounts in a label such as "5.000–15.000 €", "Menos de 5k", "Más de 50.000 €" or "Más de 1 millón" */
+export function parseBudget(text: string): QualificationSlotValues['budget'] | null {
+  const normalized = text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  const amounts: Array<{ value: number; multiplier: number }> = [];
+  const pattern = /(\d+(?:[.\s]\d{3})*(?:,\d+)?|\d+(?:\.\d+)?)\s*(k|mil|m|millon(?:es)?|millions?)?\b/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(normalized))) {
+    const digits = /^\d{1,3}([.\s]\d{3})+(,\d+)?$/.test(match[1])
+      ? match[1].replace(/[.\s]/g, '').replace(',', '.') // Spanish thousands: 15.000,50
+      : match[1].replace(',', '.');
+    const multiplier = !match[2] ? 1 : match[2] === 'k' || match[2] === 'mil' ? 1000 : 1000000;
+    const value = parseFloat(digits);
+    if (Number.isFinite(value)) amounts.push({ value, multiplier });
+  }
+  if (amounts.length === 0) return null;
+
+  if (amounts.length === 1) {
+    const amount = amounts[0].value * amounts[0].multiplier;
+    if (/\b(menos de|hasta|less than|under|up to)\b|</.test(normalized)) return { max: amount };
+    if (/\b(mas de|desde|more than|over|above)\b|>|\+/.test(normalized)) return { min: amount };
+    return { min: amount, max: amount };
+  }
+
+  // "entre 8 y 12 mil": the unit of the second amount applies to a bare first one
+  const [first, second] = amounts;
+  const low = first.value * (first.multiplier === 1 && first.value < 1000 ? second.multiplier : first.multiplier);
+  const high = second.value * second.multiplier;
+  return { min: Math.min(low, high), max: Math.max(low, high) };
+}
+
+function parseCurrency(text: string): string | null {
+  const normalized = text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  return CURRENCY_MARKERS.find(([pattern]) => pattern.test(normalized))?.[1] ?? null;
+}
+
+export const slotService = new SlotService();
@@ -1,5 +1,6 @@
 import type { ShadowDecision, ShadowMetrics, ExperimentVariant } from "@shared/schema";
 import { storage } from "../storage";
+import { calibrationService } from "./calibration";
 
 export interface ThompsonSamplingConfig {
   algorithm: 'beta_bernoulli' | 'gaussian' | 'linear_gaussian' | 'contextual_bandits';
@@ -520,11 +521,14 @@ export class ThompsonSamplingService {
     };
 
     switch (config.algorithm) {
-      case 'beta_bernoulli':
-        belief.alpha = config.betaBernoulli?.priorAlpha || 1;
-        belief.beta = config.betaBernoulli?.priorBeta || 1;
+      case 'beta_bernoulli': {
+        // Prior calibrated from closed deals, once there are any
+        const calibratedPrior = calibrationService.betaPrior();
+        belief.alpha = calibratedPrior?.alpha ?? (config.betaBernoulli?.priorAlpha || 1);
+        belief.beta = calibratedPrior?.beta ?? (config.betaBernoulli?.priorBeta || 1);
         belief.successRate = belief.alpha / (belief.alpha + belief.beta);
         break;
+      }
         
       case 'gaussian':
         belief.mean = config.gaussian?.priorMean || 0.5;
@@ -656,7 +660,8 @@ export class ThompsonSamplingService {
     
     candidates.forEach(candidate => {
       // Apply cultural factor
-      const culturalFactor = config.contextualAdaptations.culturalFactors[culturalContext] || 1.0;
+      const culturalFactor = (config.contextualAdaptations.culturalFactors[culturalContext] || 1.0) *
+        calibrationService.culturalWeight(culturalContext);
       
       // Apply conversation stage weight
       const stageWeight = config.contextualAdaptations.conversationStageWeights[conversationStage] || 1.0;
@@ -1,8 +1,11 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import type { Server } from 'http';
+import type { IncomingMessage, Server } from 'http';
+import { authenticateUpgrade } from '../auth';
 import { storage } from '../storage';
 import { metricsService } from './metrics';
 import { tracingService } from './tracing';
+import { webChatChannel } from './channels/webchat';
+import type { User } from '@shared/schema';
 
 export interface WebSocketMessage {
   type: string;
@@ -16,8 +19,13 @@ export interface ClientConnection {
   subscriptions: Set<string>;
   lastPing: Date;
   traceId?: string;
+  user?: Pick<User, 'id' | 'username' | 'role'>; // Dashboard session; anonymous sockets can only bind a web chat session
+  webChatSessionId?: string; // Set for site widgets; they receive their session's replies and nothing else
 }
 
+// Users resolved by verifyClient, picked up by the connection handler for the same request
+const upgradeUsers = new WeakMap<IncomingMessage, User | null>();
+
 export class WebSocketService {
   private wss: WebSocketServer | null = null;
   private clients: Map<string, ClientConnection> = new Map();
@@ -27,7 +35,19 @@ export class WebSocketService {
     this.wss = new WebSocketServer({ 
       server, 
       path: '/ws',
-      clientTracking: true
+      clientTracking: true,
+      // Read the dashboard session on upgrade; anonymous sockets are still accepted for site widgets
+      verifyClient: (info, done) => {
+        authenticateUpgrade(info.req)
+          .then(user => {
+            upgradeUsers.set(info.req, user);
+            done(true);
+          })
+          .catch(error => {
+            console.error('WebSocket session lookup failed:', error);
+            done(false, 500);
+          });
+      }
     });
 
     this.wss.on('connection', (ws, request) => {
@@ -42,8 +62,9 @@ export class WebSocketService {
     console.log('WebSocket server initialized on path /ws');
   }
 
-  private handleConnection(ws: WebSocket, request: any): void {
+  private handleConnection(ws: WebSocket, request: IncomingMessage): void {
     const clientId = this.generateClientId();
+    const user = upgradeUsers.get(request);
     
     // Start trace for WebSocket connection
     const traceId = tracingService.startTrace(
@@ -62,7 +83,8 @@ export class WebSocketService {
       ws,
       subscriptions: new Set(),
       lastPing: new Date(),
-      traceId
+      traceId,
+      ...(user ? { user: { id: user.id, username: user.username, role: user.role } } : {})
     };
 
     this.clients.set(clientId, client);
@@ -120,6 +142,9 @@ export class WebSocketService {
     const client = this.clients.get(clientId);
     if (!client) return;
 
+    // Conversations, metrics and traces need a dashboard session; widgets only bind their own chat session
+    if ((!client.user || client.webChatSessionId) && message.type !== 'webchat_subscribe') return;
+
     switch (message.type) {
       case 'subscribe':
         this.handleSubscription(clientId, message.data);
@@ -141,6 +166,10 @@ export class WebSocketService {
         this.sendConversationDetails(clientId, message.data.conversationId);
         break;
 
+      case 'webchat_subscribe':
+        this.handleWebChatSubscription(clientId, message.data);
+        break;
+
       default:
         console.log(`Unknown message type: ${message.type}`);
     }
@@ -162,6 +191,27 @@ export class WebSocketService {
     this.sendInitialData(clientId, subscription.channel);
   }
 
+  private handleWebChatSubscription(clientId: string, data: { sessionId?: string; token?: string }): void {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    if (typeof data?.token !== 'string' || !webChatChannel.verifySession(data.sessionId, data.token)) {
+      this.sendToClient(clientId, {
+        type: 'webchat_error',
+        data: { error: 'Invalid web chat session' },
+        timestamp: new Date().toISOString()
+      });
+      return;
+    }
+
+    client.webChatSessionId = data.sessionId;
+    this.sendToClient(clientId, {
+      type: 'webchat_subscribed',
+      data: { sessionId: data.sessionId },
+      timestamp: new Date().toISOString()
+    });
+  }
+
   private handleUnsubscription(clientId: string, subscription: { channel: string }): void {
     const client = this.clients.get(clientId);
     if (!client) return;
@@ -324,6 +374,47 @@ export class WebSocketService {
     });
   }
 
+  async broadcastEscalation(escalation: any, conversation?: { contactName: string, company?: string | null }): Promise<void> {
+    this.broadcast('escalation', {
+      escalation,
+      contactName: conversation?.contactName,
+      company: conversation?.company,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  async broadcastMessageStatus(message: { id: string, conversationId: string, deliveryStatus: string | null, deliveryError?: string | null }): Promise<void> {
+    this.broadcast('message_status', {
+      conversationId: message.conversationId,
+      messageId: message.id,
+      status: message.deliveryStatus,
+      error: message.deliveryError,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /** Deliver a bot reply to the widgets bound to that web chat session only */
+  async sendWebChatMessage(
+    sessionId: string,
+    content: string,
+    options?: { id: string; title: string; description?: string }[]
+  ): Promise<void> {
+    this.clients.forEach((client) => {
+      if (client.webChatSessionId !== sessionId) return;
+
+      this.sendToClient(client.id, {
+        type: 'webchat_message',
+        data: {
+          sessionId,
+          content,
+          options,
+          timestamp: new Date().toISOString()
+        },
+        timestamp: new Date().toISOString()
+      });
+    });
+  }
+
   private broadcast(type: string, data: any): void {
     const message: WebSocketMessage = {
       type,
@@ -332,6 +423,9 @@ export class WebSocketService {
     };
 
     this.clients.forEach((client) => {
+      // Only signed-in dashboard users see dashboard traffic
+      if (!client.user || client.webChatSessionId) return;
+
       if (client.ws.readyState === WebSocket.OPEN) {
         try {
           client.ws.send(JSON.stringify(message));
@@ -1,11 +1,14 @@
+import type { InboundMessageType, InboundMessageMetadata, MediaAttachment, SharedContact } from '@shared/schema';
+import type { ChannelAccount } from './channels/types';
+
 export interface WhatsAppMessage {
   id: string;
   from: string;
   to: string;
-  type: 'text' | 'image' | 'document' | 'audio';
+  type: InboundMessageType;
   content: string;
   timestamp: Date;
-  metadata?: any;
+  metadata: InboundMessageMetadata;
 }
 
 export interface WhatsAppContact {
@@ -14,52 +17,151 @@ export interface WhatsAppContact {
   profileName?: string;
 }
 
+export interface WhatsAppStatusUpdate {
+  messageId: string;
+  recipientId: string;
+  status: 'sent' | 'delivered' | 'read' | 'failed';
+  timestamp: Date;
+  error?: string;
+}
+
+export interface WhatsAppInteractiveOption {
+  id: string; // Echoed back in button_reply / list_reply
+  title: string;
+  description?: string;
+}
+
+export interface WhatsAppSendResult {
+  success: boolean;
+  messageId?: string;
+}
+
 export class WhatsAppService {
   private webhookToken: string;
   private accessToken: string;
   private phoneNumberId: string;
   private verifyToken: string;
+  private defaultTemplateLanguage: string;
 
-  constructor() {
+  constructor(account?: ChannelAccount) {
     this.webhookToken = process.env.WHATSAPP_WEBHOOK_TOKEN || 'default_webhook_token';
-    this.accessToken = process.env.WHATSAPP_ACCESS_TOKEN || 'default_access_token';
-    this.phoneNumberId = process.env.WHATSAPP_PHONE_NUMBER_ID || 'default_phone_id';
+    this.accessToken = account?.accessToken || process.env.WHATSAPP_ACCESS_TOKEN || 'default_access_token';
+    this.phoneNumberId = account?.phoneNumberId || process.env.WHATSAPP_PHONE_NUMBER_ID || 'default_phone_id';
     this.verifyToken = process.env.WHATSAPP_VERIFY_TOKEN || 'default_verify_token';
+    this.defaultTemplateLanguage = process.env.WHATSAPP_TEMPLATE_LANGUAGE || 'es';
+  }
+
+  /** Client that sends from another workspace's number; same webhook credentials */
+  forAccount(account: ChannelAccount): WhatsAppService {
+    if (account.phoneNumberId === this.phoneNumberId && !account.accessToken) {
+      return this;
+    }
+    return new WhatsAppService(account);
   }
 
   async sendMessage(to: string, message: string): Promise<boolean> {
-    try {
-      const url = `https://graph.facebook.com/v18.0/${this.phoneNumberId}/messages`;
-      
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          messaging_product: 'whatsapp',
-          to: to,
-          type: 'text',
-          text: {
-            body: message
-          }
-        })
-      });
+    const result = await this.sendTextMessage(to, message);
+    return result.success;
+  }
 
-      if (!response.ok) {
-        console.error('Failed to send WhatsApp message:', await response.text());
-        return false;
+  /** Sends a text message and returns the wamid Meta uses in later status callbacks */
+  async sendTextMessage(to: string, message: string): Promise<WhatsAppSendResult> {
+    return this.postMessage(to, {
+      type: 'text',
+      text: {
+        body: message
       }
+    }, 'message');
+  }
 
-      return true;
-    } catch (error) {
-      console.error('Error sending WhatsApp message:', error);
-      return false;
+  /** Reply buttons: up to 3 options, titles up to 20 characters */
+  async sendInteractiveButtons(
+    to: string,
+    body: string,
+    buttons: WhatsAppInteractiveOption[],
+    footer?: string
+  ): Promise<WhatsAppSendResult> {
+    return this.postMessage(to, {
+      type: 'interactive',
+      interactive: {
+        type: 'button',
+        body: { text: body },
+        ...(footer ? { footer: { text: footer } } : {}),
+        action: {
+          buttons: buttons.slice(0, 3).map(button => ({
+            type: 'reply',
+            reply: { id: button.id, title: button.title.slice(0, 20) }
+          }))
+        }
+      }
+    }, 'interactive buttons');
+  }
+
+  /** List picker: up to 10 rows across sections, titles up to 24 and descriptions up to 72 characters */
+  async sendInteractiveList(
+    to: string,
+    body: string,
+    buttonText: string,
+    sections: { title?: string; rows: WhatsAppInteractiveOption[] }[],
+    footer?: string
+  ): Promise<WhatsAppSendResult> {
+    return this.postMessage(to, {
+      type: 'interactive',
+      interactive: {
+        type: 'list',
+        body: { text: body },
+        ...(footer ? { footer: { text: footer } } : {}),
+        action: {
+          button: buttonText.slice(0, 20),
+          sections: sections.map(section => ({
+            ...(section.title ? { title: section.title.slice(0, 24) } : {}),
+            rows: section.rows.slice(0, 10).map(row => ({
+              id: row.id,
+              title: row.title.slice(0, 24),
+              ...(row.description ? { description: row.description.slice(0, 72) } : {})
+            }))
+          }))
+        }
+      }
+    }, 'interactive list');
+  }
+
+  async sendTemplate(
+    to: string,
+    templateName: string,
+    parameters: string[],
+    languageCode: string = this.defaultTemplateLanguage
+  ): Promise<WhatsAppSendResult> {
+    return this.postMessage(to, {
+      type: 'template',
+      template: {
+        name: templateName,
+        language: { code: languageCode },
+        components: [
+          {
+            type: 'body',
+            parameters: parameters.map(p => ({ type: 'text', text: p }))
+          }
+        ]
+      }
+    }, 'template');
+  }
+
+  /** Maps a conversation's language/region to the locale a template was approved under, e.g. es_MX */
+  templateLanguageFor(language: string = 'es', region?: string | null): string {
+    const regionalLocales: Record<string, string[]> = {
+      es: ['ES', 'MX', 'AR'],
+      en: ['US', 'GB'],
+      pt: ['BR', 'PT']
+    };
+
+    if (region && regionalLocales[language]?.includes(region.toUpperCase())) {
+      return `${language}_${region.toUpperCase()}`;
     }
+    return language;
   }
 
-  async sendTemplate(to: string, templateName: string, parameters: string[]): Promise<boolean> {
+  private async postMessage(to: string, payload: Record<string, any>, description: string): Promise<WhatsAppSendResult> {
     try {
       const url = `https://graph.facebook.com/v18.0/${this.phoneNumberId}/messages`;
       
@@ -72,29 +174,20 @@ export class WhatsAppService {
         body: JSON.stringify({
           messaging_product: 'whatsapp',
           to: to,
-          type: 'template',
-          template: {
-            name: templateName,
-            language: { code: 'es' },
-            components: [
-              {
-                type: 'body',
-                parameters: parameters.map(p => ({ type: 'text', text: p }))
-              }
-            ]
-          }
+          ...payload
         })
       });
 
       if (!response.ok) {
-        console.error('Failed to send WhatsApp template:', await response.text());
-        return false;
+        console.error(`Failed to send WhatsApp ${description}:`, await response.text());
+        return { success: false };
       }
 
-      return true;
+      const data = await response.json();
+      return { success: true, messageId: data.messages?.[0]?.id };
     } catch (error) {
-      console.error('Error sending WhatsApp template:', error);
-      return false;
+      console.error(`Error sending WhatsApp ${description}:`, error);
+      return { success: false };
     }
   }
 
@@ -102,39 +195,76 @@ export class WhatsAppService {
     return token === this.verifyToken;
   }
 
+  /** First message of a webhook payload; batch consumers should use parseWebhookMessages */
   parseWebhookMessage(webhookData: any): WhatsAppMessage | null {
-    try {
-      const entry = webhookData.entry?.[0];
-      const changes = entry?.changes?.[0];
-      const value = changes?.value;
-      const messages = value?.messages;
-      
-      if (!messages || messages.length === 0) {
-        return null;
-      }
+    return this.parseWebhookMessages(webhookData)[0] || null;
+  }
 
-      const message = messages[0];
-      const contact = value.contacts?.[0];
+  /** Every message in every entry and change of a webhook payload, in delivery order */
+  parseWebhookMessages(webhookData: any): WhatsAppMessage[] {
+    const parsed: WhatsAppMessage[] = [];
 
-      return {
-        id: message.id,
-        from: message.from,
-        to: value.metadata?.phone_number_id || '',
-        type: message.type,
-        content: this.extractMessageContent(message),
-        timestamp: new Date(parseInt(message.timestamp) * 1000),
-        metadata: {
-          contact: contact,
-          context: message.context,
-          referral: message.referral
+    for (const entry of webhookData?.entry || []) {
+      for (const change of entry.changes || []) {
+        const value = change.value;
+
+        for (const message of value?.messages || []) {
+          try {
+            const contact = value.contacts?.find((c: any) => c.wa_id === message.from) || value.contacts?.[0];
+
+            parsed.push({
+              id: message.id,
+              from: message.from,
+              to: value.metadata?.phone_number_id || '',
+              type: this.normalizeType(message.type),
+              content: this.extractMessageContent(message),
+              timestamp: new Date(parseInt(message.timestamp) * 1000),
+              metadata: {
+                contact: contact,
+                context: message.context,
+                referral: message.referral,
+                ...this.extractTypedMetadata(message)
+              }
+            });
+          } catch (error) {
+            console.error(`Error parsing webhook message ${message?.id}:`, error);
+          }
         }
-      };
+      }
+    }
+
+    return parsed;
+  }
+
+  parseStatusUpdates(webhookData: any): WhatsAppStatusUpdate[] {
+    try {
+      const statuses = (webhookData?.entry || []).flatMap((entry: any) =>
+        (entry.changes || []).flatMap((change: any) => change.value?.statuses || [])
+      );
+
+      return statuses
+        .filter((status: any) => ['sent', 'delivered', 'read', 'failed'].includes(status.status))
+        .map((status: any) => ({
+          messageId: status.id,
+          recipientId: status.recipient_id,
+          status: status.status,
+          timestamp: new Date(parseInt(status.timestamp) * 1000),
+          error: status.errors?.[0] ? `${status.errors[0].code}: ${status.errors[0].title}` : undefined
+        }));
     } catch (error) {
-      console.error('Error parsing webhook message:', error);
-      return null;
+      console.error('Error parsing webhook statuses:', error);
+      return [];
     }
   }
 
+  private normalizeType(type: string): InboundMessageType {
+    const known: InboundMessageType[] = [
+      'text', 'image', 'document', 'audio', 'video', 'sticker',
+      'location', 'contacts', 'interactive', 'button', 'reaction'
+    ];
+    return known.includes(type as InboundMessageType) ? type as InboundMessageType : 'unsupported';
+  }
+
   private extractMessageContent(message: any): string {
     switch (message.type) {
       case 'text':
@@ -144,15 +274,21 @@ export class WhatsAppService {
       case 'document':
         return message.document?.caption || `[Document: ${message.document?.filename}]`;
       case 'audio':
-        return '[Audio Message]';
+        return message.audio?.voice ? '[Voice Message]' : '[Audio Message]';
       case 'video':
         return message.video?.caption || '[Video]';
       case 'sticker':
         return '[Sticker]';
-      case 'location':
-        return `[Location: ${message.location?.latitude}, ${message.location?.longitude}]`;
-      case 'contacts':
-        return '[Contact Card]';
+      case 'location': {
+        const label = [message.location?.name, message.location?.address].filter(Boolean).join(', ');
+        return label
+          ? `[Location: ${label}]`
+          : `[Location: ${message.location?.latitude}, ${message.location?.longitude}]`;
+      }
+      case 'contacts': {
+        const names = (message.contacts || []).map((c: any) => c.name?.formatted_name).filter(Boolean);
+        return names.length > 0 ? `[Contact Card: ${names.join(', ')}]` : '[Contact Card]';
+      }
       case 'interactive':
         if (message.interactive?.type === 'button_reply') {
           return message.interactive.button_reply.title;
@@ -160,11 +296,118 @@ export class WhatsAppService {
           return message.interactive.list_reply.title;
         }
         return '[Interactive Message]';
+      case 'button':
+        // Quick reply button on a template message
+        return message.button?.text || '[Button Reply]';
+      case 'reaction':
+        return message.reaction?.emoji || '[Reaction Removed]';
       default:
         return '[Unsupported Message Type]';
     }
   }
 
+  private extractTypedMetadata(message: any): Partial<InboundMessageMetadata> {
+    switch (message.type) {
+      case 'image':
+      case 'document':
+      case 'audio':
+      case 'video':
+      case 'sticker': {
+        const media = message[message.type] || {};
+        const attachment: MediaAttachment = {
+          id: media.id,
+          mimeType: media.mime_type,
+          sha256: media.sha256,
+          filename: media.filename,
+          caption: media.caption,
+          voice: media.voice
+        };
+        return { media: attachment };
+      }
+      case 'location':
+        return {
+          location: {
+            latitude: message.location?.latitude,
+            longitude: message.location?.longitude,
+            name: message.location?.name,
+            address: message.location?.address,
+            url: message.location?.url
+          }
+        };
+      case 'contacts': {
+        const contacts: SharedContact[] = (message.contacts || []).map((c: any) => ({
+          name: c.name?.formatted_name || [c.name?.first_name, c.name?.last_name].filter(Boolean).join(' '),
+          phones: (c.phones || []).map((p: any) => p.phone || p.wa_id).filter(Boolean),
+          emails: (c.emails || []).map((e: any) => e.email).filter(Boolean),
+          organization: c.org?.company,
+          title: c.org?.title
+        }));
+        return { contacts };
+      }
+      case 'interactive': {
+        const reply = message.interactive?.button_reply || message.interactive?.list_reply;
+        if (!reply) return {};
+        return {
+          interactive: {
+            type: message.interactive.type,
+            id: reply.id,
+            title: reply.title,
+            description: reply.description
+          }
+        };
+      }
+      case 'button':
+        return {
+          interactive: {
+            type: 'quick_reply',
+            id: message.button?.payload,
+            title: message.button?.text
+          }
+        };
+      case 'reaction':
+        return {
+          reaction: {
+            messageId: message.reaction?.message_id,
+            emoji: message.reaction?.emoji
+          }
+        };
+      default:
+        return {};
+    }
+  }
+
+  /** Resolves a media id to its temporary URL and downloads the bytes */
+  async downloadMedia(mediaId: string): Promise<{ data: Buffer; mimeType: string } | null> {
+    try {
+      const metaResponse = await fetch(`https://graph.facebook.com/v18.0/${mediaId}`, {
+        headers: { 'Authorization': `Bearer ${this.accessToken}` }
+      });
+
+      if (!metaResponse.ok) {
+        console.error('Failed to resolve WhatsApp media:', await metaResponse.text());
+        return null;
+      }
+
+      const media = await metaResponse.json();
+      const fileResponse = await fetch(media.url, {
+        headers: { 'Authorization': `Bearer ${this.accessToken}` }
+      });
+
+      if (!fileResponse.ok) {
+        console.error('Failed to download WhatsApp media:', fileResponse.status);
+        return null;
+      }
+
+      return {
+        data: Buffer.from(await fileResponse.arrayBuffer()),
+        mimeType: media.mime_type || fileResponse.headers.get('content-type') || 'application/octet-stream'
+      };
+    } catch (error) {
+      console.error('Error downloading WhatsApp media:', error);
+      return null;
+    }
+  }
+
   async markAsRead(messageId: string): Promise<boolean> {
     try {
       const url = `https://graph.facebook.com/v18.0/${this.phoneNumberId}/messages`;
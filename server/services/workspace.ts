@@ -0,0 +1,127 @@
+// Workspaces let one deployment serve several consulting brands.
+// Each workspace scopes its conversations, question bank, experiments and knowledge graph,
+// and carries its own qualification criteria, WhatsApp number and LLM settings.
+// Inbound messages are routed by the phone number id (WhatsApp) or slug (web chat) they arrive on.
+
+import { storage } from '../storage';
+import type { ChannelAccount, ChannelType } from './channels';
+import type { AnalysisOptions } from './grok-nlp';
+import type { Conversation, QualificationCriteria, Workspace, WorkspaceLLMSettings } from '@shared/schema';
+
+// The criteria the bot shipped with before workspaces existed
+export const DEFAULT_QUALIFICATION_CRITERIA: QualificationCriteria = {
+  minBudget: 5000,
+  currency: 'EUR',
+  minSpocHoursPerWeek: 4,
+  minDigitalMaturity: 'medium'
+};
+
+export class WorkspaceService {
+  private defaultWorkspace: Workspace | null = null;
+
+  /**
+   * Create the default workspace on first start from the single-tenant env configuration,
+   * so existing deployments keep working without setup
+   */
+  async ensureDefaultWorkspace(): Promise<Workspace> {
+    const existing = await storage.getDefaultWorkspace();
+    if (existing) {
+      this.defaultWorkspace = existing;
+      return existing;
+    }
+
+    const created = await storage.createWorkspace({
+      slug: 'default',
+      name: process.env.DEFAULT_WORKSPACE_NAME || 'Default',
+      language: 'es',
+      region: 'ES',
+      whatsappPhoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID || null,
+      qualificationCriteria: DEFAULT_QUALIFICATION_CRITERIA,
+      llmSettings: {},
+      isDefault: true,
+      isActive: true
+    });
+
+    // Rows created before workspaces existed belong to the brand the deployment already served
+    await storage.assignUnscopedToWorkspace(created.id);
+
+    console.log(`Created default workspace ${created.id}`);
+    this.defaultWorkspace = created;
+    return created;
+  }
+
+  async getDefault(): Promise<Workspace> {
+    return this.defaultWorkspace ?? this.ensureDefaultWorkspace();
+  }
+
+  /** Conversations created before workspaces existed belong to the default workspace */
+  async getForConversation(conversation: Conversation): Promise<Workspace> {
+    if (conversation.workspaceId) {
+      const workspace = await storage.getWorkspace(conversation.workspaceId);
+      if (workspace) return workspace;
+    }
+    return this.getDefault();
+  }
+
+  /**
+   * Pick the workspace for a new inbound conversation from the account it was sent to:
+   * the WhatsApp phone number id or the web chat widget's workspace slug
+   */
+  async resolveForInbound(channelType: ChannelType, recipient?: string): Promise<Workspace> {
+    if (recipient) {
+      const workspace = channelType === 'whatsapp'
+        ? await storage.getWorkspaceByPhoneNumberId(recipient)
+        : channelType === 'webchat'
+          ? await storage.getWorkspaceBySlug(recipient)
+          : undefined;
+
+      if (workspace?.isActive) return workspace;
+    }
+    return this.getDefault();
+  }
+
+  criteriaFor(workspace: Workspace): QualificationCriteria {
+    return { ...DEFAULT_QUALIFICATION_CRITERIA, ...(workspace.qualificationCriteria as Partial<QualificationCriteria>) };
+  }
+
+  llmSettingsFor(workspace: Workspace): WorkspaceLLMSettings {
+    return (workspace.llmSettings as WorkspaceLLMSettings) || {};
+  }
+
+  /** Criteria and LLM settings for metric calculation on a conversation */
+  async getAnalysisOptions(conversation?: Conversation): Promise<AnalysisOptions> {
+    const workspace = conversation ? await this.getForConversation(conversation) : await this.getDefault();
+    return { criteria: this.criteriaFor(workspace), llm: this.llmSettingsFor(workspace) };
+  }
+
+  /** WhatsApp sender for the workspace; undefined means the env-configured number */
+  channelAccount(workspace: Workspace): ChannelAccount | undefined {
+    if (!workspace.whatsappPhoneNumberId) return undefined;
+
+    return {
+      phoneNumberId: workspace.whatsappPhoneNumberId,
+      accessToken: workspace.whatsappAccessToken || undefined
+    };
+  }
+
+  /** Workspace as sent to the dashboard, without the WhatsApp access token */
+  toPublicWorkspace(workspace: Workspace) {
+    const { whatsappAccessToken, ...publicWorkspace } = workspace;
+    return { ...publicWorkspace, hasWhatsappAccessToken: !!whatsappAccessToken };
+  }
+
+  /**
+   * Prefix for knowledge graph entity and edge ids, which are unique across the table.
+   * The default workspace keeps unprefixed ids so the existing graph stays addressable.
+   */
+  graphScope(workspace: Workspace): string {
+    return workspace.isDefault ? '' : `${workspace.slug}:`;
+  }
+
+  /** Drop the cached default after workspaces are edited */
+  invalidate(): void {
+    this.defaultWorkspace = null;
+  }
+}
+
+export const workspaceService = new WorkspaceService();
@@ -1,14 +1,9 @@
 // xAI Grok service for sophisticated Spanish LATAM conversation analysis
 // Replaces OpenAI service with trace-first reasoning architecture
-import OpenAI from "openai";
+// Calls go through the LLM service, which runs them on xAI unless configured otherwise
+import { llmService } from "./llm";
 import type { SituationAwarenessState } from "@shared/schema";
 
-// Initialize xAI client using OpenAI SDK with xAI base URL
-const xai = new OpenAI({ 
-  baseURL: "https://api.x.ai/v1", 
-  apiKey: process.env.XAI_API_KEY 
-});
-
 export interface QuestionSuggestion {
   question: string;
   category: string;
@@ -155,30 +150,11 @@ Generate ${params.messageCount} alternating messages (incoming from prospect, ou
 
 Make the conversation realistic, with natural progression and authentic Spanish business communication.`;
 
-      const response = await xai.chat.completions.create({
-        model: "grok-2-1212",
-        messages: [
-          {
-            role: "system",
-            content: "You are an expert in Spanish/LATAM business communication and B2B lead qualification. Generate realistic conversation simulations with authentic cultural and business context. Always respond with valid JSON only."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        max_tokens: 2000,
-        temperature: 0.7
-      });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No content in response');
-      }
+      const result = await llmService.json('conversation_simulation', [
+        { role: "system", content: "You are an expert in Spanish/LATAM business communication and B2B lead qualification. Generate realistic conversation simulations with authentic cultural and business context. Always respond with valid JSON only." },
+        { role: "user", content: prompt }
+      ], { maxTokens: 2000, temperature: 0.7 });
 
-      // Parse the JSON response
-      const result = JSON.parse(content);
-      
       // Validate the response structure
       if (!result.success || !Array.isArray(result.messages)) {
         throw new Error('Invalid simulation response format');
@@ -281,23 +257,11 @@ Provide analysis in JSON format with detailed reasoning:
 
 Focus on LATAM business communication patterns, formality levels (usted/tuteo), and $10,000+ consulting deal indicators.`;
 
-      const response = await xai.chat.completions.create({
-        model: "grok-2-1212",
-        messages: [
-          {
-            role: "system",
-            content: "You are an expert in B2B communication analysis for Spanish/LATAM markets. Provide detailed analysis with step-by-step reasoning. Always respond with valid JSON only."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        response_format: { type: "json_object" },
-        temperature: 0.3 // Lower temperature for more consistent reasoning
-      });
-
-      const result = JSON.parse(response.choices[0].message.content || "{}");
+      const result = await llmService.json('message_analysis', [
+        { role: "system", content: "You are an expert in B2B communication analysis for Spanish/LATAM markets. Provide detailed analysis with step-by-step reasoning. Always respond with valid JSON only." },
+        { role: "user", content: prompt }
+      ], { temperature: 0.3 }); // Lower temperature for more consistent reasoning
+
       const analysis = result.analysis || {};
       
       return {
@@ -408,23 +372,11 @@ Provide detailed analysis in JSON format:
   }
 }`;
 
-      const response = await xai.chat.completions.create({
-        model: "grok-2-1212",
-        messages: [
-          {
-            role: "system",
-            content: "You are an expert in LATAM business culture and Spanish language variations. Provide detailed cultural analysis with step-by-step reasoning."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        response_format: { type: "json_object" },
-        temperature: 0.2
-      });
-
-      const result = JSON.parse(response.choices[0].message.content || "{}");
+      const result = await llmService.json('cultural_analysis', [
+        { role: "system", content: "You are an expert in LATAM business culture and Spanish language variations. Provide detailed cultural analysis with step-by-step reasoning." },
+        { role: "user", content: prompt }
+      ], { temperature: 0.2 });
+
       const analysis = result.culturalAnalysis || {};
 
       return {
@@ -516,23 +468,11 @@ Provide detailed question recommendation with reasoning:
   }
 }`;
 
-      const response = await xai.chat.completions.create({
-        model: "grok-2-1212",
-        messages: [
-          {
-            role: "system",
-            content: "You are an expert in B2B lead qualification for LATAM markets. Always provide detailed step-by-step reasoning for question selection."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        response_format: { type: "json_object" },
-        temperature: 0.4
-      });
-
-      const result = JSON.parse(response.choices[0].message.content || "{}");
+      const result = await llmService.json('question_suggestion', [
+        { role: "system", content: "You are an expert in B2B lead qualification for LATAM markets. Always provide detailed step-by-step reasoning for question selection." },
+        { role: "user", content: prompt }
+      ], { temperature: 0.4 });
+
       const suggestion = result.suggestion || {};
 
       return {
@@ -584,22 +524,10 @@ Provide explanation with reasoning in JSON:
   }
 }`;
 
-      const response = await xai.chat.completions.create({
-        model: "grok-2-1212",
-        messages: [
-          {
-            role: "system",
-            content: "You are an expert in explaining B2B metrics for LATAM business contexts. Provide clear, actionable explanations."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        response_format: { type: "json_object" }
-      });
-
-      const result = JSON.parse(response.choices[0].message.content || "{}");
+      const result = await llmService.json('metric_explanation', [
+        { role: "system", content: "You are an expert in explaining B2B metrics for LATAM business contexts. Provide clear, actionable explanations." },
+        { role: "user", content: prompt }
+      ]);
       
       return {
         explanation: result.explanation || `Metric ${metricName}: ${value}`,
@@ -1,16 +1,21 @@
 import { 
-  users, conversations, messages, conversationMetrics, decisionTraces, reasoningTraces,
-  questionBank, learningState, conversationRecordings, webhookRecordings, 
+  users, workspaces, conversations, messages, conversationMetrics, decisionTraces, reasoningTraces,
+  questionBank, questionVersions, playbooks, textEmbeddings, messageTemplates, messageTemplateStats, learningState, inboundQueue, escalations, icpProfiles, conversationRecordings, webhookRecordings, 
   executionTraces, replayExecutions, traceValidations,
   experiments, experimentVariants, shadowDecisions, shadowMetrics,
   propensityScores, regretAnalysis, experimentResults,
-  crmIntegrations, deals, dealOutcomes, outcomeValidations, calibrationUpdates, dealAnalytics,
+  crmIntegrations, deals, dealOutcomes, outcomeValidations, calibrationUpdates, dealAnalytics, scoringModels,
+  consultantAvailability, meetings,
   knowledgeGraphNodes, knowledgeGraphEdges, knowledgeGraphVersions, knowledgeExtractions, graphAnalytics,
-  type User, type InsertUser, type Conversation, type InsertConversation,
+  type User, type InsertUser, type Workspace, type InsertWorkspace, type Conversation, type InsertConversation,
   type Message, type InsertMessage, type ConversationMetrics, type InsertConversationMetrics,
   type DecisionTrace, type InsertDecisionTrace, type ReasoningTrace, type InsertReasoningTrace,
-  type QuestionBank, type InsertQuestionBank,
+  type QuestionBank, type InsertQuestionBank, type QuestionVersion, type InsertQuestionVersion,
+  type Playbook, type InsertPlaybook, type TextEmbedding, type InsertTextEmbedding,
+  type MessageTemplate, type InsertMessageTemplate, type MessageTemplateStat, type MessageTemplateUse,
   type LearningState, type InsertLearningState, type SituationAwarenessState,
+  type InboundQueueJob, type InsertInboundQueueJob, type Escalation, type InsertEscalation,
+  type IcpProfile, type InsertIcpProfile,
   type ConversationRecording, type InsertConversationRecording, type WebhookRecording, 
   type InsertWebhookRecording, type ExecutionTrace, type InsertExecutionTrace,
   type ReplayExecution, type InsertReplayExecution, type TraceValidation, type InsertTraceValidation,
@@ -21,30 +26,52 @@ import {
   type CrmIntegration, type InsertCrmIntegration, type Deal, type InsertDeal,
   type DealOutcome, type InsertDealOutcome, type OutcomeValidation, type InsertOutcomeValidation,
   type CalibrationUpdate, type InsertCalibrationUpdate, type DealAnalytics, type InsertDealAnalytics,
+  type ScoringModel, type InsertScoringModel,
+  type ConsultantAvailability, type InsertConsultantAvailability, type Meeting, type InsertMeeting,
   type KnowledgeGraphNode, type InsertKnowledgeGraphNode, type KnowledgeGraphEdge, type InsertKnowledgeGraphEdge,
   type KnowledgeGraphVersion, type InsertKnowledgeGraphVersion, type KnowledgeExtraction, type InsertKnowledgeExtraction,
   type GraphAnalytics, type InsertGraphAnalytics, type SimilarCompanyQuery, type SuccessPatternQuery, type EntityInsightQuery
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, gte, lte, sql } from "drizzle-orm";
+import { eq, ne, desc, and, or, gt, gte, lt, lte, inArray, isNull, sql, type SQL } from "drizzle-orm";
 
 export interface IStorage {
   // User management
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  createFirstUser(user: InsertUser): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
+  updateUser(id: string, updates: Partial<User>): Promise<User | undefined>;
+
+  // Workspaces
+  getWorkspaces(): Promise<Workspace[]>;
+  getWorkspace(id: string): Promise<Workspace | undefined>;
+  getWorkspaceBySlug(slug: string): Promise<Workspace | undefined>;
+  getWorkspaceByPhoneNumberId(phoneNumberId: string): Promise<Workspace | undefined>;
+  getDefaultWorkspace(): Promise<Workspace | undefined>;
+  createWorkspace(workspace: InsertWorkspace): Promise<Workspace>;
+  updateWorkspace(id: string, updates: Partial<Workspace>): Promise<Workspace | undefined>;
+  assignUnscopedToWorkspace(workspaceId: string): Promise<void>;
 
   // Conversation management
   getConversation(id: string): Promise<Conversation | undefined>;
-  getConversationByWhatsAppId(whatsappId: string): Promise<Conversation | undefined>;
+  getConversationByWhatsAppId(workspaceId: string, whatsappId: string): Promise<Conversation | undefined>;
+  getConversationByExternalId(workspaceId: string, channel: string, externalId: string): Promise<Conversation | undefined>;
   createConversation(conversation: InsertConversation): Promise<Conversation>;
   updateConversation(id: string, updates: Partial<Conversation>): Promise<Conversation>;
-  getActiveConversations(): Promise<Conversation[]>;
+  mergeConversationMetadata(id: string, metadata: Record<string, unknown>, updates?: Partial<Conversation>): Promise<Conversation>;
+  getActiveConversations(workspaceId?: string): Promise<Conversation[]>;
+  getStalledConversations(channel: string, lastInboundFrom: Date, lastInboundTo: Date, limit?: number): Promise<Array<{ conversation: Conversation; lastInboundAt: Date }>>;
   
   // Message management
   addMessage(message: InsertMessage): Promise<Message>;
   getMessages(conversationId: string, limit?: number): Promise<Message[]>;
   getLatestMessage(conversationId: string): Promise<Message | undefined>;
+  getLastInboundAt(conversationId: string): Promise<Date | undefined>;
+  getMessageByExternalId(conversationId: string, externalMessageId: string): Promise<Message | undefined>;
+  mergeMessageMetadata(id: string, metadata: Record<string, unknown>): Promise<Message | undefined>;
+  updateMessageDeliveryStatus(externalMessageId: string, status: string, statusAt: Date, error?: string): Promise<Message | undefined>;
   
   // Metrics management
   saveMetrics(metrics: InsertConversationMetrics): Promise<ConversationMetrics>;
@@ -54,6 +81,8 @@ export interface IStorage {
   // Decision tracking
   saveDecisionTrace(trace: InsertDecisionTrace): Promise<DecisionTrace>;
   getDecisionTraces(conversationId?: string, limit?: number): Promise<DecisionTrace[]>;
+  getPendingDecisionTraces(action: string, before: Date): Promise<DecisionTrace[]>;
+  updateDecisionTraceOutcome(id: string, outcome: string, feedback?: Record<string, unknown>): Promise<DecisionTrace>;
   
   // Reasoning traces for human-reviewable AI decisions
   saveReasoningTrace(trace: InsertReasoningTrace): Promise<ReasoningTrace>;
@@ -62,9 +91,37 @@ export interface IStorage {
   getReasoningTracesByTurn(turnId: string): Promise<ReasoningTrace[]>;
   
   // Question bank
-  getQuestions(category?: string, language?: string, region?: string): Promise<QuestionBank[]>;
+  getQuestions(category?: string, language?: string, region?: string, workspaceId?: string | null, includeInactive?: boolean): Promise<QuestionBank[]>;
   getQuestionById(id: string): Promise<QuestionBank | undefined>;
   updateQuestionUsage(id: string): Promise<void>;
+  addQuestion(question: InsertQuestionBank, createdBy?: string): Promise<QuestionBank>;
+  updateQuestion(id: string, updates: Partial<QuestionBank>): Promise<QuestionBank | undefined>;
+  reviseQuestion(id: string, changes: Partial<InsertQuestionBank>, revision: Pick<InsertQuestionVersion, 'changeNote' | 'createdBy'>): Promise<QuestionBank | undefined>;
+  deleteQuestion(id: string): Promise<void>;
+  getQuestionVersions(questionId: string): Promise<QuestionVersion[]>;
+
+  // Conversation playbooks
+  getPlaybooks(workspaceId?: string): Promise<Playbook[]>;
+  getPlaybook(id: string): Promise<Playbook | undefined>;
+  getActivePlaybook(workspaceId?: string | null): Promise<Playbook | undefined>;
+  createPlaybook(playbook: InsertPlaybook): Promise<Playbook>;
+  updatePlaybook(id: string, updates: Partial<Playbook>): Promise<Playbook | undefined>;
+  deletePlaybook(id: string): Promise<void>;
+
+  // Embedding cache
+  getTextEmbeddings(provider: string, contentHashes: string[]): Promise<TextEmbedding[]>;
+  saveTextEmbeddings(embeddings: InsertTextEmbedding[]): Promise<void>;
+  countTextEmbeddings(provider: string): Promise<number>;
+
+  // Message templates
+  getMessageTemplates(workspaceId?: string): Promise<MessageTemplate[]>;
+  getMessageTemplate(id: string): Promise<MessageTemplate | undefined>;
+  createMessageTemplate(template: InsertMessageTemplate): Promise<MessageTemplate>;
+  updateMessageTemplate(id: string, updates: Partial<MessageTemplate>): Promise<MessageTemplate | undefined>;
+  deleteMessageTemplate(id: string): Promise<void>;
+  getMessageTemplateStats(): Promise<MessageTemplateStat[]>;
+  recordMessageTemplateUsage(uses: MessageTemplateUse[]): Promise<void>;
+  recordMessageTemplateReplies(uses: MessageTemplateUse[]): Promise<void>;
   
   // Learning state
   saveLearningState(state: InsertLearningState): Promise<LearningState>;
@@ -79,6 +136,35 @@ export interface IStorage {
     successRate: number;
   }>;
 
+  // Inbound message queue
+  enqueueInboundJob(job: InsertInboundQueueJob): Promise<InboundQueueJob | undefined>;
+  claimNextInboundJob(workerId: string): Promise<InboundQueueJob | undefined>;
+  completeInboundJob(id: string, result: any): Promise<InboundQueueJob>;
+  failInboundJob(id: string, error: string, retryAt?: Date): Promise<InboundQueueJob>;
+  releaseStaleInboundJobs(lockedBefore: Date): Promise<number>;
+  retryInboundJob(id: string): Promise<InboundQueueJob | undefined>;
+  getInboundJob(id: string): Promise<InboundQueueJob | undefined>;
+  getInboundJobs(status?: string, limit?: number): Promise<InboundQueueJob[]>;
+  getInboundQueueStats(): Promise<{
+    counts: Record<string, number>;
+    oldestPendingAt: Date | null;
+    processedLastHour: number;
+  }>;
+
+  // Escalations
+  createEscalation(escalation: InsertEscalation): Promise<Escalation>;
+  getEscalation(id: string): Promise<Escalation | undefined>;
+  getEscalations(status?: string, limit?: number): Promise<Escalation[]>;
+  getOpenEscalation(conversationId: string, trigger: string): Promise<Escalation | undefined>;
+  updateEscalation(id: string, updates: Partial<Escalation>): Promise<Escalation | undefined>;
+
+  // ICP Profiles
+  getIcpProfiles(workspaceId?: string): Promise<IcpProfile[]>;
+  getIcpProfile(id: string): Promise<IcpProfile | undefined>;
+  getActiveIcpProfile(workspaceId?: string | null): Promise<IcpProfile | undefined>;
+  createIcpProfile(profile: InsertIcpProfile): Promise<IcpProfile>;
+  updateIcpProfile(id: string, updates: Partial<IcpProfile>): Promise<IcpProfile | undefined>;
+
   // Replay Harness
   createRecording(recording: InsertConversationRecording): Promise<ConversationRecording>;
   getRecording(id: string): Promise<ConversationRecording | undefined>;
@@ -154,9 +240,11 @@ export interface IStorage {
   getActiveCrmIntegrations(): Promise<CrmIntegration[]>;
   updateCrmIntegration(id: string, updates: Partial<CrmIntegration>): Promise<CrmIntegration>;
   updateCrmSyncStatus(id: string, status: string, errors?: any[]): Promise<void>;
+  recordCrmWebhook(id: string, success: boolean, responseTimeMs: number): Promise<void>;
 
   // Deal Management
   createDeal(deal: InsertDeal): Promise<Deal>;
+  reserveDeal(deal: InsertDeal, staleBefore: Date): Promise<{ deal: Deal; claimed: boolean }>;
   getDeal(id: string): Promise<Deal | undefined>;
   getDealByCrmId(crmDealId: string, crmIntegrationId: string): Promise<Deal | undefined>;
   getDealsByConversation(conversationId: string): Promise<Deal[]>;
@@ -165,6 +253,9 @@ export interface IStorage {
   updateDealStage(id: string, newStage: string, stageData?: any): Promise<Deal>;
   getDealsInStage(stage: string, crmIntegrationId?: string): Promise<Deal[]>;
   getDealsInPipeline(crmIntegrationId: string): Promise<Deal[]>;
+  getDealCohort(start: Date, end: Date): Promise<Array<{ deal: Deal; channel: string; conversationStartedAt: Date | null }>>;
+  getConversationFunnelCounts(start: Date, end: Date): Promise<{ conversations: number; qualified: number }>;
+  getClosedDealsWithMetrics(): Promise<Deal[]>;
 
   // Deal Outcomes Management
   saveDealOutcome(outcome: InsertDealOutcome): Promise<DealOutcome>;
@@ -172,6 +263,8 @@ export interface IStorage {
   getDealOutcomes(dealId: string, outcomeType?: string): Promise<DealOutcome[]>;
   getDealOutcomesByConversation(conversationId: string): Promise<DealOutcome[]>;
   getRecentDealOutcomes(hours?: number): Promise<DealOutcome[]>;
+  getDealOutcomesForDeals(dealIds: string[], outcomeTypes?: string[]): Promise<DealOutcome[]>;
+  getUnvalidatedDealOutcomes(outcomeTypes: string[], limit?: number): Promise<DealOutcome[]>;
 
   // Outcome Validation Management
   saveOutcomeValidation(validation: InsertOutcomeValidation): Promise<OutcomeValidation>;
@@ -187,12 +280,38 @@ export interface IStorage {
   getCalibrationUpdatesByMetric(metricName: string, conversationId?: string): Promise<CalibrationUpdate[]>;
   getPendingCalibrations(): Promise<CalibrationUpdate[]>;
   applyCalibrationUpdate(id: string, results: any): Promise<CalibrationUpdate>;
+  updateCalibrationUpdate(id: string, updates: Partial<CalibrationUpdate>): Promise<CalibrationUpdate>;
+  getCalibrationHistory(limit?: number, metricName?: string): Promise<CalibrationUpdate[]>;
+  getEffectiveCalibrations(): Promise<CalibrationUpdate[]>;
 
   // Deal Analytics Management
   saveDealAnalytics(analytics: InsertDealAnalytics): Promise<DealAnalytics>;
   getDealAnalytics(id: string): Promise<DealAnalytics | undefined>;
-  getLatestDealAnalytics(analysisType?: string): Promise<DealAnalytics[]>;
+  getLatestDealAnalytics(analysisType?: string, limit?: number): Promise<DealAnalytics[]>;
   getDealAnalyticsByPeriod(start: Date, end: Date): Promise<DealAnalytics[]>;
+  upsertDealAnalytics(analytics: InsertDealAnalytics): Promise<DealAnalytics>;
+
+  // Scoring Models Management
+  saveScoringModel(model: InsertScoringModel): Promise<ScoringModel>;
+  getScoringModel(id: string): Promise<ScoringModel | undefined>;
+  getActiveScoringModel(): Promise<ScoringModel | undefined>;
+  listScoringModels(limit?: number): Promise<ScoringModel[]>;
+  activateScoringModel(id: string): Promise<ScoringModel>;
+
+  // Consultant availability and meetings
+  getConsultantAvailability(workspaceId?: string | null, includeInactive?: boolean): Promise<ConsultantAvailability[]>;
+  getConsultantAvailabilityById(id: string): Promise<ConsultantAvailability | undefined>;
+  createConsultantAvailability(availability: InsertConsultantAvailability): Promise<ConsultantAvailability>;
+  updateConsultantAvailability(id: string, updates: Partial<InsertConsultantAvailability>): Promise<ConsultantAvailability | undefined>;
+  deleteConsultantAvailability(id: string): Promise<boolean>;
+  createMeeting(meeting: InsertMeeting): Promise<Meeting>;
+  getMeeting(id: string): Promise<Meeting | undefined>;
+  updateMeeting(id: string, updates: Partial<Meeting>): Promise<Meeting>;
+  getMeetingsByConversation(conversationId: string): Promise<Meeting[]>;
+  getActiveMeeting(conversationId: string): Promise<Meeting | undefined>;
+  getBookedMeetings(from: Date, to: Date): Promise<Meeting[]>;
+  bookMeeting(booking: InsertMeeting, meetingId?: string): Promise<Meeting | undefined>;
+  listMeetings(status?: string, from?: Date, to?: Date, limit?: number): Promise<Meeting[]>;
 
   // CRM Integration Analytics
   getCrmIntegrationStats(crmIntegrationId: string): Promise<{
@@ -242,7 +361,7 @@ export interface IStorage {
   // Node operations
   saveKnowledgeGraphNode(node: InsertKnowledgeGraphNode): Promise<KnowledgeGraphNode>;
   getKnowledgeGraphNode(entityId: string): Promise<KnowledgeGraphNode | undefined>;
-  getKnowledgeGraphNodes(entityType?: string, limit?: number): Promise<KnowledgeGraphNode[]>;
+  getKnowledgeGraphNodes(entityType?: string, limit?: number, workspaceId?: string): Promise<KnowledgeGraphNode[]>;
   updateKnowledgeGraphNode(entityId: string, updates: Partial<KnowledgeGraphNode>): Promise<KnowledgeGraphNode>;
   
   // Edge operations
@@ -310,13 +429,98 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  /**
+   * Create a user only while none exists. Concurrent calls serialize on an advisory lock,
+   * so exactly one of them bootstraps the first account; the others get undefined.
+   */
+  async createFirstUser(insertUser: InsertUser): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('users_bootstrap'))`);
+
+      const [existing] = await tx.select({ id: users.id }).from(users).limit(1);
+      if (existing) return undefined;
+
+      const [user] = await tx.insert(users).values(insertUser).returning();
+      return user;
+    });
+  }
+
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.username);
+  }
+
+  async updateUser(id: string, updates: Partial<User>): Promise<User | undefined> {
+    const [user] = await db.update(users).set(updates).where(eq(users.id, id)).returning();
+    return user || undefined;
+  }
+
+  async getWorkspaces(): Promise<Workspace[]> {
+    return await db.select().from(workspaces).orderBy(workspaces.name);
+  }
+
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    const [workspace] = await db.select().from(workspaces).where(eq(workspaces.id, id));
+    return workspace || undefined;
+  }
+
+  async getWorkspaceBySlug(slug: string): Promise<Workspace | undefined> {
+    const [workspace] = await db.select().from(workspaces).where(eq(workspaces.slug, slug));
+    return workspace || undefined;
+  }
+
+  async getWorkspaceByPhoneNumberId(phoneNumberId: string): Promise<Workspace | undefined> {
+    const [workspace] = await db
+      .select()
+      .from(workspaces)
+      .where(and(eq(workspaces.whatsappPhoneNumberId, phoneNumberId), eq(workspaces.isActive, true)));
+    return workspace || undefined;
+  }
+
+  async getDefaultWorkspace(): Promise<Workspace | undefined> {
+    const [workspace] = await db
+      .select()
+      .from(workspaces)
+      .where(eq(workspaces.isDefault, true))
+      .orderBy(workspaces.createdAt)
+      .limit(1);
+    return workspace || undefined;
+  }
+
+  async createWorkspace(workspace: InsertWorkspace): Promise<Workspace> {
+    const [saved] = await db.insert(workspaces).values(workspace).returning();
+    return saved;
+  }
+
+  async updateWorkspace(id: string, updates: Partial<Workspace>): Promise<Workspace | undefined> {
+    const [updated] = await db.update(workspaces).set(updates).where(eq(workspaces.id, id)).returning();
+    return updated || undefined;
+  }
+
+  // Questions and experiments stay unscoped: null means shared by every workspace
+  async assignUnscopedToWorkspace(workspaceId: string): Promise<void> {
+    await db.update(conversations).set({ workspaceId }).where(isNull(conversations.workspaceId));
+    await db.update(knowledgeGraphNodes).set({ workspaceId }).where(isNull(knowledgeGraphNodes.workspaceId));
+    await db.update(knowledgeGraphEdges).set({ workspaceId }).where(isNull(knowledgeGraphEdges.workspaceId));
+  }
+
   async getConversation(id: string): Promise<Conversation | undefined> {
     const [conversation] = await db.select().from(conversations).where(eq(conversations.id, id));
     return conversation || undefined;
   }
 
-  async getConversationByWhatsAppId(whatsappId: string): Promise<Conversation | undefined> {
-    const [conversation] = await db.select().from(conversations).where(eq(conversations.whatsappId, whatsappId));
+  async getConversationByWhatsAppId(workspaceId: string, whatsappId: string): Promise<Conversation | undefined> {
+    return this.getConversationByExternalId(workspaceId, 'whatsapp', whatsappId);
+  }
+
+  async getConversationByExternalId(workspaceId: string, channel: string, externalId: string): Promise<Conversation | undefined> {
+    const [conversation] = await db
+      .select()
+      .from(conversations)
+      .where(and(
+        eq(conversations.workspaceId, workspaceId),
+        eq(conversations.channel, channel),
+        eq(conversations.externalId, externalId)
+      ));
     return conversation || undefined;
   }
 
@@ -334,14 +538,69 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
-  async getActiveConversations(): Promise<Conversation[]> {
+  /**
+   * Set top-level metadata keys (icp, slots, playbook...) with jsonb ||, keeping the keys other
+   * services wrote in the same turn even when the caller's copy of the conversation is stale
+   */
+  async mergeConversationMetadata(id: string, metadata: Record<string, unknown>, updates: Partial<Conversation> = {}): Promise<Conversation> {
+    const [updated] = await db
+      .update(conversations)
+      .set({
+        ...updates,
+        metadata: sql`coalesce(${conversations.metadata}, '{}'::jsonb) || ${JSON.stringify(metadata)}::jsonb`,
+        lastActivity: new Date()
+      })
+      .where(eq(conversations.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getActiveConversations(workspaceId?: string): Promise<Conversation[]> {
     return await db
       .select()
       .from(conversations)
-      .where(eq(conversations.status, 'active'))
+      .where(and(
+        // Qualified and disqualified leads are still open conversations
+        inArray(conversations.status, ['active', 'qualified', 'disqualified']),
+        workspaceId ? eq(conversations.workspaceId, workspaceId) : undefined
+      ))
       .orderBy(desc(conversations.lastActivity));
   }
 
+  /** Open conversations whose lead last wrote inside the window, longest silent first */
+  async getStalledConversations(
+    channel: string,
+    lastInboundFrom: Date,
+    lastInboundTo: Date,
+    limit: number = 100
+  ): Promise<Array<{ conversation: Conversation; lastInboundAt: Date }>> {
+    const lastInbound = db
+      .select({
+        conversationId: messages.conversationId,
+        lastInboundAt: sql<Date>`max(${messages.timestamp})`.as('last_inbound_at')
+      })
+      .from(messages)
+      .where(eq(messages.direction, 'incoming'))
+      .groupBy(messages.conversationId)
+      .as('last_inbound');
+
+    const rows = await db
+      .select({ conversation: conversations, lastInboundAt: lastInbound.lastInboundAt })
+      .from(conversations)
+      .innerJoin(lastInbound, eq(lastInbound.conversationId, conversations.id))
+      .where(and(
+        eq(conversations.channel, channel),
+        inArray(conversations.status, ['active', 'qualified']),
+        eq(conversations.suppressed, false),
+        gte(lastInbound.lastInboundAt, lastInboundFrom),
+        lte(lastInbound.lastInboundAt, lastInboundTo)
+      ))
+      .orderBy(lastInbound.lastInboundAt)
+      .limit(limit);
+
+    return rows.map(row => ({ conversation: row.conversation, lastInboundAt: new Date(row.lastInboundAt) }));
+  }
+
   async addMessage(message: InsertMessage): Promise<Message> {
     const [newMessage] = await db.insert(messages).values(message).returning();
     
@@ -376,6 +635,54 @@ export class DatabaseStorage implements IStorage {
     return message || undefined;
   }
 
+  async getLastInboundAt(conversationId: string): Promise<Date | undefined> {
+    const [row] = await db
+      .select({ lastInboundAt: sql<Date | null>`max(${messages.timestamp})` })
+      .from(messages)
+      .where(and(eq(messages.conversationId, conversationId), eq(messages.direction, 'incoming')));
+    return row?.lastInboundAt ? new Date(row.lastInboundAt) : undefined;
+  }
+
+  async getMessageByExternalId(conversationId: string, externalMessageId: string): Promise<Message | undefined> {
+    const [message] = await db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.conversationId, conversationId), eq(messages.whatsappMessageId, externalMessageId)));
+    return message || undefined;
+  }
+
+  /** Shallow-merges keys into the message's metadata in the database */
+  async mergeMessageMetadata(id: string, metadata: Record<string, unknown>): Promise<Message | undefined> {
+    const [updated] = await db
+      .update(messages)
+      .set({ metadata: sql`coalesce(${messages.metadata}, '{}'::jsonb) || ${JSON.stringify(metadata)}::jsonb` })
+      .where(eq(messages.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async updateMessageDeliveryStatus(externalMessageId: string, status: string, statusAt: Date, error?: string): Promise<Message | undefined> {
+    const [message] = await db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.whatsappMessageId, externalMessageId), eq(messages.direction, 'outgoing')));
+
+    if (!message) return undefined;
+
+    // Callbacks can arrive out of order; never move a message back from read to delivered
+    const rank: Record<string, number> = { sent: 1, delivered: 2, read: 3, failed: 4 };
+    if ((rank[message.deliveryStatus || ''] || 0) >= (rank[status] || 0)) {
+      return message;
+    }
+
+    const [updated] = await db
+      .update(messages)
+      .set({ deliveryStatus: status, deliveryStatusAt: statusAt, deliveryError: error || null })
+      .where(eq(messages.id, message.id))
+      .returning();
+    return updated;
+  }
+
   async saveMetrics(metrics: InsertConversationMetrics): Promise<ConversationMetrics> {
     const [saved] = await db.insert(conversationMetrics).values(metrics).returning();
     return saved;
@@ -424,6 +731,31 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  async getPendingDecisionTraces(action: string, before: Date): Promise<DecisionTrace[]> {
+    return await db
+      .select()
+      .from(decisionTraces)
+      .where(and(
+        eq(decisionTraces.action, action),
+        eq(decisionTraces.outcome, 'pending'),
+        lte(decisionTraces.timestamp, before)
+      ))
+      .orderBy(decisionTraces.timestamp);
+  }
+
+  /** Settle a decision; the extra feedback is merged into what was recorded with it */
+  async updateDecisionTraceOutcome(id: string, outcome: string, feedback: Record<string, unknown> = {}): Promise<DecisionTrace> {
+    const [updated] = await db
+      .update(decisionTraces)
+      .set({
+        outcome,
+        feedback: sql`coalesce(${decisionTraces.feedback}, '{}'::jsonb) || ${JSON.stringify(feedback)}::jsonb`
+      })
+      .where(eq(decisionTraces.id, id))
+      .returning();
+    return updated;
+  }
+
   // Reasoning trace methods for human-reviewable AI decisions
   async saveReasoningTrace(trace: InsertReasoningTrace): Promise<ReasoningTrace> {
     const [saved] = await db.insert(reasoningTraces).values(trace).returning();
@@ -468,18 +800,29 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(reasoningTraces.timestamp));
   }
 
-  async getQuestions(category?: string, language: string = "es", region: string = "ES"): Promise<QuestionBank[]> {
-    let query = db.select().from(questionBank).where(eq(questionBank.isActive, true));
-    
+  async getQuestions(
+    category?: string,
+    language: string = "es",
+    region: string = "ES",
+    workspaceId?: string | null,
+    includeInactive: boolean = false
+  ): Promise<QuestionBank[]> {
+    const conditions: (SQL | undefined)[] = includeInactive ? [] : [eq(questionBank.isActive, true)];
+
     if (category) {
-      query = query.where(and(
-        eq(questionBank.category, category),
-        eq(questionBank.language, language),
-        eq(questionBank.isActive, true)
-      ));
+      conditions.push(eq(questionBank.category, category), eq(questionBank.language, language));
     }
-    
-    return await query.orderBy(desc(questionBank.successRate));
+
+    // A workspace sees its own questions plus the shared ones
+    if (workspaceId) {
+      conditions.push(or(eq(questionBank.workspaceId, workspaceId), isNull(questionBank.workspaceId)));
+    }
+
+    return await db
+      .select()
+      .from(questionBank)
+      .where(and(...conditions))
+      .orderBy(desc(questionBank.successRate));
   }
 
   async getQuestionById(id: string): Promise<QuestionBank | undefined> {
@@ -487,21 +830,237 @@ export class DatabaseStorage implements IStorage {
     return question || undefined;
   }
 
+  /** Count a use on the question and on its current version */
   async updateQuestionUsage(id: string): Promise<void> {
+    const lastUsed = new Date();
     await db
       .update(questionBank)
       .set({
         usageCount: sql`${questionBank.usageCount} + 1`,
-        lastUsed: new Date()
+        lastUsed
       })
       .where(eq(questionBank.id, id));
+
+    await db
+      .update(questionVersions)
+      .set({
+        usageCount: sql`${questionVersions.usageCount} + 1`,
+        lastUsed
+      })
+      .where(and(eq(questionVersions.questionId, id), isNull(questionVersions.supersededAt)));
+  }
+
+  /** New question with its first version */
+  async addQuestion(question: InsertQuestionBank, createdBy?: string): Promise<QuestionBank> {
+    return await db.transaction(async (tx) => {
+      const [saved] = await tx.insert(questionBank).values({ ...question, version: 1 }).returning();
+      await tx.insert(questionVersions).values({ ...this.questionSnapshot(saved), version: 1, createdBy });
+      return saved;
+    });
+  }
+
+  async updateQuestion(id: string, updates: Partial<QuestionBank>): Promise<QuestionBank | undefined> {
+    const [updated] = await db.update(questionBank).set(updates).where(eq(questionBank.id, id)).returning();
+    return updated || undefined;
+  }
+
+  /**
+   * Apply changes to a question's wording as a new version. The current version keeps its stats
+   * and is superseded; the question's stats restart with the new version. Questions created before
+   * versioning get their current wording recorded first.
+   */
+  async reviseQuestion(
+    id: string,
+    changes: Partial<InsertQuestionBank>,
+    revision: Pick<InsertQuestionVersion, 'changeNote' | 'createdBy'>
+  ): Promise<QuestionBank | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(questionBank).where(eq(questionBank.id, id));
+      if (!current) return undefined;
+
+      const supersededAt = new Date();
+      const superseded = await tx
+        .update(questionVersions)
+        .set({ supersededAt })
+        .where(and(eq(questionVersions.questionId, id), isNull(questionVersions.supersededAt)))
+        .returning();
+      if (superseded.length === 0) {
+        await tx.insert(questionVersions).values({
+          ...this.questionSnapshot(current),
+          successRate: current.successRate,
+          usageCount: current.usageCount,
+          lastUsed: current.lastUsed,
+          supersededAt
+        });
+      }
+
+      const version = current.version + 1;
+      const [revised] = await tx
+        .update(questionBank)
+        .set({ ...changes, version, successRate: 0, usageCount: 0, lastUsed: null })
+        .where(eq(questionBank.id, id))
+        .returning();
+      await tx.insert(questionVersions).values({ ...this.questionSnapshot(revised), ...revision });
+      return revised;
+    });
+  }
+
+  /** Remove a question and its history; only for questions no message or decision refers to */
+  async deleteQuestion(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(questionVersions).where(eq(questionVersions.questionId, id));
+      await tx.delete(questionBank).where(eq(questionBank.id, id));
+    });
+  }
+
+  async getQuestionVersions(questionId: string): Promise<QuestionVersion[]> {
+    return await db
+      .select()
+      .from(questionVersions)
+      .where(eq(questionVersions.questionId, questionId))
+      .orderBy(desc(questionVersions.version));
   }
 
-  async addQuestion(question: InsertQuestionBank): Promise<QuestionBank> {
-    const [saved] = await db.insert(questionBank).values(question).returning();
+  async getPlaybooks(workspaceId?: string): Promise<Playbook[]> {
+    return await db
+      .select()
+      .from(playbooks)
+      .where(workspaceId ? or(eq(playbooks.workspaceId, workspaceId), isNull(playbooks.workspaceId)) : undefined)
+      .orderBy(desc(playbooks.updatedAt));
+  }
+
+  async getPlaybook(id: string): Promise<Playbook | undefined> {
+    const [playbook] = await db.select().from(playbooks).where(eq(playbooks.id, id));
+    return playbook || undefined;
+  }
+
+  // The workspace's own active playbook, falling back to the shared one
+  async getActivePlaybook(workspaceId?: string | null): Promise<Playbook | undefined> {
+    const active = await db
+      .select()
+      .from(playbooks)
+      .where(and(
+        eq(playbooks.isActive, true),
+        workspaceId ? or(eq(playbooks.workspaceId, workspaceId), isNull(playbooks.workspaceId)) : isNull(playbooks.workspaceId)
+      ))
+      .orderBy(desc(playbooks.updatedAt));
+
+    return active.find(p => p.workspaceId) || active[0] || undefined;
+  }
+
+  async createPlaybook(playbook: InsertPlaybook): Promise<Playbook> {
+    const [saved] = await db.insert(playbooks).values(playbook).returning();
+    return saved;
+  }
+
+  async updatePlaybook(id: string, updates: Partial<Playbook>): Promise<Playbook | undefined> {
+    const [updated] = await db
+      .update(playbooks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(playbooks.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deletePlaybook(id: string): Promise<void> {
+    await db.delete(playbooks).where(eq(playbooks.id, id));
+  }
+
+  async getTextEmbeddings(provider: string, contentHashes: string[]): Promise<TextEmbedding[]> {
+    if (contentHashes.length === 0) return [];
+    return await db
+      .select()
+      .from(textEmbeddings)
+      .where(and(eq(textEmbeddings.provider, provider), inArray(textEmbeddings.contentHash, contentHashes)));
+  }
+
+  // A text embedded concurrently by two turns keeps the first vector
+  async saveTextEmbeddings(embeddings: InsertTextEmbedding[]): Promise<void> {
+    if (embeddings.length === 0) return;
+    await db.insert(textEmbeddings).values(embeddings).onConflictDoNothing();
+  }
+
+  async countTextEmbeddings(provider: string): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(textEmbeddings)
+      .where(eq(textEmbeddings.provider, provider));
+    return row?.count || 0;
+  }
+
+  async getMessageTemplates(workspaceId?: string): Promise<MessageTemplate[]> {
+    return await db
+      .select()
+      .from(messageTemplates)
+      .where(workspaceId ? or(eq(messageTemplates.workspaceId, workspaceId), isNull(messageTemplates.workspaceId)) : undefined)
+      .orderBy(messageTemplates.type, desc(messageTemplates.updatedAt));
+  }
+
+  async getMessageTemplate(id: string): Promise<MessageTemplate | undefined> {
+    const [template] = await db.select().from(messageTemplates).where(eq(messageTemplates.id, id));
+    return template || undefined;
+  }
+
+  async createMessageTemplate(template: InsertMessageTemplate): Promise<MessageTemplate> {
+    const [saved] = await db.insert(messageTemplates).values(template).returning();
     return saved;
   }
 
+  async updateMessageTemplate(id: string, updates: Partial<MessageTemplate>): Promise<MessageTemplate | undefined> {
+    const [updated] = await db
+      .update(messageTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(messageTemplates.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Stats are kept: they are keyed by template id and say how the removed texts performed
+  async deleteMessageTemplate(id: string): Promise<void> {
+    await db.delete(messageTemplates).where(eq(messageTemplates.id, id));
+  }
+
+  async getMessageTemplateStats(): Promise<MessageTemplateStat[]> {
+    return await db.select().from(messageTemplateStats);
+  }
+
+  async recordMessageTemplateUsage(uses: MessageTemplateUse[]): Promise<void> {
+    if (uses.length === 0) return;
+    await db
+      .insert(messageTemplateStats)
+      .values(uses.map(use => ({ ...use, usageCount: 1, lastUsed: new Date() })))
+      .onConflictDoUpdate({
+        target: [messageTemplateStats.templateId, messageTemplateStats.variantId],
+        set: { usageCount: sql`${messageTemplateStats.usageCount} + 1`, lastUsed: new Date() }
+      });
+  }
+
+  async recordMessageTemplateReplies(uses: MessageTemplateUse[]): Promise<void> {
+    if (uses.length === 0) return;
+    await db
+      .insert(messageTemplateStats)
+      .values(uses.map(use => ({ ...use, replyCount: 1 })))
+      .onConflictDoUpdate({
+        target: [messageTemplateStats.templateId, messageTemplateStats.variantId],
+        set: { replyCount: sql`${messageTemplateStats.replyCount} + 1` }
+      });
+  }
+
+  private questionSnapshot(question: QuestionBank): InsertQuestionVersion {
+    return {
+      questionId: question.id,
+      version: question.version,
+      category: question.category,
+      subcategory: question.subcategory,
+      questionText: question.questionText,
+      expectedResponses: question.expectedResponses as InsertQuestionVersion['expectedResponses'],
+      metrics: question.metrics as InsertQuestionVersion['metrics'],
+      language: question.language,
+      region: question.region,
+      industryVertical: question.industryVertical
+    };
+  }
+
   async saveLearningState(state: InsertLearningState): Promise<LearningState> {
     // Upsert learning state
     const existing = await this.getLearningState(state.conversationId!, state.metricName);
@@ -672,64 +1231,274 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  // Replay Harness Methods
-  async createRecording(recording: InsertConversationRecording): Promise<ConversationRecording> {
-    const [saved] = await db.insert(conversationRecordings).values(recording).returning();
-    return saved;
+  // Inbound Queue Methods
+  async enqueueInboundJob(job: InsertInboundQueueJob): Promise<InboundQueueJob | undefined> {
+    // Redelivered webhooks hit the channel/message id constraint and are skipped
+    const [saved] = await db.insert(inboundQueue).values(job).onConflictDoNothing().returning();
+    return saved || undefined;
   }
 
-  async getRecording(id: string): Promise<ConversationRecording | undefined> {
-    const [recording] = await db.select().from(conversationRecordings).where(eq(conversationRecordings.id, id));
-    return recording || undefined;
+  async claimNextInboundJob(workerId: string): Promise<InboundQueueJob | undefined> {
+    // Only the earliest unfinished job of each conversation is claimable, so a conversation
+    // never has two jobs in flight and retries block later messages until they resolve.
+    const [job] = await db
+      .update(inboundQueue)
+      .set({
+        status: 'processing',
+        lockedAt: new Date(),
+        lockedBy: workerId,
+        attempts: sql`${inboundQueue.attempts} + 1`
+      })
+      .where(sql`${inboundQueue.id} = (
+        SELECT q.id FROM inbound_queue q
+        WHERE q.status = 'pending'
+          AND q.available_at <= NOW()
+          AND NOT EXISTS (
+            SELECT 1 FROM inbound_queue earlier
+            WHERE earlier.conversation_key = q.conversation_key
+              AND earlier.sequence < q.sequence
+              AND earlier.status IN ('pending', 'processing')
+          )
+        ORDER BY q.sequence
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )`)
+      .returning();
+    return job || undefined;
   }
 
-  async getRecordingByName(name: string): Promise<ConversationRecording | undefined> {
-    const [recording] = await db.select().from(conversationRecordings).where(eq(conversationRecordings.recordingName, name));
-    return recording || undefined;
+  async completeInboundJob(id: string, result: any): Promise<InboundQueueJob> {
+    const [updated] = await db
+      .update(inboundQueue)
+      .set({ status: 'completed', result, processedAt: new Date(), lockedAt: null, lockedBy: null })
+      .where(eq(inboundQueue.id, id))
+      .returning();
+    return updated;
   }
 
-  async listRecordings(status?: string): Promise<ConversationRecording[]> {
-    let query = db.select().from(conversationRecordings);
-    
-    if (status) {
-      query = query.where(eq(conversationRecordings.status, status));
-    }
-    
-    return await query.orderBy(desc(conversationRecordings.createdAt));
+  async failInboundJob(id: string, error: string, retryAt?: Date): Promise<InboundQueueJob> {
+    const [updated] = await db
+      .update(inboundQueue)
+      .set(retryAt
+        ? { status: 'pending', lastError: error, availableAt: retryAt, lockedAt: null, lockedBy: null }
+        : { status: 'dead_letter', lastError: error, processedAt: new Date(), lockedAt: null, lockedBy: null })
+      .where(eq(inboundQueue.id, id))
+      .returning();
+    return updated;
   }
-  
-  async saveWebhookRecording(recording: InsertWebhookRecording): Promise<WebhookRecording> {
-    const [saved] = await db.insert(webhookRecordings).values(recording).returning();
-    
-    // Update recording event count
-    await db
-      .update(conversationRecordings)
-      .set({
-        webhookEventCount: sql`${conversationRecordings.webhookEventCount} + 1`,
-        lastWebhookAt: new Date()
-      })
-      .where(eq(conversationRecordings.id, recording.recordingId));
-    
-    return saved;
+
+  async releaseStaleInboundJobs(lockedBefore: Date): Promise<number> {
+    const released = await db
+      .update(inboundQueue)
+      .set({ status: 'pending', lockedAt: null, lockedBy: null, lastError: 'Worker lock expired' })
+      .where(and(eq(inboundQueue.status, 'processing'), lte(inboundQueue.lockedAt, lockedBefore)))
+      .returning({ id: inboundQueue.id });
+    return released.length;
   }
 
-  async getWebhookRecordings(recordingId: string): Promise<WebhookRecording[]> {
+  async retryInboundJob(id: string): Promise<InboundQueueJob | undefined> {
+    const [updated] = await db
+      .update(inboundQueue)
+      .set({ status: 'pending', attempts: 0, availableAt: new Date(), processedAt: null })
+      .where(and(eq(inboundQueue.id, id), eq(inboundQueue.status, 'dead_letter')))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getInboundJob(id: string): Promise<InboundQueueJob | undefined> {
+    const [job] = await db.select().from(inboundQueue).where(eq(inboundQueue.id, id));
+    return job || undefined;
+  }
+
+  async getInboundJobs(status?: string, limit: number = 50): Promise<InboundQueueJob[]> {
     return await db
       .select()
-      .from(webhookRecordings)
-      .where(eq(webhookRecordings.recordingId, recordingId))
-      .orderBy(webhookRecordings.sequenceNumber);
+      .from(inboundQueue)
+      .where(status ? eq(inboundQueue.status, status) : undefined)
+      .orderBy(desc(inboundQueue.sequence))
+      .limit(limit);
   }
-  
-  async saveExecutionTrace(trace: InsertExecutionTrace): Promise<ExecutionTrace> {
-    const [saved] = await db.insert(executionTraces).values(trace).returning();
+
+  async getInboundQueueStats(): Promise<{
+    counts: Record<string, number>;
+    oldestPendingAt: Date | null;
+    processedLastHour: number;
+  }> {
+    const rows = await db
+      .select({ status: inboundQueue.status, count: sql<number>`count(*)::int` })
+      .from(inboundQueue)
+      .groupBy(inboundQueue.status);
+
+    const counts: Record<string, number> = { pending: 0, processing: 0, completed: 0, dead_letter: 0 };
+    rows.forEach(row => {
+      if (row.status) counts[row.status] = row.count;
+    });
+
+    const [oldest] = await db
+      .select({ receivedAt: inboundQueue.receivedAt })
+      .from(inboundQueue)
+      .where(eq(inboundQueue.status, 'pending'))
+      .orderBy(inboundQueue.sequence)
+      .limit(1);
+
+    const [processed] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(inboundQueue)
+      .where(and(
+        eq(inboundQueue.status, 'completed'),
+        gte(inboundQueue.processedAt, new Date(Date.now() - 60 * 60 * 1000))
+      ));
+
+    return {
+      counts,
+      oldestPendingAt: oldest?.receivedAt || null,
+      processedLastHour: processed?.count || 0
+    };
+  }
+
+  // Escalation Methods
+  async createEscalation(escalation: InsertEscalation): Promise<Escalation> {
+    const [saved] = await db.insert(escalations).values(escalation).returning();
     return saved;
   }
 
-  async getExecutionTraces(traceId: string): Promise<ExecutionTrace[]> {
+  async getEscalation(id: string): Promise<Escalation | undefined> {
+    const [escalation] = await db.select().from(escalations).where(eq(escalations.id, id));
+    return escalation || undefined;
+  }
+
+  async getEscalations(status?: string, limit: number = 50): Promise<Escalation[]> {
     return await db
       .select()
-      .from(executionTraces)
+      .from(escalations)
+      .where(status ? eq(escalations.status, status) : undefined)
+      .orderBy(desc(escalations.createdAt))
+      .limit(limit);
+  }
+
+  // Open or acknowledged; a resolved escalation lets the same trigger fire again
+  async getOpenEscalation(conversationId: string, trigger: string): Promise<Escalation | undefined> {
+    const [escalation] = await db
+      .select()
+      .from(escalations)
+      .where(and(
+        eq(escalations.conversationId, conversationId),
+        eq(escalations.trigger, trigger),
+        sql`${escalations.status} <> 'resolved'`
+      ))
+      .limit(1);
+    return escalation || undefined;
+  }
+
+  async updateEscalation(id: string, updates: Partial<Escalation>): Promise<Escalation | undefined> {
+    const [updated] = await db
+      .update(escalations)
+      .set(updates)
+      .where(eq(escalations.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // ICP Profile Methods
+  async getIcpProfiles(workspaceId?: string): Promise<IcpProfile[]> {
+    return await db
+      .select()
+      .from(icpProfiles)
+      .where(workspaceId ? or(eq(icpProfiles.workspaceId, workspaceId), isNull(icpProfiles.workspaceId)) : undefined)
+      .orderBy(desc(icpProfiles.updatedAt));
+  }
+
+  async getIcpProfile(id: string): Promise<IcpProfile | undefined> {
+    const [profile] = await db.select().from(icpProfiles).where(eq(icpProfiles.id, id));
+    return profile || undefined;
+  }
+
+  // The workspace's own active profile, falling back to the shared one
+  async getActiveIcpProfile(workspaceId?: string | null): Promise<IcpProfile | undefined> {
+    const profiles = await db
+      .select()
+      .from(icpProfiles)
+      .where(and(
+        eq(icpProfiles.isActive, true),
+        workspaceId ? or(eq(icpProfiles.workspaceId, workspaceId), isNull(icpProfiles.workspaceId)) : isNull(icpProfiles.workspaceId)
+      ))
+      .orderBy(desc(icpProfiles.updatedAt));
+
+    return profiles.find(p => p.workspaceId) || profiles[0] || undefined;
+  }
+
+  async createIcpProfile(profile: InsertIcpProfile): Promise<IcpProfile> {
+    const [saved] = await db.insert(icpProfiles).values(profile).returning();
+    return saved;
+  }
+
+  async updateIcpProfile(id: string, updates: Partial<IcpProfile>): Promise<IcpProfile | undefined> {
+    const [updated] = await db
+      .update(icpProfiles)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(icpProfiles.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Replay Harness Methods
+  async createRecording(recording: InsertConversationRecording): Promise<ConversationRecording> {
+    const [saved] = await db.insert(conversationRecordings).values(recording).returning();
+    return saved;
+  }
+
+  async getRecording(id: string): Promise<ConversationRecording | undefined> {
+    const [recording] = await db.select().from(conversationRecordings).where(eq(conversationRecordings.id, id));
+    return recording || undefined;
+  }
+
+  async getRecordingByName(name: string): Promise<ConversationRecording | undefined> {
+    const [recording] = await db.select().from(conversationRecordings).where(eq(conversationRecordings.recordingName, name));
+    return recording || undefined;
+  }
+
+  async listRecordings(status?: string): Promise<ConversationRecording[]> {
+    let query = db.select().from(conversationRecordings);
+    
+    if (status) {
+      query = query.where(eq(conversationRecordings.status, status));
+    }
+    
+    return await query.orderBy(desc(conversationRecordings.createdAt));
+  }
+  
+  async saveWebhookRecording(recording: InsertWebhookRecording): Promise<WebhookRecording> {
+    const [saved] = await db.insert(webhookRecordings).values(recording).returning();
+    
+    // Update recording event count
+    await db
+      .update(conversationRecordings)
+      .set({
+        webhookEventCount: sql`${conversationRecordings.webhookEventCount} + 1`,
+        lastWebhookAt: new Date()
+      })
+      .where(eq(conversationRecordings.id, recording.recordingId));
+    
+    return saved;
+  }
+
+  async getWebhookRecordings(recordingId: string): Promise<WebhookRecording[]> {
+    return await db
+      .select()
+      .from(webhookRecordings)
+      .where(eq(webhookRecordings.recordingId, recordingId))
+      .orderBy(webhookRecordings.sequenceNumber);
+  }
+  
+  async saveExecutionTrace(trace: InsertExecutionTrace): Promise<ExecutionTrace> {
+    const [saved] = await db.insert(executionTraces).values(trace).returning();
+    return saved;
+  }
+
+  async getExecutionTraces(traceId: string): Promise<ExecutionTrace[]> {
+    return await db
+      .select()
+      .from(executionTraces)
       .where(eq(executionTraces.traceId, traceId))
       .orderBy(executionTraces.stepOrder);
   }
@@ -1059,6 +1828,838 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  // CRM Integration Management
+  async createCrmIntegration(integration: InsertCrmIntegration): Promise<CrmIntegration> {
+    const [created] = await db.insert(crmIntegrations).values(integration).returning();
+    return created;
+  }
+
+  async getCrmIntegration(id: string): Promise<CrmIntegration | undefined> {
+    const [integration] = await db.select().from(crmIntegrations).where(eq(crmIntegrations.id, id));
+    return integration || undefined;
+  }
+
+  async getCrmIntegrationByType(crmType: string): Promise<CrmIntegration | undefined> {
+    const [integration] = await db
+      .select()
+      .from(crmIntegrations)
+      .where(and(eq(crmIntegrations.crmType, crmType), eq(crmIntegrations.isActive, true)))
+      .orderBy(desc(crmIntegrations.createdAt));
+    return integration || undefined;
+  }
+
+  async getActiveCrmIntegrations(): Promise<CrmIntegration[]> {
+    return await db
+      .select()
+      .from(crmIntegrations)
+      .where(eq(crmIntegrations.isActive, true))
+      .orderBy(desc(crmIntegrations.createdAt));
+  }
+
+  async updateCrmIntegration(id: string, updates: Partial<CrmIntegration>): Promise<CrmIntegration> {
+    const [updated] = await db
+      .update(crmIntegrations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(crmIntegrations.id, id))
+      .returning();
+    return updated;
+  }
+
+  async updateCrmSyncStatus(id: string, status: string, errors?: any[]): Promise<void> {
+    await db
+      .update(crmIntegrations)
+      .set({
+        syncStatus: status,
+        lastSyncAt: new Date(),
+        updatedAt: new Date(),
+        ...(errors ? { syncErrors: errors } : {})
+      })
+      .where(eq(crmIntegrations.id, id));
+  }
+
+  // Counters are updated in SQL so concurrent deliveries don't lose increments
+  async recordCrmWebhook(id: string, success: boolean, responseTimeMs: number): Promise<void> {
+    const delivered = sql`(coalesce(${crmIntegrations.successfulWebhooks}, 0) + coalesce(${crmIntegrations.failedWebhooks}, 0))`;
+
+    await db
+      .update(crmIntegrations)
+      .set({
+        successfulWebhooks: sql`coalesce(${crmIntegrations.successfulWebhooks}, 0) + ${success ? 1 : 0}`,
+        failedWebhooks: sql`coalesce(${crmIntegrations.failedWebhooks}, 0) + ${success ? 0 : 1}`,
+        avgResponseTime: sql`(coalesce(${crmIntegrations.avgResponseTime}, 0) * ${delivered} + ${responseTimeMs}) / (${delivered} + 1)`
+      })
+      .where(eq(crmIntegrations.id, id));
+  }
+
+  // Deal Management
+  async createDeal(deal: InsertDeal): Promise<Deal> {
+    const [created] = await db.insert(deals).values(deal).returning();
+    return created;
+  }
+
+  /**
+   * The conversation's deal for the integration, reserved before it is created in the CRM.
+   * claimed is false when the deal is already in the CRM or another push holds a reservation
+   * started after staleBefore; the caller then must not create it again.
+   */
+  async reserveDeal(deal: InsertDeal, staleBefore: Date): Promise<{ deal: Deal; claimed: boolean }> {
+    const lockKey = `deals:${deal.conversationId}:${deal.crmIntegrationId}`;
+
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${lockKey}))`);
+
+      const [existing] = await tx
+        .select()
+        .from(deals)
+        .where(and(eq(deals.conversationId, deal.conversationId), eq(deals.crmIntegrationId, deal.crmIntegrationId)))
+        .orderBy(deals.createdAt)
+        .limit(1);
+      if (existing && (existing.crmDealId || (existing.crmPushStartedAt && existing.crmPushStartedAt > staleBefore))) {
+        return { deal: existing, claimed: false };
+      }
+
+      const [reserved] = existing
+        ? await tx.update(deals).set({ crmPushStartedAt: new Date() }).where(eq(deals.id, existing.id)).returning()
+        : await tx.insert(deals).values({ ...deal, crmDealId: null, crmPushStartedAt: new Date() }).returning();
+      return { deal: reserved, claimed: true };
+    });
+  }
+
+  async getDeal(id: string): Promise<Deal | undefined> {
+    const [deal] = await db.select().from(deals).where(eq(deals.id, id));
+    return deal || undefined;
+  }
+
+  async getDealByCrmId(crmDealId: string, crmIntegrationId: string): Promise<Deal | undefined> {
+    const [deal] = await db
+      .select()
+      .from(deals)
+      .where(and(eq(deals.crmDealId, crmDealId), eq(deals.crmIntegrationId, crmIntegrationId)));
+    return deal || undefined;
+  }
+
+  async getDealsByConversation(conversationId: string): Promise<Deal[]> {
+    return await db
+      .select()
+      .from(deals)
+      .where(eq(deals.conversationId, conversationId))
+      .orderBy(desc(deals.createdAt));
+  }
+
+  async getActiveDeals(): Promise<Deal[]> {
+    return await db
+      .select()
+      .from(deals)
+      .where(eq(deals.isActive, true))
+      .orderBy(desc(deals.lastUpdated));
+  }
+
+  async updateDeal(id: string, updates: Partial<Deal>): Promise<Deal> {
+    const [updated] = await db
+      .update(deals)
+      .set({ ...updates, lastUpdated: new Date() })
+      .where(eq(deals.id, id))
+      .returning();
+    return updated;
+  }
+
+  async updateDealStage(id: string, newStage: string, stageData?: any): Promise<Deal> {
+    const deal = await this.getDeal(id);
+    if (!deal) {
+      throw new Error(`Deal ${id} not found`);
+    }
+
+    const transition = {
+      from: deal.pipelineStage,
+      to: newStage,
+      at: new Date().toISOString(),
+      ...(stageData || {})
+    };
+
+    return this.updateDeal(id, {
+      pipelineStage: newStage,
+      previousStage: deal.pipelineStage,
+      stageHistory: [...((deal.stageHistory as any[]) || []), transition]
+    });
+  }
+
+  async getDealsInStage(stage: string, crmIntegrationId?: string): Promise<Deal[]> {
+    const conditions = [eq(deals.pipelineStage, stage), eq(deals.isActive, true)];
+    if (crmIntegrationId) {
+      conditions.push(eq(deals.crmIntegrationId, crmIntegrationId));
+    }
+
+    return await db
+      .select()
+      .from(deals)
+      .where(and(...conditions))
+      .orderBy(desc(deals.lastUpdated));
+  }
+
+  async getDealsInPipeline(crmIntegrationId: string): Promise<Deal[]> {
+    return await db
+      .select()
+      .from(deals)
+      .where(and(eq(deals.crmIntegrationId, crmIntegrationId), eq(deals.isActive, true)))
+      .orderBy(desc(deals.lastUpdated));
+  }
+
+  /** Deals created in the window with the channel and start of the conversation that produced them */
+  async getDealCohort(start: Date, end: Date): Promise<Array<{ deal: Deal; channel: string; conversationStartedAt: Date | null }>> {
+    return await db
+      .select({ deal: deals, channel: conversations.channel, conversationStartedAt: conversations.startedAt })
+      .from(deals)
+      .innerJoin(conversations, eq(deals.conversationId, conversations.id))
+      .where(and(gte(deals.createdAt, start), lte(deals.createdAt, end)))
+      .orderBy(deals.createdAt);
+  }
+
+  async getConversationFunnelCounts(start: Date, end: Date): Promise<{ conversations: number; qualified: number }> {
+    const [counts] = await db
+      .select({
+        conversations: sql<number>`count(*)::int`,
+        qualified: sql<number>`count(*) filter (where ${conversations.status} = 'qualified')::int`
+      })
+      .from(conversations)
+      .where(and(gte(conversations.startedAt, start), lte(conversations.startedAt, end)));
+
+    return { conversations: counts?.conversations || 0, qualified: counts?.qualified || 0 };
+  }
+
+  /** Won and lost deals that kept the metrics they were qualified with, oldest first */
+  async getClosedDealsWithMetrics(): Promise<Deal[]> {
+    return await db
+      .select()
+      .from(deals)
+      .where(and(
+        inArray(deals.pipelineStage, ['closed_won', 'closed_lost']),
+        sql`${deals.qualificationMetrics} is not null`
+      ))
+      .orderBy(deals.createdAt);
+  }
+
+  // Deal Outcomes Management
+  async saveDealOutcome(outcome: InsertDealOutcome): Promise<DealOutcome> {
+    const [saved] = await db.insert(dealOutcomes).values(outcome).returning();
+    return saved;
+  }
+
+  async getDealOutcome(id: string): Promise<DealOutcome | undefined> {
+    const [outcome] = await db.select().from(dealOutcomes).where(eq(dealOutcomes.id, id));
+    return outcome || undefined;
+  }
+
+  async getDealOutcomes(dealId: string, outcomeType?: string): Promise<DealOutcome[]> {
+    const conditions = [eq(dealOutcomes.dealId, dealId)];
+    if (outcomeType) {
+      conditions.push(eq(dealOutcomes.outcomeType, outcomeType));
+    }
+
+    return await db
+      .select()
+      .from(dealOutcomes)
+      .where(and(...conditions))
+      .orderBy(desc(dealOutcomes.timestamp));
+  }
+
+  async getDealOutcomesByConversation(conversationId: string): Promise<DealOutcome[]> {
+    return await db
+      .select()
+      .from(dealOutcomes)
+      .where(eq(dealOutcomes.conversationId, conversationId))
+      .orderBy(desc(dealOutcomes.timestamp));
+  }
+
+  async getRecentDealOutcomes(hours: number = 24): Promise<DealOutcome[]> {
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+    return await db
+      .select()
+      .from(dealOutcomes)
+      .where(gte(dealOutcomes.timestamp, since))
+      .orderBy(desc(dealOutcomes.timestamp));
+  }
+
+  async getDealOutcomesForDeals(dealIds: string[], outcomeTypes?: string[]): Promise<DealOutcome[]> {
+    if (dealIds.length === 0) return [];
+
+    const conditions = [inArray(dealOutcomes.dealId, dealIds)];
+    if (outcomeTypes) {
+      conditions.push(inArray(dealOutcomes.outcomeType, outcomeTypes));
+    }
+
+    return await db
+      .select()
+      .from(dealOutcomes)
+      .where(and(...conditions))
+      .orderBy(dealOutcomes.timestamp);
+  }
+
+  async getUnvalidatedDealOutcomes(outcomeTypes: string[], limit: number = 100): Promise<DealOutcome[]> {
+    return await db
+      .select()
+      .from(dealOutcomes)
+      .where(and(
+        inArray(dealOutcomes.outcomeType, outcomeTypes),
+        sql`not exists (select 1 from ${outcomeValidations} where ${outcomeValidations.dealOutcomeId} = ${dealOutcomes.id})`
+      ))
+      .orderBy(dealOutcomes.timestamp)
+      .limit(limit);
+  }
+
+  // Outcome Validation Management
+  async saveOutcomeValidation(validation: InsertOutcomeValidation): Promise<OutcomeValidation> {
+    const [saved] = await db.insert(outcomeValidations).values(validation).returning();
+    return saved;
+  }
+
+  async getOutcomeValidation(id: string): Promise<OutcomeValidation | undefined> {
+    const [validation] = await db.select().from(outcomeValidations).where(eq(outcomeValidations.id, id));
+    return validation || undefined;
+  }
+
+  async getOutcomeValidations(dealOutcomeId: string): Promise<OutcomeValidation[]> {
+    return await db
+      .select()
+      .from(outcomeValidations)
+      .where(eq(outcomeValidations.dealOutcomeId, dealOutcomeId))
+      .orderBy(outcomeValidations.timestamp);
+  }
+
+  async getValidationsByType(validationType: string, conversationId?: string): Promise<OutcomeValidation[]> {
+    const conditions = [eq(outcomeValidations.validationType, validationType)];
+    if (conversationId) {
+      conditions.push(eq(outcomeValidations.conversationId, conversationId));
+    }
+
+    return await db
+      .select()
+      .from(outcomeValidations)
+      .where(and(...conditions))
+      .orderBy(desc(outcomeValidations.timestamp));
+  }
+
+  /** Validations that flagged calibration needs no calibration update has been proposed for yet */
+  async getPendingValidations(): Promise<OutcomeValidation[]> {
+    return await db
+      .select()
+      .from(outcomeValidations)
+      .where(and(
+        sql`jsonb_array_length(coalesce(${outcomeValidations.calibrationNeeds}, '[]'::jsonb)) > 0`,
+        sql`not exists (select 1 from ${calibrationUpdates} where ${calibrationUpdates.outcomeValidationId} = ${outcomeValidations.id})`
+      ))
+      .orderBy(outcomeValidations.timestamp);
+  }
+
+  // Calibration Updates Management
+  async saveCalibrationUpdate(update: InsertCalibrationUpdate): Promise<CalibrationUpdate> {
+    const [saved] = await db.insert(calibrationUpdates).values(update).returning();
+    return saved;
+  }
+
+  async getCalibrationUpdate(id: string): Promise<CalibrationUpdate | undefined> {
+    const [update] = await db.select().from(calibrationUpdates).where(eq(calibrationUpdates.id, id));
+    return update || undefined;
+  }
+
+  async getCalibrationUpdates(outcomeValidationId: string): Promise<CalibrationUpdate[]> {
+    return await db
+      .select()
+      .from(calibrationUpdates)
+      .where(eq(calibrationUpdates.outcomeValidationId, outcomeValidationId))
+      .orderBy(calibrationUpdates.timestamp);
+  }
+
+  async getCalibrationUpdatesByMetric(metricName: string, conversationId?: string): Promise<CalibrationUpdate[]> {
+    const conditions = [eq(calibrationUpdates.metricName, metricName)];
+    if (conversationId) {
+      conditions.push(eq(calibrationUpdates.conversationId, conversationId));
+    }
+
+    return await db
+      .select()
+      .from(calibrationUpdates)
+      .where(and(...conditions))
+      .orderBy(desc(calibrationUpdates.timestamp));
+  }
+
+  /** Proposed updates awaiting approval: not applied, and not rejected or rolled back */
+  async getPendingCalibrations(): Promise<CalibrationUpdate[]> {
+    return await db
+      .select()
+      .from(calibrationUpdates)
+      .where(and(eq(calibrationUpdates.isApplied, false), eq(calibrationUpdates.rollbackAvailable, true)))
+      .orderBy(calibrationUpdates.timestamp);
+  }
+
+  async applyCalibrationUpdate(id: string, results: any): Promise<CalibrationUpdate> {
+    return this.updateCalibrationUpdate(id, { isApplied: true, applicationResults: results });
+  }
+
+  async updateCalibrationUpdate(id: string, updates: Partial<CalibrationUpdate>): Promise<CalibrationUpdate> {
+    const [updated] = await db
+      .update(calibrationUpdates)
+      .set(updates)
+      .where(eq(calibrationUpdates.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getCalibrationHistory(limit: number = 100, metricName?: string): Promise<CalibrationUpdate[]> {
+    return await db
+      .select()
+      .from(calibrationUpdates)
+      .where(metricName ? eq(calibrationUpdates.metricName, metricName) : undefined)
+      .orderBy(desc(calibrationUpdates.timestamp))
+      .limit(limit);
+  }
+
+  /** The most recently applied update of every calibrated metric, i.e. the values in force */
+  async getEffectiveCalibrations(): Promise<CalibrationUpdate[]> {
+    return await db
+      .selectDistinctOn([calibrationUpdates.metricName])
+      .from(calibrationUpdates)
+      .where(eq(calibrationUpdates.isApplied, true))
+      .orderBy(calibrationUpdates.metricName, desc(sql`${calibrationUpdates.applicationResults}->>'appliedAt'`));
+  }
+
+  // Deal Analytics Management
+  async saveDealAnalytics(analytics: InsertDealAnalytics): Promise<DealAnalytics> {
+    const [saved] = await db.insert(dealAnalytics).values(analytics).returning();
+    return saved;
+  }
+
+  async getDealAnalytics(id: string): Promise<DealAnalytics | undefined> {
+    const [analytics] = await db.select().from(dealAnalytics).where(eq(dealAnalytics.id, id));
+    return analytics || undefined;
+  }
+
+  /** Most recent periods first; the rollup job keeps one row per analysisType and periodStart */
+  async getLatestDealAnalytics(analysisType?: string, limit: number = 30): Promise<DealAnalytics[]> {
+    return await db
+      .select()
+      .from(dealAnalytics)
+      .where(analysisType ? eq(dealAnalytics.analysisType, analysisType) : undefined)
+      .orderBy(desc(dealAnalytics.periodStart))
+      .limit(limit);
+  }
+
+  async getDealAnalyticsByPeriod(start: Date, end: Date): Promise<DealAnalytics[]> {
+    return await db
+      .select()
+      .from(dealAnalytics)
+      .where(and(gte(dealAnalytics.periodStart, start), lte(dealAnalytics.periodEnd, end)))
+      .orderBy(dealAnalytics.periodStart);
+  }
+
+  /** Replace the rollup of a period, since deals in it keep closing after the period ends */
+  async upsertDealAnalytics(analytics: InsertDealAnalytics): Promise<DealAnalytics> {
+    const [saved] = await db
+      .insert(dealAnalytics)
+      .values(analytics)
+      .onConflictDoUpdate({
+        target: [dealAnalytics.analysisType, dealAnalytics.periodStart],
+        targetWhere: sql`${dealAnalytics.analysisType} <> 'on_demand'`,
+        set: { ...analytics, timestamp: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  // Scoring Models Management
+  async saveScoringModel(model: InsertScoringModel): Promise<ScoringModel> {
+    const [saved] = await db.insert(scoringModels).values(model).returning();
+    return saved;
+  }
+
+  async getScoringModel(id: string): Promise<ScoringModel | undefined> {
+    const [model] = await db.select().from(scoringModels).where(eq(scoringModels.id, id));
+    return model || undefined;
+  }
+
+  async getActiveScoringModel(): Promise<ScoringModel | undefined> {
+    const [model] = await db
+      .select()
+      .from(scoringModels)
+      .where(eq(scoringModels.isActive, true))
+      .orderBy(desc(scoringModels.version))
+      .limit(1);
+    return model || undefined;
+  }
+
+  /** Newest version first */
+  async listScoringModels(limit: number = 20): Promise<ScoringModel[]> {
+    return await db
+      .select()
+      .from(scoringModels)
+      .orderBy(desc(scoringModels.version))
+      .limit(limit);
+  }
+
+  /** Make one version the active model; every other version is deactivated */
+  async activateScoringModel(id: string): Promise<ScoringModel> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(scoringModels)
+        .set({ isActive: false })
+        .where(eq(scoringModels.isActive, true));
+
+      const [activated] = await tx
+        .update(scoringModels)
+        .set({ isActive: true })
+        .where(eq(scoringModels.id, id))
+        .returning();
+      return activated;
+    });
+  }
+
+  // Consultant availability and meetings
+  /** Rules offered to a workspace: its own plus the ones shared by every workspace */
+  async getConsultantAvailability(workspaceId?: string | null, includeInactive: boolean = false): Promise<ConsultantAvailability[]> {
+    const conditions: SQL[] = [];
+    if (workspaceId) {
+      conditions.push(or(eq(consultantAvailability.workspaceId, workspaceId), isNull(consultantAvailability.workspaceId))!);
+    }
+    if (!includeInactive) {
+      conditions.push(eq(consultantAvailability.isActive, true));
+    }
+
+    return await db
+      .select()
+      .from(consultantAvailability)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(consultantAvailability.consultantName, consultantAvailability.weekday, consultantAvailability.startTime);
+  }
+
+  async getConsultantAvailabilityById(id: string): Promise<ConsultantAvailability | undefined> {
+    const [availability] = await db.select().from(consultantAvailability).where(eq(consultantAvailability.id, id));
+    return availability || undefined;
+  }
+
+  async createConsultantAvailability(availability: InsertConsultantAvailability): Promise<ConsultantAvailability> {
+    const [created] = await db.insert(consultantAvailability).values(availability).returning();
+    return created;
+  }
+
+  async updateConsultantAvailability(id: string, updates: Partial<InsertConsultantAvailability>): Promise<ConsultantAvailability | undefined> {
+    const [updated] = await db
+      .update(consultantAvailability)
+      .set(updates)
+      .where(eq(consultantAvailability.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  /** Rules already referenced by meetings are deactivated instead of deleted */
+  async deleteConsultantAvailability(id: string): Promise<boolean> {
+    const [referenced] = await db.select({ id: meetings.id }).from(meetings).where(eq(meetings.availabilityId, id)).limit(1);
+    if (referenced) {
+      return !!(await this.updateConsultantAvailability(id, { isActive: false }));
+    }
+
+    const deleted = await db.delete(consultantAvailability).where(eq(consultantAvailability.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async createMeeting(meeting: InsertMeeting): Promise<Meeting> {
+    const [created] = await db.insert(meetings).values(meeting).returning();
+    return created;
+  }
+
+  async getMeeting(id: string): Promise<Meeting | undefined> {
+    const [meeting] = await db.select().from(meetings).where(eq(meetings.id, id));
+    return meeting || undefined;
+  }
+
+  async updateMeeting(id: string, updates: Partial<Meeting>): Promise<Meeting> {
+    const [updated] = await db
+      .update(meetings)
+      .set(updates)
+      .where(eq(meetings.id, id))
+      .returning();
+    return updated;
+  }
+
+  /** Newest first */
+  async getMeetingsByConversation(conversationId: string): Promise<Meeting[]> {
+    return await db
+      .select()
+      .from(meetings)
+      .where(eq(meetings.conversationId, conversationId))
+      .orderBy(desc(meetings.createdAt));
+  }
+
+  /** The open proposal or the booked meeting of a conversation */
+  async getActiveMeeting(conversationId: string): Promise<Meeting | undefined> {
+    const [meeting] = await db
+      .select()
+      .from(meetings)
+      .where(and(eq(meetings.conversationId, conversationId), inArray(meetings.status, ['proposed', 'booked'])))
+      .orderBy(desc(meetings.createdAt))
+      .limit(1);
+    return meeting || undefined;
+  }
+
+  /** Booked meetings overlapping [from, to) */
+  async getBookedMeetings(from: Date, to: Date): Promise<Meeting[]> {
+    return await db
+      .select()
+      .from(meetings)
+      .where(and(
+        eq(meetings.status, 'booked'),
+        lt(meetings.startsAt, to),
+        gt(meetings.endsAt, from)
+      ))
+      .orderBy(meetings.startsAt);
+  }
+
+  /**
+   * Book the meeting (or create it booked) unless its consultant already has a booked meeting
+   * overlapping the slot; undefined when the slot was taken. Bookings of the same consultant
+   * are serialized by an advisory lock, so two leads replying at once cannot both get it.
+   */
+  async bookMeeting(booking: InsertMeeting, meetingId?: string): Promise<Meeting | undefined> {
+    const { startsAt, endsAt } = booking;
+    if (!startsAt || !endsAt) {
+      throw new Error('A booking needs a start and an end');
+    }
+    const consultant = booking.consultantEmail
+      ? eq(meetings.consultantEmail, booking.consultantEmail)
+      : eq(meetings.consultantName, booking.consultantName ?? '');
+    const lockKey = `meetings:${booking.consultantEmail || booking.consultantName || ''}`;
+
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${lockKey}))`);
+
+      const [clash] = await tx
+        .select({ id: meetings.id })
+        .from(meetings)
+        .where(and(
+          eq(meetings.status, 'booked'),
+          consultant,
+          lt(meetings.startsAt, endsAt),
+          gt(meetings.endsAt, startsAt),
+          ...(meetingId ? [ne(meetings.id, meetingId)] : [])
+        ))
+        .limit(1);
+      if (clash) return undefined;
+
+      const [booked] = meetingId
+        ? await tx.update(meetings).set(booking).where(eq(meetings.id, meetingId)).returning()
+        : await tx.insert(meetings).values(booking).returning();
+      return booked;
+    });
+  }
+
+  /** Meetings by start time, soonest first; proposals have no start and sort last */
+  async listMeetings(status?: string, from?: Date, to?: Date, limit: number = 100): Promise<Meeting[]> {
+    const conditions: SQL[] = [];
+    if (status) conditions.push(eq(meetings.status, status));
+    if (from) conditions.push(gte(meetings.startsAt, from));
+    if (to) conditions.push(lte(meetings.startsAt, to));
+
+    return await db
+      .select()
+      .from(meetings)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(sql`${meetings.startsAt} asc nulls last`, desc(meetings.createdAt))
+      .limit(limit);
+  }
+
+  // CRM Integration Analytics
+  async getCrmIntegrationStats(crmIntegrationId: string): Promise<{
+    totalDeals: number;
+    activeDeals: number;
+    avgDealSize: number;
+    conversionRate: number;
+    avgTimeToClose: number;
+    successfulWebhooks: number;
+    failedWebhooks: number;
+  }> {
+    const [stats] = await db
+      .select({
+        totalDeals: sql<number>`count(*)::int`,
+        activeDeals: sql<number>`count(*) filter (where ${deals.pipelineStage} not in ('closed_won', 'closed_lost'))::int`,
+        won: sql<number>`count(*) filter (where ${deals.pipelineStage} = 'closed_won')::int`,
+        closed: sql<number>`count(*) filter (where ${deals.pipelineStage} in ('closed_won', 'closed_lost'))::int`,
+        avgDealSize: sql<number>`coalesce(avg(${deals.dealValue}) filter (where ${deals.pipelineStage} = 'closed_won'), 0)::float`,
+        avgTimeToClose: sql<number>`coalesce(avg(${deals.timeToClose}), 0)::float`
+      })
+      .from(deals)
+      .where(eq(deals.crmIntegrationId, crmIntegrationId));
+
+    const integration = await this.getCrmIntegration(crmIntegrationId);
+
+    return {
+      totalDeals: stats?.totalDeals || 0,
+      activeDeals: stats?.activeDeals || 0,
+      avgDealSize: stats?.avgDealSize || 0,
+      conversionRate: stats?.closed ? stats.won / stats.closed : 0,
+      avgTimeToClose: stats?.avgTimeToClose || 0,
+      successfulWebhooks: integration?.successfulWebhooks || 0,
+      failedWebhooks: integration?.failedWebhooks || 0
+    };
+  }
+
+  // Outcome Correlation Analytics (timeWindow in hours, like getRecentDealOutcomes)
+  async getOutcomeCorrelationStats(conversationId?: string, timeWindow?: number): Promise<{
+    predictionAccuracy: number;
+    qualificationAccuracy: number;
+    budgetAccuracy: number;
+    timingAccuracy: number;
+    culturalEffectiveness: number;
+    avgCalibrationImpact: number;
+    totalOutcomes: number;
+  }> {
+    const since = timeWindow ? new Date(Date.now() - timeWindow * 60 * 60 * 1000) : undefined;
+
+    const outcomeConditions: SQL[] = [];
+    if (conversationId) outcomeConditions.push(eq(dealOutcomes.conversationId, conversationId));
+    if (since) outcomeConditions.push(gte(dealOutcomes.timestamp, since));
+
+    const [outcomes] = await db
+      .select({
+        predictionAccuracy: sql<number>`coalesce(avg(${dealOutcomes.predictionAccuracy}), 0)::float`,
+        qualificationAccuracy: sql<number>`coalesce(avg(${dealOutcomes.qualificationAccuracy}), 0)::float`,
+        budgetAccuracy: sql<number>`coalesce(avg(${dealOutcomes.budgetAccuracy}), 0)::float`,
+        timingAccuracy: sql<number>`coalesce(avg(${dealOutcomes.timingAccuracy}), 0)::float`,
+        culturalEffectiveness: sql<number>`coalesce(avg(${dealOutcomes.culturalEffectiveness}), 0)::float`,
+        totalOutcomes: sql<number>`count(*)::int`
+      })
+      .from(dealOutcomes)
+      .where(outcomeConditions.length > 0 ? and(...outcomeConditions) : undefined);
+
+    const calibrationConditions: SQL[] = [eq(calibrationUpdates.isApplied, true)];
+    if (conversationId) calibrationConditions.push(eq(calibrationUpdates.conversationId, conversationId));
+    if (since) calibrationConditions.push(gte(calibrationUpdates.timestamp, since));
+
+    const [calibration] = await db
+      .select({ avgCalibrationImpact: sql<number>`coalesce(avg(${calibrationUpdates.calibrationImpact}), 0)::float` })
+      .from(calibrationUpdates)
+      .where(and(...calibrationConditions));
+
+    return {
+      predictionAccuracy: outcomes?.predictionAccuracy || 0,
+      qualificationAccuracy: outcomes?.qualificationAccuracy || 0,
+      budgetAccuracy: outcomes?.budgetAccuracy || 0,
+      timingAccuracy: outcomes?.timingAccuracy || 0,
+      culturalEffectiveness: outcomes?.culturalEffectiveness || 0,
+      avgCalibrationImpact: calibration?.avgCalibrationImpact || 0,
+      totalOutcomes: outcomes?.totalOutcomes || 0
+    };
+  }
+
+  // Deal Attribution Analytics
+  async getDealAttributionAnalysis(dealId?: string, dateRange?: { start: Date; end: Date }): Promise<{
+    conversationQualityImpact: number;
+    questionEffectiveness: number;
+    culturalAdaptationImpact: number;
+    aiDecisionQuality: number;
+    overallAttributionScore: number;
+    topContributingFactors: string[];
+  }> {
+    const conditions: SQL[] = [];
+    if (dealId) conditions.push(eq(dealOutcomes.dealId, dealId));
+    if (dateRange) conditions.push(gte(dealOutcomes.timestamp, dateRange.start), lte(dealOutcomes.timestamp, dateRange.end));
+
+    const outcomes = await db
+      .select({
+        conversationFlow: dealOutcomes.conversationFlow,
+        questionEffectiveness: dealOutcomes.questionEffectiveness,
+        culturalEffectiveness: dealOutcomes.culturalEffectiveness,
+        decisionQuality: dealOutcomes.decisionQuality,
+        qualificationAccuracy: dealOutcomes.qualificationAccuracy,
+        contributingFactors: dealOutcomes.contributingFactors
+      })
+      .from(dealOutcomes)
+      .where(conditions.length > 0 ? and(...conditions) : undefined);
+
+    const mean = (values: Array<number | null>) => {
+      const present = values.filter((v): v is number => v !== null);
+      return present.length > 0 ? present.reduce((sum, v) => sum + v, 0) / present.length : 0;
+    };
+
+    const conversationQualityImpact = mean(outcomes.map(o => o.conversationFlow));
+    const questionEffectiveness = mean(outcomes.map(o => o.questionEffectiveness));
+    const culturalAdaptationImpact = mean(outcomes.map(o => o.culturalEffectiveness));
+    // Closed deals carry qualification accuracy even where nobody rated the decisions
+    const aiDecisionQuality = mean(outcomes.map(o => o.decisionQuality ?? o.qualificationAccuracy));
+
+    const factorCounts: Record<string, number> = {};
+    for (const outcome of outcomes) {
+      for (const factor of (outcome.contributingFactors as string[]) || []) {
+        factorCounts[factor] = (factorCounts[factor] || 0) + 1;
+      }
+    }
+
+    return {
+      conversationQualityImpact,
+      questionEffectiveness,
+      culturalAdaptationImpact,
+      aiDecisionQuality,
+      overallAttributionScore: (conversationQualityImpact + questionEffectiveness + culturalAdaptationImpact + aiDecisionQuality) / 4,
+      topContributingFactors: Object.entries(factorCounts)
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, 5)
+        .map(([factor]) => factor)
+    };
+  }
+
+  // Regional Performance Analytics (timeWindow in hours)
+  async getRegionalPerformanceStats(region?: string, timeWindow?: number): Promise<{
+    totalDeals: number;
+    avgDealSize: number;
+    conversionRate: number;
+    culturalEffectiveness: number;
+    avgTimeToClose: number;
+    qualificationAccuracy: number;
+    topPerformingRegions: string[];
+    regionalTrends: any[];
+  }> {
+    const conditions: SQL[] = [];
+    if (timeWindow) conditions.push(gte(deals.createdAt, new Date(Date.now() - timeWindow * 60 * 60 * 1000)));
+
+    const rows = await db
+      .select({
+        region: sql<string>`coalesce(${deals.region}, 'unknown')`,
+        totalDeals: sql<number>`count(distinct ${deals.id})::int`,
+        won: sql<number>`count(distinct ${deals.id}) filter (where ${deals.pipelineStage} = 'closed_won')::int`,
+        closed: sql<number>`count(distinct ${deals.id}) filter (where ${deals.pipelineStage} in ('closed_won', 'closed_lost'))::int`,
+        avgDealSize: sql<number>`coalesce(avg(${deals.dealValue}) filter (where ${deals.pipelineStage} = 'closed_won'), 0)::float`,
+        avgTimeToClose: sql<number>`coalesce(avg(${deals.timeToClose}), 0)::float`,
+        culturalEffectiveness: sql<number>`coalesce(avg(${dealOutcomes.culturalEffectiveness}), 0)::float`,
+        qualificationAccuracy: sql<number>`coalesce(avg(${dealOutcomes.qualificationAccuracy}), 0)::float`
+      })
+      .from(deals)
+      // Closing outcomes only, so each deal joins at most the outcome of its close
+      .leftJoin(dealOutcomes, and(eq(dealOutcomes.dealId, deals.id), inArray(dealOutcomes.outcomeType, ['deal_closed', 'deal_lost'])))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .groupBy(sql`coalesce(${deals.region}, 'unknown')`);
+
+    const regionalTrends = rows.map(row => ({ ...row, conversionRate: row.closed ? row.won / row.closed : 0 }));
+    const selected = region ? regionalTrends.filter(row => row.region === region) : regionalTrends;
+
+    const totalDeals = selected.reduce((sum, row) => sum + row.totalDeals, 0);
+    const won = selected.reduce((sum, row) => sum + row.won, 0);
+    const closed = selected.reduce((sum, row) => sum + row.closed, 0);
+    const weighted = (key: 'avgTimeToClose' | 'culturalEffectiveness' | 'qualificationAccuracy') =>
+      totalDeals ? selected.reduce((sum, row) => sum + row[key] * row.totalDeals, 0) / totalDeals : 0;
+
+    return {
+      totalDeals,
+      avgDealSize: won ? selected.reduce((sum, row) => sum + row.avgDealSize * row.won, 0) / won : 0,
+      conversionRate: closed ? won / closed : 0,
+      culturalEffectiveness: weighted('culturalEffectiveness'),
+      avgTimeToClose: weighted('avgTimeToClose'),
+      qualificationAccuracy: weighted('qualificationAccuracy'),
+      topPerformingRegions: [...regionalTrends]
+        .filter(row => row.closed > 0)
+        .sort((a, b) => b.conversionRate - a.conversionRate)
+        .slice(0, 5)
+        .map(row => row.region),
+      regionalTrends
+    };
+  }
+
   // Knowledge Graph Storage Implementation
 
   // Node operations
@@ -1072,17 +2673,21 @@ export class DatabaseStorage implements IStorage {
     return node || undefined;
   }
 
-  async getKnowledgeGraphNodes(entityType?: string, limit: number = 100): Promise<KnowledgeGraphNode[]> {
-    let query = db.select().from(knowledgeGraphNodes).where(eq(knowledgeGraphNodes.isActive, true));
-    
-    if (entityType) {
-      query = query.where(and(
-        eq(knowledgeGraphNodes.entityType, entityType),
-        eq(knowledgeGraphNodes.isActive, true)
-      ));
-    }
-    
-    return await query.orderBy(desc(knowledgeGraphNodes.lastUpdated)).limit(limit);
+  async getKnowledgeGraphNodes(
+    entityType?: string,
+    limit: number = 100,
+    workspaceId?: string
+  ): Promise<KnowledgeGraphNode[]> {
+    return await db
+      .select()
+      .from(knowledgeGraphNodes)
+      .where(and(
+        eq(knowledgeGraphNodes.isActive, true),
+        entityType ? eq(knowledgeGraphNodes.entityType, entityType) : undefined,
+        workspaceId ? eq(knowledgeGraphNodes.workspaceId, workspaceId) : undefined
+      ))
+      .orderBy(desc(knowledgeGraphNodes.lastUpdated))
+      .limit(limit);
   }
 
   async updateKnowledgeGraphNode(entityId: string, updates: Partial<KnowledgeGraphNode>): Promise<KnowledgeGraphNode> {
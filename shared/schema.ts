@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, jsonb, real, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, jsonb, real, integer, boolean, unique, uniqueIndex, serial } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
@@ -7,16 +7,35 @@ import { relations } from "drizzle-orm";
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
-  role: text("role").default("admin"),
+  password: text("password").notNull(), // scrypt hash as hex.salt
+  role: text("role").default("viewer"), // admin, analyst, sales_rep, viewer
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Workspaces - Tenants (consulting brands) served by one deployment
+export const workspaces = pgTable("workspaces", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  slug: text("slug").notNull().unique(),
+  name: text("name").notNull(),
+  language: text("language").default("es"),
+  region: text("region").default("ES"),
+  whatsappPhoneNumberId: text("whatsapp_phone_number_id").unique(), // Routes inbound WhatsApp webhooks to this workspace
+  whatsappAccessToken: text("whatsapp_access_token"), // Falls back to WHATSAPP_ACCESS_TOKEN when empty
+  qualificationCriteria: jsonb("qualification_criteria").notNull().default({}), // QualificationCriteria
+  llmSettings: jsonb("llm_settings").default({}), // WorkspaceLLMSettings
+  isDefault: boolean("is_default").default(false), // Receives conversations no other workspace claims
+  isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const conversations = pgTable("conversations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  whatsappId: text("whatsapp_id").notNull().unique(),
+  workspaceId: varchar("workspace_id").references(() => workspaces.id),
+  channel: text("channel").notNull().default("whatsapp"), // whatsapp, webchat, email, telegram
+  externalId: text("external_id").notNull(), // Contact identifier on the channel (phone, chat id, email address, session id)
+  whatsappId: text("whatsapp_id"), // Only set for WhatsApp conversations
   contactName: text("contact_name").notNull(),
-  contactPhone: text("contact_phone").notNull(),
+  contactPhone: text("contact_phone").notNull(), // Phone number, or the channel handle when the channel has no phone
   company: text("company"),
   status: text("status").default("active"), // active, paused, completed, qualified, disqualified
   language: text("language").default("es"),
@@ -26,8 +45,18 @@ export const conversations = pgTable("conversations", {
   lastActivity: timestamp("last_activity").defaultNow(),
   messageCount: integer("message_count").default(0),
   qualificationScore: real("qualification_score").default(0),
+  handoffMode: text("handoff_mode").default("bot"), // bot, human - in human mode the bot stops asking questions
+  assignedTo: text("assigned_to"), // Operator who claimed the conversation
+  handoffAt: timestamp("handoff_at"),
+  suppressed: boolean("suppressed").default(false), // Opted out (BAJA, STOP): nothing is sent until the contact opts back in
+  suppressedAt: timestamp("suppressed_at"),
   metadata: jsonb("metadata").default({}),
-});
+}, (table) => ({
+  // A contact has one conversation per workspace and channel; rows not yet assigned a workspace count as one
+  workspaceChannelExternalIdUnique: unique("conversations_workspace_channel_external_id_unique")
+    .on(table.workspaceId, table.channel, table.externalId)
+    .nullsNotDistinct(),
+}));
 
 export const messages = pgTable("messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -38,7 +67,12 @@ export const messages = pgTable("messages", {
   messageType: text("message_type").default("text"), // text, image, document, etc.
   timestamp: timestamp("timestamp").defaultNow(),
   metadata: jsonb("metadata").default({}),
-});
+  deliveryStatus: text("delivery_status"), // Outgoing only: sent, delivered, read, failed
+  deliveryStatusAt: timestamp("delivery_status_at"),
+  deliveryError: text("delivery_error"),
+}, (table) => ({
+  conversationExternalIdUnique: unique("messages_conversation_external_id_unique").on(table.conversationId, table.whatsappMessageId),
+}));
 
 export const conversationMetrics = pgTable("conversation_metrics", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -140,6 +174,7 @@ export const decisionTraces = pgTable("decision_traces", {
 
 export const questionBank = pgTable("question_bank", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").references(() => workspaces.id), // Null questions are shared by every workspace
   category: text("category").notNull(), // budget, technical, authority, need, etc.
   subcategory: text("subcategory"),
   questionText: text("question_text").notNull(),
@@ -149,12 +184,96 @@ export const questionBank = pgTable("question_bank", {
   region: text("region").default("ES"),
   industryVertical: text("industry_vertical"),
   isActive: boolean("is_active").default(true),
+  version: integer("version").notNull().default(1), // Current questionVersions.version; the stats below are its own
   successRate: real("success_rate").default(0),
   usageCount: integer("usage_count").default(0),
   lastUsed: timestamp("last_used"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Immutable snapshots of a question's wording. Editing the text makes a new version with fresh stats,
+// so successRate and usageCount always describe the words the leads actually saw.
+export const questionVersions = pgTable("question_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  questionId: varchar("question_id").references(() => questionBank.id).notNull(),
+  version: integer("version").notNull(),
+  category: text("category").notNull(),
+  subcategory: text("subcategory"),
+  questionText: text("question_text").notNull(),
+  expectedResponses: jsonb("expected_responses").default([]),
+  metrics: jsonb("metrics").default({}),
+  language: text("language").default("es"),
+  region: text("region").default("ES"),
+  industryVertical: text("industry_vertical"),
+  successRate: real("success_rate").default(0),
+  usageCount: integer("usage_count").default(0),
+  lastUsed: timestamp("last_used"),
+  changeNote: text("change_note"),
+  createdBy: text("created_by"), // Username of the editor or importer
+  createdAt: timestamp("created_at").defaultNow(),
+  supersededAt: timestamp("superseded_at"), // Null for the current version
+});
+
+// Conversation playbooks: which questions may be asked when, as a graph of question and category nodes.
+// The newest active playbook of a workspace wins over the shared ones; without any, the built-in one applies.
+export const playbooks = pgTable("playbooks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").references(() => workspaces.id), // Null playbooks apply to workspaces without their own
+  name: text("name").notNull(),
+  description: text("description"),
+  isActive: boolean("is_active").default(false),
+  graph: jsonb("graph").notNull().default({ entry: [], nodes: [], edges: [] }), // PlaybookGraph
+  version: integer("version").default(1),
+  updatedBy: text("updated_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Embedding vectors of question texts and outgoing messages, keyed by provider and normalized text,
+// so a question is embedded once per wording and provider
+export const textEmbeddings = pgTable("text_embeddings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: text("provider").notNull(), // Provider and model: ngram:v1, local:nomic-embed-text
+  contentHash: text("content_hash").notNull(), // sha256 of the normalized text
+  sourceType: text("source_type").notNull(), // question, message
+  sourceId: varchar("source_id"), // Question id for question texts
+  vector: jsonb("vector").notNull(), // number[]
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  providerContentUnique: unique("text_embeddings_provider_content_unique").on(table.provider, table.contentHash),
+}));
+
+// Texts MessageComposer wraps questions in: greetings, acknowledgments, transitions and question framings.
+// Null keys match any turn; the most specific active template wins and one of its variants is sent.
+export const messageTemplates = pgTable("message_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").references(() => workspaces.id), // Null templates are shared by every workspace
+  name: text("name").notNull(),
+  type: text("type").notNull(), // MessageTemplateType
+  phase: text("phase"), // greeting, exploration, qualification, deepening, closing
+  region: text("region"), // ES, MX...
+  formality: text("formality"), // formal, informal
+  timeOfDay: text("time_of_day"), // morning, afternoon, evening, night
+  sentiment: text("sentiment"), // Acknowledgments: positive, negative, neutral, detailed
+  variants: jsonb("variants").notNull().default([]), // MessageTemplateVariant[]
+  isActive: boolean("is_active").default(true),
+  updatedBy: text("updated_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Sends and replies per template variant; built-in templates have no row in message_templates
+export const messageTemplateStats = pgTable("message_template_stats", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  templateId: varchar("template_id").notNull(),
+  variantId: text("variant_id").notNull(),
+  usageCount: integer("usage_count").notNull().default(0),
+  replyCount: integer("reply_count").notNull().default(0),
+  lastUsed: timestamp("last_used"),
+}, (table) => ({
+  templateVariantUnique: unique("message_template_stats_variant_unique").on(table.templateId, table.variantId),
+}));
+
 export const learningState = pgTable("learning_state", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   conversationId: varchar("conversation_id").references(() => conversations.id),
@@ -259,6 +378,11 @@ export const insertUserSchema = createInsertSchema(users).omit({
   createdAt: true,
 });
 
+export const insertWorkspaceSchema = createInsertSchema(workspaces).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertConversationSchema = createInsertSchema(conversations).omit({
   id: true,
   startedAt: true,
@@ -286,6 +410,29 @@ export const insertQuestionBankSchema = createInsertSchema(questionBank).omit({
   lastUsed: true,
 });
 
+export const insertQuestionVersionSchema = createInsertSchema(questionVersions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPlaybookSchema = createInsertSchema(playbooks).omit({
+  id: true,
+  version: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertTextEmbeddingSchema = createInsertSchema(textEmbeddings).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMessageTemplateSchema = createInsertSchema(messageTemplates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertLearningStateSchema = createInsertSchema(learningState).omit({
   id: true,
   lastUpdated: true,
@@ -300,6 +447,12 @@ export const insertReasoningTraceSchema = createInsertSchema(reasoningTraces).om
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export const USER_ROLES = ['admin', 'analyst', 'sales_rep', 'viewer'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export type Workspace = typeof workspaces.$inferSelect;
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+
 export type Conversation = typeof conversations.$inferSelect;
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
 
@@ -315,12 +468,108 @@ export type InsertDecisionTrace = z.infer<typeof insertDecisionTraceSchema>;
 export type QuestionBank = typeof questionBank.$inferSelect;
 export type InsertQuestionBank = z.infer<typeof insertQuestionBankSchema>;
 
+export type QuestionVersion = typeof questionVersions.$inferSelect;
+export type InsertQuestionVersion = z.infer<typeof insertQuestionVersionSchema>;
+
+export type Playbook = typeof playbooks.$inferSelect;
+export type InsertPlaybook = z.infer<typeof insertPlaybookSchema>;
+
+export type TextEmbedding = typeof textEmbeddings.$inferSelect;
+export type InsertTextEmbedding = z.infer<typeof insertTextEmbeddingSchema>;
+
+export type MessageTemplate = typeof messageTemplates.$inferSelect;
+export type InsertMessageTemplate = z.infer<typeof insertMessageTemplateSchema>;
+export type MessageTemplateStat = typeof messageTemplateStats.$inferSelect;
+
 export type LearningState = typeof learningState.$inferSelect;
 export type InsertLearningState = z.infer<typeof insertLearningStateSchema>;
 
 export type ReasoningTrace = typeof reasoningTraces.$inferSelect;
 export type InsertReasoningTrace = z.infer<typeof insertReasoningTraceSchema>;
 
+// Inbound Message Queue
+export const inboundQueue = pgTable("inbound_queue", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sequence: serial("sequence").notNull(), // Arrival order, used to keep per-conversation ordering
+  channel: text("channel").notNull(), // whatsapp, webchat, email, telegram
+  conversationKey: text("conversation_key").notNull(), // channel:externalId of the sender
+  externalMessageId: text("external_message_id"),
+  payload: jsonb("payload").notNull(), // Raw webhook body as received
+  messageIndex: integer("message_index").default(0), // Position of this job's message within a batched payload
+  status: text("status").default("pending"), // pending, processing, completed, dead_letter
+  attempts: integer("attempts").default(0),
+  maxAttempts: integer("max_attempts").default(5),
+  lastError: text("last_error"),
+  availableAt: timestamp("available_at").defaultNow(), // Earliest time the job may be (re)tried
+  lockedAt: timestamp("locked_at"),
+  lockedBy: text("locked_by"),
+  receivedAt: timestamp("received_at").defaultNow(),
+  processedAt: timestamp("processed_at"),
+  result: jsonb("result"),
+}, (table) => ({
+  // Providers redeliver webhooks; the second delivery of a message id is dropped here
+  channelMessageUnique: unique("inbound_queue_channel_message_unique").on(table.channel, table.externalMessageId),
+}));
+
+export const insertInboundQueueSchema = createInsertSchema(inboundQueue).omit({
+  id: true,
+  sequence: true,
+  receivedAt: true,
+});
+
+export type InboundQueueJob = typeof inboundQueue.$inferSelect;
+export type InsertInboundQueueJob = z.infer<typeof insertInboundQueueSchema>;
+
+// Escalations - Conversations flagged for a sales rep to take over
+export const escalations = pgTable("escalations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: varchar("conversation_id").references(() => conversations.id).notNull(),
+  trigger: text("trigger").notNull(), // frustration, high_value_lead, manual
+  reason: text("reason").notNull(),
+  severity: text("severity").default("medium"), // low, medium, high
+  status: text("status").default("open"), // open, acknowledged, resolved
+  metricsSnapshot: jsonb("metrics_snapshot").default({}), // Metric values that fired the trigger
+  acknowledgedBy: text("acknowledged_by"),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertEscalationSchema = createInsertSchema(escalations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type Escalation = typeof escalations.$inferSelect;
+export type InsertEscalation = z.infer<typeof insertEscalationSchema>;
+
+// ICP Profiles - Declarative Ideal Customer Profile evaluated after each metrics run
+export const icpProfiles = pgTable("icp_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").references(() => workspaces.id), // Null profiles apply to workspaces without their own
+  name: text("name").notNull(),
+  description: text("description"),
+  isActive: boolean("is_active").default(true),
+  minMessages: integer("min_messages").default(4), // Score bands only move the status once the conversation has this many messages
+  criteria: jsonb("criteria").notNull().default([]), // IcpCriterion[] - weighted, make up the score
+  knockoutRules: jsonb("knockout_rules").notNull().default([]), // IcpKnockoutRule[] - any match disqualifies
+  scoreBands: jsonb("score_bands").notNull().default([]), // IcpScoreBand[] - score ranges mapped to a conversation status
+  version: integer("version").default(1),
+  updatedBy: text("updated_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertIcpProfileSchema = createInsertSchema(icpProfiles).omit({
+  id: true,
+  version: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type IcpProfile = typeof icpProfiles.$inferSelect;
+export type InsertIcpProfile = z.infer<typeof insertIcpProfileSchema>;
+
 // Replay Harness Tables
 export const conversationRecordings = pgTable("conversation_recordings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -506,6 +755,7 @@ export type InsertTraceValidation = z.infer<typeof insertTraceValidationSchema>;
 // Shadow A/B Testing Framework Tables
 export const experiments = pgTable("experiments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").references(() => workspaces.id),
   name: text("name").notNull().unique(),
   description: text("description").notNull(),
   status: text("status").default("draft"), // draft, running, paused, completed, archived
@@ -947,8 +1197,9 @@ export const deals = pgTable("deals", {
   crmIntegrationId: varchar("crm_integration_id").references(() => crmIntegrations.id).notNull(),
   
   // CRM identifiers
-  crmDealId: text("crm_deal_id").notNull().unique(),
+  crmDealId: text("crm_deal_id").unique(), // Null while the deal is being created in the CRM
   crmContactId: text("crm_contact_id"),
+  crmPushStartedAt: timestamp("crm_push_started_at"), // Set while a push holds the reservation
   crmAccountId: text("crm_account_id"),
   
   // Deal basic information
@@ -1018,7 +1269,7 @@ export const dealOutcomes = pgTable("deal_outcomes", {
   // Outcome measurements
   actualValue: real("actual_value"), // Actual business value
   predictedValue: real("predicted_value"), // What AI predicted
-  predictionAccuracy: real("prediction_accuracy"), // |actual - predicted| / predicted
+  predictionAccuracy: real("prediction_accuracy"), // 1 - |actual - predicted| / predicted, floored at 0
   predictionError: real("prediction_error"), // actual - predicted
   
   // Timing accuracy
@@ -1212,6 +1463,69 @@ export const dealAnalytics = pgTable("deal_analytics", {
   analysisVersion: text("analysis_version").default("1.0.0"),
   confidence: real("confidence").default(0),
   notes: text("notes"),
+}, (table) => ({
+  // One rollup per period; on_demand analyses of the same window are kept side by side
+  periodUnique: uniqueIndex("deal_analytics_period_unique")
+    .on(table.analysisType, table.periodStart)
+    .where(sql`${table.analysisType} <> 'on_demand'`),
+}));
+
+// Win probability models trained on closed deals; one version is active at a time
+export const scoringModels = pgTable("scoring_models", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  version: integer("version").notNull().unique(),
+  modelType: text("model_type").notNull().default("logistic_regression"),
+  features: jsonb("features").notNull(), // Feature names, in weight order
+  weights: jsonb("weights").notNull(), // number[] over standardized features
+  intercept: real("intercept").notNull(),
+  normalization: jsonb("normalization").notNull(), // { means: number[], stds: number[] }
+  calibration: jsonb("calibration").notNull(), // Platt scaling { slope, intercept } on the raw logit
+  featureImportances: jsonb("feature_importances").notNull().default([]), // ScoringFeatureImportance[]
+  reliability: jsonb("reliability").notNull().default([]), // ReliabilityBin[] of out-of-fold predictions
+  metrics: jsonb("metrics").notNull().default({}), // ScoringModelMetrics
+  trainingSize: integer("training_size").notNull(),
+  positives: integer("positives").notNull(),
+  isActive: boolean("is_active").default(false),
+  trainedBy: text("trained_by").default("system"),
+  notes: text("notes"),
+  trainedAt: timestamp("trained_at").defaultNow(),
+});
+
+// Weekly availability of the consultants qualified leads book calls with, in the consultant's time zone
+export const consultantAvailability = pgTable("consultant_availability", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").references(() => workspaces.id), // Null: offered to every workspace
+  consultantName: text("consultant_name").notNull(),
+  consultantEmail: text("consultant_email"), // Organizer of the ICS invite
+  timezone: text("timezone").notNull().default("Europe/Madrid"), // IANA zone of startTime and endTime
+  weekday: integer("weekday").notNull(), // 0 Sunday … 6 Saturday
+  startTime: text("start_time").notNull(), // HH:MM
+  endTime: text("end_time").notNull(), // HH:MM, the last slot ends by then
+  slotMinutes: integer("slot_minutes").notNull().default(30),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Calls offered to and booked by leads; a row starts as a proposal of slots and becomes the meeting once picked
+export const meetings = pgTable("meetings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: varchar("conversation_id").references(() => conversations.id).notNull(),
+  availabilityId: varchar("availability_id").references(() => consultantAvailability.id),
+  status: text("status").notNull().default("proposed"), // proposed, booked, cancelled, expired
+  proposedSlots: jsonb("proposed_slots").notNull().default([]), // MeetingSlot[] offered to the lead, in offer order
+  consultantName: text("consultant_name"),
+  consultantEmail: text("consultant_email"),
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  leadTimezone: text("lead_timezone").notNull(), // Zone the slots were offered in
+  pickText: text("pick_text"), // The lead's reply that booked it ("el jueves por la tarde")
+  bookedVia: text("booked_via"), // whatsapp (or the conversation's channel), dashboard
+  bookedBy: text("booked_by"), // Operator, for dashboard bookings
+  decisionTraceId: varchar("decision_trace_id").references(() => decisionTraces.id), // propose_meeting trace
+  dealId: varchar("deal_id").references(() => deals.id), // Deal created or advanced by the booking
+  createdAt: timestamp("created_at").defaultNow(),
+  bookedAt: timestamp("booked_at"),
+  cancelledAt: timestamp("cancelled_at"),
 });
 
 // Knowledge Graph Tables for self-improving conversation intelligence
@@ -1219,6 +1533,7 @@ export const dealAnalytics = pgTable("deal_analytics", {
 // Knowledge Graph Nodes - Entities extracted from conversations
 export const knowledgeGraphNodes = pgTable("knowledge_graph_nodes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").references(() => workspaces.id),
   entityId: varchar("entity_id").notNull().unique(), // Canonical entity identifier
   entityType: text("entity_type").notNull(), // company, person, technology, pain_point, solution, industry, region
   entityName: text("entity_name").notNull(),
@@ -1258,6 +1573,7 @@ export const knowledgeGraphNodes = pgTable("knowledge_graph_nodes", {
 // Knowledge Graph Edges - Relationships between entities
 export const knowledgeGraphEdges = pgTable("knowledge_graph_edges", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").references(() => workspaces.id),
   edgeId: varchar("edge_id").notNull().unique(), // Canonical edge identifier
   
   // Relationship definition
@@ -1515,6 +1831,21 @@ export const insertDealAnalyticsSchema = createInsertSchema(dealAnalytics).omit(
   timestamp: true,
 });
 
+export const insertScoringModelSchema = createInsertSchema(scoringModels).omit({
+  id: true,
+  trainedAt: true,
+});
+
+export const insertConsultantAvailabilitySchema = createInsertSchema(consultantAvailability).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMeetingSchema = createInsertSchema(meetings).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Types for CRM integration tables
 export type CrmIntegration = typeof crmIntegrations.$inferSelect;
 export type InsertCrmIntegration = z.infer<typeof insertCrmIntegrationSchema>;
@@ -1534,6 +1865,414 @@ export type InsertCalibrationUpdate = z.infer<typeof insertCalibrationUpdateSche
 export type DealAnalytics = typeof dealAnalytics.$inferSelect;
 export type InsertDealAnalytics = z.infer<typeof insertDealAnalyticsSchema>;
 
+export type ScoringModel = typeof scoringModels.$inferSelect;
+export type InsertScoringModel = z.infer<typeof insertScoringModelSchema>;
+
+export type ConsultantAvailability = typeof consultantAvailability.$inferSelect;
+export type InsertConsultantAvailability = z.infer<typeof insertConsultantAvailabilitySchema>;
+
+export type Meeting = typeof meetings.$inferSelect;
+export type InsertMeeting = z.infer<typeof insertMeetingSchema>;
+
+// Workspace settings (workspaces.qualificationCriteria / llmSettings)
+export interface QualificationCriteria {
+  minBudget: number;
+  currency: string; // ISO code, e.g. EUR
+  minSpocHoursPerWeek: number; // Time the client's single point of contact must commit
+  minDigitalMaturity: 'low' | 'medium' | 'high';
+  offerDescription?: string; // What the brand sells, given to the NLP prompt as context
+}
+
+export interface WorkspaceLLMSettings {
+  model?: string;
+  temperature?: number;
+}
+
+// ICP rule definitions (icpProfiles.criteria / knockoutRules / scoreBands)
+export const ICP_OPERATORS = ['gte', 'gt', 'lte', 'lt', 'eq', 'neq', 'in'] as const;
+export type IcpOperator = typeof ICP_OPERATORS[number];
+
+export interface IcpCondition {
+  field: string; // Fact path, e.g. lead.budget, metrics.authorityScore, smb.spocAvailability
+  operator: IcpOperator;
+  value: number | string | string[];
+}
+
+export interface IcpCriterion extends IcpCondition {
+  id: string;
+  label: string;
+  weight: number; // Relative; weights are normalized over the profile's criteria
+  scoring?: 'threshold' | 'linear'; // linear gives partial credit for numeric gte/gt up to the value
+}
+
+export interface IcpKnockoutRule extends IcpCondition {
+  id: string;
+  label: string; // Fires only on a known fact; an unknown value never knocks a lead out
+}
+
+export interface IcpScoreBand {
+  id: string;
+  label: string;
+  minScore: number; // Highest band whose minScore the score reaches wins
+  status: 'active' | 'qualified' | 'disqualified';
+}
+
+export interface IcpRuleResult {
+  ruleId: string;
+  kind: 'criterion' | 'knockout';
+  label: string;
+  field: string;
+  actual: number | string | null;
+  passed: boolean | null; // null when the fact is still unknown
+  score?: number; // Criteria only, 0-1 before weighting
+  weight?: number; // Criteria only, normalized
+  explanation: string;
+}
+
+export interface IcpEvaluation {
+  profileId: string | null; // Null for the built-in profile derived from workspace criteria
+  profileVersion: number;
+  score: number;
+  band: string | null;
+  status: string | null; // Status the evaluation set, null when it left the conversation alone
+  knockedOutBy: string[];
+  results: IcpRuleResult[];
+  facts: Record<string, number | string>; // Lead facts known so far, carried between messages
+  traceId?: string; // Reasoning trace shown by the Why panel
+  evaluatedAt: string;
+}
+
+// Conversation playbooks (playbooks.graph, progress in conversations.metadata.playbook)
+export const PLAYBOOK_OPERATORS = ['gte', 'gt', 'lte', 'lt', 'eq'] as const;
+export type PlaybookOperator = typeof PLAYBOOK_OPERATORS[number];
+export type ConversationStage = 'early' | 'mid' | 'late';
+
+export type PlaybookCondition =
+  | {
+      metric: string; // Path in the SituationAwarenessState: messageCount, engagement.score, trust.transparency
+      operator: PlaybookOperator;
+      value: number;
+    }
+  | { anyOf: PlaybookCondition[] };
+
+export interface PlaybookNode {
+  id: string;
+  type: 'category' | 'question' | 'terminal';
+  label?: string;
+  category?: string; // Category nodes: any question of the category
+  questionId?: string; // Question nodes: that question only
+  stages?: ConversationStage[]; // Omitted: every stage
+  preconditions?: PlaybookCondition[]; // All must hold for the node to be asked
+  outcome?: 'qualified' | 'disqualified' | 'handoff' | 'complete'; // Terminal nodes
+  position?: { x: number; y: number }; // Editor layout
+}
+
+export interface PlaybookEdge {
+  id: string;
+  from: string;
+  to: string;
+  // Follow-up taken when the lead's answer to the "from" node matches; omitted follows any answer
+  when?: {
+    optionIds?: string[]; // Tapped reply options of the asked question
+    keywords?: string[]; // Any of them in the answer text, case and accent insensitive
+    conditions?: PlaybookCondition[]; // Metrics after the answer
+  };
+}
+
+export interface PlaybookGraph {
+  entry: string[]; // Nodes open from the first message
+  nodes: PlaybookNode[];
+  edges: PlaybookEdge[];
+}
+
+export interface PlaybookProgress {
+  playbookId: string; // "default" for the built-in playbook
+  reached: string[]; // Entry nodes and the targets of followed edges
+  asked: Array<{ nodeId: string; questionId: string; askedAt: string }>;
+  pendingNodeId: string | null; // Node of the last question, until the lead answers it
+  terminal?: { nodeId: string; outcome: string; reachedAt: string };
+}
+
+export interface PlaybookIssue {
+  severity: 'error' | 'warning';
+  nodeId?: string;
+  edgeId?: string;
+  message: string;
+}
+
+export interface PlaybookValidation {
+  valid: boolean; // No errors; warnings allowed
+  unreachable: string[]; // Nodes no path from an entry node leads to
+  issues: PlaybookIssue[];
+}
+
+// CRM integration settings (crmIntegrations.fieldMappings / stageMapping)
+export const CRM_TYPES = ['hubspot', 'pipedrive'] as const;
+export type CrmType = typeof CRM_TYPES[number];
+
+export const DEAL_STAGES = ['prospect', 'qualified', 'proposal', 'negotiation', 'closed_won', 'closed_lost'] as const;
+export type DealStage = typeof DEAL_STAGES[number];
+
+/**
+ * CRM property name → source value path: conversation.*, deal.*, metrics.* or lead.* (ICP facts).
+ * The deal stage is translated through the stage mapping, not here.
+ */
+export interface CrmFieldMappings {
+  contact: Record<string, string>;
+  deal: Record<string, string>;
+}
+
+// Our pipeline stage → the CRM's stage id
+export type CrmStageMapping = Partial<Record<DealStage, string>>;
+
+// Win probability model (scoringModels.featureImportances / reliability / metrics)
+export interface ScoringFeatureImportance {
+  feature: string;
+  weight: number; // Logit change per standard deviation
+  importance: number; // Share of the summed absolute weights, 0-1
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number;
+  observedRate: number; // Won share of the deals in the bin
+}
+
+export interface ScoringModelMetrics {
+  auc: number;
+  brierScore: number;
+  logLoss: number;
+  baseRate: number; // Won share of the training set
+  folds: number; // Cross-validation folds behind auc, brierScore, logLoss and reliability
+}
+
+/** Win probability of a conversation (conversations.metadata.leadScore) */
+export interface LeadScore {
+  probability: number;
+  expectedValue: number;
+  modelVersion: number | null; // Null for the hand-weighted fallback used until a model is trained
+  contributions: Array<{ feature: string; value: number; contribution: number }>; // Logit contribution, strongest first
+  traceId?: string; // Reasoning trace shown by the Why panel
+  scoredAt: string;
+}
+
+/** A bookable call with a consultant (meetings.proposedSlots) */
+export interface MeetingSlot {
+  startsAt: string; // ISO instant
+  endsAt: string;
+  availabilityId: string;
+  consultantName: string;
+  consultantEmail?: string | null;
+}
+
+// Sales handoff brief (deals.metadata.leadBrief; deals.conversationSummary holds it as Markdown)
+export const BANT_DIMENSIONS = ['budget', 'authority', 'need', 'timeline'] as const;
+export type BantDimension = typeof BANT_DIMENSIONS[number];
+
+export interface LeadBriefBant {
+  dimension: BantDimension;
+  status: 'confirmed' | 'partial' | 'unknown';
+  score: number; // 0-1 signal strength from the latest metrics
+  detail: string | null; // "10.000 – 25.000 EUR", "CTO"
+}
+
+export interface LeadBriefQuote {
+  text: string;
+  topic: string; // Entity type or BANT dimension the quote backs
+  at: string | null;
+}
+
+export interface LeadBrief {
+  conversationId: string;
+  language: 'es' | 'en';
+  generatedAt: string;
+  contact: {
+    name: string;
+    phone: string;
+    company: string | null;
+    region: string | null;
+    channel: string;
+  };
+  status: string;
+  qualificationScore: number;
+  icpScore: number | null;
+  winProbability: number | null;
+  headline: string;
+  bant: LeadBriefBant[];
+  companyFacts: string[]; // Industry, size, title... from extracted company and person entities
+  technologies: string[];
+  painPoints: string[];
+  quotes: LeadBriefQuote[];
+  openQuestions: string[];
+  nextStep: string;
+  meeting: { startsAt: string; consultantName: string | null } | null;
+}
+
+// Lead enrichment (conversations.metadata.enrichment; company nodes keep the provenance in attributes.provenance)
+export const ENRICHMENT_FIELDS = ['region', 'domain', 'company', 'industry', 'employeeCount', 'revenue', 'city'] as const;
+export type EnrichmentField = typeof ENRICHMENT_FIELDS[number];
+
+export type EnrichmentSource =
+  | 'phone_prefix' // Country calling code of the contact's number
+  | 'email_address' // The contact writes from a company address (email channel)
+  | 'email_signature' // A company address quoted in a message
+  | 'website' // A company website mentioned in a message
+  | 'domain_name' // Company name guessed from the domain, when no provider knows it
+  | 'provider'; // Firmographic lookup
+
+export interface EnrichmentProvenance {
+  source: EnrichmentSource;
+  provider?: string; // Provider name for provider lookups
+  evidence?: string; // What it was derived from: "+52", "ventas@acme.mx"
+  confidence: number; // 0-1
+  enrichedAt: string;
+}
+
+export interface EnrichedValue extends EnrichmentProvenance {
+  value: string | number;
+}
+
+export interface ConversationEnrichment {
+  fields: Partial<Record<EnrichmentField, EnrichedValue>>;
+  lookups: string[]; // Provider queries already run ("domain:acme.mx"), not repeated on later messages
+  updatedAt: string;
+}
+
+// Qualification slots (conversations.metadata.slots): facts the lead stated, one typed value each
+export const QUALIFICATION_SLOTS = ['budget', 'currency', 'decisionMaker', 'timeline', 'currentTools', 'spocHours', 'painPoints'] as const;
+export type QualificationSlot = typeof QUALIFICATION_SLOTS[number];
+
+export interface QualificationSlotValues {
+  budget: { min?: number; max?: number }; // A single amount has min = max; "menos de 5.000" has no min
+  currency: string; // ISO 4217: EUR, MXN
+  decisionMaker: {
+    role: 'decision-maker' | 'influencer' | 'information-gatherer';
+    title?: string; // CEO, Director de operaciones
+    process?: 'individual' | 'committee' | 'unknown';
+  };
+  timeline: { text: string; urgency?: 'high' | 'medium' | 'low' }; // "antes de marzo"
+  currentTools: string[];
+  spocHours: number; // Per week
+  painPoints: string[];
+}
+
+export type SlotSource =
+  | 'nlp' // Extracted from free text
+  | 'button'; // The option the lead tapped
+
+export interface SlotEntry<K extends QualificationSlot = QualificationSlot> {
+  value: QualificationSlotValues[K];
+  confidence: number; // 0-1
+  source: SlotSource;
+  sourceMessageId: string;
+  statedBy?: string; // Title of who said it, when known: CEO
+  evidence?: string; // Phrase or button label it came from
+  capturedAt: string;
+}
+
+export type ConversationSlots = { [K in QualificationSlot]?: SlotEntry<K> };
+
+// Message templates (messageTemplates.variants holds these)
+export const MESSAGE_TEMPLATE_TYPES = [
+  'greeting', // First message
+  'returning_greeting', // First message to a lead who wrote before
+  'acknowledgment', // Reaction to the lead's last answer
+  'transition', // Lead-in when the topic changes
+  'sensitive_question', // Framing for budget and authority questions
+  'question_wrapper' // Framing for other questions
+] as const;
+export type MessageTemplateType = typeof MESSAGE_TEMPLATE_TYPES[number];
+
+export interface MessageTemplateVariant {
+  id: string; // Stable while the text is unchanged; stats are kept per id
+  text: string; // May hold {placeholders}
+}
+
+/** Template and variant a composed message used, recorded on the outgoing message */
+export interface MessageTemplateUse {
+  templateId: string;
+  variantId: string;
+}
+
+// Question bank expected responses (questionBank.expectedResponses holds strings or these)
+export interface ExpectedResponseOption {
+  id: string;
+  label: string; // Button or list row title
+  description?: string; // Shown under list rows only
+  signals?: Record<string, number>; // conversationMetrics columns set directly when picked
+  slots?: Partial<QualificationSlotValues>; // Slot values recorded when picked
+}
+
+// Message metadata types (messages.metadata, keyed by messageType)
+export type InboundMessageType =
+  | 'text' | 'image' | 'document' | 'audio' | 'video' | 'sticker'
+  | 'location' | 'contacts' | 'interactive' | 'button' | 'reaction' | 'unsupported';
+
+export interface BaseMessageMetadata {
+  contact?: { wa_id?: string; profile?: { name?: string } }; // Sender profile from the webhook
+  context?: { from?: string; id?: string }; // Message being replied to
+  referral?: Record<string, any>; // Click-to-WhatsApp ad referral
+}
+
+export interface MediaAttachment {
+  id: string; // Provider media id
+  mimeType?: string;
+  sha256?: string;
+  filename?: string;
+  caption?: string;
+  voice?: boolean;
+  storageKey?: string; // Set once downloaded through the media storage backend
+  size?: number;
+  downloadError?: string;
+}
+
+export type TextMessageMetadata = BaseMessageMetadata;
+
+export interface MediaMessageMetadata extends BaseMessageMetadata {
+  media: MediaAttachment;
+}
+
+export interface LocationMessageMetadata extends BaseMessageMetadata {
+  location: { latitude: number; longitude: number; name?: string; address?: string; url?: string };
+}
+
+export interface SharedContact {
+  name: string;
+  phones: string[];
+  emails: string[];
+  organization?: string;
+  title?: string;
+}
+
+export interface ContactsMessageMetadata extends BaseMessageMetadata {
+  contacts: SharedContact[];
+}
+
+export interface InteractiveReplyMetadata extends BaseMessageMetadata {
+  interactive: {
+    type: 'button_reply' | 'list_reply' | 'quick_reply'; // quick_reply = template button
+    id: string;
+    title: string;
+    description?: string;
+  };
+  questionId?: string; // Question the reply answers, decoded from the reply id
+  structuredSignals?: Record<string, number>; // Metric values from the picked option; NLP is skipped
+}
+
+export interface ReactionMessageMetadata extends BaseMessageMetadata {
+  reaction: { messageId: string; emoji?: string }; // emoji is empty when a reaction is removed
+}
+
+export type InboundMessageMetadata =
+  | TextMessageMetadata
+  | MediaMessageMetadata
+  | LocationMessageMetadata
+  | ContactsMessageMetadata
+  | InteractiveReplyMetadata
+  | ReactionMessageMetadata;
+
 // Metric structure types
 export interface MetricGroup {
   [key: string]: number;
@@ -1711,6 +2450,11 @@ export interface EntityAttributes {
   country?: string;
   language?: string;
   cultural_markers?: string[];
+
+  // Enrichment
+  domain?: string;
+  city?: string;
+  provenance?: Record<string, EnrichmentProvenance>; // Attribute → where enrichment found it
 }
 
 // Knowledge Graph Query Interfaces